@@ -7,10 +7,20 @@ import { useUIStore } from './store/uiStore'
 import { VerticalToolbar } from './components/VerticalToolbar'
 import { ToolSettingsPanel } from './components/ToolSettingsPanel'
 import { usePdfEditorStore } from './store/pdfEditorStore'
+import { useHistoryStore } from './store/historyStore'
 import { SkipLink } from './components/ui'
 import { useDocumentTitle } from './hooks'
 import { ToastContainer } from './components/ToastContainer'
 import { KeyboardShortcutsHelp } from './components/KeyboardShortcutsHelp'
+import { RecentDocuments } from './components/RecentDocuments'
+import { PageThumbnailRail } from './components/PageThumbnailRail'
+import { CommentThreadPanel } from './components/CommentThreadPanel'
+import { AnnotationNavigator } from './components/AnnotationNavigator'
+import { FormDesignPanel } from './components/FormDesignPanel'
+import { SignatureBadge, SignaturesPanel } from './components/SignaturesPanel'
+import { annotationsToXfdf, parseXfdf } from './utils/xfdf'
+import { parseAnnotationsJson } from './utils/annotationSchema'
+import { downloadFile } from './utils/download'
 
 /**
  * Application header component
@@ -52,21 +62,53 @@ function AppHeader({ fileName }: { fileName: string }) {
 
 type RightSidebarProps = {
   onLoadPDF: (data: ArrayBuffer, name: string) => void
+  hasDocument: boolean
+  onJumpToPage: (page: number) => void
 }
 
 function RightSidebar({
   onLoadPDF,
+  hasDocument,
+  onJumpToPage,
 }: RightSidebarProps) {
   return (
     <aside 
-      className="w-96 bg-[var(--pdfoid-surface)] border-l border-[var(--pdfoid-border)] p-4 flex flex-col gap-4"
+      className="w-96 bg-[var(--pdfoid-surface)] border-l border-[var(--pdfoid-border)] p-4 flex flex-col gap-4 overflow-y-auto"
       aria-label="Document tools and analysis"
     >
+      {hasDocument && (
+        <section className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]" aria-label="Annotation navigator">
+          <h2 className="text-lg font-bold text-[var(--pdfoid-text)] mb-3">Review</h2>
+          <AnnotationNavigator onJumpToPage={onJumpToPage} />
+        </section>
+      )}
+      {hasDocument && (
+        <section className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]" aria-label="Comment thread">
+          <h2 className="text-lg font-bold text-[var(--pdfoid-text)] mb-3">Comments</h2>
+          <CommentThreadPanel />
+        </section>
+      )}
+      {hasDocument && (
+        <section className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]" aria-label="Form fields">
+          <h2 className="text-lg font-bold text-[var(--pdfoid-text)] mb-3">Form fields</h2>
+          <FormDesignPanel onJumpToPage={onJumpToPage} />
+        </section>
+      )}
+      {hasDocument && (
+        <section className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]" aria-label="Digital signatures">
+          <h2 className="text-lg font-bold text-[var(--pdfoid-text)] mb-3 flex items-center gap-2">
+            Signatures
+            <SignatureBadge />
+          </h2>
+          <SignaturesPanel onJumpToPage={onJumpToPage} />
+        </section>
+      )}
       {/* Uploader Card */}
       <div className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]">
         <h2 className="text-lg font-bold text-[var(--pdfoid-text)] mb-3">Upload Document</h2>
         <PDFUploader onLoadPDF={onLoadPDF} />
       </div>
+      <RecentDocuments />
     </aside>
   )
 }
@@ -84,8 +126,11 @@ export default function App() {
     selectedAnnotationId,
     deleteAnnotation,
     exportAsJSON,
+    loadAnnotations,
     saveToIndexedDB,
-    loadFromIndexedDB,
+    loadRecentDocuments,
+    setViewState,
+    viewZoom,
   } = useAnnotationStore(
     useShallow((state) => ({
       setStoreCurrentPage: state.setCurrentPage,
@@ -96,19 +141,24 @@ export default function App() {
       selectedAnnotationId: state.selectedAnnotationId,
       deleteAnnotation: state.deleteAnnotation,
       exportAsJSON: state.exportAsJSON,
+      loadAnnotations: state.loadAnnotations,
       saveToIndexedDB: state.saveToIndexedDB,
-      loadFromIndexedDB: state.loadFromIndexedDB,
+      loadRecentDocuments: state.loadRecentDocuments,
+      setViewState: state.setViewState,
+      viewZoom: state.viewState.zoom,
     }))
   )
   
-  // These are now state properties, not function calls
-  const canUndo = useAnnotationStore((s) => s.undoStackLength > 0)
-  const canRedo = useAnnotationStore((s) => s.redoStackLength > 0)
+  // One timeline covers annotation and page edits
+  const canUndo = useHistoryStore((s) => s.entries.length > 0 && !s.locked)
+  const canRedo = useHistoryStore((s) => s.redoEntries.length > 0 && !s.locked)
   
-  const { info, success } = useUIStore(
+  const { info, success, warning, showError } = useUIStore(
     useShallow((s) => ({
       info: s.info,
       success: s.success,
+      warning: s.warning,
+      showError: s.error,
     }))
   )
 
@@ -143,8 +193,11 @@ export default function App() {
   const handleLoadPDF = async (data: ArrayBuffer, name: string) => {
     try {
       await loadDocument(data, name)
-      setCurrentPage(1)
-      setStoreCurrentPage(1)
+      // Resume where this document was left off
+      const savedPage = useAnnotationStore.getState().viewState.currentPage
+      const page = Math.min(Math.max(1, savedPage || 1), usePdfEditorStore.getState().numPages || 1)
+      setCurrentPage(page)
+      setStoreCurrentPage(page)
     } catch (err) {
       console.error('Unable to load PDF document', err)
     }
@@ -156,24 +209,71 @@ export default function App() {
   }
 
   const handleExport = () => {
-    const json = exportAsJSON()
-    const blob = new Blob([json], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = `annotations-${new Date().getTime()}.json`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
+    downloadFile(exportAsJSON(), 'application/json', `annotations-${new Date().getTime()}.json`)
     success('Annotations exported successfully')
   }
 
+  const handleImportJson = async (file: File) => {
+    const result = parseAnnotationsJson(await file.text())
+    if (!result.success) {
+      const { message, issues } = result.error
+      console.warn('Annotation import rejected', issues)
+      const shown = issues.slice(0, 3).map((issue) => `${issue.path}: ${issue.message}`)
+      if (issues.length > 3) shown.push(`…and ${issues.length - 3} more`)
+      showError(message, shown.join('; '))
+      return
+    }
+
+    const { pdfId, numPages } = usePdfEditorStore.getState()
+    const { annotations: parsed, pdfId: sourceId, fileName: sourceName } = result.data
+    const imported = parsed.filter((a) => a.page <= numPages)
+    if (!imported.length) {
+      warning('No annotations to import for this document')
+      return
+    }
+    const importedIds = new Set(imported.map((a) => a.id))
+    const current = useAnnotationStore.getState().annotations
+    loadAnnotations([...current.filter((a) => !importedIds.has(a.id)), ...imported], { undoable: true, label: `Imported ${imported.length} annotations from JSON` })
+
+    const skipped = parsed.length - imported.length
+    success(`Imported ${imported.length} annotation${imported.length === 1 ? '' : 's'}`, skipped ? `${skipped} on pages beyond this document were skipped` : undefined)
+    if (sourceId && pdfId && sourceId !== pdfId) {
+      warning('Annotations came from a different PDF', sourceName ? `Source: ${sourceName}` : undefined)
+    }
+  }
+
+  const handleExportXfdf = () => {
+    const { pageSizes, fileName: pdfName } = usePdfEditorStore.getState()
+    const xfdf = annotationsToXfdf(useAnnotationStore.getState().annotations, pageSizes ?? [], { fileName: pdfName })
+    const baseName = (pdfName || 'annotations').replace(/\.pdf$/i, '')
+    downloadFile(xfdf, 'application/vnd.adobe.xfdf', `${baseName}.xfdf`)
+    success('Annotations exported as XFDF')
+  }
+
+  const handleImportXfdf = async (file: File) => {
+    try {
+      const { pageSizes } = usePdfEditorStore.getState()
+      const { annotations: imported, skipped } = parseXfdf(await file.text(), pageSizes ?? [])
+      if (!imported.length) {
+        warning('No supported annotations found in XFDF file')
+        return
+      }
+      // Same-name annotations are replaced so re-importing a review round is idempotent
+      const importedIds = new Set(imported.map((a) => a.id))
+      const current = useAnnotationStore.getState().annotations
+      loadAnnotations([...current.filter((a) => !importedIds.has(a.id)), ...imported], { undoable: true, label: `Imported ${imported.length} annotations from XFDF` })
+      success(`Imported ${imported.length} annotation${imported.length === 1 ? '' : 's'}`, skipped ? `${skipped} unsupported item(s) skipped` : undefined)
+    } catch (err: any) {
+      console.error('XFDF import failed', err)
+      showError('XFDF import failed', err?.message)
+    }
+  }
+
   useEffect(() => {
-    loadFromIndexedDB('default').catch((err) => {
-      console.error('Failed to restore annotations', err)
+    loadRecentDocuments().catch((err) => {
+      console.error('Failed to restore recent documents', err)
     })
-  }, [loadFromIndexedDB])
+  }, [loadRecentDocuments])
 
   // Dynamic document title
   useDocumentTitle(fileName ? `${fileName} - PDFoid` : 'PDFoid - PDF Viewer & Editor')
@@ -204,14 +304,25 @@ export default function App() {
       const toolMap: Record<string, Parameters<typeof selectTool>[0]> = {
         v: 'pointer',
         h: 'highlight',
+        u: 'underline',
+        k: 'strikeout',
         d: 'pen',
         r: 'rectangle',
+        o: 'ellipse',
+        l: 'line',
+        a: 'arrow',
+        p: 'polyline',
+        g: 'polygon',
+        c: 'cloud',
         t: 'text-box',
         n: 'sticky-note',
         s: 'signature',
+        m: 'form-field',
+        x: 'redact',
         e: 'eraser',
       }
-      if (toolMap[key]) {
+      // Ctrl/Cmd combinations such as cut (Ctrl+X) are not tool shortcuts
+      if (toolMap[key] && !isCtrl) {
         selectTool(toolMap[key])
       }
 
@@ -243,16 +354,30 @@ export default function App() {
             onUndo={undoStore}
             onRedo={redoStore}
             onExport={handleExport}
+            onImportJson={handleImportJson}
+            onExportXfdf={handleExportXfdf}
+            onImportXfdf={handleImportXfdf}
             onSave={saveToIndexedDB}
             currentPage={currentPage}
             onForcePageChange={handlePageChange}
           />
         )}
 
+        {viewerData && (
+          <PageThumbnailRail currentPage={currentPage} onPageChange={handlePageChange} />
+        )}
+
         {/* Main content: PDF Viewer */}
         <main id="main-content" className="flex-1 flex flex-col overflow-hidden" role="main">
           {viewerData ? (
-            <PDFViewer key={pdfRevision} pdfData={viewerData} onPageChange={handlePageChange} targetPage={currentPage} />
+            <PDFViewer
+              key={pdfRevision}
+              pdfData={viewerData}
+              onPageChange={handlePageChange}
+              targetPage={currentPage}
+              initialZoom={viewZoom}
+              onZoomChange={(zoom) => setViewState({ zoom })}
+            />
           ) : (
             <div className="flex-1 flex flex-col items-center justify-center text-center px-8 bg-[var(--pdfoid-bg)]">
               <div className="w-24 h-24 bg-[var(--pdfoid-surface)] rounded-3xl flex items-center justify-center mb-6 shadow-md border border-[var(--pdfoid-border)]" aria-hidden="true">
@@ -269,6 +394,8 @@ export default function App() {
         {/* Right Sidebar */}
         <RightSidebar
           onLoadPDF={handleLoadPDF}
+          hasDocument={!!viewerData}
+          onJumpToPage={handlePageChange}
         />
       </div>
       {editorError && (
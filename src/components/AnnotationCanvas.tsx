@@ -1,15 +1,45 @@
 /**
  * AnnotationCanvas - Overlay canvas for drawing annotations
  * Rendered on top of PDF canvas, handles user interactions
- * Features: highlight, pen (freehand), rectangle, sticky-note, text-box
+ * Features: highlight, underline, strikeout, pen (freehand), shapes, sticky-note, text-box
  */
 
 import React, { useRef, useEffect, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useAnnotationStore } from '../store/annotationStore';
-import { Annotation, AnnotationType } from '../types/annotations';
+import { Annotation, AnnotationType, TextRun } from '../types/annotations';
 import { usePdfEditorStore } from '../store/pdfEditorStore';
 import { useUIStore } from '../store/uiStore';
+import { quadBounds, selectTextRange, type PageTextItem, type TextQuad } from '../utils/pageText';
+import { MARKUP_LINE_OFFSET, MARKUP_LINE_WIDTH, shapeLineWidth } from '../utils/pdfAnnotations';
+import {
+  FILLABLE_SHAPES,
+  OPEN_SHAPES,
+  VERTEX_SHAPES,
+  dashArray,
+  headSize,
+  isShape,
+  pathPoints,
+  resizeShape,
+  shapeExtent,
+  shapeGeometry,
+  type PathCommand,
+} from '../utils/shapes';
+import { REDACTION, TEXT_BOX } from '../constants';
+import { DEFAULT_FIELD_SIZE, isFormFieldDesign, nextFieldName, nextRadioOption, nextTabOrder } from '../utils/formDesign';
+import {
+  UNDERLINE_OFFSET,
+  UNDERLINE_WIDTH,
+  cssFont,
+  editRuns,
+  isWrappingTextBox,
+  rangeStyle,
+  runFields,
+  runsOf,
+  styleRange,
+  textBoxFrame,
+  type RunStyle,
+} from '../utils/richText';
 
 interface AnnotationCanvasProps {
   pdfScale: number;
@@ -39,6 +69,18 @@ const SIGNATURE_DEFAULT_HEIGHT = 90;
 const SIGNATURE_MIN_WIDTH = 40;
 const SIGNATURE_MIN_HEIGHT = 24;
 
+// Smallest side a shape can be resized to, in pixels
+const SHAPE_MIN_SIZE = 4;
+// Vertices closer than this, in pixels, are one click (the second half of a double-click)
+const VERTEX_MERGE_DISTANCE = 3;
+
+// Tools that snap to the PDF text under the drag
+const TEXT_MARKUP_TOOLS = ['highlight', 'underline', 'strikeout', 'redact'];
+
+// Designed form fields: a tinted box labelled with the field name
+const FORM_FIELD_COLOR = '#2563EB';
+const FORM_FIELD_GLYPHS = { text: 'T', checkbox: '☐', radio: '◉', dropdown: '▾', signature: '✍' } as const;
+
 export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
   pdfScale,
   pageWidth,
@@ -52,11 +94,14 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
   const [startX, setStartX] = useState(0);
   const [startY, setStartY] = useState(0);
   const [points, setPoints] = useState<[number, number][]>([]);
+  // Polyline and polygon vertices placed so far, one per click
+  const [vertexDraft, setVertexDraft] = useState<[number, number][] | null>(null);
   const [showNoteModal, setShowNoteModal] = useState(false);
   const [noteText, setNoteText] = useState('');
   const [notePosition, setNotePosition] = useState({ x: 0, y: 0 });
   const [stickyEditingId, setStickyEditingId] = useState<string | null>(null);
-  const [editingAnnotation, setEditingAnnotation] = useState<{ id: string; text: string } | null>(null);
+  const [editingAnnotation, setEditingAnnotation] = useState<{ id: string; text: string; runs: TextRun[] } | null>(null);
+  const [editingSelection, setEditingSelection] = useState({ start: 0, end: 0 });
   const editingRef = useRef<HTMLTextAreaElement | null>(null);
   const lastEditingIdRef = useRef<string | null>(null);
   const hasReceivedFocusRef = useRef<boolean>(false);
@@ -78,12 +123,65 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     getAnnotationById,
     setSelectedAnnotation,
     selectedFontSize,
+    textBoxStyle,
+    shapeStyle,
+    formFieldType,
   } = useAnnotationStore();
 
   const warning = useUIStore((s) => s.warning);
+  const pdfData = usePdfEditorStore((s) => s.pdfData);
 
   const tool = selectedTool as string;
 
+  // Text runs of the current page, read once per page while a text markup tool is active
+  const pageTextCacheRef = useRef<{ data?: Uint8Array; pages: Map<number, PageTextItem[]> }>({ pages: new Map() });
+  const [pageText, setPageText] = useState<PageTextItem[] | null>(null);
+
+  useEffect(() => {
+    if (!TEXT_MARKUP_TOOLS.includes(tool) || !pdfData) return;
+    const cache = pageTextCacheRef.current;
+    if (cache.data !== pdfData) {
+      cache.data = pdfData;
+      cache.pages = new Map();
+    }
+    const cached = cache.pages.get(currentPage);
+    if (cached) {
+      setPageText(cached);
+      return;
+    }
+    let cancelled = false;
+    setPageText(null);
+    usePdfEditorStore.getState().readPageText([currentPage])
+      .then((byPage) => {
+        const items = byPage.get(currentPage) ?? [];
+        cache.pages.set(currentPage, items);
+        if (!cancelled) setPageText(items);
+      })
+      .catch((error) => console.warn('Could not read page text; text markup falls back to areas', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [tool, currentPage, pdfData]);
+
+  useEffect(() => {
+    clearVertexDraft();
+  }, [tool, currentPage]);
+
+  // Enter finishes a polyline or polygon, Escape drops it
+  useEffect(() => {
+    if (!vertexDraft) return;
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        finishVertexShape(vertexDraft);
+      } else if (event.key === 'Escape') {
+        clearVertexDraft();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   // Redraw all annotations
   useEffect(() => {
     redrawAnnotations();
@@ -313,9 +411,8 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     };
   };
 
-  const isPointInStickyResizeHandle = (annotation: Annotation, px: number, py: number) => {
-    if (annotation.type !== 'sticky-note') return false;
-    const bounds = getAnnotationBoundsPx(annotation);
+  // Bottom-right resize handle of sticky notes, signatures, text boxes and shapes
+  const isPointInResizeHandle = (bounds: { right: number; bottom: number }, px: number, py: number) => {
     const handleLeft = bounds.right - STICKY_HANDLE_SIZE;
     const handleTop = bounds.bottom - STICKY_HANDLE_SIZE;
     return (
@@ -326,18 +423,17 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     );
   };
 
-  const isPointInSignatureResizeHandle = (annotation: Annotation, px: number, py: number) => {
-    if (annotation.type !== 'signature') return false;
-    const bounds = getAnnotationBoundsPx(annotation);
-    const handleLeft = bounds.right - STICKY_HANDLE_SIZE;
-    const handleTop = bounds.bottom - STICKY_HANDLE_SIZE;
-    return (
-      px >= handleLeft - STICKY_HANDLE_HIT_PAD &&
-      px <= bounds.right + STICKY_HANDLE_HIT_PAD &&
-      py >= handleTop - STICKY_HANDLE_HIT_PAD &&
-      py <= bounds.bottom + STICKY_HANDLE_HIT_PAD
-    );
-  };
+  const isPointInStickyResizeHandle = (annotation: Annotation, px: number, py: number) =>
+    annotation.type === 'sticky-note' && isPointInResizeHandle(getAnnotationBoundsPx(annotation), px, py);
+
+  const isPointInSignatureResizeHandle = (annotation: Annotation, px: number, py: number) =>
+    annotation.type === 'signature' && isPointInResizeHandle(getAnnotationBoundsPx(annotation), px, py);
+
+  const isPointInTextBoxResizeHandle = (annotation: Annotation, px: number, py: number) =>
+    isWrappingTextBox(annotation) && isPointInResizeHandle(getAnnotationBoundsPx(annotation), px, py);
+
+  const isPointInShapeResizeHandle = (annotation: Annotation, px: number, py: number) =>
+    (isShape(annotation.type) || annotation.type === 'form-field') && isPointInResizeHandle(getAnnotationBoundsPx(annotation), px, py);
 
   const openStickyEditor = (annotation: Annotation) => {
     if (annotation.type !== 'sticky-note') return;
@@ -349,33 +445,22 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     setShowNoteModal(true);
   };
 
-  const getTextMetrics = (annotation: Annotation) => {
-    const fontSize = annotation.fontSize || selectedFontSize || 16;
-    const textLength = Math.max(annotation.text?.length || 0, 1);
-    const widthPx = Math.max(fontSize * 0.6 * textLength, fontSize * 3);
-    const ascentPx = fontSize * 0.85;
-    const descentPx = fontSize * 0.3;
-    const heightPx = ascentPx + descentPx;
-    return { fontSize, widthPx, ascentPx, descentPx, heightPx };
-  };
+  // Text boxes are laid out in PDF points, as in exported files, and scaled to the view
+  const pointScale = Math.max(pdfScale, 0.01);
+  const getTextBoxFrame = (annotation: Annotation) =>
+    textBoxFrame(annotation, Math.max(1, pageWidth) / pointScale, Math.max(1, pageHeight) / pointScale, selectedFontSize || 16);
 
   const getAnnotationBoundsNormalized = (annotation: Annotation) => {
     const safeWidth = Math.max(1, pageWidth);
     const safeHeight = Math.max(1, pageHeight);
 
     if (annotation.type === 'text-box') {
-      const metrics = getTextMetrics(annotation);
-      const padX = 6;
-      const padY = 4;
-      const widthNorm = (metrics.widthPx + padX * 2) / safeWidth;
-      const heightNorm = (metrics.heightPx + padY * 2) / safeHeight;
-      const top = annotation.startY - (metrics.ascentPx + padY) / safeHeight;
-      const left = annotation.startX - padX / safeWidth;
+      const frame = getTextBoxFrame(annotation);
       return {
-        left,
-        top,
-        width: widthNorm,
-        height: heightNorm,
+        left: (frame.left * pointScale) / safeWidth,
+        top: (frame.top * pointScale) / safeHeight,
+        width: (frame.width * pointScale) / safeWidth,
+        height: (frame.height * pointScale) / safeHeight,
       };
     }
 
@@ -404,6 +489,20 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       };
     }
 
+    if (isShape(annotation.type)) {
+      const extent = shapeExtent(annotation);
+      const lineWidth = shapeLineWidth(annotation);
+      const padPx = (lineWidth / 2 + (annotation.type === 'arrow' ? headSize(lineWidth).halfWidth : 0)) * pointScale;
+      const padX = Math.max(padPx / safeWidth, 0.003);
+      const padY = Math.max(padPx / safeHeight, 0.003);
+      return {
+        left: extent.left - padX,
+        top: extent.top - padY,
+        width: extent.width + padX * 2,
+        height: extent.height + padY * 2,
+      };
+    }
+
     if (annotation.type === 'pen' && annotation.points && annotation.points.length > 0) {
       const xs = annotation.points.map((p) => p[0]);
       const ys = annotation.points.map((p) => p[1]);
@@ -484,6 +583,14 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         clamp01(py + clampedDy),
       ]) as [number, number][];
     }
+    if (annotation.quads) {
+      next.quads = annotation.quads.map(([l, t, r, b]) => [
+        clamp01(l + clampedDx),
+        clamp01(t + clampedDy),
+        clamp01(r + clampedDx),
+        clamp01(b + clampedDy),
+      ]) as TextQuad[];
+    }
 
     return next;
   };
@@ -499,10 +606,10 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     }
 
     if (mode === 'commit' && target.type === 'text-box') {
-      const nextText = editingAnnotation.text;
+      const next = runFields(editingAnnotation.runs);
       const previousSnapshot = cloneAnnotation(target);
-      if ((target.text ?? '') !== nextText) {
-        updateAnnotation(target.id, { text: nextText }, { previous: previousSnapshot });
+      if ((target.text ?? '') !== next.text || JSON.stringify(runsOf(target)) !== JSON.stringify(runsOf(next))) {
+        updateAnnotation(target.id, next, { previous: previousSnapshot });
       }
     }
 
@@ -512,7 +619,9 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
   const beginEditing = (annotation: Annotation) => {
     if (annotation.type !== 'text-box') return;
     finishEditing('commit');
-    setEditingAnnotation({ id: annotation.id, text: annotation.text ?? '' });
+    const text = annotation.text ?? '';
+    setEditingAnnotation({ id: annotation.id, text, runs: runsOf(annotation) });
+    setEditingSelection({ start: text.length, end: text.length });
   };
 
   const extractGeometry = (annotation: Annotation): Partial<Annotation> => ({
@@ -521,10 +630,180 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     endX: annotation.endX,
     endY: annotation.endY,
     points: annotation.points ? annotation.points.map(([px, py]) => [px, py] as [number, number]) : undefined,
+    quads: annotation.quads ? annotation.quads.map((q) => [...q] as TextQuad) : undefined,
     width: annotation.width,
     height: annotation.height,
   });
 
+  // Highlights fill each line; underlines and strikeouts stroke below the baseline or through the middle
+  const drawTextMarkup = (ctx: CanvasRenderingContext2D, type: string, quads: TextQuad[]) => {
+    quads.forEach(([l, t, r, b]) => {
+      const left = toPxX(l);
+      const top = toPxY(t);
+      const right = toPxX(r);
+      const bottom = toPxY(b);
+      const height = bottom - top;
+      if (type === 'highlight') {
+        ctx.fillRect(left, top, right - left, height);
+        return;
+      }
+      const y = bottom - height * MARKUP_LINE_OFFSET[type as 'underline' | 'strikeout'];
+      ctx.lineWidth = Math.max(1, height * MARKUP_LINE_WIDTH);
+      ctx.beginPath();
+      ctx.moveTo(left, y);
+      ctx.lineTo(right, y);
+      ctx.stroke();
+    });
+  };
+
+  // Pending redactions: a see-through fill with a dashed outline, so the content under them stays reviewable
+  const drawRedactMark = (ctx: CanvasRenderingContext2D, quads: TextQuad[]) => {
+    ctx.save();
+    ctx.setLineDash([4, 3]);
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = REDACTION.MARK_COLOR;
+    quads.forEach(([l, t, r, b]) => {
+      const left = toPxX(l);
+      const top = toPxY(t);
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = REDACTION.FILL_COLOR;
+      ctx.fillRect(left, top, toPxX(r) - left, toPxY(b) - top);
+      ctx.globalAlpha = 1;
+      ctx.strokeRect(left, top, toPxX(r) - left, toPxY(b) - top);
+    });
+    ctx.restore();
+  };
+
+  // Background, border and laid-out runs; while editing only the box is drawn under the editor
+  const drawTextBox = (ctx: CanvasRenderingContext2D, annotation: Annotation, withText: boolean) => {
+    const frame = getTextBoxFrame(annotation);
+    const fontSize = annotation.fontSize || selectedFontSize || 16;
+    const s = pointScale;
+    ctx.save();
+    ctx.globalAlpha = annotation.opacity ?? 1;
+    if (annotation.fillColor) {
+      ctx.fillStyle = annotation.fillColor;
+      ctx.fillRect(frame.left * s, frame.top * s, frame.width * s, frame.height * s);
+    }
+    const borderWidth = annotation.borderColor ? annotation.borderWidth ?? 0 : 0;
+    if (borderWidth > 0) {
+      ctx.lineWidth = borderWidth * s;
+      ctx.strokeStyle = annotation.borderColor!;
+      ctx.strokeRect(
+        (frame.left + borderWidth / 2) * s,
+        (frame.top + borderWidth / 2) * s,
+        (frame.width - borderWidth) * s,
+        (frame.height - borderWidth) * s,
+      );
+    }
+    if (withText) {
+      if (frame.clip) {
+        ctx.beginPath();
+        ctx.rect(frame.left * s, frame.top * s, frame.width * s, frame.height * s);
+        ctx.clip();
+      }
+      ctx.fillStyle = annotation.color || '#111827';
+      ctx.textBaseline = 'alphabetic';
+      frame.layout.lines.forEach((line) => {
+        const baseline = (frame.textTop + line.baseline) * s;
+        line.segments.forEach((segment) => {
+          const x = (frame.textLeft + segment.x) * s;
+          ctx.font = cssFont(annotation.fontFamily, segment.style, fontSize * s);
+          ctx.fillText(segment.text, x, baseline);
+          if (segment.style.underline) {
+            const thickness = Math.max(1, fontSize * UNDERLINE_WIDTH * s);
+            ctx.fillRect(x, baseline + fontSize * UNDERLINE_OFFSET * s - thickness / 2, segment.width * s, thickness);
+          }
+        });
+      });
+    }
+    ctx.restore();
+  };
+
+  const tracePath = (ctx: CanvasRenderingContext2D, commands: PathCommand[], s: number) => {
+    ctx.beginPath();
+    commands.forEach((command) => {
+      if (command[0] === 'M') ctx.moveTo(command[1] * s, command[2] * s);
+      else if (command[0] === 'L') ctx.lineTo(command[1] * s, command[2] * s);
+      else if (command[0] === 'C') ctx.bezierCurveTo(command[1] * s, command[2] * s, command[3] * s, command[4] * s, command[5] * s, command[6] * s);
+      else ctx.closePath();
+    });
+  };
+
+  // Shapes are laid out in PDF points like their exported appearance, then scaled to the view
+  const drawShape = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    const lineWidth = shapeLineWidth(annotation);
+    const s = pointScale;
+    const geometry = shapeGeometry(annotation, Math.max(1, pageWidth) / s, Math.max(1, pageHeight) / s, lineWidth);
+    const fill = annotation.fillColor && FILLABLE_SHAPES.includes(annotation.type) ? annotation.fillColor : undefined;
+    ctx.save();
+    ctx.lineWidth = lineWidth * s;
+    ctx.setLineDash(dashArray(annotation.dashStyle, lineWidth).map((length) => length * s));
+    if (annotation.type === 'rectangle') {
+      const corners = pathPoints(geometry.outline.commands);
+      const xs = corners.map((p) => p[0] * s);
+      const ys = corners.map((p) => p[1] * s);
+      const left = Math.min(...xs);
+      const top = Math.min(...ys);
+      if (fill) {
+        ctx.fillStyle = fill;
+        ctx.fillRect(left, top, Math.max(...xs) - left, Math.max(...ys) - top);
+      }
+      ctx.strokeRect(left, top, Math.max(...xs) - left, Math.max(...ys) - top);
+    } else {
+      tracePath(ctx, geometry.outline.commands, s);
+      if (fill) {
+        ctx.fillStyle = fill;
+        ctx.fill();
+      }
+      ctx.stroke();
+    }
+    // Heads are solid even on dashed lines, and closed heads take the line colour
+    ctx.setLineDash([]);
+    geometry.heads.forEach((head) => {
+      tracePath(ctx, head.commands, s);
+      if (head.closed) {
+        ctx.fillStyle = annotation.color || '#FF0000';
+        ctx.fill();
+      }
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
+
+  const drawFormField = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+    const r = rectFrom(
+      toPxX(annotation.startX),
+      toPxY(annotation.startY),
+      toPxX(annotation.endX ?? annotation.startX),
+      toPxY(annotation.endY ?? annotation.startY),
+    );
+    ctx.save();
+    ctx.globalAlpha = 0.12;
+    ctx.fillStyle = FORM_FIELD_COLOR;
+    ctx.fillRect(r.left, r.top, r.width, r.height);
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = FORM_FIELD_COLOR;
+    if (annotation.fieldType === 'signature') ctx.setLineDash([4, 3]);
+    ctx.strokeRect(r.left, r.top, r.width, r.height);
+    const fontSize = Math.max(7, Math.min(11, r.height - 4));
+    ctx.fillStyle = FORM_FIELD_COLOR;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    const label = annotation.fieldType === 'radio' ? annotation.fieldOption : annotation.fieldName;
+    const text = `${FORM_FIELD_GLYPHS[annotation.fieldType ?? 'text']} ${label ?? ''}${annotation.required ? ' *' : ''}`;
+    ctx.fillText(text, r.left + 2, r.top + r.height / 2, Math.max(1, r.width - 4));
+    ctx.restore();
+  };
+
+  const selectMarkupText = (x1: number, y1: number, x2: number, y2: number) => {
+    if (!pageText?.length) return null;
+    const safeWidth = Math.max(1, pageWidth);
+    const safeHeight = Math.max(1, pageHeight);
+    return selectTextRange(pageText, { x: x1 / safeWidth, y: y1 / safeHeight }, { x: x2 / safeWidth, y: y2 / safeHeight });
+  };
+
   const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
     ctx.globalAlpha = annotation.opacity ?? 1;
     ctx.strokeStyle = annotation.color || '#FF0000';
@@ -539,13 +818,40 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     switch (annotation.type) {
       case 'highlight': {
         ctx.globalAlpha = 0.3;
+        if (annotation.quads?.length) {
+          drawTextMarkup(ctx, 'highlight', annotation.quads);
+          break;
+        }
         const r = rectFrom(x1, y1, x2, y2);
         ctx.fillRect(r.left, r.top, r.width, r.height);
         break;
       }
-      case 'rectangle': {
-        const r = rectFrom(x1, y1, x2, y2);
-        ctx.strokeRect(r.left, r.top, r.width, r.height);
+      case 'underline':
+      case 'strikeout': {
+        drawTextMarkup(ctx, annotation.type, annotation.quads ?? [[annotation.startX, annotation.startY, annotation.endX ?? annotation.startX, annotation.endY ?? annotation.startY]]);
+        break;
+      }
+      case 'rectangle':
+      case 'ellipse':
+      case 'line':
+      case 'arrow':
+      case 'polyline':
+      case 'polygon':
+      case 'cloud': {
+        drawShape(ctx, annotation);
+        break;
+      }
+      case 'form-field': {
+        drawFormField(ctx, annotation);
+        break;
+      }
+      case 'redact': {
+        drawRedactMark(ctx, annotation.quads ?? [[
+          Math.min(annotation.startX, annotation.endX ?? annotation.startX),
+          Math.min(annotation.startY, annotation.endY ?? annotation.startY),
+          Math.max(annotation.startX, annotation.endX ?? annotation.startX),
+          Math.max(annotation.startY, annotation.endY ?? annotation.startY),
+        ]]);
         break;
       }
       case 'pen': {
@@ -636,16 +942,10 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       }
       case 'text-box': {
         if (editingAnnotation?.id === annotation.id) {
+          drawTextBox(ctx, { ...annotation, ...runFields(editingAnnotation.runs) }, false);
           break;
         }
-        if (annotation.text) {
-          const fontSize = annotation.fontSize || selectedFontSize || 16;
-          ctx.fillStyle = annotation.color || '#111827';
-          ctx.globalAlpha = annotation.opacity ?? 1;
-          ctx.font = `${fontSize}px ${annotation.fontFamily || 'Arial'}`;
-          ctx.textBaseline = 'alphabetic';
-          ctx.fillText(annotation.text, x1, y1);
-        }
+        drawTextBox(ctx, annotation, true);
         break;
       }
       case 'signature': {
@@ -699,7 +999,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         ctx.restore();
       }
 
-      if (annotation.type === 'signature') {
+      if (annotation.type === 'signature' || annotation.type === 'form-field' || isWrappingTextBox(annotation) || isShape(annotation.type)) {
         ctx.save();
         ctx.fillStyle = '#6366F1';
         ctx.globalAlpha = 0.9;
@@ -743,6 +1043,20 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       return false;
     }
 
+    // Open shapes and unfilled polygons are hit along their lines, other shapes anywhere inside
+    if (OPEN_SHAPES.includes(ann.type) || (ann.type === 'polygon' && !ann.fillColor)) {
+      const pts: [number, number][] = (ann.points?.length ? ann.points : [
+        [ann.startX, ann.startY],
+        [ann.endX ?? ann.startX, ann.endY ?? ann.startY],
+      ]).map(([nx, ny]) => [toPxX(nx), toPxY(ny)] as [number, number]);
+      if (ann.type === 'polygon') pts.push(pts[0]);
+      const localTol = Math.max(tol, (shapeLineWidth(ann) * pointScale) / 2 + 2);
+      for (let i = 0; i < pts.length - 1; i++) {
+        if (distanceToSegment(px, py, pts[i][0], pts[i][1], pts[i + 1][0], pts[i + 1][1]) <= localTol) return true;
+      }
+      return pts.length === 1 && Math.hypot(px - pts[0][0], py - pts[0][1]) <= localTol;
+    }
+
     const bounds = getAnnotationBoundsPx(ann);
     return (
       px >= bounds.left - tol &&
@@ -752,6 +1066,83 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     );
   };
 
+  // The current shape style, limited to what the shape type uses
+  const shapeStyleFor = (type: AnnotationType): Partial<Annotation> => ({
+    fillColor: FILLABLE_SHAPES.includes(type) ? shapeStyle.fillColor : undefined,
+    dashStyle: shapeStyle.dashStyle,
+    lineEndings: type === 'arrow' ? shapeStyle.lineEndings : undefined,
+  });
+
+  const draftShape = (vertices: [number, number][]): Annotation => ({
+    id: 'draft',
+    type: tool as AnnotationType,
+    page: currentPage,
+    createdAt: '',
+    startX: vertices[0]?.[0] ?? 0,
+    startY: vertices[0]?.[1] ?? 0,
+    color: selectedColor,
+    strokeWidth: selectedThickness,
+    points: vertices,
+    ...shapeStyleFor(tool as AnnotationType),
+  });
+
+  const clearVertexDraft = () => {
+    setVertexDraft(null);
+    previewCanvasRef.current?.getContext('2d')?.clearRect(0, 0, pageWidth, pageHeight);
+  };
+
+  // Polylines need two points and polygons three; fewer are discarded
+  const finishVertexShape = (vertices: [number, number][]) => {
+    clearVertexDraft();
+    if (vertices.length < (tool === 'polygon' ? 3 : 2)) return;
+    const annotation: Annotation = {
+      ...draftShape(vertices),
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      opacity: selectedOpacity,
+    };
+    addAnnotation(annotation);
+    setSelectedAnnotation(annotation.id);
+  };
+
+  // A click places a field of the default size for its type. A new radio button
+  // joins the group of the selected one, so a group is drawn button by button.
+  const addFormField = (x1: number, y1: number, x2: number, y2: number) => {
+    const safeWidth = Math.max(1, pageWidth);
+    const safeHeight = Math.max(1, pageHeight);
+    if (Math.abs(x2 - x1) < SHAPE_MIN_SIZE && Math.abs(y2 - y1) < SHAPE_MIN_SIZE) {
+      const size = DEFAULT_FIELD_SIZE[formFieldType];
+      x2 = Math.min(x1 + size.width * pointScale, safeWidth);
+      y2 = Math.min(y1 + size.height * pointScale, safeHeight);
+    }
+    const selected = selectedAnnotationId ? getAnnotationById(selectedAnnotationId) : undefined;
+    const group = formFieldType === 'radio' && selected?.type === 'form-field' && selected.fieldType === 'radio'
+      ? selected.fieldName
+      : undefined;
+    const taken = [
+      ...annotations.filter(isFormFieldDesign).map((ann) => ann.fieldName ?? ''),
+      ...usePdfEditorStore.getState().formFields.map((field) => field.name),
+    ];
+    const fieldName = group ?? nextFieldName(formFieldType, taken);
+    const annotation: Annotation = {
+      id: uuidv4(),
+      type: 'form-field',
+      page: currentPage,
+      createdAt: new Date().toISOString(),
+      startX: clamp01(Math.min(x1, x2) / safeWidth),
+      startY: clamp01(Math.min(y1, y2) / safeHeight),
+      endX: clamp01(Math.max(x1, x2) / safeWidth),
+      endY: clamp01(Math.max(y1, y2) / safeHeight),
+      fieldType: formFieldType,
+      fieldName,
+      tabOrder: nextTabOrder(annotations),
+      ...(formFieldType === 'radio' && { fieldOption: nextRadioOption(fieldName, annotations) }),
+      ...(formFieldType === 'dropdown' && { options: [] }),
+    };
+    addAnnotation(annotation);
+    setSelectedAnnotation(annotation.id);
+  };
+
   const getCanvasCoords = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
@@ -807,7 +1198,10 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         if (concrete) {
           const isSticky = concrete.type === 'sticky-note';
           const isSignature = concrete.type === 'signature';
-          const resizeHit = (isSticky && isPointInStickyResizeHandle(concrete, x, y)) || (isSignature && isPointInSignatureResizeHandle(concrete, x, y));
+          const resizeHit = (isSticky && isPointInStickyResizeHandle(concrete, x, y))
+            || (isSignature && isPointInSignatureResizeHandle(concrete, x, y))
+            || isPointInTextBoxResizeHandle(concrete, x, y)
+            || isPointInShapeResizeHandle(concrete, x, y);
 
           if (e.detail >= 2) {
             if (concrete.type === 'text-box') {
@@ -848,7 +1242,8 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
             continue;
           }
           setSelectedAnnotation(concrete.id);
-          if (e.detail >= 2) {
+          const resizeHit = isPointInTextBoxResizeHandle(concrete, x, y);
+          if (e.detail >= 2 && !resizeHit) {
             dragStateRef.current = null;
             beginEditing(concrete);
             return;
@@ -861,23 +1256,30 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
             original,
             hasMoved: false,
             lastApplied: cloneAnnotation(concrete),
-            mode: 'move',
+            mode: resizeHit ? 'resize' : 'move',
           };
           return;
         }
       }
 
+      // New boxes wrap at a default width from the click point, kept on the page
+      const safeWidth = Math.max(1, pageWidth);
+      const safeHeight = Math.max(1, pageHeight);
+      const boxWidthPx = Math.min(TEXT_BOX.DEFAULT_WIDTH * pointScale, safeWidth);
       const id = uuidv4();
       const annotation: Annotation = {
         id,
         type: 'text-box',
         page: currentPage,
         createdAt: new Date().toISOString(),
-        startX: x / pageWidth,
-        startY: y / pageHeight,
+        startX: clamp(x, 0, safeWidth - boxWidthPx) / safeWidth,
+        startY: clamp01(y / safeHeight),
+        width: boxWidthPx / safeWidth,
+        height: 0,
         color: selectedColor,
         text: '',
         fontSize: selectedFontSize,
+        ...textBoxStyle,
       };
       addAnnotation(annotation);
       setSelectedAnnotation(id);
@@ -952,6 +1354,18 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       return;
     }
 
+    if (VERTEX_SHAPES.includes(tool as AnnotationType)) {
+      const draft = vertexDraft ?? [];
+      if (e.detail >= 2 && draft.length) {
+        finishVertexShape(draft);
+        return;
+      }
+      const last = draft[draft.length - 1];
+      if (last && Math.hypot(x - toPxX(last[0]), y - toPxY(last[1])) < VERTEX_MERGE_DISTANCE) return;
+      setVertexDraft([...draft, [clamp01(x / Math.max(1, pageWidth)), clamp01(y / Math.max(1, pageHeight))]]);
+      return;
+    }
+
     setIsDrawing(true);
     setStartX(x);
     setStartY(y);
@@ -1002,6 +1416,65 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
           return;
         }
 
+        if (drag.mode === 'resize' && drag.original.type === 'text-box') {
+          const safeWidth = Math.max(pageWidth, 1);
+          const safeHeight = Math.max(pageHeight, 1);
+          const base = getAnnotationBoundsNormalized(drag.original);
+          const minWidthNorm = Math.min((TEXT_BOX.MIN_WIDTH * pointScale) / safeWidth, 1);
+          const nextWidth = clamp(base.width + (x - drag.pointerStart.x) / safeWidth, minWidthNorm, 1 - drag.original.startX);
+          const nextHeight = clamp(base.height + (y - drag.pointerStart.y) / safeHeight, 0, 1 - drag.original.startY);
+
+          if (!drag.hasMoved && (Math.abs(nextWidth - base.width) * safeWidth > 0.75 || Math.abs(nextHeight - base.height) * safeHeight > 0.75)) {
+            drag.hasMoved = true;
+          }
+
+          drag.lastApplied = { ...drag.original, width: nextWidth, height: nextHeight };
+          updateAnnotationLive(drag.annotationId, { width: nextWidth, height: nextHeight });
+          return;
+        }
+
+        if (drag.mode === 'resize' && isShape(drag.original.type)) {
+          const safeWidth = Math.max(pageWidth, 1);
+          const safeHeight = Math.max(pageHeight, 1);
+          const base = shapeExtent(drag.original);
+          // Flat sides, like a horizontal line's height, stay flat
+          const nextWidth = base.width > 0
+            ? clamp(base.width + (x - drag.pointerStart.x) / safeWidth, Math.min(SHAPE_MIN_SIZE / safeWidth, base.width), 1 - base.left)
+            : 0;
+          const nextHeight = base.height > 0
+            ? clamp(base.height + (y - drag.pointerStart.y) / safeHeight, Math.min(SHAPE_MIN_SIZE / safeHeight, base.height), 1 - base.top)
+            : 0;
+
+          if (!drag.hasMoved && (Math.abs(nextWidth - base.width) * safeWidth > 0.75 || Math.abs(nextHeight - base.height) * safeHeight > 0.75)) {
+            drag.hasMoved = true;
+          }
+
+          const changes = resizeShape(drag.original, nextWidth, nextHeight);
+          drag.lastApplied = { ...drag.original, ...changes };
+          updateAnnotationLive(drag.annotationId, changes);
+          return;
+        }
+
+        if (drag.mode === 'resize' && drag.original.type === 'form-field') {
+          const safeWidth = Math.max(pageWidth, 1);
+          const safeHeight = Math.max(pageHeight, 1);
+          const left = Math.min(drag.original.startX, drag.original.endX ?? drag.original.startX);
+          const top = Math.min(drag.original.startY, drag.original.endY ?? drag.original.startY);
+          const baseWidth = Math.abs((drag.original.endX ?? drag.original.startX) - drag.original.startX);
+          const baseHeight = Math.abs((drag.original.endY ?? drag.original.startY) - drag.original.startY);
+          const nextWidth = clamp(baseWidth + (x - drag.pointerStart.x) / safeWidth, SHAPE_MIN_SIZE / safeWidth, 1 - left);
+          const nextHeight = clamp(baseHeight + (y - drag.pointerStart.y) / safeHeight, SHAPE_MIN_SIZE / safeHeight, 1 - top);
+
+          if (!drag.hasMoved && (Math.abs(nextWidth - baseWidth) * safeWidth > 0.75 || Math.abs(nextHeight - baseHeight) * safeHeight > 0.75)) {
+            drag.hasMoved = true;
+          }
+
+          const changes = { startX: left, startY: top, endX: left + nextWidth, endY: top + nextHeight };
+          drag.lastApplied = { ...drag.original, ...changes };
+          updateAnnotationLive(drag.annotationId, changes);
+          return;
+        }
+
         if (drag.mode === 'resize' && drag.original.type === 'signature') {
           const safeWidth = Math.max(pageWidth, 1);
           const safeHeight = Math.max(pageHeight, 1);
@@ -1102,6 +1575,17 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       return;
     }
 
+    if (vertexDraft) {
+      const previewCtx = previewCanvasRef.current?.getContext('2d');
+      if (!previewCtx) return;
+      previewCtx.clearRect(0, 0, pageWidth, pageHeight);
+      previewCtx.globalAlpha = selectedOpacity;
+      previewCtx.strokeStyle = selectedColor;
+      drawShape(previewCtx, draftShape([...vertexDraft, [clamp01(x / Math.max(1, pageWidth)), clamp01(y / Math.max(1, pageHeight))]]));
+      previewCtx.globalAlpha = 1;
+      return;
+    }
+
     if (!isDrawing) return;
 
     const previewCanvas = previewCanvasRef.current;
@@ -1165,22 +1649,54 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
         return updated;
       });
-    } else if (tool === 'highlight') {
-      previewCtx.globalAlpha = 0.3;
-      const shift = (e as any).shiftKey === true;
-      if (shift) {
-        const height = 20; // px band
-        const top = startY - height / 2;
-        const left = Math.min(startX, x);
-        const width = Math.abs(x - startX);
-        previewCtx.fillRect(left, top, width, height);
-      } else {
+    } else if (TEXT_MARKUP_TOOLS.includes(tool)) {
+      // Underline and strikeout only preview when there is text under the drag
+      const selection = selectMarkupText(startX, startY, x, y);
+      if (tool === 'highlight') previewCtx.globalAlpha = 0.3;
+      if (tool === 'redact') {
         const r = rectFrom(startX, startY, x, y);
-        previewCtx.fillRect(r.left, r.top, r.width, r.height);
+        drawRedactMark(previewCtx, selection?.quads ?? [[
+          r.left / Math.max(1, pageWidth),
+          r.top / Math.max(1, pageHeight),
+          (r.left + r.width) / Math.max(1, pageWidth),
+          (r.top + r.height) / Math.max(1, pageHeight),
+        ]]);
+      } else if (selection) {
+        drawTextMarkup(previewCtx, tool, selection.quads);
+      } else if (tool === 'highlight') {
+        const shift = (e as any).shiftKey === true;
+        if (shift) {
+          const height = 20; // px band
+          const top = startY - height / 2;
+          const left = Math.min(startX, x);
+          const width = Math.abs(x - startX);
+          previewCtx.fillRect(left, top, width, height);
+        } else {
+          const r = rectFrom(startX, startY, x, y);
+          previewCtx.fillRect(r.left, r.top, r.width, r.height);
+        }
       }
-    } else if (tool === 'rectangle') {
-      const r = rectFrom(startX, startY, x, y);
-      previewCtx.strokeRect(r.left, r.top, r.width, r.height);
+    } else if (tool === 'form-field') {
+      drawFormField(previewCtx, {
+        id: 'draft',
+        type: 'form-field',
+        page: currentPage,
+        createdAt: '',
+        startX: startX / Math.max(1, pageWidth),
+        startY: startY / Math.max(1, pageHeight),
+        endX: x / Math.max(1, pageWidth),
+        endY: y / Math.max(1, pageHeight),
+        fieldType: formFieldType,
+      });
+    } else if (isShape(tool)) {
+      drawShape(previewCtx, {
+        ...draftShape([]),
+        startX: startX / Math.max(1, pageWidth),
+        startY: startY / Math.max(1, pageHeight),
+        endX: x / Math.max(1, pageWidth),
+        endY: y / Math.max(1, pageHeight),
+        points: undefined,
+      });
     } else if (tool === 'signature') {
       if (signatureDataUrl) {
         const img = getCachedImage(signatureDataUrl);
@@ -1245,7 +1761,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
     if (tool === 'text-box') {
       const drag = dragStateRef.current;
-      const shouldEdit = drag ? !drag.hasMoved : false;
+      const shouldEdit = drag ? (drag.mode === 'move' && !drag.hasMoved) : false;
       const targetId = drag ? drag.annotationId : undefined;
       if (drag) {
         finalizeDrag(true);
@@ -1290,6 +1806,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       const finalPoints: [number, number][] | undefined = tool === 'pen'
         ? (points.length ? points : [[startNX, startNY] as [number, number]])
         : undefined;
+      const markupSelection = TEXT_MARKUP_TOOLS.includes(tool) ? selectMarkupText(startX, startY, x, y) : null;
 
       if (tool === 'signature') {
         if (!signatureDataUrl) {
@@ -1336,6 +1853,42 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         };
         addAnnotation(annotation);
         setSelectedAnnotation(annotation.id);
+      } else if (markupSelection) {
+        const annotation: Annotation = {
+          id: uuidv4(),
+          type: tool as AnnotationType,
+          page: currentPage,
+          createdAt: new Date().toISOString(),
+          ...quadBounds(markupSelection.quads),
+          quads: markupSelection.quads,
+          selectedText: markupSelection.text,
+          color: tool === 'redact' ? REDACTION.FILL_COLOR : selectedColor,
+          opacity: selectedOpacity,
+        };
+        addAnnotation(annotation);
+      } else if (tool === 'underline' || tool === 'strikeout') {
+        if (Math.abs(x - startX) > 4 || Math.abs(y - startY) > 4) {
+          warning('No text under the selection');
+        }
+      } else if (tool === 'redact') {
+        // Areas without text under them, e.g. images; a click marks nothing
+        if (Math.abs(x - startX) > 4 && Math.abs(y - startY) > 4) {
+          addAnnotation({
+            id: uuidv4(),
+            type: 'redact',
+            page: currentPage,
+            createdAt: new Date().toISOString(),
+            startX: Math.min(startNX, endNX),
+            startY: Math.min(startNY, endNY),
+            endX: Math.max(startNX, endNX),
+            endY: Math.max(startNY, endNY),
+            color: REDACTION.FILL_COLOR,
+          });
+        }
+      } else if (tool === 'form-field') {
+        addFormField(startX, startY, x, y);
+      } else if (isShape(tool) && tool !== 'rectangle' && Math.abs(x - startX) < SHAPE_MIN_SIZE && Math.abs(y - startY) < SHAPE_MIN_SIZE) {
+        // A click without a drag draws nothing
       } else {
         const annotation: Annotation = {
           id: uuidv4(),
@@ -1350,6 +1903,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
           strokeWidth: selectedThickness,
           opacity: selectedOpacity,
           points: finalPoints,
+          ...(isShape(tool) ? shapeStyleFor(tool as AnnotationType) : {}),
         };
 
         addAnnotation(annotation);
@@ -1398,19 +1952,41 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     }
   };
 
-  const editingTarget = editingAnnotation ? getAnnotationById(editingAnnotation.id) : undefined;
+  // The box follows the text being typed, so auto-grow boxes grow while editing
+  const storedEditingTarget = editingAnnotation ? getAnnotationById(editingAnnotation.id) : undefined;
+  const editingTarget = storedEditingTarget && editingAnnotation
+    ? { ...storedEditingTarget, ...runFields(editingAnnotation.runs) }
+    : undefined;
   const editingBounds = editingTarget && editingTarget.type === 'text-box' ? getAnnotationBoundsPx(editingTarget) : null;
   
   // Compute display condition for textarea
   const shouldShowTextarea = Boolean(editingAnnotation && editingTarget?.type === 'text-box' && editingBounds);
   
-  const editingFontSize = editingTarget?.type === 'text-box' && typeof editingTarget.fontSize === 'number'
+  const editingFontSize = (editingTarget?.type === 'text-box' && typeof editingTarget.fontSize === 'number'
     ? editingTarget.fontSize
-    : selectedFontSize;
+    : selectedFontSize) * pointScale;
+  const editingFrame = editingTarget?.type === 'text-box' ? getTextBoxFrame(editingTarget) : null;
+  const editingPadding = editingFrame ? (editingFrame.textLeft - editingFrame.left) * pointScale : 0;
   const editingLeft = editingBounds ? Math.max(0, editingBounds.left) : 0;
   const editingTop = editingBounds ? Math.max(0, editingBounds.top) : 0;
-  const editingWidth = editingBounds ? Math.max(editingBounds.width, editingFontSize * 6) : 0;
-  const editingHeight = editingBounds ? Math.max(editingBounds.height, editingFontSize * 1.6) : 0;
+  const editingWidth = editingBounds ? Math.max(editingBounds.width, editingFontSize * 2) : 0;
+  const editingHeight = editingBounds ? Math.max(editingBounds.height, editingFontSize * 1.2) : 0;
+  // Styles of the selection, or of the whole text when nothing is selected
+  const editingRange = editingAnnotation && editingSelection.start === editingSelection.end
+    ? { start: 0, end: editingAnnotation.text.length }
+    : editingSelection;
+  const editingStyle = editingAnnotation
+    ? rangeStyle(editingAnnotation.runs, editingRange.start, editingRange.end)
+    : { bold: false, italic: false, underline: false };
+  const wholeTextStyle = editingAnnotation
+    ? rangeStyle(editingAnnotation.runs, 0, editingAnnotation.text.length)
+    : editingStyle;
+
+  const toggleEditingStyle = (key: keyof RunStyle) => {
+    if (!editingAnnotation) return;
+    const runs = styleRange(editingAnnotation.runs, editingRange.start, editingRange.end, { [key]: !editingStyle[key] });
+    setEditingAnnotation({ ...editingAnnotation, runs });
+  };
 
   const handleNoteSubmit = (text: string) => {
     if (stickyEditingId) {
@@ -1467,6 +2043,14 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
       event.preventDefault();
       finishEditing('commit');
+      return;
+    }
+
+    const styleKeys: Record<string, keyof RunStyle> = { b: 'bold', i: 'italic', u: 'underline' };
+    const styleKey = styleKeys[event.key.toLowerCase()];
+    if (styleKey && (event.metaKey || event.ctrlKey) && !event.altKey && !event.shiftKey) {
+      event.preventDefault();
+      toggleEditingStyle(styleKey);
     }
   };
 
@@ -1493,7 +2077,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
           left: 0,
           cursor: editingAnnotation
             ? 'text'
-            : tool === 'pen'
+            : tool === 'pen' || tool === 'form-field' || isShape(tool)
               ? 'crosshair'
               : tool === 'eraser'
                 ? 'grab'
@@ -1520,11 +2104,13 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         <textarea
           ref={editingRef}
           value={editingAnnotation?.text || ''}
-          onChange={(e) =>
+          onChange={(e) => {
+            const text = e.target.value;
             setEditingAnnotation((prev) =>
-              prev ? { ...prev, text: e.target.value } : prev
-            )
-          }
+              prev ? { ...prev, text, runs: editRuns(prev.runs, text) } : prev
+            );
+          }}
+          onSelect={(e) => setEditingSelection({ start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd })}
           onFocus={() => {
             hasReceivedFocusRef.current = true;
           }}
@@ -1542,26 +2128,78 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
             position: 'absolute',
             top: editingTop,
             left: editingLeft,
-            width: Math.max(editingWidth, 100),
-            height: Math.max(editingHeight, 30),
-            minWidth: Math.max(editingWidth, 100),
-            minHeight: Math.max(editingHeight, 30),
-            padding: '8px 10px',
+            width: editingWidth,
+            height: editingHeight,
+            boxSizing: 'border-box',
+            padding: `${editingPadding}px`,
             fontSize: `${editingFontSize}px`,
-            lineHeight: 1.3,
+            fontWeight: wholeTextStyle.bold ? 'bold' : 'normal',
+            fontStyle: wholeTextStyle.italic ? 'italic' : 'normal',
+            textDecoration: wholeTextStyle.underline ? 'underline' : 'none',
+            lineHeight: editingTarget?.lineSpacing ?? 1.2,
+            textAlign: editingTarget?.textAlign ?? 'left',
             fontFamily: editingTarget?.fontFamily || 'Arial',
             color: editingTarget?.color || '#111827',
-            backgroundColor: 'rgba(255,255,255,0.95)',
-            border: '2px solid #6366F1',
-            borderRadius: '6px',
-            boxShadow: '0 10px 18px rgba(99,102,241,0.15)',
-            resize: 'both',
+            backgroundColor: editingTarget?.fillColor || 'rgba(255,255,255,0.95)',
+            border: 'none',
+            boxShadow: '0 0 0 2px #6366F1, 0 10px 18px rgba(99,102,241,0.15)',
+            overflow: 'hidden',
+            resize: 'none',
             zIndex: 20,
             outline: 'none',
           }}
         />
       )}
 
+      {/* Run styles for the selected text; mouse down keeps the focus in the editor */}
+      {shouldShowTextarea && (
+        <div
+          role="toolbar"
+          aria-label="Text style"
+          style={{
+            position: 'absolute',
+            top: Math.max(0, editingTop - 30),
+            left: editingLeft,
+            display: 'flex',
+            gap: '2px',
+            padding: '2px',
+            backgroundColor: 'white',
+            borderRadius: '6px',
+            boxShadow: '0 2px 6px rgba(0,0,0,0.15)',
+            zIndex: 21,
+          }}
+        >
+          {([
+            ['bold', 'B', 'Bold (Ctrl+B)', { fontWeight: 'bold' }],
+            ['italic', 'I', 'Italic (Ctrl+I)', { fontStyle: 'italic' }],
+            ['underline', 'U', 'Underline (Ctrl+U)', { textDecoration: 'underline' }],
+          ] as const).map(([key, label, title, look]) => (
+            <button
+              key={key}
+              type="button"
+              title={title}
+              aria-label={key[0].toUpperCase() + key.slice(1)}
+              aria-pressed={editingStyle[key]}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => toggleEditingStyle(key)}
+              style={{
+                ...look,
+                width: 24,
+                height: 22,
+                fontSize: 13,
+                borderRadius: 4,
+                border: 'none',
+                cursor: 'pointer',
+                backgroundColor: editingStyle[key] ? '#E0E7FF' : 'transparent',
+                color: editingStyle[key] ? '#4338CA' : '#374151',
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Sticky Note Modal */}
       {showNoteModal && (
         <div
@@ -18,6 +18,16 @@ const AnnotationIcons: Record<string, React.ReactNode> = {
       <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
     </svg>
   ),
+  underline: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 4v7a5 5 0 0010 0V4M5 20h14" />
+    </svg>
+  ),
+  strikeout: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 12h16M16 6.5C15.2 5 13.8 4 12 4c-2.5 0-4 1.5-4 3.5M8 17.5C8.8 19 10.2 20 12 20c2.5 0 4-1.5 4-3.5" />
+    </svg>
+  ),
   pen: (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
@@ -28,6 +38,36 @@ const AnnotationIcons: Record<string, React.ReactNode> = {
       <rect x="4" y="6" width="16" height="12" rx="2" />
     </svg>
   ),
+  ellipse: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <ellipse cx="12" cy="12" rx="8" ry="6" />
+    </svg>
+  ),
+  line: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" d="M5 19L19 5" />
+    </svg>
+  ),
+  arrow: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M5 19L19 5m0 0h-7m7 0v7" />
+    </svg>
+  ),
+  polyline: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 18l5-9 5 5 6-9" />
+    </svg>
+  ),
+  polygon: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinejoin="round" d="M12 4l8 6-3 9H7l-3-9z" />
+    </svg>
+  ),
+  cloud: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 18a4 4 0 01-.9-7.9A5 5 0 0116 8a4 4 0 01.9 7.9A3 3 0 0114 18z" />
+    </svg>
+  ),
   'sticky-note': (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
@@ -44,6 +84,18 @@ const AnnotationIcons: Record<string, React.ReactNode> = {
       <path strokeLinecap="round" strokeLinejoin="round" d="M4 20h16" />
     </svg>
   ),
+  redact: (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 7h16M4 17h7" />
+      <rect x="6" y="10" width="12" height="4" rx="0.5" fill="currentColor" />
+    </svg>
+  ),
+  'form-field': (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <rect x="3" y="8" width="18" height="8" rx="1" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 10v4" />
+    </svg>
+  ),
 };
 
 const DeleteIcon = () => (
@@ -118,11 +170,31 @@ export const AnnotationList: React.FC<AnnotationListProps> = ({ currentPage }) =
       case 'signature':
         return 'Signature';
       case 'highlight':
-        return 'Highlight';
+        return ann.selectedText?.substring(0, 30) || 'Highlight';
+      case 'underline':
+        return ann.selectedText?.substring(0, 30) || 'Underline';
+      case 'strikeout':
+        return ann.selectedText?.substring(0, 30) || 'Strikeout';
       case 'pen':
         return 'Drawing';
       case 'rectangle':
         return 'Rectangle';
+      case 'ellipse':
+        return 'Ellipse';
+      case 'line':
+        return 'Line';
+      case 'arrow':
+        return 'Arrow';
+      case 'polyline':
+        return 'Polyline';
+      case 'polygon':
+        return 'Polygon';
+      case 'cloud':
+        return 'Revision Cloud';
+      case 'redact':
+        return ann.selectedText?.substring(0, 30) || 'Redaction';
+      case 'form-field':
+        return ann.fieldName || 'Form Field';
       default:
         return 'Annotation';
     }
@@ -132,12 +204,22 @@ export const AnnotationList: React.FC<AnnotationListProps> = ({ currentPage }) =
     const labels: Record<FilterType, string> = {
       all: 'All',
       highlight: 'Highlights',
+      underline: 'Underlines',
+      strikeout: 'Strikeouts',
       pen: 'Drawings',
       rectangle: 'Rectangles',
+      ellipse: 'Ellipses',
+      line: 'Lines',
+      arrow: 'Arrows',
+      polyline: 'Polylines',
+      polygon: 'Polygons',
+      cloud: 'Clouds',
       'sticky-note': 'Notes',
       'text-box': 'Text Boxes',
       stamp: 'Stamps',
       signature: 'Signatures',
+      redact: 'Redactions',
+      'form-field': 'Form Fields',
     };
     return labels[type] || type;
   };
@@ -185,7 +267,7 @@ export const AnnotationList: React.FC<AnnotationListProps> = ({ currentPage }) =
     );
   }
 
-  const filterOptions: FilterType[] = ['all', 'highlight', 'pen', 'rectangle', 'sticky-note', 'text-box', 'signature'];
+  const filterOptions: FilterType[] = ['all', 'highlight', 'underline', 'strikeout', 'pen', 'rectangle', 'ellipse', 'line', 'arrow', 'polyline', 'polygon', 'cloud', 'sticky-note', 'text-box', 'signature', 'redact', 'form-field'];
 
   return (
     <div className="flex flex-col h-full">
@@ -323,6 +405,16 @@ export const AnnotationList: React.FC<AnnotationListProps> = ({ currentPage }) =
                   <span className="text-[10px] text-gray-400">
                     {formatTime(new Date(ann.createdAt))}
                   </span>
+                  {(ann.replies?.length ?? 0) > 0 && (
+                    <span className="text-[10px] text-gray-400" title="Replies">
+                      {ann.replies!.length} {ann.replies!.length === 1 ? 'reply' : 'replies'}
+                    </span>
+                  )}
+                  {ann.status && ann.status !== 'open' && (
+                    <span className="text-[10px] text-indigo-500 uppercase tracking-wide font-medium">
+                      {ann.status}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,234 @@
+/**
+ * AnnotationNavigator - every annotation in the document, grouped by page
+ * Search covers annotation text, replies and authors; filters narrow by
+ * type, author, color and review status. Clicking an entry jumps to its page
+ * and selects it.
+ */
+
+import React, { useMemo, useState } from 'react'
+import { useAnnotationStore } from '../store/annotationStore'
+import type { Annotation, AnnotationType, ReviewStatus } from '../types/annotations'
+import {
+  authorOf,
+  colorOf,
+  facetValues,
+  groupByPage,
+  queryAnnotations,
+  statusOf,
+  type AnnotationSort,
+} from '../utils/annotationQuery'
+
+interface AnnotationNavigatorProps {
+  onJumpToPage: (page: number) => void
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-300'
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+
+const entryLabel = (ann: Annotation) => ann.text?.trim().split('\n')[0] || ann.type.replace('-', ' ')
+
+function FacetChips({ label, facets, selected, onToggle, render }: {
+  label: string
+  facets: Array<{ value: string; count: number }>
+  selected: string[]
+  onToggle: (value: string) => void
+  render?: (value: string) => React.ReactNode
+}) {
+  if (facets.length < 2 && !selected.length) return null
+  return (
+    <div role="group" aria-label={label}>
+      <p className="text-[10px] font-semibold text-gray-500 uppercase tracking-wide mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {facets.map(({ value, count }) => {
+          const active = selected.includes(value)
+          return (
+            <button
+              key={value}
+              type="button"
+              onClick={() => onToggle(value)}
+              aria-pressed={active}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 text-[11px] rounded-full border ${active
+                ? 'bg-indigo-600 text-white border-indigo-600'
+                : 'bg-white text-gray-600 border-gray-200 hover:border-indigo-300'
+                }`}
+            >
+              {render ? render(value) : value}
+              <span className={active ? 'text-indigo-200' : 'text-gray-400'}>{count}</span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export const AnnotationNavigator: React.FC<AnnotationNavigatorProps> = ({ onJumpToPage }) => {
+  const annotations = useAnnotationStore((s) => s.annotations)
+  const selectedAnnotationId = useAnnotationStore((s) => s.selectedAnnotationId)
+  const setSelectedAnnotation = useAnnotationStore((s) => s.setSelectedAnnotation)
+  const selectTool = useAnnotationStore((s) => s.selectTool)
+
+  const [search, setSearch] = useState('')
+  const [sort, setSort] = useState<AnnotationSort>('page')
+  const [types, setTypes] = useState<AnnotationType[]>([])
+  const [authors, setAuthors] = useState<string[]>([])
+  const [colors, setColors] = useState<string[]>([])
+  const [statuses, setStatuses] = useState<ReviewStatus[]>([])
+  const [showFilters, setShowFilters] = useState(false)
+
+  const facets = useMemo(() => ({
+    types: facetValues(annotations, (a) => a.type),
+    authors: facetValues(annotations, authorOf),
+    colors: facetValues(annotations, colorOf),
+    statuses: facetValues(annotations, statusOf),
+  }), [annotations])
+
+  const groups = useMemo(
+    () => groupByPage(queryAnnotations(annotations, { search, sort, types, authors, colors, statuses })),
+    [annotations, search, sort, types, authors, colors, statuses]
+  )
+  const matchCount = groups.reduce((sum, g) => sum + g.annotations.length, 0)
+  const activeFilters = types.length + authors.length + colors.length + statuses.length
+
+  const handleSelect = (ann: Annotation) => {
+    onJumpToPage(ann.page)
+    setSelectedAnnotation(ann.id)
+    selectTool('pointer')
+  }
+
+  if (!annotations.length) {
+    return <p className="text-xs text-gray-400">No annotations in this document yet.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search annotations…"
+          className={inputClass}
+          aria-label="Search annotations"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as AnnotationSort)}
+          className="px-2 py-1 border border-gray-200 rounded-md text-xs"
+          aria-label="Sort annotations"
+        >
+          <option value="page">By page</option>
+          <option value="createdAt">Newest first</option>
+        </select>
+        <button
+          type="button"
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+          className={`shrink-0 px-2 py-1 text-xs rounded-md border ${activeFilters
+            ? 'border-indigo-300 text-indigo-600 bg-indigo-50'
+            : 'border-gray-200 text-gray-600'
+            }`}
+        >
+          Filters{activeFilters ? ` (${activeFilters})` : ''}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="space-y-2 p-2 border border-gray-100 rounded-lg bg-gray-50/50">
+          <FacetChips
+            label="Type"
+            facets={facets.types}
+            selected={types}
+            onToggle={(v) => setTypes(toggle(types, v as AnnotationType))}
+            render={(v) => v.replace('-', ' ')}
+          />
+          <FacetChips
+            label="Author"
+            facets={facets.authors}
+            selected={authors}
+            onToggle={(v) => setAuthors(toggle(authors, v))}
+            render={(v) => v || 'Unknown'}
+          />
+          <FacetChips
+            label="Color"
+            facets={facets.colors}
+            selected={colors}
+            onToggle={(v) => setColors(toggle(colors, v))}
+            render={(v) => (
+              <span className="inline-flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: v || 'transparent' }} />
+                {v || 'None'}
+              </span>
+            )}
+          />
+          <FacetChips
+            label="Status"
+            facets={facets.statuses}
+            selected={statuses}
+            onToggle={(v) => setStatuses(toggle(statuses, v as ReviewStatus))}
+          />
+          {activeFilters > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setTypes([])
+                setAuthors([])
+                setColors([])
+                setStatuses([])
+              }}
+              className="text-[11px] text-indigo-600 hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      <p className="text-[11px] text-gray-500" role="status">
+        {matchCount} of {annotations.length} annotation{annotations.length === 1 ? '' : 's'}
+      </p>
+
+      <div className="max-h-96 overflow-y-auto scrollbar-thin space-y-2">
+        {groups.map((group) => (
+          <section key={group.page} aria-label={`Page ${group.page}`}>
+            <h3 className="sticky top-0 bg-[var(--pdfoid-surface)] text-[11px] font-semibold text-gray-500 py-0.5">
+              Page {group.page} <span className="font-normal text-gray-400">({group.annotations.length})</span>
+            </h3>
+            <ul className="space-y-1">
+              {group.annotations.map((ann) => (
+                <li key={ann.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(ann)}
+                    className={`w-full text-left flex items-start gap-2 px-2 py-1.5 rounded-md border text-xs ${selectedAnnotationId === ann.id
+                      ? 'border-indigo-300 bg-indigo-50'
+                      : 'border-gray-100 hover:border-indigo-200'
+                      }`}
+                  >
+                    <span
+                      className="mt-1 shrink-0 w-2.5 h-2.5 rounded-full"
+                      style={{ backgroundColor: ann.color || '#6366f1' }}
+                      aria-hidden="true"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate text-gray-800">{entryLabel(ann)}</span>
+                      <span className="block text-[10px] text-gray-400">
+                        {ann.type.replace('-', ' ')}
+                        {ann.author ? ` · ${ann.author}` : ''}
+                        {ann.replies?.length ? ` · ${ann.replies.length} ${ann.replies.length === 1 ? 'reply' : 'replies'}` : ''}
+                        {statusOf(ann) !== 'open' ? ` · ${statusOf(ann)}` : ''}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+        {!matchCount && <p className="text-xs text-gray-400 text-center py-4">No annotations match.</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+/**
+ * CommentThreadPanel - replies and review status for the selected annotation
+ * Every change goes through the annotation store, so it is undoable and is
+ * saved and exported together with the annotation.
+ */
+
+import React, { useState } from 'react'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useUIStore } from '../store/uiStore'
+import type { AnnotationReply, ReviewStatus } from '../types/annotations'
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  open: 'bg-sky-100 text-sky-700',
+  accepted: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700',
+  resolved: 'bg-gray-200 text-gray-600',
+}
+
+const DECISIONS: Array<{ status: ReviewStatus; label: string }> = [
+  { status: 'accepted', label: 'Accept' },
+  { status: 'rejected', label: 'Reject' },
+  { status: 'resolved', label: 'Resolve' },
+]
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+const inputClass = 'w-full px-2 py-1 border border-gray-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-300'
+
+function ReplyItem({ reply, onSave, onDelete }: {
+  reply: AnnotationReply
+  onSave: (text: string) => void
+  onDelete: () => void
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <li className="border border-gray-100 rounded-lg p-2 bg-white group">
+      <div className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+        <span className="font-semibold text-gray-600 truncate">{reply.author || 'Anonymous'}</span>
+        <span title={reply.updatedAt ? `Edited ${formatDate(reply.updatedAt)}` : undefined}>
+          {formatDate(reply.createdAt)}{reply.updatedAt ? ' (edited)' : ''}
+        </span>
+      </div>
+      {draft === null ? (
+        <>
+          <p className="text-xs text-gray-700 whitespace-pre-wrap mt-1">{reply.text}</p>
+          <div className="flex gap-2 mt-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+            <button type="button" onClick={() => setDraft(reply.text)} className="text-[10px] text-indigo-600 hover:underline">
+              Edit
+            </button>
+            <button type="button" onClick={onDelete} className="text-[10px] text-red-500 hover:underline">
+              Delete
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="mt-1 space-y-1">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+            className={inputClass}
+            aria-label="Edit reply"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                onSave(draft)
+                setDraft(null)
+              }}
+              disabled={!draft.trim()}
+              className="text-[10px] text-indigo-600 hover:underline disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="text-[10px] text-gray-500 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  )
+}
+
+export const CommentThreadPanel: React.FC = () => {
+  const annotation = useAnnotationStore((s) => s.annotations.find((a) => a.id === s.selectedAnnotationId))
+  const addReply = useAnnotationStore((s) => s.addReply)
+  const updateReply = useAnnotationStore((s) => s.updateReply)
+  const deleteReply = useAnnotationStore((s) => s.deleteReply)
+  const setReviewStatus = useAnnotationStore((s) => s.setReviewStatus)
+  const reviewerName = useUIStore((s) => s.preferences.reviewerName ?? '')
+  const updatePreferences = useUIStore((s) => s.updatePreferences)
+  const [reply, setReply] = useState('')
+
+  if (!annotation) {
+    return (
+      <p className="text-xs text-gray-400">Select an annotation to see its comment thread.</p>
+    )
+  }
+
+  const status = annotation.status ?? 'open'
+  const replies = annotation.replies ?? []
+  const author = reviewerName.trim() || undefined
+
+  const submitReply = () => {
+    if (!reply.trim()) return
+    addReply(annotation.id, reply, author)
+    setReply('')
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-600">
+          <span className="capitalize">{annotation.type.replace('-', ' ')}</span> on page {annotation.page}
+        </span>
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${STATUS_STYLES[status]}`}>
+          {status}
+        </span>
+      </div>
+      {status !== 'open' && annotation.resolvedAt && (
+        <p className="text-[10px] text-gray-400">
+          Marked {status}{annotation.resolvedBy ? ` by ${annotation.resolvedBy}` : ''} on {formatDate(annotation.resolvedAt)}
+        </p>
+      )}
+
+      {annotation.text && (
+        <blockquote className="border-l-2 border-indigo-200 pl-2 text-xs text-gray-600 whitespace-pre-wrap">
+          {annotation.text}
+        </blockquote>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {status === 'open'
+          ? DECISIONS.map(({ status: next, label }) => (
+            <button
+              key={next}
+              type="button"
+              onClick={() => setReviewStatus(annotation.id, next, author)}
+              className="px-2 py-1 text-xs border border-gray-200 rounded-md hover:border-indigo-300 hover:text-indigo-600"
+            >
+              {label}
+            </button>
+          ))
+          : (
+            <button
+              type="button"
+              onClick={() => setReviewStatus(annotation.id, 'open', author)}
+              className="px-2 py-1 text-xs border border-gray-200 rounded-md hover:border-indigo-300 hover:text-indigo-600"
+            >
+              Reopen
+            </button>
+          )}
+      </div>
+
+      {replies.length > 0 ? (
+        <ul className="space-y-1.5 max-h-64 overflow-y-auto scrollbar-thin" aria-label="Replies">
+          {replies.map((r) => (
+            <ReplyItem
+              key={r.id}
+              reply={r}
+              onSave={(text) => updateReply(annotation.id, r.id, text)}
+              onDelete={() => deleteReply(annotation.id, r.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-400">No replies yet.</p>
+      )}
+
+      <div className="space-y-1.5">
+        <textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault()
+              submitReply()
+            }
+          }}
+          rows={3}
+          placeholder="Write a reply…"
+          className={inputClass}
+          aria-label="Reply"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            value={reviewerName}
+            onChange={(e) => updatePreferences({ reviewerName: e.target.value })}
+            placeholder="Your name"
+            className={inputClass}
+            aria-label="Reviewer name"
+          />
+          <button
+            type="button"
+            onClick={submitReply}
+            disabled={!reply.trim()}
+            className="shrink-0 px-3 py-1 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+          >
+            Reply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+/**
+ * ContinuousPageView - virtualized vertical scroll through every page
+ * Only pages near the viewport mount a canvas and an AnnotationCanvas overlay;
+ * the rest are reserved space sized from the editor's pageSizes until pdf.js
+ * reports the real (rotation/CropBox aware) size.
+ */
+
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { AnnotationCanvas } from './AnnotationCanvas'
+import { FormFieldLayer } from './FormFieldLayer'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { layoutPages, pageIndexAtOffset, visiblePageRange, type PageBox, type PageSize } from '../utils/pageLayout'
+import { isRenderCancelled, renderPageToCanvas } from '../utils/pdfRender'
+
+const PAGE_GAP = 24
+const OVERSCAN_PAGES = 1
+const LETTER_SIZE: PageSize = { width: 612, height: 792 }
+
+interface ContinuousPageViewProps {
+  pdf: any
+  numPages: number
+  scale: number
+  scrollContainerRef: React.RefObject<HTMLDivElement>
+  currentPage: number
+  onCurrentPageChange: (page: number) => void
+}
+
+interface PageSlotProps {
+  pdf: any
+  pageNumber: number
+  scale: number
+  box: PageBox
+  left: number
+  onMeasure: (index: number, size: PageSize) => void
+}
+
+function PageSlot({ pdf, pageNumber, scale, box, left, onMeasure }: PageSlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let isActive = true
+    let page: any = null
+    let cancelRender: (() => void) | null = null
+
+      ; (async () => {
+        try {
+          page = await pdf.getPage(pageNumber)
+          if (!isActive) return
+          const natural = page.getViewport({ scale: 1 })
+          onMeasure(pageNumber - 1, { width: natural.width, height: natural.height })
+
+          const canvas = canvasRef.current
+          if (!canvas) return
+          const handle = renderPageToCanvas(page, canvas, scale)
+          cancelRender = handle.cancel
+          await handle.promise
+          cancelRender = null
+        } catch (err) {
+          if (isRenderCancelled(err)) return
+          console.error(`Render page ${pageNumber} failed`, err)
+          if (isActive) setFailed(true)
+        }
+      })()
+
+    return () => {
+      isActive = false
+      cancelRender?.()
+      // Free page resources as soon as the page scrolls out of range
+      page?.cleanup?.()
+    }
+  }, [pdf, pageNumber, scale, onMeasure])
+
+  return (
+    <div
+      data-page-number={pageNumber}
+      style={{ position: 'absolute', top: box.top, left, width: box.width, height: box.height }}
+      className="shadow-2xl bg-[var(--pdfoid-surface)] rounded-lg"
+    >
+      <canvas
+        ref={canvasRef}
+        className="border-2 border-[rgba(47,33,22,0.18)] rounded-lg"
+        aria-label={`PDF page ${pageNumber} content`}
+        data-testid="pdf-page-canvas"
+      />
+      {failed && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-red-500" role="alert">
+          Failed to render page {pageNumber}.
+        </p>
+      )}
+      <AnnotationCanvas
+        pdfScale={scale}
+        pageWidth={box.width}
+        pageHeight={box.height}
+        currentPage={pageNumber}
+      />
+      <FormFieldLayer pageWidth={box.width} pageHeight={box.height} currentPage={pageNumber} />
+    </div>
+  )
+}
+
+export function ContinuousPageView({ pdf, numPages, scale, scrollContainerRef, currentPage, onCurrentPageChange }: ContinuousPageViewProps) {
+  const contentRef = useRef<HTMLDivElement | null>(null)
+  const pageSizes = usePdfEditorStore((s) => s.pageSizes)
+  const [measured, setMeasured] = useState<Record<number, PageSize>>({})
+  const [range, setRange] = useState<[number, number]>([0, Math.min(numPages - 1, OVERSCAN_PAGES)])
+  // Last page reported to (or requested by) the parent; only other values scroll the view
+  const reportedPageRef = useRef(currentPage)
+  // Scroll position expressed as a page and a fraction of its height, kept across relayouts
+  const anchorRef = useRef({ index: Math.max(0, currentPage - 1), fraction: 0 })
+
+  // Sizes belong to the pages of one pdf.js document; a reorder, rotation or new file replaces it
+  useLayoutEffect(() => {
+    setMeasured((prev) => (Object.keys(prev).length ? {} : prev))
+  }, [pdf, numPages])
+
+  const layout = useMemo(() => {
+    const fallback = measured[0] ?? pageSizes?.[0] ?? LETTER_SIZE
+    const sizes = Array.from({ length: numPages }, (_, i) => measured[i] ?? pageSizes?.[i] ?? fallback)
+    return layoutPages(sizes, scale, PAGE_GAP)
+  }, [numPages, pageSizes, measured, scale])
+
+  const handleMeasure = useCallback((index: number, size: PageSize) => {
+    setMeasured((prev) => {
+      const known = prev[index]
+      if (known && Math.abs(known.width - size.width) < 0.5 && Math.abs(known.height - size.height) < 0.5) return prev
+      return { ...prev, [index]: size }
+    })
+  }, [])
+
+  // The scroll container is positioned, so offsetTop is measured from its padding edge
+  const contentOffset = useCallback(() => contentRef.current?.offsetTop ?? 0, [])
+
+  const syncWithScroll = useCallback(() => {
+    const container = scrollContainerRef.current
+    if (!container || layout.pages.length === 0) return
+    const viewTop = container.scrollTop - contentOffset()
+    const viewBottom = viewTop + container.clientHeight
+
+    setRange((prev) => {
+      const next = visiblePageRange(layout.pages, viewTop, viewBottom, OVERSCAN_PAGES)
+      return prev[0] === next[0] && prev[1] === next[1] ? prev : next
+    })
+
+    const topIndex = pageIndexAtOffset(layout.pages, Math.max(0, viewTop))
+    const topBox = layout.pages[topIndex]
+    anchorRef.current = { index: topIndex, fraction: (viewTop - topBox.top) / topBox.height }
+
+    // The page a third of the way down the viewport is the one being read
+    const page = pageIndexAtOffset(layout.pages, viewTop + container.clientHeight / 3) + 1
+    if (page !== reportedPageRef.current) {
+      reportedPageRef.current = page
+      onCurrentPageChange(page)
+    }
+  }, [scrollContainerRef, layout, contentOffset, onCurrentPageChange])
+
+  const scrollToAnchor = useCallback(() => {
+    const container = scrollContainerRef.current
+    const { index, fraction } = anchorRef.current
+    const box = layout.pages[Math.min(index, layout.pages.length - 1)]
+    if (!container || !box) return
+    container.scrollTop = contentOffset() + box.top + fraction * box.height
+  }, [scrollContainerRef, layout, contentOffset])
+
+  // Keep the same content in view when zoom or measured sizes change the layout
+  useLayoutEffect(() => {
+    scrollToAnchor()
+    syncWithScroll()
+  }, [layout])
+
+  // Scroll to pages requested from outside (toolbar, page input, search)
+  useEffect(() => {
+    if (currentPage === reportedPageRef.current) return
+    reportedPageRef.current = currentPage
+    anchorRef.current = { index: Math.max(0, currentPage - 1), fraction: 0 }
+    scrollToAnchor()
+    syncWithScroll()
+  }, [currentPage])
+
+  useEffect(() => {
+    const container = scrollContainerRef.current
+    if (!container) return
+    let frame: number | null = null
+    const onScroll = () => {
+      if (frame != null) return
+      frame = requestAnimationFrame(() => {
+        frame = null
+        syncWithScroll()
+      })
+    }
+    container.addEventListener('scroll', onScroll, { passive: true })
+    window.addEventListener('resize', onScroll)
+    return () => {
+      container.removeEventListener('scroll', onScroll)
+      window.removeEventListener('resize', onScroll)
+      if (frame != null) cancelAnimationFrame(frame)
+    }
+  }, [scrollContainerRef, syncWithScroll])
+
+  const slots: React.ReactNode[] = []
+  for (let index = range[0]; index <= range[1] && index < layout.pages.length; index++) {
+    const box = layout.pages[index]
+    slots.push(
+      <PageSlot
+        key={index + 1}
+        pdf={pdf}
+        pageNumber={index + 1}
+        scale={scale}
+        box={box}
+        left={Math.floor((layout.maxWidth - box.width) / 2)}
+        onMeasure={handleMeasure}
+      />
+    )
+  }
+
+  return (
+    <div
+      ref={contentRef}
+      data-testid="continuous-pages"
+      style={{ position: 'relative', width: layout.maxWidth, height: layout.totalHeight, flexShrink: 0 }}
+    >
+      {slots}
+    </div>
+  )
+}
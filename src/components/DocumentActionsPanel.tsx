@@ -1,14 +1,29 @@
 import React, { useRef, useState } from 'react'
 import { useShallow } from 'zustand/react/shallow'
-import { usePdfEditorStore, TextMatch } from '../store/pdfEditorStore'
+import { usePdfEditorStore, TextMatch, type FindTextOptions, type SearchTerm } from '../store/pdfEditorStore'
 import { useAnnotationStore } from '../store/annotationStore'
 import { CropModal } from './CropModal'
+import { InsertPagesModal } from './InsertPagesModal'
+import { SplitPanel } from './SplitPanel'
+import { FormDataPanel } from './FormDataPanel'
+import { SigningPanel, type SignRequest } from './SigningPanel'
+import { RedactionPanel } from './RedactionPanel'
+import { ReportPanel } from './ReportPanel'
+import { SensitiveDataPanel } from './SensitiveDataPanel'
+import { SearchResultsPanel } from './SearchResultsPanel'
+import { HistoryPanel } from './HistoryPanel'
+import { readPdfPageCount } from '../utils/pdfInfo'
+import { downloadFile } from '../utils/download'
+import { HIGHLIGHT_COLORS } from '../constants'
 
 interface DocumentActionsPanelProps {
   currentPage: number
   onForcePageChange: (page: number) => void
 }
 
+// Colors handed out to additional search terms in turn
+const TERM_COLORS = [HIGHLIGHT_COLORS.GREEN, HIGHLIGHT_COLORS.BLUE, HIGHLIGHT_COLORS.PINK, HIGHLIGHT_COLORS.ORANGE]
+
 const clampPage = (page: number, total: number) => {
   if (total <= 0) return 1
   return Math.max(1, Math.min(total, page))
@@ -21,6 +36,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     addBlankPage,
     deletePage,
     reorderPages,
+    insertPagesFromPdf,
     rotatePage,
     cropPage,
     insertImage,
@@ -30,6 +46,8 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     flattenAnnotations,
     exportPdf,
     setCurrentMatchHighlight,
+    highlightFindResults,
+    markRedactions,
     defaultFlashTtlMs,
     autoClearHighlightMs,
     setDefaultFlashTtlMs,
@@ -41,6 +59,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       addBlankPage: state.addBlankPage,
       deletePage: state.deletePage,
       reorderPages: state.reorderPages,
+      insertPagesFromPdf: state.insertPagesFromPdf,
       rotatePage: state.rotatePage,
       cropPage: state.cropPage,
       insertImage: state.insertImage,
@@ -50,6 +69,8 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       flattenAnnotations: state.flattenAnnotations,
       exportPdf: state.exportPdf,
       setCurrentMatchHighlight: state.setCurrentMatchHighlight,
+      highlightFindResults: state.highlightFindResults,
+      markRedactions: state.markRedactions,
       defaultFlashTtlMs: state.defaultFlashTtlMs,
       autoClearHighlightMs: state.autoClearHighlightMs,
       setDefaultFlashTtlMs: state.setDefaultFlashTtlMs,
@@ -57,12 +78,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     }))
   )
 
-  const { annotations, clearAllAnnotations } = useAnnotationStore(
-    useShallow((state) => ({
-      annotations: state.annotations,
-      clearAllAnnotations: state.clearAllAnnotations,
-    }))
-  )
+  const annotations = useAnnotationStore((state) => state.annotations)
 
   const [findText, setFindText] = useState('')
   const [replaceValue, setReplaceValue] = useState('')
@@ -83,8 +99,25 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       return true
     }
   })
+  const [useRegex, setUseRegex] = useState<boolean>(() => {
+    try {
+      return window.localStorage.getItem('pdfoid.regex') === '1'
+    } catch {
+      return false
+    }
+  })
+  const [ignoreDiacritics, setIgnoreDiacritics] = useState<boolean>(() => {
+    try {
+      return window.localStorage.getItem('pdfoid.ignoreDiacritics') === '1'
+    } catch {
+      return false
+    }
+  })
+  // Searched together with the main term, each highlighted in its own color
+  const [extraTerms, setExtraTerms] = useState<Required<SearchTerm>[]>([])
   const [matches, setMatches] = useState<TextMatch[]>([])
   const [activeIndex, setActiveIndex] = useState<number>(-1)
+  const [highlightAllColor, setHighlightAllColor] = useState<string>(HIGHLIGHT_COLORS.YELLOW)
   const [keepHighlightAfterAll, setKeepHighlightAfterAll] = useState<boolean>(() => {
     try {
       const raw = window.localStorage.getItem('pdfoid.keepHighlightAfterAll')
@@ -93,8 +126,26 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       return true
     }
   })
+  const [exportAnnotations, setExportAnnotations] = useState<boolean>(() => {
+    try {
+      const raw = window.localStorage.getItem('pdfoid.exportAnnotations')
+      return raw == null ? true : raw === '1'
+    } catch {
+      return true
+    }
+  })
+  const [flattenForm, setFlattenForm] = useState<boolean>(() => {
+    try {
+      return window.localStorage.getItem('pdfoid.flattenForm') === '1'
+    } catch {
+      return false
+    }
+  })
+  const hasForm = usePdfEditorStore((s) => s.formFields.length > 0)
   const [settingsOpen, setSettingsOpen] = useState(false)
   const imageInputRef = useRef<HTMLInputElement | null>(null)
+  const pdfInputRef = useRef<HTMLInputElement | null>(null)
+  const [insertSource, setInsertSource] = useState<{ name: string; data: ArrayBuffer; pageCount: number } | null>(null)
 
   const hasDocument = numPages > 0
   const disableButtons = loading || !hasDocument
@@ -127,7 +178,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
 
   const handleDeletePage = async () => {
     if (!hasDocument || numPages <= 1) return
-    if (!window.confirm(`Delete page ${currentPage}? This cannot be undone.`)) return
+    if (!window.confirm(`Delete page ${currentPage}?`)) return
     await runSafely('Delete page', async () => {
       await deletePage(currentPage - 1)
       const { numPages: updated } = usePdfEditorStore.getState()
@@ -148,6 +199,31 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     })
   }
 
+  const onInsertPdfSelected: React.ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    try {
+      const data = await file.arrayBuffer()
+      const pageCount = await readPdfPageCount(data)
+      setInsertSource({ name: file.name, data, pageCount })
+    } catch (err) {
+      console.error('Read PDF file failed', err)
+      window.alert('Could not read that PDF. Try another file.')
+    } finally {
+      event.target.value = ''
+    }
+  }
+
+  const handleInsertConfirm = async ({ sourcePageIndices, atIndex }: { sourcePageIndices: number[]; atIndex: number }) => {
+    const source = insertSource
+    setInsertSource(null)
+    if (!source) return
+    await runSafely('Insert pages', async () => {
+      await insertPagesFromPdf({ sourceData: source.data, sourcePageIndices, atIndex })
+      syncPage(atIndex + 1)
+    })
+  }
+
   const [cropModalOpen, setCropModalOpen] = useState(false);
 
   const handleRotate = async (direction: 'left' | 'right') => {
@@ -223,12 +299,33 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     }
     await runSafely('Flatten annotations', async () => {
       await flattenAnnotations(annotations)
-      clearAllAnnotations()
     })
   }
 
+  const findOptions = (): FindTextOptions => ({
+    search: findText,
+    caseSensitive: matchCase,
+    wholeWord: matchWholeWord,
+    regex: useRegex,
+    ignoreDiacritics,
+    terms: extraTerms.filter((term) => term.search.trim()),
+  })
+
+  const updateExtraTerm = (index: number, patch: Partial<SearchTerm>) => {
+    setExtraTerms((terms) => terms.map((term, i) => (i === index ? { ...term, ...patch } : term)))
+    setReplaceStatus(null)
+  }
+
+  const selectMatch = (index: number) => {
+    const m = matches[index]
+    if (!m) return
+    setActiveIndex(index)
+    onForcePageChange(m.pageIndex + 1)
+    setCurrentMatchHighlight(m)
+  }
+
   const handleFind = async () => {
-    if (!findText.trim()) {
+    if (!findText.trim() && !extraTerms.some((term) => term.search.trim())) {
       setReplaceStatus('Enter text to find')
       setMatches([])
       setActiveIndex(-1)
@@ -237,7 +334,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     }
     setReplaceStatus('Finding…')
     try {
-      const found = await findTextMatches({ search: findText, caseSensitive: matchCase, wholeWord: matchWholeWord })
+      const found = await findTextMatches(findOptions())
       setMatches(found)
       if (found.length) {
         setActiveIndex(0)
@@ -258,11 +355,23 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
   const gotoMatch = (dir: 'prev' | 'next') => {
     if (!matches.length) return
     const delta = dir === 'next' ? 1 : -1
-    const next = (activeIndex + delta + matches.length) % matches.length
-    setActiveIndex(next)
-    const m = matches[next]
-    onForcePageChange(m.pageIndex + 1)
-    setCurrentMatchHighlight(m)
+    selectMatch((activeIndex + delta + matches.length) % matches.length)
+  }
+
+  const handleHighlightAll = () => {
+    const added = highlightFindResults({ color: highlightAllColor })
+    const skipped = matches.length - added
+    setReplaceStatus(
+      `Highlighted ${added} match${added === 1 ? '' : 'es'}${skipped > 0 ? ` (${skipped} already highlighted)` : ''}.`
+    )
+  }
+
+  const handleMarkAllForRedaction = () => {
+    const added = markRedactions()
+    const skipped = matches.length - added
+    setReplaceStatus(
+      `Marked ${added} match${added === 1 ? '' : 'es'} for redaction${skipped > 0 ? ` (${skipped} already marked)` : ''}. Apply them under Redaction.`
+    )
   }
 
   const handleReplaceOne = async () => {
@@ -279,7 +388,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       const { replaced, reason } = await replaceMatch(target.id, replaceValue)
       if (replaced) {
         // Refresh matches and keep reasonable position
-        const found = await findTextMatches({ search: findText, caseSensitive: matchCase, wholeWord: matchWholeWord })
+        const found = await findTextMatches(findOptions())
         setMatches(found)
         if (found.length) {
           const nextIndex = Math.min(activeIndex, found.length - 1)
@@ -313,7 +422,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     try {
       const { replaced } = await replaceMatch(target.id, replaceValue)
       // After replace, refresh and advance to the next match
-      const found = await findTextMatches({ search: findText, caseSensitive: matchCase, wholeWord: matchWholeWord })
+      const found = await findTextMatches(findOptions())
       setMatches(found)
       if (!found.length) {
         setActiveIndex(-1)
@@ -334,7 +443,10 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
 
   const handleExportPdf = async () => {
     try {
-      const blob = await exportPdf()
+      const blob = await exportPdf({
+        annotations: exportAnnotations ? annotations : undefined,
+        flattenForm: hasForm && flattenForm,
+      })
       const downloadName = `${usePdfEditorStore.getState().fileName || 'document'}-edited.pdf`
       const url = URL.createObjectURL(blob)
       const link = document.createElement('a')
@@ -350,6 +462,16 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
     }
   }
 
+  // Same content as Export Edited PDF; failures are reported by the signing panel
+  const handleSignedExport = async (sign: SignRequest) => {
+    const blob = await exportPdf({
+      annotations: exportAnnotations ? annotations : undefined,
+      flattenForm: hasForm && flattenForm,
+      sign,
+    })
+    downloadFile(blob, 'application/pdf', `${usePdfEditorStore.getState().fileName || 'document'}-signed.pdf`)
+  }
+
   const handleFindReplace: React.FormEventHandler<HTMLFormElement> = async (event) => {
     event.preventDefault()
     if (!findText.trim()) {
@@ -363,6 +485,8 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
         replace: replaceValue,
         caseSensitive: matchCase,
         wholeWord: matchWholeWord,
+        regex: useRegex,
+        ignoreDiacritics,
       })
       // Fallback: if whole-word was on and nothing changed, retry without whole-word constraint
       if (!result.replacements && matchWholeWord) {
@@ -371,6 +495,8 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
           replace: replaceValue,
           caseSensitive: matchCase,
           wholeWord: false,
+          regex: useRegex,
+          ignoreDiacritics,
         })
       }
       if (!result.replacements && result.skipped) {
@@ -380,7 +506,7 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
         setReplaceStatus(result.skipped ? `${base} Skipped ${result.skipped}.` : base)
         // Post-Replace All behavior: keep or clear highlight
         if (keepHighlightAfterAll) {
-          const found = await findTextMatches({ search: findText, caseSensitive: matchCase, wholeWord: matchWholeWord })
+          const found = await findTextMatches(findOptions())
           setMatches(found)
           if (found.length) {
             setActiveIndex(0)
@@ -412,9 +538,30 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
           <button onClick={handleDeletePage} disabled={disableButtons || numPages <= 1} className="px-2 py-1.5 text-xs bg-red-100 text-red-600 rounded-md hover:bg-red-200 disabled:opacity-50 col-span-2">Delete Page</button>
           <button onClick={() => handleMovePage('up')} disabled={disableButtons || currentPage === 1} className="px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50">Move Up</button>
           <button onClick={() => handleMovePage('down')} disabled={disableButtons || currentPage === numPages} className="px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50">Move Down</button>
+          <button onClick={() => pdfInputRef.current?.click()} disabled={disableButtons} className="px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 col-span-2">Insert from PDF…</button>
         </div>
       </div>
 
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">History</h3>
+        <HistoryPanel disabled={disableButtons} />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Split / Extract</h3>
+        <SplitPanel disabled={disableButtons} />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Form Data</h3>
+        <FormDataPanel disabled={disableButtons} />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Comments Summary</h3>
+        <ReportPanel disabled={disableButtons} />
+      </div>
+
       <div>
         <h3 className="text-sm font-semibold text-gray-700 mb-2">Transform</h3>
         <div className="grid grid-cols-2 gap-2">
@@ -490,6 +637,78 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
                 <span>Whole word</span>
               </label>
             </div>
+            <div className="flex items-center justify-between gap-2 text-[11px] text-gray-600">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={useRegex}
+                  onChange={(event) => {
+                    const next = event.target.checked
+                    setUseRegex(next)
+                    try { window.localStorage.setItem('pdfoid.regex', next ? '1' : '0') } catch { }
+                    setReplaceStatus(null)
+                  }}
+                  disabled={disableButtons}
+                  className="h-3 w-3"
+                />
+                <span>Regex</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={ignoreDiacritics}
+                  onChange={(event) => {
+                    const next = event.target.checked
+                    setIgnoreDiacritics(next)
+                    try { window.localStorage.setItem('pdfoid.ignoreDiacritics', next ? '1' : '0') } catch { }
+                    setReplaceStatus(null)
+                  }}
+                  disabled={disableButtons}
+                  className="h-3 w-3"
+                />
+                <span>Ignore accents</span>
+              </label>
+            </div>
+            {/* Additional terms for multi-term search */}
+            <div className="space-y-1">
+              {extraTerms.map((term, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <input
+                    type="color"
+                    value={term.color}
+                    onChange={(e) => updateExtraTerm(index, { color: e.target.value })}
+                    disabled={disableButtons}
+                    aria-label={`Color for term ${index + 2}`}
+                    className="h-6 w-7 shrink-0 rounded border border-gray-200 bg-white p-0.5 disabled:opacity-50"
+                  />
+                  <input
+                    value={term.search}
+                    onChange={(e) => updateExtraTerm(index, { search: e.target.value })}
+                    disabled={disableButtons}
+                    aria-label={`Search term ${index + 2}`}
+                    className="min-w-0 flex-1 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100"
+                    placeholder="Also find"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setExtraTerms((terms) => terms.filter((_, i) => i !== index))}
+                    disabled={disableButtons}
+                    aria-label={`Remove term ${index + 2}`}
+                    className="shrink-0 px-1.5 py-1 text-xs text-gray-500 rounded hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setExtraTerms((terms) => [...terms, { search: '', color: TERM_COLORS[terms.length % TERM_COLORS.length] }])}
+                disabled={disableButtons}
+                className="text-[11px] text-indigo-600 hover:underline disabled:opacity-50"
+              >
+                + Add term
+              </button>
+            </div>
             <div className="flex items-center gap-2 text-[11px] text-gray-600">
               <label className="flex items-center gap-1">
                 <input
@@ -517,6 +736,22 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
                   {matches.length ? `${activeIndex + 1} / ${matches.length} on page ${matches[activeIndex]?.pageIndex + 1}` : '—'}
                 </span>
               </div>
+              <div className="col-span-2">
+                <SearchResultsPanel matches={matches} activeIndex={activeIndex} defaultColor={highlightAllColor} onSelect={selectMatch} />
+              </div>
+              {/* Keep every result as a highlight annotation */}
+              <div className="col-span-2 flex items-center gap-2">
+                <input
+                  type="color"
+                  value={highlightAllColor}
+                  onChange={(e) => setHighlightAllColor(e.target.value)}
+                  disabled={disableButtons}
+                  aria-label="Highlight color for all results"
+                  className="h-7 w-8 shrink-0 rounded border border-gray-200 bg-white p-0.5 disabled:opacity-50"
+                />
+                <button aria-label="Highlight all results" type="button" onClick={handleHighlightAll} disabled={disableButtons || matches.length === 0} className="flex-1 px-2 py-1.5 text-xs bg-amber-100 text-amber-900 rounded-md hover:bg-amber-200 disabled:opacity-50">Highlight All Results</button>
+              </div>
+              <button aria-label="Mark all results for redaction" type="button" onClick={handleMarkAllForRedaction} disabled={disableButtons || matches.length === 0} className="col-span-2 px-2 py-1.5 text-xs bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50">Mark All for Redaction</button>
               {/* Replace actions row */}
               <div className="col-span-2 flex justify-end gap-2">
                 <button aria-label="Replace current match" type="button" onClick={handleReplaceOne} disabled={disableButtons || activeIndex < 0} className="px-2 py-1.5 text-xs bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50">Replace</button>
@@ -530,9 +765,52 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       </div>
 
       <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Redaction</h3>
+        <SensitiveDataPanel disabled={disableButtons} onForcePageChange={onForcePageChange} />
+        <div className="mt-3">
+          <RedactionPanel disabled={disableButtons} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-1 text-[11px] text-gray-600">
+          <input
+            type="checkbox"
+            checked={exportAnnotations}
+            onChange={(e) => {
+              const next = e.target.checked
+              setExportAnnotations(next)
+              try { window.localStorage.setItem('pdfoid.exportAnnotations', next ? '1' : '0') } catch { }
+            }}
+            disabled={disableButtons}
+            className="h-3 w-3"
+          />
+          <span>Include annotations as PDF comments</span>
+        </label>
+        {hasForm && (
+          <label className="flex items-center gap-1 text-[11px] text-gray-600">
+            <input
+              type="checkbox"
+              checked={flattenForm}
+              onChange={(e) => {
+                const next = e.target.checked
+                setFlattenForm(next)
+                try { window.localStorage.setItem('pdfoid.flattenForm', next ? '1' : '0') } catch { }
+              }}
+              disabled={disableButtons}
+              className="h-3 w-3"
+            />
+            <span>Flatten form fields</span>
+          </label>
+        )}
         <button onClick={handleExportPdf} disabled={disableButtons} className="w-full px-3 py-2 text-xs bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50 font-semibold">Export Edited PDF</button>
       </div>
 
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Digital Signature</h3>
+        <SigningPanel disabled={disableButtons} onSign={handleSignedExport} />
+      </div>
+
       <div className="border-t border-gray-200 pt-3">
         <button
           type="button"
@@ -577,6 +855,17 @@ export const DocumentActionsPanel: React.FC<DocumentActionsPanelProps> = ({ curr
       </div>
 
       <input ref={imageInputRef} type="file" accept="image/png,image/jpeg" onChange={onImageSelected} className="hidden" />
+      <input ref={pdfInputRef} type="file" accept="application/pdf,.pdf" onChange={onInsertPdfSelected} className="hidden" data-testid="insert-pdf-input" />
+      {insertSource && (
+        <InsertPagesModal
+          sourceName={insertSource.name}
+          sourcePageCount={insertSource.pageCount}
+          numPages={numPages}
+          currentPage={currentPage}
+          onConfirm={handleInsertConfirm}
+          onCancel={() => setInsertSource(null)}
+        />
+      )}
       {cropModalOpen && (
         <CropModal
           onConfirm={handleCropConfirm}
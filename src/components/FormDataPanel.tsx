@@ -0,0 +1,261 @@
+/**
+ * FormDataPanel - form data in and out of the current form
+ * One record moves as FDF or XFDF; a CSV or JSON list of records is mapped
+ * onto the fields and filled into one copy of the opened PDF per record,
+ * downloaded as a zip or combined into a single PDF.
+ */
+
+import React, { useMemo, useRef, useState } from 'react'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import {
+  defaultMapping,
+  fillableFields,
+  formValuesToFdf,
+  formValuesToXfdf,
+  parseFdfFormData,
+  parseRecords,
+  parseXfdfFormData,
+  recordValues,
+  toFormValues,
+  type FormRecords,
+} from '../utils/formData'
+import type { FormValue } from '../utils/pdfForms'
+import { createZip } from '../utils/zip'
+import { downloadFile } from '../utils/download'
+
+type OutputFormat = 'zip' | 'combined'
+
+interface FormDataPanelProps {
+  disabled: boolean
+}
+
+const selectClass = 'w-full mt-1 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100'
+const buttonClass = 'px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50'
+
+export const FormDataPanel: React.FC<FormDataPanelProps> = ({ disabled }) => {
+  const formFields = usePdfEditorStore((s) => s.formFields)
+  const formValues = usePdfEditorStore((s) => s.formValues)
+  const annotations = useAnnotationStore((s) => s.annotations)
+  const fields = useMemo(() => fillableFields(formFields, annotations), [formFields, annotations])
+
+  const dataInputRef = useRef<HTMLInputElement | null>(null)
+  const recordsInputRef = useRef<HTMLInputElement | null>(null)
+  const [source, setSource] = useState<(FormRecords & { fileName: string }) | null>(null)
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [nameColumn, setNameColumn] = useState('')
+  const [flatten, setFlatten] = useState(false)
+  const [output, setOutput] = useState<OutputFormat>('zip')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  if (!fields.length) {
+    return <p className="text-xs text-gray-500">This document has no form fields to fill.</p>
+  }
+
+  const baseName = () => (usePdfEditorStore.getState().fileName || 'form').replace(/\.pdf$/i, '')
+
+  // What the form holds now: values stored in the file with the viewer's entries on top
+  const currentValues = (): Record<string, FormValue> => ({
+    ...Object.fromEntries(formFields.map((field) => [field.name, field.value])),
+    ...formValues,
+  })
+
+  const handleExport = (format: 'fdf' | 'xfdf') => {
+    const fileName = usePdfEditorStore.getState().fileName
+    if (format === 'fdf') {
+      downloadFile(formValuesToFdf(currentValues(), fields, { fileName }), 'application/vnd.fdf', `${baseName()}.fdf`)
+    } else {
+      downloadFile(formValuesToXfdf(currentValues(), { fileName }), 'application/vnd.adobe.xfdf', `${baseName()}.xfdf`)
+    }
+    setStatus(`Form data exported as ${format.toUpperCase()}.`)
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const isFdf = new TextDecoder('latin1').decode(bytes.subarray(0, 1024)).includes('%FDF-')
+      const raw = isFdf ? await parseFdfFormData(bytes) : parseXfdfFormData(new TextDecoder().decode(bytes))
+      const values = toFormValues(raw, fields)
+      if (!Object.keys(values).length) {
+        setStatus('No values for this form were found in the file.')
+        return
+      }
+      const changed = usePdfEditorStore.getState().applyFormValues(values, `Imported form data from ${file.name}`)
+      setStatus(`Filled ${changed} field${changed === 1 ? '' : 's'} from ${file.name}.`)
+    } catch (err: any) {
+      console.error('Form data import failed', err)
+      setStatus(err?.message || 'Form data import failed.')
+    }
+  }
+
+  const handleLoadRecords = async (file: File) => {
+    try {
+      const parsed = parseRecords(await file.text(), file.name)
+      if (!parsed.records.length) {
+        setStatus(`${file.name} has no records.`)
+        return
+      }
+      setSource({ ...parsed, fileName: file.name })
+      setMapping(defaultMapping(parsed.columns, fields))
+      setNameColumn('')
+      setStatus(null)
+    } catch (err: any) {
+      console.error('Loading records failed', err)
+      setStatus(err?.message || 'Loading records failed.')
+    }
+  }
+
+  const handleGenerate = async () => {
+    if (!source) return
+    if (!Object.values(mapping).some(Boolean)) {
+      setStatus('Map at least one column to a field.')
+      return
+    }
+    setBusy(true)
+    setStatus('Filling…')
+    try {
+      const files = await usePdfEditorStore.getState().generateFilledPdfs({
+        records: source.records.map((record) => recordValues(record, mapping, fields)),
+        names: nameColumn ? source.records.map((record) => String(record[nameColumn] ?? '')) : undefined,
+        flatten,
+        combine: output === 'combined',
+        onProgress: (done, total) => setStatus(`Filling ${done} of ${total}…`),
+      })
+      if (output === 'zip') {
+        const entries = await Promise.all(
+          files.map(async (file) => ({ name: file.fileName, data: new Uint8Array(await file.blob.arrayBuffer()) }))
+        )
+        downloadFile(createZip(entries), 'application/zip', `${baseName()}-filled.zip`)
+      } else {
+        downloadFile(files[0].blob, 'application/pdf', files[0].fileName)
+      }
+      const count = source.records.length
+      setStatus(`Filled ${count} cop${count === 1 ? 'y' : 'ies'} of the form.`)
+    } catch (err: any) {
+      console.error('Form fill from records failed', err)
+      setStatus(err?.message || 'Filling from records failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <button type="button" onClick={() => dataInputRef.current?.click()} disabled={disabled || busy} className={buttonClass}>Import…</button>
+        <button type="button" onClick={() => handleExport('fdf')} disabled={disabled || busy} className={buttonClass}>Export FDF</button>
+        <button type="button" onClick={() => handleExport('xfdf')} disabled={disabled || busy} className={buttonClass}>Export XFDF</button>
+      </div>
+      <input
+        ref={dataInputRef}
+        type="file"
+        accept=".fdf,.xfdf,application/vnd.fdf,application/vnd.adobe.xfdf,application/xml,text/xml"
+        className="hidden"
+        aria-label="Import form data from FDF or XFDF"
+        onChange={async (e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) await handleImport(file)
+        }}
+      />
+
+      <button
+        type="button"
+        onClick={() => recordsInputRef.current?.click()}
+        disabled={disabled || busy}
+        className={`${buttonClass} w-full`}
+      >
+        {source ? `Records: ${source.fileName} (${source.records.length})` : 'Load Records (CSV / JSON)…'}
+      </button>
+      <input
+        ref={recordsInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        aria-label="Load records from CSV or JSON"
+        onChange={async (e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) await handleLoadRecords(file)
+        }}
+      />
+
+      {source && (
+        <>
+          <div className="space-y-1" role="group" aria-label="Column mapping">
+            {source.columns.map((column) => (
+              <label key={column} className="flex items-center justify-between gap-2 text-[11px] text-gray-600">
+                <span className="truncate" title={column}>{column}</span>
+                <select
+                  value={mapping[column] ?? ''}
+                  onChange={(e) => setMapping((current) => ({ ...current, [column]: e.target.value }))}
+                  disabled={disabled || busy}
+                  className="w-32 px-1.5 py-0.5 border border-gray-200 rounded-md bg-transparent text-xs"
+                  aria-label={`Field for column ${column}`}
+                >
+                  <option value="">Skip</option>
+                  {fields.map((field) => (
+                    <option key={field.name} value={field.name}>{field.name}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="form-data-name-select" className="text-[11px] font-semibold text-gray-600">Name files by</label>
+              <select
+                id="form-data-name-select"
+                value={nameColumn}
+                onChange={(e) => setNameColumn(e.target.value)}
+                disabled={disabled || busy || output === 'combined'}
+                className={selectClass}
+              >
+                <option value="">Record number</option>
+                {source.columns.map((column) => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="form-data-output-select" className="text-[11px] font-semibold text-gray-600">Output</label>
+              <select
+                id="form-data-output-select"
+                value={output}
+                onChange={(e) => setOutput(e.target.value as OutputFormat)}
+                disabled={disabled || busy}
+                className={selectClass}
+              >
+                <option value="zip">Zip of PDFs</option>
+                <option value="combined">One merged PDF</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-1 text-[11px] text-gray-600">
+            <input
+              type="checkbox"
+              checked={flatten}
+              onChange={(e) => setFlatten(e.target.checked)}
+              disabled={disabled || busy}
+              className="h-3 w-3"
+            />
+            <span>Flatten filled fields</span>
+          </label>
+
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={disabled || busy}
+            className="w-full px-2 py-1.5 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+          >
+            Fill {source.records.length} Cop{source.records.length === 1 ? 'y' : 'ies'}
+          </button>
+        </>
+      )}
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+/**
+ * FormDesignPanel - fields drawn with the form field tool, in tab order
+ * Renames, property edits and deletes apply to every widget of a field (all
+ * buttons of a radio group) as one undoable change. The fields become real
+ * AcroForm fields when the PDF is exported.
+ */
+
+import React, { useEffect, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useAnnotationStore } from '../store/annotationStore'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useUIStore } from '../store/uiStore'
+import type { Annotation, FormFieldType } from '../types/annotations'
+import { designedFields, fieldNameConflict, type DesignedField } from '../utils/formDesign'
+
+interface FormDesignPanelProps {
+  onJumpToPage: (page: number) => void
+}
+
+const TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Text',
+  checkbox: 'Checkbox',
+  radio: 'Radio group',
+  dropdown: 'Dropdown',
+  signature: 'Signature',
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-300'
+const labelClass = 'flex items-center justify-between gap-2 text-[11px] text-gray-600'
+
+// Text that is committed on blur or Enter, so each edit is one undo step
+function CommitInput({ value, onCommit, label, type = 'text' }: {
+  value: string
+  onCommit: (value: string) => void
+  label: string
+  type?: 'text' | 'number'
+}) {
+  const [draft, setDraft] = useState(value)
+  useEffect(() => setDraft(value), [value])
+  const commit = () => {
+    if (draft !== value) onCommit(draft)
+  }
+  return (
+    <input
+      type={type}
+      value={draft}
+      aria-label={label}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        else if (e.key === 'Escape') setDraft(value)
+      }}
+      className={inputClass}
+    />
+  )
+}
+
+function FieldProperties({ field, selected, onChange, onRename }: {
+  field: DesignedField
+  selected: Annotation
+  onChange: (changes: Partial<Annotation>, label: string, widgetId?: string) => void
+  onRename: (name: string) => void
+}) {
+  const [first] = field.widgets
+  const radioOptions = field.widgets.map((widget) => widget.fieldOption ?? '')
+  const defaultValue = field.widgets.map((widget) => widget.defaultValue).find((value) => value !== undefined && value !== '')
+
+  return (
+    <div className="mt-2 space-y-2" role="group" aria-label={`Properties of ${field.name}`}>
+      <label className={labelClass}>
+        Name
+        <span className="w-36"><CommitInput value={field.name} onCommit={onRename} label="Field name" /></span>
+      </label>
+      {field.type === 'radio' && (
+        <label className={labelClass}>
+          Button value
+          <span className="w-36">
+            <CommitInput
+              value={selected.fieldOption ?? ''}
+              onCommit={(value) => value.trim() && onChange({ fieldOption: value.trim() }, `Edited option of ${field.name}`, selected.id)}
+              label="Button value"
+            />
+          </span>
+        </label>
+      )}
+      {field.type === 'dropdown' && (
+        <label className="block text-[11px] text-gray-600">
+          Choices (one per line)
+          <textarea
+            defaultValue={(first.options ?? []).join('\n')}
+            key={(first.options ?? []).join('\n')}
+            rows={3}
+            onBlur={(e) => {
+              const options = e.target.value.split('\n').map((line) => line.trim()).filter(Boolean)
+              if (options.join('\n') !== (first.options ?? []).join('\n')) onChange({ options }, `Edited choices of ${field.name}`)
+            }}
+            className={inputClass}
+          />
+        </label>
+      )}
+      {field.type === 'text' && (
+        <label className={labelClass}>
+          Default
+          <span className="w-36">
+            <CommitInput
+              value={typeof defaultValue === 'string' ? defaultValue : ''}
+              onCommit={(value) => onChange({ defaultValue: value || undefined }, `Edited default of ${field.name}`)}
+              label="Default value"
+            />
+          </span>
+        </label>
+      )}
+      {field.type === 'checkbox' && (
+        <label className={labelClass}>
+          Checked by default
+          <input
+            type="checkbox"
+            checked={defaultValue === true}
+            onChange={(e) => onChange({ defaultValue: e.target.checked || undefined }, `Edited default of ${field.name}`)}
+            className="h-3 w-3"
+          />
+        </label>
+      )}
+      {(field.type === 'radio' || field.type === 'dropdown') && (
+        <label className={labelClass}>
+          Default
+          <select
+            value={typeof defaultValue === 'string' ? defaultValue : ''}
+            onChange={(e) => onChange({ defaultValue: e.target.value || undefined }, `Edited default of ${field.name}`)}
+            className="w-36 px-1.5 py-0.5 border border-gray-200 rounded-md bg-transparent text-xs"
+          >
+            <option value="">None</option>
+            {(field.type === 'radio' ? radioOptions : first.options ?? []).map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className={labelClass}>
+        Required
+        <input
+          type="checkbox"
+          checked={field.widgets.some((widget) => widget.required)}
+          onChange={(e) => onChange({ required: e.target.checked || undefined }, `${e.target.checked ? 'Required' : 'Optional'} field ${field.name}`)}
+          className="h-3 w-3"
+        />
+      </label>
+      <label className={labelClass}>
+        Tab order
+        <span className="w-20">
+          <CommitInput
+            type="number"
+            value={first.tabOrder === undefined ? '' : String(first.tabOrder)}
+            onCommit={(value) => {
+              const order = Number(value)
+              onChange({ tabOrder: value.trim() && Number.isFinite(order) ? order : undefined }, `Edited tab order of ${field.name}`)
+            }}
+            label="Tab order"
+          />
+        </span>
+      </label>
+    </div>
+  )
+}
+
+export function FormDesignPanel({ onJumpToPage }: FormDesignPanelProps) {
+  const { annotations, selectedAnnotationId, setSelectedAnnotation, loadAnnotations } = useAnnotationStore(
+    useShallow((state) => ({
+      annotations: state.annotations,
+      selectedAnnotationId: state.selectedAnnotationId,
+      setSelectedAnnotation: state.setSelectedAnnotation,
+      loadAnnotations: state.loadAnnotations,
+    }))
+  )
+  const formFields = usePdfEditorStore((s) => s.formFields)
+  const warning = useUIStore((s) => s.warning)
+
+  const fields = designedFields(annotations)
+  if (!fields.length) {
+    return (
+      <p className="text-xs text-gray-500">
+        Choose the Field tool (M) and draw on a page to add text fields, checkboxes, radio groups, dropdowns or signature fields.
+      </p>
+    )
+  }
+
+  const reviseField = (field: DesignedField, changes: Partial<Annotation>, label: string, widgetId?: string) => {
+    const ids = new Set(widgetId ? [widgetId] : field.widgets.map((widget) => widget.id))
+    loadAnnotations(
+      annotations.map((ann) => (ids.has(ann.id) ? { ...ann, ...changes } : ann)),
+      { undoable: true, label },
+    )
+  }
+
+  const renameField = (field: DesignedField, name: string) => {
+    const problem = fieldNameConflict(
+      name,
+      field.type,
+      field.widgets.map((widget) => widget.id),
+      annotations,
+      formFields.map((existing) => existing.name),
+    )
+    if (problem) {
+      warning(problem)
+      return
+    }
+    reviseField(field, { fieldName: name.trim() }, `Renamed field ${field.name} to ${name.trim()}`)
+  }
+
+  const deleteField = (field: DesignedField) => {
+    const ids = new Set(field.widgets.map((widget) => widget.id))
+    loadAnnotations(annotations.filter((ann) => !ids.has(ann.id)), { undoable: true, label: `Deleted field ${field.name}` })
+  }
+
+  return (
+    <ol className="space-y-1.5" aria-label="Form fields">
+      {fields.map((field) => {
+        const selected = field.widgets.find((widget) => widget.id === selectedAnnotationId)
+        const pages = [...new Set(field.widgets.map((widget) => widget.page))].join(', ')
+        return (
+          <li key={field.name} className={`border rounded-lg p-2 ${selected ? 'border-indigo-300 bg-indigo-50/40' : 'border-gray-100 bg-white'}`}>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedAnnotation(field.widgets[0].id)
+                  onJumpToPage(field.widgets[0].page)
+                }}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="block text-xs font-semibold text-gray-700 truncate">
+                  {field.name}{field.widgets.some((widget) => widget.required) ? ' *' : ''}
+                </span>
+                <span className="block text-[10px] text-gray-400">
+                  {TYPE_LABELS[field.type]}
+                  {field.type === 'radio' ? ` · ${field.widgets.length} buttons` : ''} · page {pages}
+                  {field.widgets[0].tabOrder !== undefined ? ` · tab ${field.widgets[0].tabOrder}` : ''}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteField(field)}
+                className="text-[10px] text-red-500 hover:underline"
+                aria-label={`Delete field ${field.name}`}
+              >
+                Delete
+              </button>
+            </div>
+            {selected && (
+              <FieldProperties
+                field={field}
+                selected={selected}
+                onChange={(changes, label, widgetId) => reviseField(field, changes, label, widgetId)}
+                onRename={(name) => renameField(field, name)}
+              />
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,176 @@
+/**
+ * FormFieldLayer - live inputs over the AcroForm widgets of a page
+ * Values go to the editor store and are written into the PDF on export.
+ * Inputs only take the pointer while the pointer tool is active, so drawing
+ * tools still reach the annotation canvas underneath.
+ */
+
+import React, { useEffect, useState } from 'react'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import type { FormField, FormValue, FormWidget } from '../utils/pdfForms'
+
+interface FormFieldLayerProps {
+  pageWidth: number
+  pageHeight: number
+  currentPage: number
+}
+
+interface WidgetInputProps {
+  field: FormField
+  widget: FormWidget
+  value: FormValue
+  style: React.CSSProperties
+  onChange: (value: FormValue) => void
+}
+
+const isEmpty = (value: FormValue) => (Array.isArray(value) ? value.length === 0 : !value)
+
+// Text commits on blur (and Enter for single lines) so each edit is one undo step
+function TextInput({ field, value, style, onChange }: WidgetInputProps) {
+  const [draft, setDraft] = useState(String(value))
+  useEffect(() => setDraft(String(value)), [value])
+  const commit = () => {
+    if (draft !== value) onChange(draft)
+  }
+  const common = {
+    value: draft,
+    maxLength: field.maxLength,
+    readOnly: field.readOnly,
+    'aria-label': field.name,
+    'aria-required': field.required,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value),
+    onBlur: commit,
+    style: { ...style, resize: 'none' as const },
+  }
+  return field.multiline ? (
+    <textarea {...common} />
+  ) : (
+    <input
+      type="text"
+      {...common}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        else if (e.key === 'Escape') setDraft(String(value))
+      }}
+    />
+  )
+}
+
+function WidgetInput(props: WidgetInputProps) {
+  const { field, widget, value, style, onChange } = props
+  switch (field.kind) {
+    case 'text':
+      return <TextInput {...props} />
+    case 'checkbox':
+    case 'radio': {
+      const checked = field.kind === 'checkbox' ? value === true : value === widget.option
+      return (
+        <button
+          type="button"
+          role={field.kind}
+          aria-checked={checked}
+          aria-label={field.kind === 'radio' ? `${field.name}: ${widget.option}` : field.name}
+          disabled={field.readOnly}
+          onClick={() => onChange(field.kind === 'checkbox' ? !checked : checked ? '' : widget.option ?? '')}
+          style={{ ...style, padding: 0, lineHeight: 1, textAlign: 'center', borderRadius: field.kind === 'radio' ? '50%' : 2 }}
+        >
+          {checked ? (field.kind === 'radio' ? '●' : '✓') : ''}
+        </button>
+      )
+    }
+    case 'dropdown': {
+      const options = field.options ?? []
+      // Keep a value typed outside the options (editable dropdowns) selectable
+      const entries = value && !options.includes(String(value)) ? [String(value), ...options] : options
+      return (
+        <select
+          aria-label={field.name}
+          aria-required={field.required}
+          disabled={field.readOnly}
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          style={style}
+        >
+          <option value="" />
+          {entries.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )
+    }
+    case 'option-list': {
+      const selected = Array.isArray(value) ? value : value ? [String(value)] : []
+      return (
+        <select
+          multiple
+          aria-label={field.name}
+          aria-required={field.required}
+          aria-multiselectable={field.multiSelect}
+          disabled={field.readOnly}
+          value={selected}
+          onChange={(e) => {
+            const chosen = Array.from(e.target.selectedOptions, (option) => option.value)
+            onChange(field.multiSelect ? chosen : chosen.slice(-1))
+          }}
+          style={style}
+        >
+          {(field.options ?? []).map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )
+    }
+  }
+}
+
+export function FormFieldLayer({ pageWidth, pageHeight, currentPage }: FormFieldLayerProps) {
+  const formFields = usePdfEditorStore((s) => s.formFields)
+  const formValues = usePdfEditorStore((s) => s.formValues)
+  const setFormValue = usePdfEditorStore((s) => s.setFormValue)
+  const interactive = useAnnotationStore((s) => s.selectedTool === 'pointer')
+
+  const widgets = formFields.flatMap((field) =>
+    field.widgets
+      .filter((widget) => widget.page === currentPage)
+      .map((widget, index) => ({ field, widget, key: `${field.name}:${index}` })),
+  )
+  if (!widgets.length) return null
+
+  return (
+    <div
+      data-testid="form-field-layer"
+      style={{ position: 'absolute', top: 0, left: 0, width: pageWidth, height: pageHeight, zIndex: 15, pointerEvents: 'none' }}
+    >
+      {widgets.map(({ field, widget, key }) => {
+        const value = formValues[field.name] ?? field.value
+        const height = widget.rect.height * pageHeight
+        const style: React.CSSProperties = {
+          position: 'absolute',
+          left: widget.rect.left * pageWidth,
+          top: widget.rect.top * pageHeight,
+          width: widget.rect.width * pageWidth,
+          height,
+          boxSizing: 'border-box',
+          margin: 0,
+          padding: '0 2px',
+          fontSize: field.kind === 'option-list' || field.multiline ? 12 : Math.max(8, Math.min(16, height * 0.65)),
+          color: '#111827',
+          backgroundColor: 'rgba(219,234,254,0.92)',
+          border: `1px solid ${field.required && isEmpty(value) ? '#DC2626' : '#93C5FD'}`,
+          pointerEvents: interactive ? 'auto' : 'none',
+        }
+        return (
+          <WidgetInput
+            key={key}
+            field={field}
+            widget={widget}
+            value={value}
+            style={style}
+            onChange={(next) => setFormValue(field.name, next)}
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+/**
+ * HistoryPanel - undo/redo and a clickable timeline of annotation and page edits
+ * Undone edits stay listed (dimmed) until a new edit replaces them.
+ */
+
+import React from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useHistoryStore, type HistoryEntry, type HistorySource } from '../store/historyStore'
+
+interface HistoryPanelProps {
+  disabled: boolean
+}
+
+const SOURCE_LABELS: Record<HistorySource, string> = {
+  annotations: 'Markup',
+  document: 'Pages',
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ disabled: disabledProp }) => {
+  const { entries, redoEntries, locked, undo, redo, goTo } = useHistoryStore(
+    useShallow((s) => ({
+      entries: s.entries,
+      redoEntries: s.redoEntries,
+      locked: s.locked,
+      undo: s.undo,
+      redo: s.redo,
+      goTo: s.goTo,
+    }))
+  )
+
+  const disabled = disabledProp || locked
+  const lastDone = entries[entries.length - 1]
+  const nextRedo = redoEntries[0]
+
+  const renderEntry = (entry: HistoryEntry, state: 'done' | 'current' | 'undone') => (
+    <li key={entry.id}>
+      <button
+        type="button"
+        onClick={() => goTo(entry.id)}
+        disabled={disabled || state === 'current'}
+        aria-current={state === 'current' ? 'step' : undefined}
+        className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-[11px] ${
+          state === 'current' ? 'bg-indigo-50 text-indigo-700 font-semibold' : state === 'undone' ? 'text-gray-400 hover:bg-gray-50' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <span className="truncate">
+          <span className="mr-1 text-[9px] uppercase tracking-wide text-gray-400">{SOURCE_LABELS[entry.source]}</span>
+          {entry.label}
+        </span>
+        <span className="shrink-0 text-[10px] text-gray-400">{formatTime(entry.createdAt)}</span>
+      </button>
+    </li>
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={() => undo()}
+          disabled={disabled || !lastDone}
+          title={lastDone ? `Undo: ${lastDone.label}` : undefined}
+          className="px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => redo()}
+          disabled={disabled || !nextRedo}
+          title={nextRedo ? `Redo: ${nextRedo.label}` : undefined}
+          className="px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          Redo
+        </button>
+      </div>
+      {entries.length + redoEntries.length > 0 ? (
+        <ol aria-label="Edit history" className="max-h-40 overflow-y-auto border border-gray-100 rounded-md p-1 space-y-0.5">
+          <li>
+            <button
+              type="button"
+              onClick={() => goTo(null)}
+              disabled={disabled || !lastDone}
+              aria-current={!lastDone ? 'step' : undefined}
+              className={`w-full px-2 py-1 rounded text-left text-[11px] ${!lastDone ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+              Oldest kept version
+            </button>
+          </li>
+          {entries.map((entry) => renderEntry(entry, entry === lastDone ? 'current' : 'done'))}
+          {redoEntries.map((entry) => renderEntry(entry, 'undone'))}
+        </ol>
+      ) : (
+        <p className="text-[11px] text-gray-500">No edits yet.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Button } from './ui';
+import { parsePageRanges } from '../utils/pageOrder';
+
+type InsertPosition = 'start' | 'before' | 'after' | 'end';
+
+interface InsertPagesModalProps {
+    sourceName: string;
+    sourcePageCount: number;
+    numPages: number;
+    currentPage: number;
+    onConfirm: (selection: { sourcePageIndices: number[]; atIndex: number }) => void;
+    onCancel: () => void;
+}
+
+export const InsertPagesModal: React.FC<InsertPagesModalProps> = ({ sourceName, sourcePageCount, numPages, currentPage, onConfirm, onCancel }) => {
+    const [pages, setPages] = useState('');
+    const [position, setPosition] = useState<InsertPosition>('after');
+
+    const sourcePageIndices = parsePageRanges(pages, sourcePageCount);
+    const atIndex = {
+        start: 0,
+        before: currentPage - 1,
+        after: currentPage,
+        end: numPages,
+    }[position];
+
+    const handleConfirm = () => {
+        if (!sourcePageIndices?.length) return;
+        onConfirm({ sourcePageIndices, atIndex });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onCancel}>
+            <div className="w-[340px] bg-white rounded-xl shadow-xl p-6 border border-gray-200" onClick={e => e.stopPropagation()} role="dialog" aria-modal="true" aria-labelledby="insert-pages-title">
+                <h3 id="insert-pages-title" className="text-lg font-semibold text-gray-900 mb-1">Insert Pages</h3>
+                <p className="text-sm text-gray-500 mb-4 truncate" title={sourceName}>
+                    From {sourceName} ({sourcePageCount} page{sourcePageCount === 1 ? '' : 's'})
+                </p>
+
+                <div className="space-y-4 mb-6">
+                    <div className="space-y-1">
+                        <label htmlFor="insert-pages-range" className="text-xs font-medium text-gray-700">Pages</label>
+                        <input
+                            id="insert-pages-range"
+                            value={pages}
+                            onChange={e => setPages(e.target.value)}
+                            placeholder={`All (e.g. 1-3, 5)`}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        {!sourcePageIndices && (
+                            <p className="text-xs text-red-500">Use page numbers between 1 and {sourcePageCount}.</p>
+                        )}
+                    </div>
+                    <div className="space-y-1">
+                        <label htmlFor="insert-pages-position" className="text-xs font-medium text-gray-700">Position</label>
+                        <select
+                            id="insert-pages-position"
+                            value={position}
+                            onChange={e => setPosition(e.target.value as InsertPosition)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                            <option value="start">At the beginning</option>
+                            <option value="before">Before page {currentPage}</option>
+                            <option value="after">After page {currentPage}</option>
+                            <option value="end">At the end</option>
+                        </select>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+                    <Button variant="primary" onClick={handleConfirm} disabled={!sourcePageIndices?.length}>Insert</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -22,10 +22,20 @@ const shortcutCategories: ShortcutCategory[] = [
     shortcuts: [
       { keys: ['V'], description: 'Select / Pointer tool' },
       { keys: ['H'], description: 'Highlight tool' },
+      { keys: ['U'], description: 'Underline tool' },
+      { keys: ['K'], description: 'Strikeout tool' },
       { keys: ['D'], description: 'Pen / Draw tool' },
       { keys: ['R'], description: 'Rectangle tool' },
+      { keys: ['O'], description: 'Ellipse tool' },
+      { keys: ['L'], description: 'Line tool' },
+      { keys: ['A'], description: 'Arrow tool' },
+      { keys: ['P'], description: 'Polyline tool' },
+      { keys: ['G'], description: 'Polygon tool' },
+      { keys: ['C'], description: 'Revision cloud tool' },
       { keys: ['T'], description: 'Text box tool' },
       { keys: ['N'], description: 'Sticky note tool' },
+      { keys: ['M'], description: 'Form field tool' },
+      { keys: ['X'], description: 'Redact tool' },
       { keys: ['E'], description: 'Eraser tool' },
     ],
   },
@@ -1,13 +1,24 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react'
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
 import { AnnotationCanvas } from './AnnotationCanvas'
+import { FormFieldLayer } from './FormFieldLayer'
+import { ContinuousPageView } from './ContinuousPageView'
+import type { DocumentViewState } from '../types/annotations'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { nativeAnnotationRefs } from '../utils/pdfAnnotations'
+import { hideFileAnnotations } from '../utils/pdfRender'
+
+type ViewerZoom = NonNullable<DocumentViewState['zoom']>
+type ViewMode = 'single' | 'continuous'
+
+const VIEW_MODE_KEY = 'pdfoid.viewMode'
 
 // Ensure workerSrc is set without reassigning import bindings
 if ((pdfjsLib as any).GlobalWorkerOptions) {
   ; (pdfjsLib as any).GlobalWorkerOptions.workerSrc = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js'
 }
 
-export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfData: ArrayBuffer; onPageChange?: (page: number) => void; targetPage?: number }) {
+export default function PDFViewer({ pdfData, onPageChange, targetPage, initialZoom, onZoomChange }: { pdfData: ArrayBuffer; onPageChange?: (page: number) => void; targetPage?: number; initialZoom?: ViewerZoom; onZoomChange?: (zoom: ViewerZoom) => void }) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const containerRef = useRef<HTMLDivElement | null>(null)
   const renderTaskRef = useRef<any | null>(null)
@@ -19,6 +30,16 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
   const [fitMode, setFitMode] = useState<'width' | 'page' | null>('width')
   const [pageSize, setPageSize] = useState({ width: 0, height: 0 })
   const [pendingAutoFit, setPendingAutoFit] = useState(false)
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    try {
+      return localStorage.getItem(VIEW_MODE_KEY) === 'continuous' ? 'continuous' : 'single'
+    } catch {
+      return 'single'
+    }
+  })
+  // Read on load only; later targetPage changes navigate without reloading the document
+  const targetPageRef = useRef(targetPage)
+  targetPageRef.current = targetPage
   const e2eFallbackSize = import.meta.env?.VITE_E2E === '1'
     ? { width: 800, height: 1100 }
     : null
@@ -36,14 +57,23 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
           const dataCopy = new Uint8Array(pdfData.slice(0))
           const doc = await (pdfjsLib as any).getDocument({ data: dataCopy, disableWorker }).promise
           if (cancelled) return
+          // Markup imported into the annotation layer is drawn there, not by pdf.js
+          hideFileAnnotations(doc, nativeAnnotationRefs(usePdfEditorStore.getState().nativeAnnotations))
           setPdf(doc)
           setNumPages(doc.numPages)
-          const desiredPage = targetPage ? Math.min(Math.max(targetPage, 1), doc.numPages) : 1
+          const requested = targetPageRef.current
+          const desiredPage = requested ? Math.min(Math.max(requested, 1), doc.numPages) : 1
           setPageNum(desiredPage)
-          setScale(1)
           setPageSize({ width: 0, height: 0 })
-          setFitMode('width')
-          setPendingAutoFit(true)
+          // Restore the zoom saved for this document, defaulting to fit-width
+          if (typeof initialZoom === 'number') {
+            setScale(Math.min(3, Math.max(0.25, initialZoom)))
+            setFitMode(null)
+          } else {
+            setScale(1)
+            setFitMode(initialZoom === 'fit-page' ? 'page' : 'width')
+            setPendingAutoFit(initialZoom !== 'fit-page')
+          }
           onPageChange?.(desiredPage)
         } catch (err) {
           console.error('PDF load failed', err)
@@ -54,12 +84,12 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
         }
       })()
     return () => { cancelled = true }
-  }, [pdfData, targetPage])
+  }, [pdfData])
 
   // Handle Page Rendering
   useEffect(() => {
     let isActive = true
-    if (!pdf) return
+    if (!pdf || viewMode !== 'single') return
 
       ; (async () => {
         try {
@@ -135,7 +165,7 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
             ctx.scale(dpr, dpr);
           }
 
-          const renderContext: any = { canvasContext: ctx, viewport }
+          const renderContext: any = { canvasContext: ctx, viewport, annotationMode: (pdfjsLib as any).AnnotationMode.ENABLE_STORAGE }
           // Note: We don't use the 'transform' property of renderContext here because
           // we scaled the ctx directly. This is often more reliable for annotations.
 
@@ -171,7 +201,7 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
         }
       }
     }
-  }, [pdf, pageNum, scale, onPageChange])
+  }, [pdf, pageNum, scale, onPageChange, viewMode])
 
   useEffect(() => {
     if (!pdf || !targetPage || !numPages) return
@@ -181,6 +211,27 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
     }
   }, [targetPage, pdf, numPages, pageNum])
 
+  useEffect(() => {
+    if (!pdf) return
+    onZoomChange?.(fitMode === 'width' ? 'fit-width' : fitMode === 'page' ? 'fit-page' : scale)
+  }, [pdf, scale, fitMode])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(VIEW_MODE_KEY, viewMode)
+    } catch {
+      // Storage may be unavailable (private mode); the toggle still works for this session
+    }
+  }, [viewMode])
+
+  const handleContinuousPageChange = useCallback(
+    (page: number) => {
+      setPageNum(page)
+      onPageChange?.(page)
+    },
+    [onPageChange]
+  )
+
   const handleZoomOut = () => {
     setFitMode(null)
     setScale((s) => Math.max(0.25, s - 0.25))
@@ -428,6 +479,16 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
             >
               Fit Page
             </button>
+            <button
+              onClick={() => setViewMode((mode) => (mode === 'continuous' ? 'single' : 'continuous'))}
+              aria-label="Continuous scroll"
+              aria-pressed={viewMode === 'continuous'}
+              className={`shrink-0 px-3 py-2 border rounded-lg transition-colors text-sm font-semibold shadow-sm whitespace-nowrap focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--pdfoid-ring)] focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--pdfoid-bg)] ${viewMode === 'continuous' ? 'bg-[var(--pdfoid-accent-soft)] text-[var(--pdfoid-accent2)] border-[var(--pdfoid-border)]' : 'bg-[var(--pdfoid-surface)] border-[var(--pdfoid-border)] hover:bg-[rgba(47,33,22,0.04)] text-[var(--pdfoid-text)]'
+                }`}
+              title="Scroll through all pages"
+            >
+              Scroll
+            </button>
             <button
               onClick={handleZoomReset}
               aria-label="Reset zoom to 100%"
@@ -444,7 +505,7 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
       {/* Canvas Container with better visual */}
       <div
         ref={containerRef}
-        className="flex-1 overflow-auto flex items-start justify-center px-8 py-10 bg-[var(--pdfoid-bg)]"
+        className="relative flex-1 overflow-auto flex items-start justify-center px-8 py-10 bg-[var(--pdfoid-bg)]"
         role="document"
         aria-label={`PDF document, page ${pageNum} of ${numPages}`}
         tabIndex={0}
@@ -459,6 +520,17 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
             <p className="font-bold text-red-600 text-lg mb-1">Failed to Load PDF</p>
             <p className="text-red-500 text-sm">{error}</p>
           </div>
+        ) : viewMode === 'continuous' ? (
+          pdf && (
+            <ContinuousPageView
+              pdf={pdf}
+              numPages={numPages}
+              scale={scale}
+              scrollContainerRef={containerRef}
+              currentPage={pageNum}
+              onCurrentPageChange={handleContinuousPageChange}
+            />
+          )
         ) : (
           <div style={{ position: 'relative', display: 'inline-block' }}>
             <canvas
@@ -475,6 +547,13 @@ export default function PDFViewer({ pdfData, onPageChange, targetPage }: { pdfDa
                 currentPage={pageNum}
               />
             )}
+            {effectivePageSize && (
+              <FormFieldLayer
+                pageWidth={effectivePageSize.width}
+                pageHeight={effectivePageSize.height}
+                currentPage={pageNum}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,363 @@
+/**
+ * PageThumbnailRail - page thumbnails with drag-and-drop reorder and multi-select
+ * Click selects and navigates, Shift+click selects a range, Ctrl/Cmd+click toggles.
+ * Bulk actions apply to the whole selection as a single document edit.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useHistoryStore } from '../store/historyStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useUIStore } from '../store/uiStore'
+import { hideFileAnnotations, renderPageToCanvas } from '../utils/pdfRender'
+import { nativeAnnotationRefs } from '../utils/pdfAnnotations'
+import { formatPageRanges } from '../utils/pageOrder'
+import { downloadFile } from '../utils/download'
+
+const THUMB_WIDTH = 96
+
+// Low-resolution renders keyed by `${pdfRevision}:${pageNumber}`; entries from
+// older revisions are dropped as soon as a new revision is displayed.
+const thumbnailCache = new Map<string, string>()
+let cachedRevision = -1
+
+const invalidateThumbnails = (revision: number) => {
+  if (revision === cachedRevision) return
+  thumbnailCache.clear()
+  cachedRevision = revision
+}
+
+// Render one thumbnail at a time so a long document doesn't starve the viewer
+let renderQueue: Promise<unknown> = Promise.resolve()
+const enqueueRender = <T,>(task: () => Promise<T>): Promise<T> => {
+  const run = renderQueue.then(task, task)
+  renderQueue = run.catch(() => undefined)
+  return run
+}
+
+interface ThumbnailProps {
+  pdf: any
+  revision: number
+  pageNumber: number
+  aspectRatio: number
+  rootRef: React.RefObject<HTMLElement>
+}
+
+function Thumbnail({ pdf, revision, pageNumber, aspectRatio, rootRef }: ThumbnailProps) {
+  const key = `${revision}:${pageNumber}`
+  const [src, setSrc] = useState<string | undefined>(() => thumbnailCache.get(key))
+  const [visible, setVisible] = useState(typeof IntersectionObserver === 'undefined')
+  const holderRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    setSrc(thumbnailCache.get(key))
+  }, [key])
+
+  useEffect(() => {
+    const holder = holderRef.current
+    if (visible || !holder) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setVisible(true)
+        observer.disconnect()
+      }
+    }, { root: rootRef.current, rootMargin: '200px' })
+    observer.observe(holder)
+    return () => observer.disconnect()
+  }, [visible, rootRef])
+
+  useEffect(() => {
+    if (!pdf || !visible || src) return
+    let cancelled = false
+    enqueueRender(async () => {
+      if (cancelled) return
+      const page = await pdf.getPage(pageNumber)
+      try {
+        const canvas = document.createElement('canvas')
+        const natural = page.getViewport({ scale: 1 })
+        await renderPageToCanvas(page, canvas, THUMB_WIDTH / Math.max(1, natural.width)).promise
+        const dataUrl = canvas.toDataURL('image/png')
+        if (revision === cachedRevision) thumbnailCache.set(key, dataUrl)
+        if (!cancelled) setSrc(dataUrl)
+      } finally {
+        page.cleanup?.()
+      }
+    }).catch((err) => console.warn(`Thumbnail for page ${pageNumber} failed`, err))
+    return () => { cancelled = true }
+  }, [pdf, visible, src, pageNumber, key, revision])
+
+  return (
+    <div
+      ref={holderRef}
+      className="bg-white border border-[var(--pdfoid-border)] rounded overflow-hidden"
+      style={{ width: THUMB_WIDTH, height: Math.round(THUMB_WIDTH * aspectRatio) }}
+    >
+      {src && <img src={src} alt="" className="w-full h-full object-contain" draggable={false} />}
+    </div>
+  )
+}
+
+interface PageThumbnailRailProps {
+  currentPage: number
+  onPageChange: (page: number) => void
+}
+
+export function PageThumbnailRail({ currentPage, onPageChange }: PageThumbnailRailProps) {
+  const {
+    pdfData,
+    pdfRevision,
+    numPages,
+    pageSizes,
+    loading,
+    fileName,
+    movePages,
+    rotatePages,
+    deletePages,
+    duplicatePages,
+    exportPdf,
+  } = usePdfEditorStore(
+    useShallow((s) => ({
+      pdfData: s.pdfData,
+      pdfRevision: s.pdfRevision,
+      numPages: s.numPages,
+      pageSizes: s.pageSizes,
+      loading: s.loading,
+      fileName: s.fileName,
+      movePages: s.movePages,
+      rotatePages: s.rotatePages,
+      deletePages: s.deletePages,
+      duplicatePages: s.duplicatePages,
+      exportPdf: s.exportPdf,
+    }))
+  )
+  const { undo, lastEdit, historyLocked } = useHistoryStore(
+    useShallow((s) => ({ undo: s.undo, lastEdit: s.entries[s.entries.length - 1], historyLocked: s.locked }))
+  )
+  const showError = useUIStore((s) => s.error)
+
+  const listRef = useRef<HTMLUListElement | null>(null)
+  const [pdf, setPdf] = useState<any | null>(null)
+  // Zero-based, sorted
+  const [selected, setSelected] = useState<number[]>([])
+  const selectionAnchorRef = useRef<number | null>(null)
+  const draggingRef = useRef<number[] | null>(null)
+  const [dropSlot, setDropSlot] = useState<number | null>(null)
+
+  invalidateThumbnails(pdfRevision)
+
+  useEffect(() => {
+    if (!pdfData) return
+    let cancelled = false
+    let doc: any = null
+      ; (async () => {
+        try {
+          doc = await (pdfjsLib as any).getDocument({
+            data: pdfData.slice(),
+            disableWorker: import.meta.env?.VITE_PDFJS_DISABLE_WORKER === '1',
+          }).promise
+          if (cancelled) {
+            doc.destroy?.()
+            return
+          }
+          hideFileAnnotations(doc, nativeAnnotationRefs(usePdfEditorStore.getState().nativeAnnotations))
+          setPdf(doc)
+        } catch (err) {
+          console.warn('Unable to load thumbnails', err)
+        }
+      })()
+    return () => {
+      cancelled = true
+      setPdf(null)
+      doc?.destroy?.()
+    }
+  }, [pdfData, pdfRevision])
+
+  // Drop selections that no longer exist after pages were removed
+  useEffect(() => {
+    setSelected((prev) => (prev.some((i) => i >= numPages) ? prev.filter((i) => i < numPages) : prev))
+  }, [numPages])
+
+  const selectRange = (from: number, to: number) =>
+    Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => Math.min(from, to) + i)
+
+  const handleThumbnailClick = (index: number, event: React.MouseEvent) => {
+    const anchor = selectionAnchorRef.current
+    if (event.shiftKey && anchor != null) {
+      const range = selectRange(anchor, index)
+      setSelected((prev) => (event.ctrlKey || event.metaKey ? Array.from(new Set([...prev, ...range])) : range).sort((a, b) => a - b))
+      return
+    }
+    selectionAnchorRef.current = index
+    if (event.ctrlKey || event.metaKey) {
+      setSelected((prev) => (prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index].sort((a, b) => a - b)))
+      return
+    }
+    setSelected([index])
+    onPageChange(index + 1)
+  }
+
+  const runBulk = useCallback(async (label: string, task: () => Promise<void>) => {
+    try {
+      await task()
+    } catch (err: any) {
+      console.error(label, err)
+      showError(`${label} failed`, err?.message)
+    }
+  }, [showError])
+
+  const selectBlock = (start: number, length: number) => {
+    const block = Array.from({ length }, (_, i) => start + i)
+    setSelected(block)
+    selectionAnchorRef.current = start
+    onPageChange(start + 1)
+  }
+
+  const handleRotate = (direction: 'left' | 'right') =>
+    runBulk('Rotate pages', () => rotatePages({ pageIndices: selected, direction }))
+
+  const handleDuplicate = () =>
+    runBulk('Duplicate pages', async () => {
+      const count = selected.length
+      await duplicatePages(selected)
+      selectBlock(selected[selected.length - 1] + 1, count)
+    })
+
+  const handleDelete = () => {
+    if (selected.length >= numPages) {
+      window.alert('A document needs at least one page.')
+      return
+    }
+    const label = selected.length === 1 ? `page ${selected[0] + 1}` : `${selected.length} pages`
+    if (!window.confirm(`Delete ${label}?`)) return
+    return runBulk('Delete pages', async () => {
+      const first = selected[0]
+      await deletePages(selected)
+      setSelected([])
+      selectionAnchorRef.current = null
+      onPageChange(Math.min(first + 1, usePdfEditorStore.getState().numPages))
+    })
+  }
+
+  const handleExtract = () =>
+    runBulk('Extract pages', async () => {
+      const includeAnnotations = (() => {
+        try {
+          return window.localStorage.getItem('pdfoid.exportAnnotations') !== '0'
+        } catch {
+          return true
+        }
+      })()
+      const blob = await exportPdf({
+        pageIndices: selected,
+        annotations: includeAnnotations ? useAnnotationStore.getState().annotations : undefined,
+      })
+      const baseName = (fileName || 'document').replace(/\.pdf$/i, '')
+      downloadFile(blob, 'application/pdf', `${baseName}-pages-${formatPageRanges(selected)}.pdf`)
+    })
+
+  const handleDragStart = (index: number, event: React.DragEvent) => {
+    draggingRef.current = selected.includes(index) ? selected : [index]
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', String(index + 1))
+  }
+
+  const handleDragOver = (index: number, event: React.DragEvent<HTMLElement>) => {
+    if (!draggingRef.current) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    const rect = event.currentTarget.getBoundingClientRect()
+    setDropSlot(event.clientY > rect.top + rect.height / 2 ? index + 1 : index)
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    const moving = draggingRef.current
+    const slot = dropSlot
+    draggingRef.current = null
+    setDropSlot(null)
+    if (!moving || slot == null) return
+    runBulk('Move pages', async () => {
+      await movePages({ pageIndices: moving, toIndex: slot })
+      selectBlock(slot - moving.filter((i) => i < slot).length, moving.length)
+    })
+  }
+
+  const handleDragEnd = () => {
+    draggingRef.current = null
+    setDropSlot(null)
+  }
+
+  const hasSelection = selected.length > 0
+  const disabled = loading || !hasSelection
+  const buttonClass = 'px-1.5 py-1 text-[10px] bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50'
+
+  return (
+    <nav
+      className="w-36 shrink-0 bg-[var(--pdfoid-surface)] border-r border-[var(--pdfoid-border)] flex flex-col"
+      aria-label="Page thumbnails"
+    >
+      <div className="p-2 border-b border-[var(--pdfoid-border)] space-y-1.5">
+        <p className="text-[10px] text-[var(--pdfoid-muted)]" aria-live="polite">
+          {hasSelection ? `${selected.length} selected` : 'Shift/Ctrl+click to select'}
+        </p>
+        <div className="grid grid-cols-2 gap-1">
+          <button type="button" onClick={() => handleRotate('left')} disabled={disabled} className={buttonClass} aria-label="Rotate selected pages left">⟲ Left</button>
+          <button type="button" onClick={() => handleRotate('right')} disabled={disabled} className={buttonClass} aria-label="Rotate selected pages right">⟳ Right</button>
+          <button type="button" onClick={handleDuplicate} disabled={disabled} className={buttonClass} aria-label="Duplicate selected pages">Duplicate</button>
+          <button type="button" onClick={handleExtract} disabled={disabled} className={buttonClass} aria-label="Extract selected pages">Extract</button>
+          <button type="button" onClick={handleDelete} disabled={disabled} className="px-1.5 py-1 text-[10px] bg-red-100 text-red-600 rounded hover:bg-red-200 disabled:opacity-50" aria-label="Delete selected pages">Delete</button>
+          <button
+            type="button"
+            onClick={() => undo()}
+            disabled={loading || historyLocked || !lastEdit}
+            className={buttonClass}
+            aria-label="Undo last edit"
+            title={lastEdit ? `Undo: ${lastEdit.label}` : undefined}
+          >
+            Undo
+          </button>
+        </div>
+      </div>
+      <ul ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-2" onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropSlot(null)
+      }}>
+        {Array.from({ length: numPages }, (_, index) => {
+          const size = pageSizes?.[index] ?? pageSizes?.[0] ?? { width: 612, height: 792 }
+          const isSelected = selected.includes(index)
+          const isCurrent = currentPage === index + 1
+          return (
+            <li
+              key={index}
+              draggable={!loading}
+              onDragStart={(e) => handleDragStart(index, e)}
+              onDragOver={(e) => handleDragOver(index, e)}
+              onDrop={handleDrop}
+              onDragEnd={handleDragEnd}
+              className={`relative ${dropSlot === index ? 'before:absolute before:-top-1.5 before:inset-x-0 before:h-0.5 before:bg-[var(--pdfoid-accent)]' : ''} ${dropSlot === index + 1 ? 'after:absolute after:-bottom-1.5 after:inset-x-0 after:h-0.5 after:bg-[var(--pdfoid-accent)]' : ''}`}
+            >
+              <button
+                type="button"
+                onClick={(e) => handleThumbnailClick(index, e)}
+                aria-pressed={isSelected}
+                aria-current={isCurrent ? 'page' : undefined}
+                aria-label={`Page ${index + 1}`}
+                className={`w-full flex flex-col items-center gap-1 rounded-md p-1 ${isSelected ? 'bg-[var(--pdfoid-accent-soft)] ring-2 ring-[var(--pdfoid-accent)]' : isCurrent ? 'ring-1 ring-[var(--pdfoid-border)]' : 'hover:bg-[var(--pdfoid-surface-2)]'}`}
+              >
+                <Thumbnail
+                  pdf={pdf}
+                  revision={pdfRevision}
+                  pageNumber={index + 1}
+                  aspectRatio={size.height / Math.max(1, size.width)}
+                  rootRef={listRef}
+                />
+                <span className="text-[10px] text-[var(--pdfoid-muted)]">{index + 1}</span>
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </nav>
+  )
+}
@@ -0,0 +1,68 @@
+/**
+ * RecentDocuments - documents with saved markup in this browser
+ * Entries are keyed by content hash; reopening the same file restores its annotations.
+ */
+
+import React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useAnnotationStore } from '../store/annotationStore';
+
+const formatOpenedAt = (iso: string) => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const RecentDocuments: React.FC = () => {
+  const { recentDocuments, pdfId, forgetDocument } = useAnnotationStore(
+    useShallow((s) => ({
+      recentDocuments: s.recentDocuments,
+      pdfId: s.pdfId,
+      forgetDocument: s.forgetDocument,
+    }))
+  );
+
+  if (recentDocuments.length === 0) return null;
+
+  return (
+    <div className="border border-[var(--pdfoid-border)] rounded-lg p-4 bg-[var(--pdfoid-surface)]">
+      <h2 className="text-sm font-bold text-[var(--pdfoid-text)] mb-1">Recent Documents</h2>
+      <p className="text-[11px] text-[var(--pdfoid-muted)] mb-2">Open the same file again to restore its annotations.</p>
+      <ul className="space-y-1" aria-label="Recent documents">
+        {recentDocuments.map((doc) => {
+          const isCurrent = doc.pdfId === pdfId;
+          return (
+            <li
+              key={doc.pdfId}
+              className={`flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-xs ${isCurrent ? 'bg-[var(--pdfoid-surface-2)]' : ''}`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-[var(--pdfoid-text)] truncate" title={doc.fileName}>
+                  {doc.fileName}
+                  {isCurrent && <span className="ml-1 text-[10px] text-[var(--pdfoid-accent2)]">(open)</span>}
+                </p>
+                <p className="text-[10px] text-[var(--pdfoid-muted)]">
+                  {doc.numPages} page{doc.numPages === 1 ? '' : 's'} · {doc.annotationCount} annotation{doc.annotationCount === 1 ? '' : 's'} · {formatOpenedAt(doc.lastOpenedAt)}
+                </p>
+              </div>
+              {!isCurrent && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Forget saved annotations for "${doc.fileName}"?`)) {
+                      forgetDocument(doc.pdfId);
+                    }
+                  }}
+                  className="shrink-0 text-[10px] text-gray-400 hover:text-red-500"
+                  aria-label={`Forget ${doc.fileName}`}
+                >
+                  Forget
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * RedactionPanel - review pending redaction marks and apply them
+ * Applying rewrites page content, so it asks for confirmation first and
+ * reports what pdf.js can still read inside the redacted areas.
+ */
+
+import React, { useState } from 'react'
+import { usePdfEditorStore, type RedactionResult } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+
+interface RedactionPanelProps {
+  disabled: boolean
+}
+
+const plural = (count: number, word: string, words = `${word}s`) => `${count} ${count === 1 ? word : words}`
+
+const describeResult = (result: RedactionResult) => {
+  const removed = [
+    result.glyphs && plural(result.glyphs, 'character'),
+    result.images && plural(result.images, 'image'),
+    result.paths && plural(result.paths, 'shape'),
+    result.annotations && plural(result.annotations, 'annotation'),
+    result.metadata && plural(result.metadata, 'metadata entry', 'metadata entries'),
+  ].filter(Boolean)
+  const summary = `Applied ${plural(result.applied, 'redaction')}${removed.length ? `, removed ${removed.join(', ')}` : ''}.`
+  if (!result.leaks.length) return `${summary} Verified: no text left under the redacted areas.`
+  const pages = [...new Set(result.leaks.map((leak) => leak.page))].join(', ')
+  return `${summary} Warning: text is still readable under ${plural(result.leaks.length, 'area')} (page ${pages}).`
+}
+
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({ disabled }) => {
+  const annotations = useAnnotationStore((s) => s.annotations)
+  const applyRedactions = usePdfEditorStore((s) => s.applyRedactions)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const pending = annotations.filter((a) => a.type === 'redact' && !a.isDeleted)
+  const pageCount = new Set(pending.map((mark) => mark.page)).size
+
+  const handleApply = async () => {
+    if (!pending.length) return
+    if (!window.confirm(`Apply ${plural(pending.length, 'redaction')} on ${plural(pageCount, 'page')}? The content under them is removed from the document.`)) return
+    setBusy(true)
+    setStatus('Applying redactions…')
+    try {
+      setStatus(describeResult(await applyRedactions()))
+    } catch (err: any) {
+      console.error('Redaction failed', err)
+      setStatus(err?.message || 'Redaction failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-gray-500">
+        {pending.length
+          ? `${plural(pending.length, 'area')} marked on ${plural(pageCount, 'page')}. Review them in the annotation list before applying.`
+          : 'Mark text or areas with the Redact tool, or mark find results below.'}
+      </p>
+      <button
+        type="button"
+        onClick={handleApply}
+        disabled={disabled || busy || !pending.length}
+        className="w-full px-2 py-1.5 text-xs bg-gray-900 text-white rounded-md hover:bg-black disabled:opacity-50"
+      >
+        Apply Redactions
+      </button>
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+/**
+ * ReportPanel - download a comments summary of every annotation
+ * Text near each annotation is read from the current PDF with pdf.js.
+ */
+
+import React, { useState } from 'react'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import {
+  buildReportEntries,
+  reportToCsv,
+  reportToHtml,
+  reportToMarkdown,
+  type ReportFormat,
+} from '../utils/annotationReport'
+import { generateReportPDF } from '../utils/reportPdfGenerator'
+import { downloadFile } from '../utils/download'
+
+interface ReportPanelProps {
+  disabled: boolean
+}
+
+const FORMATS: Record<ReportFormat, { label: string; mime: string; extension: string }> = {
+  markdown: { label: 'Markdown', mime: 'text/markdown', extension: 'md' },
+  html: { label: 'HTML', mime: 'text/html', extension: 'html' },
+  csv: { label: 'CSV', mime: 'text/csv', extension: 'csv' },
+  pdf: { label: 'PDF', mime: 'application/pdf', extension: 'pdf' },
+}
+
+const selectClass = 'w-full mt-1 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100'
+
+export const ReportPanel: React.FC<ReportPanelProps> = ({ disabled }) => {
+  const annotationCount = useAnnotationStore((s) => s.annotations.length)
+  const readPageText = usePdfEditorStore((s) => s.readPageText)
+  const [format, setFormat] = useState<ReportFormat>('markdown')
+  const [commentsOnly, setCommentsOnly] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const handleGenerate = async () => {
+    setBusy(true)
+    setStatus('Building summary…')
+    try {
+      const annotations = useAnnotationStore.getState().annotations
+      const textByPage = await readPageText(annotations.map((a) => a.page))
+      const entries = buildReportEntries(annotations, textByPage, { commentsOnly })
+      const fileName = usePdfEditorStore.getState().fileName || 'document.pdf'
+      const meta = { fileName, generatedAt: new Date() }
+      const content = format === 'markdown'
+        ? reportToMarkdown(entries, meta)
+        : format === 'html'
+          ? reportToHtml(entries, meta)
+          : format === 'csv'
+            ? reportToCsv(entries)
+            : await generateReportPDF(entries, meta)
+      const { mime, extension } = FORMATS[format]
+      downloadFile(content as BlobPart, mime, `${fileName.replace(/\.pdf$/i, '')}-comments.${extension}`)
+      setStatus(`Summarized ${entries.length} annotation${entries.length === 1 ? '' : 's'}.`)
+    } catch (err: any) {
+      console.error('Comments summary failed', err)
+      setStatus(err?.message || 'Summary failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label htmlFor="report-format-select" className="text-[11px] font-semibold text-gray-600">Format</label>
+        <select
+          id="report-format-select"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ReportFormat)}
+          disabled={disabled || busy}
+          className={selectClass}
+        >
+          {(Object.keys(FORMATS) as ReportFormat[]).map((value) => (
+            <option key={value} value={value}>{FORMATS[value].label}</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={commentsOnly}
+          onChange={(e) => setCommentsOnly(e.target.checked)}
+          disabled={disabled || busy}
+        />
+        Only annotations with text or replies
+      </label>
+      <button
+        type="button"
+        onClick={handleGenerate}
+        disabled={disabled || busy || annotationCount === 0}
+        className="w-full px-2 py-1.5 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+      >
+        Download Summary
+      </button>
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+/**
+ * SearchResultsPanel - find results grouped by page with surrounding text
+ * Clicking a result selects it as the active match.
+ */
+
+import React from 'react'
+import type { TextMatch } from '../store/pdfEditorStore'
+
+interface SearchResultsPanelProps {
+  matches: TextMatch[]
+  activeIndex: number
+  // Swatch for matches of the main search term, which carry no color of their own
+  defaultColor: string
+  onSelect: (index: number) => void
+}
+
+const pageGroups = (matches: TextMatch[]) => {
+  const groups = new Map<number, Array<{ match: TextMatch; index: number }>>()
+  matches.forEach((match, index) => {
+    groups.set(match.pageIndex, [...(groups.get(match.pageIndex) ?? []), { match, index }])
+  })
+  return [...groups.entries()]
+}
+
+export const SearchResultsPanel: React.FC<SearchResultsPanelProps> = ({ matches, activeIndex, defaultColor, onSelect }) => {
+  if (!matches.length) return null
+
+  return (
+    <div className="max-h-64 overflow-y-auto rounded-md border border-gray-200 bg-white" aria-label="Search results">
+      {pageGroups(matches).map(([pageIndex, group]) => (
+        <div key={pageIndex}>
+          <div className="sticky top-0 bg-gray-50 px-2 py-1 text-[11px] font-semibold text-gray-600 border-b border-gray-100">
+            Page {pageIndex + 1} <span className="font-normal text-gray-400">({group.length})</span>
+          </div>
+          <ul>
+            {group.map(({ match, index }) => (
+              <li key={match.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(index)}
+                  aria-current={index === activeIndex ? 'true' : undefined}
+                  className={`flex w-full items-start gap-1.5 px-2 py-1 text-left text-[11px] text-gray-600 hover:bg-indigo-50 ${index === activeIndex ? 'bg-indigo-50' : ''}`}
+                >
+                  <span
+                    className="mt-0.5 h-2.5 w-2.5 shrink-0 rounded-sm border border-black/10"
+                    style={{ backgroundColor: match.color ?? defaultColor }}
+                    title={match.term}
+                  />
+                  <span className="min-w-0 break-words">
+                    {match.context ? (
+                      <>
+                        {match.context.before && <>…{match.context.before}</>}
+                        <mark className="bg-amber-200 text-gray-900 rounded-sm">{match.text ?? match.term}</mark>
+                        {match.context.after && <>{match.context.after}…</>}
+                      </>
+                    ) : match.snippet}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+/**
+ * SensitiveDataPanel - scan the document for personal data and review the hits
+ * Accepted hits become redaction marks; rejected ones are left alone.
+ */
+
+import React, { useState } from 'react'
+import { usePdfEditorStore, type SensitiveMatch } from '../store/pdfEditorStore'
+import { PII_DETECTORS, type CustomPattern, type PiiDetectorId } from '../utils/piiDetectors'
+
+interface SensitiveDataPanelProps {
+  disabled: boolean
+  onForcePageChange: (page: number) => void
+}
+
+type Decision = 'accepted' | 'rejected'
+
+const CUSTOM_PATTERNS_KEY = 'pdfoid.customPiiPatterns'
+
+const loadCustomPatterns = (): CustomPattern[] => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(CUSTOM_PATTERNS_KEY) ?? '[]')
+    return Array.isArray(parsed)
+      ? parsed.filter((p) => typeof p?.label === 'string' && typeof p?.pattern === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+const inputClass = 'min-w-0 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100'
+
+export const SensitiveDataPanel: React.FC<SensitiveDataPanelProps> = ({ disabled, onForcePageChange }) => {
+  const findSensitiveData = usePdfEditorStore((s) => s.findSensitiveData)
+  const markRedactions = usePdfEditorStore((s) => s.markRedactions)
+  const setCurrentMatchHighlight = usePdfEditorStore((s) => s.setCurrentMatchHighlight)
+  const [detectors, setDetectors] = useState<PiiDetectorId[]>(() => PII_DETECTORS.map((d) => d.id))
+  const [customPatterns, setCustomPatterns] = useState<CustomPattern[]>(loadCustomPatterns)
+  const [hits, setHits] = useState<SensitiveMatch[]>([])
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({})
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const saveCustomPatterns = (next: CustomPattern[]) => {
+    setCustomPatterns(next)
+    try { window.localStorage.setItem(CUSTOM_PATTERNS_KEY, JSON.stringify(next)) } catch { }
+  }
+
+  const updateCustomPattern = (index: number, patch: Partial<CustomPattern>) => {
+    saveCustomPatterns(customPatterns.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+  }
+
+  const toggleDetector = (id: PiiDetectorId) => {
+    setDetectors((current) => (current.includes(id) ? current.filter((d) => d !== id) : [...current, id]))
+  }
+
+  const handleScan = async () => {
+    setBusy(true)
+    setStatus('Scanning…')
+    try {
+      const found = await findSensitiveData({ detectors, custom: customPatterns })
+      setHits(found)
+      setDecisions({})
+      setStatus(found.length ? `Found ${found.length} item${found.length === 1 ? '' : 's'} to review.` : 'No sensitive data found.')
+    } catch (err: any) {
+      console.error('Sensitive data scan failed', err)
+      setStatus(err?.message || 'Scan failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const decide = (id: string, decision: Decision) => {
+    // Choosing the same decision again puts the hit back up for review
+    setDecisions((current) => {
+      const { [id]: previous, ...rest } = current
+      return previous === decision ? rest : { ...rest, [id]: decision }
+    })
+  }
+
+  const decideAll = (decision: Decision) => {
+    setDecisions(Object.fromEntries(hits.map((hit) => [hit.id, decision])))
+  }
+
+  const showHit = (hit: SensitiveMatch) => {
+    onForcePageChange(hit.pageIndex + 1)
+    setCurrentMatchHighlight(hit)
+  }
+
+  const accepted = hits.filter((hit) => decisions[hit.id] === 'accepted')
+  const pendingCount = hits.filter((hit) => !decisions[hit.id]).length
+
+  const handleMark = () => {
+    const added = markRedactions(accepted)
+    const marked = new Set(accepted.map((hit) => hit.id))
+    setHits((current) => current.filter((hit) => !marked.has(hit.id)))
+    const skipped = accepted.length - added
+    setStatus(`Marked ${added} item${added === 1 ? '' : 's'} for redaction${skipped > 0 ? ` (${skipped} already marked)` : ''}.`)
+  }
+
+  return (
+    <div className="space-y-2">
+      <fieldset className="grid grid-cols-2 gap-1 text-[11px] text-gray-600" disabled={disabled || busy}>
+        <legend className="sr-only">Detectors</legend>
+        {PII_DETECTORS.map((detector) => (
+          <label key={detector.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={detectors.includes(detector.id)}
+              onChange={() => toggleDetector(detector.id)}
+              className="h-3 w-3"
+            />
+            <span>{detector.label}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="space-y-1">
+        {customPatterns.map((custom, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={custom.label}
+              onChange={(e) => updateCustomPattern(index, { label: e.target.value })}
+              placeholder="Name"
+              aria-label={`Custom pattern name ${index + 1}`}
+              disabled={disabled || busy}
+              className={`${inputClass} w-20`}
+            />
+            <input
+              type="text"
+              value={custom.pattern}
+              onChange={(e) => updateCustomPattern(index, { pattern: e.target.value })}
+              placeholder="Regular expression"
+              aria-label={`Custom pattern ${index + 1}`}
+              disabled={disabled || busy}
+              className={`${inputClass} flex-1 font-mono`}
+            />
+            <button
+              type="button"
+              onClick={() => saveCustomPatterns(customPatterns.filter((_, i) => i !== index))}
+              aria-label={`Remove custom pattern ${index + 1}`}
+              disabled={disabled || busy}
+              className="shrink-0 px-1.5 text-xs text-gray-400 hover:text-red-500 disabled:opacity-50"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => saveCustomPatterns([...customPatterns, { label: '', pattern: '' }])}
+          disabled={disabled || busy}
+          className="text-[11px] text-indigo-600 hover:underline disabled:opacity-50"
+        >
+          + Add pattern
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleScan}
+        disabled={disabled || busy || (!detectors.length && !customPatterns.some((p) => p.pattern.trim()))}
+        className="w-full px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+      >
+        Scan for Sensitive Data
+      </button>
+
+      {hits.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 text-[11px]">
+            <span className="flex-1 text-gray-500">{pendingCount} to review</span>
+            <button type="button" onClick={() => decideAll('accepted')} className="text-indigo-600 hover:underline">Accept all</button>
+            <button type="button" onClick={() => decideAll('rejected')} className="text-indigo-600 hover:underline">Reject all</button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto rounded-md border border-gray-200 bg-white divide-y divide-gray-100" aria-label="Sensitive data review">
+            {hits.map((hit) => {
+              const decision = decisions[hit.id]
+              return (
+                <li key={hit.id} className={`flex items-start gap-1.5 px-2 py-1 text-[11px] ${decision === 'rejected' ? 'opacity-50' : ''}`}>
+                  <button type="button" onClick={() => showHit(hit)} className="min-w-0 flex-1 text-left text-gray-600 hover:text-gray-900">
+                    <span className="block text-[10px] font-semibold text-gray-400">
+                      {hit.label} · page {hit.pageIndex + 1}
+                    </span>
+                    <span className="break-words">
+                      {hit.context?.before && <>…{hit.context.before}</>}
+                      <mark className="bg-gray-800 text-white rounded-sm px-0.5">{hit.text}</mark>
+                      {hit.context?.after && <>{hit.context.after}…</>}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => decide(hit.id, 'accepted')}
+                    aria-pressed={decision === 'accepted'}
+                    aria-label={`Accept ${hit.text}`}
+                    className={`shrink-0 px-1.5 py-0.5 rounded ${decision === 'accepted' ? 'bg-emerald-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => decide(hit.id, 'rejected')}
+                    aria-pressed={decision === 'rejected'}
+                    aria-label={`Reject ${hit.text}`}
+                    className={`shrink-0 px-1.5 py-0.5 rounded ${decision === 'rejected' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+          <button
+            type="button"
+            onClick={handleMark}
+            disabled={disabled || !accepted.length}
+            className="w-full px-2 py-1.5 text-xs bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50"
+          >
+            Mark {accepted.length} Accepted for Redaction
+          </button>
+        </>
+      )}
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * SignaturesPanel - digital signatures of the opened PDF
+ * Each signature is checked against the bytes it covers and its signer's
+ * chain against trust anchors imported here (there is no online lookup).
+ */
+
+import React, { useMemo, useRef, useState } from 'react'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import type { PdfSignature } from '../utils/pdfSign'
+import { sameBytes } from '../utils/x509'
+import { Badge } from './ui'
+
+interface SignaturesPanelProps {
+  onJumpToPage: (page: number) => void
+}
+
+const buttonClass = 'px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50'
+
+const needsAttention = (signature: PdfSignature) => !signature.valid || !signature.trusted || signature.modifiedAfterSigning
+
+// The signatures still describe the current bytes: nothing has rewritten the file since it was opened
+const useSignedBytesIntact = () => {
+  const pdfData = usePdfEditorStore((s) => s.pdfData)
+  const signedPdfData = usePdfEditorStore((s) => s.signedPdfData)
+  return useMemo(
+    () => !signedPdfData || (!!pdfData && (pdfData === signedPdfData || sameBytes(pdfData, signedPdfData))),
+    [pdfData, signedPdfData],
+  )
+}
+
+/** Overall signature status for the panel heading; nothing when the document is unsigned */
+export const SignatureBadge: React.FC = () => {
+  const signatures = usePdfEditorStore((s) => s.signatures)
+  const intact = useSignedBytesIntact()
+  if (!signatures.length) return null
+  if (signatures.some((signature) => !signature.valid)) return <Badge variant="error">Invalid</Badge>
+  if (!intact || signatures.some((signature) => signature.modifiedAfterSigning)) return <Badge variant="warning">Modified</Badge>
+  if (signatures.some((signature) => !signature.trusted)) return <Badge variant="warning">Untrusted</Badge>
+  return <Badge variant="success">Valid</Badge>
+}
+
+export const SignaturesPanel: React.FC<SignaturesPanelProps> = ({ onJumpToPage }) => {
+  const signatures = usePdfEditorStore((s) => s.signatures)
+  const trustAnchors = usePdfEditorStore((s) => s.trustAnchors)
+  const importTrustAnchors = usePdfEditorStore((s) => s.importTrustAnchors)
+  const removeTrustAnchor = usePdfEditorStore((s) => s.removeTrustAnchor)
+  const intact = useSignedBytesIntact()
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const handleImport = async (files: File[]) => {
+    let added = 0
+    try {
+      for (const file of files) added += await importTrustAnchors(new Uint8Array(await file.arrayBuffer()))
+      setStatus(added ? `Added ${added} trust anchor${added === 1 ? '' : 's'}.` : 'Those certificates are already trusted.')
+    } catch (err: any) {
+      console.error('Trust anchor import failed', err)
+      setStatus(err?.message || 'Trust anchor import failed.')
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      {!signatures.length && <p className="text-gray-500">This document has no digital signatures.</p>}
+      {signatures.length > 0 && !intact && (
+        <p className="text-[11px] text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md px-2 py-1" role="alert">
+          This copy has changed since it was opened, so exported PDFs will no longer match these signatures.
+        </p>
+      )}
+      {signatures.length > 0 && (
+        <ul className="space-y-2" aria-label="Digital signatures">
+          {signatures.map((signature) => (
+            <li
+              key={signature.fieldName}
+              className={`border rounded-md p-2 space-y-1 ${needsAttention(signature) ? 'border-yellow-300' : 'border-gray-200'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-gray-700 truncate" title={signature.chain[0]?.subjectName}>{signature.signerName}</span>
+                {signature.page && (
+                  <button type="button" onClick={() => onJumpToPage(signature.page!)} className="shrink-0 text-[11px] text-indigo-600 hover:underline">
+                    Page {signature.page}
+                  </button>
+                )}
+              </div>
+              <div className="text-[11px] text-gray-500">
+                {signature.fieldName}
+                {signature.signingTime && ` · signed ${signature.signingTime.toLocaleString()}`}
+              </div>
+              {(signature.reason || signature.location) && (
+                <div className="text-[11px] text-gray-600">{[signature.reason, signature.location].filter(Boolean).join(' · ')}</div>
+              )}
+              <div className="flex flex-wrap gap-1">
+                <Badge variant={signature.valid ? 'success' : 'error'}>{signature.valid ? 'Intact' : 'Invalid'}</Badge>
+                {signature.valid && <Badge variant={signature.trusted ? 'success' : 'warning'}>{signature.trusted ? 'Trusted' : 'Untrusted'}</Badge>}
+                {signature.modifiedAfterSigning && <Badge variant="warning">Changed after signing</Badge>}
+              </div>
+              {signature.problem && <p className="text-[11px] text-gray-600">{signature.problem}</p>}
+              {signature.modifiedAfterSigning && (
+                <p className="text-[11px] text-gray-600">Later revisions add to or change the document after this signature.</p>
+              )}
+              {signature.chain.length > 0 && (
+                <details className="text-[11px] text-gray-600">
+                  <summary className="cursor-pointer">Certificate chain ({signature.chain.length})</summary>
+                  <ol className="mt-1 space-y-1 pl-3 list-decimal">
+                    {signature.chain.map((certificate, index) => (
+                      <li key={index}>
+                        <div className="text-gray-700 break-words">{certificate.subjectName}</div>
+                        <div>
+                          Valid {certificate.notBefore.toLocaleDateString()} – {certificate.notAfter.toLocaleDateString()}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-[11px] font-semibold text-gray-600">Trust anchors</div>
+        {!trustAnchors.length && <p className="text-[11px] text-gray-500">No certificates are trusted yet. Import your organisation's root certificates.</p>}
+        {trustAnchors.map((anchor, index) => (
+          <div key={index} className="flex items-center justify-between gap-2 text-[11px] text-gray-600">
+            <span className="truncate" title={anchor.subjectName}>{anchor.commonName}</span>
+            <button
+              type="button"
+              onClick={() => removeTrustAnchor(index)}
+              className="shrink-0 text-gray-500 rounded hover:bg-gray-100 px-1"
+              aria-label={`Stop trusting ${anchor.commonName}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={() => inputRef.current?.click()} className={`${buttonClass} w-full`}>
+          Import Trust Anchors (.pem / .cer)…
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".pem,.cer,.crt,.der,application/x-x509-ca-cert,application/pkix-cert"
+          className="hidden"
+          aria-label="Import trust anchor certificates"
+          onChange={async (e) => {
+            const files = Array.from(e.target.files ?? [])
+            e.target.value = ''
+            if (files.length) await handleImport(files)
+          }}
+        />
+        {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+/**
+ * SigningPanel - sign the exported PDF with a local certificate
+ * The .p12 / .pfx file is opened in the browser and its key never leaves it.
+ * The signature goes into a designed or existing signature field (or a new
+ * one), shown as a drawn signature or left invisible.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { PDFDocument } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { isFormFieldDesign } from '../utils/formDesign'
+import { readSignatureFields, type SignPdfOptions } from '../utils/pdfSign'
+import { loadSigningIdentity, type SigningIdentity } from '../utils/pkcs12'
+
+export type SignRequest = SignPdfOptions & { identity: SigningIdentity }
+
+interface SigningPanelProps {
+  disabled: boolean
+  onSign: (request: SignRequest) => Promise<void>
+}
+
+const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100'
+const buttonClass = 'px-2 py-1.5 text-xs bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50'
+
+export const SigningPanel: React.FC<SigningPanelProps> = ({ disabled, onSign }) => {
+  const pdfData = usePdfEditorStore((s) => s.pdfData)
+  const annotations = useAnnotationStore((s) => s.annotations)
+  const designedFields = useMemo(
+    () => [...new Set(annotations.filter((ann) => isFormFieldDesign(ann) && ann.fieldType === 'signature').map((ann) => ann.fieldName ?? ''))].filter(Boolean),
+    [annotations],
+  )
+  const drawnSignatures = useMemo(
+    () => annotations.filter((ann) => ann.type === 'signature' && !ann.isDeleted && ann.imageDataUrl),
+    [annotations],
+  )
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [certificateFile, setCertificateFile] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [identity, setIdentity] = useState<SigningIdentity | null>(null)
+  const [documentFields, setDocumentFields] = useState<string[]>([])
+  const [fieldName, setFieldName] = useState('')
+  const [appearanceId, setAppearanceId] = useState('')
+  const [reason, setReason] = useState('')
+  const [location, setLocation] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  // Unsigned signature fields already in the document
+  useEffect(() => {
+    if (!identity || !pdfData) return
+    let cancelled = false
+    PDFDocument.load(pdfData, { updateMetadata: false, ignoreEncryption: true })
+      .then((doc) => {
+        if (!cancelled) setDocumentFields(readSignatureFields(doc).filter((field) => !field.signed).map((field) => field.name))
+      })
+      .catch(() => {
+        if (!cancelled) setDocumentFields([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [identity, pdfData])
+
+  const fieldChoices = [...new Set([...documentFields, ...designedFields])]
+  const chosenField = fieldChoices.includes(fieldName) ? fieldName : ''
+  const appearance = drawnSignatures.find((ann) => ann.id === appearanceId)
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!certificateFile) return
+    setBusy(true)
+    try {
+      const loaded = await loadSigningIdentity(new Uint8Array(await certificateFile.arrayBuffer()), password)
+      setIdentity(loaded)
+      setPassword('')
+      setStatus(null)
+    } catch (err: any) {
+      console.error('Opening the certificate failed', err)
+      setStatus(err?.message || 'Opening the certificate failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSign = async () => {
+    if (!identity) return
+    setBusy(true)
+    setStatus('Signing…')
+    try {
+      await onSign({
+        identity,
+        fieldName: chosenField || undefined,
+        appearance,
+        reason: reason.trim() || undefined,
+        location: location.trim() || undefined,
+      })
+      setStatus(`Signed as ${identity.certificate.commonName}.`)
+    } catch (err: any) {
+      console.error('Signing failed', err)
+      setStatus(err?.message || 'Signing failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const expired = identity && (identity.certificate.notAfter < new Date() || identity.certificate.notBefore > new Date())
+
+  return (
+    <div className="space-y-2">
+      {!identity ? (
+        <form onSubmit={handleUnlock} className="space-y-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} disabled={disabled || busy} className={`${buttonClass} w-full`}>
+            {certificateFile ? certificateFile.name : 'Choose Certificate (.p12 / .pfx)…'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".p12,.pfx,application/x-pkcs12"
+            className="hidden"
+            aria-label="Choose a PKCS#12 certificate"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) setCertificateFile(file)
+            }}
+          />
+          {certificateFile && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <label htmlFor="signing-password-input" className="text-[11px] font-semibold text-gray-600">Password</label>
+                <input
+                  id="signing-password-input"
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={disabled || busy}
+                  className={inputClass}
+                />
+              </div>
+              <button type="submit" disabled={disabled || busy} className={buttonClass}>Open</button>
+            </div>
+          )}
+        </form>
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-2 text-[11px] text-gray-600">
+            <div className="min-w-0">
+              <div className="font-semibold text-gray-700 truncate" title={identity.certificate.subjectName}>{identity.certificate.commonName}</div>
+              <div className="truncate" title={identity.certificate.issuerName}>Issued by {identity.chain[1]?.commonName ?? identity.certificate.issuerName}</div>
+              <div className={expired ? 'text-red-600' : undefined}>
+                Valid {identity.certificate.notBefore.toLocaleDateString()} – {identity.certificate.notAfter.toLocaleDateString()}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setIdentity(null)
+                setCertificateFile(null)
+                setStatus(null)
+              }}
+              disabled={busy}
+              className="shrink-0 text-[11px] text-indigo-600 hover:underline disabled:opacity-50"
+            >
+              Change
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="signing-field-select" className="text-[11px] font-semibold text-gray-600">Field</label>
+              <select
+                id="signing-field-select"
+                value={chosenField}
+                onChange={(e) => setFieldName(e.target.value)}
+                disabled={disabled || busy}
+                className={inputClass}
+              >
+                <option value="">New field</option>
+                {fieldChoices.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="signing-appearance-select" className="text-[11px] font-semibold text-gray-600">Appearance</label>
+              <select
+                id="signing-appearance-select"
+                value={appearance?.id ?? ''}
+                onChange={(e) => setAppearanceId(e.target.value)}
+                disabled={disabled || busy}
+                className={inputClass}
+              >
+                <option value="">Invisible</option>
+                {drawnSignatures.map((ann, index) => (
+                  <option key={ann.id} value={ann.id}>Signature {index + 1} (page {ann.page})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="signing-reason-input" className="text-[11px] font-semibold text-gray-600">Reason</label>
+              <input id="signing-reason-input" type="text" value={reason} onChange={(e) => setReason(e.target.value)} disabled={disabled || busy} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="signing-location-input" className="text-[11px] font-semibold text-gray-600">Location</label>
+              <input id="signing-location-input" type="text" value={location} onChange={(e) => setLocation(e.target.value)} disabled={disabled || busy} className={inputClass} />
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={handleSign}
+            disabled={disabled || busy}
+            className="w-full px-2 py-1.5 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+          >
+            Sign &amp; Export
+          </button>
+        </>
+      )}
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
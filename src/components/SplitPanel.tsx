@@ -0,0 +1,182 @@
+/**
+ * SplitPanel - extract a page range or split the document into several PDFs
+ * Parts come from the editor's exportPdf path and download either bundled in
+ * a single zip (the default) or one after another.
+ */
+
+import React, { useState } from 'react'
+import { usePdfEditorStore, type SplitMode } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { parsePageRanges } from '../utils/pageOrder'
+import { createZip } from '../utils/zip'
+import { downloadFile, downloadFilesInTurn } from '../utils/download'
+
+type AnnotationHandling = 'carry' | 'flatten' | 'none'
+type OutputFormat = 'zip' | 'files'
+
+interface SplitPanelProps {
+  disabled: boolean
+}
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  range: 'Extract page range',
+  every: 'Split every N pages',
+  bookmarks: 'Split at bookmarks',
+  'blank-pages': 'Split at blank pages',
+}
+
+const selectClass = 'w-full mt-1 px-2 py-1 border border-gray-200 rounded-md text-xs disabled:bg-gray-100'
+
+export const SplitPanel: React.FC<SplitPanelProps> = ({ disabled }) => {
+  const numPages = usePdfEditorStore((s) => s.numPages)
+  const splitDocument = usePdfEditorStore((s) => s.splitDocument)
+  const [mode, setMode] = useState<SplitMode>('range')
+  const [range, setRange] = useState('')
+  const [pagesPerPart, setPagesPerPart] = useState(1)
+  const [annotationHandling, setAnnotationHandling] = useState<AnnotationHandling>('carry')
+  const [output, setOutput] = useState<OutputFormat>('zip')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const handleSplit = async () => {
+    let pageIndices: number[] | undefined
+    if (mode === 'range') {
+      const parsed = parsePageRanges(range, numPages)
+      if (!parsed || !parsed.length) {
+        setStatus(`Enter pages between 1 and ${numPages}, e.g. 1-3, 5`)
+        return
+      }
+      pageIndices = parsed
+    }
+
+    setBusy(true)
+    setStatus('Splitting…')
+    try {
+      const parts = await splitDocument({
+        mode,
+        pageIndices,
+        pagesPerPart,
+        annotations: annotationHandling === 'none' ? undefined : useAnnotationStore.getState().annotations,
+        flatten: annotationHandling === 'flatten',
+      })
+
+      if (output === 'zip' && parts.length > 1) {
+        const entries = await Promise.all(
+          parts.map(async (part) => ({ name: part.fileName, data: new Uint8Array(await part.blob.arrayBuffer()) }))
+        )
+        const baseName = (usePdfEditorStore.getState().fileName || 'document').replace(/\.pdf$/i, '')
+        downloadFile(createZip(entries), 'application/zip', `${baseName}-split.zip`)
+      } else {
+        await downloadFilesInTurn(
+          parts.map((part) => ({ content: part.blob, type: 'application/pdf', fileName: part.fileName })),
+          (started) => setStatus(`Downloading ${started} of ${parts.length}…`),
+        )
+      }
+      setStatus(`Created ${parts.length} PDF${parts.length === 1 ? '' : 's'}.`)
+    } catch (err: any) {
+      console.error('Split document failed', err)
+      setStatus(err?.message || 'Split failed.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label htmlFor="split-mode-select" className="text-[11px] font-semibold text-gray-600">Mode</label>
+        <select
+          id="split-mode-select"
+          value={mode}
+          onChange={(e) => {
+            setMode(e.target.value as SplitMode)
+            setStatus(null)
+          }}
+          disabled={disabled || busy}
+          className={selectClass}
+        >
+          {(Object.keys(MODE_LABELS) as SplitMode[]).map((value) => (
+            <option key={value} value={value}>{MODE_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {mode === 'range' && (
+        <div>
+          <label htmlFor="split-range-input" className="text-[11px] font-semibold text-gray-600">Pages</label>
+          <input
+            id="split-range-input"
+            value={range}
+            onChange={(e) => {
+              setRange(e.target.value)
+              setStatus(null)
+            }}
+            disabled={disabled || busy}
+            className={selectClass}
+            placeholder={`1-${Math.max(1, numPages)}`}
+          />
+        </div>
+      )}
+
+      {mode === 'every' && (
+        <div>
+          <label htmlFor="split-every-input" className="text-[11px] font-semibold text-gray-600">Pages per file</label>
+          <input
+            id="split-every-input"
+            type="number"
+            min={1}
+            max={Math.max(1, numPages)}
+            value={pagesPerPart}
+            onChange={(e) => {
+              const n = Math.floor(Number(e.target.value))
+              setPagesPerPart(Number.isFinite(n) && n > 0 ? n : 1)
+              setStatus(null)
+            }}
+            disabled={disabled || busy}
+            className={selectClass}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="split-annotations-select" className="text-[11px] font-semibold text-gray-600">Annotations</label>
+          <select
+            id="split-annotations-select"
+            value={annotationHandling}
+            onChange={(e) => setAnnotationHandling(e.target.value as AnnotationHandling)}
+            disabled={disabled || busy}
+            className={selectClass}
+          >
+            <option value="carry">Keep as comments</option>
+            <option value="flatten">Flatten</option>
+            <option value="none">Leave out</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="split-output-select" className="text-[11px] font-semibold text-gray-600">Output</label>
+          <select
+            id="split-output-select"
+            value={output}
+            onChange={(e) => setOutput(e.target.value as OutputFormat)}
+            disabled={disabled || busy || mode === 'range'}
+            className={selectClass}
+          >
+            <option value="zip">Single zip</option>
+            <option value="files">Separate files</option>
+          </select>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSplit}
+        disabled={disabled || busy}
+        className="w-full px-2 py-1.5 text-xs bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:opacity-50"
+      >
+        {mode === 'range' ? 'Extract Pages' : 'Split Document'}
+      </button>
+      {status && <p className="text-[11px] text-gray-500" role="status">{status}</p>}
+    </div>
+  )
+}
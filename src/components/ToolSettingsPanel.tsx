@@ -5,8 +5,11 @@ import { useUIStore } from '../store/uiStore'
 import { AnnotationList } from './AnnotationList'
 import { DocumentActionsPanel } from './DocumentActionsPanel'
 import { SignaturePad } from './SignaturePad'
-import { ToolType, Annotation } from '../types/annotations'
-import { PRESET_COLORS, ANNOTATION_DEFAULTS } from '../constants'
+import { ToolType, Annotation, DashStyle, FormFieldType, LineEnding, ShapeStyle, TextAlign, TextBoxStyle } from '../types/annotations'
+import { PRESET_COLORS, ANNOTATION_DEFAULTS, TEXT_BOX } from '../constants'
+import { DEFAULT_LINE_SPACING } from '../utils/richText'
+import { DASH_STYLES, FORM_FIELD_TYPES, LINE_ENDINGS } from '../utils/annotationSchema'
+import { FILLABLE_SHAPES, isShape } from '../utils/shapes'
 import { Button, Slider } from './ui'
 
 interface ToolSettingsPanelProps {
@@ -15,6 +18,9 @@ interface ToolSettingsPanelProps {
   onUndo: () => void
   onRedo: () => void
   onExport: () => void
+  onImportJson: (file: File) => Promise<void>
+  onExportXfdf: () => void
+  onImportXfdf: (file: File) => Promise<void>
   onSave: () => Promise<void>
   currentPage: number
   onForcePageChange: (page: number) => void
@@ -23,25 +29,53 @@ interface ToolSettingsPanelProps {
 const toolLabels: Record<ToolType, string> = {
   pointer: 'Pointer',
   highlight: 'Highlight',
+  underline: 'Underline',
+  strikeout: 'Strikeout',
   pen: 'Pen',
   rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+  polyline: 'Polyline',
+  polygon: 'Polygon',
+  cloud: 'Revision Cloud',
   'text-box': 'Text Box',
   'sticky-note': 'Sticky Note',
   eraser: 'Eraser',
   stamp: 'Stamp',
   signature: 'Signature',
+  redact: 'Redact',
+  'form-field': 'Form Field',
+}
+
+const FORM_FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Text field',
+  checkbox: 'Checkbox',
+  radio: 'Radio button',
+  dropdown: 'Dropdown',
+  signature: 'Signature field',
 }
 
 const toolDescriptions: Record<ToolType, string> = {
   pointer: 'Click to select and move annotations',
-  highlight: 'Drag to highlight areas on the document',
+  highlight: 'Drag across text to highlight it, or drag over images to highlight an area',
+  underline: 'Drag across text to underline it',
+  strikeout: 'Drag across text to strike it out',
   pen: 'Draw freehand strokes with your mouse or stylus',
   rectangle: 'Click and drag to create rectangle shapes',
+  ellipse: 'Click and drag to create ellipses and circles',
+  line: 'Click and drag to draw a straight line',
+  arrow: 'Click and drag to draw an arrow; choose its heads below',
+  polyline: 'Click to add points, double-click or press Enter to finish',
+  polygon: 'Click to add corners, double-click or press Enter to close the shape',
+  cloud: 'Click and drag to draw a revision cloud around changes',
   'text-box': 'Click to place text on the document',
   'sticky-note': 'Click to add a sticky note comment',
   eraser: 'Click on annotations to remove them',
   stamp: 'Add stamp annotations',
   signature: 'Create a signature, then click-and-drag to place it on the document',
+  redact: 'Drag across text or over an area to mark it for redaction, then apply redactions in Document Actions',
+  'form-field': 'Drag or click to place a form field; new radio buttons join the selected group. Edit fields in the Form fields list',
 }
 
 export function ToolSettingsPanel({
@@ -50,6 +84,9 @@ export function ToolSettingsPanel({
   onUndo,
   onRedo,
   onExport,
+  onImportJson,
+  onExportXfdf,
+  onImportXfdf,
   onSave,
   currentPage,
   onForcePageChange,
@@ -60,6 +97,9 @@ export function ToolSettingsPanel({
     selectedThickness,
     selectedOpacity,
     selectedFontSize,
+    textBoxStyle,
+    shapeStyle,
+    formFieldType,
     signatureDataUrl,
     signatureMime,
     selectedAnnotationId,
@@ -67,6 +107,9 @@ export function ToolSettingsPanel({
     setThickness,
     setOpacity,
     setFontSize,
+    setTextBoxStyle,
+    setShapeStyle,
+    setFormFieldType,
     setSignatureTemplate,
     updateAnnotation,
     updateAnnotationLive,
@@ -79,6 +122,9 @@ export function ToolSettingsPanel({
       selectedThickness: state.selectedThickness,
       selectedOpacity: state.selectedOpacity,
       selectedFontSize: state.selectedFontSize,
+      textBoxStyle: state.textBoxStyle,
+      shapeStyle: state.shapeStyle,
+      formFieldType: state.formFieldType,
       signatureDataUrl: (state as any).signatureDataUrl,
       signatureMime: (state as any).signatureMime,
       selectedAnnotationId: state.selectedAnnotationId,
@@ -86,6 +132,9 @@ export function ToolSettingsPanel({
       setThickness: state.setThickness,
       setOpacity: state.setOpacity,
       setFontSize: state.setFontSize,
+      setTextBoxStyle: state.setTextBoxStyle,
+      setShapeStyle: state.setShapeStyle,
+      setFormFieldType: state.setFormFieldType,
       setSignatureTemplate: (state as any).setSignatureTemplate,
       updateAnnotation: state.updateAnnotation,
       updateAnnotationLive: state.updateAnnotationLive,
@@ -102,12 +151,18 @@ export function ToolSettingsPanel({
   )
 
   const fontSizeDraftRef = React.useRef<Annotation | null>(null)
+  const boxStyleDraftRef = React.useRef<Annotation | null>(null)
+  const shapeDraftRef = React.useRef<Annotation | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [saveSuccess, setSaveSuccess] = useState(false)
   const [activeColorPicker, setActiveColorPicker] = useState(false)
 
   const isSignatureTool = selectedTool === 'signature'
+  // Form fields take their look from the form, not the annotation style
+  const isFormTool = selectedTool === 'form-field'
   const [signatureModalOpen, setSignatureModalOpen] = useState(false)
+  const jsonInputRef = useRef<HTMLInputElement | null>(null)
+  const xfdfInputRef = useRef<HTMLInputElement | null>(null)
 
   const annotationCount = useAnnotationStore((state) =>
     state.annotations.filter((ann) => ann.page === currentPage).length
@@ -160,6 +215,62 @@ export function ToolSettingsPanel({
     fontSizeDraftRef.current = null
   }
 
+  // Box settings apply to the selected text box and become the default for new ones
+  const activeTextBox = activeAnnotation?.type === 'text-box' ? activeAnnotation : undefined
+  const boxStyle: TextBoxStyle = activeTextBox ?? textBoxStyle
+
+  const changeBoxStyle = (changes: TextBoxStyle) => {
+    setTextBoxStyle(changes)
+    if (activeTextBox) updateAnnotation(activeTextBox.id, changes, { previous: activeTextBox })
+  }
+
+  // Colour pickers and sliders update live and become one undo step when released
+  const previewBoxStyle = (changes: TextBoxStyle) => {
+    setTextBoxStyle(changes)
+    if (!activeTextBox) return
+    if (!boxStyleDraftRef.current) {
+      boxStyleDraftRef.current = JSON.parse(JSON.stringify(activeTextBox)) as Annotation
+    }
+    updateAnnotationLive(activeTextBox.id, changes)
+  }
+
+  const commitBoxStyle = () => {
+    if (activeTextBox && boxStyleDraftRef.current) {
+      updateAnnotation(activeTextBox.id, {}, { previous: boxStyleDraftRef.current })
+    }
+    boxStyleDraftRef.current = null
+  }
+
+  // Shape settings follow the same pattern as text boxes
+  const activeShape = activeAnnotation && isShape(activeAnnotation.type) ? activeAnnotation : undefined
+  const shapeType = activeShape?.type ?? selectedTool
+  const showShapeControls = isShape(shapeType)
+  const currentShapeStyle: ShapeStyle = activeShape
+    ? { fillColor: activeShape.fillColor, dashStyle: activeShape.dashStyle, lineEndings: activeShape.lineEndings ?? shapeStyle.lineEndings }
+    : shapeStyle
+  const lineEndings = currentShapeStyle.lineEndings ?? ['none', 'closed']
+
+  const changeShapeStyle = (changes: ShapeStyle) => {
+    setShapeStyle(changes)
+    if (activeShape) updateAnnotation(activeShape.id, changes, { previous: activeShape })
+  }
+
+  const previewShapeStyle = (changes: ShapeStyle) => {
+    setShapeStyle(changes)
+    if (!activeShape) return
+    if (!shapeDraftRef.current) {
+      shapeDraftRef.current = JSON.parse(JSON.stringify(activeShape)) as Annotation
+    }
+    updateAnnotationLive(activeShape.id, changes)
+  }
+
+  const commitShapeStyle = () => {
+    if (activeShape && shapeDraftRef.current) {
+      updateAnnotation(activeShape.id, {}, { previous: shapeDraftRef.current })
+    }
+    shapeDraftRef.current = null
+  }
+
   const handleSignatureUpload = async (file: File) => {
     const mime = file.type || 'image/png'
     const dataUrl = await new Promise<string>((resolve, reject) => {
@@ -204,7 +315,7 @@ export function ToolSettingsPanel({
         )}
       </div>
 
-      {!isSignatureTool && (
+      {!isSignatureTool && !isFormTool && (
         <div>
           <p className="text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)] mb-2 flex items-center justify-between" id="color-picker-label">
             Color
@@ -259,6 +370,21 @@ export function ToolSettingsPanel({
         </div>
       )}
 
+      {isFormTool && (
+        <label className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+          Field type
+          <select
+            value={formFieldType}
+            onChange={(e) => setFormFieldType(e.target.value as FormFieldType)}
+            className="px-1.5 py-0.5 border border-[var(--pdfoid-border)] rounded-md bg-transparent font-normal"
+          >
+            {FORM_FIELD_TYPES.map((type) => (
+              <option key={type} value={type}>{FORM_FIELD_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {isSignatureTool && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -309,7 +435,7 @@ export function ToolSettingsPanel({
         </div>
       )}
 
-      {!isSignatureTool && (
+      {!isSignatureTool && !isFormTool && (
         <Slider
           id="stroke-slider"
           label="Stroke"
@@ -321,6 +447,63 @@ export function ToolSettingsPanel({
         />
       )}
 
+      {showShapeControls && (
+        <div className="space-y-2" role="group" aria-label="Shape">
+          {FILLABLE_SHAPES.includes(shapeType as Annotation['type']) && (
+            <div className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={Boolean(currentShapeStyle.fillColor)}
+                  onChange={(e) => changeShapeStyle({ fillColor: e.target.checked ? '#ffffff' : undefined })}
+                  className="h-3 w-3"
+                />
+                Fill
+              </label>
+              <input
+                type="color"
+                value={currentShapeStyle.fillColor ?? '#ffffff'}
+                disabled={!currentShapeStyle.fillColor}
+                onChange={(e) => previewShapeStyle({ fillColor: e.target.value })}
+                onBlur={commitShapeStyle}
+                aria-label="Fill color"
+                className="h-6 w-8 rounded border border-[var(--pdfoid-border)] disabled:opacity-40"
+              />
+            </div>
+          )}
+          <label className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+            Dash
+            <select
+              value={currentShapeStyle.dashStyle ?? 'solid'}
+              onChange={(e) => changeShapeStyle({ dashStyle: e.target.value === 'solid' ? undefined : e.target.value as DashStyle })}
+              className="px-1.5 py-0.5 border border-[var(--pdfoid-border)] rounded-md bg-transparent font-normal capitalize"
+            >
+              {DASH_STYLES.map((style) => (
+                <option key={style} value={style}>{style}</option>
+              ))}
+            </select>
+          </label>
+          {shapeType === 'arrow' && (['Start', 'End'] as const).map((label, index) => (
+            <label key={label} className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+              {label} head
+              <select
+                value={lineEndings[index]}
+                onChange={(e) => {
+                  const next: [LineEnding, LineEnding] = [lineEndings[0], lineEndings[1]]
+                  next[index] = e.target.value as LineEnding
+                  changeShapeStyle({ lineEndings: next })
+                }}
+                className="px-1.5 py-0.5 border border-[var(--pdfoid-border)] rounded-md bg-transparent font-normal capitalize"
+              >
+                {LINE_ENDINGS.map((ending) => (
+                  <option key={ending} value={ending}>{ending}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
       {showFontControls && (
         <Slider
           id="font-size-slider"
@@ -343,6 +526,98 @@ export function ToolSettingsPanel({
         />
       )}
 
+      {showFontControls && (
+        <div className="space-y-2" role="group" aria-label="Text box">
+          <div className="flex items-center gap-1">
+            {(['left', 'center', 'right'] as TextAlign[]).map((align) => (
+              <button
+                key={align}
+                type="button"
+                onClick={() => changeBoxStyle({ textAlign: align })}
+                aria-pressed={(boxStyle.textAlign ?? 'left') === align}
+                aria-label={`Align ${align}`}
+                className={`flex-1 py-1 text-[10px] md:text-xs rounded-md border capitalize ${(boxStyle.textAlign ?? 'left') === align
+                  ? 'border-[var(--pdfoid-accent2)] bg-[rgba(47,111,94,0.10)] text-[var(--pdfoid-accent2)] font-semibold'
+                  : 'border-[var(--pdfoid-border)] text-[var(--pdfoid-muted)] hover:bg-[rgba(47,33,22,0.04)]'
+                  }`}
+              >
+                {align}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+            Line spacing
+            <select
+              value={boxStyle.lineSpacing ?? DEFAULT_LINE_SPACING}
+              onChange={(e) => changeBoxStyle({ lineSpacing: Number(e.target.value) })}
+              className="px-1.5 py-0.5 border border-[var(--pdfoid-border)] rounded-md bg-transparent font-normal"
+            >
+              {[...new Set([...TEXT_BOX.LINE_SPACINGS, DEFAULT_LINE_SPACING, boxStyle.lineSpacing ?? DEFAULT_LINE_SPACING])]
+                .sort((a, b) => a - b)
+                .map((spacing) => (
+                  <option key={spacing} value={spacing}>{spacing}×</option>
+                ))}
+            </select>
+          </label>
+          <div className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={Boolean(boxStyle.fillColor)}
+                onChange={(e) => changeBoxStyle({ fillColor: e.target.checked ? '#ffffff' : undefined })}
+                className="h-3 w-3"
+              />
+              Background
+            </label>
+            <input
+              type="color"
+              value={boxStyle.fillColor ?? '#ffffff'}
+              disabled={!boxStyle.fillColor}
+              onChange={(e) => previewBoxStyle({ fillColor: e.target.value })}
+              onBlur={commitBoxStyle}
+              aria-label="Background color"
+              className="h-6 w-8 rounded border border-[var(--pdfoid-border)] disabled:opacity-40"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+            <span>Border</span>
+            <input
+              type="color"
+              value={boxStyle.borderColor ?? '#000000'}
+              onChange={(e) => previewBoxStyle({ borderColor: e.target.value, borderWidth: boxStyle.borderWidth || 1 })}
+              onBlur={commitBoxStyle}
+              aria-label="Border color"
+              className="h-6 w-8 rounded border border-[var(--pdfoid-border)]"
+            />
+          </div>
+          <Slider
+            id="border-width-slider"
+            label="Border Width"
+            value={boxStyle.borderColor ? boxStyle.borderWidth ?? 0 : 0}
+            min={0}
+            max={TEXT_BOX.MAX_BORDER_WIDTH}
+            step={0.5}
+            formatValue={(v) => `${v}pt`}
+            onChange={(e) => {
+              const width = Number(e.target.value)
+              previewBoxStyle({ borderWidth: width, borderColor: boxStyle.borderColor ?? (width > 0 ? '#000000' : undefined) })
+            }}
+            onPointerUp={commitBoxStyle}
+            onPointerCancel={commitBoxStyle}
+            onBlur={commitBoxStyle}
+          />
+          <label className="flex items-center gap-1.5 text-[10px] md:text-xs font-semibold text-[var(--pdfoid-muted)]">
+            <input
+              type="checkbox"
+              checked={Boolean(boxStyle.autoGrow)}
+              onChange={(e) => changeBoxStyle({ autoGrow: e.target.checked })}
+              className="h-3 w-3"
+            />
+            Grow to fit text
+          </label>
+        </div>
+      )}
+
       <Slider
         id="opacity-slider"
         label="Opacity"
@@ -392,14 +667,60 @@ export function ToolSettingsPanel({
           size="sm"
           aria-label="Export annotations as JSON"
         >
-          Export
+          Export JSON
         </Button>
+        <Button
+          onClick={() => jsonInputRef.current?.click()}
+          variant="secondary"
+          size="sm"
+          aria-label="Import annotations JSON"
+        >
+          Import JSON
+        </Button>
+        <input
+          ref={jsonInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) await onImportJson(file)
+          }}
+        />
+        <Button
+          onClick={onExportXfdf}
+          variant="secondary"
+          size="sm"
+          aria-label="Export annotations as XFDF"
+        >
+          Export XFDF
+        </Button>
+        <Button
+          onClick={() => xfdfInputRef.current?.click()}
+          variant="secondary"
+          size="sm"
+          aria-label="Import annotations from XFDF"
+        >
+          Import XFDF
+        </Button>
+        <input
+          ref={xfdfInputRef}
+          type="file"
+          accept=".xfdf,application/vnd.adobe.xfdf,application/xml,text/xml"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) await onImportXfdf(file)
+          }}
+        />
         <Button
           onClick={handleSave}
           variant="primary"
           size="sm"
           isLoading={isSaving}
-          className={saveSuccess ? 'bg-emerald-500 hover:bg-emerald-600' : ''}
+          className={`col-span-2 ${saveSuccess ? 'bg-emerald-500 hover:bg-emerald-600' : ''}`}
           aria-label={saveSuccess ? 'Annotations saved' : 'Save annotations'}
         >
           {saveSuccess ? 'Saved!' : 'Save'}
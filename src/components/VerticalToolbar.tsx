@@ -18,11 +18,21 @@ interface ToolConfig {
 const tools: ToolConfig[] = [
   { id: 'pointer', label: 'Select', icon: <PointerIcon />, shortcut: 'V', description: 'Select and move annotations' },
   { id: 'highlight', label: 'Highlight', icon: <HighlightIcon />, shortcut: 'H', description: 'Highlight text on the document' },
+  { id: 'underline', label: 'Underline', icon: <UnderlineIcon />, shortcut: 'U', description: 'Underline text on the document' },
+  { id: 'strikeout', label: 'Strike', icon: <StrikeoutIcon />, shortcut: 'K', description: 'Strike out text on the document' },
   { id: 'pen', label: 'Pen', icon: <PenIcon />, shortcut: 'D', description: 'Draw freehand annotations' },
   { id: 'rectangle', label: 'Rectangle', icon: <RectangleIcon />, shortcut: 'R', description: 'Draw rectangular shapes' },
+  { id: 'ellipse', label: 'Ellipse', icon: <EllipseIcon />, shortcut: 'O', description: 'Draw ellipses and circles' },
+  { id: 'line', label: 'Line', icon: <LineIcon />, shortcut: 'L', description: 'Draw straight lines' },
+  { id: 'arrow', label: 'Arrow', icon: <ArrowIcon />, shortcut: 'A', description: 'Draw arrows with configurable heads' },
+  { id: 'polyline', label: 'Polyline', icon: <PolylineIcon />, shortcut: 'P', description: 'Draw connected line segments point by point' },
+  { id: 'polygon', label: 'Polygon', icon: <PolygonIcon />, shortcut: 'G', description: 'Draw closed shapes corner by corner' },
+  { id: 'cloud', label: 'Cloud', icon: <CloudIcon />, shortcut: 'C', description: 'Draw revision clouds around changes' },
   { id: 'text-box', label: 'Text', icon: <TextIcon />, shortcut: 'T', description: 'Add text annotations' },
   { id: 'sticky-note', label: 'Note', icon: <NoteIcon />, shortcut: 'N', description: 'Add sticky note comments' },
   { id: 'signature', label: 'Sign', icon: <SignatureIcon />, shortcut: 'S', description: 'Create and place a Fill & Sign signature' },
+  { id: 'form-field', label: 'Field', icon: <FormFieldIcon />, shortcut: 'M', description: 'Draw form fields: text, checkbox, radio, dropdown or signature' },
+  { id: 'redact', label: 'Redact', icon: <RedactIcon />, shortcut: 'X', description: 'Mark areas to redact, then apply to remove their content' },
   { id: 'eraser', label: 'Eraser', icon: <EraserIcon />, shortcut: 'E', description: 'Erase annotations' },
 ];
 
@@ -186,6 +196,40 @@ function HighlightIcon() {
   );
 }
 
+function UnderlineIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 4v7a5 5 0 0010 0V4M5 20h14" />
+    </svg>
+  );
+}
+
+function StrikeoutIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 12h16M16 6.5C15.2 5 13.8 4 12 4c-2.5 0-4 1.5-4 3.5M8 17.5C8.8 19 10.2 20 12 20c2.5 0 4-1.5 4-3.5" />
+    </svg>
+  );
+}
+
+function RedactIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 7h16M4 17h7" />
+      <rect x="6" y="10" width="12" height="4" rx="0.5" fill="currentColor" />
+    </svg>
+  );
+}
+
+function FormFieldIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <rect x="3" y="8" width="18" height="8" rx="1" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7 10v4" />
+    </svg>
+  );
+}
+
 function PenIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -202,6 +246,54 @@ function RectangleIcon() {
   );
 }
 
+function EllipseIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <ellipse cx="12" cy="12" rx="9" ry="7" />
+    </svg>
+  );
+}
+
+function LineIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 20L20 4" />
+    </svg>
+  );
+}
+
+function ArrowIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 20L20 4m0 0h-8m8 0v8" />
+    </svg>
+  );
+}
+
+function PolylineIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 18l6-10 5 6 7-9" />
+    </svg>
+  );
+}
+
+function PolygonIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 3l9 7-3.5 10h-11L3 10z" />
+    </svg>
+  );
+}
+
+function CloudIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 15a4 4 0 004 4h9a5 5 0 10-.1-10A5.002 5.002 0 006.3 10.1 4.001 4.001 0 003 15z" />
+    </svg>
+  );
+}
+
 function TextIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
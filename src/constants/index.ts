@@ -31,6 +31,16 @@ export const ANNOTATION_DEFAULTS = {
   FONT_FAMILY: 'Arial, sans-serif',
 } as const;
 
+/**
+ * Text box defaults, in PDF points
+ */
+export const TEXT_BOX = {
+  DEFAULT_WIDTH: 200,
+  MIN_WIDTH: 24,
+  LINE_SPACINGS: [1, 1.15, 1.5, 2],
+  MAX_BORDER_WIDTH: 6,
+} as const;
+
 /**
  * Sticky note dimensions
  */
@@ -60,6 +70,15 @@ export const HIGHLIGHT_COLORS = {
   ORANGE: '#fed7aa',
 } as const;
 
+/**
+ * Redaction marks
+ */
+export const REDACTION = {
+  FILL_COLOR: '#000000',
+  // Outline of marks that have not been applied yet
+  MARK_COLOR: '#dc2626',
+} as const;
+
 /**
  * Preset colors for tools
  */
@@ -81,7 +100,11 @@ export const STORAGE_CONFIG = {
   DB_VERSION: 1,
   ANNOTATIONS_STORE: 'annotations',
   MAX_UNDO_STATES: 30,
+  MAX_UNDO_BYTES: 256 * 1024 * 1024, // Document history snapshots (PDF bytes)
   DEBOUNCE_SAVE_MS: 1000,
+  DEFAULT_DOCUMENT_ID: 'default',
+  RECENT_DOCUMENTS_KEY: 'recent-documents',
+  MAX_RECENT_DOCUMENTS: 12,
 } as const;
 
 /**
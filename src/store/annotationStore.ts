@@ -1,13 +1,81 @@
 /**
  * Zustand store for annotation state management
- * Handles CRUD, undo/redo, persistence
+ * Handles CRUD, persistence; undo/redo is recorded on the shared history timeline
  */
 
 import { create } from 'zustand';
-import { Annotation, AnnotationState, ToolType } from '../types/annotations';
+import { v4 as uuidv4 } from 'uuid';
+import { Annotation, AnnotationReply, AnnotationState, DocumentViewState, ExportedAnnotations, FormFieldType, RecentDocument, ReviewStatus, ShapeStyle, TextBoxStyle, ToolType } from '../types/annotations';
 import { STORAGE_CONFIG, ANNOTATION_DEFAULTS } from '../constants';
+import { ANNOTATIONS_SCHEMA_ID, ANNOTATIONS_SCHEMA_VERSION } from '../utils/annotationSchema';
+import { useHistoryStore } from './historyStore';
+import { useUIStore } from './uiStore';
+
+const {
+  DB_NAME,
+  ANNOTATIONS_STORE: STORE_ANNOTATIONS,
+  DEBOUNCE_SAVE_MS,
+  DEFAULT_DOCUMENT_ID,
+  RECENT_DOCUMENTS_KEY,
+  MAX_RECENT_DOCUMENTS,
+} = STORAGE_CONFIG;
+
+const recordKey = (pdfId: string) => `annotations:${pdfId}`;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = (event) => {
+      const dbUpgrade = (event.target as IDBOpenDBRequest).result;
+      if (!dbUpgrade.objectStoreNames.contains(STORE_ANNOTATIONS)) {
+        dbUpgrade.createObjectStore(STORE_ANNOTATIONS, { keyPath: 'id' });
+      }
+    };
+  });
+
+const readRecord = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  // If the store still doesn't exist for any reason, bail gracefully
+  if (!db.objectStoreNames.contains(STORE_ANNOTATIONS)) return undefined;
+  const store = db.transaction(STORE_ANNOTATIONS, 'readonly').objectStore(STORE_ANNOTATIONS);
+  return new Promise<T | undefined>((resolve, reject) => {
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
 
-const { DB_NAME, ANNOTATIONS_STORE: STORE_ANNOTATIONS, MAX_UNDO_STATES, DEBOUNCE_SAVE_MS } = STORAGE_CONFIG;
+const writeRecord = async (payload: { id: string }): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_ANNOTATIONS, 'readwrite').objectStore(STORE_ANNOTATIONS);
+  await new Promise((resolve, reject) => {
+    const request = store.put(payload);
+    request.onsuccess = resolve;
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteRecord = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_ANNOTATIONS, 'readwrite').objectStore(STORE_ANNOTATIONS);
+  await new Promise((resolve, reject) => {
+    const request = store.delete(key);
+    request.onsuccess = resolve;
+    request.onerror = () => reject(request.error);
+  });
+};
+
+interface StoredDocumentRecord {
+  id: string;
+  items?: Annotation[];
+  signatureDataUrl?: string;
+  signatureMime?: string;
+  viewState?: DocumentViewState;
+  importedNativeIds?: string[];
+  updatedAt?: string;
+}
 
 // Debounce implementation
 let saveTimeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -22,14 +90,28 @@ const debouncedSaveToDB = () => {
 };
 
 interface AnnotationStore extends AnnotationState {
+  // Document identity (content hash) and per-document view state
+  pdfId?: string;
+  viewState: DocumentViewState;
+  recentDocuments: RecentDocument[];
+  // IDs of the file's own markup already lifted into the layer; deleting one must not bring it back on reopen
+  importedNativeIds: string[];
+
   // CRUD operations
   addAnnotation: (annotation: Annotation) => void;
+  addAnnotations: (annotations: Annotation[], label?: string) => void;
   deleteAnnotation: (annotationId: string) => void;
   updateAnnotation: (annotationId: string, changes: Partial<Annotation>, options?: { previous?: Annotation }) => void;
   updateAnnotationLive: (annotationId: string, changes: Partial<Annotation>) => void;
   clearPageAnnotations: (page: number) => void;
   clearAllAnnotations: () => void;
-  loadAnnotations: (annotations: Annotation[]) => void;
+  loadAnnotations: (annotations: Annotation[], options?: { undoable?: boolean; label?: string }) => void;
+
+  // Review threads
+  addReply: (annotationId: string, text: string, author?: string) => void;
+  updateReply: (annotationId: string, replyId: string, text: string) => void;
+  deleteReply: (annotationId: string, replyId: string) => void;
+  setReviewStatus: (annotationId: string, status: ReviewStatus, author?: string) => void;
 
   // UI state
   selectTool: (tool: ToolType) => void;
@@ -37,20 +119,26 @@ interface AnnotationStore extends AnnotationState {
   setThickness: (thickness: number) => void;
   setOpacity: (opacity: number) => void;
   setFontSize: (size: number) => void;
+  setTextBoxStyle: (changes: TextBoxStyle) => void;
+  setShapeStyle: (changes: ShapeStyle) => void;
+  setFormFieldType: (type: FormFieldType) => void;
   setSignatureTemplate: (dataUrl?: string, mime?: string) => void;
   setCurrentPage: (page: number) => void;
   setIsDrawing: (isDrawing: boolean) => void;
   setSelectedAnnotation: (id?: string) => void;
+  setViewState: (changes: Partial<DocumentViewState>) => void;
 
-  // Undo/Redo (lengths are tracked in state for React subscriptions)
+  // Undo/Redo on the shared timeline (see historyStore)
   undo: () => void;
   redo: () => void;
-  undoStackLength: number;
-  redoStackLength: number;
 
   // Persistence
   saveToIndexedDB: () => Promise<void>;
   loadFromIndexedDB: (pdfId: string) => Promise<void>;
+  markNativeImported: (ids: string[]) => void;
+  openDocument: (pdfId: string, info: { fileName: string; numPages: number }) => Promise<void>;
+  loadRecentDocuments: () => Promise<void>;
+  forgetDocument: (pdfId: string) => Promise<void>;
   exportAsJSON: () => string;
 
   // Filter/Query
@@ -58,16 +146,48 @@ interface AnnotationStore extends AnnotationState {
   getAnnotationById: (id: string) => Annotation | undefined;
 }
 
-// Undo/Redo stack
-let undoStack: AnnotationState[] = [];
-let redoStack: AnnotationState[] = [];
+// Annotation objects are never mutated in place, so the lists can be shared
+const recordChange = (label: string, before: Annotation[], after: Annotation[]) => {
+  const apply = (annotations: Annotation[]) => {
+    useAnnotationStore.setState({ annotations });
+    debouncedSaveToDB();
+  };
+  useHistoryStore.getState().record({
+    label,
+    source: 'annotations',
+    undo: () => apply(before),
+    redo: () => apply(after),
+  });
+};
+
+const typeLabel = (annotation?: Annotation) => (annotation ? annotation.type.replace('-', ' ') : 'annotation');
 
-const saveUndoState = (currentState: AnnotationState) => {
-  undoStack.push(JSON.parse(JSON.stringify(currentState)));
-  if (undoStack.length > MAX_UNDO_STATES) {
-    undoStack.shift();
-  }
-  redoStack = []; // Clear redo stack when new action is taken
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  open: 'Reopened',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  resolved: 'Resolved',
+};
+
+// New markup is attributed to the current reviewer, when one is named
+const withReviewer = (annotation: Annotation): Annotation => {
+  const reviewer = useUIStore.getState().preferences.reviewerName?.trim();
+  return annotation.author || !reviewer ? annotation : { ...annotation, author: reviewer };
+};
+
+// Apply `revise` to one annotation as a single undoable edit; no-op when it is missing
+const reviseAnnotation = (
+  annotationId: string,
+  label: (annotation: Annotation) => string,
+  revise: (annotation: Annotation) => Annotation
+) => {
+  const before = useAnnotationStore.getState().annotations;
+  const target = before.find((a: Annotation) => a.id === annotationId);
+  if (!target) return;
+  const annotations = before.map((a: Annotation) => (a.id === annotationId ? revise(a) : a));
+  useAnnotationStore.setState({ annotations });
+  recordChange(label(target), before, annotations);
+  debouncedSaveToDB();
 };
 
 export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
@@ -78,62 +198,60 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
   selectedThickness: ANNOTATION_DEFAULTS.STROKE_WIDTH,
   selectedOpacity: ANNOTATION_DEFAULTS.OPACITY,
   selectedFontSize: ANNOTATION_DEFAULTS.FONT_SIZE,
+  textBoxStyle: { autoGrow: true },
+  shapeStyle: { lineEndings: ['none', 'closed'] },
+  formFieldType: 'text',
   signatureDataUrl: undefined,
   signatureMime: undefined,
   currentPage: 1,
   isDrawing: false,
   selectedAnnotationId: undefined,
-  undoStackLength: 0,
-  redoStackLength: 0,
+  pdfId: undefined,
+  viewState: { currentPage: 1 },
+  recentDocuments: [],
+  importedNativeIds: [],
 
   // CRUD
   addAnnotation: (annotation: Annotation) => {
-    set((state: AnnotationStore) => {
-      saveUndoState(state);
-      const newState = {
-        ...state,
-        annotations: [...state.annotations, annotation],
-      };
-      debouncedSaveToDB();
-      return { annotations: newState.annotations, undoStackLength: undoStack.length, redoStackLength: 0 };
-    });
+    const before = get().annotations;
+    const annotations = [...before, withReviewer(annotation)];
+    set({ annotations });
+    recordChange(`Added ${typeLabel(annotation)} on page ${annotation.page}`, before, annotations);
+    debouncedSaveToDB();
+  },
+
+  // Several annotations as one undo step
+  addAnnotations: (added: Annotation[], label?: string) => {
+    if (!added.length) return;
+    const before = get().annotations;
+    const annotations = [...before, ...added.map(withReviewer)];
+    set({ annotations });
+    recordChange(label ?? `Added ${added.length} annotations`, before, annotations);
+    debouncedSaveToDB();
   },
 
   deleteAnnotation: (annotationId: string) => {
-    set((state: AnnotationStore) => {
-      saveUndoState(state);
-      const newState = {
-        ...state,
-        annotations: state.annotations.filter((a: Annotation) => a.id !== annotationId),
-      };
-      debouncedSaveToDB();
-      return { annotations: newState.annotations, undoStackLength: undoStack.length, redoStackLength: 0 };
-    });
+    const before = get().annotations;
+    const removed = before.find((a: Annotation) => a.id === annotationId);
+    if (!removed) return;
+    const annotations = before.filter((a: Annotation) => a.id !== annotationId);
+    set({ annotations });
+    recordChange(`Deleted ${typeLabel(removed)} on page ${removed.page}`, before, annotations);
+    debouncedSaveToDB();
   },
 
   updateAnnotation: (annotationId: string, changes: Partial<Annotation>, options?: { previous?: Annotation }) => {
-    set((state: AnnotationStore) => {
-      if (options?.previous) {
-        const restoredState: AnnotationState = {
-          ...state,
-          annotations: state.annotations.map((a: Annotation) =>
-            a.id === annotationId ? { ...options.previous! } : a
-          ),
-        };
-        saveUndoState(restoredState);
-      } else {
-        saveUndoState(state);
-      }
-
-      const newState = {
-        ...state,
-        annotations: state.annotations.map((a: Annotation) =>
-          a.id === annotationId ? { ...a, ...changes } : a
-        ),
-      };
-      debouncedSaveToDB();
-      return { annotations: newState.annotations, undoStackLength: undoStack.length, redoStackLength: 0 };
-    });
+    const current = get().annotations;
+    // Live drags have already moved the annotation; undo returns to where the drag began
+    const before = options?.previous
+      ? current.map((a: Annotation) => (a.id === annotationId ? { ...options.previous! } : a))
+      : current;
+    const annotations = current.map((a: Annotation) =>
+      a.id === annotationId ? { ...a, ...changes } : a
+    );
+    set({ annotations });
+    recordChange(`Edited ${typeLabel(current.find((a: Annotation) => a.id === annotationId))}`, before, annotations);
+    debouncedSaveToDB();
   },
 
   updateAnnotationLive: (annotationId: string, changes: Partial<Annotation>) => {
@@ -145,28 +263,79 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
   },
 
   clearPageAnnotations: (page: number) => {
-    set((state: AnnotationStore) => {
-      saveUndoState(state);
-      const newState = {
-        ...state,
-        annotations: state.annotations.filter((a: Annotation) => a.page !== page),
-      };
-      debouncedSaveToDB();
-      return { annotations: newState.annotations, undoStackLength: undoStack.length, redoStackLength: 0 };
-    });
+    const before = get().annotations;
+    const annotations = before.filter((a: Annotation) => a.page !== page);
+    set({ annotations });
+    recordChange(`Cleared annotations on page ${page}`, before, annotations);
+    debouncedSaveToDB();
   },
 
   clearAllAnnotations: () => {
-    set((state: AnnotationStore) => {
-      saveUndoState(state);
-      const newState = { ...state, annotations: [] };
-      debouncedSaveToDB();
-      return { annotations: newState.annotations, undoStackLength: undoStack.length, redoStackLength: 0 };
-    });
+    const before = get().annotations;
+    set({ annotations: [] });
+    recordChange('Cleared all annotations', before, []);
+    debouncedSaveToDB();
   },
 
-  loadAnnotations: (annotations: Annotation[]) => {
+  loadAnnotations: (annotations: Annotation[], options?: { undoable?: boolean; label?: string }) => {
+    if (!options?.undoable) {
+      set({ annotations });
+      return;
+    }
+    // User-initiated imports can be rolled back like any other edit
+    const before = get().annotations;
     set({ annotations });
+    recordChange(options.label ?? 'Imported annotations', before, annotations);
+    debouncedSaveToDB();
+  },
+
+  // Review threads
+  addReply: (annotationId: string, text: string, author?: string) => {
+    const body = text.trim();
+    if (!body) return;
+    const reply: AnnotationReply = { id: uuidv4(), text: body, createdAt: new Date().toISOString(), ...(author && { author }) };
+    reviseAnnotation(
+      annotationId,
+      (a) => `Replied to ${typeLabel(a)} on page ${a.page}`,
+      (a) => ({ ...a, replies: [...(a.replies ?? []), reply] })
+    );
+  },
+
+  updateReply: (annotationId: string, replyId: string, text: string) => {
+    const body = text.trim();
+    if (!body) return;
+    reviseAnnotation(
+      annotationId,
+      (a) => `Edited reply on ${typeLabel(a)}`,
+      (a) => ({
+        ...a,
+        replies: (a.replies ?? []).map((r) => (r.id === replyId ? { ...r, text: body, updatedAt: new Date().toISOString() } : r)),
+      })
+    );
+  },
+
+  deleteReply: (annotationId: string, replyId: string) => {
+    reviseAnnotation(
+      annotationId,
+      (a) => `Deleted reply on ${typeLabel(a)}`,
+      (a) => ({ ...a, replies: (a.replies ?? []).filter((r) => r.id !== replyId) })
+    );
+  },
+
+  setReviewStatus: (annotationId: string, status: ReviewStatus, author?: string) => {
+    const current = get().getAnnotationById(annotationId);
+    if (!current || (current.status ?? 'open') === status) return;
+    reviseAnnotation(
+      annotationId,
+      (a) => `${STATUS_LABELS[status]} ${typeLabel(a)} on page ${a.page}`,
+      (a) => {
+        // Any decision records who made it and when; reopening clears both
+        const { resolvedBy: _by, resolvedAt: _at, ...rest } = a;
+        return status === 'open'
+          ? { ...rest, status }
+          : { ...rest, status, resolvedAt: new Date().toISOString(), ...(author && { resolvedBy: author }) };
+      }
+    );
   },
 
   // UI state
@@ -190,12 +359,26 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     set({ selectedFontSize: size });
   },
 
+  setTextBoxStyle: (changes: TextBoxStyle) => {
+    set((state: AnnotationStore) => ({ textBoxStyle: { ...state.textBoxStyle, ...changes } }));
+  },
+
+  setShapeStyle: (changes: ShapeStyle) => {
+    set((state: AnnotationStore) => ({ shapeStyle: { ...state.shapeStyle, ...changes } }));
+  },
+
+  setFormFieldType: (type: FormFieldType) => {
+    set({ formFieldType: type });
+  },
+
   setSignatureTemplate: (dataUrl?: string, mime?: string) => {
     set({ signatureDataUrl: dataUrl, signatureMime: mime });
+    debouncedSaveToDB();
   },
 
   setCurrentPage: (page: number) => {
-    set({ currentPage: page });
+    set((state: AnnotationStore) => ({ currentPage: page, viewState: { ...state.viewState, currentPage: page } }));
+    debouncedSaveToDB();
   },
 
   setIsDrawing: (isDrawing: boolean) => {
@@ -207,115 +390,130 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     set({ selectedAnnotationId: id });
   },
 
-  // Undo/Redo
-  undo: () => {
-    if (undoStack.length === 0) return;
+  setViewState: (changes: Partial<DocumentViewState>) => {
+    set((state: AnnotationStore) => ({ viewState: { ...state.viewState, ...changes } }));
+    debouncedSaveToDB();
+  },
 
-    set((state: AnnotationStore) => {
-      redoStack.push(JSON.parse(JSON.stringify(state)));
-      const previousState = undoStack.pop();
-      if (previousState) {
-        debouncedSaveToDB();
-      }
-      return { ...(previousState || state), undoStackLength: undoStack.length, redoStackLength: redoStack.length };
-    });
+  // Undo/Redo (may revert a page edit if that came last)
+  undo: () => {
+    useHistoryStore.getState().undo();
   },
 
   redo: () => {
-    if (redoStack.length === 0) return;
-
-    set((state: AnnotationStore) => {
-      undoStack.push(JSON.parse(JSON.stringify(state)));
-      const nextState = redoStack.pop();
-      if (nextState) {
-        debouncedSaveToDB();
-      }
-      return { ...(nextState || state), undoStackLength: undoStack.length, redoStackLength: redoStack.length };
-    });
+    useHistoryStore.getState().redo();
   },
 
   // Persistence
   saveToIndexedDB: async () => {
     try {
-      const db = await new Promise<IDBDatabase>((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, 1);
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-        request.onupgradeneeded = (event) => {
-          const dbUpgrade = (event.target as IDBOpenDBRequest).result;
-          if (!dbUpgrade.objectStoreNames.contains(STORE_ANNOTATIONS)) {
-            dbUpgrade.createObjectStore(STORE_ANNOTATIONS, { keyPath: 'id' });
-          }
-        };
-      });
-
       const state = get();
-      const tx = db.transaction(STORE_ANNOTATIONS, 'readwrite');
-      const store = tx.objectStore(STORE_ANNOTATIONS);
-
-      const payload = {
-        id: 'annotations:default',
+      const pdfId = state.pdfId ?? DEFAULT_DOCUMENT_ID;
+      const payload: StoredDocumentRecord = {
+        id: recordKey(pdfId),
         items: state.annotations,
-        signatureDataUrl: (state as any).signatureDataUrl,
-        signatureMime: (state as any).signatureMime,
+        signatureDataUrl: state.signatureDataUrl,
+        signatureMime: state.signatureMime,
+        viewState: state.viewState,
+        importedNativeIds: state.importedNativeIds,
         updatedAt: new Date().toISOString(),
-      } as any;
-
-      await new Promise((resolve, reject) => {
-        const request = store.put(payload);
-        request.onsuccess = resolve;
-        request.onerror = () => reject(request.error);
-      });
+      };
+      await writeRecord(payload);
+
+      // Keep the annotation count shown in the recent list current
+      const recent = state.recentDocuments.find((doc) => doc.pdfId === pdfId);
+      if (recent && recent.annotationCount !== state.annotations.length) {
+        const recentDocuments = state.recentDocuments.map((doc) =>
+          doc.pdfId === pdfId ? { ...doc, annotationCount: state.annotations.length } : doc
+        );
+        set({ recentDocuments });
+        await writeRecord({ id: RECENT_DOCUMENTS_KEY, items: recentDocuments } as { id: string });
+      }
     } catch (error: any) {
       console.error('Failed to save annotations to IndexedDB:', error);
     }
   },
 
-  loadFromIndexedDB: async (_pdfId: string) => {
+  loadFromIndexedDB: async (pdfId: string) => {
     try {
-      const db = await new Promise<IDBDatabase>((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, 1);
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-        request.onupgradeneeded = (event) => {
-          const dbUpgrade = (event.target as IDBOpenDBRequest).result;
-          if (!dbUpgrade.objectStoreNames.contains(STORE_ANNOTATIONS)) {
-            dbUpgrade.createObjectStore(STORE_ANNOTATIONS, { keyPath: 'id' });
-          }
-        };
+      const record = await readRecord<StoredDocumentRecord>(recordKey(pdfId));
+      const viewState = record?.viewState ?? { currentPage: 1 };
+      set({
+        pdfId,
+        annotations: record?.items || [],
+        signatureDataUrl: record?.signatureDataUrl,
+        signatureMime: record?.signatureMime,
+        viewState,
+        importedNativeIds: record?.importedNativeIds || [],
+        currentPage: viewState.currentPage,
+        selectedAnnotationId: undefined,
       });
+    } catch (error: any) {
+      console.error('Failed to load annotations from IndexedDB:', error);
+      set({ pdfId, annotations: [], viewState: { currentPage: 1 }, importedNativeIds: [], currentPage: 1, selectedAnnotationId: undefined });
+    }
+  },
 
-      // If the store still doesn't exist for any reason, bail gracefully
-      if (!db.objectStoreNames.contains(STORE_ANNOTATIONS)) {
-        set({ annotations: [] });
-        return;
-      }
+  markNativeImported: (ids: string[]) => {
+    const known = new Set(get().importedNativeIds);
+    const added = ids.filter((id) => !known.has(id));
+    if (added.length) set({ importedNativeIds: [...get().importedNativeIds, ...added] });
+  },
 
-      const tx = db.transaction(STORE_ANNOTATIONS, 'readonly');
-      const store = tx.objectStore(STORE_ANNOTATIONS);
+  openDocument: async (pdfId: string, info: { fileName: string; numPages: number }) => {
+    // Flush pending edits of the previous document before switching keys
+    if (saveTimeoutId) {
+      clearTimeout(saveTimeoutId);
+      saveTimeoutId = null;
+      await get().saveToIndexedDB();
+    }
 
-      const record = await new Promise<any>((resolve, reject) => {
-        const request = store.get('annotations:default');
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
+    useHistoryStore.getState().clear();
+    await get().loadFromIndexedDB(pdfId);
 
-      const items = (record?.items as Annotation[]) || [];
-      set({
-        annotations: items,
-        signatureDataUrl: record?.signatureDataUrl,
-        signatureMime: record?.signatureMime,
-      } as any);
+    const entry: RecentDocument = {
+      pdfId,
+      fileName: info.fileName,
+      numPages: info.numPages,
+      annotationCount: get().annotations.length,
+      lastOpenedAt: new Date().toISOString(),
+    };
+    const recentDocuments = [entry, ...get().recentDocuments.filter((doc) => doc.pdfId !== pdfId)].slice(0, MAX_RECENT_DOCUMENTS);
+    set({ recentDocuments });
+    try {
+      await writeRecord({ id: RECENT_DOCUMENTS_KEY, items: recentDocuments } as { id: string });
     } catch (error: any) {
-      console.error('Failed to load annotations from IndexedDB:', error);
+      console.error('Failed to save recent documents:', error);
+    }
+  },
+
+  loadRecentDocuments: async () => {
+    try {
+      const record = await readRecord<{ items?: RecentDocument[] }>(RECENT_DOCUMENTS_KEY);
+      set({ recentDocuments: record?.items || [] });
+    } catch (error: any) {
+      console.error('Failed to load recent documents:', error);
+    }
+  },
+
+  forgetDocument: async (pdfId: string) => {
+    const recentDocuments = get().recentDocuments.filter((doc) => doc.pdfId !== pdfId);
+    set({ recentDocuments });
+    try {
+      await deleteRecord(recordKey(pdfId));
+      await writeRecord({ id: RECENT_DOCUMENTS_KEY, items: recentDocuments } as { id: string });
+    } catch (error: any) {
+      console.error('Failed to forget document:', error);
     }
   },
 
   exportAsJSON: () => {
     const state = get();
-    const exported = {
-      version: '1.0',
-      pdfId: 'current-pdf', // TODO: pass pdfId from context
+    const exported: ExportedAnnotations = {
+      schema: ANNOTATIONS_SCHEMA_ID,
+      version: ANNOTATIONS_SCHEMA_VERSION,
+      pdfId: state.pdfId ?? null,
+      fileName: state.recentDocuments.find((doc) => doc.pdfId === state.pdfId)?.fileName,
       exportDate: new Date().toISOString(),
       annotations: state.annotations,
     };
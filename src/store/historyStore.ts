@@ -0,0 +1,124 @@
+/**
+ * Unified undo timeline
+ * Annotation edits and structural PDF edits are recorded as commands in one
+ * history, so undo always reverts the most recent change of either kind.
+ */
+
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { STORAGE_CONFIG } from '../constants';
+
+const { MAX_UNDO_STATES, MAX_UNDO_BYTES } = STORAGE_CONFIG;
+
+export type HistorySource = 'annotations' | 'document';
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  source: HistorySource;
+  createdAt: number;
+}
+
+export interface HistoryCommand {
+  label: string;
+  source: HistorySource;
+  undo: () => void;
+  redo: () => void;
+  // Snapshot memory held by the command, counted against MAX_UNDO_BYTES
+  bytes?: number;
+}
+
+interface RecordedCommand extends HistoryCommand {
+  entry: HistoryEntry;
+}
+
+interface HistoryStore {
+  // Undoable entries (oldest first) and undone entries (next redo first)
+  entries: HistoryEntry[];
+  redoEntries: HistoryEntry[];
+  // Set while a document edit is in flight; undo/redo wait for it
+  locked: boolean;
+
+  record: (command: HistoryCommand) => HistoryEntry;
+  undo: () => HistoryEntry | undefined;
+  redo: () => HistoryEntry | undefined;
+  goTo: (entryId: string | null) => void;
+  setLocked: (locked: boolean) => void;
+  clear: () => void;
+}
+
+// Newest last in both stacks
+let past: RecordedCommand[] = [];
+let future: RecordedCommand[] = [];
+
+const totalBytes = (commands: RecordedCommand[]) =>
+  commands.reduce((sum, command) => sum + (command.bytes ?? 0), 0);
+
+// Drop the oldest commands past the count or byte budget; the latest is always kept
+const trimPast = () => {
+  past = past.slice(-MAX_UNDO_STATES);
+  while (past.length > 1 && totalBytes(past) + totalBytes(future) > MAX_UNDO_BYTES) {
+    past = past.slice(1);
+  }
+};
+
+const stackState = () => ({
+  entries: past.map((command) => command.entry),
+  redoEntries: future.map((command) => command.entry).reverse(),
+});
+
+export const useHistoryStore = create<HistoryStore>((set, get) => ({
+  entries: [],
+  redoEntries: [],
+  locked: false,
+
+  record: (command: HistoryCommand) => {
+    const entry: HistoryEntry = { id: uuidv4(), label: command.label, source: command.source, createdAt: Date.now() };
+    past = [...past, { ...command, entry }];
+    future = []; // A new change forks the timeline
+    trimPast();
+    set(stackState());
+    return entry;
+  },
+
+  undo: () => {
+    const command = past[past.length - 1];
+    if (!command || get().locked) return undefined;
+    past = past.slice(0, -1);
+    future = [...future, command];
+    command.undo();
+    set(stackState());
+    return command.entry;
+  },
+
+  redo: () => {
+    const command = future[future.length - 1];
+    if (!command || get().locked) return undefined;
+    future = future.slice(0, -1);
+    past = [...past, command];
+    command.redo();
+    set(stackState());
+    return command.entry;
+  },
+
+  // Undo or redo until `entryId` is the latest applied entry (null: before every entry)
+  goTo: (entryId: string | null) => {
+    const inPast = entryId === null || past.some((command) => command.entry.id === entryId);
+    if (!inPast && !future.some((command) => command.entry.id === entryId)) return;
+    const step = inPast ? get().undo : get().redo;
+    const isCurrent = () => (entryId === null ? past.length === 0 : past[past.length - 1]?.entry.id === entryId);
+    while (!isCurrent()) {
+      if (!step()) break;
+    }
+  },
+
+  setLocked: (locked: boolean) => {
+    set({ locked });
+  },
+
+  clear: () => {
+    past = [];
+    future = [];
+    set(stackState());
+  },
+}));
@@ -1,8 +1,51 @@
 // @ts-ignore
 import { create } from 'zustand'
 // @ts-ignore
-import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib'
+import { PDFDocument, PDFRef, StandardFonts, type PDFPage, degrees, drawObject, popGraphicsState, pushGraphicsState, rgb } from 'pdf-lib'
+import { v4 as uuidv4 } from 'uuid'
 import type { Annotation } from '../types/annotations'
+import { useAnnotationStore } from './annotationStore'
+import { useHistoryStore } from './historyStore'
+import { hexToRgb } from '../utils/color'
+import { computeDocumentId } from '../utils/documentId'
+import {
+  MARKUP_LINE_OFFSET,
+  MARKUP_LINE_WIDTH,
+  decodeDataUrl,
+  listNativeAnnotations,
+  nativeAnnotationRefs,
+  quadPointsOf,
+  readNativeAnnotations,
+  removeCopiedAnnotations,
+  removeNativeAnnotations,
+  shapeAppearance,
+  standardFontCache,
+  textBoxAppearance,
+  writeNativeAnnotations,
+  type NativeAnnotation,
+} from '../utils/pdfAnnotations'
+import {
+  deletedPageOrder,
+  duplicatedPageOrder,
+  formatPageRanges,
+  insertedPageOrder,
+  isIdentityOrder,
+  movedPageOrder,
+  normalizePageIndices,
+  remapPages,
+} from '../utils/pageOrder'
+import { chunkPages, isBlankPage, readTopLevelBookmarks, splitAtSeparators, splitAtStarts, type PageGroup } from '../utils/pdfSplit'
+import { rectsOverlap, textInRect, textItemsFromContent, uprightRect, type NormalizedRect, type PageTextItem, type TextViewport } from '../utils/pageText'
+import { buildSearchRegex, findInText, type TextSearchOptions } from '../utils/textSearch'
+import { PII_DETECTORS, type CustomPattern, type PiiDetectorId } from '../utils/piiDetectors'
+import { browserImageDecoder, redactPage, removeUnreachableObjects, stripRedactedMetadata } from '../utils/pdfRedact'
+import { readSignatureFields, signPdf, trackChanges, verifyPdfSignatures, type PdfSignature, type SignPdfOptions } from '../utils/pdfSign'
+import type { SigningIdentity } from '../utils/pkcs12'
+import { parseCertificate, readCertificates, sameBytes, type Certificate } from '../utils/x509'
+import { addCopiedFields, appendFormCopy, fillFormFields, readFormFields, sameFormValue, type FormField, type FormValue } from '../utils/pdfForms'
+import { isFormFieldDesign, writeFormDesign } from '../utils/formDesign'
+import { annotationRect } from '../utils/annotationReport'
+import { REDACTION, STORAGE_CONFIG } from '../constants'
 // @ts-ignore
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
 
@@ -59,22 +102,44 @@ interface RotateOptions {
   direction: 'left' | 'right'
 }
 
+interface MovePagesOptions {
+  pageIndices: number[]
+  // Insertion slot (0..numPages) counted before the move
+  toIndex: number
+}
+
+interface InsertPagesOptions {
+  sourceData: ArrayBuffer | Uint8Array
+  // Zero-based pages of the source, in the order to insert; defaults to all pages
+  sourcePageIndices?: number[]
+  // Insertion slot in the open document (0..numPages)
+  atIndex: number
+}
+
+interface RotatePagesOptions {
+  pageIndices: number[]
+  direction: 'left' | 'right'
+}
+
 interface CropOptions {
   pageIndex: number
   box: { x: number; y: number; width: number; height: number; normalized?: boolean }
 }
 
-interface ReplaceTextOptions {
+interface ReplaceTextOptions extends TextSearchOptions {
   search: string
   replace: string
-  caseSensitive?: boolean
-  wholeWord?: boolean
 }
 
-interface FindTextOptions {
+export interface SearchTerm {
   search: string
-  caseSensitive?: boolean
-  wholeWord?: boolean
+  color?: string
+}
+
+export interface FindTextOptions extends TextSearchOptions {
+  search: string
+  // More terms found in the same pass, each with its own color
+  terms?: SearchTerm[]
 }
 
 export interface TextMatch {
@@ -85,15 +150,104 @@ export interface TextMatch {
   length: number
   // Bounding box in PDF points (bottom-left origin)
   rect: { x: number; y: number; width: number; height: number }
+  // The match as shown, with rotation and crop applied; normalized like annotations
+  rectNorm: NormalizedRect
   snippet: string
+  text?: string // the matched characters
+  context?: { before: string; after: string } // page text around the match, for result lists
+  term?: string // the search term that matched
+  color?: string // that term's color, when it has one
   // Additional info for better replacement
   fontName?: string
   transform?: number[] // original transform matrix from pdf.js
   originalFontSize?: number
 }
 
+/** A find match from a personal-data detector */
+export interface SensitiveMatch extends TextMatch {
+  detector: PiiDetectorId | 'custom'
+  // Detector label, or the name given to a custom pattern
+  label: string
+}
+
+export interface FindSensitiveDataOptions {
+  // Built-in detectors to run; all by default
+  detectors?: PiiDetectorId[]
+  custom?: CustomPattern[]
+}
+
+interface HighlightFindResultsOptions {
+  // Defaults to the annotation tool color
+  color?: string
+}
+
+export interface RedactionResult {
+  // Marks applied
+  applied: number
+  // Content removed from the pages
+  glyphs: number
+  images: number
+  paths: number
+  annotations: number
+  // Document info and XMP entries removed because they repeat redacted text
+  metadata: number
+  // Text pdf.js still reads inside a redacted area after applying, or that markup over it still carries
+  leaks: Array<{ page: number; text: string }>
+}
+
+interface ExportPdfOptions {
+  // Written into the output as native /Annot objects (the stored document is untouched).
+  // The file's own markup stays as it is unless it was edited, deleted or flattened
+  annotations?: Annotation[]
+  // Export only these pages (zero-based, in document order); annotations follow their pages
+  pageIndices?: number[]
+  // Draw annotations into the page content instead of writing /Annot objects
+  flatten?: boolean
+  // Draw filled form fields into the pages and remove the form
+  flattenForm?: boolean
+  // Sign the result; the drawn signature used as the appearance is not exported as an annotation
+  sign?: SignPdfOptions & { identity: SigningIdentity }
+}
+
+export type SplitMode = 'range' | 'every' | 'bookmarks' | 'blank-pages'
+
+interface SplitOptions {
+  mode: SplitMode
+  // 'range': zero-based pages for a single extract
+  pageIndices?: number[]
+  // 'every': pages per part
+  pagesPerPart?: number
+  // Annotations on the extracted pages, carried over as /Annots or flattened
+  annotations?: Annotation[]
+  flatten?: boolean
+}
+
+export interface SplitPart {
+  fileName: string
+  pageIndices: number[]
+  blob: Blob
+}
+
+interface FilledPdfOptions {
+  // Field values by name, one set per filled copy
+  records: Array<Record<string, FormValue>>
+  // Output file names without extension, one per record; numbered when missing
+  names?: string[]
+  flatten?: boolean
+  // One PDF holding every copy instead of one file per record
+  combine?: boolean
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface FilledPdf {
+  fileName: string
+  blob: Blob
+}
+
 interface PdfEditorState {
   fileName: string
+  // SHA-256 of the file as opened; keys per-document persistence
+  pdfId?: string
   pdfData: Uint8Array | null
   originalPdfData: Uint8Array | null
   numPages: number
@@ -110,6 +264,20 @@ interface PdfEditorState {
   defaultFlashTtlMs: number
   autoClearHighlightMs: number
   _highlightClearTimerId?: number
+  // AcroForm fields of the current bytes, with the values stored in the file
+  formFields: FormField[]
+  // Values entered in the viewer by field name; written into the PDF on export
+  formValues: Record<string, FormValue>
+  // Markup of the file as opened, lifted into the annotation layer. It stays in the
+  // bytes, hidden when rendering; exports drop it once deleted or written again
+  nativeAnnotations: NativeAnnotation[]
+  // Digital signatures of the file as opened, checked against `trustAnchors`
+  signatures: PdfSignature[]
+  // The signed file as opened. While `pdfData` is still this array, exports append their
+  // changes as an incremental update so its signatures stay valid; page extracts drop them
+  signedPdfData: Uint8Array | null
+  // Certificates accepted as signature roots (kept in localStorage; there is no online revocation or AIA lookup)
+  trustAnchors: Certificate[]
 
   loadDocument: (bytes: ArrayBuffer, fileName: string) => Promise<void>
   resetToOriginal: () => void
@@ -119,90 +287,376 @@ interface PdfEditorState {
   reorderPages: (options: ReorderOptions) => Promise<void>
   rotatePage: (options: RotateOptions) => Promise<void>
   cropPage: (options: CropOptions) => Promise<void>
+  movePages: (options: MovePagesOptions) => Promise<void>
+  insertPagesFromPdf: (options: InsertPagesOptions) => Promise<number>
+  rotatePages: (options: RotatePagesOptions) => Promise<void>
+  deletePages: (pageIndices: number[]) => Promise<void>
+  duplicatePages: (pageIndices: number[]) => Promise<void>
   replaceText: (options: ReplaceTextOptions) => Promise<{ replacements: number; skipped: number }>
   findTextMatches: (options: FindTextOptions) => Promise<TextMatch[]>
+  findSensitiveData: (options?: FindSensitiveDataOptions) => Promise<SensitiveMatch[]>
+  readPageText: (pageNumbers: number[]) => Promise<Map<number, PageTextItem[]>>
   replaceMatch: (matchId: string, replaceValue: string) => Promise<{ replaced: boolean; reason?: string }>
   setCurrentMatchHighlight: (match?: TextMatch | null, meta?: { index: number; total: number }) => void
+  highlightFindResults: (options?: HighlightFindResultsOptions) => number
+  markRedactions: (matches?: TextMatch[]) => number
+  applyRedactions: () => Promise<RedactionResult>
   addFlashRect: (pageIndex: number, rectPts: { x: number; y: number; width: number; height: number }, ttlMs?: number) => void
   setDefaultFlashTtlMs: (ms: number) => void
   setAutoClearHighlightMs: (ms: number) => void
   flattenAnnotations: (annotations: Annotation[]) => Promise<void>
-  exportPdf: () => Promise<Blob>
+  setFormValue: (name: string, value: FormValue) => void
+  applyFormValues: (values: Record<string, FormValue>, label: string) => number
+  exportPdf: (options?: ExportPdfOptions) => Promise<Blob>
+  splitDocument: (options: SplitOptions) => Promise<SplitPart[]>
+  generateFilledPdfs: (options: FilledPdfOptions) => Promise<FilledPdf[]>
+  importTrustAnchors: (bytes: Uint8Array) => Promise<number>
+  removeTrustAnchor: (index: number) => Promise<void>
   clearError: () => void
 }
 
-const hexToRgb = (input?: string): { r: number; g: number; b: number; opacity: number } => {
-  if (!input) {
-    return { r: 1, g: 0, b: 0, opacity: 1 }
+const cloneUint8Array = (input: Uint8Array) => new Uint8Array(input.buffer.slice(input.byteOffset, input.byteOffset + input.byteLength))
+
+const pdfBlob = (bytes: Uint8Array) =>
+  new Blob([bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer], { type: 'application/pdf' })
+
+interface DocumentSnapshot {
+  pdfData: Uint8Array
+  numPages: number
+  pageSizes?: Array<{ width: number; height: number }>
+  formFields: FormField[]
+}
+
+// Bytes as loaded; the document is clean whenever these are current again
+let cleanPdfData: Uint8Array | null = null
+let cleanFormFields: FormField[] = []
+
+const TRUST_ANCHORS_KEY = 'pdfoid.trustAnchors'
+
+const loadTrustAnchors = (): Certificate[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(TRUST_ANCHORS_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((base64) => {
+      try {
+        return [parseCertificate(Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)))]
+      } catch {
+        return []
+      }
+    })
+  } catch {
+    return []
   }
+}
 
-  const normalized = input.trim()
-  if (normalized.startsWith('#')) {
-    const value = normalized.slice(1)
-    const expand = value.length === 3
-    const rHex = expand ? value[0] + value[0] : value.slice(0, 2)
-    const gHex = expand ? value[1] + value[1] : value.slice(2, 4)
-    const bHex = expand ? value[2] + value[2] : value.slice(4, 6)
-    const r = parseInt(rHex, 16) / 255
-    const g = parseInt(gHex, 16) / 255
-    const b = parseInt(bHex, 16) / 255
-    return { r, g, b, opacity: 1 }
+const saveTrustAnchors = (anchors: Certificate[]) => {
+  try {
+    const encoded = anchors.map((anchor) => btoa(Array.from(anchor.der, (byte) => String.fromCharCode(byte)).join('')))
+    window.localStorage.setItem(TRUST_ANCHORS_KEY, JSON.stringify(encoded))
+  } catch { }
+}
+
+// Like a damaged form, an unreadable signature should not stop the document from opening
+const safeSignatures = async (bytes: Uint8Array, trustAnchors: Certificate[]) => {
+  try {
+    return await verifyPdfSignatures(bytes, trustAnchors)
+  } catch (err) {
+    console.warn('Could not verify signatures', err)
+    return []
   }
+}
 
-  const rgbaMatch = normalized.match(/^rgba?\(([^)]+)\)$/i)
-  if (rgbaMatch) {
-    const parts = rgbaMatch[1].split(',').map((part) => part.trim())
-    if (parts.length >= 3) {
-      const parseChannel = (value: string) => {
-        if (value.endsWith('%')) {
-          return Math.max(0, Math.min(100, Number(value.slice(0, -1)))) / 100
-        }
-        return Math.max(0, Math.min(255, Number(value))) / 255
-      }
-      const r = parseChannel(parts[0])
-      const g = parseChannel(parts[1])
-      const b = parseChannel(parts[2])
-      const opacity = parts.length > 3 ? Math.max(0, Math.min(1, Number(parts[3]))) : 1
-      return { r, g, b, opacity: Number.isFinite(opacity) ? opacity : 1 }
-    }
+// A damaged form should not stop the document from opening or being edited
+const safeFormFields = (doc: PDFDocument) => {
+  try {
+    return readFormFields(doc)
+  } catch (err) {
+    console.warn('Could not read form fields', err)
+    return []
   }
+}
+
+const restoreSnapshot = (
+  get: () => PdfEditorState,
+  set: (partial: Partial<PdfEditorState>) => void,
+  snapshot: DocumentSnapshot,
+) => {
+  set({
+    pdfData: snapshot.pdfData,
+    numPages: snapshot.numPages,
+    pageSizes: snapshot.pageSizes,
+    formFields: snapshot.formFields,
+    dirty: snapshot.pdfData !== cleanPdfData,
+    pdfRevision: (get().pdfRevision ?? 0) + 1,
+    error: undefined,
+    currentMatchHighlight: null,
+    flashRects: [],
+  })
+}
 
-  return { r: 1, g: 0, b: 0, opacity: 1 }
+const applyAnnotations = (annotations: Annotation[]) => {
+  const store = useAnnotationStore.getState()
+  if (store.annotations === annotations) return
+  store.loadAnnotations(annotations)
+  void store.saveToIndexedDB()
 }
 
-const cloneUint8Array = (input: Uint8Array) => new Uint8Array(input.buffer.slice(input.byteOffset, input.byteOffset + input.byteLength))
+interface DocumentEditResult {
+  // New page position -> previous page index, or -1 for a new page.
+  // Annotations follow their pages; those on removed pages are dropped.
+  pageOrder?: number[]
+  // Further annotation changes that belong to the same edit
+  updateAnnotations?: (annotations: Annotation[]) => Annotation[]
+}
 
+/**
+ * Load the current bytes, apply `mutator`, save, and record the edit together
+ * with its annotation changes as one step on the history timeline. `label`
+ * is evaluated after the mutator, so it can report counts. A mutator that
+ * returns false made no change and leaves the document untouched.
+ */
 const withPdfDocument = async (
   get: () => PdfEditorState,
   set: (partial: Partial<PdfEditorState>) => void,
-  mutator: (doc: PDFDocument) => Promise<void> | void,
+  label: string | (() => string),
+  mutator: (doc: PDFDocument) => Promise<DocumentEditResult | false | void> | DocumentEditResult | false | void,
 ) => {
   const bytes = get().pdfData
   if (!bytes) {
     throw new Error('No PDF loaded')
   }
 
+  const history = useHistoryStore.getState()
   set({ loading: true, error: undefined })
+  history.setLocked(true)
   try {
     const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
-    await mutator(doc)
+    const result = await mutator(doc)
+    if (result === false) {
+      set({ loading: false })
+      return
+    }
     const saved = await doc.save()
-    const nextRevision = (get().pdfRevision ?? 0) + 1
-    set({
+    const before: DocumentSnapshot = { pdfData: bytes, numPages: get().numPages, pageSizes: get().pageSizes, formFields: get().formFields }
+    const after: DocumentSnapshot = {
       pdfData: new Uint8Array(saved),
       numPages: doc.getPageCount(),
       pageSizes: doc.getPages().map((p: any) => p.getSize()),
+      formFields: safeFormFields(doc),
+    }
+
+    // Read annotations only now, so edits made while the PDF was saving are kept
+    const annotationsBefore = useAnnotationStore.getState().annotations
+    let annotationsAfter = annotationsBefore
+    if (result?.pageOrder && !isIdentityOrder(result.pageOrder, before.numPages)) {
+      annotationsAfter = remapPages(annotationsAfter, result.pageOrder, uuidv4)
+    }
+    if (result?.updateAnnotations) {
+      annotationsAfter = result.updateAnnotations(annotationsAfter)
+    }
+
+    set({
+      ...after,
       loading: false,
       dirty: true,
-      pdfRevision: nextRevision,
+      pdfRevision: (get().pdfRevision ?? 0) + 1,
+    })
+    applyAnnotations(annotationsAfter)
+    history.record({
+      label: typeof label === 'function' ? label() : label,
+      source: 'document',
+      bytes: after.pdfData.byteLength,
+      undo: () => {
+        restoreSnapshot(get, set, before)
+        applyAnnotations(annotationsBefore)
+      },
+      redo: () => {
+        restoreSnapshot(get, set, after)
+        applyAnnotations(annotationsAfter)
+      },
     })
   } catch (err: any) {
     console.error('PDF mutation failed', err)
     set({ loading: false, error: err?.message || 'PDF mutation failed' })
     throw err
+  } finally {
+    history.setLocked(false)
   }
 }
 
+// Unchanged apart from the page (pages moved) or a creation time the file did not record
+const sameMarkup = (a: Annotation, b: Annotation) =>
+  JSON.stringify({ ...a, page: 0, createdAt: '' }) === JSON.stringify({ ...b, page: 0, createdAt: '' })
+
+interface NativeAnnotationPlan {
+  // Dictionaries to take out of the exported file
+  remove: PDFRef[]
+  // Annotations whose original stays in the file as it is, so they are not written again
+  kept: Set<string>
+}
+
+/**
+ * What an export does with the file's own markup. Annotations the user deleted
+ * are removed. With `written` (annotations exported as /Annots, or drawn when
+ * `flatten`), edited ones are removed too and written from the annotation
+ * layer; unchanged ones stay as they are unless they are flattened.
+ */
+const planNativeAnnotations = (natives: NativeAnnotation[], written?: Annotation[], flatten?: boolean): NativeAnnotationPlan => {
+  const current = new Map(useAnnotationStore.getState().annotations.filter((ann) => !ann.isDeleted).map((ann) => [ann.id, ann]))
+  const writtenIds = new Set((written ?? []).map((ann) => ann.id))
+  const byRef = new Map<PDFRef, NativeAnnotation[]>()
+  natives.forEach((native) => {
+    if (native.ref) byRef.set(native.ref, [...(byRef.get(native.ref) ?? []), native])
+  })
+
+  const plan: NativeAnnotationPlan = { remove: [], kept: new Set() }
+  byRef.forEach((parts, ref) => {
+    const present = parts.filter((part) => current.has(part.annotation.id))
+    if (!present.length) {
+      plan.remove.push(ref)
+      return
+    }
+    if (!written) return
+    const unchanged = present.length === parts.length && parts.every((part) => sameMarkup(current.get(part.annotation.id)!, part.annotation))
+    const drawn = flatten && parts.some((part) => writtenIds.has(part.annotation.id))
+    if (unchanged && !drawn) parts.forEach((part) => plan.kept.add(part.annotation.id))
+    else plan.remove.push(ref)
+  })
+  return plan
+}
+
+// "page 3" or "pages 1-3,6" for history labels
+const describePages = (indices: number[]) =>
+  indices.length === 1 ? `page ${indices[0] + 1}` : `pages ${formatPageRanges(indices)}`
+
+/**
+ * Rebuild the page tree in `order` (source indices; repeats become copies).
+ * Existing page objects are reused so annotations and links stay attached.
+ * Copies leave out the annotations in `layered`: the annotation layer copies its own.
+ */
+const applyPageOrder = async (doc: PDFDocument, order: number[], layered: PDFRef[] = []) => {
+  if (!order.length) {
+    throw new Error('A document needs at least one page')
+  }
+  const pages = doc.getPages()
+  const placed = new Set<number>()
+  const repeats: number[] = []
+  order.forEach((index) => {
+    if (placed.has(index)) repeats.push(index)
+    else placed.add(index)
+  })
+  // Copies must be made while every source page is still in the tree
+  const copies = repeats.length ? await doc.copyPages(doc, repeats) : []
+  copies.forEach((copy, i) => removeCopiedAnnotations(pages[repeats[i]], copy, layered))
+  for (let i = doc.getPageCount() - 1; i >= 0; i--) {
+    doc.removePage(i)
+  }
+  placed.clear()
+  let nextCopy = 0
+  order.forEach((index) => {
+    if (placed.has(index)) {
+      doc.addPage(copies[nextCopy++])
+    } else {
+      placed.add(index)
+      doc.addPage(pages[index])
+    }
+  })
+}
+
+// File-name-safe form of a bookmark title or record name
+const slugify = (title?: string) =>
+  (title ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .toLowerCase()
+
+// Characters of page text kept on each side of a match for result lists
+const CONTEXT_LENGTH = 40
+
+/**
+ * Normalized box of a find match in the page as shown by `viewport`;
+ * `rect.y` is the baseline and `rect.height` the text height
+ */
+const matchRectNorm = (rect: TextMatch['rect'], viewport: TextViewport): NormalizedRect => {
+  const bottomY = rect.y - rect.height * 0.2 // descender allowance
+  const [x0, y0] = viewport.convertToViewportPoint(rect.x, bottomY)
+  const [x1, y1] = viewport.convertToViewportPoint(rect.x + rect.width, bottomY + rect.height * 1.2)
+  const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+  const left = clamp01(Math.min(x0, x1) / Math.max(1, viewport.width))
+  const top = clamp01(Math.min(y0, y1) / Math.max(1, viewport.height))
+  const right = clamp01(Math.max(x0, x1) / Math.max(1, viewport.width))
+  const bottom = clamp01(Math.max(y0, y1) / Math.max(1, viewport.height))
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+const quadKey = (page: number, quad: number[]) => `${page}:${quad.map((v) => v.toFixed(4)).join(',')}`
+
+/**
+ * Find results as markup quads, skipping those already in `existing` (keyed by
+ * `prefixOf` and `quadKey`) and repeats; `existing` gains the rest
+ */
+const unmarkedMatchQuads = (matches: TextMatch[], existing: Set<string>, prefixOf: (match: TextMatch) => string = () => '') => {
+  const unmarked: Array<{ match: TextMatch; quad: [number, number, number, number] }> = []
+  for (const match of matches) {
+    const { left, top, width, height } = match.rectNorm
+    const quad: [number, number, number, number] = [left, top, left + width, top + height]
+    const key = `${prefixOf(match)}${quadKey(match.pageIndex + 1, quad)}`
+    if (existing.has(key)) continue
+    existing.add(key)
+    unmarked.push({ match, quad })
+  }
+  return unmarked
+}
+
+/** Areas a redaction mark covers: one per text line, or its whole box */
+const redactionRects = (mark: Annotation): NormalizedRect[] => {
+  if (mark.quads?.length) {
+    return mark.quads.map(([left, top, right, bottom]) => ({ left, top, width: right - left, height: bottom - top }))
+  }
+  const endX = mark.endX ?? mark.startX
+  const endY = mark.endY ?? mark.startY
+  return [{
+    left: Math.min(mark.startX, endX),
+    top: Math.min(mark.startY, endY),
+    width: Math.abs(endX - mark.startX),
+    height: Math.abs(endY - mark.startY),
+  }]
+}
+
+/**
+ * PDF user space box under `rect`, which is normalized to the page as pdf.js
+ * shows it: the CropBox, turned by the page's /Rotate.
+ */
+const viewRectToPdf = (page: PDFPage, rect: NormalizedRect) => {
+  const { x, y, width, height } = page.getCropBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+  const toPdf = (u: number, v: number) => {
+    switch (rotation) {
+      case 90: return { x: x + v * width, y: y + u * height }
+      case 180: return { x: x + (1 - u) * width, y: y + v * height }
+      case 270: return { x: x + (1 - v) * width, y: y + (1 - u) * height }
+      default: return { x: x + u * width, y: y + (1 - v) * height }
+    }
+  }
+  const a = toPdf(rect.left, rect.top)
+  const b = toPdf(rect.left + rect.width, rect.top + rect.height)
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) }
+}
+
+// Text read along its lines, which run left to right once a turned page is upright again
+const textInUprightRect = (items: PageTextItem[], rect: NormalizedRect, rotation: number) =>
+  textInRect(items.map((item) => ({ ...item, ...uprightRect(item, rotation) })), uprightRect(rect, rotation))
+
+// Areas markup covers, line by line for text markup
+const markupRects = (ann: Annotation): NormalizedRect[] => (ann.quads?.length ? redactionRects(ann) : [annotationRect(ann)])
+
+// Text an annotation carries itself, as a redaction would leak it
+const annotationText = (ann: Annotation) =>
+  [ann.selectedText, ann.text, ...(ann.replies ?? []).map((reply) => reply.text)].filter(Boolean).join(' ').trim()
+
 const toPdfRect = (
   pageWidth: number,
   pageHeight: number,
@@ -214,23 +668,201 @@ const toPdfRect = (
   height: rect.height,
 })
 
-const decodeDataUrl = (dataUrl: string): { mime: string; bytes: Uint8Array } | null => {
-  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/)
-  if (!match) return null
-  const mime = match[1]
-  const base64 = match[2]
-  try {
-    const bin = atob(base64)
-    const bytes = new Uint8Array(bin.length)
-    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
-    return { mime, bytes }
-  } catch {
-    return null
+/**
+ * Draw annotations into page content (flattening). Used for the working
+ * document and for exported copies.
+ */
+const drawAnnotations = async (doc: PDFDocument, annotations: Annotation[]) => {
+  const pages = doc.getPages()
+  const fonts = standardFontCache(doc)
+  const font = await fonts(StandardFonts.Helvetica)
+
+  const colorCache = new Map<string, ReturnType<typeof hexToRgb>>()
+  const resolveColor = (value: string | undefined) => {
+    if (!value) return hexToRgb('#ff4545')
+    if (!colorCache.has(value)) {
+      colorCache.set(value, hexToRgb(value))
+    }
+    return colorCache.get(value) as ReturnType<typeof hexToRgb>
+  }
+
+  for (const ann of annotations) {
+    const page = pages[ann.page - 1]
+    if (!page) continue
+    const { width: pageWidth, height: pageHeight } = page.getSize()
+
+    const color = resolveColor(ann.color)
+    const opacity = ann.opacity ?? color.opacity ?? 1
+
+    const startX = (ann.startX ?? 0) * pageWidth
+    const startYTop = (ann.startY ?? 0) * pageHeight
+    const endX = (ann.endX ?? ann.startX ?? 0) * pageWidth
+    const endYTop = (ann.endY ?? ann.startY ?? 0) * pageHeight
+    const left = Math.min(startX, endX)
+    const top = Math.min(startYTop, endYTop)
+    const rectWidth = Math.max(Math.abs(endX - startX), 2)
+    const rectHeight = Math.max(Math.abs(endYTop - startYTop), 2)
+    const rect = toPdfRect(pageWidth, pageHeight, { left, top, width: rectWidth, height: rectHeight })
+
+    switch (ann.type) {
+      case 'highlight':
+      case 'underline':
+      case 'strikeout': {
+        const points = quadPointsOf(ann, pageWidth, pageHeight)
+        for (let i = 0; i + 7 < points.length; i += 8) {
+          const [x1, yTop, x2, , , yBottom] = points.slice(i, i + 8)
+          const height = yTop - yBottom
+          if (ann.type === 'highlight') {
+            page.drawRectangle({
+              x: x1,
+              y: yBottom,
+              width: Math.max(x2 - x1, 2),
+              height: Math.max(height, 2),
+              color: rgb(color.r, color.g, color.b),
+              opacity: opacity * 0.6,
+              borderOpacity: 0,
+            })
+            continue
+          }
+          const y = yBottom + height * MARKUP_LINE_OFFSET[ann.type]
+          page.drawLine({
+            start: { x: x1, y },
+            end: { x: x2, y },
+            thickness: Math.max(0.5, height * MARKUP_LINE_WIDTH),
+            color: rgb(color.r, color.g, color.b),
+            opacity,
+          })
+        }
+        break
+      }
+      case 'rectangle':
+      case 'ellipse':
+      case 'cloud':
+      case 'line':
+      case 'arrow':
+      case 'polyline':
+      case 'polygon': {
+        if ((ann.type === 'polyline' || ann.type === 'polygon') && (ann.points?.length ?? 0) < 2) break
+        // Same appearance as the native shape annotation, painted into the page
+        const { ref } = shapeAppearance(doc, ann, pageWidth, pageHeight, opacity)
+        const name = page.node.newXObject('Shape', ref)
+        page.pushOperators(pushGraphicsState(), drawObject(name), popGraphicsState())
+        break
+      }
+      case 'pen': {
+        if (!ann.points || ann.points.length < 2) break
+        const thickness = Math.max(1, (ann.strokeWidth ?? 2) * 0.75)
+        for (let i = 0; i < ann.points.length - 1; i++) {
+          const [p1xNorm, p1yNorm] = ann.points[i]
+          const [p2xNorm, p2yNorm] = ann.points[i + 1]
+          const p1x = p1xNorm * pageWidth
+          const p1y = pageHeight - p1yNorm * pageHeight
+          const p2x = p2xNorm * pageWidth
+          const p2y = pageHeight - p2yNorm * pageHeight
+          page.drawLine({
+            start: { x: p1x, y: p1y },
+            end: { x: p2x, y: p2y },
+            color: rgb(color.r, color.g, color.b),
+            thickness,
+            opacity,
+          })
+        }
+        break
+      }
+      case 'text-box': {
+        if (!ann.text && !ann.fillColor && !(ann.borderColor && ann.borderWidth)) break
+        // Same appearance as the native FreeText, painted into the page
+        const { ref } = await textBoxAppearance(doc, ann, pageWidth, pageHeight, fonts, opacity)
+        const name = page.node.newXObject('TextBox', ref)
+        page.pushOperators(pushGraphicsState(), drawObject(name), popGraphicsState())
+        break
+      }
+      case 'sticky-note': {
+        const stickyWidth = (ann.width ?? 0.25) * pageWidth
+        const stickyHeight = (ann.height ?? 0.25) * pageHeight
+        const stickyRect = toPdfRect(pageWidth, pageHeight, {
+          left: startX,
+          top: startYTop,
+          width: stickyWidth,
+          height: stickyHeight,
+        })
+        page.drawRectangle({
+          ...stickyRect,
+          color: rgb(color.r, color.g, color.b),
+          opacity: 0.85,
+        })
+        if (ann.text) {
+          const textMargin = 12
+          const textWidth = stickyWidth - textMargin * 2
+          const fontSize = Math.max(10, (ann.fontSize ?? 12))
+          const lines = ann.text.split(/\r?\n/)
+          let cursorY = stickyRect.y + stickyRect.height - textMargin - fontSize
+          lines.forEach((line) => {
+            if (cursorY < stickyRect.y + textMargin) return
+            const truncated = line.length > 0 ? line : ' '
+            page.drawText(truncated, {
+              x: stickyRect.x + textMargin,
+              y: cursorY,
+              maxWidth: textWidth,
+              size: fontSize,
+              font,
+              color: rgb(0, 0, 0),
+            })
+            cursorY -= fontSize * 1.35
+          })
+        }
+        break
+      }
+      case 'stamp': {
+        const fontSize = Math.max(20, (ann.fontSize ?? 24))
+        const baselineY = pageHeight - startYTop
+        page.drawRectangle({
+          ...rect,
+          borderColor: rgb(color.r, color.g, color.b),
+          borderWidth: Math.max(2, (ann.strokeWidth ?? 3) * 0.8),
+          opacity,
+        })
+        if (ann.text) {
+          page.drawText(ann.text.toUpperCase(), {
+            x: rect.x + 12,
+            y: baselineY,
+            size: fontSize,
+            font,
+            color: rgb(color.r, color.g, color.b),
+            opacity,
+          })
+        }
+        break
+      }
+      case 'signature': {
+        if (!ann.imageDataUrl) break
+        const decoded = decodeDataUrl(ann.imageDataUrl)
+        if (!decoded) break
+        const mime = (ann.imageMime || decoded.mime || '').toLowerCase()
+        const isPng = mime.includes('png') || decoded.mime.toLowerCase().includes('png')
+        try {
+          const embedded = isPng ? await doc.embedPng(decoded.bytes) : await doc.embedJpg(decoded.bytes)
+          const scale = Math.min(rect.width / embedded.width, rect.height / embedded.height)
+          const w = embedded.width * scale
+          const h = embedded.height * scale
+          const x = rect.x + (rect.width - w) / 2
+          const y = rect.y + (rect.height - h) / 2
+          page.drawImage(embedded, { x, y, width: w, height: h, opacity })
+        } catch {
+          break
+        }
+        break
+      }
+      default: {
+        break
+      }
+    }
   }
 }
 
 export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) => ({
   fileName: '',
+  pdfId: undefined,
   pdfData: null,
   originalPdfData: null,
   numPages: 0,
@@ -254,16 +886,56 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     } catch { return 0 }
   })(),
   _highlightClearTimerId: undefined,
+  formFields: [],
+  formValues: {},
+  nativeAnnotations: [],
+  signatures: [],
+  signedPdfData: null,
+  trustAnchors: loadTrustAnchors(),
 
   loadDocument: async (bytes: ArrayBuffer, fileName: string) => {
     try {
       set({ loading: true, error: undefined })
       const copy = new Uint8Array(bytes.slice(0))
       const doc = await PDFDocument.load(copy, { updateMetadata: false, ignoreEncryption: true })
+      const isSigned = readSignatureFields(doc).some((field) => field.signed)
+      const signatures = isSigned ? await safeSignatures(copy, get().trustAnchors) : []
+
+      // Per-document annotations, signature and view state are keyed by content hash
+      const pdfId = await computeDocumentId(copy)
+      await useAnnotationStore.getState().openDocument(pdfId, { fileName, numPages: doc.getPageCount() })
+
+      // Lift existing markup into the annotation layer so it stays editable.
+      // The bytes keep their /Annots; the viewer hides the ones the layer draws.
+      let nativeAnnotations: NativeAnnotation[] = []
+      try {
+        nativeAnnotations = listNativeAnnotations(doc)
+        const imported = nativeAnnotations.map((native) => native.annotation)
+        if (imported.length) {
+          // Stored copies win: they carry edits made since the first import.
+          // Markup imported before and missing now was deleted by the user.
+          const { annotations, importedNativeIds, loadAnnotations, markNativeImported, saveToIndexedDB } = useAnnotationStore.getState()
+          const known = new Set([...annotations.map((a) => a.id), ...importedNativeIds])
+          const fresh = imported.filter((a) => !known.has(a.id))
+          if (fresh.length) loadAnnotations([...annotations, ...fresh])
+          if (imported.some((a) => !importedNativeIds.includes(a.id))) {
+            markNativeImported(imported.map((a) => a.id))
+            await saveToIndexedDB()
+          }
+        }
+      } catch (err) {
+        console.warn('Skipping native annotation import', err)
+      }
+
       const pageSizes = Array.from({ length: doc.getPageCount() }, (_, i) => doc.getPage(i).getSize())
+      const formFields = safeFormFields(doc)
       const nextRevision = (get().pdfRevision ?? 0) + 1
+      cleanPdfData = copy
+      cleanFormFields = formFields
+      useHistoryStore.getState().clear()
       set({
         fileName,
+        pdfId,
         pdfData: copy,
         originalPdfData: cloneUint8Array(copy),
         numPages: doc.getPageCount(),
@@ -271,6 +943,11 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
         dirty: false,
         pdfRevision: nextRevision,
         pageSizes,
+        formFields,
+        formValues: {},
+        nativeAnnotations,
+        signatures,
+        signedPdfData: isSigned ? copy : null,
         currentMatchHighlight: null,
         flashRects: [],
       })
@@ -282,7 +959,13 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
         pdfData: null,
         originalPdfData: null,
         fileName: '',
+        pdfId: undefined,
         numPages: 0,
+        formFields: [],
+        formValues: {},
+        nativeAnnotations: [],
+        signatures: [],
+        signedPdfData: null,
       })
       throw err
     }
@@ -292,11 +975,24 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     const original = get().originalPdfData
     if (!original) return
     const nextRevision = (get().pdfRevision ?? 0) + 1
-    set({ pdfData: cloneUint8Array(original), dirty: false, pdfRevision: nextRevision, error: undefined, currentMatchHighlight: null, flashRects: [] })
+    const restored = cloneUint8Array(original)
+    cleanPdfData = restored
+    useHistoryStore.getState().clear()
+    set({
+      pdfData: restored,
+      dirty: false,
+      pdfRevision: nextRevision,
+      error: undefined,
+      currentMatchHighlight: null,
+      flashRects: [],
+      formFields: cleanFormFields,
+      formValues: {},
+    })
   },
 
   addBlankPage: async (options?: BlankPageOptions) => {
-    await withPdfDocument(get, set, async (doc) => {
+    let inserted = 0
+    await withPdfDocument(get, set, () => `Added blank page ${inserted + 1}`, async (doc) => {
       const count = doc.getPageCount()
       const templatePage = count > 0 ? doc.getPage(0) : undefined
       const defaultSize = templatePage ? templatePage.getSize() : { width: 612, height: 792 }
@@ -311,16 +1007,18 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
         return count
       })()
 
+      inserted = position
       if (position >= count) {
         doc.addPage([width, height])
       } else {
         doc.insertPage(position, [width, height])
       }
+      return { pageOrder: insertedPageOrder(count, position, 1) }
     })
   },
 
   insertImage: async (options: InsertImageOptions) => {
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, `Inserted image on page ${options.pageIndex + 1}`, async (doc) => {
       const page = doc.getPage(options.pageIndex)
       if (!page) {
         throw new Error('Invalid page index')
@@ -361,30 +1059,32 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
   },
 
   deletePage: async (pageIndex: number) => {
-    await withPdfDocument(get, set, async (doc) => {
-      if (pageIndex < 0 || pageIndex >= doc.getPageCount()) {
+    await withPdfDocument(get, set, `Deleted page ${pageIndex + 1}`, async (doc) => {
+      const count = doc.getPageCount()
+      if (pageIndex < 0 || pageIndex >= count) {
         throw new Error('Invalid page index')
       }
       doc.removePage(pageIndex)
+      return { pageOrder: deletedPageOrder(count, [pageIndex]) }
     })
   },
 
   reorderPages: async ({ fromIndex, toIndex }: ReorderOptions) => {
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, `Moved page ${fromIndex + 1} to ${toIndex + 1}`, async (doc) => {
       const pageCount = doc.getPageCount()
       if (fromIndex < 0 || fromIndex >= pageCount || toIndex < 0 || toIndex >= pageCount) {
         throw new Error('Invalid page index')
       }
-      if (fromIndex === toIndex) return
-      const [copied] = await doc.copyPages(doc, [fromIndex])
-      doc.removePage(fromIndex)
-      const adjustedToIndex = fromIndex < toIndex ? toIndex - 1 : toIndex
-      doc.insertPage(adjustedToIndex, copied)
+      if (fromIndex === toIndex) return false
+      // toIndex is the page's final position
+      const pageOrder = movedPageOrder(pageCount, [fromIndex], fromIndex < toIndex ? toIndex + 1 : toIndex)
+      await applyPageOrder(doc, pageOrder)
+      return { pageOrder }
     })
   },
 
   rotatePage: async ({ pageIndex, direction }: RotateOptions) => {
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, `Rotated page ${pageIndex + 1} ${direction}`, async (doc) => {
       const page = doc.getPage(pageIndex)
       if (!page) {
         throw new Error('Invalid page index')
@@ -397,7 +1097,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
   },
 
   cropPage: async ({ pageIndex, box }: CropOptions) => {
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, `Cropped page ${pageIndex + 1}`, async (doc) => {
       const page = doc.getPage(pageIndex)
       if (!page) {
         throw new Error('Invalid page index')
@@ -414,6 +1114,98 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     })
   },
 
+  movePages: async ({ pageIndices, toIndex }: MovePagesOptions) => {
+    await withPdfDocument(get, set, `Moved ${describePages(normalizePageIndices(pageIndices, get().numPages))}`, async (doc) => {
+      const count = doc.getPageCount()
+      if (!normalizePageIndices(pageIndices, count).length) {
+        throw new Error('Invalid page index')
+      }
+      const order = movedPageOrder(count, pageIndices, toIndex)
+      if (isIdentityOrder(order, count)) return false
+      await applyPageOrder(doc, order)
+      return { pageOrder: order }
+    })
+  },
+
+  insertPagesFromPdf: async ({ sourceData, sourcePageIndices, atIndex }: InsertPagesOptions) => {
+    const sourceBytes = sourceData instanceof Uint8Array ? sourceData : new Uint8Array(sourceData.slice(0))
+    let slot = 0
+    let inserted = 0
+    await withPdfDocument(get, set, () => `Inserted ${inserted} page${inserted === 1 ? '' : 's'} at page ${slot + 1}`, async (doc) => {
+      const source = await PDFDocument.load(sourceBytes, { updateMetadata: false, ignoreEncryption: true })
+      const sourceCount = source.getPageCount()
+      const indices = sourcePageIndices ?? Array.from({ length: sourceCount }, (_, i) => i)
+      if (!indices.length || indices.some((i) => !Number.isInteger(i) || i < 0 || i >= sourceCount)) {
+        throw new Error('Invalid source page index')
+      }
+      const count = doc.getPageCount()
+      slot = Math.min(Math.max(0, Math.floor(atIndex)), count)
+
+      // Lift the source's markup into the annotation layer, as loadDocument does
+      let imported: Annotation[] = []
+      try {
+        const positions = new Map<number, number[]>()
+        indices.forEach((sourceIndex, i) => positions.set(sourceIndex + 1, [...(positions.get(sourceIndex + 1) ?? []), slot + i + 1]))
+        imported = readNativeAnnotations(source, { remove: true }).flatMap((ann) =>
+          (positions.get(ann.page) ?? []).map((page) => ({ ...ann, page }))
+        )
+      } catch (err) {
+        console.warn('Skipping native annotation import', err)
+      }
+
+      const copied = await doc.copyPages(source, indices)
+      copied.forEach((page, i) => doc.insertPage(slot + i, page))
+      inserted = copied.length
+
+      // Existing annotations move down with their pages; imported ones get fresh ids
+      const added = imported.map((ann) => ({ ...ann, id: uuidv4() }))
+      return {
+        pageOrder: insertedPageOrder(count, slot, inserted),
+        updateAnnotations: added.length ? (annotations: Annotation[]) => [...annotations, ...added] : undefined,
+      }
+    })
+    return inserted
+  },
+
+  rotatePages: async ({ pageIndices, direction }: RotatePagesOptions) => {
+    await withPdfDocument(get, set, `Rotated ${describePages(normalizePageIndices(pageIndices, get().numPages))} ${direction}`, async (doc) => {
+      const indices = normalizePageIndices(pageIndices, doc.getPageCount())
+      if (!indices.length) {
+        throw new Error('Invalid page index')
+      }
+      const delta = direction === 'right' ? 90 : -90
+      indices.forEach((index) => {
+        const page = doc.getPage(index)
+        const next = ((page.getRotation().angle + delta) % 360 + 360) % 360
+        page.setRotation(degrees(next))
+      })
+    })
+  },
+
+  deletePages: async (pageIndices: number[]) => {
+    await withPdfDocument(get, set, `Deleted ${describePages(normalizePageIndices(pageIndices, get().numPages))}`, async (doc) => {
+      const count = doc.getPageCount()
+      if (!normalizePageIndices(pageIndices, count).length) {
+        throw new Error('Invalid page index')
+      }
+      const pageOrder = deletedPageOrder(count, pageIndices)
+      await applyPageOrder(doc, pageOrder)
+      return { pageOrder }
+    })
+  },
+
+  duplicatePages: async (pageIndices: number[]) => {
+    await withPdfDocument(get, set, `Duplicated ${describePages(normalizePageIndices(pageIndices, get().numPages))}`, async (doc) => {
+      const count = doc.getPageCount()
+      if (!normalizePageIndices(pageIndices, count).length) {
+        throw new Error('Invalid page index')
+      }
+      const pageOrder = duplicatedPageOrder(count, pageIndices)
+      await applyPageOrder(doc, pageOrder, nativeAnnotationRefs(get().nativeAnnotations))
+      return { pageOrder }
+    })
+  },
+
   setCurrentMatchHighlight: (match?: TextMatch | null, meta?: { index: number; total: number }) => {
     if (!match) {
       const prevId = get()._highlightClearTimerId
@@ -432,15 +1224,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
       set({ currentMatchHighlight: null, _highlightClearTimerId: undefined })
       return
     }
-    const { width, height } = sizes[match.pageIndex]
-    // rect.y is the baseline, rect.height is the text height
-    // For highlight visualization, we need the bottom of the text box
-    const bottomY = match.rect.y - match.rect.height * 0.2 // descender allowance
-    const left = Math.max(0, Math.min(1, match.rect.x / Math.max(1, width)))
-    const top = Math.max(0, Math.min(1, 1 - (bottomY + match.rect.height * 1.2) / Math.max(1, height)))
-    const w = Math.max(0, Math.min(1, match.rect.width / Math.max(1, width)))
-    const h = Math.max(0, Math.min(1, (match.rect.height * 1.2) / Math.max(1, height)))
-    set({ currentMatchHighlight: { pageIndex: match.pageIndex, rectNorm: { left, top, width: w, height: h }, badge: meta ? { index: meta.index, total: meta.total } : undefined } })
+    set({ currentMatchHighlight: { pageIndex: match.pageIndex, rectNorm: match.rectNorm, badge: meta ? { index: meta.index, total: meta.total } : undefined } })
     const timeoutMs = get().autoClearHighlightMs
     if (timeoutMs && timeoutMs > 0) {
       const prevId = get()._highlightClearTimerId
@@ -454,6 +1238,149 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     }
   },
 
+  // Keep every result of the last search as highlights tagged with their search term, in one undo step
+  highlightFindResults: (options: HighlightFindResultsOptions = {}) => {
+    const { lastFindResults: matches = [], lastFindOptions } = get()
+    const fallbackTerm = lastFindOptions?.search.trim() ?? ''
+    if (!matches.length) return 0
+
+    const annotationStore = useAnnotationStore.getState()
+    // Running the action twice for the same search does not stack highlights
+    const existing = new Set(
+      annotationStore.annotations
+        .filter((a) => a.type === 'highlight' && a.tags?.length && a.quads?.length)
+        .flatMap((a) => a.tags!.map((tag) => `${tag}@${quadKey(a.page, a.quads![0])}`))
+    )
+    const createdAt = new Date().toISOString()
+    const highlights: Annotation[] = []
+    const usedTerms = new Set<string>()
+    const termOf = (match: TextMatch) => match.term ?? fallbackTerm
+    for (const { match, quad } of unmarkedMatchQuads(matches.filter(termOf), existing, (match) => `${termOf(match)}@`)) {
+      const term = termOf(match)
+      highlights.push({
+        id: uuidv4(),
+        type: 'highlight',
+        page: match.pageIndex + 1,
+        createdAt,
+        startX: quad[0],
+        startY: quad[1],
+        endX: quad[2],
+        endY: quad[3],
+        quads: [quad],
+        selectedText: match.text ?? term,
+        tags: [term],
+        color: match.color ?? options.color ?? annotationStore.selectedColor,
+        opacity: annotationStore.selectedOpacity,
+      })
+      usedTerms.add(term)
+    }
+    const termList = usedTerms.size > 1 ? `${usedTerms.size} terms` : `"${[...usedTerms][0] ?? fallbackTerm}"`
+    annotationStore.addAnnotations(
+      highlights,
+      `Highlighted ${highlights.length} match${highlights.length === 1 ? '' : 'es'} for ${termList}`,
+    )
+    return highlights.length
+  },
+
+  // Mark find results (the last search by default) for redaction, in one undo step
+  markRedactions: (matches?: TextMatch[]) => {
+    const { lastFindResults } = get()
+    const targets = matches ?? lastFindResults ?? []
+    if (!targets.length) return 0
+
+    const annotationStore = useAnnotationStore.getState()
+    const existing = new Set(
+      annotationStore.annotations
+        .filter((a) => a.type === 'redact')
+        .flatMap((a) => (a.quads ?? []).map((quad) => quadKey(a.page, quad)))
+    )
+    const createdAt = new Date().toISOString()
+    const marks: Annotation[] = []
+    for (const { match, quad } of unmarkedMatchQuads(targets, existing)) {
+      marks.push({
+        id: uuidv4(),
+        type: 'redact',
+        page: match.pageIndex + 1,
+        createdAt,
+        startX: quad[0],
+        startY: quad[1],
+        endX: quad[2],
+        endY: quad[3],
+        quads: [quad],
+        selectedText: match.text ?? match.term,
+        color: REDACTION.FILL_COLOR,
+      })
+    }
+    annotationStore.addAnnotations(marks, `Marked ${marks.length} match${marks.length === 1 ? '' : 'es'} for redaction`)
+    return marks.length
+  },
+
+  // Remove the content under every redaction mark for good, then check the result with pdf.js
+  applyRedactions: async () => {
+    const marks = useAnnotationStore.getState().annotations.filter((a) => a.type === 'redact' && !a.isDeleted)
+    const result: RedactionResult = { applied: 0, glyphs: 0, images: 0, paths: 0, annotations: 0, metadata: 0, leaks: [] }
+    if (!marks.length) return result
+    const pageNumbers = [...new Set(marks.map((mark) => mark.page))]
+
+    const textBefore = await get().readPageText(pageNumbers)
+    const rotations = new Map<number, number>()
+    const textUnder = (text: Map<number, PageTextItem[]>, mark: Annotation, rect: NormalizedRect) =>
+      textInUprightRect(text.get(mark.page) ?? [], rect, rotations.get(mark.page) ?? 0)
+
+    // Markup on a redacted area goes too: highlights and notes repeat the text under them
+    const areasByPage = new Map(pageNumbers.map((page) => [page, marks.filter((mark) => mark.page === page).flatMap(redactionRects)]))
+    const isCovered = (ann: Annotation) => ann.type !== 'redact'
+      && markupRects(ann).some((rect) => (areasByPage.get(ann.page) ?? []).some((area) => rectsOverlap(area, rect)))
+    const covered = useAnnotationStore.getState().annotations.filter(isCovered)
+    const coveredNatives = get().nativeAnnotations.filter((native: NativeAnnotation) => covered.some((ann) => ann.id === native.annotation.id))
+
+    const applied = new Set([...marks, ...covered].map((ann) => ann.id))
+    await withPdfDocument(get, set, `Applied ${marks.length} redaction${marks.length === 1 ? '' : 's'}`, async (doc) => {
+      const pages = doc.getPages()
+      for (const pageNumber of pageNumbers) {
+        const page = pages[pageNumber - 1]
+        if (!page) continue
+        rotations.set(pageNumber, page.getRotation().angle)
+        const areas = marks
+          .filter((mark) => mark.page === pageNumber)
+          .flatMap((mark) => {
+            const { r, g, b } = hexToRgb(mark.color ?? REDACTION.FILL_COLOR)
+            return redactionRects(mark).map((rect) => ({ ...viewRectToPdf(page, rect), color: { r, g, b } }))
+          })
+        const stats = await redactPage(doc, page, areas, { decodeImage: browserImageDecoder })
+        result.glyphs += stats.glyphs
+        result.images += stats.images
+        result.paths += stats.paths
+        result.annotations += stats.annotations
+      }
+      // Their copies in the file, with popups and replies that may lie outside the areas
+      removeNativeAnnotations(doc, nativeAnnotationRefs(coveredNatives))
+      result.annotations += covered.length - coveredNatives.length
+      // What the marks cover, to find document metadata repeating it
+      const redactedTexts = marks.flatMap((mark) => mark.selectedText
+        ? [mark.selectedText]
+        : redactionRects(mark).map((rect) => textUnder(textBefore, mark, rect)))
+      result.metadata = stripRedactedMetadata(doc, redactedTexts)
+      // Replaced streams would otherwise still be saved in the file
+      removeUnreachableObjects(doc)
+      return { updateAnnotations: (current: Annotation[]) => current.filter((ann) => !applied.has(ann.id)) }
+    })
+    result.applied = marks.length
+
+    const textAfter = await get().readPageText(pageNumbers)
+    for (const mark of marks) {
+      for (const rect of redactionRects(mark)) {
+        const text = textUnder(textAfter, mark, rect)
+        if (text) result.leaks.push({ page: mark.page, text })
+      }
+    }
+    for (const ann of useAnnotationStore.getState().annotations.filter(isCovered)) {
+      const text = annotationText(ann)
+      if (text) result.leaks.push({ page: ann.page, text })
+    }
+    return result
+  },
+
   addFlashRect: (pageIndex: number, rectPts: { x: number; y: number; width: number; height: number }, ttlMs?: number) => {
     const sizes = get().pageSizes
     if (!sizes || pageIndex < 0 || pageIndex >= sizes.length) return
@@ -487,26 +1414,46 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     set({ autoClearHighlightMs: safe, _highlightClearTimerId: undefined })
   },
 
-  findTextMatches: async ({ search, caseSensitive = false, wholeWord = true }: FindTextOptions) => {
+  // Positioned text runs for the given 1-based pages, in annotation coordinates
+  readPageText: async (pageNumbers: number[]) => {
     const bytes = get().pdfData
     if (!bytes) throw new Error('No PDF loaded')
-    const searchTerm = wholeWord ? search.trim() : search
-    if (!searchTerm) return []
+    const result = new Map<number, PageTextItem[]>()
+    const pdfReader = await (pdfjsLib as any).getDocument({ data: bytes.slice(), disableWorker: disablePdfJsWorker }).promise
+    try {
+      for (const pageNumber of new Set(pageNumbers)) {
+        if (pageNumber < 1 || pageNumber > pdfReader.numPages) continue
+        const pdfjsPage = await pdfReader.getPage(pageNumber)
+        const textContent = await pdfjsPage.getTextContent()
+        result.set(pageNumber, textItemsFromContent(textContent, pdfjsPage.getViewport({ scale: 1 })))
+      }
+    } finally {
+      await pdfReader.destroy()
+    }
+    return result
+  },
+
+  findTextMatches: async (options: FindTextOptions) => {
+    const { search, caseSensitive = false, wholeWord = true, regex = false, ignoreDiacritics = false, terms = [] } = options
+    const bytes = get().pdfData
+    if (!bytes) throw new Error('No PDF loaded')
+    const patterns = [{ search } as SearchTerm, ...terms]
+      .map((term) => ({ ...term, search: wholeWord ? term.search.trim() : term.search }))
+      .filter((term) => term.search)
+      .map((term) => ({ ...term, regex: buildSearchRegex(term.search, { caseSensitive, wholeWord, regex, ignoreDiacritics }) }))
+    if (!patterns.length) return []
+    const searchTerm = patterns.map((p) => p.search).join('", "')
 
     const results: TextMatch[] = []
     const readerData = bytes.slice()
     const pdfReader = await (pdfjsLib as any).getDocument({ data: readerData, disableWorker: disablePdfJsWorker }).promise
     try {
-      const escaped = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      const boundary = wholeWord ? '\\b' : ''
-      const flags = caseSensitive ? 'g' : 'gi'
-      const regex = new RegExp(`${boundary}${escaped}${boundary}`, flags)
-
       const sizes = get().pageSizes
 
       for (let pageIndex = 0; pageIndex < pdfReader.numPages; pageIndex++) {
         const pdfjsPage = await pdfReader.getPage(pageIndex + 1)
         const textContent = await pdfjsPage.getTextContent()
+        const viewport = pdfjsPage.getViewport({ scale: 1 })
         const pageSize = sizes?.[pageIndex]
         if (!pageSize) continue
 
@@ -609,16 +1556,19 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
 
         if (!pageText) continue
 
-        const globalMatches = Array.from(pageText.matchAll(regex))
-        if (!globalMatches.length) continue
+        const hits = patterns.flatMap((pattern, termIndex) =>
+          findInText(pageText, pattern.regex, ignoreDiacritics).map((hit) => ({ ...hit, pattern, termIndex }))
+        )
+        if (!hits.length) continue
+        // Reading order across all terms
+        hits.sort((a, b) => a.start - b.start || a.termIndex - b.termIndex)
 
         const findEntryAt = (pos: number) => entries.find((e) => pos >= e.start && pos < e.end)
 
-        for (const match of globalMatches as RegExpMatchArray[]) {
-          const globalStart = (match as RegExpMatchArray).index ?? 0
-          const length = (match as RegExpMatchArray)[0]?.length ?? 0
-          if (length <= 0) continue
-          const globalEnd = globalStart + length
+        for (const hit of hits) {
+          const globalStart = hit.start
+          const globalEnd = hit.end
+          const length = globalEnd - globalStart
 
           const startEntry = findEntryAt(globalStart)
           const endEntry = findEntryAt(globalEnd - 1)
@@ -650,12 +1600,17 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
           const fontSizePts = involved.reduce((acc, e) => Math.max(acc, e.fontSizePts), startEntry.fontSizePts)
 
           const multi = startEntry.itemIndex !== endEntry.itemIndex
+          const termSuffix = hit.termIndex ? `_t${hit.termIndex}` : ''
           const id = multi
-            ? `p${pageIndex}_i${startEntry.itemIndex}_j${endEntry.itemIndex}_s${startInItem}_e${endInItem}`
-            : `p${pageIndex}_i${startEntry.itemIndex}_s${startInItem}_l${length}`
+            ? `p${pageIndex}_i${startEntry.itemIndex}_j${endEntry.itemIndex}_s${startInItem}_e${endInItem}${termSuffix}`
+            : `p${pageIndex}_i${startEntry.itemIndex}_s${startInItem}_l${length}${termSuffix}`
 
           const snippetRaw = pageText.substring(Math.max(0, globalStart - 12), Math.min(pageText.length, globalEnd + 12))
           const snippet = snippetRaw.replace(/\s+/g, ' ').trim()
+          const context = {
+            before: pageText.substring(Math.max(0, globalStart - CONTEXT_LENGTH), globalStart).replace(/\s+/g, ' ').trimStart(),
+            after: pageText.substring(globalEnd, globalEnd + CONTEXT_LENGTH).replace(/\s+/g, ' ').trimEnd(),
+          }
 
           results.push({
             id,
@@ -669,7 +1624,12 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
               width: widthPts,
               height: fontSizePts,
             },
+            rectNorm: matchRectNorm({ x: xPts, y: yPts, width: widthPts, height: fontSizePts }, viewport),
             snippet,
+            text: hit.text,
+            context,
+            term: hit.pattern.search,
+            color: hit.pattern.color,
             fontName: startEntry.fontName,
             transform: startEntry.transform ? [...startEntry.transform] : undefined,
             originalFontSize: fontSizePts,
@@ -682,11 +1642,61 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     }
     debugLog('find', `found ${results.length} total matches for "${searchTerm}"`)
     // Cache for downstream replaceMatch/replaceText
-    try { set({ lastFindResults: results, lastFindOptions: { search, caseSensitive, wholeWord } }) } catch { }
+    try { set({ lastFindResults: results, lastFindOptions: { search, caseSensitive, wholeWord, regex, ignoreDiacritics, terms } }) } catch { }
     return results
   },
 
-  replaceText: async ({ search, replace, caseSensitive = false, wholeWord = true }: ReplaceTextOptions) => {
+  findSensitiveData: async ({ detectors = PII_DETECTORS.map((d) => d.id), custom = [] }: FindSensitiveDataOptions = {}) => {
+    const kinds: Array<{ detector: SensitiveMatch['detector']; label: string; pattern: string; validate?: (text: string) => boolean }> = [
+      ...PII_DETECTORS.filter((d) => detectors.includes(d.id)).map((d) => ({ ...d, detector: d.id })),
+      ...custom
+        .filter((c) => c.pattern.trim())
+        .map((c) => ({ detector: 'custom' as const, label: c.label.trim() || c.pattern, pattern: c.pattern })),
+    ]
+    if (!kinds.length) return []
+    for (const kind of kinds) {
+      try {
+        buildSearchRegex(kind.pattern, { regex: true })
+      } catch (error) {
+        throw new Error(`${kind.label}: ${(error as Error).message}`)
+      }
+    }
+
+    // The scan is not a find: replace and highlight-all keep working on the last search
+    const { lastFindResults, lastFindOptions } = get()
+    let matches: TextMatch[]
+    try {
+      matches = await get().findTextMatches({
+        search: kinds[0].pattern,
+        terms: kinds.slice(1).map((kind) => ({ search: kind.pattern })),
+        regex: true,
+        wholeWord: false,
+      })
+    } finally {
+      set({ lastFindResults, lastFindOptions })
+    }
+
+    const kindOf = new Map<string, number>()
+    kinds.forEach((kind, index) => { if (!kindOf.has(kind.pattern)) kindOf.set(kind.pattern, index) })
+    const hits = matches
+      .map((match, order) => ({ match, order, kind: kindOf.get(match.term ?? '') ?? 0 }))
+      .filter(({ match, kind }) => kinds[kind].validate?.(match.text ?? '') ?? true)
+    // Where hits overlap (a date inside a phone-like run of digits), the earlier detector wins
+    const overlaps = (a: TextMatch, b: TextMatch) =>
+      a.pageIndex === b.pageIndex &&
+      Math.abs(a.rect.y - b.rect.y) < Math.max(a.rect.height, b.rect.height) / 2 &&
+      a.rect.x < b.rect.x + b.rect.width &&
+      b.rect.x < a.rect.x + a.rect.width
+    const kept: typeof hits = []
+    for (const hit of [...hits].sort((a, b) => a.kind - b.kind || a.order - b.order)) {
+      if (!kept.some((other) => overlaps(other.match, hit.match))) kept.push(hit)
+    }
+    return kept
+      .sort((a, b) => a.order - b.order)
+      .map(({ match, kind }) => ({ ...match, detector: kinds[kind].detector, label: kinds[kind].label }))
+  },
+
+  replaceText: async ({ search, replace, caseSensitive = false, wholeWord = true, regex = false, ignoreDiacritics = false }: ReplaceTextOptions) => {
     const bytes = get().pdfData
     if (!bytes) {
       throw new Error('No PDF loaded')
@@ -699,7 +1709,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     let replacements = 0
     let skipped = 0
     const replacementText = replace ?? ''
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, () => `Replaced ${replacements} × "${searchTerm}"`, async (doc) => {
       const font = await doc.embedFont(StandardFonts.Helvetica)
       const readerData = get().pdfData?.slice()
       const pdfReader = readerData ? await (pdfjsLib as any).getDocument({ data: readerData, disableWorker: disablePdfJsWorker }).promise : null
@@ -714,7 +1724,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
         return items
       }
       // Use the same finder used by UI so coordinates match exactly
-      const matches = await (get().findTextMatches as any)({ search, caseSensitive, wholeWord })
+      const matches = await (get().findTextMatches as any)({ search, caseSensitive, wholeWord, regex, ignoreDiacritics })
       const pages = new Map<number, ReturnType<PDFDocument['getPage']>>()
       const getPage = (idx: number) => {
         if (pages.has(idx)) return pages.get(idx)!
@@ -841,7 +1851,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     const cached = (get().lastFindResults || []).find((m: any) => m.id === matchId)
     if (cached) {
       let replaced = false
-      await withPdfDocument(get, set, async (doc) => {
+      await withPdfDocument(get, set, `Replaced match on page ${cached.pageIndex + 1}`, async (doc) => {
         const page = doc.getPage(cached.pageIndex)
         if (!page) return
         const font = await doc.embedFont(StandardFonts.Helvetica)
@@ -955,7 +1965,7 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     const targetLength = Number(parsed[4])
 
     let replaced = false
-    await withPdfDocument(get, set, async (doc) => {
+    await withPdfDocument(get, set, `Replaced match on page ${pageIndex + 1}`, async (doc) => {
       const bytes = get().pdfData
       if (!bytes) throw new Error('No PDF loaded')
       const readerData = bytes.slice()
@@ -1054,186 +2064,210 @@ export const usePdfEditorStore = create<PdfEditorState>((set: any, get: any) =>
     return { replaced, reason }
   },
 
-  flattenAnnotations: async (annotations: Annotation[]) => {
+  flattenAnnotations: async (all: Annotation[]) => {
+    // Designed form fields become fields on export, not page content
+    const annotations = all.filter((ann) => !isFormFieldDesign(ann))
     if (!annotations.length) return
-    await withPdfDocument(get, set, async (doc) => {
-      const pages = doc.getPages()
-      const font = await doc.embedFont(StandardFonts.Helvetica)
+    // Flattened annotations leave the editable layer in the same step
+    const flattened = new Set(annotations.map((ann) => ann.id))
+    // Their originals in the file would otherwise show again under the drawing
+    const originals = get().nativeAnnotations.filter((native: NativeAnnotation) => flattened.has(native.annotation.id))
+    await withPdfDocument(get, set, `Flattened ${annotations.length} annotation${annotations.length === 1 ? '' : 's'}`, async (doc) => {
+      removeNativeAnnotations(doc, nativeAnnotationRefs(originals))
+      await drawAnnotations(doc, annotations)
+      return { updateAnnotations: (current: Annotation[]) => current.filter((ann) => !flattened.has(ann.id)) }
+    })
+  },
 
-      const colorCache = new Map<string, ReturnType<typeof hexToRgb>>()
-      const resolveColor = (value: string | undefined) => {
-        if (!value) return hexToRgb('#ff4545')
-        if (!colorCache.has(value)) {
-          colorCache.set(value, hexToRgb(value))
-        }
-        return colorCache.get(value) as ReturnType<typeof hexToRgb>
-      }
+  setFormValue: (name: string, value: FormValue) => {
+    get().applyFormValues({ [name]: value }, `Filled ${name}`)
+  },
 
-      for (const ann of annotations) {
-        const page = pages[ann.page - 1]
-        if (!page) continue
-        const { width: pageWidth, height: pageHeight } = page.getSize()
-
-        const color = resolveColor(ann.color)
-        const opacity = ann.opacity ?? color.opacity ?? 1
-
-        const startX = (ann.startX ?? 0) * pageWidth
-        const startYTop = (ann.startY ?? 0) * pageHeight
-        const endX = (ann.endX ?? ann.startX ?? 0) * pageWidth
-        const endYTop = (ann.endY ?? ann.startY ?? 0) * pageHeight
-        const left = Math.min(startX, endX)
-        const top = Math.min(startYTop, endYTop)
-        const rectWidth = Math.max(Math.abs(endX - startX), 2)
-        const rectHeight = Math.max(Math.abs(endYTop - startYTop), 2)
-        const rect = toPdfRect(pageWidth, pageHeight, { left, top, width: rectWidth, height: rectHeight })
-
-        switch (ann.type) {
-          case 'highlight': {
-            page.drawRectangle({
-              ...rect,
-              color: rgb(color.r, color.g, color.b),
-              opacity: opacity * 0.6,
-              borderOpacity: 0,
-            })
-            break
-          }
-          case 'rectangle': {
-            const fill = ann.fillColor ? resolveColor(ann.fillColor) : null
-            page.drawRectangle({
-              ...rect,
-              borderColor: rgb(color.r, color.g, color.b),
-              borderWidth: Math.max(1, (ann.strokeWidth ?? 2) * 0.75),
-              opacity,
-              color: fill ? rgb(fill.r, fill.g, fill.b) : undefined,
-              borderOpacity: opacity,
-            })
-            break
-          }
-          case 'pen': {
-            if (!ann.points || ann.points.length < 2) break
-            const thickness = Math.max(1, (ann.strokeWidth ?? 2) * 0.75)
-            for (let i = 0; i < ann.points.length - 1; i++) {
-              const [p1xNorm, p1yNorm] = ann.points[i]
-              const [p2xNorm, p2yNorm] = ann.points[i + 1]
-              const p1x = p1xNorm * pageWidth
-              const p1y = pageHeight - p1yNorm * pageHeight
-              const p2x = p2xNorm * pageWidth
-              const p2y = pageHeight - p2yNorm * pageHeight
-              page.drawLine({
-                start: { x: p1x, y: p1y },
-                end: { x: p2x, y: p2y },
-                color: rgb(color.r, color.g, color.b),
-                thickness,
-                opacity,
-              })
-            }
-            break
-          }
-          case 'text-box': {
-            if (!ann.text) break
-            const fontSize = ann.fontSize ?? 16
-            const baselineY = pageHeight - startYTop
-            page.drawText(ann.text, {
-              x: startX,
-              y: baselineY,
-              size: fontSize,
-              font,
-              color: rgb(color.r, color.g, color.b),
-              opacity,
-            })
-            break
-          }
-          case 'sticky-note': {
-            const stickyWidth = (ann.width ?? 0.25) * pageWidth
-            const stickyHeight = (ann.height ?? 0.25) * pageHeight
-            const stickyRect = toPdfRect(pageWidth, pageHeight, {
-              left: startX,
-              top: startYTop,
-              width: stickyWidth,
-              height: stickyHeight,
-            })
-            page.drawRectangle({
-              ...stickyRect,
-              color: rgb(color.r, color.g, color.b),
-              opacity: 0.85,
-            })
-            if (ann.text) {
-              const textMargin = 12
-              const textWidth = stickyWidth - textMargin * 2
-              const fontSize = Math.max(10, (ann.fontSize ?? 12))
-              const lines = ann.text.split(/\r?\n/)
-              let cursorY = stickyRect.y + stickyRect.height - textMargin - fontSize
-              lines.forEach((line) => {
-                if (cursorY < stickyRect.y + textMargin) return
-                const truncated = line.length > 0 ? line : ' '
-                page.drawText(truncated, {
-                  x: stickyRect.x + textMargin,
-                  y: cursorY,
-                  maxWidth: textWidth,
-                  size: fontSize,
-                  font,
-                  color: rgb(0, 0, 0),
-                })
-                cursorY -= fontSize * 1.35
-              })
-            }
-            break
-          }
-          case 'stamp': {
-            const fontSize = Math.max(20, (ann.fontSize ?? 24))
-            const baselineY = pageHeight - startYTop
-            page.drawRectangle({
-              ...rect,
-              borderColor: rgb(color.r, color.g, color.b),
-              borderWidth: Math.max(2, (ann.strokeWidth ?? 3) * 0.8),
-              opacity,
-            })
-            if (ann.text) {
-              page.drawText(ann.text.toUpperCase(), {
-                x: rect.x + 12,
-                y: baselineY,
-                size: fontSize,
-                font,
-                color: rgb(color.r, color.g, color.b),
-                opacity,
-              })
-            }
-            break
-          }
-          case 'signature': {
-            if (!ann.imageDataUrl) break
-            const decoded = decodeDataUrl(ann.imageDataUrl)
-            if (!decoded) break
-            const mime = (ann.imageMime || decoded.mime || '').toLowerCase()
-            const isPng = mime.includes('png') || decoded.mime.toLowerCase().includes('png')
-            try {
-              const embedded = isPng ? await doc.embedPng(decoded.bytes) : await doc.embedJpg(decoded.bytes)
-              const scale = Math.min(rect.width / embedded.width, rect.height / embedded.height)
-              const w = embedded.width * scale
-              const h = embedded.height * scale
-              const x = rect.x + (rect.width - w) / 2
-              const y = rect.y + (rect.height - h) / 2
-              page.drawImage(embedded, { x, y, width: w, height: h, opacity })
-            } catch {
-              break
-            }
-            break
-          }
-          default: {
-            break
-          }
+  applyFormValues: (values: Record<string, FormValue>, label: string) => {
+    const before = get().formValues
+    const changed = Object.entries(values).filter(([name, value]) => {
+      const field = get().formFields.find((f: FormField) => f.name === name)
+      const current = name in before ? before[name] : field?.value
+      return current === undefined || !sameFormValue(current, value)
+    })
+    if (!changed.length) return 0
+    const after = { ...before, ...Object.fromEntries(changed) }
+    const apply = (formValues: Record<string, FormValue>) =>
+      set({ formValues, dirty: get().pdfData !== cleanPdfData || Object.keys(formValues).length > 0 })
+    apply(after)
+    useHistoryStore.getState().record({
+      label,
+      source: 'document',
+      undo: () => apply(before),
+      redo: () => apply(after),
+    })
+    return changed.length
+  },
+
+  exportPdf: async (options?: ExportPdfOptions) => {
+    let bytes = get().pdfData
+    if (!bytes) {
+      throw new Error('No PDF loaded')
+    }
+    let sign = options?.sign
+    const formValues = get().formValues
+    const fillForm = Object.keys(formValues).length > 0 || !!options?.flattenForm
+    // Fields drawn in the form designer always become real form fields
+    const designed = useAnnotationStore.getState().annotations.filter(isFormFieldDesign)
+    const natives = planNativeAnnotations(get().nativeAnnotations, options?.annotations, options?.flatten)
+    let annotations = (options?.annotations ?? []).filter((ann) => ann.id !== sign?.appearance?.id && !natives.kept.has(ann.id))
+    if (annotations.length || natives.remove.length || options?.pageIndices || fillForm || designed.length) {
+      const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
+      // A full save would break the signatures of the file as opened
+      const appendChanges = bytes === get().signedPdfData && !options?.pageIndices ? trackChanges(doc, bytes) : undefined
+      removeNativeAnnotations(doc, natives.remove)
+      // Write, fill and flatten the form before extracting, so copied pages carry it
+      if (designed.length) writeFormDesign(doc, designed)
+      if (fillForm) fillFormFields(doc, formValues, { flatten: options?.flattenForm })
+      let target = doc
+      if (options?.pageIndices) {
+        const indices = normalizePageIndices(options.pageIndices, doc.getPageCount())
+        if (!indices.length) {
+          throw new Error('No pages selected for export')
+        }
+        target = await PDFDocument.create()
+        const copied = await target.copyPages(doc, indices)
+        copied.forEach((page) => target.addPage(page))
+        addCopiedFields(target, copied)
+        // Renumber annotations to their page's position in the extract
+        const positions = new Map(indices.map((source, i) => [source + 1, i + 1]))
+        annotations = annotations
+          .filter((ann) => positions.has(ann.page))
+          .map((ann) => ({ ...ann, page: positions.get(ann.page)! }))
+        if (sign?.appearance) {
+          const page = positions.get(sign.appearance.page)
+          sign = { ...sign, appearance: page ? { ...sign.appearance, page } : undefined }
         }
       }
-    })
+      if (annotations.length) {
+        if (options?.flatten) await drawAnnotations(target, annotations)
+        else await writeNativeAnnotations(target, annotations)
+      }
+      bytes = appendChanges ? await appendChanges() : new Uint8Array(await target.save())
+    }
+    if (sign) {
+      const { identity, ...signOptions } = sign
+      bytes = await signPdf(bytes, identity, signOptions)
+    }
+    return pdfBlob(bytes)
   },
 
-  exportPdf: async () => {
+  splitDocument: async ({ mode, pageIndices, pagesPerPart, annotations, flatten }: SplitOptions) => {
     const bytes = get().pdfData
     if (!bytes) {
       throw new Error('No PDF loaded')
     }
-    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
-    return new Blob([buffer], { type: 'application/pdf' })
+    const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
+    const count = doc.getPageCount()
+
+    let groups: PageGroup[]
+    switch (mode) {
+      case 'range': {
+        const indices = normalizePageIndices(pageIndices ?? [], count)
+        if (!indices.length) throw new Error('No pages selected')
+        groups = [{ pageIndices: indices }]
+        break
+      }
+      case 'every': {
+        if (!pagesPerPart || pagesPerPart < 1) throw new Error('Pages per part must be at least 1')
+        groups = chunkPages(count, pagesPerPart)
+        break
+      }
+      case 'bookmarks': {
+        const bookmarks = readTopLevelBookmarks(doc)
+        if (!bookmarks.length) throw new Error('This document has no bookmarks')
+        groups = splitAtStarts(count, bookmarks)
+        break
+      }
+      case 'blank-pages': {
+        const blanks = doc.getPages().flatMap((page, index) => (isBlankPage(page) ? [index] : []))
+        if (!blanks.length) throw new Error('No blank pages found')
+        groups = splitAtSeparators(count, blanks)
+        if (!groups.length) throw new Error('Every page is blank')
+        break
+      }
+    }
+
+    const baseName = (get().fileName || 'document').replace(/\.pdf$/i, '')
+    const width = String(groups.length).length
+    const parts: SplitPart[] = []
+    for (const [i, group] of groups.entries()) {
+      const label = mode === 'range'
+        ? `pages-${formatPageRanges(group.pageIndices)}`
+        : [`part-${String(i + 1).padStart(width, '0')}`, slugify(group.title)].filter(Boolean).join('-')
+      const blob = await get().exportPdf({ pageIndices: group.pageIndices, annotations, flatten })
+      parts.push({ fileName: `${baseName}-${label}.pdf`, pageIndices: group.pageIndices, blob })
+    }
+    return parts
+  },
+
+  generateFilledPdfs: async ({ records, names, flatten, combine, onProgress }: FilledPdfOptions) => {
+    // Copies start from the pages as edited, which designed fields are placed on;
+    // values typed into the viewer stay out of them
+    const template = get().pdfData
+    if (!template) {
+      throw new Error('No PDF loaded')
+    }
+    if (!records.length) {
+      throw new Error('No records to fill')
+    }
+    const designed = useAnnotationStore.getState().annotations.filter(isFormFieldDesign)
+    // Copies keep the file's markup, except what the user deleted
+    const { remove } = planNativeAnnotations(get().nativeAnnotations)
+    const baseName = (get().fileName || 'document').replace(/\.pdf$/i, '')
+    const width = String(records.length).length
+    const combined = combine ? await PDFDocument.create() : null
+    const filled: FilledPdf[] = []
+    const usedNames = new Set<string>()
+
+    for (const [i, values] of records.entries()) {
+      const doc = await PDFDocument.load(template, { updateMetadata: false, ignoreEncryption: true })
+      removeNativeAnnotations(doc, remove)
+      if (designed.length) writeFormDesign(doc, designed)
+      fillFormFields(doc, values, { flatten })
+      if (combined) {
+        // Saving first draws the filled appearances the copied pages carry
+        const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false })
+        await appendFormCopy(combined, saved, flatten ? undefined : `_${i + 1}`)
+      } else {
+        const number = String(i + 1).padStart(width, '0')
+        let label = slugify(names?.[i]) || number
+        if (usedNames.has(label)) label = `${label}-${number}`
+        usedNames.add(label)
+        filled.push({ fileName: `${baseName}-${label}.pdf`, blob: pdfBlob(await doc.save()) })
+      }
+      onProgress?.(i + 1, records.length)
+    }
+
+    if (combined) {
+      return [{ fileName: `${baseName}-filled.pdf`, blob: pdfBlob(await combined.save()) }]
+    }
+    return filled
+  },
+
+  importTrustAnchors: async (bytes: Uint8Array) => {
+    const current = get().trustAnchors
+    const added = readCertificates(bytes).filter((certificate, index, all) =>
+      !current.some((anchor: Certificate) => sameBytes(anchor.der, certificate.der))
+      && all.findIndex((other) => sameBytes(other.der, certificate.der)) === index)
+    if (!added.length) return 0
+    const trustAnchors = [...current, ...added]
+    saveTrustAnchors(trustAnchors)
+    const signed = get().signedPdfData
+    set({ trustAnchors, signatures: signed ? await safeSignatures(signed, trustAnchors) : [] })
+    return added.length
+  },
+
+  removeTrustAnchor: async (index: number) => {
+    const trustAnchors = get().trustAnchors.filter((_: Certificate, i: number) => i !== index)
+    saveTrustAnchors(trustAnchors)
+    const signed = get().signedPdfData
+    set({ trustAnchors, signatures: signed ? await safeSignatures(signed, trustAnchors) : [] })
   },
 
   clearError: () => set({ error: undefined }),
@@ -35,6 +35,8 @@ export interface UIPreferences {
   reducedMotion: boolean;
   highContrast: boolean;
   compactMode: boolean;
+  // Name recorded as the author of review replies and status changes
+  reviewerName: string;
 }
 
 // ============================================
@@ -182,6 +184,7 @@ export const useUIStore = create<UIStore>()(
         reducedMotion: false,
         highContrast: false,
         compactMode: false,
+        reviewerName: '',
       },
 
       updatePreferences: (updates) => {
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { Annotation } from '../types/annotations'
+import { facetValues, groupByPage, queryAnnotations, authorOf } from '../utils/annotationQuery'
+
+const make = (id: string, page: number, startY: number, extra: Partial<Annotation> = {}): Annotation => ({
+    id,
+    type: 'highlight',
+    page,
+    startX: 0.1,
+    startY,
+    createdAt: `2024-05-0${id.length}T10:00:00.000Z`,
+    ...extra,
+})
+
+const annotations = [
+    make('c', 3, 0.5, { createdAt: '2024-05-03T12:00:00.000Z', type: 'sticky-note', text: 'Typo in heading', author: 'Ana', color: '#FF0000' }),
+    make('a', 1, 0.8, { color: '#ff0000', status: 'resolved' }),
+    make('bb', 1, 0.2, { author: 'Ben', replies: [{ id: 'r1', text: 'Please cite the source', createdAt: '2024-05-03T10:00:00.000Z' }] }),
+    make('dddd', 2, 0.1, { type: 'rectangle', author: 'Ana', color: '#00ff00' }),
+]
+
+const ids = (list: Annotation[]) => list.map((a) => a.id)
+
+describe('annotation navigator queries', () => {
+    it('sorts by reading order or newest first and groups by page', () => {
+        const byPage = queryAnnotations(annotations, { sort: 'page' })
+        expect(ids(byPage)).toEqual(['bb', 'a', 'dddd', 'c'])
+        expect(groupByPage(byPage).map((g) => [g.page, ids(g.annotations)])).toEqual([[1, ['bb', 'a']], [2, ['dddd']], [3, ['c']]])
+
+        const newest = queryAnnotations(annotations, { sort: 'createdAt' })
+        expect(ids(newest)).toEqual(['dddd', 'c', 'bb', 'a'])
+        expect(groupByPage(newest).map((g) => g.page)).toEqual([2, 3, 1])
+    })
+
+    it('searches text, replies and authors', () => {
+        expect(ids(queryAnnotations(annotations, { search: 'typo' }))).toEqual(['c'])
+        expect(ids(queryAnnotations(annotations, { search: 'cite source' }))).toEqual(['bb'])
+        expect(ids(queryAnnotations(annotations, { search: 'ana' }))).toEqual(['dddd', 'c'])
+        expect(queryAnnotations(annotations, { search: 'cite typo' })).toEqual([])
+    })
+
+    it('filters by type, author, color and status', () => {
+        expect(ids(queryAnnotations(annotations, { types: ['highlight'] }))).toEqual(['bb', 'a'])
+        expect(ids(queryAnnotations(annotations, { authors: ['Ana', ''] }))).toEqual(['a', 'dddd', 'c'])
+        expect(ids(queryAnnotations(annotations, { colors: ['#ff0000'] }))).toEqual(['a', 'c'])
+        expect(ids(queryAnnotations(annotations, { statuses: ['open'], authors: ['Ana'] }))).toEqual(['dddd', 'c'])
+        expect(facetValues(annotations, authorOf)).toEqual([
+            { value: 'Ana', count: 2 },
+            { value: '', count: 1 },
+            { value: 'Ben', count: 1 },
+        ])
+    })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { parseAnnotationsJson, validateAnnotation, ANNOTATIONS_SCHEMA_VERSION } from '../utils/annotationSchema'
+import { useAnnotationStore } from '../store/annotationStore'
+
+const validAnnotation = {
+    id: 'a1',
+    type: 'rectangle',
+    page: 2,
+    createdAt: '2024-05-01T10:00:00.000Z',
+    startX: 0.1,
+    startY: 0.2,
+    endX: 0.3,
+    endY: 0.4,
+    color: '#ff0000',
+}
+
+describe('annotation JSON schema', () => {
+    it('accepts the current export format', () => {
+        useAnnotationStore.setState({ pdfId: 'hash-1', annotations: [validAnnotation as any] })
+        const result = parseAnnotationsJson(useAnnotationStore.getState().exportAsJSON())
+        useAnnotationStore.setState({ pdfId: undefined, annotations: [] })
+
+        expect(result.success).toBe(true)
+        if (!result.success) return
+        expect(result.data.version).toBe(ANNOTATIONS_SCHEMA_VERSION)
+        expect(result.data.pdfId).toBe('hash-1')
+        expect(result.data.annotations).toEqual([validAnnotation])
+    })
+
+    it('migrates 1.0 exports and bare arrays', () => {
+        const legacy = JSON.stringify({
+            version: '1.0',
+            pdfId: 'current-pdf',
+            exportDate: '2024-01-01T00:00:00.000Z',
+            annotations: [{ ...validAnnotation, createdAt: Date.UTC(2024, 0, 2) }],
+        })
+        const migrated = parseAnnotationsJson(legacy)
+        expect(migrated.success).toBe(true)
+        if (!migrated.success) return
+        expect(migrated.data.pdfId).toBeNull()
+        expect(migrated.data.annotations[0].createdAt).toBe('2024-01-02T00:00:00.000Z')
+
+        const bare = parseAnnotationsJson(JSON.stringify([validAnnotation]))
+        expect(bare.success && bare.data.annotations).toHaveLength(1)
+    })
+
+    it('reports per-field errors', () => {
+        const result = parseAnnotationsJson(JSON.stringify({
+            schema: 'pdfoid.annotations',
+            version: '2.0',
+            pdfId: null,
+            exportDate: '2024-01-01T00:00:00.000Z',
+            annotations: [
+                { ...validAnnotation, type: 'circle', startX: 'left' },
+                { ...validAnnotation, id: '', opacity: 3 },
+                validAnnotation,
+                validAnnotation,
+            ],
+        }))
+
+        expect(result.success).toBe(false)
+        if (result.success) return
+        expect(result.error.issues.map((i) => i.path)).toEqual([
+            'annotations[0].type',
+            'annotations[0].startX',
+            'annotations[1].id',
+            'annotations[1].opacity',
+            'annotations[3].id',
+        ])
+        expect(result.error.issues[3].message).toMatch(/between 0 and 1/)
+    })
+
+    it('rejects invalid JSON and unknown versions', () => {
+        const broken = parseAnnotationsJson('{ not json')
+        expect(broken.success).toBe(false)
+
+        const future = parseAnnotationsJson(JSON.stringify({ version: '9.0', annotations: [] }))
+        expect(future.success).toBe(false)
+        if (future.success) return
+        expect(future.error.issues[0]).toMatchObject({ path: 'version' })
+    })
+
+    it('drops unknown fields from valid annotations', () => {
+        const result = validateAnnotation({ ...validAnnotation, onclick: 'alert(1)' })
+        expect(result.success && 'onclick' in result.data).toBe(false)
+    })
+
+    it('round-trips replies and review status', () => {
+        const reviewed = {
+            ...validAnnotation,
+            status: 'accepted',
+            resolvedBy: 'Sam',
+            resolvedAt: '2024-05-02T09:00:00.000Z',
+            replies: [
+                { id: 'r1', text: 'Looks good', createdAt: '2024-05-01T11:00:00.000Z', author: 'Sam' },
+                { id: 'r2', text: 'Fixed', createdAt: '2024-05-01T12:00:00.000Z', updatedAt: '2024-05-01T12:05:00.000Z' },
+            ],
+        }
+        useAnnotationStore.setState({ pdfId: 'hash-1', annotations: [reviewed as any] })
+        const result = parseAnnotationsJson(useAnnotationStore.getState().exportAsJSON())
+        useAnnotationStore.setState({ pdfId: undefined, annotations: [] })
+
+        expect(result.success && result.data.annotations).toEqual([reviewed])
+    })
+
+    it('rejects malformed replies and marks resolved 2.0 annotations', () => {
+        const bad = validateAnnotation({ ...validAnnotation, status: 'done', replies: [{ id: 'r1', text: '' }] })
+        expect(bad.success).toBe(false)
+        if (bad.success) return
+        expect(bad.error.map((i) => i.path)).toEqual(['annotation.replies', 'annotation.status'])
+        expect(bad.error[0].message).toMatch(/reply 0/)
+
+        const stripped = validateAnnotation({
+            ...validAnnotation,
+            replies: [{ id: 'r1', text: 'Hi', createdAt: '2024-05-01T11:00:00.000Z', extra: true }],
+        })
+        expect(stripped.success && stripped.data.replies).toEqual([{ id: 'r1', text: 'Hi', createdAt: '2024-05-01T11:00:00.000Z' }])
+
+        const legacy = parseAnnotationsJson(JSON.stringify({
+            schema: 'pdfoid.annotations',
+            version: '2.0',
+            pdfId: null,
+            exportDate: '2024-01-01T00:00:00.000Z',
+            annotations: [validAnnotation, { ...validAnnotation, id: 'a2', resolvedAt: '2024-05-02T09:00:00.000Z' }],
+        }))
+        expect(legacy.success && legacy.data.annotations.map((a) => a.status)).toEqual([undefined, 'resolved'])
+    })
+})
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useAnnotationStore } from '../store/annotationStore'
 import { Annotation } from '../types/annotations'
+import { computeDocumentId } from '../utils/documentId'
+import { useHistoryStore } from '../store/historyStore'
 
 describe('annotationStore', () => {
     beforeEach(() => {
@@ -35,6 +37,11 @@ describe('annotationStore', () => {
         useAnnotationStore.getState().addAnnotation(rect)
         useAnnotationStore.getState().deleteAnnotation('1')
         expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+
+        // Nothing to delete: no undo step
+        const entries = useHistoryStore.getState().entries.length
+        useAnnotationStore.getState().deleteAnnotation('1')
+        expect(useHistoryStore.getState().entries).toHaveLength(entries)
     })
 
     it('selects annotation', () => {
@@ -64,4 +71,55 @@ describe('annotationStore', () => {
         useAnnotationStore.getState().updateAnnotation('1', { color: '#00ff00' })
         expect(useAnnotationStore.getState().annotations[0].color).toBe('#00ff00')
     })
+
+    it('exports the current document id', () => {
+        useAnnotationStore.setState({ pdfId: 'abc123' })
+        const exported = JSON.parse(useAnnotationStore.getState().exportAsJSON())
+        expect(exported.pdfId).toBe('abc123')
+        useAnnotationStore.setState({ pdfId: undefined })
+    })
+
+    it('derives a stable SHA-256 document id', async () => {
+        const bytes = new TextEncoder().encode('abc')
+        const id = await computeDocumentId(bytes)
+        expect(id).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+        expect(await computeDocumentId(bytes.slice())).toBe(id)
+    })
+
+    it('threads replies and review status as undoable edits', () => {
+        const note: Annotation = {
+            id: 'n1',
+            type: 'sticky-note',
+            page: 2,
+            startX: 0.1,
+            startY: 0.1,
+            text: 'Check this figure',
+            createdAt: new Date().toISOString(),
+        }
+        const store = useAnnotationStore.getState()
+        store.addAnnotation(note)
+        store.addReply('n1', '  Agreed  ', 'Sam')
+        store.addReply('n1', '   ')
+        const [reply] = useAnnotationStore.getState().annotations[0].replies!
+        expect(reply).toMatchObject({ text: 'Agreed', author: 'Sam' })
+
+        store.updateReply('n1', reply.id, 'Agreed, fixed')
+        expect(useAnnotationStore.getState().annotations[0].replies![0]).toMatchObject({ text: 'Agreed, fixed', updatedAt: expect.any(String) })
+
+        store.setReviewStatus('n1', 'resolved', 'Sam')
+        expect(useAnnotationStore.getState().annotations[0]).toMatchObject({ status: 'resolved', resolvedBy: 'Sam' })
+        expect(useHistoryStore.getState().entries.slice(-1)[0]?.label).toBe('Resolved sticky note on page 2')
+
+        store.setReviewStatus('n1', 'open')
+        const reopened = useAnnotationStore.getState().annotations[0]
+        expect(reopened.status).toBe('open')
+        expect(reopened.resolvedAt).toBeUndefined()
+
+        store.undo()
+        expect(useAnnotationStore.getState().annotations[0].status).toBe('resolved')
+        store.deleteReply('n1', reply.id)
+        expect(useAnnotationStore.getState().annotations[0].replies).toEqual([])
+        store.undo()
+        expect(useAnnotationStore.getState().annotations[0].replies).toHaveLength(1)
+    })
 })
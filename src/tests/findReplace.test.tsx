@@ -3,6 +3,8 @@ import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
 import { vi, describe, it, expect, beforeEach } from 'vitest'
 import { DocumentActionsPanel } from '../components/DocumentActionsPanel'
 import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
 import {
     mockDrawRectangle,
     mockDrawText,
@@ -21,7 +23,7 @@ vi.mock('pdfjs-dist/legacy/build/pdf.js', async () => {
                 numPages: 2,
                 getPage: (i: number) => Promise.resolve({
                     getTextContent: () => mockGetTextContent(i),
-                    getViewport: () => ({ width: 600, height: 800 }),
+                    getViewport: () => ({ width: 600, height: 800, convertToViewportPoint: (x: number, y: number) => [x, 800 - y] }),
                     cleanup: vi.fn()
                 }),
                 destroy: vi.fn(),
@@ -162,6 +164,79 @@ describe('DocumentActionsPanel: Vigorous Find & Replace', () => {
         expect(onForcePageChange).toHaveBeenCalledWith(1)
     })
 
+    it('Highlights every result as one undoable batch tagged with the term', async () => {
+        useAnnotationStore.setState({ annotations: [] })
+        useHistoryStore.getState().clear()
+        render(<DocumentActionsPanel currentPage={1} onForcePageChange={onForcePageChange} />)
+
+        fireEvent.change(screen.getByLabelText('Find'), { target: { value: 'World' } })
+        await act(async () => { fireEvent.click(screen.getByRole('button', { name: /execute search/i })) })
+        expect(await screen.findByText(/1 \/ 2/)).toBeInTheDocument()
+
+        fireEvent.change(screen.getByLabelText(/highlight color/i), { target: { value: '#00ff00' } })
+        fireEvent.click(screen.getByRole('button', { name: /highlight all results/i }))
+        expect(await screen.findByText('Highlighted 2 matches.')).toBeInTheDocument()
+
+        const highlights = useAnnotationStore.getState().annotations
+        expect(highlights.map((a) => [a.type, a.page, a.color, a.selectedText, a.tags])).toEqual([
+            ['highlight', 1, '#00ff00', 'World', ['World']],
+            ['highlight', 2, '#00ff00', 'World', ['World']],
+        ])
+        expect(highlights[0].quads).toHaveLength(1)
+        expect(highlights[0].startX).toBeGreaterThan(0)
+        expect(useHistoryStore.getState().entries.slice(-1)[0].label).toBe('Highlighted 2 matches for "World"')
+
+        // Repeating the action does not stack duplicates
+        fireEvent.click(screen.getByRole('button', { name: /highlight all results/i }))
+        expect(await screen.findByText('Highlighted 0 matches (2 already highlighted).')).toBeInTheDocument()
+
+        act(() => useHistoryStore.getState().undo())
+        expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+    })
+
+    it('Searches several terms at once and lists results by page', async () => {
+        render(<DocumentActionsPanel currentPage={1} onForcePageChange={onForcePageChange} />)
+
+        fireEvent.change(screen.getByLabelText('Find'), { target: { value: 'Hello' } })
+        fireEvent.click(screen.getByRole('button', { name: /add term/i }))
+        fireEvent.change(screen.getByLabelText('Search term 2'), { target: { value: 'Another' } })
+        fireEvent.change(screen.getByLabelText('Color for term 2'), { target: { value: '#0000ff' } })
+        await act(async () => { fireEvent.click(screen.getByRole('button', { name: /execute search/i })) })
+        expect(await screen.findByText(/1 \/ 2/)).toBeInTheDocument()
+
+        const { lastFindResults } = usePdfEditorStore.getState()
+        expect(lastFindResults!.map((m) => [m.pageIndex, m.term, m.color, m.text])).toEqual([
+            [0, 'Hello', undefined, 'Hello'],
+            [1, 'Another', '#0000ff', 'Another'],
+        ])
+        expect(lastFindResults![1].context).toEqual({ before: '', after: ' World' })
+
+        // Clicking a listed result jumps to its page
+        const results = screen.getByLabelText('Search results')
+        expect(results).toHaveTextContent('Page 1')
+        expect(results).toHaveTextContent('Page 2')
+        await act(async () => { fireEvent.click(screen.getByRole('button', { name: /Another/ })) })
+        expect(await screen.findByText(/2 \/ 2/)).toBeInTheDocument()
+        expect(onForcePageChange).toHaveBeenLastCalledWith(2)
+    })
+
+    it('Finds regular expression matches and reports invalid patterns', async () => {
+        render(<DocumentActionsPanel currentPage={1} onForcePageChange={onForcePageChange} />)
+        const regexCheckbox = screen.getByLabelText('Regex')
+        fireEvent.click(regexCheckbox)
+
+        fireEvent.change(screen.getByLabelText('Find'), { target: { value: 'W\\w+d' } })
+        await act(async () => { fireEvent.click(screen.getByRole('button', { name: /execute search/i })) })
+        expect(await screen.findByText(/1 \/ 2/)).toBeInTheDocument()
+
+        fireEvent.change(screen.getByLabelText('Find'), { target: { value: 'W(' } })
+        await act(async () => { fireEvent.click(screen.getByRole('button', { name: /execute search/i })) })
+        expect(await screen.findByText(/Invalid regular expression/)).toBeInTheDocument()
+
+        // Stored preference; later tests search literally
+        fireEvent.click(regexCheckbox)
+    })
+
     it('Escapes special regex characters in search', async () => {
         render(<DocumentActionsPanel currentPage={1} onForcePageChange={onForcePageChange} />)
         const findInput = screen.getByLabelText('Find')
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+import {
+    defaultMapping,
+    formValuesToFdf,
+    formValuesToXfdf,
+    parseCsvRecords,
+    parseFdfFormData,
+    parseJsonRecords,
+    parseXfdfFormData,
+    recordValues,
+    toFormValues,
+    type FillableField,
+} from '../utils/formData'
+import { readFormFields, type FormValue } from '../utils/pdfForms'
+
+const FIELDS: FillableField[] = [
+    { name: 'name', kind: 'text' },
+    { name: 'agree', kind: 'checkbox' },
+    { name: 'size', kind: 'radio', options: ['small', 'large'] },
+    { name: 'country', kind: 'dropdown', options: ['France', 'Italy'] },
+    { name: 'toppings', kind: 'option-list', options: ['Cheese', 'Ham', 'Olives'] },
+]
+
+const buildForm = async () => {
+    const doc = await PDFDocument.create()
+    const page = doc.addPage([400, 500])
+    const form = doc.getForm()
+    form.createTextField('name').addToPage(page, { x: 40, y: 440, width: 200, height: 20 })
+    form.createCheckBox('agree').addToPage(page, { x: 40, y: 400, width: 12, height: 12 })
+    const size = form.createRadioGroup('size')
+    size.addOptionToPage('small', page, { x: 40, y: 360, width: 12, height: 12 })
+    size.addOptionToPage('large', page, { x: 80, y: 360, width: 12, height: 12 })
+    return new Uint8Array(await doc.save())
+}
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+describe('record files', () => {
+    it('parses CSV with quoted cells and a detected delimiter', () => {
+        const csv = '\uFEFFName;Agree;Notes\r\n"Lovelace; Ada";yes;"said ""hi""\nthen left"\n\nGrace;;\n'
+        expect(parseCsvRecords(csv)).toEqual({
+            columns: ['Name', 'Agree', 'Notes'],
+            records: [
+                { Name: 'Lovelace; Ada', Agree: 'yes', Notes: 'said "hi"\nthen left' },
+                { Name: 'Grace', Agree: '', Notes: '' },
+            ],
+        })
+        expect(() => parseCsvRecords('a,b\n"open,1')).toThrow(/never closed/)
+    })
+
+    it('parses JSON records and rejects other shapes', () => {
+        expect(parseJsonRecords('[{"name":"Ada"},{"agree":true}]')).toEqual({
+            columns: ['name', 'agree'],
+            records: [{ name: 'Ada' }, { agree: true }],
+        })
+        expect(() => parseJsonRecords('[1, 2]')).toThrow(/array of objects/)
+    })
+
+    it('maps like-named columns and converts values for each field kind', () => {
+        const mapping = defaultMapping(['Name', 'AGREE', 'T-shirt size', 'Size', 'Toppings'], FIELDS)
+        expect(mapping).toEqual({ Name: 'name', AGREE: 'agree', Size: 'size', Toppings: 'toppings' })
+        const record = { Name: 'Ada', AGREE: 'x', Size: 'LARGE', Toppings: 'Ham; Olives', Country: 'Italy' }
+        expect(recordValues(record, { ...mapping, Country: 'country' }, FIELDS)).toEqual({
+            name: 'Ada',
+            agree: true,
+            size: 'large',
+            country: 'Italy',
+            toppings: ['Ham', 'Olives'],
+        })
+        expect(toFormValues({ agree: 'Off', size: 'Off', name: null, unknown: 'x' }, FIELDS)).toEqual({ agree: false, size: '' })
+    })
+})
+
+describe('single-record interchange', () => {
+    const values = { name: 'Zoë (admin)', agree: true, size: 'large', toppings: ['Cheese', 'Ham'] }
+
+    it('round-trips form values through XFDF', () => {
+        const xml = formValuesToXfdf(values, { fileName: 'form.pdf' })
+        expect(xml).toContain('<f href="form.pdf"/>')
+        expect(toFormValues(parseXfdfFormData(xml), FIELDS)).toEqual(values)
+        expect(parseXfdfFormData('<xfdf><fields><field name="a"><field name="b"><value>1</value></field></field></fields></xfdf>')).toEqual({ 'a.b': '1' })
+        expect(() => parseXfdfFormData('<fdf/>')).toThrow(/missing <xfdf>/)
+    })
+
+    it('round-trips form values through FDF and reads field hierarchies', async () => {
+        const fdf = formValuesToFdf({ ...values, size: '' }, FIELDS)
+        expect(fdf).toMatch(/^%FDF-1\.2/)
+        expect(fdf).toContain('/V /Yes')
+        expect(fdf).toContain('/V /Off')
+        const parsed = await parseFdfFormData(new TextEncoder().encode(fdf))
+        expect(toFormValues(parsed, FIELDS)).toEqual({ ...values, size: '' })
+
+        const nested = '%FDF-1.2\n1 0 obj\n<< /FDF << /Fields [ << /T (addr) /Kids [ << /T (city) /V (Paris \\(FR\\)) >> ] >> 2 0 R ] >> >>\nendobj\n'
+            + '2 0 obj\n<< /T (toppings) /V [ (Ham) <FEFF004F006C0069007600650073> ] >>\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n'
+        expect(await parseFdfFormData(new TextEncoder().encode(nested))).toEqual({ 'addr.city': 'Paris (FR)', toppings: ['Ham', 'Olives'] })
+        await expect(parseFdfFormData(new TextEncoder().encode('%PDF-1.7'))).rejects.toThrow(/missing %FDF/)
+    })
+})
+
+describe('form data in the editor store', () => {
+    beforeEach(async () => {
+        useAnnotationStore.setState({ annotations: [] })
+        await usePdfEditorStore.getState().loadDocument(toBuffer(await buildForm()), 'form.pdf')
+    })
+
+    it('imports several values as one undoable step', () => {
+        const store = usePdfEditorStore.getState()
+        expect(store.applyFormValues({ name: 'Ada', agree: true, size: '' }, 'Imported form data from ada.fdf')).toBe(2)
+        expect(useHistoryStore.getState().entries.map((e) => e.label)).toEqual(['Imported form data from ada.fdf'])
+        expect(store.applyFormValues({ name: 'Ada' }, 'Again')).toBe(0)
+        useHistoryStore.getState().undo()
+        expect(usePdfEditorStore.getState().formValues).toEqual({})
+    })
+
+    it('fills one copy of the opened document per record', async () => {
+        // Later edits do not reach the copies
+        usePdfEditorStore.getState().setFormValue('name', 'Edited')
+        const files = await usePdfEditorStore.getState().generateFilledPdfs({
+            records: [{ name: 'Ada', agree: true }, { name: 'Grace', size: 'small' }, { name: 'Edsger' }],
+            names: ['Ada Lovelace', '', 'Ada Lovelace'],
+        })
+        expect(files.map((f) => f.fileName)).toEqual(['form-ada-lovelace.pdf', 'form-2.pdf', 'form-ada-lovelace-3.pdf'])
+        const second = await PDFDocument.load(await blobBytes(files[1].blob))
+        expect(readFormFields(second).map((f) => f.value)).toEqual(['Grace', false, 'small'])
+    })
+
+    it('places designed fields on the pages they were drawn on after a reorder', async () => {
+        const doc = await PDFDocument.load(await buildForm())
+        doc.addPage([300, 300])
+        await usePdfEditorStore.getState().loadDocument(toBuffer(new Uint8Array(await doc.save())), 'form.pdf')
+        useAnnotationStore.getState().addAnnotation({
+            id: 'notes', type: 'form-field', fieldType: 'text', fieldName: 'notes', page: 2,
+            startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.2, createdAt: '2024-01-01T00:00:00.000Z',
+        })
+        await usePdfEditorStore.getState().reorderPages({ fromIndex: 1, toIndex: 0 })
+        expect(useAnnotationStore.getState().annotations.map((a) => a.page)).toEqual([1])
+
+        const [file] = await usePdfEditorStore.getState().generateFilledPdfs({ records: [{ name: 'Ada', notes: 'Late' }] })
+        const filled = await PDFDocument.load(await blobBytes(file.blob))
+        expect(filled.getPages().map((page) => page.getSize())).toEqual([{ width: 300, height: 300 }, { width: 400, height: 500 }])
+        expect(readFormFields(filled).map((f) => [f.name, f.value, f.widgets[0].page])).toEqual([
+            ['name', 'Ada', 2],
+            ['agree', false, 2],
+            ['size', '', 2],
+            ['notes', 'Late', 1],
+        ])
+    })
+
+    it('combines filled copies into one PDF, keeping each copy\'s fields apart', async () => {
+        const records: Array<Record<string, FormValue>> = [{ name: 'Ada' }, { name: 'Grace', agree: true }]
+        const [live] = await usePdfEditorStore.getState().generateFilledPdfs({ records, combine: true })
+        expect(live.fileName).toBe('form-filled.pdf')
+        const combined = await PDFDocument.load(await blobBytes(live.blob))
+        expect(combined.getPageCount()).toBe(2)
+        expect(readFormFields(combined).map((f) => [f.name, f.value, f.widgets[0].page])).toEqual([
+            ['name_1', 'Ada', 1],
+            ['agree_1', false, 1],
+            ['size_1', '', 1],
+            ['name_2', 'Grace', 2],
+            ['agree_2', true, 2],
+            ['size_2', '', 2],
+        ])
+
+        const [flat] = await usePdfEditorStore.getState().generateFilledPdfs({ records, combine: true, flatten: true })
+        const flattened = await PDFDocument.load(await blobBytes(flat.blob))
+        expect(flattened.getPageCount()).toBe(2)
+        expect(readFormFields(flattened)).toEqual([])
+    })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument, PDFName, PDFSignature, PDFTextField } from 'pdf-lib'
+import type { Annotation } from '../types/annotations'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+import { designedFields, fieldNameConflict, nextFieldName, nextRadioOption, writeFormDesign } from '../utils/formDesign'
+import { fillFormFields, readFormFields } from '../utils/pdfForms'
+import { validateAnnotation } from '../utils/annotationSchema'
+
+const field = (id: string, changes: Partial<Annotation>): Annotation => ({
+    id,
+    type: 'form-field',
+    page: 1,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    startX: 0.1,
+    startY: 0.1,
+    endX: 0.5,
+    endY: 0.15,
+    fieldType: 'text',
+    fieldName: id,
+    ...changes,
+})
+
+// A full intake form: the tab order runs against the drawing order
+const DESIGN: Annotation[] = [
+    field('email', { fieldType: 'text', tabOrder: 2, required: true, defaultValue: 'name@example.com', startY: 0.3, endY: 0.35 }),
+    field('name', { fieldType: 'text', tabOrder: 1 }),
+    field('agree', { fieldType: 'checkbox', tabOrder: 5, defaultValue: true, startY: 0.6, endX: 0.13, endY: 0.63 }),
+    field('small', { fieldType: 'radio', fieldName: 'size', fieldOption: 'S', tabOrder: 3, startY: 0.4, endX: 0.13, endY: 0.43 }),
+    field('large', { fieldType: 'radio', fieldName: 'size', fieldOption: 'L', tabOrder: 3, defaultValue: 'L', startX: 0.2, startY: 0.4, endX: 0.23, endY: 0.43 }),
+    field('country', { fieldType: 'dropdown', tabOrder: 4, options: ['France', 'Italy'], defaultValue: 'Italy', startY: 0.5, endY: 0.55 }),
+    field('sign', { fieldType: 'signature', tabOrder: 6, required: true, startY: 0.8, endY: 0.9 }),
+]
+
+const blankPdf = async () => {
+    const doc = await PDFDocument.create()
+    doc.addPage([400, 500])
+    return new Uint8Array(await doc.save())
+}
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+describe('form design helpers', () => {
+    it('groups radio buttons by name and orders fields by tab order', () => {
+        const fields = designedFields(DESIGN)
+        expect(fields.map((f) => f.name)).toEqual(['name', 'email', 'size', 'country', 'agree', 'sign'])
+        expect(fields[2].widgets.map((w) => w.fieldOption)).toEqual(['S', 'L'])
+    })
+
+    it('names new fields and radio options after the ones taken', () => {
+        expect(nextFieldName('text', ['Text1', 'Text3'])).toBe('Text2')
+        expect(nextFieldName('radio', [])).toBe('Group1')
+        expect(nextRadioOption('size', [field('a', { fieldType: 'radio', fieldName: 'size', fieldOption: 'Option1' })])).toBe('Option2')
+    })
+
+    it('keeps names unique except for radio buttons joining a group', () => {
+        expect(fieldNameConflict('email', 'text', ['name'], DESIGN)).toMatch(/already named/)
+        expect(fieldNameConflict('size', 'radio', ['x'], DESIGN)).toBeNull()
+        expect(fieldNameConflict('size', 'text', ['name'], DESIGN)).toMatch(/already named/)
+        expect(fieldNameConflict('Total', 'text', ['name'], DESIGN, ['Total'])).toMatch(/document already/)
+        expect(fieldNameConflict(' ', 'text', ['name'], DESIGN)).toMatch(/empty/)
+        expect(fieldNameConflict('name', 'text', ['name'], DESIGN)).toBeNull()
+    })
+
+    it('validates designed fields in annotation files', () => {
+        expect(validateAnnotation(DESIGN[3])).toEqual({ success: true, data: DESIGN[3] })
+        expect(validateAnnotation({ ...DESIGN[0], fieldName: undefined }).success).toBe(false)
+    })
+})
+
+describe('writeFormDesign', () => {
+    it('writes real AcroForm fields with defaults, required flags and tab order', async () => {
+        const doc = await PDFDocument.load(await blankPdf())
+        expect(writeFormDesign(doc, DESIGN)).toBe(6)
+        const reloaded = await PDFDocument.load(await doc.save())
+        const form = reloaded.getForm()
+
+        expect(form.getFields().map((f) => f.getName())).toEqual(['name', 'email', 'size', 'country', 'agree', 'sign'])
+        const email = form.getTextField('email')
+        expect(email.getText()).toBe('name@example.com')
+        expect(email.isRequired()).toBe(true)
+        expect(email.acroField.dict.get(PDFName.of('DV'))).toBeDefined()
+        expect(form.getCheckBox('agree').isChecked()).toBe(true)
+        expect(form.getRadioGroup('size').getOptions()).toEqual(['S', 'L'])
+        expect(form.getRadioGroup('size').getSelected()).toBe('L')
+        expect(form.getDropdown('country').getOptions()).toEqual(['France', 'Italy'])
+        expect(form.getDropdown('country').getSelected()).toEqual(['Italy'])
+        const sign = form.getField('sign')
+        expect(sign).toBeInstanceOf(PDFSignature)
+        expect(sign.isRequired()).toBe(true)
+
+        // Widgets sit on the page in tab order
+        const annots = reloaded.getPage(0).node.Annots()!
+        const names = Array.from({ length: annots.size() }, (_, i) => annots.lookup(i))
+            .map((widget: any) => widget.get(PDFName.of('T'))?.decodeText?.() ?? widget.lookup(PDFName.of('Parent'))?.get(PDFName.of('T'))?.decodeText())
+        expect(names).toEqual(['name', 'email', 'size', 'size', 'country', 'agree', 'sign'])
+
+        const [placed] = readFormFields(reloaded).find((f) => f.name === 'email')!.widgets
+        expect(placed.rect.top).toBeCloseTo(0.3)
+        expect(placed.rect.width).toBeCloseTo(0.4)
+    })
+
+    it('refuses names the document already uses', async () => {
+        const doc = await PDFDocument.load(await blankPdf())
+        doc.getForm().createTextField('name').addToPage(doc.getPage(0), { x: 0, y: 0, width: 10, height: 10 })
+        expect(() => writeFormDesign(doc, DESIGN)).toThrow(/already has a field named "name"/)
+        expect(doc.getForm().getFields()).toHaveLength(1)
+    })
+
+    it('flattens designed forms, signature fields included', async () => {
+        const doc = await PDFDocument.load(await blankPdf())
+        writeFormDesign(doc, DESIGN)
+        fillFormFields(doc, {}, { flatten: true })
+        const reloaded = await PDFDocument.load(await doc.save())
+        expect(reloaded.getForm().getFields()).toEqual([])
+    })
+})
+
+describe('form design in the editor', () => {
+    beforeEach(async () => {
+        usePdfEditorStore.setState({ pdfData: await blankPdf(), numPages: 1, pageSizes: [{ width: 400, height: 500 }], formFields: [], formValues: {} })
+        useAnnotationStore.setState({ annotations: DESIGN })
+        useHistoryStore.getState().clear()
+    })
+
+    it('exports designed fields without touching the stored document', async () => {
+        const before = usePdfEditorStore.getState().pdfData
+        const exported = await PDFDocument.load(await blobBytes(await usePdfEditorStore.getState().exportPdf()))
+        expect(exported.getForm().getFields()).toHaveLength(6)
+        expect(exported.getForm().getField('name')).toBeInstanceOf(PDFTextField)
+        expect(usePdfEditorStore.getState().pdfData).toBe(before)
+    })
+
+    it('keeps designed fields when annotations are flattened', async () => {
+        const pen: Annotation = { id: 'pen', type: 'pen', page: 1, createdAt: '2024-01-01T00:00:00.000Z', startX: 0, startY: 0, points: [[0.1, 0.1], [0.2, 0.2]] }
+        useAnnotationStore.setState({ annotations: [...DESIGN, pen] })
+        await usePdfEditorStore.getState().flattenAnnotations(useAnnotationStore.getState().annotations)
+        expect(useAnnotationStore.getState().annotations.map((a) => a.id)).toEqual(DESIGN.map((a) => a.id))
+    })
+})
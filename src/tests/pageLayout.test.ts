@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { layoutPages, pageIndexAtOffset, visiblePageRange } from '../utils/pageLayout'
+
+const sizes = [
+    { width: 612, height: 792 },
+    { width: 792, height: 612 },
+    { width: 612, height: 792 },
+    { width: 612, height: 792 },
+]
+
+describe('continuous page layout', () => {
+    it('stacks scaled pages with gaps', () => {
+        const layout = layoutPages(sizes, 0.5, 10)
+        expect(layout.pages.map((p) => p.top)).toEqual([0, 406, 722, 1128])
+        expect(layout.pages[1]).toMatchObject({ width: 396, height: 306 })
+        expect(layout.totalHeight).toBe(1524)
+        expect(layout.maxWidth).toBe(396)
+    })
+
+    it('finds the page at an offset and the visible range with overscan', () => {
+        const { pages } = layoutPages(sizes, 0.5, 10)
+        expect(pageIndexAtOffset(pages, 0)).toBe(0)
+        expect(pageIndexAtOffset(pages, 400)).toBe(0) // gap after page 1
+        expect(pageIndexAtOffset(pages, 722)).toBe(2)
+        expect(pageIndexAtOffset(pages, 99999)).toBe(3)
+        expect(visiblePageRange(pages, 410, 700, 0)).toEqual([1, 1])
+        expect(visiblePageRange(pages, 410, 700, 1)).toEqual([0, 2])
+        expect(visiblePageRange([], 0, 100)).toEqual([0, -1])
+    })
+})
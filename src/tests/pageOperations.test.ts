@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { STORAGE_CONFIG } from '../constants'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+import { writeNativeAnnotations } from '../utils/pdfAnnotations'
+import { deletedPageOrder, duplicatedPageOrder, formatPageRanges, insertedPageOrder, movedPageOrder, parsePageRanges, remapPages } from '../utils/pageOrder'
+
+// Page widths identify pages after they have been reordered
+const WIDTHS = [100, 200, 300, 400]
+
+const loadFixture = async () => {
+    const doc = await PDFDocument.create()
+    WIDTHS.forEach((width) => doc.addPage([width, 500]))
+    const bytes = new Uint8Array(await doc.save())
+    usePdfEditorStore.setState({
+        pdfData: bytes,
+        numPages: WIDTHS.length,
+        pageSizes: WIDTHS.map((width) => ({ width, height: 500 })),
+    })
+    useAnnotationStore.setState({ annotations: [] })
+    useHistoryStore.getState().clear()
+}
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+const widths = async (bytes: Uint8Array | null) => {
+    const doc = await PDFDocument.load(bytes!)
+    return doc.getPages().map((page) => page.getWidth())
+}
+
+describe('page order helpers', () => {
+    it('moves, deletes and duplicates selections as blocks', () => {
+        expect(movedPageOrder(5, [3, 1], 0)).toEqual([1, 3, 0, 2, 4])
+        expect(movedPageOrder(5, [0, 1], 5)).toEqual([2, 3, 4, 0, 1])
+        expect(movedPageOrder(5, [0, 1], 3)).toEqual([2, 0, 1, 3, 4])
+        expect(deletedPageOrder(4, [1, 3, 9])).toEqual([0, 2])
+        expect(duplicatedPageOrder(4, [0, 2])).toEqual([0, 1, 2, 0, 2, 3])
+        expect(formatPageRanges([5, 0, 1, 2])).toBe('1-3,6')
+    })
+
+    it('parses page range input', () => {
+        expect(parsePageRanges('', 3)).toEqual([0, 1, 2])
+        expect(parsePageRanges('3, 1-2', 5)).toEqual([2, 0, 1])
+        expect(parsePageRanges('4-', 5)).toEqual([3, 4])
+        expect(parsePageRanges('2-9', 5)).toBeNull()
+        expect(parsePageRanges('a', 5)).toBeNull()
+    })
+})
+
+describe('bulk page operations', () => {
+    beforeEach(loadFixture)
+
+    it('moves a multi-page selection in one revision and undoes it', async () => {
+        const before = usePdfEditorStore.getState().pdfRevision
+        await usePdfEditorStore.getState().movePages({ pageIndices: [2, 3], toIndex: 0 })
+
+        const state = usePdfEditorStore.getState()
+        expect(await widths(state.pdfData)).toEqual([300, 400, 100, 200])
+        expect(state.pageSizes?.map((s) => s.width)).toEqual([300, 400, 100, 200])
+        expect(state.pdfRevision).toBe(before + 1)
+        expect(useHistoryStore.getState().entries.map((e) => e.label)).toEqual(['Moved pages 3-4'])
+
+        useHistoryStore.getState().undo()
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+        expect(useHistoryStore.getState().entries).toEqual([])
+    })
+
+    it('rotates, duplicates and deletes the selection', async () => {
+        const store = usePdfEditorStore.getState()
+        await store.rotatePages({ pageIndices: [0, 3], direction: 'right' })
+        let doc = await PDFDocument.load(usePdfEditorStore.getState().pdfData!)
+        expect(doc.getPages().map((p) => p.getRotation().angle)).toEqual([90, 0, 0, 90])
+
+        await store.duplicatePages([0, 1])
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual([100, 200, 100, 200, 300, 400])
+
+        await store.deletePages([1, 2, 5])
+        doc = await PDFDocument.load(usePdfEditorStore.getState().pdfData!)
+        expect(doc.getPages().map((p) => p.getWidth())).toEqual([100, 200, 300])
+        expect(usePdfEditorStore.getState().numPages).toBe(3)
+
+        await expect(store.deletePages([0, 1, 2])).rejects.toThrow(/at least one page/)
+        usePdfEditorStore.setState({ error: undefined })
+    })
+
+    it('extracts selected pages through exportPdf with their annotations renumbered', async () => {
+        const blob = await usePdfEditorStore.getState().exportPdf({
+            pageIndices: [3, 1],
+            annotations: [
+                { id: 'a', type: 'rectangle', page: 4, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.5, createdAt: '2024-01-01T00:00:00.000Z' },
+                { id: 'b', type: 'rectangle', page: 1, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.5, createdAt: '2024-01-01T00:00:00.000Z' },
+            ],
+        })
+        const doc = await PDFDocument.load(await blobBytes(blob))
+        expect(doc.getPages().map((p) => p.getWidth())).toEqual([200, 400])
+        expect(doc.getPage(0).node.Annots()).toBeUndefined()
+        expect(doc.getPage(1).node.Annots()?.size()).toBe(1)
+        // The working document is untouched
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+    })
+
+    it('inserts pages from another PDF and shifts annotations on later pages', async () => {
+        const source = await PDFDocument.create()
+        source.addPage([150, 500])
+        source.addPage([250, 500])
+        await writeNativeAnnotations(source, [
+            { id: 'src', type: 'rectangle', page: 2, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.5, createdAt: '2024-01-01T00:00:00.000Z' },
+        ])
+        const annotation = (id: string, page: number) => ({ id, type: 'rectangle' as const, page, startX: 0.1, startY: 0.1, createdAt: '2024-01-01T00:00:00.000Z' })
+        useAnnotationStore.setState({ annotations: [annotation('p1', 1), annotation('p2', 2), annotation('p4', 4)] })
+
+        const inserted = await usePdfEditorStore.getState().insertPagesFromPdf({
+            sourceData: await source.save(),
+            sourcePageIndices: [1, 0],
+            atIndex: 1,
+        })
+
+        expect(inserted).toBe(2)
+        const state = usePdfEditorStore.getState()
+        expect(state.numPages).toBe(6)
+        expect(state.pageSizes?.map((s) => s.width)).toEqual([100, 250, 150, 200, 300, 400])
+
+        const pages = Object.fromEntries(useAnnotationStore.getState().annotations.map((a) => [a.id, a.page]))
+        expect(pages.p1).toBe(1)
+        expect(pages.p2).toBe(4)
+        expect(pages.p4).toBe(6)
+        // The source's own markup lands in the annotation layer on its new page, not in the bytes
+        const lifted = useAnnotationStore.getState().annotations.filter((a) => !['p1', 'p2', 'p4'].includes(a.id))
+        expect(lifted.map((a) => a.page)).toEqual([2])
+        const doc = await PDFDocument.load(state.pdfData!)
+        expect(doc.getPage(1).node.Annots()?.size() ?? 0).toBe(0)
+
+        useAnnotationStore.setState({ annotations: [] })
+    })
+})
+
+describe('edit history', () => {
+    beforeEach(loadFixture)
+
+    const labels = () => {
+        const { entries, redoEntries } = useHistoryStore.getState()
+        return { done: entries.map((e) => e.label), undone: redoEntries.map((e) => e.label) }
+    }
+    const annotation = (id: string, page: number) => ({ id, type: 'rectangle' as const, page, startX: 0.1, startY: 0.1, createdAt: '2024-01-01T00:00:00.000Z' })
+    const annotationPages = () => Object.fromEntries(useAnnotationStore.getState().annotations.map((a) => [a.id, a.page]))
+
+    it('labels edits and walks the timeline with undo, redo and jumps', async () => {
+        const store = usePdfEditorStore.getState()
+        await store.rotatePage({ pageIndex: 2, direction: 'right' })
+        await store.deletePage(0)
+        await store.addBlankPage({ position: 'end' })
+        expect(labels().done).toEqual(['Rotated page 3 right', 'Deleted page 1', 'Added blank page 4'])
+
+        const history = useHistoryStore.getState()
+        history.undo()
+        history.undo()
+        expect(labels()).toEqual({ done: ['Rotated page 3 right'], undone: ['Deleted page 1', 'Added blank page 4'] })
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+
+        history.redo()
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual([200, 300, 400])
+        expect(usePdfEditorStore.getState().numPages).toBe(3)
+
+        const [, , last] = [...useHistoryStore.getState().entries, ...useHistoryStore.getState().redoEntries]
+        history.goTo(last.id)
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual([200, 300, 400, 200])
+
+        history.goTo(null)
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+        expect(labels().undone).toHaveLength(3)
+
+        // A new edit discards what was undone
+        await store.duplicatePages([0])
+        expect(labels()).toEqual({ done: ['Duplicated page 1'], undone: [] })
+    })
+
+    it('skips no-op edits and keeps at most MAX_UNDO_STATES entries', async () => {
+        const store = usePdfEditorStore.getState()
+        const revision = usePdfEditorStore.getState().pdfRevision
+        await store.movePages({ pageIndices: [0], toIndex: 0 })
+        expect(usePdfEditorStore.getState().pdfRevision).toBe(revision)
+        expect(labels().done).toEqual([])
+
+        for (let i = 0; i < STORAGE_CONFIG.MAX_UNDO_STATES + 2; i++) {
+            await store.rotatePage({ pageIndex: 0, direction: 'right' })
+        }
+        expect(labels().done).toHaveLength(STORAGE_CONFIG.MAX_UNDO_STATES)
+    })
+
+    it('undoes a page delete together with the annotations it removed and renumbered', async () => {
+        useAnnotationStore.setState({ annotations: [annotation('p1', 1), annotation('p2', 2), annotation('p4', 4)] })
+        await usePdfEditorStore.getState().deletePage(1)
+        expect(annotationPages()).toEqual({ p1: 1, p4: 3 })
+        expect(labels().done).toEqual(['Deleted page 2'])
+
+        useHistoryStore.getState().undo()
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+        expect(annotationPages()).toEqual({ p1: 1, p2: 2, p4: 4 })
+
+        useHistoryStore.getState().redo()
+        expect(annotationPages()).toEqual({ p1: 1, p4: 3 })
+    })
+
+    it('interleaves annotation and page edits on one timeline', async () => {
+        const store = useAnnotationStore.getState()
+        store.addAnnotation(annotation('a', 4))
+        await usePdfEditorStore.getState().reorderPages({ fromIndex: 3, toIndex: 0 })
+        store.addAnnotation(annotation('b', 2))
+        expect(labels().done).toEqual(['Added rectangle on page 4', 'Moved page 4 to 1', 'Added rectangle on page 2'])
+        expect(annotationPages()).toEqual({ a: 1, b: 2 })
+
+        store.undo()
+        expect(annotationPages()).toEqual({ a: 1 })
+        store.undo()
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual(WIDTHS)
+        expect(annotationPages()).toEqual({ a: 4 })
+        store.undo()
+        expect(useAnnotationStore.getState().annotations).toEqual([])
+    })
+
+    it('moves a page down by one and carries duplicates of its annotations', async () => {
+        useAnnotationStore.setState({ annotations: [annotation('a', 1)] })
+        await usePdfEditorStore.getState().reorderPages({ fromIndex: 0, toIndex: 1 })
+        expect(await widths(usePdfEditorStore.getState().pdfData)).toEqual([200, 100, 300, 400])
+        expect(annotationPages()).toEqual({ a: 2 })
+
+        await usePdfEditorStore.getState().duplicatePages([1])
+        const pages = useAnnotationStore.getState().annotations.map((a) => a.page)
+        expect(pages).toEqual([2, 3])
+    })
+
+    it('remaps pages through inserts, deletes and copies', () => {
+        const ids = ['x1', 'x2']
+        const newId = () => ids.shift()!
+        expect(insertedPageOrder(3, 1, 2)).toEqual([0, -1, -1, 1, 2])
+        expect(remapPages([annotation('a', 2), annotation('b', 3)], [2, 1, 1], newId)).toEqual([
+            annotation('a', 2),
+            { ...annotation('a', 3), id: 'x1' },
+            annotation('b', 1),
+        ])
+    })
+})
@@ -52,7 +52,7 @@ vi.mock('pdfjs-dist/legacy/build/pdf.js', () => ({
                         { str: 'World', transform: [12, 0, 0, 12, 140, 100], width: 30, height: 12, fontName: 'Helvetica' }
                     ]
                 }),
-                getViewport: () => ({ width: 612, height: 792 }),
+                getViewport: () => ({ width: 612, height: 792, convertToViewportPoint: (x: number, y: number) => [x, 792 - y] }),
                 cleanup: vi.fn()
             }),
             destroy: vi.fn(),
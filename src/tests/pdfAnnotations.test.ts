@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PDFDocument, PDFDict, PDFName, degrees } from 'pdf-lib'
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
+import type { Annotation } from '../types/annotations'
+import { nativeAnnotationRefs, readNativeAnnotations, writeNativeAnnotations, SIGNATURE_STAMP_NAME } from '../utils/pdfAnnotations'
+import { hideFileAnnotations } from '../utils/pdfRender'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+
+const PNG_1X1 = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+const makeAnnotation = (partial: Partial<Annotation> & Pick<Annotation, 'id' | 'type'>): Annotation => ({
+    page: 1,
+    createdAt: '2024-05-01T10:00:00.000Z',
+    startX: 0.1,
+    startY: 0.1,
+    color: '#ff0000',
+    ...partial,
+})
+
+const roundTrip = async (annotations: Annotation[]) => {
+    const doc = await PDFDocument.create()
+    doc.addPage([612, 792])
+    doc.addPage([612, 792])
+    const written = await writeNativeAnnotations(doc, annotations)
+    const reloaded = await PDFDocument.load(await doc.save())
+    return { written, reloaded }
+}
+
+const subtypesOnPage = (doc: PDFDocument, pageIndex: number) => {
+    const annots = doc.getPage(pageIndex).node.Annots()
+    if (!annots) return []
+    return Array.from({ length: annots.size() }, (_, i) => {
+        const dict = doc.context.lookup(annots.get(i)) as PDFDict
+        return (dict.lookup(PDFName.of('Subtype')) as PDFName).decodeText()
+    })
+}
+
+describe('Native PDF annotations', () => {
+    it('writes each supported type as an /Annot with an appearance stream', async () => {
+        const { written, reloaded } = await roundTrip([
+            makeAnnotation({ id: 'h1', type: 'highlight', endX: 0.4, endY: 0.13 }),
+            makeAnnotation({ id: 'p1', type: 'pen', points: [[0.1, 0.1], [0.2, 0.2], [0.3, 0.15]] }),
+            makeAnnotation({ id: 'r1', type: 'rectangle', endX: 0.5, endY: 0.5, fillColor: '#00ff00' }),
+            makeAnnotation({ id: 't1', type: 'text-box', text: 'Hello\nWorld', fontSize: 14 }),
+            makeAnnotation({ id: 's1', type: 'sticky-note', text: 'Note', width: 0.2, height: 0.1, page: 2 }),
+            makeAnnotation({ id: 'st1', type: 'stamp', text: 'Approved', endX: 0.5, endY: 0.2, page: 2 }),
+            makeAnnotation({ id: 'sig1', type: 'signature', imageDataUrl: PNG_1X1, endX: 0.3, endY: 0.2, page: 2 }),
+        ])
+
+        expect(written).toBe(7)
+        expect(subtypesOnPage(reloaded, 0)).toEqual(['Highlight', 'Ink', 'Square', 'FreeText'])
+        expect(subtypesOnPage(reloaded, 1)).toEqual(['Text', 'Stamp', 'Stamp'])
+
+        const annots = reloaded.getPage(0).node.Annots()!
+        const highlight = reloaded.context.lookup(annots.get(0)) as PDFDict
+        const ap = highlight.lookup(PDFName.of('AP')) as PDFDict
+        expect(ap.has(PDFName.of('N'))).toBe(true)
+    })
+
+    it('reads written annotations back into normalized coordinates', async () => {
+        const { reloaded } = await roundTrip([
+            makeAnnotation({ id: 'h1', type: 'highlight', endX: 0.4, endY: 0.13, author: 'Ana', text: 'check' }),
+            makeAnnotation({ id: 'p1', type: 'pen', points: [[0.1, 0.1], [0.2, 0.2]], strokeWidth: 4 }),
+            makeAnnotation({ id: 'r1', type: 'rectangle', endX: 0.5, endY: 0.5, fillColor: '#00ff00' }),
+            makeAnnotation({ id: 't1', type: 'text-box', text: 'Hello', fontSize: 14, color: '#0000ff' }),
+            makeAnnotation({ id: 's1', type: 'sticky-note', text: 'Note', width: 0.2, height: 0.1, page: 2 }),
+            makeAnnotation({ id: 'st1', type: 'stamp', text: 'Approved', endX: 0.5, endY: 0.2, page: 2 }),
+        ])
+
+        const imported = readNativeAnnotations(reloaded)
+        const byId = new Map(imported.map((a) => [a.id, a]))
+        expect(imported).toHaveLength(6)
+
+        const highlight = byId.get('h1')!
+        expect(highlight.type).toBe('highlight')
+        expect(highlight.startX).toBeCloseTo(0.1, 3)
+        expect(highlight.startY).toBeCloseTo(0.1, 3)
+        expect(highlight.endX).toBeCloseTo(0.4, 3)
+        expect(highlight.endY).toBeCloseTo(0.13, 3)
+        expect(highlight.author).toBe('Ana')
+        expect(highlight.text).toBe('check')
+        expect(highlight.color).toBe('#ff0000')
+        expect(highlight.createdAt).toBe('2024-05-01T10:00:00.000Z')
+
+        const pen = byId.get('p1')!
+        expect(pen.type).toBe('pen')
+        expect(pen.strokeWidth).toBe(4)
+        expect(pen.points?.[1][0]).toBeCloseTo(0.2, 3)
+        expect(pen.points?.[1][1]).toBeCloseTo(0.2, 3)
+
+        expect(byId.get('r1')?.fillColor).toBe('#00ff00')
+
+        const text = byId.get('t1')!
+        expect(text.type).toBe('text-box')
+        expect(text.fontSize).toBe(14)
+        expect(text.color).toBe('#0000ff')
+        expect(text.startX).toBeCloseTo(0.1, 3)
+        expect(text.startY).toBeCloseTo(0.1, 3)
+
+        const sticky = byId.get('s1')!
+        expect(sticky.page).toBe(2)
+        expect(sticky.width).toBeCloseTo(0.2, 3)
+        expect(sticky.height).toBeCloseTo(0.1, 3)
+
+        expect(byId.get('st1')?.text).toBe('Approved')
+    })
+
+    it('round-trips underline and strikeout with one quad per line', async () => {
+        const quads: Annotation['quads'] = [[0.1, 0.1, 0.5, 0.12], [0.1, 0.13, 0.3, 0.15]]
+        const { written, reloaded } = await roundTrip([
+            makeAnnotation({ id: 'u1', type: 'underline', endX: 0.5, endY: 0.15, quads }),
+            makeAnnotation({ id: 'k1', type: 'strikeout', endX: 0.5, endY: 0.15, quads }),
+        ])
+
+        expect(written).toBe(2)
+        expect(subtypesOnPage(reloaded, 0)).toEqual(['Underline', 'StrikeOut'])
+        const underline = reloaded.context.lookup(reloaded.getPage(0).node.Annots()!.get(0)) as PDFDict
+        expect((underline.lookup(PDFName.of('QuadPoints')) as any).size()).toBe(16)
+
+        const imported = readNativeAnnotations(reloaded)
+        expect(imported.map((a) => a.type)).toEqual(['underline', 'strikeout'])
+        imported[0].quads!.forEach((quad, i) => quad.forEach((value, j) => expect(value).toBeCloseTo(quads[i][j], 3)))
+        expect(imported[1].startX).toBeCloseTo(0.1, 3)
+        expect(imported[1].endY).toBeCloseTo(0.15, 3)
+    })
+
+    it('round-trips styled text boxes through rich contents', async () => {
+        const textRuns = [{ text: 'Due', bold: true }, { text: ' Friday', underline: true }]
+        const { reloaded } = await roundTrip([
+            makeAnnotation({
+                id: 't1', type: 'text-box', text: 'Due Friday', textRuns, fontSize: 12, width: 0.2, height: 0.05,
+                textAlign: 'center', fillColor: '#ffff00', borderColor: '#0000ff', borderWidth: 2,
+            }),
+        ])
+
+        const freeText = reloaded.context.lookup(reloaded.getPage(0).node.Annots()!.get(0)) as PDFDict
+        expect(freeText.has(PDFName.of('RC'))).toBe(true)
+        expect(freeText.has(PDFName.of('AP'))).toBe(true)
+
+        const [box] = readNativeAnnotations(reloaded)
+        expect(box).toMatchObject({ type: 'text-box', text: 'Due Friday', textRuns, textAlign: 'center', fillColor: '#ffff00', borderColor: '#0000ff', borderWidth: 2 })
+        expect(box.startX).toBeCloseTo(0.1, 3)
+        expect(box.width).toBeCloseTo(0.2, 3)
+        expect(box.height).toBeCloseTo(0.05, 3)
+    })
+
+    it('writes notes and plain text boxes whose text Helvetica cannot encode', async () => {
+        const text = 'Łódź\n東京 → ok'
+        const { reloaded } = await roundTrip([
+            makeAnnotation({ id: 't1', type: 'text-box', text }),
+            makeAnnotation({ id: 'n1', type: 'sticky-note', text, width: 0.2, height: 0.1 }),
+        ])
+        expect(readNativeAnnotations(reloaded).map((a) => [a.type, a.text])).toEqual([['text-box', text], ['sticky-note', text]])
+    })
+
+    it('places markup where viewers show it on rotated and cropped pages', async () => {
+        const doc = await PDFDocument.create()
+        for (const angle of [0, 90, 180, 270]) {
+            const page = doc.addPage([300, 200])
+            page.setCropBox(10, 20, 280, 170)
+            page.setRotation(degrees(angle))
+        }
+        const annotations = [1, 2, 3, 4].flatMap((page) => [
+            makeAnnotation({ id: `r${page}`, type: 'rectangle', page, startX: 0.1, startY: 0.2, endX: 0.5, endY: 0.4 }),
+            makeAnnotation({ id: `h${page}`, type: 'highlight', page, startX: 0.1, startY: 0.6, endX: 0.7, endY: 0.65, quads: [[0.1, 0.6, 0.7, 0.65]] }),
+        ])
+        await writeNativeAnnotations(doc, annotations)
+        const bytes = await doc.save()
+
+        // Where pdf.js shows each rectangle, normalized to the page as displayed
+        const pdf = await (pdfjsLib as any).getDocument({ data: bytes.slice(), disableWorker: true, verbosity: 0 }).promise
+        for (let pageNumber = 1; pageNumber <= 4; pageNumber++) {
+            const page = await pdf.getPage(pageNumber)
+            const viewport = page.getViewport({ scale: 1 })
+            const [square] = (await page.getAnnotations()).filter((annotation: any) => annotation.subtype === 'Square')
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(square.rect)
+            const shown = [Math.min(x1, x2) / viewport.width, Math.min(y1, y2) / viewport.height, Math.max(x1, x2) / viewport.width, Math.max(y1, y2) / viewport.height]
+            shown.forEach((value, i) => expect(value).toBeCloseTo([0.1, 0.2, 0.5, 0.4][i], 3))
+        }
+
+        const imported = readNativeAnnotations(await PDFDocument.load(bytes))
+        expect(imported).toHaveLength(8)
+        imported.forEach((annotation) => {
+            const original = annotations.find((ann) => ann.id === annotation.id)!
+            expect([annotation.page, annotation.type]).toEqual([original.page, original.type])
+            ;(['startX', 'startY', 'endX', 'endY'] as const).forEach((key) => expect(annotation[key]).toBeCloseTo(original[key]!, 3))
+        })
+        expect(imported.find((annotation) => annotation.id === 'h2')!.quads![0].map((value) => Math.round(value * 1000) / 1000)).toEqual([0.1, 0.6, 0.7, 0.65])
+    })
+
+    it('round-trips shapes as Square, Circle, Line, PolyLine and Polygon', async () => {
+        const { reloaded } = await roundTrip([
+            makeAnnotation({ id: 'e1', type: 'ellipse', endX: 0.4, endY: 0.3, fillColor: '#00ff00', dashStyle: 'dashed' }),
+            makeAnnotation({ id: 'c1', type: 'cloud', endX: 0.5, endY: 0.5 }),
+            makeAnnotation({ id: 'a1', type: 'arrow', endX: 0.6, endY: 0.2, lineEndings: ['closed', 'open'], strokeWidth: 4 }),
+            makeAnnotation({ id: 'l1', type: 'line', endX: 0.6, endY: 0.1 }),
+            makeAnnotation({ id: 'pl1', type: 'polyline', points: [[0.1, 0.1], [0.2, 0.3], [0.3, 0.1]] }),
+            makeAnnotation({ id: 'pg1', type: 'polygon', points: [[0.5, 0.5], [0.7, 0.5], [0.6, 0.7]], fillColor: '#0000ff', dashStyle: 'dotted' }),
+        ])
+        expect(subtypesOnPage(reloaded, 0)).toEqual(['Circle', 'Square', 'Line', 'Line', 'PolyLine', 'Polygon'])
+
+        const byId = new Map(readNativeAnnotations(reloaded).map((a) => [a.id, a]))
+        expect(byId.get('e1')).toMatchObject({ type: 'ellipse', fillColor: '#00ff00', dashStyle: 'dashed' })
+        expect(byId.get('e1')!.endX).toBeCloseTo(0.4, 3)
+        expect(byId.get('c1')?.type).toBe('cloud')
+
+        const arrow = byId.get('a1')!
+        expect(arrow).toMatchObject({ type: 'arrow', lineEndings: ['closed', 'open'], strokeWidth: 4 })
+        expect(arrow.startX).toBeCloseTo(0.1, 3)
+        expect(arrow.endY).toBeCloseTo(0.2, 3)
+        expect(byId.get('l1')?.type).toBe('line')
+
+        expect(byId.get('pl1')?.points?.[1][1]).toBeCloseTo(0.3, 3)
+        const polygon = byId.get('pg1')!
+        expect(polygon).toMatchObject({ type: 'polygon', fillColor: '#0000ff', dashStyle: 'dotted' })
+        expect(polygon.points).toHaveLength(3)
+    })
+
+    it('strips imported annotations but keeps drawn signatures on the page', async () => {
+        const { reloaded } = await roundTrip([
+            makeAnnotation({ id: 'st1', type: 'stamp', text: 'Draft', endX: 0.5, endY: 0.2 }),
+            makeAnnotation({ id: 'sig1', type: 'signature', imageDataUrl: PNG_1X1, endX: 0.3, endY: 0.2 }),
+        ])
+
+        const imported = readNativeAnnotations(reloaded, { remove: true })
+        expect(imported.map((a) => a.id)).toEqual(['st1'])
+
+        const annots = reloaded.getPage(0).node.Annots()!
+        expect(annots.size()).toBe(1)
+        const remaining = reloaded.context.lookup(annots.get(0)) as PDFDict
+        expect((remaining.lookup(PDFName.of('Name')) as PDFName).decodeText()).toBe(SIGNATURE_STAMP_NAME)
+    })
+})
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+// Keeps records between opens, unlike the shared mock
+const memoryIndexedDB = () => {
+    const records = new Map<string, string>()
+    const request = (result?: unknown) => {
+        const req: any = { result }
+        setTimeout(() => req.onsuccess?.())
+        return req
+    }
+    const db = {
+        objectStoreNames: { contains: () => true },
+        transaction: () => ({
+            objectStore: () => ({
+                get: (key: string) => request(records.has(key) ? JSON.parse(records.get(key)!) : undefined),
+                put: (value: { id: string }) => request(records.set(value.id, JSON.stringify(value))),
+                delete: (key: string) => request(records.delete(key)),
+            }),
+        }),
+    }
+    return { open: () => request(db) }
+}
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+describe('Markup of the opened file', () => {
+    const openWithMarkup = async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage([612, 792])
+        doc.addPage([612, 792])
+        await writeNativeAnnotations(doc, [
+            makeAnnotation({ id: 'box', type: 'rectangle', endX: 0.5, endY: 0.5 }),
+            makeAnnotation({ id: 'note', type: 'sticky-note', text: 'Check', width: 0.2, height: 0.1 }),
+            makeAnnotation({ id: 'mark', type: 'highlight', endX: 0.4, endY: 0.13, page: 2 }),
+        ])
+        const bytes = new Uint8Array(await doc.save())
+        await usePdfEditorStore.getState().loadDocument(toBuffer(bytes), 'reviewed.pdf')
+        return bytes
+    }
+
+    const exported = async (options?: Parameters<ReturnType<typeof usePdfEditorStore.getState>['exportPdf']>[0]) =>
+        PDFDocument.load(await blobBytes(await usePdfEditorStore.getState().exportPdf(options)))
+
+    beforeEach(() => {
+        useAnnotationStore.setState({ annotations: [], importedNativeIds: [] })
+    })
+
+    it('keeps the file as opened and lifts its markup into the annotation layer', async () => {
+        const bytes = await openWithMarkup()
+        const state = usePdfEditorStore.getState()
+        expect(state.pdfData).toEqual(bytes)
+        expect(useAnnotationStore.getState().annotations.map((a) => a.id)).toEqual(['box', 'note', 'mark'])
+        expect(state.nativeAnnotations.map((native) => native.annotation.id)).toEqual(['box', 'note', 'mark'])
+
+        // Unchanged markup is exported as it is, with or without the annotation layer
+        const all = useAnnotationStore.getState().annotations
+        for (const doc of [await exported(), await exported({ annotations: all })]) {
+            expect(subtypesOnPage(doc, 0)).toEqual(['Square', 'Text'])
+            expect(subtypesOnPage(doc, 1)).toEqual(['Highlight'])
+        }
+    })
+
+    it('drops deleted markup and rewrites edited markup on export', async () => {
+        await openWithMarkup()
+        const annotations = useAnnotationStore.getState()
+        annotations.deleteAnnotation('note')
+        annotations.updateAnnotation('mark', { color: '#00ff00' })
+
+        const plain = await exported()
+        expect(readNativeAnnotations(plain).map((a) => [a.id, a.color])).toEqual([['box', '#ff0000'], ['mark', '#ff0000']])
+        expect(subtypesOnPage(plain, 0)).toEqual(['Square'])
+
+        const commented = await exported({ annotations: useAnnotationStore.getState().annotations })
+        expect(readNativeAnnotations(commented).map((a) => [a.id, a.color])).toEqual([['box', '#ff0000'], ['mark', '#00ff00']])
+
+        // Flattened markup is drawn into the page instead
+        const flattened = await exported({ annotations: useAnnotationStore.getState().annotations, flatten: true })
+        expect([subtypesOnPage(flattened, 0), subtypesOnPage(flattened, 1)]).toEqual([[], []])
+    })
+
+    it('does not bring deleted markup back when the file is opened again', async () => {
+        const previous = globalThis.indexedDB
+        vi.stubGlobal('indexedDB', memoryIndexedDB())
+        try {
+            const bytes = await openWithMarkup()
+            useAnnotationStore.getState().deleteAnnotation('note')
+            await usePdfEditorStore.getState().loadDocument(toBuffer(bytes), 'reviewed.pdf')
+
+            expect(useAnnotationStore.getState().annotations.map((a) => a.id)).toEqual(['box', 'mark'])
+            expect(subtypesOnPage(await exported(), 0)).toEqual(['Square'])
+        } finally {
+            vi.stubGlobal('indexedDB', previous)
+        }
+    })
+
+    it('does not copy markup the annotation layer duplicates itself', async () => {
+        await openWithMarkup()
+        await usePdfEditorStore.getState().duplicatePages([1])
+        const doc = await PDFDocument.load(usePdfEditorStore.getState().pdfData!)
+        expect([1, 2].map((i) => subtypesOnPage(doc, i))).toEqual([['Highlight'], []])
+        expect(useAnnotationStore.getState().annotations.filter((a) => a.type === 'highlight').map((a) => a.page)).toEqual([2, 3])
+    })
+
+    it('hides the markup from pdf.js, which would draw it under the annotation layer', async () => {
+        const bytes = await openWithMarkup()
+        const operatorCount = async (hide: boolean) => {
+            const pdf = await (pdfjsLib as any).getDocument({ data: bytes.slice(), disableWorker: true, verbosity: 0 }).promise
+            if (hide) hideFileAnnotations(pdf, nativeAnnotationRefs(usePdfEditorStore.getState().nativeAnnotations))
+            const page = await pdf.getPage(2)
+            const ops = await page.getOperatorList({ annotationMode: (pdfjsLib as any).AnnotationMode.ENABLE_STORAGE })
+            await pdf.destroy()
+            return ops.fnArray.length
+        }
+        const [shown, hidden] = [await operatorCount(false), await operatorCount(true)]
+        // An empty page: only the highlight's appearance draws anything
+        expect(shown).toBeGreaterThan(hidden)
+        expect(hidden).toBeLessThanOrEqual(2)
+    })
+})
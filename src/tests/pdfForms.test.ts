@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+import { fillFormFields, readFormFields } from '../utils/pdfForms'
+
+// One field of every supported kind on a 400x500 page
+const buildForm = async () => {
+    const doc = await PDFDocument.create()
+    const page = doc.addPage([400, 500])
+    const form = doc.getForm()
+    const name = form.createTextField('name')
+    name.setText('Ada')
+    name.addToPage(page, { x: 40, y: 440, width: 200, height: 20 })
+    form.createCheckBox('agree').addToPage(page, { x: 40, y: 400, width: 12, height: 12 })
+    const size = form.createRadioGroup('size')
+    size.addOptionToPage('small', page, { x: 40, y: 360, width: 12, height: 12 })
+    size.addOptionToPage('large', page, { x: 80, y: 360, width: 12, height: 12 })
+    const country = form.createDropdown('country')
+    country.addOptions(['France', 'Italy'])
+    country.addToPage(page, { x: 40, y: 320, width: 120, height: 20 })
+    const toppings = form.createOptionList('toppings')
+    toppings.addOptions(['Cheese', 'Ham', 'Olives'])
+    toppings.enableMultiselect()
+    toppings.addToPage(page, { x: 40, y: 240, width: 120, height: 60 })
+    return new Uint8Array(await doc.save())
+}
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+describe('readFormFields', () => {
+    it('reads every field kind with its value and widget boxes', async () => {
+        const doc = await PDFDocument.load(await buildForm())
+        const fields = readFormFields(doc)
+        expect(fields.map((f) => [f.name, f.kind, f.value])).toEqual([
+            ['name', 'text', 'Ada'],
+            ['agree', 'checkbox', false],
+            ['size', 'radio', ''],
+            ['country', 'dropdown', ''],
+            ['toppings', 'option-list', []],
+        ])
+        const name = fields[0].widgets[0]
+        expect(name.page).toBe(1)
+        expect(name.rect.left).toBeCloseTo(0.1)
+        expect(name.rect.top).toBeCloseTo(0.08)
+        expect(name.rect.width).toBeCloseTo(0.5)
+        expect(name.rect.height).toBeCloseTo(0.04)
+        expect(fields[2].widgets.map((w) => w.option)).toEqual(['small', 'large'])
+        expect(fields[3].options).toEqual(['France', 'Italy'])
+        expect(fields[4].multiSelect).toBe(true)
+    })
+
+    it('returns nothing for documents without a form and does not add one', async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage()
+        expect(readFormFields(doc)).toEqual([])
+        expect(doc.catalog.AcroForm()).toBeUndefined()
+    })
+})
+
+describe('fillFormFields', () => {
+    it('writes changed values and skips unchanged ones', async () => {
+        const doc = await PDFDocument.load(await buildForm())
+        const changed = fillFormFields(doc, { name: 'Ada', agree: true, size: 'large', country: 'Italy', toppings: ['Ham', 'Olives'] })
+        expect(changed).toBe(4)
+        const reloaded = await PDFDocument.load(await doc.save())
+        expect(readFormFields(reloaded).map((f) => f.value)).toEqual(['Ada', true, 'large', 'Italy', ['Ham', 'Olives']])
+    })
+
+    it('flattens the form into the page', async () => {
+        const doc = await PDFDocument.load(await buildForm())
+        fillFormFields(doc, { name: 'Grace' }, { flatten: true })
+        const reloaded = await PDFDocument.load(await doc.save())
+        expect(readFormFields(reloaded)).toEqual([])
+        expect(reloaded.getPage(0).node.Annots()?.size() ?? 0).toBe(0)
+    })
+})
+
+describe('form filling in the editor store', () => {
+    beforeEach(async () => {
+        useAnnotationStore.setState({ annotations: [] })
+        await usePdfEditorStore.getState().loadDocument(toBuffer(await buildForm()), 'form.pdf')
+    })
+
+    it('detects fields on load and exports entered values', async () => {
+        const store = usePdfEditorStore.getState()
+        expect(store.formFields.map((f) => f.name)).toEqual(['name', 'agree', 'size', 'country', 'toppings'])
+        store.setFormValue('name', 'Grace')
+        store.setFormValue('agree', true)
+        store.setFormValue('toppings', ['Cheese'])
+
+        const exported = await PDFDocument.load(await blobBytes(await usePdfEditorStore.getState().exportPdf()))
+        const form = exported.getForm()
+        expect(form.getTextField('name').getText()).toBe('Grace')
+        expect(form.getCheckBox('agree').isChecked()).toBe(true)
+        expect(form.getOptionList('toppings').getSelected()).toEqual(['Cheese'])
+    })
+
+    it('records each entry as an undoable step', () => {
+        const store = usePdfEditorStore.getState()
+        store.setFormValue('size', 'small')
+        store.setFormValue('size', 'small')
+        expect(useHistoryStore.getState().entries.map((e) => e.label)).toEqual(['Filled size'])
+        useHistoryStore.getState().undo()
+        expect(usePdfEditorStore.getState().formValues).toEqual({})
+        useHistoryStore.getState().redo()
+        expect(usePdfEditorStore.getState().formValues).toEqual({ size: 'small' })
+    })
+
+    it('keeps entered values as live fields in extracted pages', async () => {
+        const store = usePdfEditorStore.getState()
+        store.setFormValue('name', 'Grace')
+        store.setFormValue('country', 'Italy')
+        const extract = await PDFDocument.load(await blobBytes(await usePdfEditorStore.getState().exportPdf({ pageIndices: [0] })))
+        const form = extract.getForm()
+        expect(form.getFields().map((field) => field.getName())).toEqual(['name', 'agree', 'size', 'country', 'toppings'])
+        expect(form.getTextField('name').getText()).toBe('Grace')
+        expect(form.getDropdown('country').getSelected()).toEqual(['Italy'])
+    })
+
+    it('flattens the form on export when asked', async () => {
+        usePdfEditorStore.getState().setFormValue('country', 'France')
+        const exported = await PDFDocument.load(await blobBytes(await usePdfEditorStore.getState().exportPdf({ flattenForm: true })))
+        expect(readFormFields(exported)).toEqual([])
+        // The stored document keeps its live form
+        expect(usePdfEditorStore.getState().formFields).toHaveLength(5)
+    })
+})
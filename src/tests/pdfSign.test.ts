@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import type { Annotation } from '../types/annotations'
+import { OID, childAt, concatBytes, contextChild, parseDer, readOctets, readOid, retag } from '../utils/asn1'
+import { validateCertificateChain, verifySignedData } from '../utils/cms'
+import { readNativeAnnotations, writeNativeAnnotations } from '../utils/pdfAnnotations'
+import { readSignatureFields, signPdf, verifyPdfSignatures } from '../utils/pdfSign'
+import { loadSigningIdentity, type SigningIdentity } from '../utils/pkcs12'
+import { readCertificates } from '../utils/x509'
+import {
+    ADA_OPENSSL_CMS,
+    ADA_P12,
+    GRACE_OPENSSL_CMS,
+    GRACE_P12,
+    OPENSSL_CONTENT,
+    P12_PASSWORD,
+    ROOT_CA_PEM,
+} from './utils/signingFixtures'
+
+const PNG_1X1 = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+const drawnSignature: Annotation = {
+    id: 'sig',
+    type: 'signature',
+    page: 1,
+    color: '#000000',
+    startX: 0.1,
+    startY: 0.1,
+    endX: 0.4,
+    endY: 0.2,
+    imageDataUrl: PNG_1X1,
+    imageMime: 'image/png',
+    createdAt: new Date(0).toISOString(),
+}
+
+const blankPdf = async (useObjectStreams: boolean) => {
+    const doc = await PDFDocument.create()
+    doc.addPage([400, 500])
+    return new Uint8Array(await doc.save({ useObjectStreams }))
+}
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+
+const rootCa = () => readCertificates(new TextEncoder().encode(ROOT_CA_PEM))
+
+// The last signature of `bytes`: its byte range, the signed bytes and the CMS blob
+const lastSignature = (bytes: Uint8Array) => {
+    const text = latin1(bytes)
+    const ranges = [...text.matchAll(/\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/g)]
+    const range = ranges[ranges.length - 1].slice(1).map(Number)
+    const hex = text.slice(range[1] + 1, range[2] - 1)
+    // The reserved space is zero-padded past the end of the DER
+    const cms = parseDer(Uint8Array.from(hex.match(/../g)!, (pair) => parseInt(pair, 16))).der
+    const signed = concatBytes(bytes.subarray(range[0], range[0] + range[1]), bytes.subarray(range[2], range[2] + range[3]))
+    return { range, signed, cms }
+}
+
+const verifyRsaSignature = async (bytes: Uint8Array, identity: SigningIdentity) => {
+    const { range, signed, cms } = lastSignature(bytes)
+    expect(range[0]).toBe(0)
+    expect(range[2] + range[3]).toBe(bytes.length)
+
+    const signedData = childAt(contextChild(parseDer(cms), 0), 0)
+    const signerInfo = childAt(signedData.children[signedData.children.length - 1], 0)
+    const attributes = contextChild(signerInfo, 0)!
+    const digestAttribute = attributes.children.find((attribute) => readOid(childAt(attribute, 0)) === OID.messageDigest)!
+    const digest = new Uint8Array(await crypto.subtle.digest(identity.hash, signed as BufferSource))
+    expect(readOctets(childAt(childAt(digestAttribute, 1), 0))).toEqual(digest)
+
+    const key = await crypto.subtle.importKey('spki', identity.certificate.publicKey as BufferSource, { name: 'RSASSA-PKCS1-v1_5', hash: identity.hash }, false, ['verify'])
+    const signature = readOctets(signerInfo.children[signerInfo.children.length - 1])
+    return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature as BufferSource, retag(attributes.der, 0x31) as BufferSource)
+}
+
+describe('signing identities', () => {
+    it('opens AES-encrypted and legacy RC2/3DES PKCS#12 files', async () => {
+        const ada = await loadSigningIdentity(ADA_P12, P12_PASSWORD)
+        expect([ada.certificate.commonName, ada.certificate.email, ada.keyAlgorithm, ada.hash]).toEqual(['Ada Lovelace', 'ada@example.com', 'ECDSA', 'SHA-256'])
+        expect(ada.chain.map((cert) => cert.commonName)).toEqual(['Ada Lovelace', 'Pdfoid Test Root CA'])
+
+        const grace = await loadSigningIdentity(GRACE_P12, P12_PASSWORD)
+        expect([grace.certificate.commonName, grace.keyAlgorithm]).toEqual(['Grace Hopper', 'RSASSA-PKCS1-v1_5'])
+        expect(grace.chain).toHaveLength(2)
+    })
+
+    it('rejects a wrong password and files that are not PKCS#12', async () => {
+        await expect(loadSigningIdentity(ADA_P12, 'wrong')).rejects.toThrow(/Wrong password/)
+        await expect(loadSigningIdentity(new TextEncoder().encode('%PDF-1.7'), P12_PASSWORD)).rejects.toThrow(/PKCS#12/)
+    })
+})
+
+describe('signPdf', () => {
+    it('appends an invisible signature over everything but its own contents', async () => {
+        const identity = await loadSigningIdentity(GRACE_P12, P12_PASSWORD)
+        for (const useObjectStreams of [false, true]) {
+            const original = await blankPdf(useObjectStreams)
+            const signed = await signPdf(original, identity, { reason: 'Approved', signingTime: new Date('2026-01-02T03:04:05Z') })
+            // Incremental update: the original file is untouched
+            expect(signed.subarray(0, original.length)).toEqual(original)
+            expect(await verifyRsaSignature(signed, identity)).toBe(true)
+
+            const doc = await PDFDocument.load(signed)
+            expect(readSignatureFields(doc)).toEqual([{ name: 'Signature1', signed: true }])
+            const widget = doc.getPages()[0].node.Annots()!.lookup(0, PDFDict)
+            const value = widget.lookup(PDFName.of('V'), PDFDict)
+            expect(value.get(PDFName.of('SubFilter'))).toBe(PDFName.of('ETSI.CAdES.detached'))
+            expect(value.lookup(PDFName.of('Reason'), PDFHexString).decodeText()).toBe('Approved')
+            expect(doc.catalog.getAcroForm()!.dict.get(PDFName.of('SigFlags'))!.toString()).toBe('3')
+        }
+    })
+
+    it('adds a second signature without breaking the first', async () => {
+        const grace = await loadSigningIdentity(GRACE_P12, P12_PASSWORD)
+        const ada = await loadSigningIdentity(ADA_P12, P12_PASSWORD)
+        const first = await signPdf(await blankPdf(false), grace)
+        const second = await signPdf(first, ada, { appearance: drawnSignature })
+        expect(second.subarray(0, first.length)).toEqual(first)
+        expect(await verifyRsaSignature(first, grace)).toBe(true)
+
+        const doc = await PDFDocument.load(second)
+        expect(readSignatureFields(doc)).toEqual([
+            { name: 'Signature1', signed: true },
+            { name: 'Signature2', signed: true },
+        ])
+        // The new field sits over the drawing, with the image as its appearance
+        const widget = doc.getPages()[0].node.Annots()!.lookup(1, PDFDict)
+        expect(widget.lookup(PDFName.of('Rect'), PDFArray).asRectangle()).toEqual({ x: 40, y: 400, width: 120, height: 50 })
+        expect(widget.lookup(PDFName.of('AP'), PDFDict).has(PDFName.of('N'))).toBe(true)
+    })
+
+    it('refuses fields that do not exist or are already signed', async () => {
+        const identity = await loadSigningIdentity(GRACE_P12, P12_PASSWORD)
+        const signed = await signPdf(await blankPdf(false), identity)
+        await expect(signPdf(signed, identity, { fieldName: 'Missing' })).rejects.toThrow(/no signature field named "Missing"/)
+        await expect(signPdf(signed, identity, { fieldName: 'Signature1' })).rejects.toThrow(/already signed/)
+    })
+})
+
+describe('signed export', () => {
+    beforeEach(async () => {
+        useAnnotationStore.setState({ annotations: [] })
+        await usePdfEditorStore.getState().loadDocument(toBuffer(await blankPdf(true)), 'contract.pdf')
+    })
+
+    it('signs a designed signature field, showing the drawn signature in it', async () => {
+        const field: Annotation = { ...drawnSignature, id: 'field', type: 'form-field', fieldType: 'signature', fieldName: 'Approval', imageDataUrl: undefined }
+        useAnnotationStore.setState({ annotations: [field, drawnSignature] })
+        const identity = await loadSigningIdentity(GRACE_P12, P12_PASSWORD)
+        const blob = await usePdfEditorStore.getState().exportPdf({
+            annotations: [drawnSignature],
+            sign: { identity, fieldName: 'Approval', appearance: drawnSignature },
+        })
+        const bytes = await blobBytes(blob)
+        expect(await verifyRsaSignature(bytes, identity)).toBe(true)
+
+        const doc = await PDFDocument.load(bytes)
+        expect(readSignatureFields(doc)).toEqual([{ name: 'Approval', signed: true }])
+        // The drawing became the field's appearance instead of a separate stamp
+        const annots = doc.getPages()[0].node.Annots()!
+        expect(annots.size()).toBe(1)
+        const appearance = annots.lookup(0, PDFDict).lookup(PDFName.of('AP'), PDFDict).lookup(PDFName.of('N'))!
+        expect(appearance.toString()).toContain('/Im0')
+    })
+})
+
+describe('signature verification', () => {
+    it('verifies CMS signatures made by OpenSSL', async () => {
+        const grace = await verifySignedData(GRACE_OPENSSL_CMS, OPENSSL_CONTENT)
+        expect([grace.signer?.commonName, grace.hash, grace.digestMatches, grace.signatureValid]).toEqual(['Grace Hopper', 'SHA-384', true, true])
+        expect(grace.signingTime).toBeInstanceOf(Date)
+
+        // Named by subject key identifier, with the root left out of the signature
+        const ada = await verifySignedData(ADA_OPENSSL_CMS, OPENSSL_CONTENT)
+        expect([ada.signer?.commonName, ada.signatureValid, ada.certificates.length]).toEqual(['Ada Lovelace', true, 1])
+        const trusted = await validateCertificateChain(ada.signer!, ada.certificates, rootCa(), new Date())
+        expect([trusted.trusted, trusted.chain.map((cert) => cert.commonName)]).toEqual([true, ['Ada Lovelace', 'Pdfoid Test Root CA']])
+        const untrusted = await validateCertificateChain(ada.signer!, ada.certificates, [], new Date())
+        expect(untrusted.trusted).toBe(false)
+        expect(untrusted.problem).toMatch(/issuer of "Ada Lovelace" .* is not available/)
+
+        const tampered = await verifySignedData(ADA_OPENSSL_CMS, new TextEncoder().encode('signed by someone else'))
+        expect([tampered.digestMatches, tampered.signatureValid]).toEqual([false, true])
+    })
+
+    it('reports signer, time, chain and later revisions of signed PDFs', async () => {
+        const signingTime = new Date('2030-03-04T05:06:07Z')
+        const first = await signPdf(await blankPdf(false), await loadSigningIdentity(GRACE_P12, P12_PASSWORD), { reason: 'Reviewed', signingTime })
+        const second = await signPdf(first, await loadSigningIdentity(ADA_P12, P12_PASSWORD), { location: 'London', appearance: drawnSignature })
+
+        const signatures = await verifyPdfSignatures(second, rootCa())
+        expect(signatures.map((s) => [s.fieldName, s.page, s.signerName, s.valid, s.trusted, s.modifiedAfterSigning, s.problem])).toEqual([
+            ['Signature1', 1, 'Grace Hopper', true, true, true, undefined],
+            ['Signature2', 1, 'Ada Lovelace', true, true, false, undefined],
+        ])
+        expect(signatures[0].signingTime).toEqual(signingTime)
+        expect([signatures[0].reason, signatures[1].location, signatures[1].subFilter]).toEqual(['Reviewed', 'London', 'ETSI.CAdES.detached'])
+        expect(signatures[1].chain.map((cert) => cert.commonName)).toEqual(['Ada Lovelace', 'Pdfoid Test Root CA'])
+
+        const [untrusted] = await verifyPdfSignatures(first, [])
+        expect([untrusted.valid, untrusted.trusted, untrusted.modifiedAfterSigning]).toEqual([true, false, false])
+        expect(untrusted.problem).toMatch(/"Pdfoid Test Root CA" is not a trusted certificate/)
+    })
+
+    it('checks the signer certificate now, not at the claimed signing time', async () => {
+        const signed = await signPdf(await blankPdf(false), await loadSigningIdentity(GRACE_P12, P12_PASSWORD), { signingTime: new Date('2030-01-01T00:00:00Z') })
+        // Past the end of the test certificates' validity
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date('2127-01-01T00:00:00Z'))
+        try {
+            const [signature] = await verifyPdfSignatures(signed, rootCa())
+            expect([signature.valid, signature.trusted, signature.problem]).toEqual([true, false, '"Grace Hopper" has expired'])
+            expect(signature.signingTime).toEqual(new Date('2030-01-01T00:00:00Z'))
+        } finally {
+            vi.useRealTimers()
+        }
+    })
+
+    it('flags signatures whose signed bytes have changed', async () => {
+        const signed = await signPdf(await blankPdf(false), await loadSigningIdentity(GRACE_P12, P12_PASSWORD))
+        const tampered = signed.slice()
+        // Inside the header comment: still a readable PDF
+        tampered[latin1(signed).indexOf('%', 1) + 1] ^= 1
+        const [signature] = await verifyPdfSignatures(tampered, rootCa())
+        expect([signature.valid, signature.trusted, signature.problem]).toEqual([false, false, 'The signed content has changed'])
+    })
+})
+
+describe('signatures in the editor store', () => {
+    beforeEach(() => {
+        window.localStorage.removeItem('pdfoid.trustAnchors')
+        usePdfEditorStore.setState({ trustAnchors: [] })
+        useAnnotationStore.setState({ annotations: [] })
+    })
+
+    it('verifies signatures on load and again when trust anchors change', async () => {
+        const signed = await signPdf(await blankPdf(true), await loadSigningIdentity(ADA_P12, P12_PASSWORD))
+        await usePdfEditorStore.getState().loadDocument(toBuffer(signed), 'signed.pdf')
+        let state = usePdfEditorStore.getState()
+        expect(state.signatures.map((s) => [s.signerName, s.valid, s.trusted])).toEqual([['Ada Lovelace', true, false]])
+        expect(state.signedPdfData).toBe(state.pdfData)
+
+        const pem = new TextEncoder().encode(ROOT_CA_PEM)
+        expect(await state.importTrustAnchors(pem)).toBe(1)
+        expect(await state.importTrustAnchors(pem)).toBe(0)
+        state = usePdfEditorStore.getState()
+        expect(state.signatures[0].trusted).toBe(true)
+        expect(JSON.parse(window.localStorage.getItem('pdfoid.trustAnchors')!)).toHaveLength(1)
+
+        await state.removeTrustAnchor(0)
+        expect(usePdfEditorStore.getState().signatures[0].trusted).toBe(false)
+
+        await usePdfEditorStore.getState().loadDocument(toBuffer(await blankPdf(true)), 'plain.pdf')
+        expect([usePdfEditorStore.getState().signatures, usePdfEditorStore.getState().signedPdfData]).toEqual([[], null])
+    })
+
+    it('opens signed files with markup without re-saving them', async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage([400, 500])
+        const box: Annotation = { id: 'box', type: 'rectangle', page: 1, color: '#ff0000', startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.3, createdAt: new Date(0).toISOString() }
+        await writeNativeAnnotations(doc, [box])
+        const signed = await signPdf(new Uint8Array(await doc.save()), await loadSigningIdentity(ADA_P12, P12_PASSWORD))
+
+        await usePdfEditorStore.getState().loadDocument(toBuffer(signed), 'signed.pdf')
+        const state = usePdfEditorStore.getState()
+        expect(state.pdfData).toBe(state.signedPdfData)
+        expect(state.pdfData).toEqual(signed)
+        expect(useAnnotationStore.getState().annotations.map((a) => a.id)).toEqual(['box'])
+
+        // Nothing changed: the export is the signed file itself
+        const annotations = useAnnotationStore.getState().annotations
+        expect(await blobBytes(await state.exportPdf({ annotations }))).toEqual(signed)
+        expect(readNativeAnnotations(await PDFDocument.load(await blobBytes(await state.exportPdf()))).map((a) => a.id)).toEqual(['box'])
+    })
+
+    it('appends edits to signed files as an incremental update', async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage([400, 500])
+        const box: Annotation = { id: 'box', type: 'rectangle', page: 1, color: '#ff0000', startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.3, createdAt: new Date(0).toISOString() }
+        await writeNativeAnnotations(doc, [box])
+        const signed = await signPdf(new Uint8Array(await doc.save()), await loadSigningIdentity(ADA_P12, P12_PASSWORD))
+        await usePdfEditorStore.getState().loadDocument(toBuffer(signed), 'signed.pdf')
+
+        const annotations = useAnnotationStore.getState()
+        annotations.deleteAnnotation('box')
+        annotations.addAnnotation({ ...box, id: 'oval', type: 'ellipse', startY: 0.5, endY: 0.7 })
+        for (const flatten of [false, true]) {
+            const exported = await blobBytes(await usePdfEditorStore.getState().exportPdf({ annotations: useAnnotationStore.getState().annotations, flatten }))
+            expect(exported.subarray(0, signed.length)).toEqual(signed)
+            const [signature] = await verifyPdfSignatures(exported, [])
+            expect([signature.valid, signature.modifiedAfterSigning]).toEqual([true, true])
+            const page = (await PDFDocument.load(exported)).getPage(0)
+            const subtypes = (page.node.Annots()?.asArray() ?? []).map((ref) => (page.doc.context.lookup(ref) as PDFDict).get(PDFName.of('Subtype'))?.toString())
+            expect(subtypes).toEqual(flatten ? ['/Widget'] : ['/Widget', '/Circle'])
+        }
+    })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { PII_DETECTORS, ibanValid, luhnValid, type PiiDetectorId } from '../utils/piiDetectors'
+import { buildSearchRegex, findInText } from '../utils/textSearch'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+
+// Valid hits of one detector in `text`, as the store runs it
+const detect = (id: PiiDetectorId, text: string) => {
+    const detector = PII_DETECTORS.find((d) => d.id === id)!
+    return findInText(text, buildSearchRegex(detector.pattern, { regex: true }))
+        .map((hit) => hit.text)
+        .filter((hit) => detector.validate?.(hit) ?? true)
+}
+
+describe('personal data detectors', () => {
+    it('checks card numbers and IBANs', () => {
+        expect(luhnValid('4111111111111111')).toBe(true)
+        expect(luhnValid('4111111111111112')).toBe(false)
+        expect(ibanValid('GB82 WEST 1234 5698 7654 32')).toBe(true)
+        expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false)
+        expect(ibanValid('gb82 west 1234 5698 7654 32')).toBe(false)
+    })
+
+    it('finds each kind of data and rejects look-alikes', () => {
+        expect(detect('email', 'Write to jane.doe+pdf@example.co.uk today')).toEqual(['jane.doe+pdf@example.co.uk'])
+        expect(detect('credit-card', 'Card 4111 1111 1111 1111 exp 12/27, ref 4111 1111 1111 1112')).toEqual(['4111 1111 1111 1111'])
+        expect(detect('credit-card', 'Amex 3782-822463-10005')).toEqual(['3782-822463-10005'])
+        expect(detect('iban', 'Pay DE89 3704 0044 0532 0130 00 and GB82WEST12345698765432 by Friday')).toEqual([
+            'DE89 3704 0044 0532 0130 00',
+            'GB82WEST12345698765432',
+        ])
+        expect(detect('national-id', 'SSN 123-45-6789, 666-12-3456; NI AB 12 34 56 C, QQ 12 34 56 C; SIN 046 454 286')).toEqual([
+            '123-45-6789',
+            'AB 12 34 56 C',
+            '046 454 286',
+        ])
+        expect(detect('date', 'Born 2024-02-29, signed 31/12/2023, due March 5, 2024 or 5th May 2024; not 45/45/2020')).toEqual([
+            '2024-02-29',
+            '31/12/2023',
+            'March 5, 2024',
+            '5th May 2024',
+        ])
+        expect(detect('phone', 'Call +1 (555) 123-4567 or 020 7946 0958, room 12 34')).toEqual(['+1 (555) 123-4567', '020 7946 0958'])
+    })
+
+    it('scans the document with one detector per overlapping hit', async () => {
+        const doc = await PDFDocument.create()
+        const font = await doc.embedFont(StandardFonts.Helvetica)
+        const page = doc.addPage([400, 200])
+        page.drawText('Contact jane@example.com or +44 20 7946 0958', { x: 20, y: 160, size: 10, font })
+        page.drawText('Card 4111 1111 1111 1111 issued 2024-01-15', { x: 20, y: 140, size: 10, font })
+        page.drawText('Employee E-12345', { x: 20, y: 120, size: 10, font })
+        const bytes = new Uint8Array(await doc.save())
+        usePdfEditorStore.setState({ pdfData: bytes, numPages: 1, pageSizes: [{ width: 400, height: 200 }], lastFindResults: [] })
+
+        const hits = await usePdfEditorStore.getState().findSensitiveData({
+            custom: [{ label: 'Employee number', pattern: 'E-\\d{5}' }],
+        })
+        expect(hits.map((hit) => [hit.detector, hit.label, hit.text])).toEqual([
+            ['email', 'Email address', 'jane@example.com'],
+            ['phone', 'Phone number', '+44 20 7946 0958'],
+            ['credit-card', 'Credit card number', '4111 1111 1111 1111'],
+            ['date', 'Date', '2024-01-15'],
+            ['custom', 'Employee number', 'E-12345'],
+        ])
+        // The last find is kept for replace and highlight-all
+        expect(usePdfEditorStore.getState().lastFindResults).toEqual([])
+
+        await expect(usePdfEditorStore.getState().findSensitiveData({ detectors: [], custom: [{ label: 'Broken', pattern: '(' }] }))
+            .rejects.toThrow('Broken: Invalid regular expression')
+    })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest'
+import {
+    PDFDocument,
+    PDFName,
+    PDFRawStream,
+    StandardFonts,
+    concatTransformationMatrix,
+    decodePDFRawStream,
+    degrees,
+    drawObject,
+    popGraphicsState,
+    pushGraphicsState,
+    rgb,
+} from 'pdf-lib'
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
+import { parseOperations, serializeOperations } from '../utils/contentStream'
+import { readNativeAnnotations, writeNativeAnnotations } from '../utils/pdfAnnotations'
+import { redactPage, removeUnreachableObjects, stripRedactedMetadata } from '../utils/pdfRedact'
+import { textInRect, textItemsFromContent } from '../utils/pageText'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+import type { Annotation } from '../types/annotations'
+
+const pageText = async (bytes: Uint8Array) => {
+    const reader = await (pdfjsLib as any).getDocument({ data: bytes.slice(), disableWorker: true, verbosity: 0 }).promise
+    try {
+        const page = await reader.getPage(1)
+        return textItemsFromContent(await page.getTextContent(), page.getViewport({ scale: 1 }))
+    } finally {
+        await reader.destroy()
+    }
+}
+
+// Every stream in the file, decoded where possible, as one-byte-per-char text
+const allStreamText = async (bytes: Uint8Array) => {
+    const doc = await PDFDocument.load(bytes)
+    let text = ''
+    for (const [, obj] of doc.context.enumerateIndirectObjects()) {
+        if (!(obj instanceof PDFRawStream)) continue
+        const data = obj.dict.has(PDFName.of('Filter')) ? decodePDFRawStream(obj).decode() : obj.getContents()
+        for (let i = 0; i < data.length; i++) text += String.fromCharCode(data[i])
+    }
+    return text
+}
+
+// 300 x 200 pt page: two lines of text, a 2 x 2 red image and two squares
+const buildFixture = async () => {
+    const doc = await PDFDocument.create()
+    doc.setTitle('Contract for John Smith')
+    doc.setAuthor('Legal team')
+    const font = await doc.embedFont(StandardFonts.Helvetica)
+    const page = doc.addPage([300, 200])
+    page.drawText('Name: John Smith', { x: 20, y: 160, size: 12, font })
+    page.drawText('Account 12345', { x: 20, y: 140, size: 12, font })
+    page.drawRectangle({ x: 200, y: 20, width: 10, height: 10, color: rgb(0, 0, 1) })
+    page.drawRectangle({ x: 240, y: 20, width: 10, height: 10, color: rgb(0, 1, 0) })
+    const pixels = new Uint8Array(2 * 2 * 3)
+    for (let i = 0; i < 4; i++) pixels[i * 3] = 255
+    const image = doc.context.register(doc.context.flateStream(pixels, {
+        Type: 'XObject', Subtype: 'Image', Width: 2, Height: 2, ColorSpace: 'DeviceRGB', BitsPerComponent: 8,
+    }))
+    const name = page.node.newXObject('Img', image)
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(40, 0, 0, 40, 100, 20), drawObject(name), popGraphicsState())
+    return doc
+}
+
+describe('redaction', () => {
+    it('parses content operations and writes them back', () => {
+        const source = 'BT /F1 12 Tf (a\\(b\\)) Tj [<0041> -120 (c)] TJ ET\nq 1 0 0 1 5 5 cm BI /W 1 /H 1 ID x EI Q'
+        const ops = parseOperations(source)
+        expect(ops.map((op) => op.operator)).toEqual(['BT', 'Tf', 'Tj', 'TJ', 'ET', 'q', 'cm', 'BI', 'Q'])
+        expect(ops[2].operands[0]).toMatchObject({ kind: 'string', bytes: [97, 40, 98, 41] })
+        expect(ops[3].operands[0]).toMatchObject({ kind: 'array' })
+        expect(ops[7].raw).toBe('BI /W 1 /H 1 ID x EI')
+        expect(parseOperations(serializeOperations(ops))).toEqual(ops)
+    })
+
+    it('removes text, image pixels, paths and metadata under the areas', async () => {
+        const doc = await buildFixture()
+        const page = doc.getPage(0)
+        const stats = await redactPage(doc, page, [
+            // "John Smith" on the first line
+            { x: 57, y: 155, width: 80, height: 18 },
+            // Left half of the image
+            { x: 95, y: 15, width: 25, height: 50 },
+            // The blue square
+            { x: 195, y: 15, width: 20, height: 20, color: { r: 1, g: 1, b: 1 } },
+        ])
+        expect(stats.glyphs).toBe(10)
+        expect(stats.images).toBe(1)
+        expect(stats.paths).toBe(1)
+        expect(stripRedactedMetadata(doc, ['John Smith'])).toBe(1)
+        removeUnreachableObjects(doc)
+
+        const bytes = await doc.save()
+        const items = await pageText(bytes)
+        const text = items.map((item) => item.str).join(' ')
+        expect(text).toContain('Name:')
+        expect(text).toContain('Account 12345')
+        expect(text).not.toContain('John')
+        // The kept text did not move
+        expect(textInRect(items, { left: 20 / 300, top: 0, width: 45 / 300, height: 0.5 })).toBe('Name: Account')
+
+        const saved = await PDFDocument.load(bytes)
+        expect(saved.getTitle()).toBeUndefined()
+        expect(saved.getAuthor()).toBe('Legal team')
+        const raw = await allStreamText(bytes)
+        expect(raw).not.toMatch(/John|Smith/)
+        // Only the green square's path is left
+        expect(raw.match(/0 0 m\n0 10 l/g)).toHaveLength(1)
+
+        // Image pixels left of x = 120 are blanked; the right column stays red
+        const xObjects = saved.getPage(0).node.Resources()!.lookup(PDFName.of('XObject')) as any
+        const images = xObjects.entries()
+            .map(([, ref]: any) => saved.context.lookup(ref))
+            .filter((obj: any) => obj instanceof PDFRawStream)
+        expect(images).toHaveLength(1)
+        expect(Array.from(decodePDFRawStream(images[0]).decode())).toEqual([0, 0, 0, 255, 0, 0, 0, 0, 0, 255, 0, 0])
+    })
+
+    it('takes redacted form fields out of the form, value included', async () => {
+        const doc = await buildFixture()
+        const form = doc.getForm()
+        // pdf-lib puts each widget under its field as a /Kids entry
+        const ssn = form.createTextField('ssn')
+        ssn.setText('078-05-1120')
+        ssn.addToPage(doc.getPage(0), { x: 20, y: 100, width: 120, height: 20 })
+        form.createTextField('note').addToPage(doc.getPage(0), { x: 160, y: 100, width: 120, height: 20 })
+        await doc.save()
+
+        const stats = await redactPage(doc, doc.getPage(0), [{ x: 10, y: 95, width: 140, height: 30 }])
+        expect(stats.annotations).toBe(1)
+        removeUnreachableObjects(doc)
+        const bytes = await doc.save({ useObjectStreams: false })
+        const reloaded = await PDFDocument.load(bytes)
+        expect(reloaded.getForm().getFields().map((field) => field.getName())).toEqual(['note'])
+        expect(new TextDecoder('latin1').decode(bytes)).not.toContain('078-05-1120')
+        expect(await allStreamText(bytes)).not.toContain('078-05-1120')
+    })
+
+    it('keeps the page untouched outside the areas', async () => {
+        const doc = await buildFixture()
+        const stats = await redactPage(doc, doc.getPage(0), [{ x: 0, y: 80, width: 10, height: 10 }])
+        expect(stats).toEqual({ glyphs: 0, images: 0, paths: 0, annotations: 0 })
+        const items = await pageText(await doc.save())
+        expect(items.map((item) => item.str).join(' ')).toBe('Name: John Smith Account 12345')
+    })
+
+    it('marks find results, applies them in one undo step and verifies the page', async () => {
+        const bytes = new Uint8Array(await (await buildFixture()).save())
+        usePdfEditorStore.setState({ pdfData: bytes, numPages: 1, pageSizes: [{ width: 300, height: 200 }] })
+        useAnnotationStore.setState({ annotations: [] })
+        useHistoryStore.getState().clear()
+        const store = usePdfEditorStore.getState()
+
+        const matches = await store.findTextMatches({ search: 'John Smith' })
+        expect(matches).toHaveLength(1)
+        usePdfEditorStore.setState({ lastFindResults: matches })
+        expect(store.markRedactions()).toBe(1)
+        expect(store.markRedactions()).toBe(0)
+        const [mark] = useAnnotationStore.getState().annotations
+        expect(mark).toMatchObject({ type: 'redact', selectedText: 'John Smith' })
+
+        const result = await store.applyRedactions()
+        expect(result).toMatchObject({ applied: 1, glyphs: 10, metadata: 1, leaks: [] })
+        expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+        const text = (await pageText(usePdfEditorStore.getState().pdfData!)).map((item) => item.str).join(' ')
+        expect(text).not.toContain('John')
+        expect(text).toContain('Account 12345')
+
+        useHistoryStore.getState().undo()
+        expect(usePdfEditorStore.getState().pdfData).toBe(bytes)
+        expect(useAnnotationStore.getState().annotations.map((a) => a.id)).toEqual([mark.id])
+    })
+
+    it('redacts what the viewer shows on rotated and cropped pages', async () => {
+        for (const angle of [90, 180, 270]) {
+            const doc = await buildFixture()
+            doc.getPage(0).setRotation(degrees(angle))
+            doc.getPage(0).setCropBox(10, 10, 280, 180)
+            const bytes = new Uint8Array(await doc.save())
+            usePdfEditorStore.setState({ pdfData: bytes, numPages: 1, pageSizes: [{ width: 300, height: 200 }] })
+            useAnnotationStore.setState({ annotations: [] })
+            const store = usePdfEditorStore.getState()
+
+            // Marked where the line shows on screen
+            const line = (await store.readPageText([1])).get(1)!.find((item) => item.str.includes('John'))!
+            const quad: [number, number, number, number] = [line.left, line.top, line.left + line.width, line.top + line.height]
+            useAnnotationStore.getState().addAnnotation({
+                id: `redact-${angle}`, type: 'redact', page: 1, startX: quad[0], startY: quad[1], endX: quad[2], endY: quad[3],
+                quads: [quad], createdAt: new Date(0).toISOString(),
+            })
+
+            const result = await store.applyRedactions()
+            expect(result).toMatchObject({ applied: 1, glyphs: 16, leaks: [] })
+            const text = (await pageText(usePdfEditorStore.getState().pdfData!)).map((item) => item.str).join(' ')
+            expect(text).toBe('Account 12345')
+        }
+    })
+
+    it('marks find results where they show on rotated and cropped pages', async () => {
+        for (const angle of [0, 90, 180, 270]) {
+            const doc = await buildFixture()
+            doc.getPage(0).setRotation(degrees(angle))
+            doc.getPage(0).setCropBox(10, 10, 280, 180)
+            usePdfEditorStore.setState({ pdfData: new Uint8Array(await doc.save()), numPages: 1, pageSizes: [{ width: 300, height: 200 }] })
+            useAnnotationStore.setState({ annotations: [] })
+            const store = usePdfEditorStore.getState()
+
+            expect(store.markRedactions(await store.findTextMatches({ search: 'John Smith' }))).toBe(1)
+            const result = await store.applyRedactions()
+            expect(result).toMatchObject({ applied: 1, glyphs: 10, leaks: [] })
+            const text = (await pageText(usePdfEditorStore.getState().pdfData!)).map((item) => item.str).join(' ')
+            expect(text).not.toContain('John')
+            expect(text).toContain('Account 12345')
+        }
+    })
+
+    it('removes markup on the redacted areas, from the layer and from the file', async () => {
+        const doc = await buildFixture()
+        const note: Annotation = {
+            id: 'note', type: 'sticky-note', page: 1, color: '#ffd400', startX: 0.3, startY: 0.16, width: 0.05, height: 0.05,
+            text: 'Lives at 1 Main Street', createdAt: new Date(0).toISOString(),
+        }
+        await writeNativeAnnotations(doc, [note])
+        const bytes = new Uint8Array(await doc.save())
+        useAnnotationStore.setState({ annotations: [], importedNativeIds: [] })
+        await usePdfEditorStore.getState().loadDocument(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, 'contract.pdf')
+        const store = usePdfEditorStore.getState()
+
+        for (const search of ['Account', 'John Smith']) {
+            usePdfEditorStore.setState({ lastFindResults: await store.findTextMatches({ search }) })
+            expect(store.highlightFindResults()).toBe(1)
+        }
+        useAnnotationStore.getState().addAnnotation({
+            id: 'box', type: 'text-box', page: 1, color: '#000000', startX: 0.05, startY: 0.12, endX: 0.35, endY: 0.18,
+            text: 'John Smith is late', createdAt: new Date(0).toISOString(),
+        })
+        expect(store.markRedactions()).toBe(1)
+
+        const result = await store.applyRedactions()
+        // The file's note was counted where it was removed from the page
+        expect(result).toMatchObject({ applied: 1, annotations: 3, leaks: [] })
+        expect(useAnnotationStore.getState().annotations.map((a) => a.selectedText)).toEqual(['Account'])
+        const redacted = await PDFDocument.load(usePdfEditorStore.getState().pdfData!)
+        expect(readNativeAnnotations(redacted)).toEqual([])
+        const subtypes = redacted.context.enumerateIndirectObjects().map(([, obj]) => (obj as any).get?.(PDFName.of('Subtype'))?.toString())
+        expect(subtypes).not.toContain('/Text')
+    })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { Annotation } from '../types/annotations'
+import { selectTextRange, textItemsFromContent, textNearRect, type PageTextItem } from '../utils/pageText'
+import { annotationRect, buildReportEntries, reportToCsv, reportToHtml, reportToMarkdown } from '../utils/annotationReport'
+import { generateReportPDF } from '../utils/reportPdfGenerator'
+
+// 200 x 100 pt page, unrotated: flip y like pdf.js does
+const viewport = {
+    width: 200,
+    height: 100,
+    convertToViewportPoint: (x: number, y: number) => [x, 100 - y],
+}
+
+const run = (str: string, x: number, y: number, width: number) => ({ str, transform: [10, 0, 0, 10, x, y], width, height: 10 })
+
+const textByPage = new Map<number, PageTextItem[]>([[1, textItemsFromContent({
+    items: [
+        run('world', 60, 80, 30),
+        run('Hello', 20, 80, 30),
+        run('Second line', 20, 60, 60),
+        run('   ', 0, 0, 5),
+    ],
+}, viewport)]])
+
+const note: Annotation = {
+    id: 'n1',
+    type: 'sticky-note',
+    page: 1,
+    startX: 0.1,
+    startY: 0.1,
+    text: 'Say "hi", =SUM(A1)',
+    author: 'Ana',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    replies: [{ id: 'r1', text: 'Done <b>', author: 'Ben', createdAt: '2024-05-01T11:00:00.000Z' }],
+}
+
+const highlight: Annotation = {
+    id: 'h1',
+    type: 'highlight',
+    page: 1,
+    startX: 0.1,
+    startY: 0.4,
+    endX: 0.4,
+    endY: 0.5,
+    status: 'resolved',
+    createdAt: '2024-05-01T09:00:00.000Z',
+}
+
+describe('comments summary report', () => {
+    it('maps text runs to normalized boxes and reads text near a rect', () => {
+        const items = textByPage.get(1)!
+        expect(items).toHaveLength(3)
+        expect(items[1]).toEqual({ str: 'Hello', left: 0.1, top: 0.1, width: 0.15, height: 0.1 })
+        expect(textNearRect(items, { left: 0.1, top: 0.12, width: 0.3, height: 0.02 })).toBe('Hello world')
+        expect(textNearRect(items, annotationRect(highlight))).toBe('Second line')
+        expect(textNearRect(items, { left: 0.8, top: 0.8, width: 0.1, height: 0.1 })).toBe('')
+    })
+
+    it('snaps a text selection to glyphs with one quad per line', () => {
+        const items = textByPage.get(1)!
+        // From inside "Hello" (third glyph) down to the middle of "Second line"
+        const selection = selectTextRange(items, { x: 0.15, y: 0.15 }, { x: 0.27, y: 0.35 })!
+        expect(selection.text).toBe('llo world Second')
+        expect(selection.quads).toHaveLength(2)
+        const [first, second] = selection.quads
+        expect(first[0]).toBeCloseTo(0.16, 5)
+        expect(first[2]).toBeCloseTo(0.45, 5)
+        expect(second).toEqual([0.1, 0.3, expect.closeTo(0.1 + (6 / 11) * 0.3, 5), 0.4])
+
+        // Dragging backwards selects the same text; empty areas select nothing
+        expect(selectTextRange(items, { x: 0.27, y: 0.35 }, { x: 0.15, y: 0.15 })?.text).toBe('llo world Second')
+        expect(selectTextRange(items, { x: 0.6, y: 0.5 }, { x: 0.9, y: 0.9 })).toBeNull()
+    })
+
+    it('builds entries in reading order with snippets', () => {
+        const entries = buildReportEntries([highlight, note], textByPage)
+        expect(entries.map((e) => [e.id, e.type, e.status, e.snippet])).toEqual([
+            ['n1', 'sticky note', 'open', 'Hello world'],
+            ['h1', 'highlight', 'resolved', 'Second line'],
+        ])
+        expect(buildReportEntries([highlight, note], textByPage, { commentsOnly: true }).map((e) => e.id)).toEqual(['n1'])
+        expect(buildReportEntries([{ ...highlight, selectedText: 'Second' }], textByPage)[0].snippet).toBe('Second')
+    })
+
+    it('renders Markdown, HTML and CSV', () => {
+        const entries = buildReportEntries([note, highlight], textByPage)
+        const meta = { fileName: 'contract.pdf', generatedAt: new Date('2024-05-02T00:00:00.000Z') }
+
+        const markdown = reportToMarkdown(entries, meta)
+        expect(markdown).toContain('# Comments summary: contract.pdf')
+        expect(markdown).toContain('## Page 1')
+        expect(markdown).toContain('> Say "hi", =SUM(A1)')
+        expect(markdown).toContain('Context: “Hello world”')
+        expect(markdown).toMatch(/- \*\*Ben\*\* \(.+\): Done <b>/)
+
+        const html = reportToHtml(entries, meta)
+        expect(html).toMatch(/^<!DOCTYPE html>/)
+        expect(html).toContain('Done &lt;b&gt;')
+        expect(html).toContain('<span class="status">resolved</span>')
+
+        const [header, first] = reportToCsv(entries).split('\r\n')
+        expect(header).toBe('Page,Type,Author,Created,Status,Text,Context,Replies')
+        expect(first).toBe('1,sticky note,Ana,2024-05-01T10:00:00.000Z,open,"Say ""hi"", =SUM(A1)",Hello world,Ben: Done <b>')
+        expect(reportToCsv([{ ...entries[0], text: '=HYPERLINK("x")' }])).toContain(`"'=HYPERLINK(""x"")"`)
+    })
+
+    it('renders a PDF with text outside WinAnsi replaced', async () => {
+        const entries = buildReportEntries([{ ...note, text: 'Check ✓ 名前' }, highlight], textByPage)
+        const bytes = await generateReportPDF(entries, { fileName: 'contract.pdf', generatedAt: new Date() })
+        const doc = await PDFDocument.load(bytes)
+        expect(doc.getPageCount()).toBe(1)
+        expect(doc.getTitle()).toBe('Comments summary: contract.pdf')
+    })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib'
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js'
+import type { Annotation, TextRun } from '../types/annotations'
+import {
+    editRuns,
+    layoutText,
+    parseRichContents,
+    rangeStyle,
+    richContents,
+    runFields,
+    styleRange,
+    textBoxFrame,
+    type TextLayout,
+} from '../utils/richText'
+import { textItemsFromContent } from '../utils/pageText'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+
+const lineTexts = (layout: TextLayout) => layout.lines.map((line) => line.segments.map((segment) => segment.text).join(''))
+
+const makeBox = (partial: Partial<Annotation>): Annotation => ({
+    id: 'tb1',
+    type: 'text-box',
+    page: 1,
+    createdAt: '2024-05-01T10:00:00.000Z',
+    startX: 0.1,
+    startY: 0.1,
+    color: '#000000',
+    fontSize: 10,
+    ...partial,
+})
+
+describe('rich text boxes', () => {
+    it('keeps run styles through edits and restyling', () => {
+        const runs: TextRun[] = [{ text: 'Hello', bold: true }, { text: ' world' }]
+
+        // Typed characters take the style before them
+        expect(editRuns(runs, 'Hello! world')).toEqual([{ text: 'Hello!', bold: true }, { text: ' world' }])
+        expect(editRuns(runs, 'Help world')).toEqual([{ text: 'Help', bold: true }, { text: ' world' }])
+        expect(editRuns(runs, 'Hello')).toEqual([{ text: 'Hello', bold: true }])
+
+        const underlined = styleRange(runs, 6, 11, { underline: true })
+        expect(underlined).toEqual([{ text: 'Hello', bold: true }, { text: ' ' }, { text: 'world', underline: true }])
+        expect(rangeStyle(underlined, 0, 5)).toEqual({ bold: true, italic: false, underline: false })
+        expect(rangeStyle(underlined, 0, 11).bold).toBe(false)
+        expect(styleRange(underlined, 0, 11, { bold: false, underline: false })).toEqual([{ text: 'Hello world' }])
+
+        expect(runFields([{ text: 'plain' }])).toEqual({ text: 'plain', textRuns: undefined })
+        expect(runFields(underlined).text).toBe('Hello world')
+
+        const box = makeBox({ text: 'Hello world\nA & <b>', textRuns: [{ text: 'Hello', bold: true, italic: true }, { text: ' world\nA & <b>' }], textAlign: 'center', lineSpacing: 1.5 })
+        const parsed = parseRichContents(richContents(box))
+        expect(parsed.runs).toEqual(box.textRuns)
+        expect(parsed.textAlign).toBe('center')
+        expect(parsed.lineSpacing).toBe(1.5)
+    })
+
+    it('wraps lines with the standard font metrics of each style', () => {
+        // Helvetica at 10pt: "Hello world" is 49.45pt wide, but 51.12pt with a bold "Hello"
+        expect(lineTexts(layoutText([{ text: 'Hello world again' }], { fontSize: 10, maxWidth: 50 }))).toEqual(['Hello world', 'again'])
+        expect(lineTexts(layoutText([{ text: 'Hello', bold: true }, { text: ' world again' }], { fontSize: 10, maxWidth: 50 })))
+            .toEqual(['Hello', 'world', 'again'])
+        expect(lineTexts(layoutText([{ text: 'a\n\nb' }], { fontSize: 10, maxWidth: 50 }))).toEqual(['a', '', 'b'])
+
+        // Words wider than the box break between characters
+        const long = layoutText([{ text: 'Supercalifragilistic' }], { fontSize: 10, maxWidth: 30 })
+        expect(long.lines.length).toBeGreaterThan(2)
+        expect(long.lines.every((line) => line.width <= 30)).toBe(true)
+        expect(lineTexts(long).join('')).toBe('Supercalifragilistic')
+
+        const centered = layoutText([{ text: 'Hello' }], { fontSize: 10, maxWidth: 50, align: 'center', lineSpacing: 2 })
+        expect(centered.lines[0].segments[0].x).toBeCloseTo((50 - 22.78) / 2, 2)
+        expect(centered.lineHeight).toBe(20)
+
+        // Auto-grow boxes fit their text; fixed boxes keep their height and clip
+        const text = 'Hello world again'
+        const grown = textBoxFrame(makeBox({ text, width: 58 / 600, height: 0, autoGrow: true }), 600, 800)
+        expect(grown.layout.lines).toHaveLength(2)
+        expect(grown.height).toBeCloseTo(2 * 12 + 8, 5)
+        expect(grown.clip).toBe(false)
+        const fixed = textBoxFrame(makeBox({ text, width: 58 / 600, height: 20 / 800 }), 600, 800)
+        expect(fixed.height).toBeCloseTo(20, 5)
+        expect(fixed.clip).toBe(true)
+    })
+
+    it('flattens wrapped, aligned and styled text into the page', async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage([600, 800])
+        const bytes = new Uint8Array(await doc.save())
+        usePdfEditorStore.setState({ pdfData: bytes, numPages: 1, pageSizes: [{ width: 600, height: 800 }] })
+        const box = makeBox({
+            text: 'Hello world again',
+            textRuns: [{ text: 'Hello', bold: true }, { text: ' world again', underline: true }],
+            width: 58 / 600,
+            height: 0,
+            autoGrow: true,
+            textAlign: 'right',
+            fillColor: '#ffff00',
+            borderColor: '#0000ff',
+            borderWidth: 1,
+        })
+        useAnnotationStore.setState({ annotations: [box] })
+        useHistoryStore.getState().clear()
+
+        await usePdfEditorStore.getState().flattenAnnotations([box])
+        expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+
+        const flattened = usePdfEditorStore.getState().pdfData!
+        const reader = await (pdfjsLib as any).getDocument({ data: flattened.slice(), disableWorker: true, verbosity: 0 }).promise
+        try {
+            const page = await reader.getPage(1)
+            const items = textItemsFromContent(await page.getTextContent(), page.getViewport({ scale: 1 }))
+                .filter((item) => item.str.trim())
+            expect(items.map((item) => item.str)).toEqual(['Hello', 'world', 'again'])
+            // Right-aligned inside the border and padding: 60 + 58 - 5pt
+            const right = (item: typeof items[number]) => (item.left + item.width) * 600
+            items.forEach((item) => expect(right(item)).toBeCloseTo(113, 0))
+            // One line per 12pt (10pt type at the default 1.2 spacing)
+            expect((items[1].top - items[0].top) * 800).toBeCloseTo(12, 0)
+        } finally {
+            await reader.destroy()
+        }
+
+        // Bold runs use the bold standard font
+        const saved = await PDFDocument.load(flattened)
+        const baseFonts = saved.context.enumerateIndirectObjects()
+            .map(([, obj]) => (obj instanceof PDFDict ? obj.get(PDFName.of('BaseFont')) : undefined))
+            .filter(Boolean)
+            .map(String)
+        expect(baseFonts).toEqual(expect.arrayContaining(['/Helvetica', '/Helvetica-Bold']))
+
+        useHistoryStore.getState().undo()
+        expect(usePdfEditorStore.getState().pdfData).toBe(bytes)
+    })
+})
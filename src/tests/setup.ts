@@ -1,5 +1,5 @@
 import '@testing-library/jest-dom'
-import { vi } from 'vitest'
+import { beforeAll, vi } from 'vitest'
 
 // Global mocks
 const ResizeObserverMock = vi.fn(() => ({
@@ -29,3 +29,10 @@ vi.stubGlobal('indexedDB', {
         set onupgradeneeded(cb: any) { },
     })),
 })
+
+// Importing the store points pdf.js at the CDN worker; use the bundled one instead.
+// Done once the test file's imports (and mocks) are in place.
+beforeAll(async () => {
+    const { GlobalWorkerOptions } = await import('pdfjs-dist/legacy/build/pdf.js')
+    GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.js'
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDocument, PDFDict, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib'
+import type { Annotation } from '../types/annotations'
+import { dashArray, dashStyleOf, pathPoints, resizeShape, shapeExtent, shapeGeometry } from '../utils/shapes'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { useAnnotationStore } from '../store/annotationStore'
+import { useHistoryStore } from '../store/historyStore'
+
+const makeShape = (partial: Partial<Annotation> & Pick<Annotation, 'type'>): Annotation => ({
+    id: 'sh1',
+    page: 1,
+    createdAt: '2024-05-01T10:00:00.000Z',
+    startX: 0.1,
+    startY: 0.1,
+    color: '#ff0000',
+    ...partial,
+})
+
+const bounds = (points: [number, number][]) => ({
+    left: Math.min(...points.map((p) => p[0])),
+    top: Math.min(...points.map((p) => p[1])),
+    right: Math.max(...points.map((p) => p[0])),
+    bottom: Math.max(...points.map((p) => p[1])),
+})
+
+describe('shape geometry', () => {
+    it('keeps box shapes inside their box and clouds scalloped', () => {
+        const ellipse = shapeGeometry(makeShape({ type: 'ellipse', startX: 0.5, startY: 0.5, endX: 0.1, endY: 0.1 }), 100, 100, 2)
+        expect(ellipse.outline.closed).toBe(true)
+        expect(bounds(pathPoints(ellipse.outline.commands))).toEqual({ left: 11, top: 11, right: 49, bottom: 49 })
+
+        const cloud = shapeGeometry(makeShape({ type: 'cloud', endX: 0.5, endY: 0.5 }), 100, 100, 2)
+        const curves = cloud.outline.commands.filter((command) => command[0] === 'C')
+        // 6pt scallops along each 26pt side between the inset corners: 3 per side, two curves each
+        expect(curves).toHaveLength(24)
+        const outer = bounds(pathPoints(cloud.outline.commands))
+        expect(outer.left).toBeGreaterThanOrEqual(10)
+        expect(outer.right).toBeLessThanOrEqual(50)
+    })
+
+    it('draws arrow heads at the chosen ends and trims the line into closed heads', () => {
+        const arrow = makeShape({ type: 'arrow', startX: 0, startY: 0.5, endX: 1, endY: 0.5, lineEndings: ['open', 'closed'] })
+        const { outline, heads } = shapeGeometry(arrow, 100, 100, 2)
+        expect(heads).toHaveLength(2)
+        expect(heads.map((head) => head.closed)).toEqual([false, true])
+        // Head length is 8pt for a 2pt line; the closed end pulls back 80% of it
+        expect(pathPoints(outline.commands)).toEqual([[0, 50], [93.6, 50]])
+        expect(pathPoints(heads[1].commands)).toEqual([[92, 54], [100, 50], [92, 46]])
+
+        expect(shapeGeometry({ ...arrow, type: 'line' }, 100, 100, 2).heads).toHaveLength(0)
+        expect(shapeGeometry({ ...arrow, lineEndings: undefined }, 100, 100, 2).heads.map((head) => head.closed)).toEqual([true])
+    })
+
+    it('resizes from the top-left corner and keeps flat sides flat', () => {
+        const polygon = makeShape({ type: 'polygon', points: [[0.2, 0.2], [0.4, 0.2], [0.3, 0.6]] })
+        expect(shapeExtent(polygon)).toEqual({ left: 0.2, top: 0.2, width: expect.closeTo(0.2, 6), height: expect.closeTo(0.4, 6) })
+        const grown = resizeShape(polygon, 0.4, 0.2)
+        expect(grown.points![1][0]).toBeCloseTo(0.6, 6)
+        expect(grown.points![2][1]).toBeCloseTo(0.4, 6)
+
+        const line = makeShape({ type: 'line', startX: 0.1, startY: 0.5, endX: 0.3, endY: 0.5 })
+        const stretched = resizeShape(line, 0.4, 0.1)
+        expect(stretched.endX).toBeCloseTo(0.5, 6)
+        expect(stretched.endY).toBe(0.5)
+    })
+
+    it('scales dash patterns with the stroke', () => {
+        expect(dashArray(undefined, 2)).toEqual([])
+        expect(dashArray('dashed', 2)).toEqual([6, 4])
+        expect(dashArray('dotted', 2)).toEqual([2, 3])
+        expect(dashStyleOf([6, 4], 2)).toBe('dashed')
+        expect(dashStyleOf([2, 3], 2)).toBe('dotted')
+        expect(dashStyleOf([], 2)).toBeUndefined()
+    })
+
+    it('flattens every shape into the page content', async () => {
+        const doc = await PDFDocument.create()
+        doc.addPage([600, 800])
+        const bytes = new Uint8Array(await doc.save())
+        usePdfEditorStore.setState({ pdfData: bytes, numPages: 1, pageSizes: [{ width: 600, height: 800 }] })
+        const shapes = [
+            makeShape({ id: 'e1', type: 'ellipse', endX: 0.3, endY: 0.3, fillColor: '#00ff00' }),
+            makeShape({ id: 'a1', type: 'arrow', endX: 0.5, endY: 0.1, dashStyle: 'dashed' }),
+            makeShape({ id: 'pg1', type: 'polygon', points: [[0.5, 0.5], [0.7, 0.5], [0.6, 0.7]] }),
+        ]
+        useAnnotationStore.setState({ annotations: shapes })
+        useHistoryStore.getState().clear()
+
+        await usePdfEditorStore.getState().flattenAnnotations(shapes)
+        expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+
+        const saved = await PDFDocument.load(usePdfEditorStore.getState().pdfData!)
+        const page = saved.getPage(0)
+        expect(page.node.Annots()?.size() ?? 0).toBe(0)
+        const xObjects = page.node.Resources()!.lookup(PDFName.of('XObject'), PDFDict)
+        const forms = xObjects.keys()
+            .filter((key) => key.decodeText().startsWith('Shape'))
+            .map((key) => new TextDecoder().decode(decodePDFRawStream(xObjects.lookup(key) as PDFRawStream).decode()))
+        expect(forms).toHaveLength(3)
+        // Filled ellipse from curves, dashed arrow with a filled head, closed polygon outline
+        expect(forms[0]).toMatch(/ c[\s\S]* h[\s\S]*\bB\b/)
+        expect(forms[1]).toContain('] 0 d')
+        expect(forms[2]).toMatch(/ l[\s\S]* h S/)
+
+        useHistoryStore.getState().undo()
+        expect(usePdfEditorStore.getState().pdfData).toBe(bytes)
+    })
+})
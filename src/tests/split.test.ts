@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PDFDocument, PDFName, PDFString, rgb } from 'pdf-lib'
+import { usePdfEditorStore } from '../store/pdfEditorStore'
+import { chunkPages, isBlankPage, readTopLevelBookmarks, splitAtSeparators, splitAtStarts } from '../utils/pdfSplit'
+import { createZip, crc32 } from '../utils/zip'
+
+// jsdom's Blob has no arrayBuffer()
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+})
+
+const pageCount = async (blob: Blob) => (await PDFDocument.load(await blobBytes(blob))).getPageCount()
+
+// Five pages; page 3 is left blank, the others carry a line of text
+const buildFixture = async () => {
+    const doc = await PDFDocument.create()
+    for (let i = 0; i < 5; i++) {
+        const page = doc.addPage([300, 400])
+        if (i !== 2) page.drawText(`Page ${i + 1}`, { x: 20, y: 350, size: 12 })
+    }
+    const pages = doc.getPages()
+    const items = [
+        { title: 'Intro', page: 0 },
+        { title: 'Chapter Two', page: 3 },
+    ].map(({ title, page }) => doc.context.obj({
+        Title: PDFString.of(title),
+        Dest: [pages[page].ref, PDFName.of('Fit')],
+    }))
+    const refs = items.map((item) => doc.context.register(item))
+    const outlinesRef = doc.context.register(doc.context.obj({ Type: 'Outlines', First: refs[0], Last: refs[1], Count: 2 }))
+    items.forEach((item) => item.set(PDFName.of('Parent'), outlinesRef))
+    items[0].set(PDFName.of('Next'), refs[1])
+    doc.catalog.set(PDFName.of('Outlines'), outlinesRef)
+    return doc
+}
+
+describe('split planning', () => {
+    it('groups pages by size, start and separator', () => {
+        expect(chunkPages(5, 2).map((g) => g.pageIndices)).toEqual([[0, 1], [2, 3], [4]])
+        expect(splitAtStarts(5, [{ pageIndex: 3, title: 'B' }, { pageIndex: 1, title: 'A' }])).toEqual([
+            { pageIndices: [0], title: undefined },
+            { pageIndices: [1, 2], title: 'A' },
+            { pageIndices: [3, 4], title: 'B' },
+        ])
+        expect(splitAtSeparators(6, [0, 2, 3]).map((g) => g.pageIndices)).toEqual([[1], [4, 5]])
+    })
+
+    it('reads top-level bookmarks and detects blank pages', async () => {
+        const doc = await buildFixture()
+        expect(readTopLevelBookmarks(doc)).toEqual([
+            { title: 'Intro', pageIndex: 0 },
+            { title: 'Chapter Two', pageIndex: 3 },
+        ])
+        const rectPage = doc.addPage([100, 100])
+        rectPage.drawRectangle({ x: 10, y: 10, width: 20, height: 20, color: rgb(0, 0, 0) })
+        expect(doc.getPages().map(isBlankPage)).toEqual([false, false, true, false, false, false])
+    })
+
+    it('writes a stored zip with a valid CRC', () => {
+        const data = new TextEncoder().encode('hello')
+        expect(crc32(data)).toBe(0x3610a686)
+        const zip = createZip([{ name: 'a.txt', data }])
+        const view = new DataView(zip.buffer)
+        expect(view.getUint32(0, true)).toBe(0x04034b50)
+        expect(view.getUint32(14, true)).toBe(0x3610a686)
+        expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50)
+        expect(view.getUint16(zip.length - 12, true)).toBe(1)
+    })
+})
+
+describe('splitDocument', () => {
+    beforeEach(async () => {
+        const bytes = new Uint8Array(await (await buildFixture()).save())
+        usePdfEditorStore.setState({ pdfData: bytes, numPages: 5, fileName: 'report.pdf' })
+    })
+
+    it('splits every N pages and names the parts', async () => {
+        const parts = await usePdfEditorStore.getState().splitDocument({ mode: 'every', pagesPerPart: 2 })
+        expect(parts.map((p) => p.fileName)).toEqual(['report-part-1.pdf', 'report-part-2.pdf', 'report-part-3.pdf'])
+        expect(await Promise.all(parts.map((p) => pageCount(p.blob)))).toEqual([2, 2, 1])
+    })
+
+    it('splits at bookmarks and at blank pages', async () => {
+        const byBookmark = await usePdfEditorStore.getState().splitDocument({ mode: 'bookmarks' })
+        expect(byBookmark.map((p) => p.fileName)).toEqual(['report-part-1-intro.pdf', 'report-part-2-chapter-two.pdf'])
+        expect(byBookmark.map((p) => p.pageIndices)).toEqual([[0, 1, 2], [3, 4]])
+
+        const byBlank = await usePdfEditorStore.getState().splitDocument({ mode: 'blank-pages' })
+        expect(byBlank.map((p) => p.pageIndices)).toEqual([[0, 1], [3, 4]])
+    })
+
+    it('keeps the form fields on each part\'s pages', async () => {
+        const doc = await buildFixture()
+        const form = doc.getForm()
+        form.createTextField('intro').addToPage(doc.getPage(0), { x: 20, y: 300, width: 120, height: 20 })
+        form.createTextField('chapter').addToPage(doc.getPage(3), { x: 20, y: 300, width: 120, height: 20 })
+        usePdfEditorStore.setState({ pdfData: new Uint8Array(await doc.save()), formValues: {} })
+
+        const parts = await usePdfEditorStore.getState().splitDocument({ mode: 'bookmarks' })
+        const fields = await Promise.all(parts.map(async (part) =>
+            (await PDFDocument.load(await blobBytes(part.blob))).getForm().getFields().map((field) => field.getName())))
+        expect(fields).toEqual([['intro'], ['chapter']])
+    })
+
+    it('extracts a range with flattened annotations', async () => {
+        const annotations = [{
+            id: 'a1',
+            type: 'rectangle' as const,
+            page: 4,
+            startX: 0.1,
+            startY: 0.1,
+            width: 0.2,
+            height: 0.2,
+            color: '#ff0000',
+            strokeWidth: 2,
+            createdAt: new Date().toISOString(),
+        }]
+        const [part] = await usePdfEditorStore.getState().splitDocument({ mode: 'range', pageIndices: [3], annotations, flatten: true })
+        expect(part.fileName).toBe('report-pages-4.pdf')
+        const doc = await PDFDocument.load(await blobBytes(part.blob))
+        expect(doc.getPageCount()).toBe(1)
+        // Flattened, so nothing is left as a PDF comment
+        expect(doc.getPage(0).node.Annots()?.size() ?? 0).toBe(0)
+    })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { buildSearchRegex, findInText, foldText } from '../utils/textSearch'
+
+const find = (text: string, search: string, options = {}) =>
+    findInText(text, buildSearchRegex(search, options), (options as any).ignoreDiacritics).map((hit) => hit.text)
+
+describe('text search', () => {
+    it('matches literal text with case and whole word options', () => {
+        expect(find('Cost: $100, cost $1000', 'cost: $100')).toEqual(['Cost: $100'])
+        expect(find('Cost cost', 'cost', { caseSensitive: true })).toEqual(['cost'])
+        expect(find('cat catalog', 'cat', { wholeWord: true })).toEqual(['cat'])
+        expect(find('cat catalog', 'cat')).toEqual(['cat', 'cat'])
+    })
+
+    it('supports regular expressions and rejects invalid ones', () => {
+        expect(find('Invoice 2024-01, invoice 2025-12', 'invoice \\d{4}-\\d{2}', { regex: true })).toEqual([
+            'Invoice 2024-01',
+            'invoice 2025-12',
+        ])
+        // Alternation stays inside whole word boundaries
+        expect(find('red reddish blue', 'red|blue', { regex: true, wholeWord: true })).toEqual(['red', 'blue'])
+        // Patterns that only match empty strings find nothing
+        expect(find('abc', 'x*', { regex: true })).toEqual([])
+        expect(() => buildSearchRegex('a(', { regex: true })).toThrow("Invalid regular expression: Unterminated group")
+    })
+
+    it('folds accents and ligatures while keeping original offsets', () => {
+        const { folded, starts, ends } = foldText('Café oﬃce')
+        expect(folded).toBe('Cafe office')
+        expect([starts[7], ends[7]]).toEqual([6, 7])
+
+        const text = 'Le café et l’oﬃce du Résumé'
+        const hits = findInText(text, buildSearchRegex('resume', { ignoreDiacritics: true }), true)
+        expect(hits).toEqual([{ start: 21, end: 27, text: 'Résumé' }])
+        expect(find(text, 'office', { ignoreDiacritics: true })).toEqual(['oﬃce'])
+        // The search term is folded too
+        expect(find(text, 'CAFÉ', { ignoreDiacritics: true })).toEqual(['café'])
+        expect(find(text, 'cafe')).toEqual([])
+    })
+})
@@ -0,0 +1,139 @@
+/**
+ * Test certificates: an EC root CA issuing two signers, packed as PKCS#12
+ * files with the password "secret". ada.p12 uses today's OpenSSL defaults
+ * (AES-256, PBKDF2, SHA-256 MAC) with a P-256 key; grace.p12 is a legacy file
+ * (RC2-40 certificates, 3DES key, SHA-1 MAC) with an RSA key. Valid until 2126.
+ */
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+
+export const P12_PASSWORD = 'secret'
+
+export const ADA_P12 = fromBase64(
+    'MIIGxQIBAzCCBnsGCSqGSIb3DQEHAaCCBmwEggZoMIIGZDCCBPIGCSqGSIb3DQEHBqCCBOMwggTfAgEAMIIE2AYJKoZIhvcNAQcB' +
+    'MFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAgagZ00+MnDSgICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQMEASoEEBQH' +
+    'vmAhTSUDWdQ/vF8TvfCAggRwIzYWPSw4rUmZK2cAsqtbyJX9aS79XQWaUmlRIbTyFpNmfzF9YEm0w2tq3CBAM6j3eqPrrIOGOWKG' +
+    'NOdYv108vqUc4N/BtzUNkjHH9PcX7jB6pZL7FbMEOPwcCZ7eqBjYzOTuK6/CUKC2fjohKEw9FNRxZqBK0InhxKa8MS9Hg/NCLdqK' +
+    'WiMuNcgl05r7H4dN97qjqiEN0W3LquPB/9cUVRrdYVvLtSNUjHH6tQYOrv069rohHeuKuzhDrHTTHjeiG/zemMEYmRrcYC6mT0rc' +
+    'OkVYRcJeO2pcogCr13oxjw04h93CgRQafpLtB4PPbvQ2CvOwmfhDz1F+OtP38i0SgnfEebBrOwdsg6IA+2empF3nKjjoy6UN8qmR' +
+    'PmSBgwPQCtDOsw2OmuhEIcFxaoD3nNYv76PO3tMdMF7T6KhPB84cX8M7gscSP2t90qAKJqdo9C8gODWXnNNhIsK/AAVvnzJJNdwG' +
+    'RNhN6+xAWM2bh7ywkryJ2nQZTeVJ08T+UFMoMK6UP0fMEk2LRNeNbYJjmp40iw07/iVUpzzWLMPa2hbOKYiSOSV9DG3+MibS0o2I' +
+    'jYcoWAiDaZSfh7y60zCmXzZPVKkKCZ12Jg7EkeA5vGWb/Jl7rbfXqGWO1LjMnV9WdqyfMI3Z/CMlgZykqI+9Lf+wWVMAEIne0Cst' +
+    'g0rVTMbVGYHYks4XN9GRbg7Lwh8Y98JM1Q/0nfDy684HEXyziCymnJtzbaz+GJejAwGo7uA2aOBtOWKbeNx1uj7fj1El88KtqJ8c' +
+    '6NcCrFB7kMKxq+OSuCU/r+oRj6wSyzmyfYKKcom27V6u828kg6zEyP2CuKCkjJjJ4HnZbaHHgo//BP5M7txLGX7tZJ57t6iFIaIx' +
+    'vnXg5RVnunA+RPQMCTusPokF/esdOqzik/b3lZoTRbuJU9jOh87tOA+fkYgWadt83dPc4zR1NHFzjOId8qAubbZySKa7QblLfrCY' +
+    'F03zggvW2G0Tg7wlQF23unFN56uJY1BETNGljcpTluIVyEhtTH/KuhoRgqPZTiqzadrJaK6MdxsMp2+rkq9TLn6KK5EFYdXKvlwF' +
+    'vlhR5Ljnfm/ZCTXTSXUpRLrGd2dt9WfnYHYkPq1TfL5hN9TdLn/BwYxyb1kKa1Ujb3ifkO5pQDr0+S8HB7HWoXa/o4K6hSenIGiS' +
+    'eGmvbCFo7nFxlcSjx+pVaNIGUrnHiPadSHgOUGcIiVIdzOBh9EUB8qoVrZySiTW5vDMBdqsELtO0HEtsNmQCADNPy+k1cBz27I/M' +
+    'SjR77OfeZK1FtyX9n+DFdOsfkoz5o8S8tsxv3vhJq0BjHJw7NKrl4blBeD0nJ7BGBI7qNK+VfGp7y82RM8QbX2GAY2+CKKR80HN7' +
+    'lu6QqkWMy2bL9cAbfprIWxxb+aHiVkjNVGa5w09ggm2b+fSSM2f2GAoX81UZ8x89q69ICNGhcSY2fhV/xhz1NpyOgJhgyMTxYcZj' +
+    'DUTC7rYgygUzST6bxNZ/wbHFMhYLsqrUWlHGgBYwggFqBgkqhkiG9w0BBwGgggFbBIIBVzCCAVMwggFPBgsqhkiG9w0BDAoBAqCB' +
+    '7zCB7DBXBgkqhkiG9w0BBQ0wSjApBgkqhkiG9w0BBQwwHAQI8BlK2C/srCwCAggAMAwGCCqGSIb3DQIJBQAwHQYJYIZIAWUDBAEq' +
+    'BBAhYKHWtgAF7iF6MmqkYk3xBIGQI/Hf8Up+yJHzGDicOGqHulyT9IsnBbbdC1FoWP2ir/hIS0QMYhZiGNQDaGA6isB10pV/MNeb' +
+    'DsZNW4I2XrqluAjPP5vvW+N0txa8K6AAHaeCwmekrokgzYQiMXrLFEuhRb74aVbHyAJiReSioDLiPsPGOzM7Er4aiY9SG1LVseuC' +
+    'GuEe0R9WKLZdTup3ML3MMU4wIwYJKoZIhvcNAQkVMRYEFErjvbPwzMXJHHSh9iQ0QL3K4WdDMCcGCSqGSIb3DQEJFDEaHhgAQQBk' +
+    'AGEAIABMAG8AdgBlAGwAYQBjAGUwQTAxMA0GCWCGSAFlAwQCAQUABCDGsc/Xp7Xpf96cQKT7ardBkqsWcYJR/QKVhsK73OH4WQQI' +
+    'Kk6LSr9yO6cCAggA' +
+    '')
+
+export const GRACE_P12 = fromBase64(
+    'MIILGgIBAzCCCuAGCSqGSIb3DQEHAaCCCtEEggrNMIIKyTCCBVcGCSqGSIb3DQEHBqCCBUgwggVEAgEAMIIFPQYJKoZIhvcNAQcB' +
+    'MBwGCiqGSIb3DQEMAQYwDgQIL0lFa9fr8ygCAggAgIIFENNsJ2DwJIERKDL64l5cVen/qoCQLqadvsk1lxuZiZwT+//APzbxQKEQ' +
+    'tQSG1FHj98a75+U+luEidAt0NUVuZyy1pmQevLIFxULnQaviI9Lef+GYfL/oehaFgeyVwVF4n2pwlV6LOrmRcdj74B+XcSJ1tEah' +
+    '3Ev3CM436pgZKRk5NWavi3Tqy24toHBUWnQ1aFy9uV/v6Z2iQDW/+3gEynKLlxhBW+UL5H2PIGwed67ql5XtiHGZyTLMVNNr+bs4' +
+    'sNeQ5lnnmslQ2jb6bVZDIT+UFFhKazVFuSKZRaCCpBQaS6KpyJemvOk6kNkSH61+tlvcvtm/MgTSEIU0IiDSIwTW1bi1QMsXNBts' +
+    'bpsEFg422SjRUbYE7OlInnRpDTm0mVF/FnJNkvg+nB4FVQgHwUz4X0xLiphYqykwruolc9ZAjqALLEHbZwYfcQI7AjaJZy1syOGl' +
+    'UipKGKTwBKjNezO8PhP9bD6z7ANF5cKxENqIwEb3PB0JYessvjx0zVQkb/ngbVbiEXuskPQRRUbw7zO/FWNF/p/hBune9yZY/pNH' +
+    'deNxKo7ZZUIf4UQ1Nl+3/049Nbk0h9lecEYx2gS1+DkF72swraHCLzMGLSWGhNL0nVgBSlu+JNQnjAFqw2BbtcX8uX+bevqPjCR0' +
+    '9aQVCdQdrBA6Niy113cWq8NVc1BYD1SioYRswiGgp/9SON/VAoxtoKPSmdcU4dVYTASRik+sfx1wIa0mHwUnUdC8pASYt+yZOymB' +
+    'frKSf1gKBWTfZFygtvTWXtklAwJtEokmETFO5RFSXcElgSnBM9RXMzAyaefT3Sq/NltgEklVM+i2UqgSZ28f832OEdge46SeLsn9' +
+    'Q6icnIyiRxINsqhBplo77sBS5btqBfKA7iavedBWv/0uoFZfOg7Jw0fzceuMP2sbeZvyvtvoEesz9vY8p0pcSCw65FaTxUSZcXLw' +
+    'kHNV9KcnD1t6BQ9YTk/rxNyiBxXxQgq5R2x9GJl4TMnCwq+W+izK9Vt4kv8KQuQJ7omgmv/G4XZAXWjvD50AK2KfzbUO7Txh8aIQ' +
+    'hXlaMHng69b3HY4yGltaSD1+zMT192tU3vVONJqEc1vSl1FXYRtEY2CDLixl4waDojh5Zk/Ea84b8TaMqm+1s/yfYa3xfFtFTo5+' +
+    'IhTWJE2FUlK+LFQao6Ors8BSXmz00aZzrNd192fiSCHTBnesQDsl7Huh6QXlMa5WQaC5c+fip3WNMjna7vfTsYnMpFDjWh+2+U7E' +
+    'yOg9XMT2vwIgf/u6xBqF5FAqH5kOjmefxfWF36l+3gMf9YnIkBdq/aPKJVEF63TSWJLctbINMG8OxW3uUizwoTK67Ogp5x+JSr14' +
+    'Rdptrc1u6A5Fr4EtXFjRme+FN7EDmF7njhXCzACMAjaep0NXtQDj4iFh9SDyzu3kRKtwjY94bnW3n0axVlwYMgvuF7kqFCrKjCZp' +
+    'qudouFCq2oyInDxLp0r3hB3Ewqeyijkwqo0fCG2j2BHtmlY5Yj3lAUR47sdd2CCb5FDdg00hVb/i4gPayTBiGJIATUrGev7QO0Iw' +
+    'd39vnC0KfzMHWZzmEt5OLgx/TG6b6DCZh3iXietZX026O/q5L3gecWTsKnkH0C6jbYzDjUY3crAlI0LtKMEpgbVhMq+MTNqSStks' +
+    '+p//fLu1senhZl7uHro8FvImj4zXF9+k3U6DtiUmogB9pjbtE28ZbjTgUqsR/K/wDUrLQy1CGjCCBWoGCSqGSIb3DQEHAaCCBVsE' +
+    'ggVXMIIFUzCCBU8GCyqGSIb3DQEMCgECoIIE7jCCBOowHAYKKoZIhvcNAQwBAzAOBAjp2NNZVTyPFwICCAAEggTI5oektwIFH/5E' +
+    'vMmMJwz3ktlSnDg8/isdO+fM1QgxNF7MDGqYj9WyeGF/KJ6a+1UthH249k/TU8093046LnamYc0DMh9y+7ZMRTsqVx5QZ8/+oHtL' +
+    'RZsr0PRNN+tESuP3Mxlp+yObAgCDGaoP0GILLCYtYyT84MflPsyjYDM3NhiPrdO0QSdJqe38vX3AOuv+0Li9wnpY1GBkjMQxGVef' +
+    'lzEtGUoBNZPZ/nsgmF6IaZWA78DQhO0FYMOcY35mWF22paNC+CLTrUCEas6XzKieVnIWb6iVIcqVshXZpba29z4zsu3gB4WNeQJq' +
+    '3xLiD966U9DWD27Df5lWTeEL/lcmFmvEjogQAGQW7t+JiFdO/9OuMGd1doN63CepoaP5TIqn0b8+BrFbsEkPiOnpuytfC7SBW9Nw' +
+    'CiStlTRx7WzXUZ7eMm6KxfiB7i+3/EFPAJb1Pylgy9+9YHHSLX3oCjke9EN54Oqcr5/KyVJUPiBKPHB2WNzDw5UqSoc0fdYWPLTU' +
+    'qWTnsFIA1ufHeGwzUikMCdPt4zaAeX2r7oPtxfbABq5ZdgSpiguJVsrvMzL0ApLdvlsM+iQjdLk9Nqk7E3FVw98by/7/goJkdcD8' +
+    'IfIFCFopvp03aHOwQHj0tTBsAzLT40on0yryQHMgSqWscUlqMGPuAQLW/2tBlAIYyez97I9zmw7RjUUa3S/nnJ7FRnbDY2hG2/3k' +
+    'yTVe5KD1m4GSQpIjvLnyaKiuv4HxupZCPONBrd8yFsEcAgxglgv6/H2pEAh8R+h92efSCxvs1JTpnxPjVyPhEmWTs8CXv4HPkQgy' +
+    '8eF/2e0TBG9P7hYXkHiSO3CPKX9GgmCCDWreupsF89sCwDZ/ZUbFxsBof48c5TNuUIQBfCwOeTWtmwTdGC/ONCHjkIpXmMX84NF1' +
+    'k2m/py7CFNRYBKj3ITGTvXXfEG83sr1HJV4qEFC3KLmfG5eMYZh4zWDq35vLEk5G9LDhzICQ4iMnoW5K+QCkZFwbN8VwhQS3oOQY' +
+    'F9g5E+G4zyYKQBHjVGqrEP2MMqei6ZytQhUnMaBLXFwLoX5fX2O+p79gGy1HfnugDvpLIPQxbszXp7LIsDMskxi81YS9NMF2gjY8' +
+    '4gTL70e45LtJO26l9WMQuC97ndOr99aCMbOc+H3yPsVI5gOnUbBQ2Xpm9F66n/1PERew6dskFL3okGtvAiDB2E9s3RcIzvJSM6e9' +
+    'JjQ0om+GERJInVzeyOwfGrP37Fvg2Fzi5M/vO+KYdTpcPpBJrw156ubC0CS7WRP70JulbCaAkHYpmmib/ixUexf/oio+/LCUoEV0' +
+    '/gdErMOt8gs8qwp08mCugDanjl6rBOUgHqNQB6EdnE1cp0/CNMKYo62bvYipjRCo9i9SySRM7zU9PqY0GTgHVlZf0eClXXVORLRB' +
+    'SMZ0Of9z1es+IxttpCz5aQX5KZSH0HlSNVM29Iza7hBJryp487PhZpWELZI7TlMRYSJLdzartl6gGyzlZiid0RSlveCoqRyJ5BH0' +
+    'Xo0zx2g2B7yaSvB+qeEWEDz2GEG7+fwUG9Mjm2Ql//LIxEmc5hxQs3TkzlOgl2ucoRqE5lKfY7of3sRI4t4bOFXlLUiZrOcJdUu+' +
+    'B8R2EIQtBe+J7DFg2o70MU4wIwYJKoZIhvcNAQkVMRYEFH8zFEyjEbSHKYiRrboxyFq2Gv5JMCcGCSqGSIb3DQEJFDEaHhgARwBy' +
+    'AGEAYwBlACAASABvAHAAcABlAHIwMTAhMAkGBSsOAwIaBQAEFMUXC0txHW+MuM53LTkYNgRvWJReBAiWKKFN9tSFDgICCAA=' +
+    '')
+
+export const ROOT_CA_PEM = `-----BEGIN CERTIFICATE-----
+MIIBxzCCAW6gAwIBAgIUaQuA8i5j6izNKRDeGSqXt5bWiIEwCgYIKoZIzj0EAwIw
+QTELMAkGA1UEBhMCRlIxFDASBgNVBAoMC1BkZm9pZCBUZXN0MRwwGgYDVQQDDBNQ
+ZGZvaWQgVGVzdCBSb290IENBMCAXDTI2MTAxOTE1MzMyNloYDzIxMjYwOTI1MTUz
+MzI2WjBBMQswCQYDVQQGEwJGUjEUMBIGA1UECgwLUGRmb2lkIFRlc3QxHDAaBgNV
+BAMME1BkZm9pZCBUZXN0IFJvb3QgQ0EwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNC
+AARBcyp04mcG6qni7BNC1lqQDvRTFr/HEQD1kaRHzSAWhpAr+Mt20D5yhj4G2DIw
+CqbbfSFEOq7ger1QJ+EUYuPMo0IwQDAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB
+/wQEAwIBBjAdBgNVHQ4EFgQUr9S3XkhjKiRI8w10u/Vhj7zmf88wCgYIKoZIzj0E
+AwIDRwAwRAIgVNpZqM3rMoaMZ5OeyW1S2TRYMZO7TLNcS4aQifke2XgCIHRrsz0t
+UopHLeOUlRtb55BcMa56OtFNs32r0e2ooFcY
+-----END CERTIFICATE-----
+`
+
+export const OPENSSL_CONTENT = new TextEncoder().encode('signed by openssl')
+
+// `openssl cms -sign -md sha384` over OPENSSL_CONTENT: signing time attribute, root CA included
+export const GRACE_OPENSSL_CMS = fromBase64(
+    'MIIG/QYJKoZIhvcNAQcCoIIG7jCCBuoCAQExDTALBglghkgBZQMEAgIwCwYJKoZIhvcNAQcBoIIEXDCCAccwggFuoAMCAQICFGkL' +
+    'gPIuY+oszSkQ3hkql7eW1oiBMAoGCCqGSM49BAMCMEExCzAJBgNVBAYTAkZSMRQwEgYDVQQKDAtQZGZvaWQgVGVzdDEcMBoGA1UE' +
+    'AwwTUGRmb2lkIFRlc3QgUm9vdCBDQTAgFw0yNjEwMTkxNTMzMjZaGA8yMTI2MDkyNTE1MzMyNlowQTELMAkGA1UEBhMCRlIxFDAS' +
+    'BgNVBAoMC1BkZm9pZCBUZXN0MRwwGgYDVQQDDBNQZGZvaWQgVGVzdCBSb290IENBMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE' +
+    'QXMqdOJnBuqp4uwTQtZakA70Uxa/xxEA9ZGkR80gFoaQK/jLdtA+coY+BtgyMAqm230hRDqu4Hq9UCfhFGLjzKNCMEAwDwYDVR0T' +
+    'AQH/BAUwAwEB/zAOBgNVHQ8BAf8EBAMCAQYwHQYDVR0OBBYEFK/Ut15IYyokSPMNdLv1YY+85n/PMAoGCCqGSM49BAMCA0cAMEQC' +
+    'IFTaWajN6zKGjGeTnsltUtk0WDGTu0yzXEuGkIn5Htl4AiB0a7M9LVKKRy3jlJUbW+eQXDGuejrRTbN9q9HtqKBXGDCCAo0wggI0' +
+    'oAMCAQICAhACMAoGCCqGSM49BAMCMEExCzAJBgNVBAYTAkZSMRQwEgYDVQQKDAtQZGZvaWQgVGVzdDEcMBoGA1UEAwwTUGRmb2lk' +
+    'IFRlc3QgUm9vdCBDQTAgFw0yNjEwMTkxNTMzMjZaGA8yMTI2MDkyNTE1MzMyNlowMzELMAkGA1UEBhMCVVMxDTALBgNVBAoMBE5h' +
+    'dnkxFTATBgNVBAMMDEdyYWNlIEhvcHBlcjCCASIwDQYJKoZIhvcNAQEBBQADggEPADCCAQoCggEBAMjEOmD7UGRBM9pKjEtdEH/p' +
+    'RIBIpV4I/0+K8HKhi4I1XdDQG22ZHiHMp5BC1uAO3cHmOS4kxhp4ZyoYaateQ44S79vqD3VgiPgNGCL9o66QUWqlhUNK1DDMMcaw' +
+    'wd8fRyjcvvuZUS4kFJgA7KWogrdiio69Sk1f9leYisDPoZWgvEp/Ky9NnGtUg0z4/zN+pHV2HUFN3/u+cpN1gVSYnidqosyyaQCA' +
+    'Z2Y2ErFxiLUaueEmsfQ3JQ0dGtfQodA+1DFxNpYoQfxASF5FdMcLbs5pHi6wclMvTU5AlZNZkwHT3g8cYg/fDD0GjV7E3/uDDy9F' +
+    'X3fT008MRgPvR3Xn/ycCAwEAAaNdMFswCQYDVR0TBAIwADAOBgNVHQ8BAf8EBAMCBsAwHQYDVR0OBBYEFIVow0YZgAdlEbkzVZYb' +
+    'iSP/LVlsMB8GA1UdIwQYMBaAFK/Ut15IYyokSPMNdLv1YY+85n/PMAoGCCqGSM49BAMCA0cAMEQCICoaa5CE+Lrn4MmDabiA633x' +
+    'W66AunUpzdngt6NVMBJTAiAzRuXLrcg0b6paS1wz1MmgvfmG0c9PD3NWeM8OZM1TfjGCAmcwggJjAgEBMEcwQTELMAkGA1UEBhMC' +
+    'RlIxFDASBgNVBAoMC1BkZm9pZCBUZXN0MRwwGgYDVQQDDBNQZGZvaWQgVGVzdCBSb290IENBAgIQAjALBglghkgBZQMEAgKggfQw' +
+    'GAYJKoZIhvcNAQkDMQsGCSqGSIb3DQEHATAcBgkqhkiG9w0BCQUxDxcNMjYxMDE5MTU1MDMwWjA/BgkqhkiG9w0BCQQxMgQwhMrM' +
+    'tsQ6nbhQDsz67hrWp2dtMhLdSBkOWqDNpsaMQXrCThN6HQu673yCTfybawVDMHkGCSqGSIb3DQEJDzFsMGowCwYJYIZIAWUDBAEq' +
+    'MAsGCWCGSAFlAwQBFjALBglghkgBZQMEAQIwCgYIKoZIhvcNAwcwDgYIKoZIhvcNAwICAgCAMA0GCCqGSIb3DQMCAgFAMAcGBSsO' +
+    'AwIHMA0GCCqGSIb3DQMCAgEoMA0GCSqGSIb3DQEBAQUABIIBAIRfCcs5w1JKTDk/3eGToAzoasHzUHjf6lYRT1JAFMfmFCX0EJnK' +
+    'iK1fHo0IrAixK3k8b0SYLZ7zsnNhd4uloDggZmtCuvQN4T0S5Jp/bRK233BGbTK/uLfEjl/nmEaBOQWduz2GhY2UE2SJ76wsB1VP' +
+    'TkMzCwn+jNqFyYgRlA+B2ys38dH2IfcWNGC959buUexAFyC461osWXcCXVWwXEDdeN43aZd8s1OJJ1PXun16r8o8oMDyHVF6Q1Bd' +
+    'IFo/dUOmRahi/fSKbnYRScV/Cg/galcolJYor13TdzeVk/F32Hzycq0+KEzBvqE1BrM45O419zJYzGxIVjmPWhgI+1A=' +
+    '')
+
+// `openssl cms -sign -keyid` over OPENSSL_CONTENT: signer named by subject key identifier, no root CA
+export const ADA_OPENSSL_CMS = fromBase64(
+    'MIIDlgYJKoZIhvcNAQcCoIIDhzCCA4MCAQMxDTALBglghkgBZQMEAgEwCwYJKoZIhvcNAQcBoIIB9jCCAfIwggGXoAMCAQICAhAB' +
+    'MAoGCCqGSM49BAMCMEExCzAJBgNVBAYTAkZSMRQwEgYDVQQKDAtQZGZvaWQgVGVzdDEcMBoGA1UEAwwTUGRmb2lkIFRlc3QgUm9v' +
+    'dCBDQTAgFw0yNjEwMTkxNTMzMjZaGA8yMTI2MDkyNTE1MzMyNlowYTELMAkGA1UEBhMCR0IxGzAZBgNVBAoMEkFuYWx5dGljYWwg' +
+    'RW5naW5lczEVMBMGA1UEAwwMQWRhIExvdmVsYWNlMR4wHAYJKoZIhvcNAQkBFg9hZGFAZXhhbXBsZS5jb20wWTATBgcqhkjOPQIB' +
+    'BggqhkjOPQMBBwNCAARzhj20V7IqqWqVtyeKHp7p92qHybrVpSqS5tWGqBpsFbPCIEAYpOf/iS9xNQJQGw651jJ869cSselU0z1z' +
+    '7f1Do10wWzAJBgNVHRMEAjAAMA4GA1UdDwEB/wQEAwIGwDAdBgNVHQ4EFgQU04QdZVmKoT76xauSCdCkkBmD0WAwHwYDVR0jBBgw' +
+    'FoAUr9S3XkhjKiRI8w10u/Vhj7zmf88wCgYIKoZIzj0EAwIDSQAwRgIhAN8wsoDaGyJm/erlRMmIBHFmsMe8vVhhligS1Tera9wQ' +
+    'AiEAiLEK5hhVZRmL40wYNYp7385YMXRxfdaCBcFFBy1t4QQxggFmMIIBYgIBA4AU04QdZVmKoT76xauSCdCkkBmD0WAwCwYJYIZI' +
+    'AWUDBAIBoIHkMBgGCSqGSIb3DQEJAzELBgkqhkiG9w0BBwEwHAYJKoZIhvcNAQkFMQ8XDTI2MTAxOTE1NTAzMFowLwYJKoZIhvcN' +
+    'AQkEMSIEIIQEQ3EW8BQtj8aC03w52Ewl4lMO2uZaaRECWxDqZrojMHkGCSqGSIb3DQEJDzFsMGowCwYJYIZIAWUDBAEqMAsGCWCG' +
+    'SAFlAwQBFjALBglghkgBZQMEAQIwCgYIKoZIhvcNAwcwDgYIKoZIhvcNAwICAgCAMA0GCCqGSIb3DQMCAgFAMAcGBSsOAwIHMA0G' +
+    'CCqGSIb3DQMCAgEoMAoGCCqGSM49BAMCBEcwRQIgZcPwQQwH76CnEyJ9a2R7R8KWIIV7VgaxcT7KyoL1KMACIQDmydDH7F1dLQnq' +
+    '/WVWopSCSfEDAvpwejL/jSrtKoOLaw==' +
+    '')
@@ -3,6 +3,7 @@ import '@testing-library/jest-dom'
 import { render, screen, fireEvent, act, waitFor } from '@testing-library/react'
 import React from 'react'
 import PDFViewer from '../components/PDFViewer'
+import { ContinuousPageView } from '../components/ContinuousPageView'
 import { usePdfEditorStore } from '../store/pdfEditorStore'
 import { useAnnotationStore } from '../store/annotationStore'
 import { useUIStore } from '../store/uiStore'
@@ -109,6 +110,7 @@ vi.mock('pdfjs-dist/legacy/build/pdf.js', () => ({
         promise: Promise.resolve(mockPdfDoc)
     })),
     GlobalWorkerOptions: { workerSrc: '' },
+    AnnotationMode: { ENABLE_STORAGE: 3 },
 }))
 
 // 4. Props
@@ -464,4 +466,60 @@ describe('PDFViewer: Ultrathink Rigorous Suite', () => {
         expect(anns).toHaveLength(1)
         expect(anns[0].text).toBe('Hello World')
     })
+
+    it('Continuous mode mounts pages near the viewport and tracks the current page on scroll', async () => {
+        const onPageChange = vi.fn()
+        await mountViewer({ ...defaultProps, onPageChange })
+
+        await act(async () => {
+            fireEvent.click(screen.getByLabelText('Continuous scroll'))
+        })
+
+        // jsdom has a zero-height viewport: page 1 plus one page of overscan
+        await waitFor(() => {
+            expect(screen.getAllByTestId('annotation-canvas')).toHaveLength(2)
+        })
+        expect(screen.getByLabelText('PDF page 2 content')).toBeInTheDocument()
+        expect(screen.queryByLabelText('PDF page 4 content')).not.toBeInTheDocument()
+
+        // Drawing on the second overlay lands on page 2
+        act(() => useAnnotationStore.getState().selectTool('rectangle'))
+        const secondOverlay = screen.getAllByTestId('annotation-canvas')[1]
+        vi.spyOn(secondOverlay, 'getBoundingClientRect').mockReturnValue({
+            left: 0, top: 0, width: 600, height: 800, x: 0, y: 0, bottom: 800, right: 600, toJSON: () => { }
+        } as DOMRect)
+        await drawShape(secondOverlay, { x: 100, y: 100 }, { x: 200, y: 200 })
+        expect(useAnnotationStore.getState().annotations[0].page).toBe(2)
+
+        // Pages are 800px tall with a 24px gap, so 1700px is inside page 3
+        const scroller = screen.getByRole('document')
+        await act(async () => {
+            scroller.scrollTop = 1700
+            fireEvent.scroll(scroller)
+            await new Promise((resolve) => requestAnimationFrame(resolve))
+        })
+        await waitFor(() => expect(onPageChange).toHaveBeenLastCalledWith(3))
+        expect(screen.getByLabelText('PDF page 4 content')).toBeInTheDocument()
+        expect(screen.queryByLabelText('PDF page 1 content')).not.toBeInTheDocument()
+
+        localStorage.removeItem('pdfoid.viewMode')
+    })
+
+    it('Continuous mode drops measured page sizes when the document changes', async () => {
+        const scrollContainerRef = { current: document.createElement('div') }
+        const props = { numPages: 2, scale: 1, scrollContainerRef, currentPage: 1, onCurrentPageChange: vi.fn() }
+        usePdfEditorStore.setState({ pageSizes: [{ width: 300, height: 400 }, { width: 300, height: 400 }] })
+        const slotHeight = () => screen.getByLabelText('PDF page 1 content').parentElement!.style.height
+
+        // pdf.js measures the first document's pages as 600x800
+        const { rerender } = render(<ContinuousPageView {...props} pdf={mockPdfDoc} />)
+        await waitFor(() => expect(slotHeight()).toBe('800px'))
+
+        // The next document has not been measured yet: its slots fall back to pageSizes
+        const pending = { ...mockPdfDoc, getPage: vi.fn(() => new Promise(() => { })) }
+        await act(async () => {
+            rerender(<ContinuousPageView {...props} pdf={pending} />)
+        })
+        expect(slotHeight()).toBe('400px')
+    })
 })
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { Annotation } from '../types/annotations'
+import { annotationsToXfdf, parseXfdf } from '../utils/xfdf'
+import { useAnnotationStore } from '../store/annotationStore'
+
+const pageSizes = [{ width: 612, height: 792 }, { width: 595, height: 842 }]
+
+const base = { createdAt: '2024-05-01T10:00:00.000Z', color: '#ff0000' }
+
+describe('XFDF interchange', () => {
+    beforeEach(() => {
+        useAnnotationStore.getState().clearAllAnnotations()
+    })
+
+    it('exports supported types as XFDF elements in PDF user space', () => {
+        const xml = annotationsToXfdf([
+            { ...base, id: 'h1', type: 'highlight', page: 1, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.2 },
+            { ...base, id: 's1', type: 'signature', page: 1, startX: 0.1, startY: 0.1, imageDataUrl: 'data:image/png;base64,AA==' },
+        ], pageSizes, { fileName: 'doc.pdf' })
+
+        expect(xml).toContain('<xfdf xmlns="http://ns.adobe.com/xfdf/"')
+        expect(xml).toContain('<f href="doc.pdf"/>')
+        // x: 0.1 * 612, y: 792 - 0.2 * 792 .. 792 - 0.1 * 792
+        expect(xml).toContain('rect="61.2,633.6,306,712.8"')
+        expect(xml).toContain('page="0"')
+        expect(xml).not.toContain('s1')
+    })
+
+    it('round-trips geometry, text and metadata', () => {
+        const annotations: Annotation[] = [
+            { ...base, id: 'h1', type: 'highlight', page: 1, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.2, author: 'Ana <QA>' },
+            { ...base, id: 'p1', type: 'pen', page: 2, startX: 0.1, startY: 0.1, points: [[0.1, 0.1], [0.3, 0.4]], strokeWidth: 4 },
+            { ...base, id: 'r1', type: 'rectangle', page: 1, startX: 0.2, startY: 0.3, endX: 0.6, endY: 0.7, fillColor: '#00ff00' },
+            { ...base, id: 't1', type: 'text-box', page: 1, startX: 0.25, startY: 0.5, text: 'Fix "this" & that', fontSize: 18, color: '#0000ff' },
+            { ...base, id: 'n1', type: 'sticky-note', page: 2, startX: 0.4, startY: 0.4, width: 0.2, height: 0.1, text: 'Note' },
+            { ...base, id: 'st1', type: 'stamp', page: 1, startX: 0.1, startY: 0.8, endX: 0.4, endY: 0.9, text: 'APPROVED' },
+        ]
+
+        const { annotations: imported, skipped } = parseXfdf(annotationsToXfdf(annotations, pageSizes), pageSizes)
+        expect(skipped).toBe(0)
+        const byId = new Map(imported.map((a) => [a.id, a]))
+        expect(imported.map((a) => a.type)).toEqual(['highlight', 'pen', 'rectangle', 'text-box', 'sticky-note', 'stamp'])
+
+        const highlight = byId.get('h1')!
+        expect(highlight.startX).toBeCloseTo(0.1, 3)
+        expect(highlight.endY).toBeCloseTo(0.2, 3)
+        expect(highlight.author).toBe('Ana <QA>')
+        expect(highlight.createdAt).toBe('2024-05-01T10:00:00.000Z')
+
+        const pen = byId.get('p1')!
+        expect(pen.page).toBe(2)
+        expect(pen.strokeWidth).toBe(4)
+        expect(pen.points?.[1][1]).toBeCloseTo(0.4, 3)
+
+        expect(byId.get('r1')?.fillColor).toBe('#00ff00')
+
+        const text = byId.get('t1')!
+        expect(text.text).toBe('Fix "this" & that')
+        expect(text.fontSize).toBe(18)
+        expect(text.color).toBe('#0000ff')
+        expect(text.startX).toBeCloseTo(0.25, 3)
+        expect(text.startY).toBeCloseTo(0.5, 3)
+
+        const note = byId.get('n1')!
+        expect(note.width).toBeCloseTo(0.2, 3)
+        expect(note.height).toBeCloseTo(0.1, 3)
+
+        expect(byId.get('st1')?.text).toBe('APPROVED')
+    })
+
+    it('keeps every line of multi-line text markup', () => {
+        const quads: Annotation['quads'] = [[0.1, 0.1, 0.5, 0.12], [0.1, 0.13, 0.3, 0.15]]
+        const xml = annotationsToXfdf([
+            { ...base, id: 'k1', type: 'strikeout', page: 1, startX: 0.1, startY: 0.1, endX: 0.5, endY: 0.15, quads },
+        ], pageSizes)
+        expect(xml).toContain('<strikeout ')
+
+        const [strikeout] = parseXfdf(xml, pageSizes).annotations
+        expect(strikeout.type).toBe('strikeout')
+        expect(strikeout.quads).toHaveLength(2)
+        expect(strikeout.quads![1][2]).toBeCloseTo(0.3, 3)
+        expect(strikeout.endY).toBeCloseTo(0.15, 3)
+    })
+
+    it('carries styled text boxes as rich text', () => {
+        const textRuns = [{ text: 'Due', bold: true }, { text: ' Friday', italic: true }]
+        const xml = annotationsToXfdf([
+            { ...base, id: 't1', type: 'text-box', page: 1, startX: 0.1, startY: 0.1, text: 'Due Friday', textRuns, fontSize: 12, width: 0.2, height: 0.05, textAlign: 'right', lineSpacing: 1.5 },
+        ], pageSizes)
+        expect(xml).toContain('<contents-richtext>')
+        expect(xml).toContain('justification="right"')
+
+        const [box] = parseXfdf(xml, pageSizes).annotations
+        expect(box).toMatchObject({ type: 'text-box', text: 'Due Friday', textRuns, textAlign: 'right', lineSpacing: 1.5 })
+        expect(box.width).toBeCloseTo(0.2, 3)
+        expect(box.height).toBeCloseTo(0.05, 3)
+    })
+
+    it('round-trips shapes with dashes, fills and arrow heads', () => {
+        const annotations: Annotation[] = [
+            { ...base, id: 'e1', type: 'ellipse', page: 1, startX: 0.2, startY: 0.3, endX: 0.6, endY: 0.7, fillColor: '#00ff00', dashStyle: 'dashed' },
+            { ...base, id: 'c1', type: 'cloud', page: 1, startX: 0.1, startY: 0.1, endX: 0.3, endY: 0.2 },
+            { ...base, id: 'a1', type: 'arrow', page: 1, startX: 0.1, startY: 0.5, endX: 0.4, endY: 0.6, lineEndings: ['open', 'closed'], strokeWidth: 4 },
+            { ...base, id: 'l1', type: 'line', page: 2, startX: 0.1, startY: 0.1, endX: 0.9, endY: 0.1, dashStyle: 'dotted' },
+            { ...base, id: 'pg1', type: 'polygon', page: 1, startX: 0.1, startY: 0.1, points: [[0.1, 0.1], [0.3, 0.1], [0.2, 0.3]], fillColor: '#0000ff' },
+        ]
+        const xml = annotationsToXfdf(annotations, pageSizes)
+        expect(xml).toContain('<circle')
+        expect(xml).toContain('style="cloudy"')
+        expect(xml).toContain('head="OpenArrow" tail="ClosedArrow"')
+        expect(xml).toContain('<vertices>61.2,712.8;183.6,712.8;122.4,554.4</vertices>')
+
+        const { annotations: imported, skipped } = parseXfdf(xml, pageSizes)
+        expect(skipped).toBe(0)
+        const byId = new Map(imported.map((a) => [a.id, a]))
+        expect(byId.get('e1')).toMatchObject({ type: 'ellipse', fillColor: '#00ff00', dashStyle: 'dashed' })
+        expect(byId.get('e1')!.endY).toBeCloseTo(0.7, 3)
+        expect(byId.get('c1')?.type).toBe('cloud')
+        expect(byId.get('a1')).toMatchObject({ type: 'arrow', lineEndings: ['open', 'closed'], strokeWidth: 4 })
+        expect(byId.get('a1')!.endX).toBeCloseTo(0.4, 3)
+        expect(byId.get('l1')).toMatchObject({ type: 'line', page: 2, dashStyle: 'dotted' })
+        expect(byId.get('l1')?.lineEndings).toBeUndefined()
+        const polygon = byId.get('pg1')!
+        expect(polygon).toMatchObject({ type: 'polygon', fillColor: '#0000ff' })
+        expect(polygon.points).toHaveLength(3)
+        expect(polygon.points![2][1]).toBeCloseTo(0.3, 3)
+    })
+
+    it('skips annotations on unknown pages or with invalid geometry and rejects non-XFDF input', () => {
+        const xml = `<?xml version="1.0"?><xfdf xmlns="http://ns.adobe.com/xfdf/"><annots>
+            <square page="7" rect="0,0,10,10" name="far"/>
+            <caret page="0" rect="0,0,10,10" name="c"/>
+        </annots></xfdf>`
+        expect(parseXfdf(xml, pageSizes)).toEqual({ annotations: [], skipped: 2 })
+        // A page without a size would put NaN coordinates in the store
+        const square = `<?xml version="1.0"?><xfdf xmlns="http://ns.adobe.com/xfdf/"><annots>
+            <square page="0" rect="0,0,10,10" name="flat"/>
+        </annots></xfdf>`
+        expect(parseXfdf(square, [{ width: 0, height: 0 }])).toEqual({ annotations: [], skipped: 1 })
+        expect(() => parseXfdf('<html></html>', pageSizes)).toThrow(/xfdf/i)
+        expect(() => parseXfdf('<xfdf>', pageSizes)).toThrow(/well-formed/)
+    })
+
+    it('imports through loadAnnotations as an undoable step', () => {
+        const { annotations } = parseXfdf(
+            annotationsToXfdf([{ ...base, id: 'h1', type: 'highlight', page: 1, startX: 0.1, startY: 0.1, endX: 0.2, endY: 0.2 }], pageSizes),
+            pageSizes,
+        )
+        useAnnotationStore.getState().loadAnnotations(annotations, { undoable: true })
+        expect(useAnnotationStore.getState().annotations).toHaveLength(1)
+        useAnnotationStore.getState().undo()
+        expect(useAnnotationStore.getState().annotations).toHaveLength(0)
+    })
+})
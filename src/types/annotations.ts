@@ -3,8 +3,32 @@
  * Follows DEEPWIKI annotation persistence model
  */
 
-export type AnnotationType = 'highlight' | 'pen' | 'rectangle' | 'text-box' | 'sticky-note' | 'stamp' | 'signature';
+export type AnnotationType =
+  | 'highlight' | 'underline' | 'strikeout' | 'pen'
+  | 'rectangle' | 'ellipse' | 'line' | 'arrow' | 'polyline' | 'polygon' | 'cloud'
+  | 'text-box' | 'sticky-note' | 'stamp' | 'signature' | 'redact' | 'form-field';
 export type ToolType = AnnotationType | 'eraser' | 'pointer';
+export type ReviewStatus = 'open' | 'accepted' | 'rejected' | 'resolved';
+export type TextAlign = 'left' | 'center' | 'right';
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+export type LineEnding = 'none' | 'open' | 'closed';
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'signature';
+
+/** A stretch of text-box text in one style */
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface AnnotationReply {
+  id: string;
+  text: string;
+  createdAt: string; // ISO8601
+  author?: string;
+  updatedAt?: string;
+}
 
 export interface Annotation {
   id: string;
@@ -18,7 +42,8 @@ export interface Annotation {
   startY: number;
   endX?: number;
   endY?: number;
-  points?: [number, number][]; // For pen/polygon/freehand
+  points?: [number, number][]; // Pen strokes, polyline and polygon vertices
+  quads?: [number, number, number, number][]; // Text markup: [left, top, right, bottom] per line
   width?: number;
   height?: number;
 
@@ -26,14 +51,37 @@ export interface Annotation {
   color?: string; // hex or rgba
   strokeWidth?: number;
   opacity?: number;
-  fillColor?: string; // For rectangles, circles
+  fillColor?: string; // Closed shapes; text-box background
+  dashStyle?: DashStyle; // Shape outlines; missing means solid
+  lineEndings?: [LineEnding, LineEnding]; // Arrow heads at the start and end of an arrow
+  borderColor?: string; // Text-box border
+  borderWidth?: number;
 
   // Content
   text?: string; // For sticky-note, text-box
+  selectedText?: string; // PDF text under a highlight, underline or strikeout
+  tags?: string[]; // e.g. the search term of highlights made from find results
   imageDataUrl?: string;
   imageMime?: string;
   fontSize?: number;
   fontFamily?: string;
+  textRuns?: TextRun[]; // Styled text-box text; `text` holds the same characters unstyled
+  textAlign?: TextAlign;
+  lineSpacing?: number; // Line height as a multiple of the font size
+  autoGrow?: boolean; // Text box grows taller to fit its text instead of clipping it
+
+  // Form design: a 'form-field' becomes an AcroForm widget on export
+  fieldType?: FormFieldType;
+  fieldName?: string; // Radio buttons sharing a name form one group
+  fieldOption?: string; // Radio button: the value it selects
+  options?: string[]; // Dropdown choices
+  defaultValue?: string | boolean; // Text, chosen option or radio value; true for a checked checkbox
+  required?: boolean;
+  tabOrder?: number; // Position in the document's tab order
+
+  // Review
+  replies?: AnnotationReply[];
+  status?: ReviewStatus; // Missing means 'open'
 
   // Status
   isDeleted?: boolean;
@@ -41,6 +89,12 @@ export interface Annotation {
   resolvedAt?: string;
 }
 
+/** Box settings given to new text boxes */
+export type TextBoxStyle = Pick<Annotation, 'textAlign' | 'lineSpacing' | 'fillColor' | 'borderColor' | 'borderWidth' | 'autoGrow'>;
+
+/** Shape settings given to new shapes */
+export type ShapeStyle = Pick<Annotation, 'fillColor' | 'dashStyle' | 'lineEndings'>;
+
 export interface AnnotationState {
   annotations: Annotation[];
   selectedTool: ToolType;
@@ -48,6 +102,9 @@ export interface AnnotationState {
   selectedThickness: number;
   selectedOpacity: number;
   selectedFontSize: number;
+  textBoxStyle: TextBoxStyle;
+  shapeStyle: ShapeStyle;
+  formFieldType: FormFieldType;
   signatureDataUrl?: string;
   signatureMime?: string;
   currentPage: number;
@@ -69,9 +126,30 @@ export type AnnotationAction =
   | { type: 'SET_PAGE'; page: number }
   | { type: 'SET_DRAWING'; isDrawing: boolean };
 
+/**
+ * Per-document view state, restored when the same file is reopened
+ */
+export interface DocumentViewState {
+  currentPage: number;
+  zoom?: number | 'fit-width' | 'fit-page';
+}
+
+/**
+ * Entry of the "recent documents" list (keyed by content hash)
+ */
+export interface RecentDocument {
+  pdfId: string;
+  fileName: string;
+  numPages: number;
+  annotationCount: number;
+  lastOpenedAt: string; // ISO8601
+}
+
 export interface ExportedAnnotations {
+  schema: 'pdfoid.annotations';
   version: string;
-  pdfId: string;
+  pdfId: string | null; // content hash of the source PDF, null when unknown
+  fileName?: string;
   exportDate: string;
   annotations: Annotation[];
 }
@@ -0,0 +1,94 @@
+/**
+ * Document-wide annotation queries: search, filters, sorting and page groups
+ */
+
+import type { Annotation, AnnotationType, ReviewStatus } from '../types/annotations'
+
+export type AnnotationSort = 'page' | 'createdAt'
+
+/** Empty filter lists match everything. */
+export interface AnnotationQuery {
+  search?: string
+  authors?: string[]
+  colors?: string[]
+  types?: AnnotationType[]
+  statuses?: ReviewStatus[]
+  sort?: AnnotationSort
+}
+
+export interface AnnotationPageGroup {
+  page: number
+  annotations: Annotation[]
+}
+
+// Annotations without an author are grouped under ''
+export const authorOf = (annotation: Annotation) => annotation.author?.trim() ?? ''
+
+export const colorOf = (annotation: Annotation) => (annotation.color ?? '').toLowerCase()
+
+export const statusOf = (annotation: Annotation): ReviewStatus => annotation.status ?? 'open'
+
+const searchableText = (annotation: Annotation) =>
+  [annotation.text, annotation.selectedText, ...(annotation.tags ?? []), annotation.author, ...(annotation.replies ?? []).flatMap((r) => [r.text, r.author])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase()
+
+const matchesAny = <T>(values: T[] | undefined, value: T) => !values?.length || values.includes(value)
+
+// Reading order within a page: top to bottom, then left to right
+const byPosition = (a: Annotation, b: Annotation) => a.page - b.page || a.startY - b.startY || a.startX - b.startX
+
+// Newest first; ties fall back to reading order
+const byCreatedAt = (a: Annotation, b: Annotation) =>
+  Date.parse(b.createdAt) - Date.parse(a.createdAt) || byPosition(a, b)
+
+/**
+ * Filter and sort annotations. Every whitespace-separated search term must
+ * appear in the annotation's text, the PDF text it marks, its tags, its
+ * replies or an author name.
+ */
+export const queryAnnotations = (annotations: Annotation[], query: AnnotationQuery): Annotation[] => {
+  const terms = (query.search ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+  const colors = query.colors?.map((c) => c.toLowerCase())
+  const matchesSearch = (ann: Annotation) => {
+    if (!terms.length) return true
+    const text = searchableText(ann)
+    return terms.every((term) => text.includes(term))
+  }
+  return annotations
+    .filter((ann) =>
+      matchesAny(query.types, ann.type) &&
+      matchesAny(query.authors, authorOf(ann)) &&
+      matchesAny(colors, colorOf(ann)) &&
+      matchesAny(query.statuses, statusOf(ann)) &&
+      matchesSearch(ann)
+    )
+    .sort(query.sort === 'createdAt' ? byCreatedAt : byPosition)
+}
+
+/**
+ * Group annotations by page, keeping their order. Pages appear in order of
+ * their first annotation, so a newest-first list puts the latest pages first.
+ */
+export const groupByPage = (annotations: Annotation[]): AnnotationPageGroup[] => {
+  const groups = new Map<number, AnnotationPageGroup>()
+  for (const ann of annotations) {
+    const group = groups.get(ann.page)
+    if (group) group.annotations.push(ann)
+    else groups.set(ann.page, { page: ann.page, annotations: [ann] })
+  }
+  return [...groups.values()]
+}
+
+/** Distinct values for the filter pickers, most used first. */
+export const facetValues = (annotations: Annotation[], valueOf: (annotation: Annotation) => string): Array<{ value: string; count: number }> => {
+  const counts = new Map<string, number>()
+  annotations.forEach((ann) => {
+    const value = valueOf(ann)
+    counts.set(value, (counts.get(value) ?? 0) + 1)
+  })
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
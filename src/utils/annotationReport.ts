@@ -0,0 +1,218 @@
+/**
+ * Comments summary report
+ *
+ * Turns store annotations into a review summary (Markdown, standalone HTML
+ * or CSV). Each entry carries the PDF text found under or next to the
+ * annotation so the summary reads on its own, e.g. when pasted into an email.
+ */
+
+import type { Annotation, AnnotationReply, ReviewStatus } from '../types/annotations'
+import { queryAnnotations, statusOf } from './annotationQuery'
+import { textNearRect, type NormalizedRect, type PageTextItem } from './pageText'
+
+export type ReportFormat = 'markdown' | 'html' | 'csv' | 'pdf'
+
+export interface ReportEntry {
+  id: string
+  page: number
+  type: string
+  author?: string
+  createdAt: string
+  status: ReviewStatus
+  text?: string
+  snippet: string
+  replies: AnnotationReply[]
+}
+
+export interface ReportMeta {
+  fileName: string
+  generatedAt: Date
+}
+
+export interface ReportOptions {
+  // Leave out markup that has neither text nor replies (plain highlights, drawings)
+  commentsOnly?: boolean
+}
+
+const SNIPPET_MAX_LENGTH = 240
+// Notes and text boxes are anchored at a point; read the line they sit on
+const POINT_SIZE = 0.01
+const POINT_MARGIN = { x: 0.25, y: 0.015 }
+
+/** Area an annotation covers, normalized with a top-left origin. */
+export const annotationRect = (ann: Annotation): NormalizedRect => {
+  if (ann.points?.length) {
+    const xs = ann.points.map((p) => p[0])
+    const ys = ann.points.map((p) => p[1])
+    const left = Math.min(...xs)
+    const top = Math.min(...ys)
+    return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }
+  }
+  const endX = ann.endX ?? ann.startX + (ann.width ?? 0)
+  const endY = ann.endY ?? ann.startY + (ann.height ?? 0)
+  return {
+    left: Math.min(ann.startX, endX),
+    top: Math.min(ann.startY, endY),
+    width: Math.abs(endX - ann.startX),
+    height: Math.abs(endY - ann.startY),
+  }
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text)
+
+const snippetFor = (ann: Annotation, items: PageTextItem[]) => {
+  // Text markup already knows the exact words it covers
+  if (ann.selectedText?.trim()) return ann.selectedText.trim()
+  const rect = annotationRect(ann)
+  const isPoint = rect.width < POINT_SIZE && rect.height < POINT_SIZE
+  return textNearRect(items, rect, isPoint ? POINT_MARGIN : undefined)
+}
+
+/** Report entries in reading order; `textByPage` maps 1-based pages to their text runs. */
+export const buildReportEntries = (
+  annotations: Annotation[],
+  textByPage: Map<number, PageTextItem[]>,
+  options: ReportOptions = {}
+): ReportEntry[] =>
+  queryAnnotations(annotations.filter((ann) => !ann.isDeleted), { sort: 'page' })
+    .filter((ann) => !options.commentsOnly || ann.text?.trim() || ann.replies?.length)
+    .map((ann) => ({
+      id: ann.id,
+      page: ann.page,
+      type: ann.type.replace('-', ' '),
+      author: ann.author,
+      createdAt: ann.createdAt,
+      status: statusOf(ann),
+      text: ann.text?.trim() || undefined,
+      snippet: truncate(snippetFor(ann, textByPage.get(ann.page) ?? []), SNIPPET_MAX_LENGTH),
+      replies: ann.replies ?? [],
+    }))
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+/** Local `YYYY-MM-DD HH:mm` */
+export const formatTimestamp = (iso: string) => {
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return iso
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+const heading = (entry: ReportEntry) =>
+  [entry.type, entry.author || 'Unknown author', formatTimestamp(entry.createdAt)].join(' · ')
+
+const pageGroups = (entries: ReportEntry[]) => {
+  const groups = new Map<number, ReportEntry[]>()
+  entries.forEach((entry) => groups.set(entry.page, [...(groups.get(entry.page) ?? []), entry]))
+  return [...groups.entries()]
+}
+
+const countLabel = (n: number) => `${n} annotation${n === 1 ? '' : 's'}`
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const quote = (text: string) => text.split('\n').map((line) => `> ${line}`).join('\n')
+
+export const reportToMarkdown = (entries: ReportEntry[], meta: ReportMeta): string => {
+  const lines = [
+    `# Comments summary: ${meta.fileName}`,
+    '',
+    `Generated ${formatTimestamp(meta.generatedAt.toISOString())}, ${countLabel(entries.length)}.`,
+  ]
+  for (const [page, pageEntries] of pageGroups(entries)) {
+    lines.push('', `## Page ${page}`)
+    for (const entry of pageEntries) {
+      lines.push('', `### ${heading(entry)}${entry.status === 'open' ? '' : ` (${entry.status})`}`, '')
+      if (entry.text) lines.push(quote(entry.text), '')
+      if (entry.snippet) lines.push(`Context: “${entry.snippet}”`, '')
+      entry.replies.forEach((reply) => {
+        lines.push(`- **${reply.author || 'Unknown'}** (${formatTimestamp(reply.createdAt)}): ${reply.text.replace(/\n/g, ' ')}`)
+      })
+    }
+  }
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!)
+
+const REPORT_STYLES = [
+  'body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#1f2937}',
+  'h2{border-bottom:1px solid #e5e7eb;padding-bottom:.25rem;margin-top:2rem}',
+  'article{margin:1rem 0;padding:.75rem 1rem;border:1px solid #e5e7eb;border-radius:.5rem}',
+  'h3{font-size:.95rem;margin:0 0 .5rem}',
+  '.status{font-size:.75rem;text-transform:uppercase;color:#4f46e5;margin-left:.5rem}',
+  'blockquote{margin:.5rem 0;padding-left:.75rem;border-left:3px solid #c7d2fe;white-space:pre-wrap}',
+  '.context{color:#6b7280;font-size:.875rem}',
+  'ul{margin:.5rem 0 0;padding-left:1.25rem;font-size:.875rem}',
+].join('\n')
+
+export const reportToHtml = (entries: ReportEntry[], meta: ReportMeta): string => {
+  const title = `Comments summary: ${meta.fileName}`
+  const body = pageGroups(entries).map(([page, pageEntries]) => [
+    `<section>`,
+    `<h2>Page ${page}</h2>`,
+    ...pageEntries.map((entry) => [
+      '<article>',
+      `<h3>${escapeHtml(heading(entry))}${entry.status === 'open' ? '' : `<span class="status">${entry.status}</span>`}</h3>`,
+      entry.text ? `<blockquote>${escapeHtml(entry.text)}</blockquote>` : '',
+      entry.snippet ? `<p class="context">Context: “${escapeHtml(entry.snippet)}”</p>` : '',
+      entry.replies.length
+        ? `<ul>${entry.replies.map((reply) =>
+          `<li><strong>${escapeHtml(reply.author || 'Unknown')}</strong> (${formatTimestamp(reply.createdAt)}): ${escapeHtml(reply.text)}</li>`
+        ).join('')}</ul>`
+        : '',
+      '</article>',
+    ].filter(Boolean).join('\n')),
+    `</section>`,
+  ].join('\n')).join('\n')
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${REPORT_STYLES}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>Generated ${formatTimestamp(meta.generatedAt.toISOString())}, ${countLabel(entries.length)}.</p>`,
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS = ['Page', 'Type', 'Author', 'Created', 'Status', 'Text', 'Context', 'Replies']
+
+const csvCell = (value: string | number) => {
+  let text = String(value)
+  // Keep spreadsheets from evaluating comment text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const reportToCsv = (entries: ReportEntry[]): string => {
+  const rows = entries.map((entry) => [
+    entry.page,
+    entry.type,
+    entry.author ?? '',
+    entry.createdAt,
+    entry.status,
+    entry.text ?? '',
+    entry.snippet,
+    entry.replies.map((reply) => `${reply.author || 'Unknown'}: ${reply.text}`).join('\n'),
+  ])
+  return `${[CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`
+}
@@ -0,0 +1,358 @@
+/**
+ * Annotation JSON schema: validation and version migrations
+ *
+ * Every imported file is parsed with `safeJsonParse`, walked up the migration
+ * chain to the current version and then validated field by field. Only known
+ * fields are copied, so malformed or foreign data never reaches the store.
+ */
+
+import type { Annotation, AnnotationType, DashStyle, ExportedAnnotations, FormFieldType, LineEnding, ReviewStatus, TextAlign } from '../types/annotations';
+import { Result, err, ok, safeJsonParse } from '../types/common';
+
+export const ANNOTATIONS_SCHEMA_ID = 'pdfoid.annotations';
+export const ANNOTATIONS_SCHEMA_VERSION = '2.1';
+
+export const ANNOTATION_TYPES: readonly AnnotationType[] = [
+  'highlight',
+  'underline',
+  'strikeout',
+  'pen',
+  'rectangle',
+  'ellipse',
+  'line',
+  'arrow',
+  'polyline',
+  'polygon',
+  'cloud',
+  'text-box',
+  'sticky-note',
+  'stamp',
+  'signature',
+  'redact',
+  'form-field',
+];
+
+export const FORM_FIELD_TYPES: readonly FormFieldType[] = ['text', 'checkbox', 'radio', 'dropdown', 'signature'];
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ['open', 'accepted', 'rejected', 'resolved'];
+
+export const TEXT_ALIGNS: readonly TextAlign[] = ['left', 'center', 'right'];
+
+export const DASH_STYLES: readonly DashStyle[] = ['solid', 'dashed', 'dotted'];
+
+export const LINE_ENDINGS: readonly LineEnding[] = ['none', 'open', 'closed'];
+
+export interface SchemaIssue {
+  path: string; // e.g. `annotations[3].startX`
+  message: string;
+}
+
+export interface SchemaError {
+  message: string;
+  issues: SchemaIssue[];
+}
+
+type Check = (value: unknown) => string | null;
+
+interface FieldSpec {
+  required?: boolean;
+  check: Check;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const string: Check = (v) => (typeof v === 'string' ? null : 'expected a string');
+const nonEmptyString: Check = (v) => (typeof v === 'string' && v.trim() ? null : 'expected a non-empty string');
+const boolean: Check = (v) => (typeof v === 'boolean' ? null : 'expected true or false');
+const finite: Check = (v) => (isFiniteNumber(v) ? null : 'expected a number');
+const nonNegative: Check = (v) => (isFiniteNumber(v) && v >= 0 ? null : 'expected a number >= 0');
+const positive: Check = (v) => (isFiniteNumber(v) && v > 0 ? null : 'expected a number > 0');
+const unit: Check = (v) => (isFiniteNumber(v) && v >= 0 && v <= 1 ? null : 'expected a number between 0 and 1');
+const pageNumber: Check = (v) => (Number.isInteger(v) && (v as number) >= 1 ? null : 'expected a page number >= 1');
+const isoDate: Check = (v) =>
+  typeof v === 'string' && !Number.isNaN(Date.parse(v)) ? null : 'expected an ISO 8601 date string';
+const annotationType: Check = (v) =>
+  ANNOTATION_TYPES.includes(v as AnnotationType) ? null : `expected one of ${ANNOTATION_TYPES.join(', ')}`;
+const points: Check = (v) => {
+  if (!Array.isArray(v)) return 'expected an array of [x, y] pairs';
+  const bad = v.findIndex((p) => !Array.isArray(p) || p.length !== 2 || !isFiniteNumber(p[0]) || !isFiniteNumber(p[1]));
+  return bad === -1 ? null : `point ${bad} is not an [x, y] pair of numbers`;
+};
+const quads: Check = (v) => {
+  if (!Array.isArray(v)) return 'expected an array of [left, top, right, bottom] quads';
+  const bad = v.findIndex((q) => !Array.isArray(q) || q.length !== 4 || !q.every(isFiniteNumber));
+  return bad === -1 ? null : `quad ${bad} is not four numbers`;
+};
+const stringList: Check = (v) =>
+  Array.isArray(v) && v.every((item) => typeof item === 'string') ? null : 'expected an array of strings';
+const reviewStatus: Check = (v) =>
+  REVIEW_STATUSES.includes(v as ReviewStatus) ? null : `expected one of ${REVIEW_STATUSES.join(', ')}`;
+const textAlign: Check = (v) =>
+  TEXT_ALIGNS.includes(v as TextAlign) ? null : `expected one of ${TEXT_ALIGNS.join(', ')}`;
+const dashStyle: Check = (v) =>
+  DASH_STYLES.includes(v as DashStyle) ? null : `expected one of ${DASH_STYLES.join(', ')}`;
+const lineEndings: Check = (v) =>
+  Array.isArray(v) && v.length === 2 && v.every((ending) => LINE_ENDINGS.includes(ending))
+    ? null
+    : `expected [start, end] with each one of ${LINE_ENDINGS.join(', ')}`;
+const formFieldType: Check = (v) =>
+  FORM_FIELD_TYPES.includes(v as FormFieldType) ? null : `expected one of ${FORM_FIELD_TYPES.join(', ')}`;
+const textRuns: Check = (v) => {
+  if (!Array.isArray(v)) return 'expected an array of text runs';
+  for (let i = 0; i < v.length; i++) {
+    const run = v[i];
+    if (typeof run !== 'object' || run === null || Array.isArray(run)) return `run ${i} is not an object`;
+    const problem = string(run.text)
+      ?? (['bold', 'italic', 'underline'] as const).map((key) => (run[key] === undefined ? null : boolean(run[key]))).find(Boolean);
+    if (problem) return `run ${i}: ${problem}`;
+  }
+  return null;
+};
+const replies: Check = (v) => {
+  if (!Array.isArray(v)) return 'expected an array of replies';
+  for (let i = 0; i < v.length; i++) {
+    const reply = v[i];
+    if (typeof reply !== 'object' || reply === null || Array.isArray(reply)) return `reply ${i} is not an object`;
+    const problem = nonEmptyString(reply.id) ?? nonEmptyString(reply.text) ?? isoDate(reply.createdAt)
+      ?? (reply.author === undefined ? null : string(reply.author))
+      ?? (reply.updatedAt === undefined ? null : isoDate(reply.updatedAt));
+    if (problem) return `reply ${i}: ${problem}`;
+  }
+  return null;
+};
+
+/**
+ * Field rules for `Annotation`. Keyed by every property so the compiler
+ * flags this table whenever the model grows.
+ */
+const ANNOTATION_FIELDS: Record<keyof Annotation, FieldSpec> = {
+  id: { required: true, check: nonEmptyString },
+  type: { required: true, check: annotationType },
+  page: { required: true, check: pageNumber },
+  createdAt: { required: true, check: isoDate },
+  author: { check: string },
+  startX: { required: true, check: finite },
+  startY: { required: true, check: finite },
+  endX: { check: finite },
+  endY: { check: finite },
+  points: { check: points },
+  quads: { check: quads },
+  width: { check: nonNegative },
+  height: { check: nonNegative },
+  color: { check: string },
+  strokeWidth: { check: nonNegative },
+  opacity: { check: unit },
+  fillColor: { check: string },
+  dashStyle: { check: dashStyle },
+  lineEndings: { check: lineEndings },
+  borderColor: { check: string },
+  borderWidth: { check: nonNegative },
+  text: { check: string },
+  selectedText: { check: string },
+  tags: { check: stringList },
+  imageDataUrl: { check: (v) => (typeof v === 'string' && v.startsWith('data:') ? null : 'expected a data: URL') },
+  imageMime: { check: string },
+  fontSize: { check: positive },
+  fontFamily: { check: string },
+  textRuns: { check: textRuns },
+  textAlign: { check: textAlign },
+  lineSpacing: { check: positive },
+  autoGrow: { check: boolean },
+  fieldType: { check: formFieldType },
+  fieldName: { check: nonEmptyString },
+  fieldOption: { check: nonEmptyString },
+  options: { check: stringList },
+  defaultValue: { check: (v) => (typeof v === 'string' || typeof v === 'boolean' ? null : 'expected a string or true/false') },
+  required: { check: boolean },
+  tabOrder: { check: finite },
+  replies: { check: replies },
+  status: { check: reviewStatus },
+  isDeleted: { check: boolean },
+  resolvedBy: { check: string },
+  resolvedAt: { check: isoDate },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate one annotation. Returns the cleaned annotation (known fields only)
+ * or the list of issues found.
+ */
+export const validateAnnotation = (value: unknown, path = 'annotation'): Result<Annotation, SchemaIssue[]> => {
+  if (!isRecord(value)) return err([{ path, message: 'expected an object' }]);
+
+  const issues: SchemaIssue[] = [];
+  const clean: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(ANNOTATION_FIELDS) as Array<[keyof Annotation, FieldSpec]>) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (spec.required) issues.push({ path: `${path}.${key}`, message: 'is required' });
+      continue;
+    }
+    const problem = spec.check(fieldValue);
+    if (problem) {
+      issues.push({ path: `${path}.${key}`, message: problem });
+    } else {
+      clean[key] = fieldValue;
+    }
+  }
+
+  if (!issues.length && (clean.type === 'pen' || clean.type === 'polyline' || clean.type === 'polygon') && !Array.isArray(clean.points)) {
+    issues.push({ path: `${path}.points`, message: `is required for ${clean.type} annotations` });
+  }
+  if (!issues.length && clean.type === 'form-field') {
+    for (const key of ['fieldType', 'fieldName'] as const) {
+      if (clean[key] === undefined) issues.push({ path: `${path}.${key}`, message: 'is required for form-field annotations' });
+    }
+  }
+
+  // Replies are copied field by field like the annotation itself
+  if (Array.isArray(clean.replies)) {
+    clean.replies = (clean.replies as Array<Record<string, unknown>>).map(({ id, text, createdAt, author, updatedAt }) => ({
+      id, text, createdAt, ...(author !== undefined && { author }), ...(updatedAt !== undefined && { updatedAt }),
+    }));
+  }
+
+  return issues.length ? err(issues) : ok(clean as unknown as Annotation);
+};
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+type Migration = { to: string; migrate: (data: Record<string, unknown>) => Record<string, unknown> };
+
+const toIsoDate = (value: unknown) => {
+  if (isFiniteNumber(value)) return new Date(value).toISOString();
+  return value;
+};
+
+/**
+ * Keyed by the version they upgrade from; applied in sequence until the
+ * data reaches `ANNOTATIONS_SCHEMA_VERSION`.
+ */
+const MIGRATIONS: Record<string, Migration> = {
+  // Bare annotation arrays, as stored by early IndexedDB saves
+  '0': {
+    to: '1.0',
+    migrate: (data) => ({ version: '1.0', pdfId: 'current-pdf', exportDate: new Date().toISOString(), annotations: data.annotations }),
+  },
+  // 1.0 used a 'current-pdf' placeholder ID and allowed epoch-millisecond timestamps
+  '1.0': {
+    to: '2.0',
+    migrate: (data) => ({
+      ...data,
+      schema: ANNOTATIONS_SCHEMA_ID,
+      version: '2.0',
+      pdfId: typeof data.pdfId === 'string' && data.pdfId !== 'current-pdf' ? data.pdfId : null,
+      annotations: Array.isArray(data.annotations)
+        ? data.annotations.map((ann) =>
+          isRecord(ann) ? { ...ann, createdAt: toIsoDate(ann.createdAt), resolvedAt: toIsoDate(ann.resolvedAt) } : ann
+        )
+        : data.annotations,
+    }),
+  },
+  // 2.1 added review status and replies; resolved annotations keep their state
+  '2.0': {
+    to: '2.1',
+    migrate: (data) => ({
+      ...data,
+      version: '2.1',
+      annotations: Array.isArray(data.annotations)
+        ? data.annotations.map((ann) =>
+          isRecord(ann) && ann.resolvedAt != null && ann.status == null ? { ...ann, status: 'resolved' } : ann
+        )
+        : data.annotations,
+    }),
+  },
+};
+
+const migrate = (input: Record<string, unknown>): Result<Record<string, unknown>, SchemaIssue[]> => {
+  let data = input;
+  const seen = new Set<string>();
+  while (data.version !== ANNOTATIONS_SCHEMA_VERSION) {
+    const version = data.version;
+    if (typeof version !== 'string') {
+      return err([{ path: 'version', message: 'is required' }]);
+    }
+    const step = MIGRATIONS[version];
+    if (!step || seen.has(version)) {
+      return err([{
+        path: 'version',
+        message: `unsupported version "${version}" (this app reads up to ${ANNOTATIONS_SCHEMA_VERSION})`,
+      }]);
+    }
+    seen.add(version);
+    data = step.migrate(data);
+  }
+  return ok(data);
+};
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+const schemaError = (message: string, issues: SchemaIssue[]): SchemaError => ({ message, issues });
+
+/**
+ * Parse, migrate and validate an exported annotations file.
+ */
+export const parseAnnotationsJson = (json: string): Result<ExportedAnnotations, SchemaError> => {
+  const parsed = safeJsonParse<unknown>(json);
+  if (!parsed.success) {
+    return err(schemaError('The file is not valid JSON', [{ path: '$', message: parsed.error.message }]));
+  }
+
+  const raw = parsed.data;
+  const versioned = Array.isArray(raw) ? { version: '0', annotations: raw } : raw;
+  if (!isRecord(versioned)) {
+    return err(schemaError('Expected an annotations export object', [{ path: '$', message: 'expected an object' }]));
+  }
+
+  const migrated = migrate(versioned);
+  if (!migrated.success) {
+    return err(schemaError('Unsupported annotations file version', migrated.error));
+  }
+  const data = migrated.data;
+
+  const issues: SchemaIssue[] = [];
+  if (data.schema !== ANNOTATIONS_SCHEMA_ID) issues.push({ path: 'schema', message: `expected "${ANNOTATIONS_SCHEMA_ID}"` });
+  if (data.pdfId !== null && typeof data.pdfId !== 'string') issues.push({ path: 'pdfId', message: 'expected a string or null' });
+  if (data.fileName !== undefined && typeof data.fileName !== 'string') issues.push({ path: 'fileName', message: 'expected a string' });
+  const dateProblem = isoDate(data.exportDate);
+  if (dateProblem) issues.push({ path: 'exportDate', message: dateProblem });
+
+  const annotations: Annotation[] = [];
+  if (!Array.isArray(data.annotations)) {
+    issues.push({ path: 'annotations', message: 'expected an array' });
+  } else {
+    const ids = new Set<string>();
+    data.annotations.forEach((item, index) => {
+      const result = validateAnnotation(item, `annotations[${index}]`);
+      if (!result.success) {
+        issues.push(...result.error);
+        return;
+      }
+      if (ids.has(result.data.id)) {
+        issues.push({ path: `annotations[${index}].id`, message: `duplicate id "${result.data.id}"` });
+        return;
+      }
+      ids.add(result.data.id);
+      annotations.push(result.data);
+    });
+  }
+
+  if (issues.length) {
+    return err(schemaError(`${issues.length} problem${issues.length === 1 ? '' : 's'} found in annotations file`, issues));
+  }
+
+  return ok({
+    schema: ANNOTATIONS_SCHEMA_ID,
+    version: ANNOTATIONS_SCHEMA_VERSION,
+    pdfId: (data.pdfId as string | null) ?? null,
+    fileName: data.fileName as string | undefined,
+    exportDate: data.exportDate as string,
+    annotations,
+  });
+};
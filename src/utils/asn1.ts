@@ -0,0 +1,320 @@
+/**
+ * Minimal ASN.1 reader and DER writer for the signing code: X.509
+ * certificates, PKCS#12 key files and CMS signatures
+ *
+ * Input may use BER indefinite lengths and constructed strings (some
+ * PKCS#12 writers produce them); output is always DER.
+ */
+
+export interface Asn1 {
+  // Identifier octet: class, constructed bit and tag number (low-tag-number form only)
+  tag: number
+  // The whole encoding, header included: what signatures and digests cover
+  der: Uint8Array
+  // Contents octets
+  value: Uint8Array
+  children: Asn1[]
+}
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  UNIVERSAL_STRING: 0x1c,
+  BMP_STRING: 0x1e,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const
+
+/** Object identifiers the signing modules read and write */
+export const OID = {
+  // Digests and HMAC
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  hmacWithSha1: '1.2.840.113549.2.7',
+  hmacWithSha256: '1.2.840.113549.2.9',
+  hmacWithSha384: '1.2.840.113549.2.10',
+  hmacWithSha512: '1.2.840.113549.2.11',
+  // Keys and signatures
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsassaPss: '1.2.840.113549.1.1.10',
+  sha1WithRsa: '1.2.840.113549.1.1.5',
+  sha256WithRsa: '1.2.840.113549.1.1.11',
+  sha384WithRsa: '1.2.840.113549.1.1.12',
+  sha512WithRsa: '1.2.840.113549.1.1.13',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha1: '1.2.840.10045.4.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  ecdsaWithSha384: '1.2.840.10045.4.3.3',
+  ecdsaWithSha512: '1.2.840.10045.4.3.4',
+  p256: '1.2.840.10045.3.1.7',
+  p384: '1.3.132.0.34',
+  p521: '1.3.132.0.35',
+  // Names
+  commonName: '2.5.4.3',
+  surname: '2.5.4.4',
+  serialNumber: '2.5.4.5',
+  country: '2.5.4.6',
+  locality: '2.5.4.7',
+  state: '2.5.4.8',
+  organization: '2.5.4.10',
+  organizationalUnit: '2.5.4.11',
+  givenName: '2.5.4.42',
+  emailAddress: '1.2.840.113549.1.9.1',
+  // Certificate extensions
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  basicConstraints: '2.5.29.19',
+  authorityKeyIdentifier: '2.5.29.35',
+  // CMS
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  encryptedData: '1.2.840.113549.1.7.6',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  // PKCS#12 and password-based encryption
+  friendlyName: '1.2.840.113549.1.9.20',
+  localKeyId: '1.2.840.113549.1.9.21',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  pkcs8ShroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  pbeWithSha1And128BitRc4: '1.2.840.113549.1.12.1.1',
+  pbeWithSha1And3KeyTripleDes: '1.2.840.113549.1.12.1.3',
+  pbeWithSha1And2KeyTripleDes: '1.2.840.113549.1.12.1.4',
+  pbeWithSha1And128BitRc2: '1.2.840.113549.1.12.1.5',
+  pbeWithSha1And40BitRc2: '1.2.840.113549.1.12.1.6',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+  aes128Cbc: '2.16.840.1.101.3.4.1.2',
+  aes192Cbc: '2.16.840.1.101.3.4.1.22',
+  aes256Cbc: '2.16.840.1.101.3.4.1.42',
+  desEde3Cbc: '1.2.840.113549.3.7',
+} as const
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+const parseAt = (bytes: Uint8Array, offset: number, end: number): [Asn1, number] => {
+  if (offset + 2 > end) throw new Error('Invalid ASN.1: truncated data')
+  const tag = bytes[offset]
+  if ((tag & 0x1f) === 0x1f) throw new Error('Invalid ASN.1: unsupported tag')
+  const constructed = (tag & 0x20) !== 0
+  let pos = offset + 1
+  const first = bytes[pos++]
+
+  if (first === 0x80) {
+    // BER indefinite length: children up to an end-of-contents marker
+    if (!constructed) throw new Error('Invalid ASN.1: indefinite length on a primitive value')
+    const children: Asn1[] = []
+    const start = pos
+    while (!(bytes[pos] === 0 && bytes[pos + 1] === 0)) {
+      if (pos >= end) throw new Error('Invalid ASN.1: missing end of contents')
+      const [child, next] = parseAt(bytes, pos, end)
+      children.push(child)
+      pos = next
+    }
+    return [{ tag, der: bytes.subarray(offset, pos + 2), value: bytes.subarray(start, pos), children }, pos + 2]
+  }
+
+  let length = first
+  if (first & 0x80) {
+    const count = first & 0x7f
+    if (count > 4) throw new Error('Invalid ASN.1: length too large')
+    length = 0
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[pos++]
+  }
+  const contentEnd = pos + length
+  if (contentEnd > end) throw new Error('Invalid ASN.1: truncated data')
+  const children: Asn1[] = []
+  if (constructed) {
+    let child = pos
+    while (child < contentEnd) {
+      const [node, next] = parseAt(bytes, child, contentEnd)
+      children.push(node)
+      child = next
+    }
+  }
+  return [{ tag, der: bytes.subarray(offset, contentEnd), value: bytes.subarray(pos, contentEnd), children }, contentEnd]
+}
+
+/**
+ * Parse the value at the start of `bytes`. Anything after it is ignored,
+ * such as the zero padding of a PDF signature's `/Contents`.
+ */
+export const parseDer = (bytes: Uint8Array): Asn1 => parseAt(bytes, 0, bytes.length)[0]
+
+/** The `index`th child, or a thrown error naming what was expected */
+export const childAt = (node: Asn1 | undefined, index: number, what = 'value'): Asn1 => {
+  const child = node?.children[index]
+  if (!child) throw new Error(`Invalid ASN.1: missing ${what}`)
+  return child
+}
+
+/** A context-specific child `[n]`, explicit or implicit */
+export const contextChild = (node: Asn1, n: number): Asn1 | undefined =>
+  node.children.find((child) => (child.tag & 0xdf) === (0x80 | n))
+
+export const readOid = (node: Asn1): string => {
+  if (node.tag !== TAG.OID) throw new Error('Invalid ASN.1: expected an object identifier')
+  const parts: number[] = []
+  let value = 0
+  node.value.forEach((byte) => {
+    value = value * 128 + (byte & 0x7f)
+    if (byte & 0x80) return
+    if (!parts.length) parts.push(value < 80 ? Math.floor(value / 40) : 2, value < 80 ? value % 40 : value - 80)
+    else parts.push(value)
+    value = 0
+  })
+  return parts.join('.')
+}
+
+/** Small non-negative INTEGER as a number */
+export const readInteger = (node: Asn1): number => {
+  if (node.tag !== TAG.INTEGER) throw new Error('Invalid ASN.1: expected an integer')
+  return node.value.reduce((value, byte) => value * 256 + byte, 0)
+}
+
+export const readBoolean = (node: Asn1) => node.tag === TAG.BOOLEAN && node.value[0] !== 0
+
+/** Contents of an OCTET STRING (or implicitly tagged one), joining BER fragments */
+export const readOctets = (node: Asn1): Uint8Array =>
+  node.tag & 0x20 ? concatBytes(...node.children.map(readOctets)) : node.value
+
+/** Contents of a BIT STRING without its unused-bits octet */
+export const readBits = (node: Asn1): Uint8Array => {
+  if (node.tag !== TAG.BIT_STRING) throw new Error('Invalid ASN.1: expected a bit string')
+  return node.value.subarray(1)
+}
+
+export const readTime = (node: Asn1): Date => {
+  const text = new TextDecoder('latin1').decode(node.value)
+  const match = node.tag === TAG.UTC_TIME
+    ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+    : text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/)
+  if (!match) throw new Error('Invalid ASN.1: unsupported time format')
+  let year = Number(match[1])
+  // UTCTime years 50-99 are 1950-1999
+  if (node.tag === TAG.UTC_TIME) year += year < 50 ? 2000 : 1900
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)))
+}
+
+/** Text of any ASN.1 string type */
+export const readText = (node: Asn1): string => {
+  switch (node.tag) {
+    case TAG.BMP_STRING: {
+      let text = ''
+      for (let i = 0; i + 1 < node.value.length; i += 2) text += String.fromCharCode((node.value[i] << 8) | node.value[i + 1])
+      return text
+    }
+    case TAG.UNIVERSAL_STRING: {
+      let text = ''
+      for (let i = 0; i + 3 < node.value.length; i += 4) {
+        text += String.fromCodePoint(((node.value[i] << 24) | (node.value[i + 1] << 16) | (node.value[i + 2] << 8) | node.value[i + 3]) >>> 0)
+      }
+      return text
+    }
+    case TAG.T61_STRING:
+      return new TextDecoder('latin1').decode(node.value)
+    default:
+      return new TextDecoder().decode(node.value)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+export const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    out.set(part, offset)
+    offset += part.length
+  })
+  return out
+}
+
+const encodeLength = (length: number) => {
+  if (length < 0x80) return Uint8Array.of(length)
+  const bytes: number[] = []
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff)
+  return Uint8Array.of(0x80 | bytes.length, ...bytes)
+}
+
+/** A value with identifier `tag` around the concatenated `contents` */
+export const tlv = (tag: number, ...contents: Uint8Array[]) => {
+  const value = concatBytes(...contents)
+  return concatBytes(Uint8Array.of(tag), encodeLength(value.length), value)
+}
+
+export const sequence = (...items: Uint8Array[]) => tlv(TAG.SEQUENCE, ...items)
+
+const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return a.length - b.length
+}
+
+/** SET OF, with its items in DER order */
+export const setOf = (...items: Uint8Array[]) => tlv(TAG.SET, ...[...items].sort(compareBytes))
+
+export const oid = (value: string) => {
+  const [first, second, ...rest] = value.split('.').map(Number)
+  const bytes: number[] = []
+  ;[first * 40 + second, ...rest].forEach((part) => {
+    const chunk = [part & 0x7f]
+    for (let rem = Math.floor(part / 128); rem > 0; rem = Math.floor(rem / 128)) chunk.unshift((rem & 0x7f) | 0x80)
+    bytes.push(...chunk)
+  })
+  return tlv(TAG.OID, Uint8Array.from(bytes))
+}
+
+/** INTEGER from a small number or from big-endian unsigned bytes */
+export const integer = (value: number | Uint8Array) => {
+  let bytes: Uint8Array
+  if (typeof value === 'number') {
+    const list: number[] = []
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) list.unshift(rest & 0xff)
+    bytes = Uint8Array.from(list.length ? list : [0])
+  } else {
+    let start = 0
+    while (start < value.length - 1 && value[start] === 0) start++
+    bytes = value.subarray(start)
+  }
+  // A set top bit would read as negative
+  return tlv(TAG.INTEGER, bytes[0] & 0x80 ? concatBytes(Uint8Array.of(0), bytes) : bytes)
+}
+
+export const octetString = (bytes: Uint8Array) => tlv(TAG.OCTET_STRING, bytes)
+
+export const nullValue = () => Uint8Array.of(TAG.NULL, 0)
+
+/** Context-specific constructed `[n]` around `contents` (explicit tagging) */
+export const explicit = (n: number, ...contents: Uint8Array[]) => tlv(0xa0 | n, ...contents)
+
+/** The same encoding under another identifier (implicit tagging) */
+export const retag = (der: Uint8Array, tag: number) => {
+  const copy = der.slice()
+  copy[0] = tag
+  return copy
+}
+
+/** AlgorithmIdentifier, with NULL parameters unless others are given */
+export const algorithm = (id: string, parameters: Uint8Array | null = nullValue()) =>
+  parameters ? sequence(oid(id), parameters) : sequence(oid(id))
@@ -0,0 +1,317 @@
+/**
+ * CMS (PKCS#7) SignedData for PDF signatures: detached, over a digest of the
+ * signed byte ranges, as PAdES baseline signatures (ETSI.CAdES.detached)
+ * require. Verification also covers the older adbe.pkcs7 forms and checks the
+ * signer's certificate chain against local trust anchors.
+ */
+
+import {
+  OID,
+  TAG,
+  algorithm,
+  childAt,
+  concatBytes,
+  contextChild,
+  explicit,
+  integer,
+  octetString,
+  oid,
+  parseDer,
+  readInteger,
+  readOctets,
+  readOid,
+  readTime,
+  retag,
+  sequence,
+  setOf,
+  tlv,
+  type Asn1,
+} from './asn1'
+import { subtleCrypto, type HashName, type SigningIdentity } from './pkcs12'
+import { certificateChain, parseCertificate, sameBytes, type Certificate } from './x509'
+
+const DIGEST_OIDS: Record<SigningIdentity['hash'], string> = {
+  'SHA-256': OID.sha256,
+  'SHA-384': OID.sha384,
+  'SHA-512': OID.sha512,
+}
+
+const SIGNATURE_OIDS: Record<SigningIdentity['keyAlgorithm'], Record<SigningIdentity['hash'], string>> = {
+  'RSASSA-PKCS1-v1_5': { 'SHA-256': OID.sha256WithRsa, 'SHA-384': OID.sha384WithRsa, 'SHA-512': OID.sha512WithRsa },
+  ECDSA: { 'SHA-256': OID.ecdsaWithSha256, 'SHA-384': OID.ecdsaWithSha384, 'SHA-512': OID.ecdsaWithSha512 },
+}
+
+const attribute = (type: string, value: Uint8Array) => sequence(oid(type), setOf(value))
+
+// WebCrypto returns ECDSA signatures as r || s; CMS wants SEQUENCE { r, s }
+const ecdsaToDer = (raw: Uint8Array) => {
+  const half = raw.length / 2
+  return sequence(integer(raw.subarray(0, half)), integer(raw.subarray(half)))
+}
+
+/**
+ * A detached CMS signature over `digest` (the hash of the signed content,
+ * computed with `identity.hash`). Signed attributes carry the content type,
+ * the digest and the signer's certificate hash (ESS signing-certificate-v2);
+ * the signing time belongs in the PDF signature dictionary instead.
+ */
+export const createDetachedSignature = async (digest: Uint8Array, identity: SigningIdentity): Promise<Uint8Array> => {
+  const { certificate, chain, hash, keyAlgorithm, privateKey } = identity
+  const subtle = subtleCrypto()
+  const issuerAndSerial = sequence(certificate.issuer, integer(certificate.serialNumber))
+
+  // ESSCertIDv2 with the default SHA-256 hash, naming the issuer as a directoryName [4]
+  const certHash = new Uint8Array(await subtle.digest('SHA-256', certificate.der as BufferSource))
+  const essCertId = sequence(octetString(certHash), sequence(sequence(explicit(4, certificate.issuer)), integer(certificate.serialNumber)))
+  const signedAttributes = setOf(
+    attribute(OID.contentType, oid(OID.data)),
+    attribute(OID.messageDigest, octetString(digest)),
+    attribute(OID.signingCertificateV2, sequence(sequence(essCertId))),
+  )
+
+  const params = keyAlgorithm === 'ECDSA' ? { name: 'ECDSA', hash } : keyAlgorithm
+  const raw = new Uint8Array(await subtle.sign(params, privateKey, signedAttributes as BufferSource))
+  const signature = keyAlgorithm === 'ECDSA' ? ecdsaToDer(raw) : raw
+
+  const signerInfo = sequence(
+    integer(1),
+    issuerAndSerial,
+    algorithm(DIGEST_OIDS[hash], null),
+    // Signed over as a SET, embedded as [0] IMPLICIT
+    retag(signedAttributes, 0xa0),
+    algorithm(SIGNATURE_OIDS[keyAlgorithm][hash], keyAlgorithm === 'ECDSA' ? null : undefined),
+    octetString(signature),
+  )
+  const signedData = sequence(
+    integer(1),
+    setOf(algorithm(DIGEST_OIDS[hash], null)),
+    sequence(oid(OID.data)),
+    // Leaf first, as most readers expect
+    tlv(0xa0, concatBytes(...chain.map((cert) => cert.der))),
+    setOf(signerInfo),
+  )
+  return sequence(oid(OID.signedData), explicit(0, signedData))
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+export interface CmsVerification {
+  // Certificates carried in the signature
+  certificates: Certificate[]
+  signer?: Certificate
+  hash?: HashName
+  // The signing-time attribute: claimed by the signer, not a trusted timestamp
+  signingTime?: Date
+  // The signed content hashes to the digest the signer signed
+  digestMatches: boolean
+  // The signature verifies with the signer's public key
+  signatureValid: boolean
+  // Why the signature could not be checked
+  problem?: string
+}
+
+export interface ChainValidation {
+  // Signer first, then issuers as far as they could be found
+  chain: Certificate[]
+  // Every link verifies up to a trust anchor
+  trusted: boolean
+  problem?: string
+}
+
+const HASHES: Record<string, HashName> = {
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+}
+
+// Signature algorithms that fix their own hash
+const SIGNATURE_ALGORITHMS: Record<string, { name: string; hash: HashName }> = {
+  [OID.sha1WithRsa]: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-1' },
+  [OID.sha256WithRsa]: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  [OID.sha384WithRsa]: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  [OID.sha512WithRsa]: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  [OID.ecdsaWithSha1]: { name: 'ECDSA', hash: 'SHA-1' },
+  [OID.ecdsaWithSha256]: { name: 'ECDSA', hash: 'SHA-256' },
+  [OID.ecdsaWithSha384]: { name: 'ECDSA', hash: 'SHA-384' },
+  [OID.ecdsaWithSha512]: { name: 'ECDSA', hash: 'SHA-512' },
+}
+
+// WebCrypto curve names and the byte length of r and s
+const CURVES: Record<string, { namedCurve: string; size: number }> = {
+  [OID.p256]: { namedCurve: 'P-256', size: 32 },
+  [OID.p384]: { namedCurve: 'P-384', size: 48 },
+  [OID.p521]: { namedCurve: 'P-521', size: 66 },
+}
+
+// SEQUENCE { r, s } back to the fixed-width r || s WebCrypto verifies
+const ecdsaToRaw = (der: Uint8Array, size: number) => {
+  const raw = new Uint8Array(size * 2)
+  parseDer(der).children.slice(0, 2).forEach((part, i) => {
+    let value = part.value
+    while (value.length > size && value[0] === 0) value = value.subarray(1)
+    if (value.length > size) throw new Error('Invalid ECDSA signature')
+    raw.set(value, i * size + size - value.length)
+  })
+  return raw
+}
+
+// RSASSA-PSS parameters: hash [0] (default SHA-1) and salt length [2] (default 20)
+const pssParameters = (params: Asn1 | undefined) => {
+  const hashAlgorithm = params && contextChild(params, 0)
+  const saltLength = params && contextChild(params, 2)
+  return {
+    hash: hashAlgorithm ? HASHES[readOid(childAt(childAt(hashAlgorithm, 0), 0))] : 'SHA-1',
+    saltLength: saltLength ? readInteger(childAt(saltLength, 0)) : 20,
+  }
+}
+
+/**
+ * Check `signature` over `data` with the public key of `certificate`.
+ * `algorithm` is the AlgorithmIdentifier used; `digest` is the hash to pair
+ * with algorithms that name only the key type (rsaEncryption, ecPublicKey).
+ */
+const verifyWithCertificate = async (certificate: Certificate, algorithm: Asn1, signature: Uint8Array, data: Uint8Array, digest?: HashName) => {
+  const id = readOid(childAt(algorithm, 0))
+  const subtle = subtleCrypto()
+  let scheme = SIGNATURE_ALGORITHMS[id]
+  if (!scheme && id === OID.rsaEncryption && digest) scheme = { name: 'RSASSA-PKCS1-v1_5', hash: digest }
+  if (!scheme && id === OID.ecPublicKey && digest) scheme = { name: 'ECDSA', hash: digest }
+
+  if (id === OID.rsassaPss) {
+    const { hash, saltLength } = pssParameters(algorithm.children[1])
+    if (!hash) throw new Error('Unsupported RSA-PSS hash')
+    const key = await subtle.importKey('spki', certificate.publicKey as BufferSource, { name: 'RSA-PSS', hash }, false, ['verify'])
+    return subtle.verify({ name: 'RSA-PSS', saltLength }, key, signature as BufferSource, data as BufferSource)
+  }
+  if (!scheme) throw new Error(`Unsupported signature algorithm ${id}`)
+  if (scheme.name === 'ECDSA') {
+    const curve = certificate.curve && CURVES[certificate.curve]
+    if (!curve) throw new Error('Unsupported elliptic curve')
+    const key = await subtle.importKey('spki', certificate.publicKey as BufferSource, { name: 'ECDSA', namedCurve: curve.namedCurve }, false, ['verify'])
+    return subtle.verify({ name: 'ECDSA', hash: scheme.hash }, key, ecdsaToRaw(signature, curve.size), data as BufferSource)
+  }
+  const key = await subtle.importKey('spki', certificate.publicKey as BufferSource, { name: scheme.name, hash: scheme.hash }, false, ['verify'])
+  return subtle.verify(scheme.name, key, signature as BufferSource, data as BufferSource)
+}
+
+const attributeValue = (attributes: Asn1, type: string) =>
+  attributes.children.find((attribute) => readOid(childAt(attribute, 0)) === type)?.children[1]?.children[0]
+
+// The certificate a SignerInfo names: by issuer and serial number, or by subject key identifier [0]
+const findSigner = (signerId: Asn1, certificates: Certificate[]) => {
+  if (signerId.tag === TAG.SEQUENCE) {
+    const issuer = childAt(signerId, 0).der
+    const serial = childAt(signerId, 1).value
+    return certificates.find((cert) => sameBytes(cert.issuer, issuer) && sameBytes(cert.serialNumber, serial))
+  }
+  const keyId = Array.from(signerId.value, (b) => b.toString(16).padStart(2, '0')).join('')
+  return certificates.find((cert) => cert.subjectKeyId === keyId)
+}
+
+/**
+ * Verify a CMS SignedData over `content` (the signed byte ranges). When the
+ * signature encapsulates its content (adbe.pkcs7.sha1), that content must be
+ * the SHA-1 digest of `content`. Only the first signer is checked, as PDF
+ * signatures have exactly one.
+ */
+export const verifySignedData = async (cms: Uint8Array, content: Uint8Array): Promise<CmsVerification> => {
+  let contentInfo: Asn1
+  try {
+    contentInfo = parseDer(cms)
+  } catch {
+    return { certificates: [], digestMatches: false, signatureValid: false, problem: 'The signature is not valid CMS' }
+  }
+  const result: CmsVerification = { certificates: [], digestMatches: false, signatureValid: false }
+  try {
+    if (readOid(childAt(contentInfo, 0)) !== OID.signedData) throw new Error('The signature is not CMS signed data')
+    const signedData = childAt(contextChild(contentInfo, 0), 0, 'signed data')
+    const encapsulated = childAt(signedData, 2, 'content info')
+    const certificateSet = contextChild(signedData, 0)
+    result.certificates = (certificateSet?.children ?? [])
+      .filter((child) => child.tag === TAG.SEQUENCE)
+      .map((child) => parseCertificate(child.der))
+    const signerInfos = signedData.children[signedData.children.length - 1]
+    const signerInfo = childAt(signerInfos, 0, 'signer')
+    // version, sid, digestAlgorithm, [0] signedAttrs?, signatureAlgorithm, signature
+    const signer = findSigner(childAt(signerInfo, 1, 'signer identifier'), result.certificates)
+    result.signer = signer
+    const hash = HASHES[readOid(childAt(childAt(signerInfo, 2, 'digest algorithm'), 0))]
+    if (!hash) throw new Error('Unsupported digest algorithm')
+    result.hash = hash
+    // Only the fourth element: a subjectKeyIdentifier sid is also tagged [0]
+    const signedAttributes = signerInfo.children[3]?.tag === 0xa0 ? signerInfo.children[3] : undefined
+    const next = signedAttributes ? 4 : 3
+    const signatureAlgorithm = childAt(signerInfo, next, 'signature algorithm')
+    const signature = readOctets(childAt(signerInfo, next + 1, 'signature'))
+
+    const subtle = subtleCrypto()
+    const digestOf = async (name: HashName, data: Uint8Array) => new Uint8Array(await subtle.digest(name, data as BufferSource))
+    let signedContent = content
+    let digestMatches = true
+    const eContent = contextChild(encapsulated, 0)
+    if (eContent) {
+      signedContent = readOctets(childAt(eContent, 0))
+      digestMatches = sameBytes(signedContent, await digestOf('SHA-1', content))
+    }
+
+    let signedBytes = signedContent
+    if (signedAttributes) {
+      const messageDigest = attributeValue(signedAttributes, OID.messageDigest)
+      if (!messageDigest) throw new Error('The signature has no message digest')
+      digestMatches = digestMatches && sameBytes(readOctets(messageDigest), await digestOf(hash, signedContent))
+      const signingTime = attributeValue(signedAttributes, OID.signingTime)
+      if (signingTime) result.signingTime = readTime(signingTime)
+      // Signed as a SET OF, stored as [0] IMPLICIT
+      signedBytes = retag(signedAttributes.der, TAG.SET)
+    }
+    result.digestMatches = digestMatches
+    if (!signer) throw new Error("The signer's certificate is not included")
+    result.signatureValid = await verifyWithCertificate(signer, signatureAlgorithm, signature, signedBytes, hash)
+  } catch (err: any) {
+    result.problem = err?.message || 'The signature could not be read'
+  }
+  return result
+}
+
+const isTrustAnchor = (certificate: Certificate, anchors: Certificate[]) =>
+  anchors.some((anchor) => sameBytes(anchor.der, certificate.der)
+    || (sameBytes(anchor.subject, certificate.subject) && sameBytes(anchor.publicKey, certificate.publicKey)))
+
+/**
+ * Build the chain from `leaf` through `certificates` and `trustAnchors`,
+ * checking each issuer's signature, CA flag and validity at `at`. The chain is
+ * trusted when every link up to a trust anchor holds.
+ */
+export const validateCertificateChain = async (
+  leaf: Certificate,
+  certificates: Certificate[],
+  trustAnchors: Certificate[],
+  at: Date,
+): Promise<ChainValidation> => {
+  const chain = certificateChain(leaf, [...certificates, ...trustAnchors])
+  for (let i = 0; i < chain.length; i++) {
+    const certificate = chain[i]
+    if (at > certificate.notAfter) return { chain, trusted: false, problem: `"${certificate.commonName}" has expired` }
+    if (at < certificate.notBefore) return { chain, trusted: false, problem: `"${certificate.commonName}" is not valid yet` }
+    if (isTrustAnchor(certificate, trustAnchors)) return { chain, trusted: true }
+    const issuer = chain[i + 1]
+    if (!issuer) {
+      const problem = sameBytes(certificate.issuer, certificate.subject)
+        ? `"${certificate.commonName}" is not a trusted certificate`
+        : `The issuer of "${certificate.commonName}" (${certificate.issuerName}) is not available`
+      return { chain, trusted: false, problem }
+    }
+    if (!issuer.isCA) return { chain, trusted: false, problem: `"${issuer.commonName}" is not a certificate authority` }
+    let verified = false
+    try {
+      verified = await verifyWithCertificate(issuer, parseDer(certificate.der).children[1], certificate.signature, certificate.tbs)
+    } catch {
+      verified = false
+    }
+    if (!verified) return { chain, trusted: false, problem: `The signature on "${certificate.commonName}" does not verify` }
+  }
+  return { chain, trusted: false, problem: 'No trusted certificate was found' }
+}
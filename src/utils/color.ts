@@ -0,0 +1,64 @@
+/**
+ * Color helpers shared by PDF writers (pdf-lib wants 0-1 channels)
+ */
+
+export interface RgbColor {
+  r: number
+  g: number
+  b: number
+  opacity: number
+}
+
+/**
+ * Parse `#rgb`, `#rrggbb`, `rgb()` or `rgba()` into 0-1 channels.
+ * Unknown input falls back to the default annotation red.
+ */
+export const hexToRgb = (input?: string): RgbColor => {
+  if (!input) {
+    return { r: 1, g: 0, b: 0, opacity: 1 }
+  }
+
+  const normalized = input.trim()
+  if (normalized.startsWith('#')) {
+    const value = normalized.slice(1)
+    const expand = value.length === 3
+    const rHex = expand ? value[0] + value[0] : value.slice(0, 2)
+    const gHex = expand ? value[1] + value[1] : value.slice(2, 4)
+    const bHex = expand ? value[2] + value[2] : value.slice(4, 6)
+    const r = parseInt(rHex, 16) / 255
+    const g = parseInt(gHex, 16) / 255
+    const b = parseInt(bHex, 16) / 255
+    return { r, g, b, opacity: 1 }
+  }
+
+  const rgbaMatch = normalized.match(/^rgba?\(([^)]+)\)$/i)
+  if (rgbaMatch) {
+    const parts = rgbaMatch[1].split(',').map((part) => part.trim())
+    if (parts.length >= 3) {
+      const parseChannel = (value: string) => {
+        if (value.endsWith('%')) {
+          return Math.max(0, Math.min(100, Number(value.slice(0, -1)))) / 100
+        }
+        return Math.max(0, Math.min(255, Number(value))) / 255
+      }
+      const r = parseChannel(parts[0])
+      const g = parseChannel(parts[1])
+      const b = parseChannel(parts[2])
+      const opacity = parts.length > 3 ? Math.max(0, Math.min(1, Number(parts[3]))) : 1
+      return { r, g, b, opacity: Number.isFinite(opacity) ? opacity : 1 }
+    }
+  }
+
+  return { r: 1, g: 0, b: 0, opacity: 1 }
+}
+
+/**
+ * Convert 0-1 channels back to a `#rrggbb` string
+ */
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  const toHex = (v: number) => {
+    const n = Math.round(Math.max(0, Math.min(1, Number.isFinite(v) ? v : 0)) * 255)
+    return n.toString(16).padStart(2, '0')
+  }
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`
+}
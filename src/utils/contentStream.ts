@@ -0,0 +1,248 @@
+/**
+ * PDF content stream parsing
+ *
+ * Splits page and form content into operations (operands followed by an
+ * operator) and writes them back. Operands keep their source text, so
+ * operations that are not edited are written out byte for byte.
+ */
+
+import { PDFContentStream, PDFRawStream, PDFStream, decodePDFRawStream } from 'pdf-lib'
+
+export type Operand =
+  | { kind: 'number'; value: number; raw: string }
+  | { kind: 'string'; bytes: number[]; raw: string }
+  | { kind: 'name'; value: string; raw: string }
+  | { kind: 'array'; items: Operand[]; raw: string }
+  // Dictionaries, booleans and null
+  | { kind: 'other'; raw: string }
+
+export interface Operation {
+  operator: string
+  operands: Operand[]
+  // Inline images (`BI … ID … EI`) are kept verbatim
+  raw?: string
+}
+
+/** Decoded stream content, one character per byte */
+export const streamText = (stream: PDFStream) => {
+  // Loaded pages hold raw (usually Flate) streams; pages drawn this session hold content streams
+  const bytes = stream instanceof PDFRawStream
+    ? decodePDFRawStream(stream).decode()
+    : stream instanceof PDFContentStream ? stream.getUnencodedContents() : stream.getContents()
+  let text = ''
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i])
+  return text
+}
+
+/** Bytes of text produced by `streamText` or `serializeOperations` */
+export const textBytes = (text: string) => {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff
+  return bytes
+}
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\f' || ch === '\0'
+const isDelimiter = (ch: string) => '()<>[]{}/%'.includes(ch)
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 }
+
+class Parser {
+  pos = 0
+  // Where the token last returned by `next` begins
+  tokenStart = 0
+
+  constructor(private readonly text: string) { }
+
+  get done() {
+    return this.pos >= this.text.length
+  }
+
+  skipWhitespace() {
+    const { text } = this
+    while (this.pos < text.length) {
+      const ch = text[this.pos]
+      if (isWhitespace(ch)) {
+        this.pos++
+      } else if (ch === '%') {
+        while (this.pos < text.length && text[this.pos] !== '\n' && text[this.pos] !== '\r') this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  /** Next operand, or the name of the operator that ends the operation */
+  next(): Operand | string | null {
+    this.skipWhitespace()
+    if (this.done) return null
+    const { text } = this
+    const start = this.pos
+    this.tokenStart = start
+    const ch = text[start]
+
+    if (ch === '(') return this.literalString()
+    if (ch === '<' && text[start + 1] === '<') return this.dictionary()
+    if (ch === '<') {
+      const end = text.indexOf('>', start)
+      this.pos = end === -1 ? text.length : end + 1
+      const hex = text.slice(start + 1, end === -1 ? text.length : end).replace(/[^0-9A-Fa-f]/g, '')
+      const padded = hex.length % 2 ? `${hex}0` : hex
+      const bytes: number[] = []
+      for (let i = 0; i < padded.length; i += 2) bytes.push(parseInt(padded.slice(i, i + 2), 16))
+      return { kind: 'string', bytes, raw: text.slice(start, this.pos) }
+    }
+    if (ch === '[') {
+      this.pos++
+      const items: Operand[] = []
+      for (;;) {
+        this.skipWhitespace()
+        if (this.done) break
+        if (text[this.pos] === ']') {
+          this.pos++
+          break
+        }
+        const item = this.next()
+        if (item === null) break
+        items.push(typeof item === 'string' ? { kind: 'other', raw: item } : item)
+      }
+      return { kind: 'array', items, raw: text.slice(start, this.pos) }
+    }
+    if (ch === '/') {
+      this.pos++
+      while (this.pos < text.length && !isWhitespace(text[this.pos]) && !isDelimiter(text[this.pos])) this.pos++
+      const value = text.slice(start + 1, this.pos).replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+      return { kind: 'name', value, raw: text.slice(start, this.pos) }
+    }
+    if (ch === ')' || ch === '>' || ch === ']' || ch === '{' || ch === '}') {
+      // Stray delimiter in damaged content: skip it
+      this.pos++
+      return this.next()
+    }
+
+    while (this.pos < text.length && !isWhitespace(text[this.pos]) && !isDelimiter(text[this.pos])) this.pos++
+    const word = text.slice(start, this.pos)
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { kind: 'number', value: Number(word), raw: word }
+    if (word === 'true' || word === 'false' || word === 'null') return { kind: 'other', raw: word }
+    return word
+  }
+
+  private literalString(): Operand {
+    const { text } = this
+    const start = this.pos
+    const bytes: number[] = []
+    let depth = 1
+    this.pos++
+    while (this.pos < text.length) {
+      const ch = text[this.pos++]
+      if (ch === '\\') {
+        const esc = text[this.pos++]
+        if (esc === undefined) break
+        if (esc in ESCAPES) {
+          bytes.push(ESCAPES[esc])
+        } else if (/[0-7]/.test(esc)) {
+          let octal = esc
+          while (octal.length < 3 && /[0-7]/.test(text[this.pos] ?? '')) octal += text[this.pos++]
+          bytes.push(parseInt(octal, 8) & 0xff)
+        } else if (esc === '\r') {
+          // Line continuation
+          if (text[this.pos] === '\n') this.pos++
+        } else if (esc !== '\n') {
+          bytes.push(esc.charCodeAt(0))
+        }
+        continue
+      }
+      if (ch === '(') depth++
+      if (ch === ')' && --depth === 0) break
+      bytes.push(ch.charCodeAt(0))
+    }
+    return { kind: 'string', bytes, raw: text.slice(start, this.pos) }
+  }
+
+  private dictionary(): Operand {
+    const start = this.pos
+    this.pos += 2
+    for (;;) {
+      this.skipWhitespace()
+      if (this.done) break
+      if (this.text.startsWith('>>', this.pos)) {
+        this.pos += 2
+        break
+      }
+      if (this.next() === null) break
+    }
+    return { kind: 'other', raw: this.text.slice(start, this.pos) }
+  }
+
+  /** Skip inline image data after `ID`; returns the end of the closing `EI` */
+  inlineImageEnd() {
+    const { text } = this
+    // One whitespace byte separates ID from the data
+    let pos = this.pos + 1
+    for (;;) {
+      const found = text.indexOf('EI', pos)
+      if (found === -1) return text.length
+      const before = text[found - 1]
+      const after = text[found + 2]
+      if ((before === undefined || isWhitespace(before)) && (after === undefined || isWhitespace(after))) return found + 2
+      pos = found + 2
+    }
+  }
+}
+
+/** Operations of a content stream, in order */
+export const parseOperations = (text: string): Operation[] => {
+  const parser = new Parser(text)
+  const operations: Operation[] = []
+  let operands: Operand[] = []
+  for (;;) {
+    const token = parser.next()
+    if (token === null) break
+    if (typeof token !== 'string') {
+      operands.push(token)
+      continue
+    }
+    if (token === 'BI') {
+      const start = parser.tokenStart
+      // Skip the image dictionary up to ID, then the binary data up to EI
+      let word: Operand | string | null
+      do {
+        word = parser.next()
+      } while (word !== null && word !== 'ID')
+      parser.pos = parser.inlineImageEnd()
+      operations.push({ operator: 'BI', operands: [], raw: text.slice(start, parser.pos) })
+      operands = []
+      continue
+    }
+    operations.push({ operator: token, operands })
+    operands = []
+  }
+  return operations
+}
+
+const fmt = (value: number) => {
+  const rounded = Math.round(value * 10000) / 10000
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+export const numberOperand = (value: number): Operand => ({ kind: 'number', value, raw: fmt(value) })
+
+export const nameOperand = (value: string): Operand => ({
+  kind: 'name',
+  value,
+  raw: `/${value.replace(/[^!-~]|[()<>[\]{}/%#]/g, (ch) => `#${ch.charCodeAt(0).toString(16).padStart(2, '0')}`)}`,
+})
+
+export const stringOperand = (bytes: number[]): Operand => ({
+  kind: 'string',
+  bytes,
+  raw: `<${bytes.map((b) => b.toString(16).padStart(2, '0')).join('')}>`,
+})
+
+export const arrayOperand = (items: Operand[]): Operand => ({
+  kind: 'array',
+  items,
+  raw: `[${items.map((item) => item.raw).join(' ')}]`,
+})
+
+export const serializeOperations = (operations: Operation[]) =>
+  operations.map((op) => op.raw ?? [...op.operands.map((o) => o.raw), op.operator].join(' ')).join('\n')
@@ -0,0 +1,35 @@
+/**
+ * Stable document identity derived from file contents
+ */
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+/**
+ * FNV-1a (64-bit) fallback for contexts without WebCrypto (e.g. plain http)
+ */
+const fnv1a64 = (bytes: Uint8Array): string => {
+  let hash = 0xcbf29ce484222325n
+  const prime = 0x100000001b3n
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= BigInt(bytes[i])
+    hash = (hash * prime) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * SHA-256 of the PDF bytes as lowercase hex. The same file always maps to
+ * the same ID, so per-document data survives reloads and renames.
+ */
+export const computeDocumentId = async (bytes: Uint8Array): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle
+  if (subtle) {
+    try {
+      const digest = await subtle.digest('SHA-256', bytes as BufferSource)
+      return toHex(new Uint8Array(digest))
+    } catch {
+      // fall through to the non-cryptographic hash
+    }
+  }
+  return `fnv-${fnv1a64(bytes)}`
+}
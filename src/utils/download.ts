@@ -0,0 +1,33 @@
+/**
+ * Trigger a browser download for generated content
+ */
+
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// Browsers block a burst of downloads started in the same tick; space them out
+const DOWNLOAD_INTERVAL_MS = 600
+
+/**
+ * Download several files one after another. `onProgress` is called with the
+ * number of files started so far.
+ */
+export const downloadFilesInTurn = async (
+  files: Array<{ content: BlobPart; type: string; fileName: string }>,
+  onProgress?: (started: number) => void,
+) => {
+  for (const [index, file] of files.entries()) {
+    if (index) await new Promise((resolve) => setTimeout(resolve, DOWNLOAD_INTERVAL_MS))
+    downloadFile(file.content, file.type, file.fileName)
+    onProgress?.(index + 1)
+  }
+}
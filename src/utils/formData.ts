@@ -0,0 +1,339 @@
+/**
+ * Form data interchange: records for mail merge (CSV, JSON) and the values
+ * of a single filled form (FDF, XFDF)
+ *
+ * Parsed data stays raw (strings, string lists, JSON scalars) until it is
+ * matched to the fields it fills, since a "Yes" means different things to a
+ * checkbox and a text field.
+ */
+
+import { PDFArray, PDFContext, PDFDict, PDFHexString, PDFName, PDFParser, PDFString } from 'pdf-lib'
+import type { Annotation } from '../types/annotations'
+import { designedFields } from './formDesign'
+import type { FormField, FormValue } from './pdfForms'
+import { escapeXml } from './xfdf'
+
+const XFDF_NAMESPACE = 'http://ns.adobe.com/xfdf/'
+
+// Checkbox entries that mean "unchecked"; anything else checks the box
+const UNCHECKED = new Set(['', 'off', 'no', 'false', '0', 'n', 'unchecked'])
+// Option-list selections in a single CSV cell
+const LIST_SEPARATOR = /[;|]/
+
+/** What a value needs to know about the field it fills */
+export type FillableField = Pick<FormField, 'name' | 'kind' | 'options'>
+
+export type FormRecord = Record<string, unknown>
+
+export interface FormRecords {
+  // Column names in file order
+  columns: string[]
+  records: FormRecord[]
+}
+
+/**
+ * Fields a record can fill: those of the document, then the ones drawn in
+ * the form designer (which become fields on export). Signature fields are
+ * left out.
+ */
+export const fillableFields = (formFields: FormField[], annotations: Annotation[]): FillableField[] => {
+  const fields: FillableField[] = formFields.map(({ name, kind, options }) => ({ name, kind, options }))
+  const taken = new Set(fields.map((field) => field.name))
+  designedFields(annotations).forEach((field) => {
+    if (field.type === 'signature' || taken.has(field.name)) return
+    fields.push({
+      name: field.name,
+      kind: field.type,
+      options: field.type === 'radio'
+        ? field.widgets.map((widget, index) => widget.fieldOption || `Option${index + 1}`)
+        : field.type === 'dropdown' ? field.widgets[0].options ?? [] : undefined,
+    })
+  })
+  return fields
+}
+
+// Delimiter of the header line: the most frequent of comma, semicolon and tab
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '')
+  const counts = [',', ';', '\t'].map((delimiter) => [delimiter, header.split(delimiter).length] as const)
+  return counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0]
+}
+
+/**
+ * Parse CSV with a header row into one record per line. Quoted cells may
+ * hold delimiters, doubled quotes and line breaks; blank lines are skipped.
+ */
+export const parseCsvRecords = (text: string): FormRecords => {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) throw new Error('Invalid CSV: a quoted cell is never closed')
+  if (cell || row.length) rows.push([...row, cell])
+
+  const [header, ...body] = rows.filter((line) => line.some((value) => value.trim()))
+  if (!header) throw new Error('The CSV file is empty')
+  const columns = header.map((name) => name.trim())
+  const records = body.map((line) =>
+    Object.fromEntries(columns.map((column, index) => [column, line[index] ?? ''])),
+  )
+  return { columns, records }
+}
+
+/** Parse a JSON array of objects (or a single object) into records */
+export const parseJsonRecords = (text: string): FormRecords => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid JSON: the file could not be parsed')
+  }
+  const list = Array.isArray(data) ? data : [data]
+  if (!list.length || !list.every((entry) => entry && typeof entry === 'object' && !Array.isArray(entry))) {
+    throw new Error('Invalid JSON: expected an array of objects')
+  }
+  const records = list as FormRecord[]
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))]
+  return { columns, records }
+}
+
+/** Parse records from a .json or .csv file (by name, then by content) */
+export const parseRecords = (text: string, fileName = ''): FormRecords => {
+  if (/\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(text))) return parseJsonRecords(text)
+  return parseCsvRecords(text)
+}
+
+const matchKey = (name: string) => name.toLowerCase().replace(/[\s_.-]+/g, '')
+
+/** Column → field name for columns named like a field (ignoring case, spaces, dashes and underscores) */
+export const defaultMapping = (columns: string[], fields: FillableField[]): Record<string, string> => {
+  const byKey = new Map(fields.map((field) => [matchKey(field.name), field.name]))
+  return Object.fromEntries(columns.flatMap((column) => {
+    const name = byKey.get(matchKey(column))
+    return name ? [[column, name]] : []
+  }))
+}
+
+// An entry's text, or null for values that leave the field alone
+const asText = (raw: unknown): string | null => {
+  if (raw === null || raw === undefined) return null
+  if (Array.isArray(raw)) return raw.map(String).join(';')
+  return typeof raw === 'object' ? null : String(raw)
+}
+
+const toFormValue = (raw: unknown, field: FillableField): FormValue | null => {
+  if (field.kind === 'checkbox') {
+    if (typeof raw === 'boolean') return raw
+    const text = asText(raw)
+    return text === null ? null : !UNCHECKED.has(text.trim().toLowerCase())
+  }
+  if (field.kind === 'option-list') {
+    if (Array.isArray(raw)) return raw.map(String)
+    const text = asText(raw)
+    return text === null ? null : text.split(LIST_SEPARATOR).map((entry) => entry.trim()).filter(Boolean)
+  }
+  const text = asText(raw)
+  if (text === null) return null
+  if (field.kind === 'radio' || field.kind === 'dropdown') {
+    const wanted = text.trim()
+    // "Off" is how FDF and XFDF write an unselected radio group
+    if (field.kind === 'radio' && wanted.toLowerCase() === 'off') return ''
+    return field.options?.find((option) => option.toLowerCase() === wanted.toLowerCase()) ?? wanted
+  }
+  return text
+}
+
+/**
+ * Form values for the known `fields` among `data` (by field name). Unknown
+ * names and empty JSON values are skipped.
+ */
+export const toFormValues = (data: Record<string, unknown>, fields: FillableField[]): Record<string, FormValue> => {
+  const values: Record<string, FormValue> = {}
+  fields.forEach((field) => {
+    if (!(field.name in data)) return
+    const value = toFormValue(data[field.name], field)
+    if (value !== null) values[field.name] = value
+  })
+  return values
+}
+
+/** Form values of one record, reading each mapped column into its field */
+export const recordValues = (
+  record: FormRecord,
+  mapping: Record<string, string>,
+  fields: FillableField[],
+): Record<string, FormValue> => {
+  const data: Record<string, unknown> = {}
+  Object.entries(mapping).forEach(([column, name]) => {
+    if (name && column in record) data[name] = record[column]
+  })
+  return toFormValues(data, fields)
+}
+
+// Checkboxes are written with the conventional "Yes" on-state
+const exportedValue = (value: FormValue): string | string[] => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'Off'
+  return value
+}
+
+/** Form values as an XFDF document. Full names are written flat. */
+export const formValuesToXfdf = (values: Record<string, FormValue>, options?: { fileName?: string }) => {
+  const fields = Object.entries(values).map(([name, value]) => {
+    const exported = exportedValue(value)
+    const entries = Array.isArray(exported) ? exported : [exported]
+    return `    <field name="${escapeXml(name)}">${entries.map((entry) => `<value>${escapeXml(entry)}</value>`).join('')}</field>`
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xfdf xmlns="${XFDF_NAMESPACE}" xml:space="preserve">`,
+    ...(options?.fileName ? [`  <f href="${escapeXml(options.fileName)}"/>`] : []),
+    '  <fields>',
+    ...fields,
+    '  </fields>',
+    '</xfdf>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Raw field values of an XFDF document by full name; nested `<field>`
+ * elements join their names with ".". Throws when the XML is malformed or
+ * is not XFDF.
+ */
+export const parseXfdfFormData = (xml: string): Record<string, string | string[]> => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XFDF: the file is not well-formed XML')
+  }
+  const root = doc.documentElement
+  if (!root || root.localName !== 'xfdf') {
+    throw new Error('Invalid XFDF: missing <xfdf> root element')
+  }
+
+  const data: Record<string, string | string[]> = {}
+  const visit = (element: Element, prefix: string) => {
+    Array.from(element.children).forEach((child) => {
+      if (child.localName !== 'field') return
+      const name = `${prefix}${child.getAttribute('name') ?? ''}`
+      const values = Array.from(child.children)
+        .filter((entry) => entry.localName === 'value' || entry.localName === 'value-richtext')
+        .map((entry) => entry.textContent ?? '')
+      if (values.length) data[name] = values.length === 1 ? values[0] : values
+      visit(child, `${name}.`)
+    })
+  }
+  const fieldsEl = Array.from(root.children).find((child) => child.localName === 'fields')
+  if (fieldsEl) visit(fieldsEl, '')
+  return data
+}
+
+/**
+ * Form values as an FDF document. Checkbox and radio states are written as
+ * names, as FDF readers expect for buttons; `fields` tells which those are.
+ */
+export const formValuesToFdf = (
+  values: Record<string, FormValue>,
+  fields: FillableField[],
+  options?: { fileName?: string },
+) => {
+  const kinds = new Map(fields.map((field) => [field.name, field.kind]))
+  const context = PDFContext.create()
+  const entries = Object.entries(values).map(([name, value]) => {
+    const exported = exportedValue(value)
+    const kind = kinds.get(name)
+    // Text is always written as UTF-16 so any script survives
+    const entry = kind === 'checkbox' || kind === 'radio'
+      ? PDFName.of(String(exported) || 'Off')
+      : Array.isArray(exported)
+        ? context.obj(exported.map((text) => PDFHexString.fromText(text)))
+        : PDFHexString.fromText(exported)
+    return context.obj({ T: PDFHexString.fromText(name), V: entry })
+  })
+  const root = context.obj({
+    FDF: context.obj({
+      Fields: context.obj(entries),
+      ...(options?.fileName && { F: PDFHexString.fromText(options.fileName) }),
+    }),
+  })
+  return `%FDF-1.2\n1 0 obj\n${root}\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n`
+}
+
+const decodeValue = (value: unknown): string | string[] | null => {
+  if (value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName) return value.decodeText()
+  if (value instanceof PDFArray) {
+    return value.asArray().flatMap((entry) => {
+      const decoded = decodeValue(entry)
+      return typeof decoded === 'string' ? [decoded] : []
+    })
+  }
+  return null
+}
+
+/**
+ * Raw field values of an FDF file by full name; `/Kids` join their names
+ * with ".". Throws when the bytes are not FDF.
+ */
+export const parseFdfFormData = async (bytes: Uint8Array): Promise<Record<string, string | string[]>> => {
+  const header = new TextDecoder('latin1').decode(bytes.subarray(0, 1024))
+  const start = header.indexOf('%FDF-')
+  if (start < 0) throw new Error('Invalid FDF: missing %FDF header')
+  // FDF shares PDF's object syntax, so pdf-lib parses it once the header reads as PDF
+  const copy = bytes.slice()
+  copy.set([0x25, 0x50, 0x44, 0x46, 0x2d], start)
+
+  let fields: PDFArray | undefined
+  let context: PDFContext
+  try {
+    context = await PDFParser.forBytesWithOptions(copy).parseDocument()
+    const root = context.lookup(context.trailerInfo.Root)
+    const fdf = root instanceof PDFDict ? root.lookup(PDFName.of('FDF')) : undefined
+    fields = fdf instanceof PDFDict ? fdf.lookup(PDFName.of('Fields')) as PDFArray | undefined : undefined
+  } catch {
+    throw new Error('Invalid FDF: the file could not be parsed')
+  }
+  if (!(fields instanceof PDFArray)) throw new Error('Invalid FDF: missing /Fields')
+
+  const data: Record<string, string | string[]> = {}
+  const visit = (list: PDFArray, prefix: string) => {
+    list.asArray().forEach((entry) => {
+      const dict = context.lookup(entry)
+      if (!(dict instanceof PDFDict)) return
+      const partial = decodeValue(dict.lookup(PDFName.of('T')))
+      const name = `${prefix}${typeof partial === 'string' ? partial : ''}`
+      const value = decodeValue(dict.lookup(PDFName.of('V')))
+      if (value !== null) data[name] = value
+      const kids = dict.lookup(PDFName.of('Kids'))
+      if (kids instanceof PDFArray) visit(kids, `${name}.`)
+    })
+  }
+  visit(fields, '')
+  return data
+}
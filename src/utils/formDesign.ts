@@ -0,0 +1,200 @@
+/**
+ * Form design: fields drawn in the editor as 'form-field' annotations, and
+ * their export as AcroForm fields through pdf-lib
+ */
+
+import { PDFDocument, PDFField, PDFHexString, PDFName, PDFPage } from 'pdf-lib'
+import type { Annotation, FormFieldType } from '../types/annotations'
+
+// Size of a field placed with a single click, in PDF points
+export const DEFAULT_FIELD_SIZE: Record<FormFieldType, { width: number; height: number }> = {
+  text: { width: 150, height: 22 },
+  checkbox: { width: 14, height: 14 },
+  radio: { width: 14, height: 14 },
+  dropdown: { width: 120, height: 22 },
+  signature: { width: 180, height: 50 },
+}
+
+const NAME_PREFIX: Record<FormFieldType, string> = {
+  text: 'Text',
+  checkbox: 'Checkbox',
+  radio: 'Group',
+  dropdown: 'Dropdown',
+  signature: 'Signature',
+}
+
+// Field flag bit 2 (`/Ff`): the field must have a value when the form is submitted
+const REQUIRED_FLAG = 1 << 1
+
+export const isFormFieldDesign = (annotation: Annotation) => annotation.type === 'form-field' && !annotation.isDeleted
+
+/** A designed field: one widget, or every button of a radio group */
+export interface DesignedField {
+  name: string
+  type: FormFieldType
+  widgets: Annotation[]
+}
+
+const byPosition = (a: Annotation, b: Annotation) =>
+  a.page - b.page || Math.min(a.startY, a.endY ?? a.startY) - Math.min(b.startY, b.endY ?? b.startY) || a.startX - b.startX
+
+/** Designed fields in tab order: numbered ones first, then the rest by page and position */
+export const designedFields = (annotations: Annotation[]): DesignedField[] => {
+  const widgets = annotations
+    .filter(isFormFieldDesign)
+    .sort((a, b) => (a.tabOrder ?? Infinity) - (b.tabOrder ?? Infinity) || byPosition(a, b))
+  const fields = new Map<string, DesignedField>()
+  widgets.forEach((widget) => {
+    const name = widget.fieldName ?? ''
+    const existing = fields.get(name)
+    if (existing) existing.widgets.push(widget)
+    else fields.set(name, { name, type: widget.fieldType ?? 'text', widgets: [widget] })
+  })
+  return [...fields.values()]
+}
+
+/** The first `<Type><n>` name not in `taken` */
+export const nextFieldName = (type: FormFieldType, taken: Iterable<string>) => {
+  const used = new Set(taken)
+  let index = 1
+  while (used.has(`${NAME_PREFIX[type]}${index}`)) index++
+  return `${NAME_PREFIX[type]}${index}`
+}
+
+/** The first `Option<n>` not yet used by a button of radio group `group` */
+export const nextRadioOption = (group: string, annotations: Annotation[]) => {
+  const used = new Set(annotations.filter((ann) => isFormFieldDesign(ann) && ann.fieldName === group).map((ann) => ann.fieldOption))
+  let index = 1
+  while (used.has(`Option${index}`)) index++
+  return `Option${index}`
+}
+
+/** Next free tab position after every designed field */
+export const nextTabOrder = (annotations: Annotation[]) =>
+  annotations.filter(isFormFieldDesign).reduce((max, ann) => Math.max(max, ann.tabOrder ?? 0), 0) + 1
+
+/**
+ * Why `name` cannot be given to the widgets `ids` (of type `type`), or null.
+ * Names are unique, except that radio buttons join a group by sharing its name.
+ */
+export const fieldNameConflict = (
+  name: string,
+  type: FormFieldType,
+  ids: string[],
+  annotations: Annotation[],
+  documentNames: string[] = [],
+): string | null => {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Field names cannot be empty'
+  if (trimmed.includes('.')) return 'Field names cannot contain "."'
+  if (documentNames.includes(trimmed)) return `The document already has a field named "${trimmed}"`
+  const others = annotations.filter((ann) => isFormFieldDesign(ann) && !ids.includes(ann.id) && ann.fieldName === trimmed)
+  if (!others.length) return null
+  if (type === 'radio' && others.every((ann) => ann.fieldType === 'radio')) return null
+  return `Another field is already named "${trimmed}"`
+}
+
+const widgetBox = (widget: Annotation, page: PDFPage) => {
+  const { width, height } = page.getSize()
+  const left = Math.min(widget.startX, widget.endX ?? widget.startX) * width
+  const top = Math.min(widget.startY, widget.endY ?? widget.startY) * height
+  const boxWidth = Math.max(Math.abs((widget.endX ?? widget.startX) - widget.startX) * width, 4)
+  const boxHeight = Math.max(Math.abs((widget.endY ?? widget.startY) - widget.startY) * height, 4)
+  return { x: left, y: height - top - boxHeight, width: boxWidth, height: boxHeight }
+}
+
+// The default value is also the field's reset value (`/DV`)
+const keepAsDefault = (field: PDFField) => {
+  const value = field.acroField.dict.get(PDFName.of('V'))
+  if (value) field.acroField.dict.set(PDFName.of('DV'), value)
+}
+
+/** An unsigned signature field: a widget with an empty appearance for the signer to fill */
+const addSignatureField = (doc: PDFDocument, page: PDFPage, field: DesignedField) => {
+  const widget = field.widgets[0]
+  const box = widgetBox(widget, page)
+  const appearance = doc.context.register(doc.context.formXObject([], { BBox: [0, 0, box.width, box.height] }))
+  const ref = doc.context.register(doc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFHexString.fromText(field.name),
+    Rect: [box.x, box.y, box.x + box.width, box.y + box.height],
+    F: 4,
+    P: page.ref,
+    AP: { N: appearance },
+    ...(widget.required && { Ff: REQUIRED_FLAG }),
+  }))
+  page.node.addAnnot(ref)
+  doc.getForm().acroForm.addField(ref)
+}
+
+/**
+ * Write the designed fields among `annotations` into `doc` as AcroForm
+ * fields, in tab order: widgets are added to their pages and to the form in
+ * that order. Throws when a name is already taken by a field of the document.
+ * Returns the number of fields written.
+ */
+export const writeFormDesign = (doc: PDFDocument, annotations: Annotation[]) => {
+  const pages = doc.getPages()
+  const fields = designedFields(annotations)
+    .map((field) => ({ ...field, widgets: field.widgets.filter((widget) => pages[widget.page - 1]) }))
+    .filter((field) => field.widgets.length)
+  if (!fields.length) return 0
+
+  const form = doc.getForm()
+  const taken = new Set(form.getFields().map((field) => field.getName()))
+  for (const field of fields) {
+    if (taken.has(field.name)) throw new Error(`The document already has a field named "${field.name}"`)
+  }
+
+  for (const field of fields) {
+    const [first] = field.widgets
+    const page = pages[first.page - 1]
+    const defaultValue = first.defaultValue
+    let created: PDFField
+    switch (field.type) {
+      case 'text': {
+        const text = form.createTextField(field.name)
+        if (typeof defaultValue === 'string' && defaultValue) text.setText(defaultValue)
+        text.addToPage(page, widgetBox(first, page))
+        created = text
+        break
+      }
+      case 'checkbox': {
+        const checkbox = form.createCheckBox(field.name)
+        checkbox.addToPage(page, widgetBox(first, page))
+        if (defaultValue === true) checkbox.check()
+        created = checkbox
+        break
+      }
+      case 'radio': {
+        const group = form.createRadioGroup(field.name)
+        field.widgets.forEach((widget, index) => {
+          const target = pages[widget.page - 1]
+          group.addOptionToPage(widget.fieldOption || `Option${index + 1}`, target, widgetBox(widget, target))
+        })
+        // Any button of the group may carry the group's default
+        const chosen = field.widgets.map((widget) => widget.defaultValue).find((value) => typeof value === 'string' && value)
+        if (typeof chosen === 'string' && group.getOptions().includes(chosen)) group.select(chosen)
+        created = group
+        break
+      }
+      case 'dropdown': {
+        const dropdown = form.createDropdown(field.name)
+        dropdown.setOptions(first.options ?? [])
+        dropdown.addToPage(page, widgetBox(first, page))
+        if (typeof defaultValue === 'string' && first.options?.includes(defaultValue)) dropdown.select(defaultValue)
+        created = dropdown
+        break
+      }
+      case 'signature': {
+        addSignatureField(doc, page, field)
+        continue
+      }
+    }
+    if (field.widgets.some((widget) => widget.required)) created.enableRequired()
+    keepAsDefault(created)
+  }
+  return fields.length
+}
@@ -0,0 +1,71 @@
+/**
+ * Vertical page layout math for the continuous-scroll viewer
+ */
+
+export interface PageSize {
+  width: number
+  height: number
+}
+
+export interface PageBox {
+  top: number
+  width: number
+  height: number
+}
+
+export interface PageLayout {
+  pages: PageBox[]
+  totalHeight: number
+  maxWidth: number
+}
+
+/**
+ * Stack pages top to bottom at `scale` with `gap` pixels between them.
+ * Sizes are in PDF points; boxes are floored CSS pixels like the page canvas.
+ */
+export const layoutPages = (sizes: PageSize[], scale: number, gap: number): PageLayout => {
+  const pages: PageBox[] = []
+  let top = 0
+  let maxWidth = 0
+  sizes.forEach((size, index) => {
+    if (index > 0) top += gap
+    const width = Math.max(1, Math.floor(size.width * scale))
+    const height = Math.max(1, Math.floor(size.height * scale))
+    pages.push({ top, width, height })
+    top += height
+    maxWidth = Math.max(maxWidth, width)
+  })
+  return { pages, totalHeight: top, maxWidth }
+}
+
+/**
+ * Index of the page covering `offset`, or the closest one before it when
+ * the offset falls in a gap. Binary search over the sorted page tops.
+ */
+export const pageIndexAtOffset = (pages: PageBox[], offset: number): number => {
+  if (pages.length === 0) return -1
+  let lo = 0
+  let hi = pages.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (pages[mid].top <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+/**
+ * Inclusive index range of pages intersecting [viewTop, viewBottom],
+ * widened by `overscan` pages on each side.
+ */
+export const visiblePageRange = (
+  pages: PageBox[],
+  viewTop: number,
+  viewBottom: number,
+  overscan = 1
+): [number, number] => {
+  if (pages.length === 0) return [0, -1]
+  const first = pageIndexAtOffset(pages, viewTop)
+  const last = pageIndexAtOffset(pages, viewBottom)
+  return [Math.max(0, first - overscan), Math.min(pages.length - 1, last + overscan)]
+}
@@ -0,0 +1,105 @@
+/**
+ * Page order helpers for bulk page operations
+ *
+ * An order is the list of source page indices (zero-based) that make up the
+ * new document, e.g. [2, 0, 1] moves the last page to the front and
+ * [0, 0, 1] duplicates the first page.
+ */
+
+/** Sorted, de-duplicated indices within [0, count). */
+export const normalizePageIndices = (indices: number[], count: number): number[] =>
+  Array.from(new Set(indices.filter((i) => Number.isInteger(i) && i >= 0 && i < count))).sort((a, b) => a - b)
+
+/**
+ * Move `indices` as one block so it starts at insertion slot `toIndex`
+ * (0..count, measured before the move).
+ */
+export const movedPageOrder = (count: number, indices: number[], toIndex: number): number[] => {
+  const moving = normalizePageIndices(indices, count)
+  const movingSet = new Set(moving)
+  const slot = Math.min(Math.max(0, Math.floor(toIndex)), count)
+  const before: number[] = []
+  const after: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (movingSet.has(i)) continue
+    ;(i < slot ? before : after).push(i)
+  }
+  return [...before, ...moving, ...after]
+}
+
+/** Remove `indices` from the order. */
+export const deletedPageOrder = (count: number, indices: number[]): number[] => {
+  const removing = new Set(normalizePageIndices(indices, count))
+  return Array.from({ length: count }, (_, i) => i).filter((i) => !removing.has(i))
+}
+
+/** Insert copies of `indices`, as one block, right after the last of them. */
+export const duplicatedPageOrder = (count: number, indices: number[]): number[] => {
+  const copies = normalizePageIndices(indices, count)
+  const order = Array.from({ length: count }, (_, i) => i)
+  if (!copies.length) return order
+  const at = copies[copies.length - 1] + 1
+  return [...order.slice(0, at), ...copies, ...order.slice(at)]
+}
+
+export const isIdentityOrder = (order: number[], count: number) =>
+  order.length === count && order.every((value, index) => value === index)
+
+/** Compact 1-based label for zero-based indices, e.g. [0, 1, 2, 5] -> "1-3,6". */
+export const formatPageRanges = (indices: number[]): string => {
+  const sorted = Array.from(new Set(indices)).sort((a, b) => a - b)
+  const parts: string[] = []
+  let start = 0
+  while (start < sorted.length) {
+    let end = start
+    while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) end++
+    parts.push(end > start ? `${sorted[start] + 1}-${sorted[end] + 1}` : `${sorted[start] + 1}`)
+    start = end + 1
+  }
+  return parts.join(',')
+}
+
+/**
+ * Parse a 1-based page list such as "1-3, 5, 8-" into zero-based indices
+ * (in the order given). Blank input means every page. Returns null when any
+ * part is malformed or out of range.
+ */
+export const parsePageRanges = (input: string, count: number): number[] | null => {
+  const text = input.trim()
+  if (!text) return Array.from({ length: count }, (_, i) => i)
+  const result: number[] = []
+  for (const part of text.split(',')) {
+    const match = /^\s*(\d+)?\s*(?:(-)\s*(\d+)?)?\s*$/.exec(part)
+    if (!match || (!match[1] && !match[3])) return null
+    const start = match[1] ? Number(match[1]) : 1
+    const end = match[2] ? (match[3] ? Number(match[3]) : count) : start
+    if (start < 1 || end < start || end > count) return null
+    for (let page = start; page <= end; page++) result.push(page - 1)
+  }
+  return result
+}
+
+/** Insert `n` new pages (marked -1) at slot `at`. */
+export const insertedPageOrder = (count: number, at: number, n: number): number[] => {
+  const slot = Math.min(Math.max(0, Math.floor(at)), count)
+  const order = Array.from({ length: count }, (_, i) => i)
+  return [...order.slice(0, slot), ...Array.from({ length: n }, () => -1), ...order.slice(slot)]
+}
+
+/**
+ * Follow 1-based `page` numbers through `order`. Items on removed pages are
+ * dropped; items on duplicated pages are copied, the copies taking ids from
+ * `newId`.
+ */
+export const remapPages = <T extends { id: string; page: number }>(items: T[], order: number[], newId: () => string): T[] => {
+  const positions = new Map<number, number[]>()
+  order.forEach((source, position) => {
+    if (source >= 0) positions.set(source + 1, [...(positions.get(source + 1) ?? []), position + 1])
+  })
+  return items.flatMap((item) =>
+    (positions.get(item.page) ?? []).map((page, copy) => {
+      if (copy > 0) return { ...item, id: newId(), page }
+      return page === item.page ? item : { ...item, page }
+    })
+  )
+}
@@ -0,0 +1,229 @@
+/**
+ * pdf.js text content in annotation coordinates
+ *
+ * Text items are mapped through the page viewport, so rotation and crop
+ * offsets are handled, then normalized to 0-1 with a top-left origin like
+ * store annotations.
+ */
+
+export interface PageTextItem {
+  str: string
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface NormalizedRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/** The parts of a pdf.js `PageViewport` used here */
+export interface TextViewport {
+  width: number
+  height: number
+  convertToViewportPoint: (x: number, y: number) => number[]
+}
+
+/** Convert `page.getTextContent()` items using `page.getViewport({ scale: 1 })`. */
+export const textItemsFromContent = (textContent: { items?: any[] }, viewport: TextViewport): PageTextItem[] => {
+  const items: PageTextItem[] = []
+  for (const item of textContent.items ?? []) {
+    const str = typeof item?.str === 'string' ? item.str : ''
+    const transform: number[] = Array.isArray(item?.transform) ? item.transform : []
+    if (!str.trim() || transform.length < 6) continue
+    const x = transform[4]
+    const y = transform[5]
+    const height = item.height || Math.hypot(transform[2], transform[3]) || 10
+    const width = item.width || height * str.length * 0.5
+    // Baseline-left and top-right corners of the run
+    const [x0, y0] = viewport.convertToViewportPoint(x, y)
+    const [x1, y1] = viewport.convertToViewportPoint(x + width, y + height)
+    items.push({
+      str,
+      left: Math.min(x0, x1) / viewport.width,
+      top: Math.min(y0, y1) / viewport.height,
+      width: Math.abs(x1 - x0) / viewport.width,
+      height: Math.abs(y1 - y0) / viewport.height,
+    })
+  }
+  return items
+}
+
+/**
+ * `rect`, normalized to a page shown turned by `rotation` degrees, in the
+ * frame of the upright page
+ */
+export const uprightRect = (rect: NormalizedRect, rotation: number): NormalizedRect => {
+  const { left, top, width, height } = rect
+  switch (((rotation % 360) + 360) % 360) {
+    case 90: return { left: top, top: 1 - left - width, width: height, height: width }
+    case 180: return { left: 1 - left - width, top: 1 - top - height, width, height }
+    case 270: return { left: 1 - top - height, top: left, width: height, height: width }
+    default: return { left, top, width, height }
+  }
+}
+
+/** Whether two rects share area; a zero-size rect overlaps the rects it lies inside */
+export const rectsOverlap = (a: NormalizedRect, b: NormalizedRect) =>
+  a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height
+
+/**
+ * Text under or around `rect` (grown by `margin` on each side, or by
+ * separate horizontal and vertical margins), in reading order with runs on
+ * the same line joined by spaces.
+ */
+export const textNearRect = (
+  items: PageTextItem[],
+  rect: NormalizedRect,
+  margin: number | { x: number; y: number } = 0.015
+): string => {
+  const { x, y } = typeof margin === 'number' ? { x: margin, y: margin } : margin
+  const area = {
+    left: rect.left - x,
+    top: rect.top - y,
+    width: rect.width + x * 2,
+    height: rect.height + y * 2,
+  }
+  const hits = items.filter((item) => rectsOverlap(item, area)).sort((a, b) => a.top - b.top)
+  // A run joins the current line when its vertical center sits inside it
+  const lines: PageTextItem[][] = []
+  for (const item of hits) {
+    const line = lines[lines.length - 1]
+    const center = item.top + item.height / 2
+    if (line && center <= line[0].top + line[0].height) line.push(item)
+    else lines.push([item])
+  }
+  return lines
+    .map((line) => line.sort((a, b) => a.left - b.left).map((item) => item.str).join(' '))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** One line of a text selection: [left, top, right, bottom], normalized */
+export type TextQuad = [number, number, number, number]
+
+export interface TextSelection {
+  quads: TextQuad[]
+  text: string
+}
+
+interface Glyph {
+  ch: string
+  left: number
+  right: number
+}
+
+interface TextLine {
+  top: number
+  bottom: number
+  glyphs: Glyph[]
+}
+
+/**
+ * Runs grouped into lines, each split into glyphs. pdf.js only reports the
+ * run width, so glyphs share it evenly like the find tool does.
+ */
+const textLines = (items: PageTextItem[]): TextLine[] => {
+  const lines: PageTextItem[][] = []
+  for (const item of [...items].sort((a, b) => a.top - b.top)) {
+    const line = lines[lines.length - 1]
+    const center = item.top + item.height / 2
+    if (line && center <= line[0].top + line[0].height) line.push(item)
+    else lines.push([item])
+  }
+  return lines.map((line) => {
+    const glyphs: Glyph[] = []
+    line.sort((a, b) => a.left - b.left).forEach((item, index) => {
+      const charWidth = item.width / Math.max(1, item.str.length)
+      const previous = glyphs[glyphs.length - 1]
+      // Separate runs with a space when pdf.js left a visible gap between them
+      if (index > 0 && previous && previous.ch.trim() && item.left - previous.right > charWidth * 0.25) {
+        glyphs.push({ ch: ' ', left: previous.right, right: item.left })
+      }
+      Array.from(item.str).forEach((ch, i) => {
+        glyphs.push({ ch, left: item.left + i * charWidth, right: item.left + (i + 1) * charWidth })
+      })
+    })
+    return {
+      top: Math.min(...line.map((item) => item.top)),
+      bottom: Math.max(...line.map((item) => item.top + item.height)),
+      glyphs,
+    }
+  })
+}
+
+/** Caret index within a line: glyphs whose center lies left of `x` */
+const caretAt = (line: TextLine, x: number) => line.glyphs.filter((g) => (g.left + g.right) / 2 < x).length
+
+/**
+ * Text selected by dragging from one point to another, snapped to glyphs
+ * with one quad per line. Returns null when the drag covers no text, so
+ * callers can fall back to a free rectangle.
+ */
+export const selectTextRange = (
+  items: PageTextItem[],
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): TextSelection | null => {
+  const lines = textLines(items)
+  const [upper, lower] = from.y <= to.y ? [from, to] : [to, from]
+  // The drag starts on the first line reaching below the upper point and ends on the last line starting above the lower one
+  const first = lines.findIndex((line) => line.bottom >= upper.y)
+  let last = -1
+  lines.forEach((line, index) => { if (line.top <= lower.y) last = index })
+  if (first === -1 || last === -1 || first > last) return null
+
+  let startCaret = lines[first].top > upper.y ? 0 : caretAt(lines[first], upper.x)
+  let endCaret = lines[last].bottom < lower.y ? lines[last].glyphs.length : caretAt(lines[last], lower.x)
+  // Dragging right to left along a single line
+  if (first === last && startCaret > endCaret) [startCaret, endCaret] = [endCaret, startCaret]
+
+  const quads: TextQuad[] = []
+  const parts: string[] = []
+  for (let index = first; index <= last; index++) {
+    const line = lines[index]
+    let glyphs = line.glyphs.slice(index === first ? startCaret : 0, index === last ? endCaret : line.glyphs.length)
+    // Leading and trailing spaces are not part of the highlight
+    while (glyphs.length && !glyphs[0].ch.trim()) glyphs = glyphs.slice(1)
+    while (glyphs.length && !glyphs[glyphs.length - 1].ch.trim()) glyphs = glyphs.slice(0, -1)
+    if (!glyphs.length) continue
+    quads.push([glyphs[0].left, line.top, glyphs[glyphs.length - 1].right, line.bottom])
+    parts.push(glyphs.map((g) => g.ch).join(''))
+  }
+  if (!quads.length) return null
+  return { quads, text: parts.join(' ').replace(/\s+/g, ' ').trim() }
+}
+
+/** Bounding box of a set of quads as start/end corners */
+export const quadBounds = (quads: TextQuad[]) => ({
+  startX: Math.min(...quads.map((q) => q[0])),
+  startY: Math.min(...quads.map((q) => q[1])),
+  endX: Math.max(...quads.map((q) => q[2])),
+  endY: Math.max(...quads.map((q) => q[3])),
+})
+
+/**
+ * Text whose glyph centers lie inside `rect`, with lines joined by spaces.
+ * Used to check that nothing readable is left under a redaction.
+ */
+export const textInRect = (items: PageTextItem[], rect: NormalizedRect): string =>
+  textLines(items)
+    .filter((line) => {
+      const center = (line.top + line.bottom) / 2
+      return center > rect.top && center < rect.top + rect.height
+    })
+    .map((line) => line.glyphs
+      .filter((g) => {
+        const center = (g.left + g.right) / 2
+        return center > rect.left && center < rect.left + rect.width
+      })
+      .map((g) => g.ch)
+      .join(''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
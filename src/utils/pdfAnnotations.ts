@@ -0,0 +1,1047 @@
+/**
+ * Native PDF annotation round-trip
+ *
+ * Writes store annotations as real `/Annot` dictionaries (with appearance
+ * streams so every viewer renders them) and reads supported `/Annots` back
+ * into normalized store annotations.
+ */
+
+import { PDFArray, PDFDict, PDFDocument, PDFFont, PDFHexString, PDFName, PDFNumber, PDFPage, PDFRef, PDFStream, PDFString, StandardFonts } from 'pdf-lib'
+import { v4 as uuidv4 } from 'uuid'
+import type { Annotation, LineEnding } from '../types/annotations'
+import { hexToRgb, rgbToHex } from './color'
+import { quadBounds, type TextQuad } from './pageText'
+import {
+  UNDERLINE_OFFSET,
+  UNDERLINE_WIDTH,
+  encodableText,
+  isWrappingTextBox,
+  parseRichContents,
+  richContents,
+  runFields,
+  textBoxFrame,
+} from './richText'
+import {
+  BOX_SHAPES,
+  FILLABLE_SHAPES,
+  dashArray,
+  dashStyleOf,
+  lineEndingsOf,
+  pathPoints,
+  shapeExtent,
+  shapeGeometry,
+  type PathCommand,
+} from './shapes'
+
+/** `/Name` given to signature stamps so they are left on the page on import */
+export const SIGNATURE_STAMP_NAME = 'PDFoidSignature'
+
+/** Subtypes that map onto a store annotation type */
+const IMPORTABLE_SUBTYPES = new Set([
+  'Highlight', 'Underline', 'StrikeOut', 'Ink', 'Square', 'Circle', 'Line', 'PolyLine', 'Polygon', 'FreeText', 'Text', 'Stamp',
+])
+
+const FREE_TEXT_FONT = 'Helv'
+
+// Text box and stroke metrics, shared with the XFDF mapping
+export const LINE_HEIGHT = 1.2
+export const TEXT_ASCENT = 0.72
+export const TEXT_PADDING = 2
+export const STROKE_SCALE = 0.75
+// Underline and strikeout position above the line bottom, and their thickness, as fractions of the line height
+export const MARKUP_LINE_OFFSET = { underline: -0.08, strikeout: 0.3 }
+export const MARKUP_LINE_WIDTH = 0.08
+
+export interface PdfBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const decodeDataUrl = (dataUrl: string): { mime: string; bytes: Uint8Array } | null => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/)
+  if (!match) return null
+  const mime = match[1]
+  const base64 = match[2]
+  try {
+    const bin = atob(base64)
+    const bytes = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+    return { mime, bytes }
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const fmt = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+const rectArray = (box: PdfBox) => [box.x, box.y, box.x + box.width, box.y + box.height]
+
+/** Bounding box of a start/end annotation in PDF points (bottom-left origin) */
+const cornerBox = (ann: Annotation, pageWidth: number, pageHeight: number): PdfBox => {
+  const startX = (ann.startX ?? 0) * pageWidth
+  const startYTop = (ann.startY ?? 0) * pageHeight
+  const endX = (ann.endX ?? ann.startX ?? 0) * pageWidth
+  const endYTop = (ann.endY ?? ann.startY ?? 0) * pageHeight
+  const width = Math.max(Math.abs(endX - startX), 2)
+  const height = Math.max(Math.abs(endYTop - startYTop), 2)
+  const top = Math.min(startYTop, endYTop)
+  return { x: Math.min(startX, endX), y: pageHeight - top - height, width, height }
+}
+
+/** Text markup quads, falling back to the start/end box for free-area highlights */
+const markupQuads = (ann: Annotation): TextQuad[] =>
+  ann.quads?.length
+    ? ann.quads
+    : [[
+      Math.min(ann.startX, ann.endX ?? ann.startX),
+      Math.min(ann.startY, ann.endY ?? ann.startY),
+      Math.max(ann.startX, ann.endX ?? ann.startX),
+      Math.max(ann.startY, ann.endY ?? ann.startY),
+    ]]
+
+/**
+ * `/QuadPoints` of a text markup annotation in PDF points: upper-left,
+ * upper-right, lower-left, lower-right per line.
+ */
+export const quadPointsOf = (ann: Annotation, pageWidth: number, pageHeight: number): number[] =>
+  markupQuads(ann).flatMap(([left, top, right, bottom]) => {
+    const x1 = left * pageWidth
+    const x2 = right * pageWidth
+    const yTop = pageHeight - top * pageHeight
+    const yBottom = pageHeight - bottom * pageHeight
+    return [x1, yTop, x2, yTop, x1, yBottom, x2, yBottom]
+  })
+
+/** Normalized quads from `/QuadPoints` (or XFDF `coords`), any corner order */
+export const quadsFromPoints = (points: number[], pageWidth: number, pageHeight: number): TextQuad[] => {
+  const quads: TextQuad[] = []
+  for (let i = 0; i + 7 < points.length; i += 8) {
+    const xs = [points[i], points[i + 2], points[i + 4], points[i + 6]]
+    const ys = [points[i + 1], points[i + 3], points[i + 5], points[i + 7]]
+    quads.push([
+      clamp01(Math.min(...xs) / pageWidth),
+      clamp01((pageHeight - Math.max(...ys)) / pageHeight),
+      clamp01(Math.max(...xs) / pageWidth),
+      clamp01((pageHeight - Math.min(...ys)) / pageHeight),
+    ])
+  }
+  return quads
+}
+
+/** `[a b c d e f]` transformation matrix */
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+/**
+ * The page as viewers show it: the CropBox, turned by `/Rotate`. Store
+ * annotations are normalized to this view; `matrix` takes its points
+ * (bottom-left origin) to the page's user space.
+ */
+export const pageView = (page: PDFPage): { width: number; height: number; matrix: Matrix } => {
+  const { x, y, width, height } = page.getCropBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+  switch (rotation) {
+    case 90: return { width: height, height: width, matrix: [0, 1, -1, 0, x + width, y] }
+    case 180: return { width, height, matrix: [-1, 0, 0, -1, x + width, y + height] }
+    case 270: return { width: height, height: width, matrix: [0, -1, 1, 0, x, y + height] }
+    default: return { width, height, matrix: [1, 0, 0, 1, x, y] }
+  }
+}
+
+const invertMatrix = ([a, b, c, d, e, f]: Matrix): Matrix => {
+  const det = a * d - b * c
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det]
+}
+
+/** Flat `[x1 y1 x2 y2 ...]` points through `matrix` */
+const transformPoints = ([a, b, c, d, e, f]: Matrix, flat: number[]) =>
+  flat.flatMap((value, i) => (i % 2 || i + 1 === flat.length ? [] : [a * value + c * flat[i + 1] + e, b * value + d * flat[i + 1] + f]))
+
+/** A `[x1 y1 x2 y2]` rectangle through `matrix`, as the box around its corners */
+const transformRect = (matrix: Matrix, [x1, y1, x2, y2]: number[]) => {
+  const corners = transformPoints(matrix, [x1, y1, x2, y1, x1, y2, x2, y2])
+  const xs = corners.filter((_, i) => i % 2 === 0)
+  const ys = corners.filter((_, i) => i % 2 === 1)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+/** Move annotation entries laid out in the page's view into its user space */
+const placeInPage = (doc: PDFDocument, entries: Record<string, any>, matrix: Matrix) => {
+  if (matrix.every((value, i) => value === IDENTITY[i])) return
+  entries.Rect = transformRect(matrix, entries.Rect)
+  if (entries.QuadPoints) entries.QuadPoints = transformPoints(matrix, entries.QuadPoints)
+  if (entries.InkList) entries.InkList = entries.InkList.map((points: number[]) => transformPoints(matrix, points))
+  if (entries.L) entries.L = transformPoints(matrix, entries.L)
+  if (entries.Vertices) entries.Vertices = transformPoints(matrix, entries.Vertices)
+  // The appearance keeps its view coordinates; /Matrix turns it with the page
+  doc.context.lookup(entries.AP.N, PDFStream).dict.set(PDFName.of('Matrix'), doc.context.obj(matrix))
+}
+
+const registerAppearance = (doc: PDFDocument, box: PdfBox, content: string, resources: Record<string, any> = {}) => {
+  const stream = doc.context.stream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: rectArray(box),
+    Resources: resources,
+  })
+  return doc.context.register(stream)
+}
+
+/** Embeds each standard font once per document */
+export const standardFontCache = (doc: PDFDocument) => {
+  const fonts = new Map<StandardFonts, Promise<PDFFont>>()
+  return (name: StandardFonts) => {
+    let font = fonts.get(name)
+    if (!font) {
+      font = doc.embedFont(name)
+      fonts.set(name, font)
+    }
+    return font
+  }
+}
+
+const rgbOperands = (value: string) => {
+  const { r, g, b } = hexToRgb(value)
+  return `${fmt(r)} ${fmt(g)} ${fmt(b)}`
+}
+
+/**
+ * Form XObject drawing a text box (background, border and laid-out runs) in
+ * page coordinates. It is the FreeText appearance and is also painted
+ * straight onto the page when flattening. `opacity` is only needed where
+ * no annotation `/CA` applies.
+ */
+export const textBoxAppearance = async (
+  doc: PDFDocument,
+  ann: Annotation,
+  pageWidth: number,
+  pageHeight: number,
+  getFont: (name: StandardFonts) => Promise<PDFFont>,
+  opacity = 1,
+): Promise<{ box: PdfBox; ref: PDFRef }> => {
+  const frame = textBoxFrame(ann, pageWidth, pageHeight)
+  const fontSize = ann.fontSize || 16
+  const box = { x: frame.left, y: pageHeight - frame.top - frame.height, width: frame.width, height: frame.height }
+  const boxOperands = `${fmt(box.x)} ${fmt(box.y)} ${fmt(box.width)} ${fmt(box.height)}`
+  const textColor = rgbOperands(ann.color ?? '#000000')
+  const ops: string[] = ['q']
+  const resources: Record<string, any> = {}
+
+  if (opacity < 1) {
+    resources.ExtGState = { GS0: { Type: 'ExtGState', ca: opacity, CA: opacity } }
+    ops.push('/GS0 gs')
+  }
+  if (ann.fillColor) ops.push(`${rgbOperands(ann.fillColor)} rg ${boxOperands} re f`)
+  const borderWidth = ann.borderColor ? ann.borderWidth ?? 0 : 0
+  if (borderWidth > 0) {
+    const inset = borderWidth / 2
+    ops.push(`${fmt(borderWidth)} w ${rgbOperands(ann.borderColor!)} RG ${fmt(box.x + inset)} ${fmt(box.y + inset)} ${fmt(box.width - borderWidth)} ${fmt(box.height - borderWidth)} re S`)
+  }
+  if (frame.clip) ops.push(`${boxOperands} re W n`)
+
+  const fontNames = new Map<StandardFonts, string>()
+  const text: string[] = []
+  const underlines: string[] = []
+  for (const line of frame.layout.lines) {
+    const baseline = pageHeight - frame.textTop - line.baseline
+    for (const segment of line.segments) {
+      const x = frame.textLeft + segment.x
+      if (!fontNames.has(segment.font)) fontNames.set(segment.font, `F${fontNames.size}`)
+      const font = await getFont(segment.font)
+      text.push(`/${fontNames.get(segment.font)} ${fmt(fontSize)} Tf 1 0 0 1 ${fmt(x)} ${fmt(baseline)} Tm ${font.encodeText(encodableText(segment.text)).toString()} Tj`)
+      if (segment.style.underline) {
+        const thickness = Math.max(0.5, fontSize * UNDERLINE_WIDTH)
+        underlines.push(`${fmt(x)} ${fmt(baseline - fontSize * UNDERLINE_OFFSET - thickness / 2)} ${fmt(segment.width)} ${fmt(thickness)} re`)
+      }
+    }
+  }
+  if (text.length) ops.push(`BT ${textColor} rg ${text.join(' ')} ET`)
+  if (underlines.length) ops.push(`${textColor} rg ${underlines.join(' ')} f`)
+  ops.push('Q')
+
+  if (fontNames.size) {
+    const fonts: Record<string, PDFRef> = {}
+    for (const [name, key] of fontNames) fonts[key] = (await getFont(name)).ref
+    resources.Font = fonts
+  }
+  return { box, ref: registerAppearance(doc, box, ops.join('\n'), resources) }
+}
+
+/**
+ * Form XObject drawing a signature image centred in its box, in page
+ * coordinates. It is the appearance of signature stamps and of signed
+ * signature fields. Null when the annotation has no usable image.
+ */
+export const signatureAppearance = async (
+  doc: PDFDocument,
+  ann: Annotation,
+  pageWidth: number,
+  pageHeight: number,
+): Promise<{ box: PdfBox; ref: PDFRef } | null> => {
+  const decoded = ann.imageDataUrl ? decodeDataUrl(ann.imageDataUrl) : null
+  if (!decoded) return null
+  const mime = (ann.imageMime || decoded.mime || '').toLowerCase()
+  const box = cornerBox(ann, pageWidth, pageHeight)
+  const image = mime.includes('png') ? await doc.embedPng(decoded.bytes) : await doc.embedJpg(decoded.bytes)
+  const scale = Math.min(box.width / image.width, box.height / image.height)
+  const w = image.width * scale
+  const h = image.height * scale
+  const x = box.x + (box.width - w) / 2
+  const y = box.y + (box.height - h) / 2
+  const ref = registerAppearance(doc, box, `q ${fmt(w)} 0 0 ${fmt(h)} ${fmt(x)} ${fmt(y)} cm /Im0 Do Q`, { XObject: { Im0: image.ref } })
+  return { box, ref }
+}
+
+/** Stroke width of a shape in PDF points */
+export const shapeLineWidth = (ann: Annotation) => Math.max(1, (ann.strokeWidth ?? 2) * STROKE_SCALE)
+
+const pathOperators = (commands: PathCommand[], pageHeight: number) =>
+  commands
+    .map((command) => {
+      if (command[0] === 'Z') return 'h'
+      const [op, ...values] = command
+      const operands = values.map((value, i) => fmt(i % 2 === 0 ? value : pageHeight - value)).join(' ')
+      return `${operands} ${op === 'M' ? 'm' : op === 'L' ? 'l' : 'c'}`
+    })
+    .join(' ')
+
+/**
+ * Form XObject drawing a shape (outline, fill, dashes and arrow heads) in
+ * page coordinates, used as the annotation appearance and when flattening.
+ */
+export const shapeAppearance = (
+  doc: PDFDocument,
+  ann: Annotation,
+  pageWidth: number,
+  pageHeight: number,
+  opacity = 1,
+): { box: PdfBox; ref: PDFRef } => {
+  const lineWidth = shapeLineWidth(ann)
+  const { outline, heads } = shapeGeometry(ann, pageWidth, pageHeight, lineWidth)
+  // Box shapes are drawn inside their own box, which doubles as /Rect; lines and vertices get room for the stroke
+  const extent = shapeExtent(ann)
+  const coords = [outline, ...heads].flatMap((path) => pathPoints(path.commands))
+  const xs = coords.map((p) => p[0])
+  const ys = coords.map((p) => pageHeight - p[1])
+  const box = BOX_SHAPES.includes(ann.type)
+    ? {
+      x: extent.left * pageWidth,
+      y: pageHeight - (extent.top + extent.height) * pageHeight,
+      width: extent.width * pageWidth,
+      height: extent.height * pageHeight,
+    }
+    : {
+      x: Math.min(...xs) - lineWidth,
+      y: Math.min(...ys) - lineWidth,
+      width: Math.max(...xs) - Math.min(...xs) + lineWidth * 2,
+      height: Math.max(...ys) - Math.min(...ys) + lineWidth * 2,
+    }
+
+  const strokeColor = rgbOperands(ann.color ?? '#ff4545')
+  const ops: string[] = ['q']
+  const resources: Record<string, any> = {}
+  if (opacity < 1) {
+    resources.ExtGState = { GS0: { Type: 'ExtGState', ca: opacity, CA: opacity } }
+    ops.push('/GS0 gs')
+  }
+  ops.push(`${fmt(lineWidth)} w ${strokeColor} RG`)
+  const fill = outline.closed && ann.fillColor && FILLABLE_SHAPES.includes(ann.type) ? ann.fillColor : undefined
+  const dashes = dashArray(ann.dashStyle, lineWidth)
+  ops.push(`q${dashes.length ? ` [${dashes.map(fmt).join(' ')}] 0 d` : ''}${fill ? ` ${rgbOperands(fill)} rg` : ''} ${pathOperators(outline.commands, pageHeight)} ${fill ? 'B' : 'S'} Q`)
+  // Heads are always drawn solid, and closed ones filled with the stroke colour
+  heads.forEach((head) => {
+    ops.push(`${head.closed ? `${strokeColor} rg ` : ''}${pathOperators(head.commands, pageHeight)} ${head.closed ? 'B' : 'S'}`)
+  })
+  ops.push('Q')
+  return { box, ref: registerAppearance(doc, box, ops.join('\n'), resources) }
+}
+
+// Arrow heads as `/LE` line ending names
+const LINE_ENDING_NAMES: Record<LineEnding, string> = { none: 'None', open: 'OpenArrow', closed: 'ClosedArrow' }
+
+/** Border style dictionary with the dash pattern, if any */
+const borderStyle = (ann: Annotation, lineWidth: number) => {
+  const dashes = dashArray(ann.dashStyle, lineWidth)
+  return dashes.length ? { W: lineWidth, S: 'D', D: dashes } : { W: lineWidth }
+}
+
+/** Horizontal alignment as a FreeText `/Q` quadding value */
+const QUADDING = { left: 0, center: 1, right: 2 } as const
+
+/**
+ * Add every annotation to its page as a native `/Annot`.
+ * Returns the number of annotations written.
+ */
+export const writeNativeAnnotations = async (doc: PDFDocument, annotations: Annotation[]): Promise<number> => {
+  const pages = doc.getPages()
+  const fonts = standardFontCache(doc)
+  const getFont = () => fonts(StandardFonts.Helvetica)
+
+  let written = 0
+  for (const ann of annotations) {
+    if (ann.isDeleted) continue
+    const page = pages[ann.page - 1]
+    if (!page) continue
+    const { width: pageWidth, height: pageHeight, matrix } = pageView(page)
+
+    const color = hexToRgb(ann.color)
+    const opacity = ann.opacity ?? color.opacity ?? 1
+    const colorArray = [color.r, color.g, color.b]
+    const colorOp = `${fmt(color.r)} ${fmt(color.g)} ${fmt(color.b)}`
+
+    const base: Record<string, any> = {
+      Type: 'Annot',
+      NM: PDFHexString.fromText(ann.id),
+      F: 4,
+      CA: opacity,
+      M: PDFString.fromDate(new Date()),
+    }
+    const created = new Date(ann.createdAt)
+    if (!Number.isNaN(created.getTime())) base.CreationDate = PDFString.fromDate(created)
+    if (ann.author) base.T = PDFHexString.fromText(ann.author)
+    if (ann.text) base.Contents = PDFHexString.fromText(ann.text)
+
+    let entries: Record<string, any> | null = null
+
+    switch (ann.type) {
+      case 'highlight':
+      case 'underline':
+      case 'strikeout': {
+        const points = quadPointsOf(ann, pageWidth, pageHeight)
+        const xs = points.filter((_, i) => i % 2 === 0)
+        const ys = points.filter((_, i) => i % 2 === 1)
+        // Room for an underline dropping below the last line
+        const pad = 2
+        const box = {
+          x: Math.min(...xs) - pad,
+          y: Math.min(...ys) - pad,
+          width: Math.max(...xs) - Math.min(...xs) + pad * 2,
+          height: Math.max(...ys) - Math.min(...ys) + pad * 2,
+        }
+        const lines: string[] = []
+        for (let i = 0; i + 7 < points.length; i += 8) {
+          const [x1, yTop, x2, , , yBottom] = points.slice(i, i + 8)
+          const height = yTop - yBottom
+          if (ann.type === 'highlight') {
+            lines.push(`${fmt(x1)} ${fmt(yBottom)} ${fmt(x2 - x1)} ${fmt(height)} re f`)
+          } else {
+            const y = yBottom + height * MARKUP_LINE_OFFSET[ann.type]
+            lines.push(`${fmt(Math.max(0.5, height * MARKUP_LINE_WIDTH))} w ${fmt(x1)} ${fmt(y)} m ${fmt(x2)} ${fmt(y)} l S`)
+          }
+        }
+        const appearance = ann.type === 'highlight'
+          ? registerAppearance(doc, box, `q /GS0 gs ${colorOp} rg ${lines.join(' ')} Q`, {
+            ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } },
+          })
+          : registerAppearance(doc, box, `q ${colorOp} RG ${lines.join(' ')} Q`)
+        entries = {
+          Subtype: ann.type === 'highlight' ? 'Highlight' : ann.type === 'underline' ? 'Underline' : 'StrikeOut',
+          Rect: rectArray(box),
+          QuadPoints: points,
+          C: colorArray,
+          AP: { N: appearance },
+        }
+        break
+      }
+      case 'pen': {
+        if (!ann.points || ann.points.length < 2) break
+        const thickness = Math.max(1, (ann.strokeWidth ?? 2) * STROKE_SCALE)
+        const points = ann.points.map(([nx, ny]) => [nx * pageWidth, pageHeight - ny * pageHeight])
+        const xs = points.map((p) => p[0])
+        const ys = points.map((p) => p[1])
+        const pad = thickness
+        const box = {
+          x: Math.min(...xs) - pad,
+          y: Math.min(...ys) - pad,
+          width: Math.max(...xs) - Math.min(...xs) + pad * 2,
+          height: Math.max(...ys) - Math.min(...ys) + pad * 2,
+        }
+        const path = points
+          .map(([x, y], i) => `${fmt(x)} ${fmt(y)} ${i === 0 ? 'm' : 'l'}`)
+          .join(' ')
+        const appearance = registerAppearance(doc, box, `q ${fmt(thickness)} w 1 J 1 j ${colorOp} RG ${path} S Q`)
+        entries = {
+          Subtype: 'Ink',
+          Rect: rectArray(box),
+          InkList: [points.flat()],
+          BS: { W: thickness },
+          C: colorArray,
+          AP: { N: appearance },
+        }
+        break
+      }
+      case 'rectangle':
+      case 'ellipse':
+      case 'cloud':
+      case 'line':
+      case 'arrow':
+      case 'polyline':
+      case 'polygon': {
+        if ((ann.type === 'polyline' || ann.type === 'polygon') && (ann.points?.length ?? 0) < 2) break
+        const lineWidth = shapeLineWidth(ann)
+        const { box, ref } = shapeAppearance(doc, ann, pageWidth, pageHeight)
+        entries = {
+          Rect: rectArray(box),
+          BS: borderStyle(ann, lineWidth),
+          C: colorArray,
+          AP: { N: ref },
+        }
+        if (ann.fillColor && FILLABLE_SHAPES.includes(ann.type)) {
+          const fill = hexToRgb(ann.fillColor)
+          entries.IC = [fill.r, fill.g, fill.b]
+        }
+        if (ann.type === 'rectangle' || ann.type === 'cloud') {
+          entries.Subtype = 'Square'
+          // Cloudy border effect; the appearance already draws the scallops
+          if (ann.type === 'cloud') entries.BE = { S: 'C', I: 1 }
+        } else if (ann.type === 'ellipse') {
+          entries.Subtype = 'Circle'
+        } else if (ann.type === 'line' || ann.type === 'arrow') {
+          const endings = lineEndingsOf(ann)
+          entries.Subtype = 'Line'
+          entries.L = [
+            (ann.startX ?? 0) * pageWidth,
+            pageHeight - (ann.startY ?? 0) * pageHeight,
+            (ann.endX ?? ann.startX ?? 0) * pageWidth,
+            pageHeight - (ann.endY ?? ann.startY ?? 0) * pageHeight,
+          ]
+          entries.LE = endings.map((ending) => LINE_ENDING_NAMES[ending])
+          // Closed heads are filled with the interior colour
+          if (endings.includes('closed')) entries.IC = colorArray
+        } else {
+          entries.Subtype = ann.type === 'polygon' ? 'Polygon' : 'PolyLine'
+          entries.Vertices = ann.points!.flatMap(([x, y]) => [x * pageWidth, pageHeight - y * pageHeight])
+        }
+        break
+      }
+      case 'text-box': {
+        if (isWrappingTextBox(ann)) {
+          // Rich text boxes keep their box; /RC carries the styled runs
+          const { box, ref } = await textBoxAppearance(doc, ann, pageWidth, pageHeight, fonts)
+          const borderOp = ann.borderColor ? ` ${rgbOperands(ann.borderColor)} RG` : ''
+          entries = {
+            Subtype: 'FreeText',
+            Rect: rectArray(box),
+            DA: PDFString.of(`/${FREE_TEXT_FONT} ${fmt(ann.fontSize ?? 16)} Tf ${colorOp} rg${borderOp}`),
+            RC: PDFHexString.fromText(richContents(ann)),
+            Q: QUADDING[ann.textAlign ?? 'left'],
+            BS: { W: ann.borderColor ? ann.borderWidth ?? 0 : 0 },
+            AP: { N: ref },
+          }
+          if (ann.fillColor) {
+            const fill = hexToRgb(ann.fillColor)
+            entries.C = [fill.r, fill.g, fill.b]
+          }
+          break
+        }
+        if (!ann.text) break
+        const embedded = await getFont()
+        const fontSize = ann.fontSize ?? 16
+        const lineHeight = fontSize * LINE_HEIGHT
+        // The appearance is drawn in Helvetica; /Contents keeps the text as typed
+        const lines = ann.text.split(/\r?\n/).map(encodableText)
+        const textWidth = Math.max(fontSize, ...lines.map((line) => embedded.widthOfTextAtSize(line, fontSize)))
+        const baselineX = (ann.startX ?? 0) * pageWidth
+        const baselineY = pageHeight - (ann.startY ?? 0) * pageHeight
+        const top = baselineY + fontSize * TEXT_ASCENT + TEXT_PADDING
+        const bottom = baselineY - (lines.length - 1) * lineHeight - fontSize * 0.3 - TEXT_PADDING
+        const box = {
+          x: baselineX - TEXT_PADDING,
+          y: bottom,
+          width: textWidth + TEXT_PADDING * 2,
+          height: top - bottom,
+        }
+        const shows = lines
+          .map((line, i) => `${i === 0 ? '' : 'T* '}${embedded.encodeText(line).toString()} Tj`)
+          .join(' ')
+        const appearance = registerAppearance(
+          doc,
+          box,
+          `q BT /${FREE_TEXT_FONT} ${fmt(fontSize)} Tf ${colorOp} rg ${fmt(lineHeight)} TL ${fmt(baselineX)} ${fmt(baselineY)} Td ${shows} ET Q`,
+          { Font: { [FREE_TEXT_FONT]: embedded.ref } },
+        )
+        entries = {
+          Subtype: 'FreeText',
+          Rect: rectArray(box),
+          DA: PDFString.of(`/${FREE_TEXT_FONT} ${fmt(fontSize)} Tf ${colorOp} rg`),
+          BS: { W: 0 },
+          AP: { N: appearance },
+        }
+        break
+      }
+      case 'sticky-note': {
+        const width = (ann.width ?? 0.25) * pageWidth
+        const height = (ann.height ?? 0.25) * pageHeight
+        const box = {
+          x: (ann.startX ?? 0) * pageWidth,
+          y: pageHeight - (ann.startY ?? 0) * pageHeight - height,
+          width,
+          height,
+        }
+        let content = `q ${colorOp} rg ${fmt(box.x)} ${fmt(box.y)} ${fmt(width)} ${fmt(height)} re f Q`
+        const resources: Record<string, any> = {}
+        if (ann.text) {
+          const embedded = await getFont()
+          const fontSize = Math.max(10, ann.fontSize ?? 12)
+          const margin = 12
+          const shows = ann.text
+            .split(/\r?\n/)
+            .map((line, i) => `${i === 0 ? '' : 'T* '}${embedded.encodeText(encodableText(line)).toString()} Tj`)
+            .join(' ')
+          content += ` q ${fmt(box.x)} ${fmt(box.y)} ${fmt(width)} ${fmt(height)} re W n BT /${FREE_TEXT_FONT} ${fmt(fontSize)} Tf 0 g ${fmt(fontSize * 1.35)} TL ${fmt(box.x + margin)} ${fmt(box.y + height - margin - fontSize)} Td ${shows} ET Q`
+          resources.Font = { [FREE_TEXT_FONT]: embedded.ref }
+        }
+        entries = {
+          Subtype: 'Text',
+          Rect: rectArray(box),
+          Name: 'Comment',
+          Open: false,
+          C: colorArray,
+          AP: { N: registerAppearance(doc, box, content, resources) },
+        }
+        break
+      }
+      case 'stamp': {
+        const box = cornerBox(ann, pageWidth, pageHeight)
+        const thickness = Math.max(2, (ann.strokeWidth ?? 3) * 0.8)
+        let content = `q ${fmt(thickness)} w ${colorOp} RG ${fmt(box.x)} ${fmt(box.y)} ${fmt(box.width)} ${fmt(box.height)} re S Q`
+        const resources: Record<string, any> = {}
+        if (ann.text) {
+          const embedded = await getFont()
+          const fontSize = Math.max(20, ann.fontSize ?? 24)
+          const baselineY = pageHeight - (ann.startY ?? 0) * pageHeight
+          content += ` q BT /${FREE_TEXT_FONT} ${fmt(fontSize)} Tf ${colorOp} rg ${fmt(box.x + 12)} ${fmt(baselineY)} Td ${embedded.encodeText(ann.text.toUpperCase()).toString()} Tj ET Q`
+          resources.Font = { [FREE_TEXT_FONT]: embedded.ref }
+        }
+        entries = {
+          Subtype: 'Stamp',
+          Rect: rectArray(box),
+          C: colorArray,
+          AP: { N: registerAppearance(doc, box, content, resources) },
+        }
+        break
+      }
+      case 'signature': {
+        try {
+          const signature = await signatureAppearance(doc, ann, pageWidth, pageHeight)
+          if (!signature) break
+          entries = {
+            Subtype: 'Stamp',
+            Name: SIGNATURE_STAMP_NAME,
+            Rect: rectArray(signature.box),
+            AP: { N: signature.ref },
+          }
+        } catch {
+          break
+        }
+        break
+      }
+      default: {
+        break
+      }
+    }
+
+    if (!entries) continue
+    placeInPage(doc, entries, matrix)
+    const ref = doc.context.register(doc.context.obj({ ...base, ...entries }))
+    page.node.addAnnot(ref)
+    written++
+  }
+  return written
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const nameOf = (value: unknown): string | undefined =>
+  value instanceof PDFName ? value.decodeText() : undefined
+
+const textOf = (value: unknown): string | undefined =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined
+
+const numbersOf = (value: unknown): number[] => {
+  if (!(value instanceof PDFArray)) return []
+  const out: number[] = []
+  for (let i = 0; i < value.size(); i++) {
+    const item = value.lookup(i)
+    if (item instanceof PDFNumber) out.push(item.asNumber())
+  }
+  return out
+}
+
+const colorOf = (value: unknown): string | undefined => {
+  const c = numbersOf(value)
+  if (c.length === 1) return rgbToHex(c[0], c[0], c[0])
+  if (c.length === 3) return rgbToHex(c[0], c[1], c[2])
+  if (c.length === 4) {
+    const [cy, m, y, k] = c
+    return rgbToHex((1 - cy) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k))
+  }
+  return undefined
+}
+
+const dateOf = (value: unknown): string | undefined => {
+  if (!(value instanceof PDFString || value instanceof PDFHexString)) return undefined
+  try {
+    const date = value.decodeDate()
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+  } catch {
+    return undefined
+  }
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+/** Parse `/Helv 12 Tf 1 0 0 rg` style default appearance strings */
+const parseDefaultAppearance = (da: string | undefined) => {
+  if (!da) return {}
+  const size = da.match(/([\d.]+)\s+Tf/)
+  const rgbMatch = da.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/)
+  const grayMatch = da.match(/([\d.]+)\s+g(?:\s|$)/)
+  let color: string | undefined
+  if (rgbMatch) color = rgbToHex(Number(rgbMatch[1]), Number(rgbMatch[2]), Number(rgbMatch[3]))
+  else if (grayMatch) color = rgbToHex(Number(grayMatch[1]), Number(grayMatch[1]), Number(grayMatch[1]))
+  const fontSize = size ? Number(size[1]) : undefined
+  return { fontSize: fontSize && fontSize > 0 ? fontSize : undefined, color }
+}
+
+const strokeWidthOf = (dict: PDFDict): number | undefined => {
+  const bs = dict.lookup(PDFName.of('BS'))
+  const width = bs instanceof PDFDict ? bs.lookup(PDFName.of('W')) : undefined
+  if (!(width instanceof PDFNumber)) return undefined
+  return Math.round((width.asNumber() / STROKE_SCALE) * 10) / 10
+}
+
+/** Stroke width and dash style from `/BS` */
+const shapeStyleOf = (dict: PDFDict): Pick<Annotation, 'strokeWidth' | 'dashStyle'> => {
+  const bs = dict.lookup(PDFName.of('BS'))
+  const strokeWidth = strokeWidthOf(dict)
+  if (!(bs instanceof PDFDict) || nameOf(bs.lookup(PDFName.of('S'))) !== 'D') return { strokeWidth }
+  const width = bs.lookup(PDFName.of('W'))
+  const dashes = numbersOf(bs.lookup(PDFName.of('D')))
+  return { strokeWidth, dashStyle: dashStyleOf(dashes.length ? dashes : [3], width instanceof PDFNumber ? width.asNumber() : 1) }
+}
+
+const parseAnnotation = (
+  dict: PDFDict,
+  subtype: string,
+  pageNumber: number,
+  pageWidth: number,
+  pageHeight: number,
+  toView: Matrix,
+): Array<Omit<Annotation, 'id'>> => {
+  // Read in the page's view, where store annotations are laid out
+  const pointsOf = (value: unknown) => transformPoints(toView, numbersOf(value))
+  const rawRect = numbersOf(dict.lookup(PDFName.of('Rect')))
+  const rect = rawRect.length < 4 ? rawRect : transformRect(toView, rawRect)
+  const ca = dict.lookup(PDFName.of('CA'))
+  const base = {
+    page: pageNumber,
+    createdAt: dateOf(dict.lookup(PDFName.of('CreationDate'))) ?? dateOf(dict.lookup(PDFName.of('M'))) ?? new Date().toISOString(),
+    author: textOf(dict.lookup(PDFName.of('T'))),
+    color: colorOf(dict.lookup(PDFName.of('C'))),
+    opacity: ca instanceof PDFNumber ? clamp01(ca.asNumber()) : undefined,
+    text: textOf(dict.lookup(PDFName.of('Contents'))),
+  }
+
+  const fromBox = (x1: number, y1: number, x2: number, y2: number) => ({
+    startX: clamp01(Math.min(x1, x2) / pageWidth),
+    startY: clamp01((pageHeight - Math.max(y1, y2)) / pageHeight),
+    endX: clamp01(Math.max(x1, x2) / pageWidth),
+    endY: clamp01((pageHeight - Math.min(y1, y2)) / pageHeight),
+  })
+
+  switch (subtype) {
+    case 'Highlight':
+    case 'Underline':
+    case 'StrikeOut': {
+      const points = pointsOf(dict.lookup(PDFName.of('QuadPoints')))
+      const quads = quadsFromPoints(points, pageWidth, pageHeight)
+      if (!quads.length && rect.length < 4) return []
+      const type = subtype === 'Highlight' ? 'highlight' : subtype === 'Underline' ? 'underline' : 'strikeout'
+      return [{
+        ...base,
+        type,
+        color: base.color ?? (type === 'highlight' ? '#ffeb3b' : '#ff4545'),
+        ...(quads.length ? { ...quadBounds(quads), quads } : fromBox(rect[0], rect[1], rect[2], rect[3])),
+      }]
+    }
+    case 'Stamp': {
+      if (rect.length < 4) return []
+      return [{
+        ...base,
+        type: 'stamp',
+        color: base.color ?? '#ff4545',
+        strokeWidth: strokeWidthOf(dict),
+        text: base.text ?? nameOf(dict.lookup(PDFName.of('Name'))) ?? 'Stamp',
+        ...fromBox(rect[0], rect[1], rect[2], rect[3]),
+      }]
+    }
+    case 'Square':
+    case 'Circle': {
+      if (rect.length < 4) return []
+      const be = dict.lookup(PDFName.of('BE'))
+      const cloudy = be instanceof PDFDict && nameOf(be.lookup(PDFName.of('S'))) === 'C'
+      return [{
+        ...base,
+        ...shapeStyleOf(dict),
+        type: subtype === 'Circle' ? 'ellipse' : cloudy ? 'cloud' : 'rectangle',
+        color: base.color ?? '#ff4545',
+        fillColor: colorOf(dict.lookup(PDFName.of('IC'))),
+        ...fromBox(rect[0], rect[1], rect[2], rect[3]),
+      }]
+    }
+    case 'Line': {
+      const line = pointsOf(dict.lookup(PDFName.of('L')))
+      if (line.length < 4) return []
+      const names = dict.lookup(PDFName.of('LE'))
+      const endings = [0, 1].map((i) => {
+        const name = names instanceof PDFArray ? nameOf(names.lookup(i)) : undefined
+        return name === 'None' || !name ? 'none' : name === 'OpenArrow' ? 'open' : 'closed'
+      }) as [LineEnding, LineEnding]
+      const isArrow = endings.some((ending) => ending !== 'none')
+      return [{
+        ...base,
+        ...shapeStyleOf(dict),
+        type: isArrow ? 'arrow' : 'line',
+        color: base.color ?? '#ff4545',
+        startX: clamp01(line[0] / pageWidth),
+        startY: clamp01((pageHeight - line[1]) / pageHeight),
+        endX: clamp01(line[2] / pageWidth),
+        endY: clamp01((pageHeight - line[3]) / pageHeight),
+        lineEndings: isArrow ? endings : undefined,
+      }]
+    }
+    case 'PolyLine':
+    case 'Polygon': {
+      const flat = pointsOf(dict.lookup(PDFName.of('Vertices')))
+      const points: Array<[number, number]> = []
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        points.push([clamp01(flat[i] / pageWidth), clamp01((pageHeight - flat[i + 1]) / pageHeight)])
+      }
+      if (points.length < 2) return []
+      return [{
+        ...base,
+        ...shapeStyleOf(dict),
+        type: subtype === 'Polygon' ? 'polygon' : 'polyline',
+        color: base.color ?? '#ff4545',
+        fillColor: subtype === 'Polygon' ? colorOf(dict.lookup(PDFName.of('IC'))) : undefined,
+        points,
+        startX: points[0][0],
+        startY: points[0][1],
+      }]
+    }
+    case 'Ink': {
+      const inkList = dict.lookup(PDFName.of('InkList'))
+      if (!(inkList instanceof PDFArray)) return []
+      const strokes: Array<Omit<Annotation, 'id'>> = []
+      for (let i = 0; i < inkList.size(); i++) {
+        const flat = pointsOf(inkList.lookup(i))
+        const points: Array<[number, number]> = []
+        for (let j = 0; j + 1 < flat.length; j += 2) {
+          points.push([clamp01(flat[j] / pageWidth), clamp01((pageHeight - flat[j + 1]) / pageHeight)])
+        }
+        if (points.length < 2) continue
+        strokes.push({
+          ...base,
+          type: 'pen',
+          color: base.color ?? '#ff4545',
+          strokeWidth: strokeWidthOf(dict) ?? 2,
+          points,
+          startX: points[0][0],
+          startY: points[0][1],
+        })
+      }
+      return strokes
+    }
+    case 'FreeText': {
+      const rc = textOf(dict.lookup(PDFName.of('RC')))
+      if (rc && rect.length >= 4) {
+        // Rich text: keep the box, wrapping and styles
+        const daText = textOf(dict.lookup(PDFName.of('DA'))) ?? ''
+        const da = parseDefaultAppearance(daText)
+        const rich = parseRichContents(rc)
+        const border = daText.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+RG/)
+        const bs = dict.lookup(PDFName.of('BS'))
+        const bsWidth = bs instanceof PDFDict ? bs.lookup(PDFName.of('W')) : undefined
+        const borderWidth = bsWidth instanceof PDFNumber ? bsWidth.asNumber() : 0
+        const quadding = dict.lookup(PDFName.of('Q'))
+        const box = fromBox(rect[0], rect[1], rect[2], rect[3])
+        return [{
+          ...base,
+          ...runFields(rich.runs),
+          type: 'text-box',
+          color: da.color ?? '#000000',
+          fillColor: base.color,
+          fontSize: da.fontSize ?? 16,
+          startX: box.startX,
+          startY: box.startY,
+          width: box.endX - box.startX,
+          height: box.endY - box.startY,
+          textAlign: quadding instanceof PDFNumber ? (['left', 'center', 'right'] as const)[quadding.asNumber()] ?? 'left' : rich.textAlign,
+          lineSpacing: rich.lineSpacing,
+          borderColor: border && borderWidth ? rgbToHex(Number(border[1]), Number(border[2]), Number(border[3])) : undefined,
+          borderWidth: border && borderWidth ? borderWidth : undefined,
+        }]
+      }
+      if (!base.text || rect.length < 4) return []
+      const da = parseDefaultAppearance(textOf(dict.lookup(PDFName.of('DA'))))
+      const fontSize = da.fontSize ?? 16
+      const left = Math.min(rect[0], rect[2])
+      const top = Math.max(rect[1], rect[3])
+      // Store text boxes by their first baseline
+      const baselineY = top - TEXT_PADDING - fontSize * TEXT_ASCENT
+      return [{
+        ...base,
+        type: 'text-box',
+        color: da.color ?? base.color ?? '#000000',
+        fontSize,
+        startX: clamp01((left + TEXT_PADDING) / pageWidth),
+        startY: clamp01((pageHeight - baselineY) / pageHeight),
+      }]
+    }
+    case 'Text': {
+      if (rect.length < 4) return []
+      const box = fromBox(rect[0], rect[1], rect[2], rect[3])
+      return [{
+        ...base,
+        type: 'sticky-note',
+        color: base.color ?? '#fef08a',
+        text: base.text ?? '',
+        startX: box.startX,
+        startY: box.startY,
+        width: Math.max(0.02, box.endX - box.startX),
+        height: Math.max(0.02, box.endY - box.startY),
+      }]
+    }
+    default:
+      return []
+  }
+}
+
+export interface ReadNativeAnnotationsOptions {
+  /** Remove imported annotations (and their popups) from the pages */
+  remove?: boolean
+}
+
+/** A store annotation read from the file, with the dictionary it came from */
+export interface NativeAnnotation {
+  annotation: Annotation
+  /** Missing for annotation dictionaries written directly into `/Annots` */
+  ref?: PDFRef
+  popup?: PDFRef
+}
+
+/**
+ * Convert supported page `/Annots` into store annotations, keeping the
+ * reference of each source dictionary. Replies (`/IRT`) and drawn signatures
+ * are left out.
+ */
+export const listNativeAnnotations = (doc: PDFDocument): NativeAnnotation[] => {
+  const natives: NativeAnnotation[] = []
+  const seenIds = new Set<string>()
+
+  doc.getPages().forEach((page, pageIndex) => {
+    const annots = page.node.Annots()
+    if (!annots) return
+    const { width: pageWidth, height: pageHeight, matrix } = pageView(page)
+    const toView = invertMatrix(matrix)
+
+    for (let i = 0; i < annots.size(); i++) {
+      const raw = annots.get(i)
+      const dict = doc.context.lookup(raw)
+      if (!(dict instanceof PDFDict)) continue
+      const subtype = nameOf(dict.lookup(PDFName.of('Subtype')))
+      if (!subtype || !IMPORTABLE_SUBTYPES.has(subtype)) continue
+      if (dict.has(PDFName.of('IRT'))) continue
+      if (subtype === 'Stamp' && nameOf(dict.lookup(PDFName.of('Name'))) === SIGNATURE_STAMP_NAME) continue
+
+      const parsed = parseAnnotation(dict, subtype, pageIndex + 1, pageWidth, pageHeight, toView)
+      if (!parsed.length) continue
+
+      const ref = raw instanceof PDFRef ? raw : undefined
+      const popup = dict.get(PDFName.of('Popup'))
+      // Without /NM fall back to the position so reopening the file yields the same IDs
+      const nm = textOf(dict.lookup(PDFName.of('NM'))) ?? `pdf-annot-${pageIndex + 1}-${i}`
+      parsed.forEach((ann, index) => {
+        let id = index === 0 ? nm : `${nm}-${index}`
+        if (seenIds.has(id)) id = uuidv4()
+        seenIds.add(id)
+        natives.push({ annotation: { ...ann, id } as Annotation, ref, popup: popup instanceof PDFRef ? popup : undefined })
+      })
+    }
+  })
+
+  return natives
+}
+
+/** Dictionaries (and popups) behind `natives`, each once */
+export const nativeAnnotationRefs = (natives: NativeAnnotation[]): PDFRef[] =>
+  [...new Set(natives.flatMap((native) => [native.ref, native.popup].filter((ref): ref is PDFRef => !!ref)))]
+
+/**
+ * Convert supported page `/Annots` into store annotations.
+ * Replies (`/IRT`) and drawn signatures are not imported; `remove` takes
+ * replies away with the annotation they answer.
+ */
+export const readNativeAnnotations = (doc: PDFDocument, options: ReadNativeAnnotationsOptions = {}): Annotation[] => {
+  const natives = listNativeAnnotations(doc)
+  if (options.remove) removeNativeAnnotations(doc, natives.flatMap((native) => (native.ref ? [native.ref] : [])))
+  return natives.map((native) => native.annotation)
+}
+
+/**
+ * Remove annotation dictionaries from the pages, together with their popups
+ * and the replies to them.
+ */
+export const removeNativeAnnotations = (doc: PDFDocument, refs: PDFRef[]) => {
+  if (!refs.length) return
+  const removed = new Set(refs)
+  refs.forEach((ref) => {
+    const popup = doc.context.lookupMaybe(ref, PDFDict)?.get(PDFName.of('Popup'))
+    if (popup instanceof PDFRef) removed.add(popup)
+  })
+
+  doc.getPages().forEach((page) => {
+    const annots = page.node.Annots()
+    if (!annots) return
+    const dropped: PDFRef[] = []
+    for (let i = 0; i < annots.size(); i++) {
+      const raw = annots.get(i)
+      if (!(raw instanceof PDFRef)) continue
+      const dict = doc.context.lookupMaybe(raw, PDFDict)
+      const parent = dict?.get(PDFName.of('IRT')) ?? dict?.get(PDFName.of('Parent'))
+      if (removed.has(raw) || (parent instanceof PDFRef && removed.has(parent))) dropped.push(raw)
+    }
+    dropped.forEach((ref) => page.node.removeAnnot(ref))
+  })
+}
+
+/**
+ * Remove from `copy`, made by `copyPages` from `source`, the copies of the
+ * annotations in `refs`. Copied `/Annots` keep the order of the source.
+ */
+export const removeCopiedAnnotations = (source: PDFPage, copy: PDFPage, refs: PDFRef[]) => {
+  const from = source.node.Annots()
+  const to = copy.node.Annots()
+  if (!from || !to || from.size() !== to.size()) return
+  const removed = new Set(refs)
+  const dropped: PDFRef[] = []
+  for (let i = 0; i < from.size(); i++) {
+    const original = from.get(i)
+    const copied = to.get(i)
+    if (original instanceof PDFRef && removed.has(original) && copied instanceof PDFRef) dropped.push(copied)
+  }
+  dropped.forEach((ref) => copy.node.removeAnnot(ref))
+}
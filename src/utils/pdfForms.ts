@@ -0,0 +1,240 @@
+/**
+ * AcroForm filling: read a document's interactive fields with their widget
+ * boxes, and write filled values back through pdf-lib
+ */
+
+import {
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFName,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRef,
+  PDFTextField,
+} from 'pdf-lib'
+import type { NormalizedRect } from './pageText'
+
+export type FormFieldKind = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'option-list'
+
+// Text, the selected radio option or dropdown entry, checkbox state, or option-list selection
+export type FormValue = string | boolean | string[]
+
+export interface FormWidget {
+  page: number // 1-based
+  rect: NormalizedRect
+  // Radio buttons: the option this button selects
+  option?: string
+}
+
+export interface FormField {
+  name: string
+  kind: FormFieldKind
+  value: FormValue
+  widgets: FormWidget[]
+  options?: string[]
+  readOnly?: boolean
+  required?: boolean
+  multiline?: boolean
+  maxLength?: number
+  // Dropdowns that accept values outside their options
+  editable?: boolean
+  multiSelect?: boolean
+}
+
+const kindOf = (field: PDFField): FormFieldKind | null => {
+  if (field instanceof PDFTextField) return 'text'
+  if (field instanceof PDFCheckBox) return 'checkbox'
+  if (field instanceof PDFRadioGroup) return 'radio'
+  if (field instanceof PDFDropdown) return 'dropdown'
+  if (field instanceof PDFOptionList) return 'option-list'
+  return null
+}
+
+const valueOf = (field: PDFField): FormValue => {
+  if (field instanceof PDFTextField) return field.getText() ?? ''
+  if (field instanceof PDFCheckBox) return field.isChecked()
+  if (field instanceof PDFRadioGroup) return field.getSelected() ?? ''
+  if (field instanceof PDFDropdown) return field.getSelected()[0] ?? ''
+  if (field instanceof PDFOptionList) return field.getSelected()
+  return ''
+}
+
+export const sameFormValue = (a: FormValue, b: FormValue) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((entry, i) => entry === b[i])
+    : a === b
+
+/**
+ * Fillable fields of `doc` in form order. Push buttons and signature fields
+ * are left out, as are widgets that sit on no page. Documents without a form
+ * are not given one. Opening the form makes pdf-lib refresh field
+ * appearances on the next save, so read after saving.
+ */
+export const readFormFields = (doc: PDFDocument): FormField[] => {
+  if (!doc.catalog.AcroForm()) return []
+  const pages = doc.getPages()
+  const pageOfWidget = new Map<PDFDict, number>()
+  pages.forEach((page, index) => {
+    const annots = page.node.Annots()
+    if (!annots) return
+    for (let i = 0; i < annots.size(); i++) {
+      const dict = annots.lookup(i)
+      if (dict instanceof PDFDict) pageOfWidget.set(dict, index)
+    }
+  })
+
+  const fields: FormField[] = []
+  doc.getForm().getFields().forEach((field) => {
+    const kind = kindOf(field)
+    if (!kind) return
+    // Radio buttons select the option at their own position
+    const options = field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList
+      ? field.getOptions()
+      : undefined
+    const widgets: FormWidget[] = []
+    field.acroField.getWidgets().forEach((widget, index) => {
+      const pageIndex = pageOfWidget.get(widget.dict)
+      if (pageIndex === undefined) return
+      const { width, height } = pages[pageIndex].getSize()
+      const rect = widget.getRectangle()
+      widgets.push({
+        page: pageIndex + 1,
+        rect: {
+          left: rect.x / width,
+          top: 1 - (rect.y + rect.height) / height,
+          width: rect.width / width,
+          height: rect.height / height,
+        },
+        option: kind === 'radio' ? options?.[index] ?? widget.getOnValue()?.decodeText() : undefined,
+      })
+    })
+    if (!widgets.length) return
+
+    const entry: FormField = {
+      name: field.getName(),
+      kind,
+      value: valueOf(field),
+      widgets,
+      readOnly: field.isReadOnly() || undefined,
+      required: field.isRequired() || undefined,
+    }
+    if (options && kind !== 'radio') entry.options = options
+    if (field instanceof PDFTextField) {
+      entry.multiline = field.isMultiline() || undefined
+      entry.maxLength = field.getMaxLength()
+    }
+    if (field instanceof PDFDropdown) entry.editable = field.isEditable() || undefined
+    if (field instanceof PDFOptionList) entry.multiSelect = field.isMultiselect() || undefined
+    fields.push(entry)
+  })
+  return fields
+}
+
+const setFieldValue = (field: PDFField, value: FormValue) => {
+  if (field instanceof PDFTextField) {
+    field.setText(String(value) || undefined)
+  } else if (field instanceof PDFCheckBox) {
+    if (value) field.check()
+    else field.uncheck()
+  } else if (field instanceof PDFRadioGroup) {
+    if (value) field.select(String(value))
+    else field.clear()
+  } else if (field instanceof PDFDropdown) {
+    if (value) field.select(String(value))
+    else field.clear()
+  } else if (field instanceof PDFOptionList) {
+    const selected = Array.isArray(value) ? value : value ? [String(value)] : []
+    if (selected.length) field.select(selected)
+    else field.clear()
+  }
+}
+
+/**
+ * Write `values` (by field name) into the form of `doc`. Only fields whose
+ * value changes are touched, so untouched fields keep their original
+ * appearance; pdf-lib redraws the changed ones when the document is saved.
+ * With `flatten`, every field is drawn into its page and the form removed.
+ * Returns the number of fields changed.
+ */
+export const fillFormFields = (doc: PDFDocument, values: Record<string, FormValue>, options?: { flatten?: boolean }) => {
+  if (!doc.catalog.AcroForm()) return 0
+  const form = doc.getForm()
+  let changed = 0
+  form.getFields().forEach((field) => {
+    const name = field.getName()
+    if (!(name in values) || !kindOf(field)) return
+    if (sameFormValue(valueOf(field), values[name])) return
+    try {
+      setFieldValue(field, values[name])
+      changed++
+    } catch (err) {
+      console.warn(`Skipping form field ${name}`, err)
+    }
+  })
+  if (options?.flatten) {
+    form.flatten()
+    // pdf-lib deletes the widgets but leaves their references in /Annots
+    doc.getPages().forEach((page) => {
+      const annots = page.node.Annots()
+      if (!annots) return
+      for (let i = annots.size() - 1; i >= 0; i--) {
+        const entry = annots.get(i)
+        if (entry instanceof PDFRef && !doc.context.lookup(entry)) annots.remove(i)
+      }
+    })
+  }
+  return changed
+}
+
+// The top-level field a widget belongs to: climb `/Parent` from the widget
+const rootFieldRef = (doc: PDFDocument, ref: PDFRef) => {
+  let current = ref
+  for (let depth = 0; depth < 32; depth++) {
+    const parent = doc.context.lookup(current, PDFDict).get(PDFName.of('Parent'))
+    if (!(parent instanceof PDFRef)) break
+    current = parent
+  }
+  return current
+}
+
+/**
+ * Copy every page of `source` to the end of `target`. With `suffix`, the
+ * fields of `source` are renamed `<name><suffix>` and join the form of
+ * `target`, so several filled copies of one form can share a document
+ * without their values merging. Without it, copied widgets belong to no form.
+ */
+export const appendFormCopy = async (target: PDFDocument, source: PDFDocument, suffix?: string) => {
+  const acroForm = source.catalog.getAcroForm()
+  if (suffix && acroForm) {
+    acroForm.getFields().forEach(([field]) => field.setPartialName(`${field.getPartialName() ?? ''}${suffix}`))
+  }
+  const pages = await target.copyPages(source, source.getPageIndices())
+  pages.forEach((page) => target.addPage(page))
+  if (suffix && acroForm) addCopiedFields(target, pages)
+}
+
+/**
+ * Join the fields of the widgets on `pages` to the form of `doc`. `copyPages`
+ * brings the widgets along, but not the catalog's list of fields.
+ */
+export const addCopiedFields = (doc: PDFDocument, pages: PDFPage[]) => {
+  const roots = new Set<PDFRef>()
+  pages.forEach((page) => {
+    const annots = page.node.Annots()
+    if (!annots) return
+    for (let i = 0; i < annots.size(); i++) {
+      const entry = annots.get(i)
+      const dict = annots.lookup(i)
+      if (entry instanceof PDFRef && dict instanceof PDFDict && dict.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+        roots.add(rootFieldRef(doc, entry))
+      }
+    }
+  })
+  if (!roots.size) return
+  const form = doc.catalog.getOrCreateAcroForm()
+  roots.forEach((ref) => form.addField(ref))
+}
@@ -0,0 +1,10 @@
+/**
+ * Lightweight inspection of PDFs that are not the open document
+ */
+
+import { PDFDocument } from 'pdf-lib'
+
+export const readPdfPageCount = async (bytes: ArrayBuffer | Uint8Array): Promise<number> => {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
+  return doc.getPageCount()
+}
@@ -0,0 +1,899 @@
+/**
+ * Redaction: remove page content under marked areas
+ *
+ * Page content is rewritten rather than covered. Glyphs whose center falls
+ * inside an area are cut out of their text-showing operators (the gap is kept
+ * with a TJ offset so the remaining text does not move), image pixels under an
+ * area are blanked in a copy of the image, and path segments lying entirely
+ * inside an area are dropped. Form XObjects are processed the same way.
+ * Paths that only partly overlap an area are left in place under the fill.
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+} from 'pdf-lib'
+import {
+  arrayOperand,
+  nameOperand,
+  numberOperand,
+  parseOperations,
+  serializeOperations,
+  streamText,
+  stringOperand,
+  textBytes,
+  type Operand,
+  type Operation,
+} from './contentStream'
+
+/** Area to redact in PDF user space (bottom-left origin), with its fill in 0-1 channels */
+export interface RedactionArea {
+  x: number
+  y: number
+  width: number
+  height: number
+  color?: { r: number; g: number; b: number }
+}
+
+export interface RedactionStats {
+  glyphs: number
+  images: number
+  paths: number
+  annotations: number
+}
+
+/** Decodes image bytes the redactor cannot read itself (e.g. JPEG) into RGBA pixels */
+export type ImageDecoder = (bytes: Uint8Array, mime: string) => Promise<{ width: number; height: number; rgba: Uint8ClampedArray } | null>
+
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+// Glyph box in text space units, relative to the baseline
+const GLYPH_DESCENT = -0.2
+const GLYPH_ASCENT = 0.8
+const DEFAULT_GLYPH_WIDTH = 500
+// Form XObjects nested deeper than this are left alone
+const MAX_FORM_DEPTH = 8
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+]
+
+const apply = (m: Matrix, x: number, y: number): [number, number] => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+
+interface Box {
+  left: number
+  bottom: number
+  right: number
+  top: number
+}
+
+const boxOf = (points: Array<[number, number]>): Box => ({
+  left: Math.min(...points.map((p) => p[0])),
+  bottom: Math.min(...points.map((p) => p[1])),
+  right: Math.max(...points.map((p) => p[0])),
+  top: Math.max(...points.map((p) => p[1])),
+})
+
+const transformedBox = (m: Matrix, x1: number, y1: number, x2: number, y2: number) =>
+  boxOf([apply(m, x1, y1), apply(m, x2, y1), apply(m, x1, y2), apply(m, x2, y2)])
+
+const containsPoint = (area: RedactionArea, x: number, y: number) =>
+  x > area.x && x < area.x + area.width && y > area.y && y < area.y + area.height
+
+const overlaps = (area: RedactionArea, box: Box) =>
+  box.left < area.x + area.width && box.right > area.x && box.bottom < area.y + area.height && box.top > area.y
+
+// Half a point of slack so paths drawn exactly on an area's edge still count as inside
+const containsBox = (area: RedactionArea, box: Box) =>
+  box.left >= area.x - 0.5 && box.right <= area.x + area.width + 0.5 && box.bottom >= area.y - 0.5 && box.top <= area.y + area.height + 0.5
+
+const numbersOf = (value: PDFObject | undefined): number[] => {
+  if (!(value instanceof PDFArray)) return []
+  return value.asArray().map((_, i) => {
+    const item = value.lookup(i)
+    return item instanceof PDFNumber ? item.asNumber() : 0
+  })
+}
+
+const numberOf = (value: PDFObject | undefined, fallback: number) => (value instanceof PDFNumber ? value.asNumber() : fallback)
+
+const nameOf = (value: PDFObject | undefined) => (value instanceof PDFName ? value.decodeText() : undefined)
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+interface FontMetrics {
+  bytesPerCode: 1 | 2
+  // Advance width in thousandths of text space
+  widthOf: (code: number) => number
+}
+
+const standardWidths = new Map<string, Map<number, number>>()
+
+const standardFontWidths = (baseFont: string) => {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '')
+  if (!(Object.values(StandardFonts) as string[]).includes(name)) return undefined
+  if (!standardWidths.has(name)) {
+    const embedder = StandardFontEmbedder.for(name as Parameters<typeof StandardFontEmbedder.for>[0])
+    const widths = new Map<number, number>()
+    for (const codePoint of embedder.encoding.supportedCodePoints) {
+      const glyph = embedder.encoding.encodeUnicodeCodePoint(codePoint)
+      widths.set(glyph.code, embedder.font.getWidthOfGlyph(glyph.name) ?? DEFAULT_GLYPH_WIDTH)
+    }
+    standardWidths.set(name, widths)
+  }
+  return standardWidths.get(name)
+}
+
+/** Composite font widths from the descendant font's `/W` array */
+const cidWidths = (font: PDFDict) => {
+  const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0)
+  const widths = new Map<number, number>()
+  if (!(descendant instanceof PDFDict)) return { widths, fallback: 1000 }
+  const fallback = numberOf(descendant.lookup(PDFName.of('DW')), 1000)
+  const w = descendant.lookupMaybe(PDFName.of('W'), PDFArray)
+  const items = w ? w.asArray().map((_, i) => w.lookup(i)) : []
+  for (let i = 0; i < items.length;) {
+    const first = numberOf(items[i], NaN)
+    if (Number.isNaN(first)) break
+    const next = items[i + 1]
+    if (next instanceof PDFArray) {
+      numbersOf(next).forEach((width, k) => widths.set(first + k, width))
+      i += 2
+    } else {
+      const last = numberOf(next, NaN)
+      const width = numberOf(items[i + 2], fallback)
+      for (let cid = first; cid <= last && cid - first < 65536; cid++) widths.set(cid, width)
+      i += 3
+    }
+  }
+  return { widths, fallback }
+}
+
+const fontMetricsCache = new WeakMap<PDFDict, FontMetrics>()
+
+const fontMetrics = (font: PDFDict | undefined): FontMetrics => {
+  if (!font) return { bytesPerCode: 1, widthOf: () => DEFAULT_GLYPH_WIDTH }
+  const cached = fontMetricsCache.get(font)
+  if (cached) return cached
+
+  let metrics: FontMetrics
+  if (nameOf(font.lookup(PDFName.of('Subtype'))) === 'Type0') {
+    const { widths, fallback } = cidWidths(font)
+    // Identity-H and most CJK encodings use two-byte codes that map to CIDs
+    metrics = { bytesPerCode: 2, widthOf: (code) => widths.get(code) ?? fallback }
+  } else {
+    const firstChar = numberOf(font.lookup(PDFName.of('FirstChar')), 0)
+    const widths = numbersOf(font.lookup(PDFName.of('Widths')))
+    const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)
+    const missing = numberOf(descriptor?.lookup(PDFName.of('MissingWidth')), DEFAULT_GLYPH_WIDTH)
+    // Type 3 glyph widths are in glyph space
+    const fontMatrix = numbersOf(font.lookup(PDFName.of('FontMatrix')))
+    const scale = fontMatrix.length === 6 ? fontMatrix[0] * 1000 : 1
+    const standard = widths.length ? undefined : standardFontWidths(nameOf(font.lookup(PDFName.of('BaseFont'))) ?? '')
+    metrics = {
+      bytesPerCode: 1,
+      widthOf: (code) => {
+        if (standard) return standard.get(code) ?? missing
+        const width = widths[code - firstChar]
+        return (width ?? missing) * scale
+      },
+    }
+  }
+  fontMetricsCache.set(font, metrics)
+  return metrics
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+const DECODABLE_FILTERS = new Set(['FlateDecode', 'LZWDecode', 'ASCII85Decode', 'ASCIIHexDecode', 'RunLengthDecode'])
+// Entries that describe the old encoding and must not be copied to a re-encoded stream
+const ENCODING_ENTRIES = new Set(['Filter', 'DecodeParms', 'Length', 'DL'])
+
+const filtersOf = (dict: PDFDict): string[] => {
+  const filter = dict.lookup(PDFName.of('Filter'))
+  if (filter instanceof PDFName) return [filter.decodeText()]
+  if (filter instanceof PDFArray) return filter.asArray().map((f) => nameOf(f) ?? '')
+  return []
+}
+
+const colorComponents = (dict: PDFDict): number | undefined => {
+  if (dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') return 1
+  const space = dict.lookup(PDFName.of('ColorSpace'))
+  const resolved = space instanceof PDFRef ? dict.context.lookup(space) : space
+  const family = resolved instanceof PDFArray ? nameOf(resolved.lookup(0)) : nameOf(resolved)
+  switch (family) {
+    case 'DeviceGray':
+    case 'CalGray':
+    case 'Indexed':
+    case 'Separation':
+      return 1
+    case 'DeviceRGB':
+    case 'CalRGB':
+    case 'Lab':
+      return 3
+    case 'DeviceCMYK':
+      return 4
+    case 'ICCBased': {
+      const profile = (resolved as PDFArray).lookup(1)
+      return profile instanceof PDFStream ? numberOf(profile.dict.lookup(PDFName.of('N')), 3) : 3
+    }
+    case 'DeviceN': {
+      const names = (resolved as PDFArray).lookup(1)
+      return names instanceof PDFArray ? names.size() : undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+/** Undo PNG row predictors (Predictor 10-15) */
+const unpredictPng = (data: Uint8Array, bytesPerPixel: number, rowLength: number) => {
+  const rows = Math.floor(data.length / (rowLength + 1))
+  const out = new Uint8Array(rows * rowLength)
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowLength + 1)]
+    const src = row * (rowLength + 1) + 1
+    const dst = row * rowLength
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i]
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0
+      const up = row > 0 ? out[dst - rowLength + i] : 0
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[dst - rowLength + i - bytesPerPixel] : 0
+      let value = raw
+      if (type === 1) value = raw + left
+      else if (type === 2) value = raw + up
+      else if (type === 3) value = raw + ((left + up) >> 1)
+      else if (type === 4) {
+        const p = left + up - upLeft
+        const pa = Math.abs(p - left)
+        const pb = Math.abs(p - up)
+        const pc = Math.abs(p - upLeft)
+        value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft)
+      }
+      out[dst + i] = value & 0xff
+    }
+  }
+  return out
+}
+
+/** Image samples as stored, or null when they cannot be decoded here */
+const decodeSamples = (stream: PDFRawStream, components: number, bitsPerComponent: number, width: number) => {
+  const filters = filtersOf(stream.dict)
+  if (!filters.every((f) => DECODABLE_FILTERS.has(f))) return null
+  let data: Uint8Array
+  try {
+    data = filters.length ? decodePDFRawStream(stream).decode() : stream.getContents()
+  } catch {
+    return null
+  }
+  const params = stream.dict.lookup(PDFName.of('DecodeParms'))
+  const parms = params instanceof PDFArray ? params.lookup(params.size() - 1) : params
+  const predictor = parms instanceof PDFDict ? numberOf(parms.lookup(PDFName.of('Predictor')), 1) : 1
+  if (predictor >= 10) {
+    const bytesPerPixel = Math.max(1, Math.ceil((components * bitsPerComponent) / 8))
+    return unpredictPng(data, bytesPerPixel, Math.ceil((width * components * bitsPerComponent) / 8))
+  }
+  return predictor > 1 ? null : data
+}
+
+/** Default decoder: the browser's image codecs, where available */
+export const browserImageDecoder: ImageDecoder = async (bytes, mime) => {
+  if (typeof createImageBitmap !== 'function' || typeof OffscreenCanvas !== 'function') return null
+  try {
+    const bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type: mime }))
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    ctx.drawImage(bitmap, 0, 0)
+    return { width: bitmap.width, height: bitmap.height, rgba: ctx.getImageData(0, 0, bitmap.width, bitmap.height).data }
+  } catch {
+    return null
+  }
+}
+
+interface RedactionContext {
+  doc: PDFDocument
+  areas: RedactionArea[]
+  stats: RedactionStats
+  decodeImage?: ImageDecoder
+}
+
+/**
+ * Copy of an image XObject drawn with `ctm` whose pixels under the areas are
+ * zeroed, or null when its encoding cannot be edited.
+ */
+const redactImage = async (stream: PDFRawStream, ctm: Matrix, ctx: RedactionContext): Promise<PDFRef | null> => {
+  const { dict } = stream
+  const width = numberOf(dict.lookup(PDFName.of('Width')), 0)
+  const height = numberOf(dict.lookup(PDFName.of('Height')), 0)
+  if (width <= 0 || height <= 0) return null
+  const isMask = dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true'
+  let bitsPerComponent = isMask ? 1 : numberOf(dict.lookup(PDFName.of('BitsPerComponent')), 8)
+  let components = colorComponents(dict)
+  const entries: Record<string, PDFObject> = {}
+  for (const [key, value] of dict.entries()) {
+    if (!ENCODING_ENTRIES.has(key.decodeText())) entries[key.decodeText()] = value
+  }
+
+  let samples = components ? decodeSamples(stream, components, bitsPerComponent, width) : null
+  const filters = filtersOf(dict)
+  if (!samples && ctx.decodeImage && !isMask && filters.length === 1 && (filters[0] === 'DCTDecode' || filters[0] === 'JPXDecode')) {
+    const decoded = await ctx.decodeImage(stream.getContents(), filters[0] === 'DCTDecode' ? 'image/jpeg' : 'image/jp2')
+    if (decoded && decoded.width === width && decoded.height === height) {
+      samples = new Uint8Array(width * height * 3)
+      for (let i = 0; i < width * height; i++) {
+        samples[i * 3] = decoded.rgba[i * 4]
+        samples[i * 3 + 1] = decoded.rgba[i * 4 + 1]
+        samples[i * 3 + 2] = decoded.rgba[i * 4 + 2]
+      }
+      components = 3
+      bitsPerComponent = 8
+      entries.ColorSpace = PDFName.of('DeviceRGB')
+      entries.BitsPerComponent = PDFNumber.of(8)
+      delete entries.Decode
+    }
+  }
+  if (!samples || !components) return null
+
+  const bitsPerPixel = components * bitsPerComponent
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8)
+  if (samples.length < rowBytes * height) return null
+  const out = samples.slice(0, rowBytes * height)
+  // Image space maps the unit square onto the page; row 0 is the top of the image
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const [x, y] = apply(ctm, (col + 0.5) / width, 1 - (row + 0.5) / height)
+      if (!ctx.areas.some((area) => containsPoint(area, x, y))) continue
+      const bitStart = row * rowBytes * 8 + col * bitsPerPixel
+      for (let bit = bitStart; bit < bitStart + bitsPerPixel; bit++) out[bit >> 3] &= ~(0x80 >> (bit & 7))
+    }
+  }
+
+  const softMask = dict.lookup(PDFName.of('SMask'))
+  if (softMask instanceof PDFRawStream) {
+    const maskRef = await redactImage(softMask, ctm, ctx)
+    if (maskRef) entries.SMask = maskRef
+    else delete entries.SMask
+  }
+  return ctx.doc.context.register(ctx.doc.context.flateStream(out, entries))
+}
+
+// ---------------------------------------------------------------------------
+// Content
+// ---------------------------------------------------------------------------
+
+interface GraphicsState {
+  ctm: Matrix
+  font?: FontMetrics
+  fontSize: number
+  charSpacing: number
+  wordSpacing: number
+  horizontalScale: number
+  leading: number
+  rise: number
+}
+
+interface Subpath {
+  ops: Operation[]
+  points: Array<[number, number]>
+}
+
+const PATH_CONSTRUCTION = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're'])
+const PATH_PAINTING = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n'])
+
+const pointsOf = (op: Operation): Array<[number, number]> => {
+  const values = op.operands.map((o) => (o.kind === 'number' ? o.value : 0))
+  if (op.operator === 're') {
+    const [x, y, w, h] = values
+    return [[x, y], [x + w, y], [x, y + h], [x + w, y + h]]
+  }
+  const points: Array<[number, number]> = []
+  for (let i = 0; i + 1 < values.length; i += 2) points.push([values[i], values[i + 1]])
+  return points
+}
+
+/** A resource dictionary entry, e.g. `/Font /F1` */
+const resourceOf = (resources: PDFDict | undefined, category: string, name: string) => {
+  const group = resources?.lookupMaybe(PDFName.of(category), PDFDict)
+  return group?.lookup(PDFName.of(name))
+}
+
+/** Register `ref` under a fresh name in the resources' XObject dictionary */
+const addXObject = (resources: PDFDict, ref: PDFRef) => {
+  let group = resources.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  if (!group) {
+    group = resources.context.obj({})
+    resources.set(PDFName.of('XObject'), group)
+  }
+  const name = group.uniqueKey('Redacted')
+  group.set(name, ref)
+  return name.decodeText()
+}
+
+/**
+ * Copy of `resources` whose XObject dictionary only lists what `operations`
+ * draw, so replaced originals become unreachable and are not saved.
+ */
+const withUsedXObjects = (resources: PDFDict, operations: Operation[]) => {
+  const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  if (!xObjects) return resources
+  const used = new Set(operations.flatMap((op) => (op.operator === 'Do' && op.operands[0]?.kind === 'name' ? [op.operands[0].value] : [])))
+  const kept = resources.context.obj({})
+  for (const [key, value] of xObjects.entries()) {
+    if (used.has(key.decodeText())) kept.set(key, value)
+  }
+  const copy = resources.clone()
+  copy.set(PDFName.of('XObject'), kept)
+  return copy
+}
+
+interface ContentResult {
+  operations: Operation[]
+  changed: boolean
+  // Unmatched `q` operators left open at the end
+  openStates: number
+}
+
+const redactOperations = async (
+  operations: Operation[],
+  resources: PDFDict | undefined,
+  baseCtm: Matrix,
+  ctx: RedactionContext,
+  depth: number,
+): Promise<ContentResult> => {
+  const out: Operation[] = []
+  let changed = false
+  let state: GraphicsState = { ctm: baseCtm, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 }
+  const stack: GraphicsState[] = []
+  let textMatrix: Matrix = IDENTITY
+  let lineMatrix: Matrix = IDENTITY
+  let path: Subpath[] = []
+  let pathOps: Operation[] = []
+  let clip: Operation | null = null
+
+  const nextLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix)
+    textMatrix = lineMatrix
+  }
+
+  /** Show `strings` (and TJ offsets); returns the rewritten TJ items when glyphs were removed */
+  const showText = (items: Operand[]): Operand[] | null => {
+    const font = state.font ?? fontMetrics(undefined)
+    const { fontSize, horizontalScale: scale } = state
+    const unitsPerAdvance = fontSize * scale ? 1000 / (fontSize * scale) : 0
+    const kept: Operand[] = []
+    let pending = 0
+    let removed = 0
+    for (const item of items) {
+      if (item.kind === 'number') {
+        textMatrix = multiply([1, 0, 0, 1, (-item.value / 1000) * fontSize * scale, 0], textMatrix)
+        pending += item.value
+        continue
+      }
+      if (item.kind !== 'string') continue
+      let run: number[] = []
+      const flush = () => {
+        if (!run.length) return
+        if (pending) kept.push(numberOperand(pending))
+        pending = 0
+        kept.push(stringOperand(run))
+        run = []
+      }
+      for (let i = 0; i + font.bytesPerCode <= item.bytes.length; i += font.bytesPerCode) {
+        const code = font.bytesPerCode === 2 ? (item.bytes[i] << 8) | item.bytes[i + 1] : item.bytes[i]
+        const width = font.widthOf(code) / 1000
+        const trm = multiply([fontSize * scale, 0, 0, fontSize, 0, state.rise], multiply(textMatrix, state.ctm))
+        const box = transformedBox(trm, 0, GLYPH_DESCENT, width, GLYPH_ASCENT)
+        const centerX = (box.left + box.right) / 2
+        const centerY = (box.bottom + box.top) / 2
+        const spacing = state.charSpacing + (font.bytesPerCode === 1 && code === 32 ? state.wordSpacing : 0)
+        const advance = (width * fontSize + spacing) * scale
+        textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix)
+        if (ctx.areas.some((area) => containsPoint(area, centerX, centerY))) {
+          flush()
+          // Keep the following glyphs where they were
+          pending -= advance * unitsPerAdvance
+          removed++
+        } else {
+          run.push(...item.bytes.slice(i, i + font.bytesPerCode))
+        }
+      }
+      flush()
+    }
+    if (!removed) return null
+    if (pending) kept.push(numberOperand(pending))
+    ctx.stats.glyphs += removed
+    return kept
+  }
+
+  const paintPath = (paint: Operation) => {
+    const construction = pathOps
+    const subpaths = path
+    pathOps = []
+    path = []
+    const clipOp = clip
+    clip = null
+    // Clipping paths shape other content; keep them whole
+    if (clipOp || paint.operator === 'n') {
+      out.push(...construction, ...(clipOp ? [clipOp] : []), paint)
+      return
+    }
+    const kept = subpaths.filter((sub) => !sub.points.length || !ctx.areas.some((area) => containsBox(area, boxOf(sub.points))))
+    if (kept.length === subpaths.length) {
+      out.push(...construction, paint)
+      return
+    }
+    changed = true
+    ctx.stats.paths += subpaths.length - kept.length
+    if (kept.length) out.push(...kept.flatMap((sub) => sub.ops), paint)
+  }
+
+  for (const op of operations) {
+    const { operator, operands } = op
+    const num = (i: number) => {
+      const operand = operands[i]
+      return operand?.kind === 'number' ? operand.value : 0
+    }
+
+    if (PATH_CONSTRUCTION.has(operator)) {
+      pathOps.push(op)
+      const points = pointsOf(op).map(([x, y]) => apply(state.ctm, x, y))
+      const current = path[path.length - 1]
+      if (operator === 'm' || operator === 're' || !current) path.push({ ops: [op], points })
+      else {
+        current.ops.push(op)
+        current.points.push(...points)
+      }
+      // A rectangle is a closed subpath of its own
+      if (operator === 're') path.push({ ops: [], points: [] })
+      continue
+    }
+    if (operator === 'W' || operator === 'W*') {
+      clip = op
+      continue
+    }
+    if (PATH_PAINTING.has(operator)) {
+      path = path.filter((sub) => sub.ops.length)
+      paintPath(op)
+      continue
+    }
+
+    switch (operator) {
+      case 'q':
+        stack.push(state)
+        state = { ...state }
+        break
+      case 'Q':
+        state = stack.pop() ?? state
+        break
+      case 'cm':
+        state = { ...state, ctm: multiply([num(0), num(1), num(2), num(3), num(4), num(5)], state.ctm) }
+        break
+      case 'BT':
+        textMatrix = IDENTITY
+        lineMatrix = IDENTITY
+        break
+      case 'Tf': {
+        const name = operands[0]?.kind === 'name' ? operands[0].value : ''
+        const font = resourceOf(resources, 'Font', name)
+        state = { ...state, font: fontMetrics(font instanceof PDFDict ? font : undefined), fontSize: num(1) }
+        break
+      }
+      case 'Tc':
+        state = { ...state, charSpacing: num(0) }
+        break
+      case 'Tw':
+        state = { ...state, wordSpacing: num(0) }
+        break
+      case 'Tz':
+        state = { ...state, horizontalScale: num(0) / 100 }
+        break
+      case 'TL':
+        state = { ...state, leading: num(0) }
+        break
+      case 'Ts':
+        state = { ...state, rise: num(0) }
+        break
+      case 'Td':
+        nextLine(num(0), num(1))
+        break
+      case 'TD':
+        state = { ...state, leading: -num(1) }
+        nextLine(num(0), num(1))
+        break
+      case 'Tm':
+        lineMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)]
+        textMatrix = lineMatrix
+        break
+      case 'T*':
+        nextLine(0, -state.leading)
+        break
+      case 'Tj':
+      case 'TJ':
+      case "'":
+      case '"': {
+        const prefix: Operation[] = []
+        if (operator === '"') {
+          state = { ...state, wordSpacing: num(0), charSpacing: num(1) }
+          prefix.push({ operator: 'Tw', operands: [operands[0]] }, { operator: 'Tc', operands: [operands[1]] })
+        }
+        if (operator === "'" || operator === '"') {
+          nextLine(0, -state.leading)
+          prefix.push({ operator: 'T*', operands: [] })
+        }
+        const shown = operands[operands.length - 1]
+        const items = shown?.kind === 'array' ? shown.items : shown ? [shown] : []
+        const rewritten = showText(items)
+        if (!rewritten) {
+          out.push(op)
+          continue
+        }
+        changed = true
+        out.push(...prefix, { operator: 'TJ', operands: [arrayOperand(rewritten)] })
+        continue
+      }
+      case 'Do': {
+        const name = operands[0]?.kind === 'name' ? operands[0].value : ''
+        const ref = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)?.get(PDFName.of(name))
+        const xObject = ref instanceof PDFRef ? ctx.doc.context.lookup(ref) : ref
+        if (!(xObject instanceof PDFRawStream) || !resources) break
+        const subtype = nameOf(xObject.dict.lookup(PDFName.of('Subtype')))
+        if (subtype === 'Image') {
+          if (!ctx.areas.some((area) => overlaps(area, transformedBox(state.ctm, 0, 0, 1, 1)))) break
+          changed = true
+          ctx.stats.images++
+          const redacted = await redactImage(xObject, state.ctm, ctx)
+          // Images that cannot be edited are removed from the page
+          if (redacted) out.push({ operator: 'Do', operands: [nameOperand(addXObject(resources, redacted))] })
+          continue
+        }
+        if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+          const matrix = numbersOf(xObject.dict.lookup(PDFName.of('Matrix')))
+          const formCtm = multiply(matrix.length === 6 ? (matrix as Matrix) : IDENTITY, state.ctm)
+          const [x1, y1, x2, y2] = numbersOf(xObject.dict.lookup(PDFName.of('BBox')))
+          if (!ctx.areas.some((area) => overlaps(area, transformedBox(formCtm, x1 ?? 0, y1 ?? 0, x2 ?? 0, y2 ?? 0)))) break
+          const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources
+          const result = await redactOperations(parseOperations(streamText(xObject)), formResources, formCtm, ctx, depth + 1)
+          if (!result.changed) break
+          const entries: Record<string, PDFObject> = {}
+          for (const [key, value] of xObject.dict.entries()) {
+            if (!ENCODING_ENTRIES.has(key.decodeText())) entries[key.decodeText()] = value
+          }
+          if (formResources !== resources) entries.Resources = withUsedXObjects(formResources, result.operations)
+          const content = `${serializeOperations(result.operations)}\n${'Q\n'.repeat(result.openStates)}`
+          const formRef = ctx.doc.context.register(ctx.doc.context.flateStream(textBytes(content), entries))
+          changed = true
+          out.push({ operator: 'Do', operands: [nameOperand(addXObject(resources, formRef))] })
+          continue
+        }
+        break
+      }
+      case 'BI': {
+        // Inline images are small; drop any that touch an area
+        if (ctx.areas.some((area) => overlaps(area, transformedBox(state.ctm, 0, 0, 1, 1)))) {
+          changed = true
+          ctx.stats.images++
+          continue
+        }
+        break
+      }
+      default:
+        break
+    }
+    out.push(op)
+  }
+  // Unpainted path construction at the end of damaged content
+  out.push(...pathOps)
+  return { operations: out, changed, openStates: stack.length }
+}
+
+const contentStreamsOf = (page: PDFPage): PDFStream[] => {
+  const contents = page.node.Contents()
+  if (contents instanceof PDFStream) return [contents]
+  if (!(contents instanceof PDFArray)) return []
+  return contents.asArray()
+    .map((item) => (item instanceof PDFRef ? page.doc.context.lookup(item) : item))
+    .filter((item): item is PDFStream => item instanceof PDFStream)
+}
+
+// The field a widget shows: the widget itself when merged with its field, else its /Parent
+const widgetField = (doc: PDFDocument, ref: PDFRef) => {
+  const widget = doc.context.lookup(ref, PDFDict)
+  const parent = widget.get(PDFName.of('Parent'))
+  return widget.has(PDFName.of('T')) || !(parent instanceof PDFRef) ? ref : parent
+}
+
+/**
+ * Take a field out of the form: clear its value, drop its widgets from every
+ * page and unlink it from its parent (and empty parents from theirs) or from
+ * the form's /Fields. Other widgets of the field would still show the value.
+ */
+const removeField = (doc: PDFDocument, fields: PDFArray | undefined, fieldRef: PDFRef) => {
+  const field = doc.context.lookup(fieldRef, PDFDict)
+  field.delete(PDFName.of('V'))
+  field.delete(PDFName.of('DV'))
+  const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray)
+  const widgets = kids ? kids.asArray().filter((kid): kid is PDFRef => kid instanceof PDFRef) : [fieldRef]
+  doc.getPages().forEach((page) => widgets.forEach((widget) => page.node.removeAnnot(widget)))
+
+  let node = fieldRef
+  for (let depth = 0; depth < 32; depth++) {
+    const parentRef = doc.context.lookup(node, PDFDict).get(PDFName.of('Parent'))
+    const siblings = parentRef instanceof PDFRef ? doc.context.lookupMaybe(parentRef, PDFDict)?.lookupMaybe(PDFName.of('Kids'), PDFArray) : undefined
+    if (!(parentRef instanceof PDFRef) || !siblings) {
+      const index = fields?.indexOf(node)
+      if (fields && index !== undefined) fields.remove(index)
+      return
+    }
+    const index = siblings.indexOf(node)
+    if (index !== undefined) siblings.remove(index)
+    if (siblings.size()) return
+    node = parentRef
+  }
+}
+
+/**
+ * Remove annotations (links, comments, form widgets) overlapping an area.
+ * A widget takes its whole field with it, value included.
+ */
+const removeAnnotations = (page: PDFPage, areas: RedactionArea[]) => {
+  const annots = page.node.Annots()
+  if (!annots) return 0
+  const fields = page.doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)?.lookupMaybe(PDFName.of('Fields'), PDFArray)
+  const hits: PDFObject[] = []
+  for (let i = 0; i < annots.size(); i++) {
+    const annot = annots.lookup(i)
+    if (!(annot instanceof PDFDict)) continue
+    const [x1, y1, x2, y2] = numbersOf(annot.lookup(PDFName.of('Rect')))
+    const box = { left: Math.min(x1, x2), right: Math.max(x1, x2), bottom: Math.min(y1, y2), top: Math.max(y1, y2) }
+    if (areas.some((area) => overlaps(area, box))) hits.push(annots.get(i))
+  }
+  const before = annots.size()
+  const removedFields = new Set<PDFRef>()
+  for (const entry of hits) {
+    const annot = entry instanceof PDFRef ? page.doc.context.lookup(entry) : entry
+    if (entry instanceof PDFRef && annot instanceof PDFDict && annot.get(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+      const field = widgetField(page.doc, entry)
+      if (!removedFields.has(field)) removeField(page.doc, fields, field)
+      removedFields.add(field)
+    } else {
+      const index = annots.indexOf(entry)
+      if (index !== undefined) annots.remove(index)
+    }
+  }
+  return before - annots.size()
+}
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000)
+
+/**
+ * Redact `areas` on one page: rewrite its content without what lies under
+ * them, drop overlapping annotations and paint each area's fill on top.
+ */
+export const redactPage = async (
+  doc: PDFDocument,
+  page: PDFPage,
+  areas: RedactionArea[],
+  options: { decodeImage?: ImageDecoder } = {},
+): Promise<RedactionStats> => {
+  const stats: RedactionStats = { glyphs: 0, images: 0, paths: 0, annotations: 0 }
+  if (!areas.length) return stats
+  // Own copies of inherited resources, so new XObject names stay on this page
+  page.node.normalize()
+  const ctx: RedactionContext = { doc, areas, stats, decodeImage: options.decodeImage }
+  const text = contentStreamsOf(page).map(streamText).join('\n')
+  const resources = page.node.Resources()
+  const result = await redactOperations(parseOperations(text), resources, IDENTITY, ctx, 0)
+  if (resources && result.changed) page.node.set(PDFName.of('Resources'), withUsedXObjects(resources, result.operations))
+
+  const fills = areas.map((area) => {
+    const { r, g, b } = area.color ?? { r: 0, g: 0, b: 0 }
+    return `q ${fmt(r)} ${fmt(g)} ${fmt(b)} rg ${fmt(area.x)} ${fmt(area.y)} ${fmt(area.width)} ${fmt(area.height)} re f Q`
+  })
+  const content = `q\n${serializeOperations(result.operations)}\n${'Q\n'.repeat(result.openStates)}Q\n${fills.join('\n')}\n`
+  page.node.set(PDFName.of('Contents'), doc.context.register(doc.context.flateStream(textBytes(content))))
+  stats.annotations = removeAnnotations(page, areas)
+  return stats
+}
+
+// ---------------------------------------------------------------------------
+// Document cleanup
+// ---------------------------------------------------------------------------
+
+const decodedText = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined
+
+/**
+ * Remove document info entries and XMP metadata that mention any redacted
+ * text. Returns the number of entries removed.
+ */
+export const stripRedactedMetadata = (doc: PDFDocument, texts: string[]): number => {
+  const needles = [...new Set(texts.map((t) => t.replace(/\s+/g, ' ').trim().toLowerCase()))].filter((t) => t.length >= 3)
+  if (!needles.length) return 0
+  const mentions = (value: string) => {
+    const haystack = value.replace(/\s+/g, ' ').toLowerCase()
+    return needles.some((needle) => haystack.includes(needle))
+  }
+  let removed = 0
+  const infoRef = doc.context.trailerInfo.Info
+  const info = infoRef instanceof PDFRef ? doc.context.lookup(infoRef) : infoRef
+  if (info instanceof PDFDict) {
+    for (const [key, value] of info.entries()) {
+      const text = decodedText(value instanceof PDFRef ? doc.context.lookup(value) : value)
+      if (text && mentions(text)) {
+        info.delete(key)
+        removed++
+      }
+    }
+  }
+  const metadata = doc.catalog.lookup(PDFName.of('Metadata'))
+  if (metadata instanceof PDFStream) {
+    let xmp = ''
+    try {
+      xmp = new TextDecoder().decode(textBytes(streamText(metadata)))
+    } catch {
+      xmp = ''
+    }
+    if (mentions(xmp)) {
+      doc.catalog.delete(PDFName.of('Metadata'))
+      removed++
+    }
+  }
+  return removed
+}
+
+/**
+ * Delete objects no longer reachable from the trailer, so replaced content
+ * streams and images are not written to the saved file.
+ */
+export const removeUnreachableObjects = (doc: PDFDocument) => {
+  const { context } = doc
+  const reached = new Set<PDFRef>()
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info, context.trailerInfo.Encrypt]
+    .filter((obj): obj is PDFObject => !!obj)
+  while (pending.length) {
+    const obj = pending.pop()!
+    if (obj instanceof PDFRef) {
+      if (reached.has(obj)) continue
+      reached.add(obj)
+      const target = context.lookup(obj)
+      if (target) pending.push(target)
+    } else if (obj instanceof PDFDict) {
+      for (const [, value] of obj.entries()) pending.push(value)
+    } else if (obj instanceof PDFArray) {
+      pending.push(...obj.asArray())
+    } else if (obj instanceof PDFStream) {
+      pending.push(obj.dict)
+    }
+  }
+  let removed = 0
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (reached.has(ref)) continue
+    context.delete(ref)
+    removed++
+  }
+  return removed
+}
@@ -0,0 +1,68 @@
+/**
+ * Shared pdf.js canvas rendering for page views that mount many canvases
+ */
+
+import { AnnotationMode } from 'pdfjs-dist/legacy/build/pdf.js'
+import type { PDFRef } from 'pdf-lib'
+
+export interface PageRenderHandle {
+  promise: Promise<void>
+  cancel: () => void
+}
+
+/** pdf.js rejects cancelled render tasks; callers treat these as benign. */
+export const isRenderCancelled = (err: unknown): boolean => {
+  const message = String((err as any)?.message || err).toLowerCase()
+  return message.includes('canceled') || message.includes('cancelled') || message.includes('renderingcancelledexception')
+}
+
+/** pdf.js names annotations by their object reference, e.g. "12R" */
+export const pdfJsAnnotationId = (ref: PDFRef) =>
+  ref.generationNumber ? `${ref.objectNumber}R${ref.generationNumber}` : `${ref.objectNumber}R`
+
+/**
+ * Keep pdf.js from drawing the file's own copies of annotations that the
+ * annotation layer shows. Pages must render with `AnnotationMode.ENABLE_STORAGE`.
+ */
+export const hideFileAnnotations = (pdf: any, refs: PDFRef[]) => {
+  refs.forEach((ref) => pdf.annotationStorage?.setValue(pdfJsAnnotationId(ref), { noView: true }))
+}
+
+/**
+ * Render a pdf.js page into `canvas` at `scale`, sized for the device pixel
+ * ratio. The canvas CSS size is the floored viewport size.
+ */
+export const renderPageToCanvas = (page: any, canvas: HTMLCanvasElement, scale: number): PageRenderHandle => {
+  const viewport = page.getViewport({ scale })
+  const displayWidth = Math.max(1, Math.floor(viewport.width))
+  const displayHeight = Math.max(1, Math.floor(viewport.height))
+  const dpr = window.devicePixelRatio || 1
+  const internalWidth = Math.floor(displayWidth * dpr)
+  const internalHeight = Math.floor(displayHeight * dpr)
+
+  if (canvas.width !== internalWidth) canvas.width = internalWidth
+  if (canvas.height !== internalHeight) canvas.height = internalHeight
+  canvas.style.width = `${displayWidth}px`
+  canvas.style.height = `${displayHeight}px`
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return { promise: Promise.resolve(), cancel: () => { } }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, internalWidth, internalHeight)
+  if (dpr !== 1) ctx.scale(dpr, dpr)
+
+  const task = page.render({ canvasContext: ctx, viewport, annotationMode: AnnotationMode.ENABLE_STORAGE })
+  return {
+    promise: Promise.resolve(task.promise),
+    cancel: () => {
+      try {
+        const result = task.cancel?.()
+        if (result && typeof result.catch === 'function') result.catch(() => { })
+      } catch {
+        // Ignore cancellation errors
+      }
+    },
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * PAdES signing: a signature field, a signature dictionary with a
+ * placeholder for the CMS signature, and the signature itself over the
+ * `/ByteRange` digest. Everything is written as an incremental update, so
+ * the bytes already in the file (and any earlier signatures) stay valid.
+ *
+ * Verification reads each signed field back and checks its CMS signature
+ * over the byte range, the signer's chain, and whether the file goes on
+ * past what was signed.
+ */
+
+import { PDFAcroField, PDFAcroTerminal, PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFRef, PDFStream, PDFString } from 'pdf-lib'
+import type { Annotation } from '../types/annotations'
+import { concatBytes } from './asn1'
+import { createDetachedSignature, validateCertificateChain, verifySignedData } from './cms'
+import { signatureAppearance } from './pdfAnnotations'
+import { subtleCrypto, type SigningIdentity } from './pkcs12'
+import type { Certificate } from './x509'
+
+export interface SignPdfOptions {
+  // Unsigned signature field to sign; a new field is added when omitted
+  fieldName?: string
+  // Drawn signature shown in the field. A new field is placed over it; without it the signature is invisible
+  appearance?: Annotation
+  reason?: string
+  location?: string
+  contactInfo?: string
+  signingTime?: Date
+}
+
+export interface SignatureFieldInfo {
+  name: string
+  signed: boolean
+}
+
+export interface PdfSignature {
+  fieldName: string
+  // 1-based page of the signature's widget
+  page?: number
+  signerName: string
+  // Claimed by the signer (CMS signing time, else the dictionary's /M); shown, not trusted
+  signingTime?: Date
+  reason?: string
+  location?: string
+  subFilter: string
+  // Signer first
+  chain: Certificate[]
+  // The signed bytes are unchanged and the signature over them verifies
+  valid: boolean
+  // The signer's certificate leads to a trust anchor
+  trusted: boolean
+  // The file continues past the signed bytes: later revisions changed or added to it
+  modifiedAfterSigning: boolean
+  // Why the signature is not valid or not trusted
+  problem?: string
+}
+
+// Wide enough for any ByteRange the file can need, rewritten in place once offsets are known
+const BYTE_RANGE_PLACEHOLDER = [0, 9999999999, 9999999999, 9999999999]
+// Room for the CMS structure, signed attributes and signature beyond the certificates
+const CONTENTS_SLACK = 4096
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+const isSignatureField = (field: PDFAcroField) => field.getInheritableAttribute(PDFName.of('FT')) === PDFName.of('Sig')
+
+/** Signature fields of `doc`, in form order */
+export const readSignatureFields = (doc: PDFDocument): SignatureFieldInfo[] =>
+  (doc.catalog.getAcroForm()?.getAllFields() ?? [])
+    .filter(([field]) => field instanceof PDFAcroTerminal && isSignatureField(field))
+    .map(([field]) => ({ name: field.getFullyQualifiedName() ?? '', signed: !!field.V() }))
+
+// Zero-based page holding `widget` (its `/P`, or the page listing it in `/Annots`)
+const pageIndexOf = (doc: PDFDocument, widget: PDFDict, widgetRef: PDFRef | undefined) => {
+  const pages = doc.getPages()
+  const owner = widget.get(PDFName.of('P'))
+  const byOwner = pages.findIndex((page) => page.ref === owner)
+  if (byOwner >= 0) return byOwner
+  return pages.findIndex((page) => {
+    const annots = page.node.Annots()
+    if (!annots) return false
+    for (let i = 0; i < annots.size(); i++) {
+      if (annots.get(i) === widgetRef || annots.lookup(i) === widget) return true
+    }
+    return false
+  })
+}
+
+interface SignatureWidget {
+  field: PDFDict
+  widget: PDFDict
+  widgetRef?: PDFRef
+}
+
+// Fields with a single widget are usually merged with it
+const signatureWidget = (field: PDFAcroField, ref: PDFRef): SignatureWidget => {
+  const kids = field.Kids()
+  if (!kids || !kids.size()) return { field: field.dict, widget: field.dict, widgetRef: ref }
+  const widgetRef = kids.get(0)
+  return { field: field.dict, widget: kids.lookup(0, PDFDict), widgetRef: widgetRef instanceof PDFRef ? widgetRef : undefined }
+}
+
+const findUnsignedField = (doc: PDFDocument, name: string): SignatureWidget => {
+  const acroForm = doc.catalog.getAcroForm()
+  const match = acroForm?.getAllFields().find(([field]) => field.getFullyQualifiedName() === name)
+  if (!match || !isSignatureField(match[0])) {
+    throw new Error(`The document has no signature field named "${name}"`)
+  }
+  if (match[0].V()) throw new Error(`"${name}" is already signed`)
+  return signatureWidget(match[0], match[1])
+}
+
+const nextSignatureName = (doc: PDFDocument) => {
+  const taken = new Set(doc.catalog.getAcroForm()?.getAllFields().map(([field]) => field.getFullyQualifiedName()))
+  let index = 1
+  while (taken.has(`Signature${index}`)) index++
+  return `Signature${index}`
+}
+
+/** A new signature field: over the drawn signature, or invisible on the first page */
+const addSignatureField = (doc: PDFDocument, appearance: Annotation | undefined): SignatureWidget => {
+  const pages = doc.getPages()
+  const page = (appearance && pages[appearance.page - 1]) || pages[0]
+  if (!page) throw new Error('The document has no pages')
+  const widget = doc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFHexString.fromText(nextSignatureName(doc)),
+    Rect: [0, 0, 0, 0],
+    F: 4,
+    P: page.ref,
+  })
+  const widgetRef = doc.context.register(widget)
+  page.node.addAnnot(widgetRef)
+  doc.catalog.getOrCreateAcroForm().addField(widgetRef)
+  return { field: widget, widget, widgetRef }
+}
+
+/**
+ * Put the drawn signature into the widget. Existing fields keep their
+ * rectangle and the image is fitted into it; new fields take the drawing's box.
+ */
+const setWidgetAppearance = async (doc: PDFDocument, target: SignatureWidget, appearance: Annotation, isNew: boolean) => {
+  const index = isNew ? appearance.page - 1 : pageIndexOf(doc, target.widget, target.widgetRef)
+  const page = doc.getPages()[index]
+  if (!page) return
+  const { width, height } = page.getSize()
+  let placed = appearance
+  if (!isNew) {
+    const rect = target.widget.lookup(PDFName.of('Rect'), PDFArray).asRectangle()
+    if (rect.width <= 0 || rect.height <= 0) return
+    placed = {
+      ...appearance,
+      page: index + 1,
+      startX: rect.x / width,
+      startY: 1 - (rect.y + rect.height) / height,
+      endX: (rect.x + rect.width) / width,
+      endY: 1 - rect.y / height,
+    }
+  }
+  const drawn = await signatureAppearance(doc, placed, width, height)
+  if (!drawn) return
+  if (isNew) target.widget.set(PDFName.of('Rect'), doc.context.obj([drawn.box.x, drawn.box.y, drawn.box.x + drawn.box.width, drawn.box.y + drawn.box.height]))
+  target.widget.set(PDFName.of('AP'), doc.context.obj({ N: drawn.ref }))
+}
+
+const serialize = (object: PDFObject) => {
+  const bytes = new Uint8Array(object.sizeInBytes())
+  object.copyBytesInto(bytes, 0)
+  return bytes
+}
+
+// Offset of the cross-reference section the file currently ends with
+const lastStartXref = (bytes: Uint8Array) => {
+  const tail = latin1(bytes.subarray(Math.max(0, bytes.length - 1024)))
+  const match = /startxref\s+(\d+)\s*%%EOF\s*$/.exec(tail) ?? [...tail.matchAll(/startxref\s+(\d+)/g)].pop()
+  if (!match) throw new Error('The PDF has no cross-reference table')
+  return Number(match[1])
+}
+
+// Consecutive runs of object numbers, as cross-reference subsections
+const subsections = (numbers: number[]) => {
+  const runs: number[][] = []
+  for (const number of numbers) {
+    const run = runs[runs.length - 1]
+    if (run && run[run.length - 1] === number - 1) run.push(number)
+    else runs.push([number])
+  }
+  return runs
+}
+
+/**
+ * Append `objects` to `original` as an incremental update, with the same kind
+ * of cross-reference section (table or stream) the file already uses.
+ */
+const appendUpdate = (doc: PDFDocument, original: Uint8Array, objects: Array<[PDFRef, PDFObject]>) => {
+  const prev = lastStartXref(original)
+  const usesXrefStream = !latin1(original.subarray(prev, prev + 4)).startsWith('xref')
+  const separator = original[original.length - 1] === 0x0a ? '' : '\n'
+  const parts: Uint8Array[] = [original, ascii(separator)]
+  let offset = original.length + separator.length
+  const offsets = new Map<number, number>()
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes)
+    offset += bytes.length
+  }
+
+  const sorted = [...objects].sort(([a], [b]) => a.objectNumber - b.objectNumber)
+  for (const [ref, object] of sorted) {
+    offsets.set(ref.objectNumber, offset)
+    push(ascii(`${ref.objectNumber} ${ref.generationNumber} obj\n`))
+    push(serialize(object))
+    push(ascii('\nendobj\n'))
+  }
+
+  const { Root, Info, ID } = doc.context.trailerInfo
+  const originalId = ID instanceof PDFArray ? ID.get(0) : undefined
+  const updateId = PDFHexString.of(toHex(crypto.getRandomValues(new Uint8Array(16))))
+  const trailer: Record<string, PDFObject | undefined> = {
+    Root,
+    Info,
+    ID: doc.context.obj([originalId ?? updateId, updateId]),
+    Prev: PDFNumber.of(prev),
+  }
+  const generations = new Map(sorted.map(([ref]) => [ref.objectNumber, ref.generationNumber]))
+  const xrefOffset = offset
+
+  if (usesXrefStream) {
+    const streamNumber = Math.max(doc.context.largestObjectNumber, ...offsets.keys()) + 1
+    offsets.set(streamNumber, xrefOffset)
+    generations.set(streamNumber, 0)
+    const numbers = [...offsets.keys()].sort((a, b) => a - b)
+    // Entries of type 1 (in use, at an offset): W [1 4 2]
+    const data = new Uint8Array(numbers.length * 7)
+    numbers.forEach((number, i) => {
+      const entry = offsets.get(number)!
+      const generation = generations.get(number)!
+      data.set([1, entry >>> 24, (entry >>> 16) & 0xff, (entry >>> 8) & 0xff, entry & 0xff, generation >> 8, generation & 0xff], i * 7)
+    })
+    const runs = subsections(numbers)
+    const stream = doc.context.stream(data, {
+      ...trailer,
+      Type: 'XRef',
+      Size: streamNumber + 1,
+      W: [1, 4, 2],
+      Index: runs.flatMap((run) => [run[0], run.length]),
+    })
+    push(ascii(`${streamNumber} 0 obj\n`))
+    push(serialize(stream))
+    push(ascii('\nendobj\n'))
+  } else {
+    const numbers = [...offsets.keys()].sort((a, b) => a - b)
+    const size = Math.max(doc.context.largestObjectNumber, ...numbers) + 1
+    let table = 'xref\n'
+    for (const run of subsections(numbers)) {
+      table += `${run[0]} ${run.length}\n`
+      for (const number of run) {
+        table += `${String(offsets.get(number)).padStart(10, '0')} ${String(generations.get(number)).padStart(5, '0')} n\r\n`
+      }
+    }
+    push(ascii(table))
+    push(ascii('trailer\n'))
+    push(serialize(doc.context.obj({ ...trailer, Size: size })))
+    push(ascii('\n'))
+  }
+  push(ascii(`startxref\n${xrefOffset}\n%%EOF\n`))
+  return concatBytes(...parts)
+}
+
+/**
+ * Remember the objects of `doc` as loaded from `bytes`. The returned function
+ * appends what changed since as an incremental update, leaving the signatures
+ * of `bytes` valid. Existing streams are expected to be replaced, not edited.
+ */
+export const trackChanges = (doc: PDFDocument, bytes: Uint8Array) => {
+  const before = new Map<PDFRef, string>()
+  doc.context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (!(object instanceof PDFStream)) before.set(ref, object.toString())
+  })
+  const largestObjectNumber = doc.context.largestObjectNumber
+  return async () => {
+    await doc.flush()
+    const changed = doc.context.enumerateIndirectObjects().filter(([ref, object]) =>
+      ref.objectNumber > largestObjectNumber || (!(object instanceof PDFStream) && before.get(ref) !== object.toString()))
+    return appendUpdate(doc, bytes, changed)
+  }
+}
+
+/**
+ * Sign `bytes` with `identity`: fill (or add) a signature field, append it as
+ * an incremental update and embed a detached CMS signature (PAdES baseline,
+ * `ETSI.CAdES.detached`) over everything but the signature itself.
+ */
+export const signPdf = async (bytes: Uint8Array, identity: SigningIdentity, options: SignPdfOptions = {}): Promise<Uint8Array> => {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
+  if (doc.isEncrypted) throw new Error('Encrypted documents cannot be signed')
+
+  // Existing objects are rewritten in the update only when signing changes them
+  const appendChanges = trackChanges(doc, bytes)
+
+  const isNew = !options.fieldName
+  const target = options.fieldName ? findUnsignedField(doc, options.fieldName) : addSignatureField(doc, options.appearance)
+  if (options.appearance) await setWidgetAppearance(doc, target, options.appearance, isNew)
+  else if (isNew) target.widget.set(PDFName.of('AP'), doc.context.obj({ N: doc.context.register(doc.context.formXObject([], { BBox: [0, 0, 0, 0] })) }))
+
+  const contentsSize = identity.chain.reduce((sum, cert) => sum + cert.der.length, 0) + CONTENTS_SLACK
+  const signature: Record<string, any> = {
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: BYTE_RANGE_PLACEHOLDER,
+    Contents: PDFHexString.of('0'.repeat(contentsSize * 2)),
+    M: PDFString.fromDate(options.signingTime ?? new Date()),
+    Name: PDFHexString.fromText(identity.certificate.commonName),
+  }
+  if (options.reason) signature.Reason = PDFHexString.fromText(options.reason)
+  if (options.location) signature.Location = PDFHexString.fromText(options.location)
+  if (options.contactInfo) signature.ContactInfo = PDFHexString.fromText(options.contactInfo)
+  target.field.set(PDFName.of('V'), doc.context.register(doc.context.obj(signature)))
+  // SignaturesExist | AppendOnly
+  doc.catalog.getOrCreateAcroForm().dict.set(PDFName.of('SigFlags'), PDFNumber.of(3))
+
+  const output = await appendChanges()
+
+  // Locate the placeholders in the update, then fill in the real byte range and signature
+  const update = latin1(output.subarray(bytes.length))
+  const rangeMatch = /\/ByteRange\s*\[\s*0 9999999999 9999999999 9999999999\s*\]/.exec(update)
+  const contentsMatch = new RegExp(`/Contents\\s*<(0{${contentsSize * 2}})>`).exec(update)
+  if (!rangeMatch || !contentsMatch) throw new Error('Could not place the signature')
+  const contentsStart = bytes.length + contentsMatch.index + contentsMatch[0].length - contentsSize * 2 - 2
+  const contentsEnd = contentsStart + contentsSize * 2 + 2
+  const byteRange = [0, contentsStart, contentsEnd, output.length - contentsEnd]
+  const rangeText = `/ByteRange [${byteRange.join(' ')}]`.padEnd(rangeMatch[0].length, ' ')
+  output.set(ascii(rangeText), bytes.length + rangeMatch.index)
+
+  const digest = new Uint8Array(await subtleCrypto().digest(identity.hash, concatBytes(output.subarray(0, contentsStart), output.subarray(contentsEnd))))
+  const cms = await createDetachedSignature(digest, identity)
+  if (cms.length > contentsSize) throw new Error('The signature is larger than the space reserved for it')
+  output.set(ascii(toHex(cms).toUpperCase()), contentsStart + 1)
+  return output
+}
+
+const textOf = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined
+
+const dateOf = (value: PDFObject | undefined) => {
+  try {
+    return value instanceof PDFString || value instanceof PDFHexString ? value.decodeDate() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const verifySignature = async (
+  bytes: Uint8Array,
+  signature: PDFDict,
+  trustAnchors: Certificate[],
+): Promise<Omit<PdfSignature, 'fieldName' | 'page'>> => {
+  const subFilter = signature.lookup(PDFName.of('SubFilter'))
+  const claimedTime = dateOf(signature.lookup(PDFName.of('M')))
+  const result: Omit<PdfSignature, 'fieldName' | 'page'> = {
+    signerName: textOf(signature.lookup(PDFName.of('Name'))) ?? 'Unknown signer',
+    signingTime: claimedTime,
+    reason: textOf(signature.lookup(PDFName.of('Reason'))),
+    location: textOf(signature.lookup(PDFName.of('Location'))),
+    subFilter: subFilter instanceof PDFName ? subFilter.decodeText() : '',
+    chain: [],
+    valid: false,
+    trusted: false,
+    modifiedAfterSigning: false,
+  }
+  if (result.subFilter === 'adbe.x509.rsa_sha1') return { ...result, problem: 'PKCS#1 (adbe.x509.rsa_sha1) signatures are not supported' }
+
+  const contents = signature.lookup(PDFName.of('Contents'))
+  const rangeArray = signature.lookup(PDFName.of('ByteRange'))
+  const range = rangeArray instanceof PDFArray ? rangeArray.asArray().map((entry) => (entry instanceof PDFNumber ? entry.asNumber() : NaN)) : []
+  const [start, firstLength, second, secondLength] = range
+  const end = second + secondLength
+  // The ranges must skip exactly the <hex> of /Contents and stay inside the file
+  if (
+    !(contents instanceof PDFHexString || contents instanceof PDFString)
+    || range.length !== 4 || !range.every(Number.isInteger)
+    || start !== 0 || firstLength > second || end > bytes.length
+    || bytes[firstLength] !== 0x3c || bytes[second - 1] !== 0x3e
+  ) {
+    return { ...result, problem: 'The signed byte range does not match the signature' }
+  }
+  // Trailing whitespace after the signed revision is not a change
+  result.modifiedAfterSigning = latin1(bytes.subarray(end)).trim().length > 0
+
+  const signed = concatBytes(bytes.subarray(0, firstLength), bytes.subarray(second, end))
+  const cms = await verifySignedData(contents.asBytes(), signed)
+  if (cms.signer) result.signerName = cms.signer.commonName
+  result.signingTime = cms.signingTime ?? claimedTime
+  result.chain = cms.signer ? [cms.signer] : []
+  result.valid = cms.digestMatches && cms.signatureValid
+  if (cms.problem) return { ...result, problem: cms.problem }
+  if (!cms.digestMatches) return { ...result, problem: 'The signed content has changed' }
+  if (!cms.signatureValid) return { ...result, problem: 'The signature does not match the signer\'s certificate' }
+
+  // The signing time is only the signer's claim, with no timestamp authority behind it
+  const validation = await validateCertificateChain(cms.signer!, cms.certificates, trustAnchors, new Date())
+  return { ...result, chain: validation.chain, trusted: validation.trusted, problem: validation.problem }
+}
+
+/**
+ * Verify every signed signature field of `bytes` against `trustAnchors`,
+ * in form order. Each check stands alone, so one damaged signature does not
+ * hide the others.
+ */
+export const verifyPdfSignatures = async (bytes: Uint8Array, trustAnchors: Certificate[]): Promise<PdfSignature[]> => {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true })
+  const fields = (doc.catalog.getAcroForm()?.getAllFields() ?? [])
+    .filter(([field]) => field instanceof PDFAcroTerminal && isSignatureField(field))
+  const signatures: PdfSignature[] = []
+  for (const [field, ref] of fields) {
+    const value = field.dict.lookup(PDFName.of('V'))
+    if (!(value instanceof PDFDict)) continue
+    const { widget, widgetRef } = signatureWidget(field, ref)
+    const pageIndex = pageIndexOf(doc, widget, widgetRef)
+    let checked: Omit<PdfSignature, 'fieldName' | 'page'>
+    try {
+      checked = await verifySignature(bytes, value, trustAnchors)
+    } catch (err: any) {
+      checked = {
+        signerName: 'Unknown signer',
+        subFilter: '',
+        chain: [],
+        valid: false,
+        trusted: false,
+        modifiedAfterSigning: false,
+        problem: err?.message || 'The signature could not be read',
+      }
+    }
+    signatures.push({ fieldName: field.getFullyQualifiedName() ?? '', page: pageIndex >= 0 ? pageIndex + 1 : undefined, ...checked })
+  }
+  return signatures
+}
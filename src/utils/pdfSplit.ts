@@ -0,0 +1,194 @@
+/**
+ * Split planning: page groups, top-level bookmarks and blank-page detection
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib'
+import type { PDFObject } from 'pdf-lib'
+import { streamText } from './contentStream'
+
+export interface PageGroup {
+  pageIndices: number[]
+  title?: string
+}
+
+/** Consecutive groups of `size` pages; the last may be shorter. */
+export const chunkPages = (count: number, size: number): PageGroup[] => {
+  const step = Math.max(1, Math.floor(size))
+  const groups: PageGroup[] = []
+  for (let start = 0; start < count; start += step) {
+    groups.push({ pageIndices: Array.from({ length: Math.min(step, count - start) }, (_, i) => start + i) })
+  }
+  return groups
+}
+
+/**
+ * Start a new group at each start index. Pages before the first start form
+ * their own untitled group.
+ */
+export const splitAtStarts = (count: number, starts: Array<{ pageIndex: number; title?: string }>): PageGroup[] => {
+  const unique = new Map<number, string | undefined>()
+  starts
+    .filter((s) => s.pageIndex >= 0 && s.pageIndex < count)
+    .sort((a, b) => a.pageIndex - b.pageIndex)
+    .forEach((s) => {
+      if (!unique.has(s.pageIndex)) unique.set(s.pageIndex, s.title)
+    })
+  const boundaries = [...unique.keys()]
+  if (boundaries[0] !== 0) boundaries.unshift(0)
+  return boundaries.map((start, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1] : count
+    return {
+      pageIndices: Array.from({ length: end - start }, (_, k) => start + k),
+      title: unique.get(start),
+    }
+  })
+}
+
+/** Split at separator pages, which are left out of every group. */
+export const splitAtSeparators = (count: number, separators: number[]): PageGroup[] => {
+  const skip = new Set(separators)
+  const groups: PageGroup[] = []
+  let current: number[] = []
+  for (let i = 0; i < count; i++) {
+    if (skip.has(i)) {
+      if (current.length) groups.push({ pageIndices: current })
+      current = []
+    } else {
+      current.push(i)
+    }
+  }
+  if (current.length) groups.push({ pageIndices: current })
+  return groups
+}
+
+// ---------------------------------------------------------------------------
+// Bookmarks
+// ---------------------------------------------------------------------------
+
+const decodeText = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString
+    ? value.decodeText()
+    : value instanceof PDFName
+      ? value.decodeText()
+      : undefined
+
+const findInNameTree = (node: PDFDict, name: string, depth = 0): PDFObject | undefined => {
+  if (depth > 32) return undefined
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray)
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (decodeText(names.lookup(i)) === name) return names.lookup(i + 1)
+    }
+  }
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray)
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i)
+      if (!(kid instanceof PDFDict)) continue
+      const found = findInNameTree(kid, name, depth + 1)
+      if (found) return found
+    }
+  }
+  return undefined
+}
+
+const resolveDestination = (doc: PDFDocument, dest: PDFObject | undefined): PDFArray | undefined => {
+  if (dest instanceof PDFArray) return dest
+  if (dest instanceof PDFDict) return resolveDestination(doc, dest.lookup(PDFName.of('D')))
+  const name = decodeText(dest)
+  if (name === undefined) return undefined
+  // PDF 1.1 /Dests dictionary, then the PDF 1.2+ name tree
+  const legacy = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  const tree = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  const named = legacy?.lookup(PDFName.of(name)) ?? (tree ? findInNameTree(tree, name) : undefined)
+  // Named destinations resolve to an array or a /D dictionary, never to another name
+  return named instanceof PDFArray || named instanceof PDFDict ? resolveDestination(doc, named) : undefined
+}
+
+/** Top-level outline entries that point at a page of this document. */
+export const readTopLevelBookmarks = (doc: PDFDocument): Array<{ title: string; pageIndex: number }> => {
+  const pageIndexByRef = new Map<PDFRef, number>()
+  doc.getPages().forEach((page, index) => pageIndexByRef.set(page.ref, index))
+
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)
+  const bookmarks: Array<{ title: string; pageIndex: number }> = []
+  const seen = new Set<PDFDict>()
+  let item = outlines?.lookupMaybe(PDFName.of('First'), PDFDict)
+  while (item && !seen.has(item)) {
+    seen.add(item)
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict)
+    const isGoTo = action?.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText() === 'GoTo'
+    const rawDest = item.has(PDFName.of('Dest')) ? item.lookup(PDFName.of('Dest')) : isGoTo ? action?.lookup(PDFName.of('D')) : undefined
+    const dest = resolveDestination(doc, rawDest)
+    const target = dest?.get(0)
+    const pageIndex = target instanceof PDFRef
+      ? pageIndexByRef.get(target)
+      : target instanceof PDFNumber ? target.asNumber() : undefined
+    if (pageIndex !== undefined && pageIndex >= 0 && pageIndex < pageIndexByRef.size) {
+      bookmarks.push({ title: decodeText(item.lookup(PDFName.of('Title'))) ?? '', pageIndex })
+    }
+    item = item.lookupMaybe(PDFName.of('Next'), PDFDict)
+  }
+  return bookmarks
+}
+
+// ---------------------------------------------------------------------------
+// Blank pages
+// ---------------------------------------------------------------------------
+
+// Operators that put marks on the page: text, XObjects, inline images, shadings, paths
+const PAINT_OPERATORS = new Set(['Tj', 'TJ', "'", '"', 'Do', 'BI', 'sh', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'S', 's'])
+
+// Literal strings may contain anything, including operator-like text
+const stripStrings = (source: string) => {
+  let out = ''
+  let depth = 0
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (depth > 0) {
+      if (ch === '\\') i++
+      else if (ch === '(') depth++
+      else if (ch === ')') depth--
+      if (depth === 0) out += ' '
+      continue
+    }
+    if (ch === '(') {
+      depth = 1
+      continue
+    }
+    if (ch === '%') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++
+      continue
+    }
+    out += ch
+  }
+  return out.replace(/<[0-9A-Fa-f\s]*>/g, ' ')
+}
+
+/** True when the page's content streams paint nothing. */
+export const isBlankPage = (page: PDFPage): boolean => {
+  const contents = page.node.Contents()
+  const streams: PDFStream[] = []
+  if (contents instanceof PDFStream) streams.push(contents)
+  if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i)
+      if (stream instanceof PDFStream) streams.push(stream)
+    }
+  }
+  return streams.every((stream) => {
+    const tokens = stripStrings(streamText(stream)).split(/[\s[\]<>{}]+|(?=\/)/)
+    return !tokens.some((token) => PAINT_OPERATORS.has(token))
+  })
+}
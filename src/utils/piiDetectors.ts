@@ -0,0 +1,123 @@
+/**
+ * Detectors for personal data in page text
+ *
+ * Each detector is a regular expression for the search engine plus an
+ * optional check that rejects look-alikes (card numbers failing the Luhn
+ * check, IBANs failing mod 97). Patterns are matched case-insensitively, so
+ * checks that depend on case look at the matched text themselves.
+ */
+
+export type PiiDetectorId = 'email' | 'phone' | 'credit-card' | 'national-id' | 'iban' | 'date'
+
+export interface PiiDetector {
+  id: PiiDetectorId
+  label: string
+  // Regular expression source
+  pattern: string
+  // Rejects a match that only looks like this kind of data
+  validate?: (text: string) => boolean
+}
+
+/** A user-defined detector */
+export interface CustomPattern {
+  label: string
+  pattern: string
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '')
+
+/** Luhn checksum used by payment cards and some national IDs */
+export const luhnValid = (digits: string) => {
+  if (!/^\d+$/.test(digits)) return false
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/** ISO 13616 check: country and check digits moved to the end, letters as numbers, mod 97 = 1 */
+export const ibanValid = (text: string) => {
+  const iban = text.replace(/\s/g, '')
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`
+  let remainder = 0
+  for (const ch of rearranged) {
+    const value = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55)
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97
+  }
+  return remainder === 1
+}
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+
+// Numeric dates: year first (ISO), or day and month first in either order
+const plausibleNumericDate = (text: string) => {
+  const fields = text.split(/[./-]/)
+  const [a, b, c] = fields.map(Number)
+  if (fields[0].length === 4) return b >= 1 && b <= 12 && c >= 1 && c <= 31
+  return a >= 1 && b >= 1 && ((a <= 31 && b <= 12) || (a <= 12 && b <= 31))
+}
+
+// US social security numbers never use area 000, 666 or 900-999, group 00 or serial 0000
+const validSsn = (text: string) => {
+  const match = /^(\d{3})-(\d{2})-(\d{4})$/.exec(text)
+  if (!match) return true
+  const [, area, group, serial] = match
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000'
+}
+
+/** Built-in detectors; when matches overlap, the earlier detector wins */
+export const PII_DETECTORS: readonly PiiDetector[] = [
+  {
+    id: 'email',
+    label: 'Email address',
+    pattern: "\\b[a-z0-9._%+'-]+@[a-z0-9-]+(?:\\.[a-z0-9-]+)*\\.[a-z]{2,}\\b",
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    // Groups of four, as printed, with a shorter last group
+    pattern: '\\b[a-z]{2}\\d{2}(?: ?[a-z0-9]{4}){2,7}(?: ?[a-z0-9]{1,3})?\\b',
+    validate: ibanValid,
+  },
+  {
+    id: 'credit-card',
+    label: 'Credit card number',
+    // 4-4-4-4 (up to 19 digits) or Amex 4-6-5, with one kind of separator throughout
+    pattern: '\\b(?:\\d{4}([ -]?)\\d{4}\\1\\d{4}\\1\\d{1,7}|\\d{4}([ -]?)\\d{6}\\2\\d{4,5})\\b',
+    validate: (text) => luhnValid(digitsOf(text)),
+  },
+  {
+    id: 'national-id',
+    label: 'National ID number',
+    // US SSN, UK National Insurance number, Canadian SIN
+    pattern: '\\b(?:\\d{3}-\\d{2}-\\d{4}|[a-z]{2} ?\\d{2} ?\\d{2} ?\\d{2} ?[a-d]|\\d{3} \\d{3} \\d{3})\\b',
+    validate: (text) => {
+      if (/^[A-Za-z]/.test(text)) return /^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]$/.test(text)
+      if (/^\d{3} \d{3} \d{3}$/.test(text)) return luhnValid(digitsOf(text))
+      return validSsn(text)
+    },
+  },
+  {
+    id: 'date',
+    label: 'Date',
+    pattern: `\\b(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{1,2}(?:st|nd|rd|th)? (?:${MONTHS})\\.? \\d{4}|(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4})\\b`,
+    validate: (text) => !/^[\d./-]+$/.test(text) || plausibleNumericDate(text),
+  },
+  {
+    id: 'phone',
+    label: 'Phone number',
+    pattern: '(?:\\+\\d{1,3}[ .-]?)?(?:\\(\\d{1,4}\\)[ .-]?)?\\b\\d{2,4}(?:[ .-]\\d{2,4}){1,4}\\b',
+    // E.164 numbers have at most fifteen digits
+    validate: (text) => {
+      const digits = digitsOf(text).length
+      return digits >= 7 && digits <= 15
+    },
+  },
+]
@@ -0,0 +1,280 @@
+/**
+ * PKCS#12 (.p12 / .pfx) key files: the private key and certificates a
+ * signer brings, decrypted in the browser with WebCrypto and, for files
+ * from older tools, the legacy ciphers in legacyCiphers.ts
+ */
+
+import { OID, TAG, childAt, contextChild, parseDer, readInteger, readOctets, readOid, readText, type Asn1 } from './asn1'
+import { rc2CbcDecrypt, tripleDesCbcDecrypt } from './legacyCiphers'
+import { certificateChain, parseCertificate, type Certificate } from './x509'
+
+export type HashName = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+
+export interface Pkcs12Contents {
+  // PKCS#8 PrivateKeyInfo encodings
+  privateKeys: Array<{ der: Uint8Array; localKeyId?: string }>
+  certificates: Array<{ certificate: Certificate; localKeyId?: string; friendlyName?: string }>
+}
+
+/** A private key ready to sign with, and the certificates that vouch for it */
+export interface SigningIdentity {
+  certificate: Certificate
+  // The signer's certificate first, then its issuers found in the file
+  chain: Certificate[]
+  privateKey: CryptoKey
+  keyAlgorithm: 'RSASSA-PKCS1-v1_5' | 'ECDSA'
+  hash: Exclude<HashName, 'SHA-1'>
+}
+
+const HASHES: Record<string, HashName> = {
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+  [OID.hmacWithSha1]: 'SHA-1',
+  [OID.hmacWithSha256]: 'SHA-256',
+  [OID.hmacWithSha384]: 'SHA-384',
+  [OID.hmacWithSha512]: 'SHA-512',
+}
+
+// Output and block sizes in bytes, for the PKCS#12 key derivation
+const HASH_SIZES: Record<HashName, { output: number; block: number }> = {
+  'SHA-1': { output: 20, block: 64 },
+  'SHA-256': { output: 32, block: 64 },
+  'SHA-384': { output: 48, block: 128 },
+  'SHA-512': { output: 64, block: 128 },
+}
+
+const CURVES: Record<string, { namedCurve: string; hash: SigningIdentity['hash'] }> = {
+  [OID.p256]: { namedCurve: 'P-256', hash: 'SHA-256' },
+  [OID.p384]: { namedCurve: 'P-384', hash: 'SHA-384' },
+  [OID.p521]: { namedCurve: 'P-521', hash: 'SHA-512' },
+}
+
+// Key derivation purposes (RFC 7292 B.3)
+const KDF_KEY = 1
+const KDF_IV = 2
+const KDF_MAC = 3
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+/** WebCrypto, which browsers only offer in secure contexts (https or localhost) */
+export const subtleCrypto = () => {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) throw new Error('Signing needs a secure context (https or localhost)')
+  return subtle
+}
+
+// PKCS#12 passwords are UTF-16BE with a two-byte terminator
+const bmpPassword = (password: string) => {
+  const bytes = new Uint8Array((password.length + 1) * 2)
+  for (let i = 0; i < password.length; i++) {
+    bytes[2 * i] = password.charCodeAt(i) >> 8
+    bytes[2 * i + 1] = password.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
+
+const repeatTo = (source: Uint8Array, length: number) => Uint8Array.from({ length }, (_, i) => source[i % source.length])
+
+/** The PKCS#12 key derivation function (RFC 7292 appendix B.2) */
+const pkcs12Kdf = async (hash: HashName, password: Uint8Array, salt: Uint8Array, purpose: number, iterations: number, length: number) => {
+  const { output: u, block: v } = HASH_SIZES[hash]
+  const d = new Uint8Array(v).fill(purpose)
+  const s = salt.length ? repeatTo(salt, v * Math.ceil(salt.length / v)) : new Uint8Array(0)
+  const p = password.length ? repeatTo(password, v * Math.ceil(password.length / v)) : new Uint8Array(0)
+  const input = new Uint8Array([...s, ...p])
+  const out = new Uint8Array(length)
+  for (let offset = 0; offset < length; offset += u) {
+    let a = new Uint8Array([...d, ...input])
+    for (let round = 0; round < iterations; round++) a = new Uint8Array(await subtleCrypto().digest(hash, a))
+    out.set(a.subarray(0, Math.min(u, length - offset)), offset)
+    // Each block of the input becomes (block + B + 1) mod 2^(8v)
+    const b = repeatTo(a, v)
+    for (let j = 0; j < input.length; j += v) {
+      let carry = 1
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = input[j + k] + b[k] + carry
+        input[j + k] = sum & 0xff
+        carry = sum >> 8
+      }
+    }
+  }
+  return out
+}
+
+// Check the file's MAC; a mismatch almost always means a wrong password
+const verifyMac = async (pfx: Asn1, data: Uint8Array, password: Uint8Array) => {
+  const macData = pfx.children[2]
+  if (!macData) return true
+  const digestInfo = childAt(macData, 0, 'MAC')
+  const hash = HASHES[readOid(childAt(childAt(digestInfo, 0), 0))]
+  if (!hash) throw new Error('Unsupported PKCS#12 file: unknown MAC algorithm')
+  const expected = readOctets(childAt(digestInfo, 1))
+  const salt = readOctets(childAt(macData, 1, 'MAC salt'))
+  const iterations = macData.children[2] ? readInteger(macData.children[2]) : 1
+  const key = await pkcs12Kdf(hash, password, salt, KDF_MAC, iterations, HASH_SIZES[hash].output)
+  const hmac = await subtleCrypto().importKey('raw', key, { name: 'HMAC', hash }, false, ['verify'])
+  return subtleCrypto().verify('HMAC', hmac, expected as BufferSource, data as BufferSource)
+}
+
+const decryptPbes2 = async (params: Asn1, data: Uint8Array, password: string) => {
+  const kdf = childAt(params, 0, 'key derivation')
+  const scheme = childAt(params, 1, 'encryption scheme')
+  if (readOid(childAt(kdf, 0)) !== OID.pbkdf2) throw new Error('Unsupported PKCS#12 file: unknown key derivation')
+  const kdfParams = childAt(kdf, 1)
+  const salt = readOctets(childAt(kdfParams, 0))
+  const iterations = readInteger(childAt(kdfParams, 1))
+  // keyLength and prf are both optional; prf defaults to HMAC-SHA1
+  const prf = kdfParams.children.slice(2).find((child) => child.tag === TAG.SEQUENCE)
+  const hash = prf ? HASHES[readOid(childAt(prf, 0))] : 'SHA-1'
+  const cipher = readOid(childAt(scheme, 0))
+  const keyLength = { [OID.aes128Cbc]: 16, [OID.aes192Cbc]: 24, [OID.aes256Cbc]: 32, [OID.desEde3Cbc]: 24 }[cipher]
+  if (!hash || !keyLength) throw new Error('Unsupported PKCS#12 file: unknown cipher')
+  const iv = readOctets(childAt(scheme, 1))
+
+  const subtle = subtleCrypto()
+  const base = await subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const key = new Uint8Array(await subtle.deriveBits({ name: 'PBKDF2', salt: salt as BufferSource, iterations, hash }, base, keyLength * 8))
+  if (cipher === OID.desEde3Cbc) return tripleDesCbcDecrypt(key, iv, data)
+  const aes = await subtle.importKey('raw', key, 'AES-CBC', false, ['decrypt'])
+  return new Uint8Array(await subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, aes, data as BufferSource))
+}
+
+// PKCS#12 password-based ciphers: key length and how to decrypt
+const PKCS12_CIPHERS: Record<string, { keyLength: number; decrypt: (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => Uint8Array }> = {
+  [OID.pbeWithSha1And3KeyTripleDes]: { keyLength: 24, decrypt: tripleDesCbcDecrypt },
+  [OID.pbeWithSha1And2KeyTripleDes]: { keyLength: 16, decrypt: tripleDesCbcDecrypt },
+  [OID.pbeWithSha1And128BitRc2]: { keyLength: 16, decrypt: (key, iv, data) => rc2CbcDecrypt(key, 128, iv, data) },
+  [OID.pbeWithSha1And40BitRc2]: { keyLength: 5, decrypt: (key, iv, data) => rc2CbcDecrypt(key, 40, iv, data) },
+}
+
+const decrypt = async (algorithm: Asn1, data: Uint8Array, password: string) => {
+  const id = readOid(childAt(algorithm, 0))
+  const params = childAt(algorithm, 1, 'cipher parameters')
+  try {
+    if (id === OID.pbes2) return await decryptPbes2(params, data, password)
+    const cipher = PKCS12_CIPHERS[id]
+    if (!cipher) throw new Error('Unsupported PKCS#12 file: unknown cipher')
+    const salt = readOctets(childAt(params, 0))
+    const iterations = readInteger(childAt(params, 1))
+    const bmp = bmpPassword(password)
+    const key = await pkcs12Kdf('SHA-1', bmp, salt, KDF_KEY, iterations, cipher.keyLength)
+    const iv = await pkcs12Kdf('SHA-1', bmp, salt, KDF_IV, iterations, 8)
+    return cipher.decrypt(key, iv, data)
+  } catch (err: any) {
+    if (String(err?.message).startsWith('Unsupported')) throw err
+    throw new Error('Wrong password, or the file is damaged')
+  }
+}
+
+const bagAttributes = (bag: Asn1) => {
+  let localKeyId: string | undefined
+  let friendlyName: string | undefined
+  bag.children[2]?.children.forEach((attribute) => {
+    const type = readOid(childAt(attribute, 0))
+    const value = attribute.children[1]?.children[0]
+    if (!value) return
+    if (type === OID.localKeyId) localKeyId = toHex(readOctets(value))
+    else if (type === OID.friendlyName) friendlyName = readText(value)
+  })
+  return { localKeyId, friendlyName }
+}
+
+const readBags = async (safeContents: Asn1, password: string, contents: Pkcs12Contents) => {
+  for (const bag of safeContents.children) {
+    const type = readOid(childAt(bag, 0))
+    const value = contextChild(bag, 0)?.children[0]
+    if (!value) continue
+    const { localKeyId, friendlyName } = bagAttributes(bag)
+    if (type === OID.keyBag) {
+      contents.privateKeys.push({ der: value.der, localKeyId })
+    } else if (type === OID.pkcs8ShroudedKeyBag) {
+      const der = await decrypt(childAt(value, 0), readOctets(childAt(value, 1)), password)
+      contents.privateKeys.push({ der, localKeyId })
+    } else if (type === OID.certBag && readOid(childAt(value, 0)) === OID.x509Certificate) {
+      const der = readOctets(childAt(contextChild(value, 0), 0))
+      contents.certificates.push({ certificate: parseCertificate(der), localKeyId, friendlyName })
+    }
+  }
+}
+
+/** Keys and certificates of a password-protected PKCS#12 file */
+export const readPkcs12 = async (bytes: Uint8Array, password: string): Promise<Pkcs12Contents> => {
+  let pfx: Asn1
+  try {
+    pfx = parseDer(bytes)
+  } catch {
+    throw new Error('Not a PKCS#12 (.p12 / .pfx) file')
+  }
+  const authSafe = childAt(pfx, 1, 'contents')
+  if (readOid(childAt(authSafe, 0)) !== OID.data) {
+    throw new Error('Unsupported PKCS#12 file: only password-protected files can be opened')
+  }
+  const data = readOctets(childAt(contextChild(authSafe, 0), 0))
+  // Some tools derive the MAC key from an empty password without its terminator
+  const macOk = await verifyMac(pfx, data, bmpPassword(password))
+    || (!password && await verifyMac(pfx, data, new Uint8Array(0)))
+  if (!macOk) throw new Error('Wrong password, or the file is damaged')
+
+  const contents: Pkcs12Contents = { privateKeys: [], certificates: [] }
+  for (const info of parseDer(data).children) {
+    const type = readOid(childAt(info, 0))
+    const content = childAt(contextChild(info, 0), 0)
+    if (type === OID.data) {
+      await readBags(parseDer(readOctets(content)), password, contents)
+    } else if (type === OID.encryptedData) {
+      const encrypted = childAt(content, 1, 'encrypted content')
+      const payload = contextChild(encrypted, 0)
+      if (!payload) continue
+      await readBags(parseDer(await decrypt(childAt(encrypted, 1), readOctets(payload), password)), password, contents)
+    }
+  }
+  return contents
+}
+
+/**
+ * Open a PKCS#12 file as a signing identity: its private key (imported into
+ * WebCrypto, not extractable) with the matching certificate and chain.
+ */
+export const loadSigningIdentity = async (bytes: Uint8Array, password: string): Promise<SigningIdentity> => {
+  const contents = await readPkcs12(bytes, password)
+  const [key] = contents.privateKeys
+  if (!key) throw new Error('The file has no private key')
+  // The signer's certificate shares the key's local ID; otherwise take the first end-entity certificate
+  const entry = contents.certificates.find((cert) => key.localKeyId && cert.localKeyId === key.localKeyId)
+    ?? contents.certificates.find((cert) => !cert.certificate.isCA)
+    ?? contents.certificates[0]
+  if (!entry) throw new Error('The file has no certificate')
+  const { certificate } = entry
+
+  let algorithm: RsaHashedImportParams | EcKeyImportParams
+  let hash: SigningIdentity['hash']
+  if (certificate.publicKeyAlgorithm === OID.rsaEncryption) {
+    hash = 'SHA-256'
+    algorithm = { name: 'RSASSA-PKCS1-v1_5', hash }
+  } else if (certificate.publicKeyAlgorithm === OID.ecPublicKey && certificate.curve && CURVES[certificate.curve]) {
+    hash = CURVES[certificate.curve].hash
+    algorithm = { name: 'ECDSA', namedCurve: CURVES[certificate.curve].namedCurve }
+  } else {
+    throw new Error('Unsupported key type: use an RSA or ECDSA (P-256, P-384, P-521) certificate')
+  }
+
+  const subtle = subtleCrypto()
+  const privateKey = await subtle.importKey('pkcs8', key.der as BufferSource, algorithm, false, ['sign'])
+  // A key from another certificate would produce signatures nobody can verify
+  const publicKey = await subtle.importKey('spki', certificate.publicKey as BufferSource, algorithm, false, ['verify'])
+  const params = algorithm.name === 'ECDSA' ? { name: 'ECDSA', hash } : algorithm.name
+  const probe = new TextEncoder().encode('pdfoid key check')
+  if (!await subtle.verify(params, publicKey, await subtle.sign(params, privateKey, probe), probe)) {
+    throw new Error('The private key does not match the certificate')
+  }
+
+  return {
+    certificate,
+    chain: certificateChain(certificate, contents.certificates.map((cert) => cert.certificate)),
+    privateKey,
+    keyAlgorithm: algorithm.name as SigningIdentity['keyAlgorithm'],
+    hash,
+  }
+}
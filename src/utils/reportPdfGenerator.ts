@@ -0,0 +1,153 @@
+/**
+ * Report PDF Generator - Renders the comments summary as a PDF using pdf-lib
+ *
+ * Same layout approach as the CV generator: standard Helvetica fonts, a
+ * running y cursor and a new page whenever the next block does not fit.
+ */
+
+// @ts-ignore
+import { PDFDocument, StandardFonts, rgb, PDFFont, PDFPage } from 'pdf-lib'
+import { formatTimestamp, type ReportEntry, type ReportMeta } from './annotationReport'
+
+// Layout constants
+const PAGE_WIDTH = 595.28 // A4 width in points
+const PAGE_HEIGHT = 841.89 // A4 height in points
+const MARGIN = 48
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const INDENT = 12
+
+const SIZES = { title: 18, pageHeader: 13, heading: 10, body: 10, small: 8.5 }
+const LINE_GAP = 3
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+const ACCENT_COLOR = rgb(0.31, 0.27, 0.9)
+
+interface LayoutContext {
+    doc: PDFDocument
+    page: PDFPage
+    y: number
+    fontRegular: PDFFont
+    fontBold: PDFFont
+    fontItalic: PDFFont
+}
+
+/**
+ * Standard fonts only cover WinAnsi; anything else would make pdf-lib throw,
+ * so unsupported characters are replaced.
+ */
+const makeSanitizer = (font: PDFFont) => {
+    const supported = new Set(font.getCharacterSet())
+    return (text: string) =>
+        Array.from(text.replace(/\s+/g, ' ').trim())
+            .map((ch) => (supported.has(ch.codePointAt(0)!) ? ch : '?'))
+            .join('')
+}
+
+const wrapLines = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+    const lines: string[] = []
+    let current = ''
+    for (const word of text.split(' ')) {
+        const candidate = current ? `${current} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+            current = candidate
+            continue
+        }
+        if (current) lines.push(current)
+        // Break words that are wider than a whole line
+        current = ''
+        for (const ch of word) {
+            if (current && font.widthOfTextAtSize(current + ch, size) > maxWidth) {
+                lines.push(current)
+                current = ''
+            }
+            current += ch
+        }
+    }
+    if (current) lines.push(current)
+    return lines
+}
+
+const ensureSpace = (ctx: LayoutContext, height: number) => {
+    if (ctx.y - height >= MARGIN) return
+    ctx.page = ctx.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    ctx.y = PAGE_HEIGHT - MARGIN
+}
+
+function drawParagraph(
+    ctx: LayoutContext,
+    text: string,
+    options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb>; indent?: number }
+) {
+    const font = options.font || ctx.fontRegular
+    const size = options.size || SIZES.body
+    const indent = options.indent ?? 0
+    const clean = makeSanitizer(font)(text)
+    if (!clean) return
+    for (const line of wrapLines(clean, font, size, CONTENT_WIDTH - indent)) {
+        ensureSpace(ctx, size + LINE_GAP)
+        ctx.y -= size
+        ctx.page.drawText(line, { x: MARGIN + indent, y: ctx.y, size, font, color: options.color || TEXT_COLOR })
+        ctx.y -= LINE_GAP
+    }
+}
+
+/**
+ * Main function to generate the comments summary PDF
+ */
+export async function generateReportPDF(entries: ReportEntry[], meta: ReportMeta): Promise<Uint8Array> {
+    const doc = await PDFDocument.create()
+    doc.setTitle(`Comments summary: ${meta.fileName}`)
+    doc.setCreationDate(meta.generatedAt)
+
+    const ctx: LayoutContext = {
+        doc,
+        page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+        y: PAGE_HEIGHT - MARGIN,
+        fontRegular: await doc.embedFont(StandardFonts.Helvetica),
+        fontBold: await doc.embedFont(StandardFonts.HelveticaBold),
+        fontItalic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    }
+
+    drawParagraph(ctx, `Comments summary: ${meta.fileName}`, { font: ctx.fontBold, size: SIZES.title })
+    drawParagraph(ctx, `Generated ${formatTimestamp(meta.generatedAt.toISOString())}, ${entries.length} annotation${entries.length === 1 ? '' : 's'}.`, {
+        size: SIZES.small,
+        color: MUTED_COLOR,
+    })
+
+    let lastPage = 0
+    for (const entry of entries) {
+        if (entry.page !== lastPage) {
+            lastPage = entry.page
+            ctx.y -= 14
+            // Keep the page header with at least the first entry line
+            ensureSpace(ctx, SIZES.pageHeader + SIZES.heading + 12)
+            drawParagraph(ctx, `Page ${entry.page}`, { font: ctx.fontBold, size: SIZES.pageHeader, color: ACCENT_COLOR })
+            ctx.page.drawLine({
+                start: { x: MARGIN, y: ctx.y },
+                end: { x: PAGE_WIDTH - MARGIN, y: ctx.y },
+                thickness: 0.5,
+                color: MUTED_COLOR,
+            })
+        }
+
+        ctx.y -= 8
+        const status = entry.status === 'open' ? '' : ` [${entry.status}]`
+        drawParagraph(ctx, `${entry.type} · ${entry.author || 'Unknown author'} · ${formatTimestamp(entry.createdAt)}${status}`, {
+            font: ctx.fontBold,
+            size: SIZES.heading,
+        })
+        if (entry.text) drawParagraph(ctx, entry.text, { indent: INDENT })
+        if (entry.snippet) {
+            drawParagraph(ctx, `Context: "${entry.snippet}"`, { font: ctx.fontItalic, size: SIZES.small, color: MUTED_COLOR, indent: INDENT })
+        }
+        for (const reply of entry.replies) {
+            drawParagraph(ctx, `${reply.author || 'Unknown'} (${formatTimestamp(reply.createdAt)}): ${reply.text}`, {
+                size: SIZES.small,
+                indent: INDENT * 2,
+            })
+        }
+    }
+
+    return doc.save()
+}
@@ -0,0 +1,472 @@
+/**
+ * Rich text boxes: styled runs, line layout and box geometry
+ *
+ * Text is measured with the metrics of the standard PDF fonts both on screen
+ * and when a box is written into a PDF, so lines break at the same words
+ * wherever the box is drawn.
+ */
+
+import { StandardFontEmbedder, StandardFonts } from 'pdf-lib'
+import type { Annotation, TextAlign, TextRun } from '../types/annotations'
+
+export type RunStyle = Pick<TextRun, 'bold' | 'italic' | 'underline'>
+
+export const DEFAULT_LINE_SPACING = 1.2
+// Space between the border and the text, in points
+export const TEXT_BOX_PADDING = 4
+// Glyph extent above and below the baseline, as fractions of the font size
+export const TEXT_ASCENT = 0.72
+export const TEXT_DESCENT = 0.21
+// Underline position below the baseline and its thickness, as fractions of the font size
+export const UNDERLINE_OFFSET = 0.12
+export const UNDERLINE_WIDTH = 0.05
+
+const STYLE_KEYS = ['bold', 'italic', 'underline'] as const
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+export const plainText = (runs: TextRun[]) => runs.map((run) => run.text).join('')
+
+const sameStyle = (a: RunStyle, b: RunStyle) => STYLE_KEYS.every((key) => Boolean(a[key]) === Boolean(b[key]))
+
+const styleOf = (run: RunStyle): RunStyle => {
+  const style: RunStyle = {}
+  STYLE_KEYS.forEach((key) => {
+    if (run[key]) style[key] = true
+  })
+  return style
+}
+
+/** Drop empty runs and `false` flags, and merge neighbours in the same style */
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const out: TextRun[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const last = out[out.length - 1]
+    if (last && sameStyle(last, run)) last.text += run.text
+    else out.push({ text: run.text, ...styleOf(run) })
+  }
+  return out
+}
+
+/** Styled runs of a text box; plain text when the runs are missing or stale */
+export const runsOf = (ann: Pick<Annotation, 'text' | 'textRuns'>): TextRun[] => {
+  const text = ann.text ?? ''
+  if (ann.textRuns && plainText(ann.textRuns) === text) return normalizeRuns(ann.textRuns)
+  return text ? [{ text }] : []
+}
+
+/** Annotation fields for `runs`: runs are only stored when some text is styled */
+export const runFields = (runs: TextRun[]): Pick<Annotation, 'text' | 'textRuns'> => {
+  const normalized = normalizeRuns(runs)
+  const styled = normalized.some((run) => STYLE_KEYS.some((key) => run[key]))
+  return { text: plainText(normalized), textRuns: styled ? normalized : undefined }
+}
+
+/** The runs covering characters `start` to `end` */
+export const sliceRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const out: TextRun[] = []
+  let offset = 0
+  for (const run of runs) {
+    const from = Math.max(start, offset)
+    const to = Math.min(end, offset + run.text.length)
+    if (from < to) out.push({ ...run, text: run.text.slice(from - offset, to - offset) })
+    offset += run.text.length
+  }
+  return out
+}
+
+/**
+ * Carry the styles over to an edited text. The changed span is found by the
+ * common prefix and suffix; typed characters take the style of the character
+ * before them.
+ */
+export const editRuns = (runs: TextRun[], next: string): TextRun[] => {
+  const previous = plainText(runs)
+  let prefix = 0
+  while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < previous.length - prefix &&
+    suffix < next.length - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) suffix++
+  const inserted = next.slice(prefix, next.length - suffix)
+  const neighbour = sliceRuns(runs, prefix > 0 ? prefix - 1 : prefix, prefix > 0 ? prefix : prefix + 1)[0]
+  return normalizeRuns([
+    ...sliceRuns(runs, 0, prefix),
+    { ...(neighbour ? styleOf(neighbour) : {}), text: inserted },
+    ...sliceRuns(runs, previous.length - suffix, previous.length),
+  ])
+}
+
+/** Apply `style` to characters `start` to `end` */
+export const styleRange = (runs: TextRun[], start: number, end: number, style: RunStyle): TextRun[] => {
+  const length = plainText(runs).length
+  return normalizeRuns([
+    ...sliceRuns(runs, 0, start),
+    ...sliceRuns(runs, start, end).map((run) => ({ ...run, ...style })),
+    ...sliceRuns(runs, end, length),
+  ])
+}
+
+/** Styles shared by every character from `start` to `end` */
+export const rangeStyle = (runs: TextRun[], start: number, end: number): Required<RunStyle> => {
+  const covered = sliceRuns(runs, start, end)
+  const all = (key: keyof RunStyle) => covered.length > 0 && covered.every((run) => Boolean(run[key]))
+  return { bold: all('bold'), italic: all('italic'), underline: all('underline') }
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+const FONT_VARIANTS: Record<'sans' | 'serif' | 'mono', [StandardFonts, StandardFonts, StandardFonts, StandardFonts]> = {
+  sans: [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique],
+  serif: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic],
+  mono: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique, StandardFonts.CourierBoldOblique],
+}
+
+/** Standard PDF font closest to a CSS font family in the given style */
+export const standardFontFor = (fontFamily: string | undefined, style: RunStyle = {}): StandardFonts => {
+  const family = (fontFamily ?? '').toLowerCase()
+  const kind = /courier|mono/.test(family) ? 'mono' : /times|georgia|serif/.test(family) && !/sans/.test(family) ? 'serif' : 'sans'
+  return FONT_VARIANTS[kind][(style.bold ? 1 : 0) + (style.italic ? 2 : 0)]
+}
+
+/** CSS font shorthand matching `standardFontFor` */
+export const cssFont = (fontFamily: string | undefined, style: RunStyle, sizePx: number) =>
+  `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${sizePx}px ${fontFamily || 'Arial'}`
+
+const embedders = new Map<StandardFonts, StandardFontEmbedder>()
+const embedderFor = (font: StandardFonts) => {
+  let embedder = embedders.get(font)
+  if (!embedder) {
+    embedder = StandardFontEmbedder.for(font as string as Parameters<typeof StandardFontEmbedder.for>[0])
+    embedders.set(font, embedder)
+  }
+  return embedder
+}
+
+/** `text` with characters the standard fonts cannot encode replaced by '?' */
+export const encodableText = (text: string) => {
+  const { encoding } = embedderFor(StandardFonts.Helvetica)
+  let out = ''
+  for (const ch of text) out += encoding.canEncodeUnicodeCodePoint(ch.codePointAt(0) ?? 0) ? ch : '?'
+  return out
+}
+
+const measure = (font: StandardFonts, text: string, size: number) =>
+  embedderFor(font).widthOfTextAtSize(encodableText(text), size)
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+export interface TextLayoutOptions {
+  fontSize: number
+  fontFamily?: string
+  lineSpacing?: number
+  align?: TextAlign
+  // Lines wrap at this width; Infinity keeps each paragraph on one line
+  maxWidth: number
+}
+
+export interface LayoutSegment {
+  text: string
+  style: RunStyle
+  font: StandardFonts
+  // Offset from the left of the text area, alignment included
+  x: number
+  width: number
+}
+
+export interface LayoutLine {
+  segments: LayoutSegment[]
+  width: number
+  // Offset from the top of the text area
+  baseline: number
+}
+
+export interface TextLayout {
+  lines: LayoutLine[]
+  // Widest line
+  width: number
+  height: number
+  lineHeight: number
+}
+
+interface Piece {
+  text: string
+  style: RunStyle
+}
+
+interface Token {
+  space: boolean
+  pieces: Piece[]
+}
+
+// Paragraphs of words and spaces; a word may change style part way through
+const tokenize = (runs: TextRun[]): Token[][] => {
+  const paragraphs: Token[][] = [[]]
+  for (const run of runs) {
+    const style = styleOf(run)
+    for (const chunk of run.text.match(/\r?\n|[^\S\n]+|[^\s]+/g) ?? []) {
+      if (chunk.endsWith('\n')) {
+        paragraphs.push([])
+        continue
+      }
+      const tokens = paragraphs[paragraphs.length - 1]
+      const space = !/\S/.test(chunk)
+      const last = tokens[tokens.length - 1]
+      if (last && last.space === space) last.pieces.push({ text: chunk, style })
+      else tokens.push({ space, pieces: [{ text: chunk, style }] })
+    }
+  }
+  return paragraphs
+}
+
+/** Break styled runs into lines and place every piece of text */
+export const layoutText = (runs: TextRun[], options: TextLayoutOptions): TextLayout => {
+  const { fontSize, fontFamily, maxWidth } = options
+  const lineHeight = fontSize * (options.lineSpacing ?? DEFAULT_LINE_SPACING)
+  const widthOf = (piece: Piece) => measure(standardFontFor(fontFamily, piece.style), piece.text, fontSize)
+  const rows: Piece[][] = []
+
+  for (const tokens of tokenize(runs)) {
+    let row: Piece[] = []
+    let rowWidth = 0
+    let pending: Piece[] = []
+    const breakRow = () => {
+      rows.push(row)
+      row = []
+      rowWidth = 0
+      pending = []
+    }
+    const place = (piece: Piece, width: number) => {
+      row.push(piece)
+      rowWidth += width
+    }
+
+    tokens.forEach((token, index) => {
+      if (token.space) {
+        // Spaces starting a paragraph are kept; elsewhere they only count between words
+        if (index === 0) token.pieces.forEach((piece) => place(piece, widthOf(piece)))
+        else pending = token.pieces
+        return
+      }
+      const spaceWidth = pending.reduce((sum, piece) => sum + widthOf(piece), 0)
+      const wordWidth = token.pieces.reduce((sum, piece) => sum + widthOf(piece), 0)
+      if (row.length && rowWidth + spaceWidth + wordWidth > maxWidth) breakRow()
+      else pending.forEach((piece) => place(piece, widthOf(piece)))
+      pending = []
+      if (wordWidth <= maxWidth - rowWidth) {
+        token.pieces.forEach((piece) => place(piece, widthOf(piece)))
+        return
+      }
+      // A word wider than the box is split between characters
+      for (const piece of token.pieces) {
+        for (const ch of piece.text) {
+          const charPiece = { text: ch, style: piece.style }
+          const width = widthOf(charPiece)
+          if (row.length && rowWidth + width > maxWidth) breakRow()
+          place(charPiece, width)
+        }
+      }
+    })
+    rows.push(row)
+  }
+
+  const glyphTop = (lineHeight - fontSize * (TEXT_ASCENT + TEXT_DESCENT)) / 2
+  const lines = rows.map((row, index) => {
+    const segments: LayoutSegment[] = []
+    let x = 0
+    for (const piece of row) {
+      const last = segments[segments.length - 1]
+      const width = widthOf(piece)
+      if (last && sameStyle(last.style, piece.style)) {
+        last.text += piece.text
+        last.width += width
+      } else {
+        segments.push({ text: piece.text, style: piece.style, font: standardFontFor(fontFamily, piece.style), x, width })
+      }
+      x += width
+    }
+    return { segments, width: x, baseline: index * lineHeight + glyphTop + fontSize * TEXT_ASCENT }
+  })
+
+  const width = Math.max(0, ...lines.map((line) => line.width))
+  const alignWidth = Number.isFinite(maxWidth) ? maxWidth : width
+  const align = options.align ?? 'left'
+  if (align !== 'left') {
+    lines.forEach((line) => {
+      const shift = (alignWidth - line.width) * (align === 'center' ? 0.5 : 1)
+      line.segments.forEach((segment) => {
+        segment.x += shift
+      })
+    })
+  }
+
+  return { lines, width, height: lines.length * lineHeight, lineHeight }
+}
+
+// ---------------------------------------------------------------------------
+// Box geometry
+// ---------------------------------------------------------------------------
+
+export interface TextBoxFrame {
+  // Outer box, top-left origin, in page units
+  left: number
+  top: number
+  width: number
+  height: number
+  // Top-left of the text area
+  textLeft: number
+  textTop: number
+  layout: TextLayout
+  // Text that does not fit is cut off at the box edge
+  clip: boolean
+}
+
+/** Text boxes with a `width` wrap inside it; older ones are one line per paragraph */
+export const isWrappingTextBox = (ann: Annotation) => ann.type === 'text-box' && typeof ann.width === 'number'
+
+/**
+ * Box and text layout of a text box on a page of the given size. Wrapping
+ * boxes are anchored at their top-left corner; older boxes at the baseline
+ * of their first line.
+ */
+export const textBoxFrame = (ann: Annotation, pageWidth: number, pageHeight: number, fontSizeFallback = 16): TextBoxFrame => {
+  const fontSize = ann.fontSize || fontSizeFallback
+  const inset = TEXT_BOX_PADDING + (ann.borderColor ? ann.borderWidth ?? 0 : 0)
+  const runs = runsOf(ann)
+  const options = { fontSize, fontFamily: ann.fontFamily, lineSpacing: ann.lineSpacing, align: ann.textAlign }
+
+  if (!isWrappingTextBox(ann)) {
+    const layout = layoutText(runs, { ...options, maxWidth: Infinity })
+    const textLeft = ann.startX * pageWidth
+    const textTop = ann.startY * pageHeight - (layout.lines[0]?.baseline ?? fontSize * TEXT_ASCENT)
+    return {
+      left: textLeft - inset,
+      top: textTop - inset,
+      width: Math.max(layout.width, fontSize * 3) + inset * 2,
+      height: layout.height + inset * 2,
+      textLeft,
+      textTop,
+      layout,
+      clip: false,
+    }
+  }
+
+  const left = ann.startX * pageWidth
+  const top = ann.startY * pageHeight
+  const width = Math.max((ann.width ?? 0) * pageWidth, inset * 2 + 1)
+  const layout = layoutText(runs, { ...options, maxWidth: width - inset * 2 })
+  const minHeight = (ann.height ?? 0) * pageHeight
+  const fitHeight = Math.max(layout.height, layout.lineHeight) + inset * 2
+  return {
+    left,
+    top,
+    width,
+    height: ann.autoGrow ? Math.max(minHeight, fitHeight) : Math.max(minHeight, inset * 2 + 1),
+    textLeft: left + inset,
+    textTop: top + inset,
+    layout,
+    clip: !ann.autoGrow,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rich contents
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&')
+
+const spanStyle = (style: RunStyle) =>
+  [
+    style.bold && 'font-weight:bold',
+    style.italic && 'font-style:italic',
+    style.underline && 'text-decoration:underline',
+  ].filter(Boolean).join(';')
+
+/**
+ * XHTML rich text of a text box, as used by a FreeText `/RC` entry and by
+ * XFDF `<contents-richtext>`: one paragraph per line break, one span per run.
+ */
+export const richContents = (ann: Annotation) => {
+  const paragraphs: string[] = ['']
+  for (const run of runsOf(ann)) {
+    run.text.split(/\r?\n/).forEach((part, index) => {
+      if (index > 0) paragraphs.push('')
+      if (!part) return
+      const style = spanStyle(run)
+      paragraphs[paragraphs.length - 1] += style ? `<span style="${style}">${escapeXml(part)}</span>` : escapeXml(part)
+    })
+  }
+  const bodyStyle = [
+    `font-size:${ann.fontSize ?? 16}pt`,
+    `text-align:${ann.textAlign ?? 'left'}`,
+    `line-height:${ann.lineSpacing ?? DEFAULT_LINE_SPACING}`,
+    ann.color && `color:${ann.color}`,
+  ].filter(Boolean).join(';')
+  return `<body xmlns="http://www.w3.org/1999/xhtml" xmlns:xfa="http://www.xfa.org/schema/xfa-data/1.0/" xfa:APIVersion="Acrobat:11.0.0" xfa:spec="2.0.2" style="${bodyStyle}">${paragraphs.map((p) => `<p>${p}</p>`).join('')}</body>`
+}
+
+const cssValue = (style: string, property: string) =>
+  new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i').exec(style)?.[1].trim()
+
+const styleAttr = (attrs: string) => /style\s*=\s*"([^"]*)"/i.exec(attrs)?.[1] ?? /style\s*=\s*'([^']*)'/i.exec(attrs)?.[1] ?? ''
+
+/** Runs, alignment and line spacing from `richContents`-style XHTML. Nested spans are read one level deep. */
+export const parseRichContents = (xhtml: string): Pick<Annotation, 'textAlign' | 'lineSpacing'> & { runs: TextRun[] } => {
+  const body = /<body\b([^>]*)>([\s\S]*?)<\/body>/i.exec(xhtml)
+  const bodyStyle = styleAttr(body?.[1] ?? '')
+  const inner = body?.[2] ?? xhtml
+  const paragraphs: string[] = []
+  const paragraphPattern = /<p\b[^>]*\/>|<p\b[^>]*>([\s\S]*?)<\/p>/gi
+  let match: RegExpExecArray | null
+  while ((match = paragraphPattern.exec(inner))) paragraphs.push(match[1] ?? '')
+  if (!paragraphs.length) paragraphs.push(inner)
+
+  const runs: TextRun[] = []
+  paragraphs.forEach((paragraph, index) => {
+    if (index > 0) runs.push({ text: '\n' })
+    const partPattern = /<span\b([^>]*)>([\s\S]*?)<\/span>|<br\s*\/?>|<[^>]*>|([^<]+)/gi
+    let part: RegExpExecArray | null
+    while ((part = partPattern.exec(paragraph))) {
+      if (part[3] !== undefined) runs.push({ text: unescapeXml(part[3]) })
+      else if (/^<br/i.test(part[0])) runs.push({ text: '\n' })
+      else if (part[2] !== undefined) {
+        const style = styleAttr(part[1])
+        runs.push({
+          text: unescapeXml(part[2].replace(/<[^>]*>/g, '')),
+          bold: /^(bold|[6-9]00)$/i.test(cssValue(style, 'font-weight') ?? ''),
+          italic: /^(italic|oblique)$/i.test(cssValue(style, 'font-style') ?? ''),
+          underline: /underline/i.test(cssValue(style, 'text-decoration') ?? ''),
+        })
+      }
+    }
+  })
+
+  const align = cssValue(bodyStyle, 'text-align')
+  const lineHeight = cssValue(bodyStyle, 'line-height')
+  const spacing = lineHeight?.endsWith('%') ? parseFloat(lineHeight) / 100 : Number(lineHeight)
+  return {
+    runs: normalizeRuns(runs),
+    textAlign: align === 'center' || align === 'right' || align === 'left' ? align : undefined,
+    lineSpacing: Number.isFinite(spacing) && spacing > 0 ? spacing : undefined,
+  }
+}
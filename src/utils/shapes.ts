@@ -0,0 +1,257 @@
+/**
+ * Shape geometry shared by the canvas, native annotations and flattening
+ *
+ * Outlines are built in PDF points with a top-left origin, so cloud
+ * scallops and arrow heads come out the same on screen (scaled by the zoom)
+ * and in the saved file (with y flipped). Dash patterns and head sizes
+ * follow the stroke width.
+ */
+
+import type { Annotation, AnnotationType, DashStyle, LineEnding } from '../types/annotations'
+
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z']
+
+export interface ShapePath {
+  commands: PathCommand[]
+  // Closed paths can be filled
+  closed: boolean
+}
+
+export interface ShapeGeometry {
+  outline: ShapePath
+  // Arrow heads; closed heads are filled with the stroke colour
+  heads: ShapePath[]
+}
+
+export const SHAPE_TYPES: readonly AnnotationType[] = ['rectangle', 'ellipse', 'line', 'arrow', 'polyline', 'polygon', 'cloud']
+// Shapes with an inside that can be filled
+export const FILLABLE_SHAPES: readonly AnnotationType[] = ['rectangle', 'ellipse', 'polygon', 'cloud']
+// Shapes drawn inside the box between their start and end points
+export const BOX_SHAPES: readonly AnnotationType[] = ['rectangle', 'ellipse', 'cloud']
+// Shapes placed one vertex per click
+export const VERTEX_SHAPES: readonly AnnotationType[] = ['polyline', 'polygon']
+// Shapes stroked along their points rather than around a box
+export const OPEN_SHAPES: readonly AnnotationType[] = ['line', 'arrow', 'polyline']
+
+export const isShape = (type: string) => SHAPE_TYPES.includes(type as AnnotationType)
+
+// Dash and gap lengths as multiples of the stroke width
+const DASH_PATTERNS: Record<DashStyle, number[]> = {
+  solid: [],
+  dashed: [3, 2],
+  dotted: [1, 1.5],
+}
+
+/** Dash array for a stroke of `lineWidth` (empty when solid) */
+export const dashArray = (style: DashStyle | undefined, lineWidth: number) =>
+  DASH_PATTERNS[style ?? 'solid'].map((length) => length * Math.max(lineWidth, 1))
+
+/** Dotted when the first dash is no longer than the stroke is wide */
+export const dashStyleOf = (dashes: number[], lineWidth: number): DashStyle | undefined => {
+  if (!dashes.length || dashes.every((length) => length === 0)) return undefined
+  return dashes[0] <= Math.max(lineWidth, 1) * 1.5 ? 'dotted' : 'dashed'
+}
+
+const HEAD_LENGTH = 4
+const MIN_HEAD_LENGTH = 6
+// Half the head's width as a fraction of its length
+const HEAD_SPREAD = 0.5
+const CLOUD_RADIUS = 3
+const MIN_CLOUD_RADIUS = 4
+// Control point distance of a quarter circle
+const KAPPA = 0.5523
+
+/** Arrow head length and half-width for a stroke of `lineWidth` */
+export const headSize = (lineWidth: number) => {
+  const length = Math.max(MIN_HEAD_LENGTH, lineWidth * HEAD_LENGTH)
+  return { length, halfWidth: length * HEAD_SPREAD }
+}
+
+export const lineEndingsOf = (ann: Annotation): [LineEnding, LineEnding] =>
+  ann.type === 'arrow' ? ann.lineEndings ?? ['none', 'closed'] : ['none', 'none']
+
+/** Normalized points a shape is drawn through: its vertices, or start and end */
+const shapePoints = (ann: Annotation): [number, number][] =>
+  ann.points?.length
+    ? ann.points
+    : [[ann.startX, ann.startY], [ann.endX ?? ann.startX, ann.endY ?? ann.startY]]
+
+/** Normalized extent of the shape's own geometry, without stroke or heads */
+export const shapeExtent = (ann: Annotation) => {
+  const points = shapePoints(ann)
+  const xs = points.map((p) => p[0])
+  const ys = points.map((p) => p[1])
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }
+}
+
+/**
+ * Geometry changes that stretch a shape to a new normalized size, keeping
+ * the top-left corner of its extent in place. Flat sides (a horizontal
+ * line's height) stay flat.
+ */
+export const resizeShape = (ann: Annotation, width: number, height: number): Partial<Annotation> => {
+  const extent = shapeExtent(ann)
+  const sx = extent.width > 1e-6 ? width / extent.width : 1
+  const sy = extent.height > 1e-6 ? height / extent.height : 1
+  const scaleX = (x: number) => extent.left + (x - extent.left) * sx
+  const scaleY = (y: number) => extent.top + (y - extent.top) * sy
+  const changes: Partial<Annotation> = {
+    startX: scaleX(ann.startX),
+    startY: scaleY(ann.startY),
+    endX: ann.endX === undefined ? undefined : scaleX(ann.endX),
+    endY: ann.endY === undefined ? undefined : scaleY(ann.endY),
+  }
+  if (ann.points) changes.points = ann.points.map(([x, y]) => [scaleX(x), scaleY(y)] as [number, number])
+  return changes
+}
+
+const rectPath = (left: number, top: number, width: number, height: number): PathCommand[] => [
+  ['M', left, top],
+  ['L', left + width, top],
+  ['L', left + width, top + height],
+  ['L', left, top + height],
+  ['Z'],
+]
+
+const ellipsePath = (left: number, top: number, width: number, height: number): PathCommand[] => {
+  const rx = width / 2
+  const ry = height / 2
+  const cx = left + rx
+  const cy = top + ry
+  const kx = rx * KAPPA
+  const ky = ry * KAPPA
+  return [
+    ['M', cx + rx, cy],
+    ['C', cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry],
+    ['C', cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy],
+    ['C', cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry],
+    ['C', cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy],
+    ['Z'],
+  ]
+}
+
+/**
+ * Revision cloud: half-circle scallops bulging out from each side of a
+ * rectangle inset by the scallop radius, so the cloud stays inside its box.
+ */
+const cloudPath = (left: number, top: number, width: number, height: number, lineWidth: number): PathCommand[] => {
+  const radius = Math.min(Math.max(MIN_CLOUD_RADIUS, lineWidth * CLOUD_RADIUS), Math.min(width, height) / 4)
+  if (radius <= 0) return rectPath(left, top, width, height)
+  const corners: [number, number][] = [
+    [left + radius, top + radius],
+    [left + width - radius, top + radius],
+    [left + width - radius, top + height - radius],
+    [left + radius, top + height - radius],
+  ]
+  const commands: PathCommand[] = [['M', corners[0][0], corners[0][1]]]
+  corners.forEach(([ax, ay], i) => {
+    const [bx, by] = corners[(i + 1) % corners.length]
+    const length = Math.hypot(bx - ax, by - ay)
+    const count = Math.max(1, Math.ceil(length / (radius * 2)))
+    const dx = (bx - ax) / length
+    const dy = (by - ay) / length
+    // Corners run clockwise on screen, so the outward normal is the direction turned left
+    const nx = dy
+    const ny = -dx
+    const r = length / count / 2
+    const k = r * KAPPA
+    for (let j = 0; j < count; j++) {
+      const sx = ax + dx * r * 2 * j
+      const sy = ay + dy * r * 2 * j
+      const px = sx + dx * r + nx * r
+      const py = sy + dy * r + ny * r
+      const ex = sx + dx * r * 2
+      const ey = sy + dy * r * 2
+      commands.push(
+        ['C', sx + nx * k, sy + ny * k, px - dx * k, py - dy * k, px, py],
+        ['C', px + dx * k, py + dy * k, ex + nx * k, ey + ny * k, ex, ey],
+      )
+    }
+  })
+  commands.push(['Z'])
+  return commands
+}
+
+/** Head at `tip` for a line arriving from `from` */
+const arrowHead = (ending: LineEnding, tip: [number, number], from: [number, number], lineWidth: number): ShapePath | null => {
+  const length = Math.hypot(tip[0] - from[0], tip[1] - from[1])
+  if (ending === 'none' || length < 1e-6) return null
+  const { length: headLength, halfWidth } = headSize(lineWidth)
+  const dx = (tip[0] - from[0]) / length
+  const dy = (tip[1] - from[1]) / length
+  const baseX = tip[0] - dx * headLength
+  const baseY = tip[1] - dy * headLength
+  const commands: PathCommand[] = [
+    ['M', baseX - dy * halfWidth, baseY + dx * halfWidth],
+    ['L', tip[0], tip[1]],
+    ['L', baseX + dy * halfWidth, baseY - dx * halfWidth],
+  ]
+  if (ending === 'closed') commands.push(['Z'])
+  return { commands, closed: ending === 'closed' }
+}
+
+// Pull a line end back so the stroke stops inside a closed head instead of poking through its tip
+const trimEnd = (tip: [number, number], from: [number, number], by: number): [number, number] => {
+  const length = Math.hypot(tip[0] - from[0], tip[1] - from[1])
+  if (length <= by) return tip
+  return [tip[0] - ((tip[0] - from[0]) / length) * by, tip[1] - ((tip[1] - from[1]) / length) * by]
+}
+
+/**
+ * Outline and arrow heads of a shape in page units (top-left origin) for a
+ * `pageWidth` x `pageHeight` page, stroked `lineWidth` wide. Box shapes are
+ * inset by half the stroke so the stroke stays inside their box.
+ */
+export const shapeGeometry = (ann: Annotation, pageWidth: number, pageHeight: number, lineWidth: number): ShapeGeometry => {
+  const points = shapePoints(ann).map(([x, y]) => [x * pageWidth, y * pageHeight] as [number, number])
+
+  if (ann.type === 'polyline' || ann.type === 'polygon') {
+    const closed = ann.type === 'polygon'
+    const commands: PathCommand[] = points.map(([x, y], i) => [i === 0 ? 'M' : 'L', x, y] as PathCommand)
+    if (closed) commands.push(['Z'])
+    return { outline: { commands, closed }, heads: [] }
+  }
+
+  if (ann.type === 'line' || ann.type === 'arrow') {
+    const [start, end] = points
+    const [startEnding, endEnding] = lineEndingsOf(ann)
+    const heads = [arrowHead(startEnding, start, end, lineWidth), arrowHead(endEnding, end, start, lineWidth)]
+    const trim = headSize(lineWidth).length * 0.8
+    const from = startEnding === 'closed' ? trimEnd(start, end, trim) : start
+    const to = endEnding === 'closed' ? trimEnd(end, start, trim) : end
+    return {
+      outline: { commands: [['M', from[0], from[1]], ['L', to[0], to[1]]], closed: false },
+      heads: heads.filter((head): head is ShapePath => head !== null),
+    }
+  }
+
+  const [[x1, y1], [x2, y2]] = points
+  const width = Math.abs(x2 - x1)
+  const height = Math.abs(y2 - y1)
+  const inset = Math.min(lineWidth / 2, width / 2, height / 2)
+  const left = Math.min(x1, x2) + inset
+  const top = Math.min(y1, y2) + inset
+  const innerWidth = width - inset * 2
+  const innerHeight = height - inset * 2
+  const commands = ann.type === 'ellipse'
+    ? ellipsePath(left, top, innerWidth, innerHeight)
+    : ann.type === 'cloud'
+      ? cloudPath(left, top, innerWidth, innerHeight, lineWidth)
+      : rectPath(left, top, innerWidth, innerHeight)
+  return { outline: { commands, closed: true }, heads: [] }
+}
+
+/** Every coordinate of a path, control points included */
+export const pathPoints = (commands: PathCommand[]): [number, number][] =>
+  commands.flatMap((command) => {
+    const values = command.slice(1) as number[]
+    const pairs: [number, number][] = []
+    for (let i = 0; i + 1 < values.length; i += 2) pairs.push([values[i], values[i + 1]])
+    return pairs
+  })
@@ -0,0 +1,89 @@
+/**
+ * Find matching over page text
+ *
+ * Builds the search pattern (literal or regular expression, whole word,
+ * case) and can fold diacritics and ligatures so "cafe" finds "café" and
+ * "office" finds "oﬃce". Hit offsets always refer to the original text.
+ */
+
+export interface TextSearchOptions {
+  caseSensitive?: boolean
+  wholeWord?: boolean
+  // Treat the search as a regular expression instead of literal text
+  regex?: boolean
+  // Ignore accents and match ligature glyphs by their letters
+  ignoreDiacritics?: boolean
+}
+
+export interface TextSearchHit {
+  start: number
+  end: number
+  text: string
+}
+
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st',
+  'Æ': 'AE',
+  'æ': 'ae',
+  'Œ': 'OE',
+  'œ': 'oe',
+}
+
+const COMBINING_MARKS = /\p{M}/gu
+
+/**
+ * `text` without diacritics and with ligatures spelled out. `starts[i]` and
+ * `ends[i]` give the span of the original character that `folded[i]` came from.
+ */
+export const foldText = (text: string) => {
+  let folded = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  let index = 0
+  for (const ch of text) {
+    const replacement = LIGATURES[ch] ?? ch.normalize('NFD').replace(COMBINING_MARKS, '')
+    for (let i = 0; i < replacement.length; i++) {
+      starts.push(index)
+      ends.push(index + ch.length)
+    }
+    folded += replacement
+    index += ch.length
+  }
+  return { folded, starts, ends }
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/** Global pattern for `search`; throws a readable error for an invalid regular expression */
+export const buildSearchRegex = (search: string, options: TextSearchOptions = {}): RegExp => {
+  const term = options.ignoreDiacritics ? foldText(search).folded : search
+  const source = options.regex ? `(?:${term})` : escapeRegex(term)
+  const boundary = options.wholeWord ? '\\b' : ''
+  try {
+    return new RegExp(`${boundary}${source}${boundary}`, options.caseSensitive ? 'g' : 'gi')
+  } catch (error) {
+    // Engine messages repeat the whole pattern; keep only the reason
+    throw new Error(`Invalid regular expression: ${(error as Error).message.split(': ').slice(-1)[0]}`)
+  }
+}
+
+/** Non-empty matches of `regex` (from `buildSearchRegex`) in `text` */
+export const findInText = (text: string, regex: RegExp, ignoreDiacritics = false): TextSearchHit[] => {
+  const folding = ignoreDiacritics ? foldText(text) : null
+  const hits: TextSearchHit[] = []
+  for (const match of (folding ? folding.folded : text).matchAll(regex)) {
+    const length = match[0].length
+    if (!length) continue
+    const index = match.index ?? 0
+    const start = folding ? folding.starts[index] : index
+    const end = folding ? folding.ends[index + length - 1] : index + length
+    hits.push({ start, end, text: text.slice(start, end) })
+  }
+  return hits
+}
@@ -0,0 +1,148 @@
+/**
+ * X.509 certificates: the fields signing and verification need, read from DER
+ */
+
+import { OID, TAG, childAt, contextChild, parseDer, readBits, readBoolean, readOid, readText, readTime, type Asn1 } from './asn1'
+
+export interface Certificate {
+  der: Uint8Array
+  // tbsCertificate: the part the issuer signed
+  tbs: Uint8Array
+  serialNumber: Uint8Array
+  // Name encodings, compared byte for byte when matching issuers
+  issuer: Uint8Array
+  subject: Uint8Array
+  issuerName: string
+  subjectName: string
+  // Subject common name, or the whole subject when it has none
+  commonName: string
+  email?: string
+  notBefore: Date
+  notAfter: Date
+  // SubjectPublicKeyInfo, as WebCrypto imports it
+  publicKey: Uint8Array
+  publicKeyAlgorithm: string
+  // Named curve of EC keys
+  curve?: string
+  signatureAlgorithm: string
+  signature: Uint8Array
+  isCA: boolean
+  subjectKeyId?: string
+  authorityKeyId?: string
+}
+
+const NAME_LABELS: Record<string, string> = {
+  [OID.commonName]: 'CN',
+  [OID.surname]: 'SN',
+  [OID.serialNumber]: 'serialNumber',
+  [OID.country]: 'C',
+  [OID.locality]: 'L',
+  [OID.state]: 'ST',
+  [OID.organization]: 'O',
+  [OID.organizationalUnit]: 'OU',
+  [OID.givenName]: 'GN',
+  [OID.emailAddress]: 'E',
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+// Attribute type and value of every RDN of a Name, in order
+const nameEntries = (name: Asn1) =>
+  name.children.flatMap((rdn) => rdn.children.map((entry) => ({ type: readOid(childAt(entry, 0)), value: readText(childAt(entry, 1)) })))
+
+/** A Name as "CN=…, O=…, C=…" (most specific first) */
+export const formatName = (name: Asn1) =>
+  nameEntries(name)
+    .reverse()
+    .map(({ type, value }) => `${NAME_LABELS[type] ?? type}=${value}`)
+    .join(', ')
+
+const extensionsOf = (tbs: Asn1) => {
+  const extensions = new Map<string, Asn1>()
+  contextChild(tbs, 3)?.children[0]?.children.forEach((extension) => {
+    const id = readOid(childAt(extension, 0))
+    // extnValue is the last element, after the optional critical flag
+    const value = extension.children[extension.children.length - 1]
+    extensions.set(id, parseDer(value.value))
+  })
+  return extensions
+}
+
+export const parseCertificate = (der: Uint8Array): Certificate => {
+  let root: Asn1
+  try {
+    root = parseDer(der)
+  } catch {
+    throw new Error('Invalid certificate: the data is not DER')
+  }
+  const tbs = childAt(root, 0, 'tbsCertificate')
+  // version [0] is optional, so the remaining fields are counted from it
+  const offset = contextChild(tbs, 0) ? 1 : 0
+  const serial = childAt(tbs, offset, 'serial number')
+  const issuer = childAt(tbs, offset + 2, 'issuer')
+  const validity = childAt(tbs, offset + 3, 'validity')
+  const subject = childAt(tbs, offset + 4, 'subject')
+  const spki = childAt(tbs, offset + 5, 'public key')
+  const keyAlgorithm = childAt(spki, 0)
+  const curve = keyAlgorithm.children[1]?.tag === TAG.OID ? readOid(keyAlgorithm.children[1]) : undefined
+
+  const extensions = extensionsOf(tbs)
+  const constraints = extensions.get(OID.basicConstraints)
+  const subjectKeyId = extensions.get(OID.subjectKeyIdentifier)
+  const authorityKeyId = extensions.get(OID.authorityKeyIdentifier)?.children.find((child) => child.tag === 0x80)
+  const entries = nameEntries(subject)
+
+  return {
+    der: root.der,
+    tbs: tbs.der,
+    serialNumber: serial.value,
+    issuer: issuer.der,
+    subject: subject.der,
+    issuerName: formatName(issuer),
+    subjectName: formatName(subject),
+    commonName: entries.filter((entry) => entry.type === OID.commonName).pop()?.value ?? formatName(subject),
+    email: entries.find((entry) => entry.type === OID.emailAddress)?.value,
+    notBefore: readTime(childAt(validity, 0)),
+    notAfter: readTime(childAt(validity, 1)),
+    publicKey: spki.der,
+    publicKeyAlgorithm: readOid(childAt(keyAlgorithm, 0)),
+    curve,
+    signatureAlgorithm: readOid(childAt(childAt(root, 1, 'signature algorithm'), 0)),
+    signature: readBits(childAt(root, 2, 'signature')),
+    isCA: !!constraints?.children[0] && readBoolean(constraints.children[0]),
+    subjectKeyId: subjectKeyId ? toHex(subjectKeyId.value) : undefined,
+    authorityKeyId: authorityKeyId ? toHex(authorityKeyId.value) : undefined,
+  }
+}
+
+export const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i])
+
+/** Certificates in a PEM file (or a single DER certificate) */
+export const readCertificates = (bytes: Uint8Array): Certificate[] => {
+  const text = new TextDecoder('latin1').decode(bytes)
+  const blocks = [...text.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g)]
+  if (!blocks.length) return [parseCertificate(bytes)]
+  return blocks.map((block) => {
+    const binary = atob(block[1].replace(/\s+/g, ''))
+    return parseCertificate(Uint8Array.from(binary, (char) => char.charCodeAt(0)))
+  })
+}
+
+/**
+ * Order `certificates` from `leaf` up towards a root by issuer name (and key
+ * identifier where present). Certificates that are not on the path are left out.
+ */
+export const certificateChain = (leaf: Certificate, certificates: Certificate[]): Certificate[] => {
+  const chain = [leaf]
+  let current = leaf
+  while (!sameBytes(current.issuer, current.subject) && chain.length < 10) {
+    const issuer = certificates.find((candidate) =>
+      !chain.includes(candidate)
+      && sameBytes(candidate.subject, current.issuer)
+      && (!current.authorityKeyId || !candidate.subjectKeyId || candidate.subjectKeyId === current.authorityKeyId))
+    if (!issuer) break
+    chain.push(issuer)
+    current = issuer
+  }
+  return chain
+}
@@ -0,0 +1,514 @@
+/**
+ * XFDF (XML Forms Data Format) annotation interchange
+ *
+ * Maps store annotations to the XFDF elements other PDF tools understand
+ * (highlight, underline, strikeout, ink, square, circle, line, polyline,
+ * polygon, freetext, text, stamp). XFDF uses PDF user space
+ * (points, bottom-left origin) and 0-based page numbers.
+ */
+
+// @ts-ignore
+import { PDFString } from 'pdf-lib'
+import type { Annotation, LineEnding } from '../types/annotations'
+import { validateAnnotation } from './annotationSchema'
+import { hexToRgb, rgbToHex } from './color'
+import { LINE_HEIGHT, STROKE_SCALE, TEXT_ASCENT, TEXT_PADDING, quadPointsOf, quadsFromPoints } from './pdfAnnotations'
+import { quadBounds } from './pageText'
+import { isWrappingTextBox, parseRichContents, richContents, runFields, textBoxFrame } from './richText'
+import { FILLABLE_SHAPES, dashArray, dashStyleOf, lineEndingsOf } from './shapes'
+
+type PageSize = { width: number; height: number }
+
+const XFDF_NAMESPACE = 'http://ns.adobe.com/xfdf/'
+
+/** Average Helvetica glyph width; XFDF rects only need to be approximate */
+const AVG_CHAR_WIDTH = 0.55
+// Text box alignment as the freetext `justification` attribute
+const JUSTIFICATIONS = { left: 'left', center: 'centered', right: 'right' } as const
+// Arrow heads as line `head` (start) and `tail` (end) styles
+const LINE_ENDING_STYLES: Record<LineEnding, string> = { none: 'None', open: 'OpenArrow', closed: 'ClosedArrow' }
+
+export interface XfdfExportOptions {
+  fileName?: string
+}
+
+export interface XfdfImportResult {
+  annotations: Annotation[]
+  skipped: number
+}
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000)
+
+const toPdfDate = (iso: string) => {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? undefined : PDFString.fromDate(date).asString()
+}
+
+const fromPdfDate = (value: string | null): string | undefined => {
+  if (!value) return undefined
+  try {
+    const date = PDFString.of(value).decodeDate()
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+  } catch {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+}
+
+const colorAttr = (value?: string) => {
+  const { r, g, b } = hexToRgb(value)
+  return rgbToHex(r, g, b).toUpperCase()
+}
+
+const cornerRect = (ann: Annotation, page: PageSize) => {
+  const x1 = (ann.startX ?? 0) * page.width
+  const x2 = (ann.endX ?? ann.startX ?? 0) * page.width
+  const y1 = page.height - (ann.startY ?? 0) * page.height
+  const y2 = page.height - (ann.endY ?? ann.startY ?? 0) * page.height
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)]
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const serializeAnnotation = (ann: Annotation, page: PageSize): string | null => {
+  const attrs: Record<string, string> = {
+    page: String(ann.page - 1),
+    name: ann.id,
+    color: colorAttr(ann.color),
+    flags: 'print',
+  }
+  if (ann.author) attrs.title = ann.author
+  const created = toPdfDate(ann.createdAt)
+  if (created) {
+    attrs.creationdate = created
+    attrs.date = created
+  }
+  if (ann.opacity != null) attrs.opacity = fmt(ann.opacity)
+
+  const children: string[] = []
+  if (ann.text) children.push(`<contents>${escapeXml(ann.text)}</contents>`)
+
+  let tag: string
+  switch (ann.type) {
+    case 'highlight':
+    case 'underline':
+    case 'strikeout': {
+      tag = ann.type
+      const coords = quadPointsOf(ann, page.width, page.height)
+      const xs = coords.filter((_, i) => i % 2 === 0)
+      const ys = coords.filter((_, i) => i % 2 === 1)
+      attrs.rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(fmt).join(',')
+      attrs.coords = coords.map(fmt).join(',')
+      break
+    }
+    case 'pen': {
+      if (!ann.points || ann.points.length < 2) return null
+      tag = 'ink'
+      const points = ann.points.map(([nx, ny]) => [nx * page.width, page.height - ny * page.height])
+      const xs = points.map((p) => p[0])
+      const ys = points.map((p) => p[1])
+      attrs.rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(fmt).join(',')
+      attrs.width = fmt(Math.max(1, (ann.strokeWidth ?? 2) * STROKE_SCALE))
+      const gesture = points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(';')
+      children.push(`<inklist><gesture>${gesture}</gesture></inklist>`)
+      break
+    }
+    case 'rectangle':
+    case 'cloud':
+    case 'ellipse':
+    case 'line':
+    case 'arrow':
+    case 'polyline':
+    case 'polygon': {
+      const lineWidth = Math.max(1, (ann.strokeWidth ?? 2) * STROKE_SCALE)
+      attrs.width = fmt(lineWidth)
+      const dashes = dashArray(ann.dashStyle, lineWidth)
+      if (dashes.length) {
+        attrs.style = 'dash'
+        attrs.dashes = dashes.map(fmt).join(',')
+      }
+      if (ann.fillColor && FILLABLE_SHAPES.includes(ann.type)) attrs['interior-color'] = colorAttr(ann.fillColor)
+      if (ann.type === 'line' || ann.type === 'arrow') {
+        tag = 'line'
+        const [x1, y1] = [(ann.startX ?? 0) * page.width, page.height - (ann.startY ?? 0) * page.height]
+        const [x2, y2] = [(ann.endX ?? ann.startX ?? 0) * page.width, page.height - (ann.endY ?? ann.startY ?? 0) * page.height]
+        attrs.rect = [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)].map(fmt).join(',')
+        attrs.start = `${fmt(x1)},${fmt(y1)}`
+        attrs.end = `${fmt(x2)},${fmt(y2)}`
+        const [head, tail] = lineEndingsOf(ann)
+        attrs.head = LINE_ENDING_STYLES[head]
+        attrs.tail = LINE_ENDING_STYLES[tail]
+        if (head === 'closed' || tail === 'closed') attrs['interior-color'] = colorAttr(ann.color)
+      } else if (ann.type === 'polyline' || ann.type === 'polygon') {
+        if (!ann.points || ann.points.length < 2) return null
+        tag = ann.type
+        const points = ann.points.map(([nx, ny]) => [nx * page.width, page.height - ny * page.height])
+        const xs = points.map((p) => p[0])
+        const ys = points.map((p) => p[1])
+        attrs.rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(fmt).join(',')
+        children.push(`<vertices>${points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(';')}</vertices>`)
+      } else {
+        tag = ann.type === 'ellipse' ? 'circle' : 'square'
+        attrs.rect = cornerRect(ann, page).map(fmt).join(',')
+        if (ann.type === 'cloud') {
+          attrs.style = 'cloudy'
+          attrs.intensity = '1'
+        }
+      }
+      break
+    }
+    case 'text-box': {
+      if (isWrappingTextBox(ann)) {
+        // Rich text boxes keep their box; the styled runs go in <contents-richtext>
+        tag = 'freetext'
+        const frame = textBoxFrame(ann, page.width, page.height)
+        const bottom = page.height - frame.top - frame.height
+        attrs.rect = [frame.left, bottom, frame.left + frame.width, page.height - frame.top].map(fmt).join(',')
+        attrs.justification = JUSTIFICATIONS[ann.textAlign ?? 'left']
+        if (ann.fillColor) attrs['interior-color'] = colorAttr(ann.fillColor)
+        const borderWidth = ann.borderColor ? ann.borderWidth ?? 0 : 0
+        attrs.width = fmt(borderWidth)
+        const { r, g, b } = hexToRgb(ann.color)
+        const border = ann.borderColor ? hexToRgb(ann.borderColor) : null
+        const borderOp = border ? ` ${fmt(border.r)} ${fmt(border.g)} ${fmt(border.b)} RG` : ''
+        children.push(`<contents-richtext>${richContents(ann)}</contents-richtext>`)
+        children.push(`<defaultappearance>/Helv ${fmt(ann.fontSize ?? 16)} Tf ${fmt(r)} ${fmt(g)} ${fmt(b)} rg${borderOp}</defaultappearance>`)
+        break
+      }
+      if (!ann.text) return null
+      tag = 'freetext'
+      const fontSize = ann.fontSize ?? 16
+      const lines = ann.text.split(/\r?\n/)
+      const longest = Math.max(...lines.map((line) => line.length), 1)
+      const baselineX = (ann.startX ?? 0) * page.width
+      const baselineY = page.height - (ann.startY ?? 0) * page.height
+      const top = baselineY + fontSize * TEXT_ASCENT + TEXT_PADDING
+      const bottom = baselineY - (lines.length - 1) * fontSize * LINE_HEIGHT - fontSize * 0.3 - TEXT_PADDING
+      const right = baselineX + longest * fontSize * AVG_CHAR_WIDTH + TEXT_PADDING
+      attrs.rect = [baselineX - TEXT_PADDING, bottom, right, top].map(fmt).join(',')
+      const { r, g, b } = hexToRgb(ann.color)
+      children.push(`<defaultappearance>/Helv ${fmt(fontSize)} Tf ${fmt(r)} ${fmt(g)} ${fmt(b)} rg</defaultappearance>`)
+      break
+    }
+    case 'sticky-note': {
+      tag = 'text'
+      const x = (ann.startX ?? 0) * page.width
+      const top = page.height - (ann.startY ?? 0) * page.height
+      const width = (ann.width ?? 0.25) * page.width
+      const height = (ann.height ?? 0.25) * page.height
+      attrs.rect = [x, top - height, x + width, top].map(fmt).join(',')
+      attrs.icon = 'Comment'
+      break
+    }
+    case 'stamp': {
+      tag = 'stamp'
+      attrs.rect = cornerRect(ann, page).map(fmt).join(',')
+      attrs.icon = 'Draft'
+      break
+    }
+    default:
+      // Signatures carry raster images, which XFDF cannot exchange portably;
+      // redaction marks only exist until they are applied, and designed
+      // form fields are exported as AcroForm fields
+      return null
+  }
+
+  const attrText = Object.entries(attrs)
+    .map(([key, value]) => `${key}="${escapeXml(value)}"`)
+    .join(' ')
+  return children.length
+    ? `    <${tag} ${attrText}>\n      ${children.join('\n      ')}\n    </${tag}>`
+    : `    <${tag} ${attrText}/>`
+}
+
+/**
+ * Serialize annotations to an XFDF document.
+ * Annotations on pages without a known size are left out.
+ */
+export const annotationsToXfdf = (
+  annotations: Annotation[],
+  pageSizes: PageSize[],
+  options: XfdfExportOptions = {},
+): string => {
+  const body = annotations
+    .filter((ann) => !ann.isDeleted)
+    .map((ann) => {
+      const page = pageSizes[ann.page - 1]
+      return page ? serializeAnnotation(ann, page) : null
+    })
+    .filter((entry): entry is string => entry !== null)
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xfdf xmlns="${XFDF_NAMESPACE}" xml:space="preserve">`,
+  ]
+  if (options.fileName) lines.push(`  <f href="${escapeXml(options.fileName)}"/>`)
+  lines.push('  <annots>', ...body, '  </annots>', '</xfdf>', '')
+  return lines.join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const numberList = (value: string | null) =>
+  (value ?? '')
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => Number.isFinite(n))
+
+const childText = (el: Element, name: string) => {
+  const child = Array.from(el.children).find((c) => c.localName === name)
+  return child?.textContent ?? undefined
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+const parseColor = (value: string | null) => (value && /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : undefined)
+
+const parseElement = (el: Element, pageSizes: PageSize[], index: number): Annotation[] => {
+  const pageIndex = Number(el.getAttribute('page'))
+  const page = Number.isInteger(pageIndex) ? pageSizes[pageIndex] : undefined
+  if (!page) return []
+
+  const rect = numberList(el.getAttribute('rect'))
+  const opacity = el.getAttribute('opacity')
+  const width = Number(el.getAttribute('width'))
+  const contents = childText(el, 'contents')
+  const base = {
+    id: el.getAttribute('name') || `xfdf-${pageIndex + 1}-${index}`,
+    page: pageIndex + 1,
+    createdAt: fromPdfDate(el.getAttribute('creationdate')) ?? fromPdfDate(el.getAttribute('date')) ?? new Date().toISOString(),
+    author: el.getAttribute('title') ?? undefined,
+    color: parseColor(el.getAttribute('color')),
+    opacity: opacity != null && Number.isFinite(Number(opacity)) ? clamp01(Number(opacity)) : undefined,
+    text: contents,
+  }
+  const strokeWidth = Number.isFinite(width) && width > 0 ? Math.round((width / STROKE_SCALE) * 10) / 10 : undefined
+  const dashStyle = el.getAttribute('style') === 'dash'
+    ? dashStyleOf(numberList(el.getAttribute('dashes')).length ? numberList(el.getAttribute('dashes')) : [3], width || 1)
+    : undefined
+
+  const fromRect = (x1: number, y1: number, x2: number, y2: number) => ({
+    startX: clamp01(Math.min(x1, x2) / page.width),
+    startY: clamp01((page.height - Math.max(y1, y2)) / page.height),
+    endX: clamp01(Math.max(x1, x2) / page.width),
+    endY: clamp01((page.height - Math.min(y1, y2)) / page.height),
+  })
+
+  switch (el.localName) {
+    case 'highlight':
+    case 'underline':
+    case 'strikeout': {
+      const quads = quadsFromPoints(numberList(el.getAttribute('coords')), page.width, page.height)
+      if (!quads.length && rect.length < 4) return []
+      return [{
+        ...base,
+        type: el.localName,
+        color: base.color ?? (el.localName === 'highlight' ? '#ffeb3b' : '#ff4545'),
+        ...(quads.length ? { ...quadBounds(quads), quads } : fromRect(rect[0], rect[1], rect[2], rect[3])),
+      }]
+    }
+    case 'ink': {
+      const inklist = Array.from(el.children).find((c) => c.localName === 'inklist')
+      const gestures = inklist ? Array.from(inklist.children).filter((c) => c.localName === 'gesture') : []
+      return gestures.flatMap((gesture, gestureIndex) => {
+        const flat = numberList(gesture.textContent)
+        const points: Array<[number, number]> = []
+        for (let i = 0; i + 1 < flat.length; i += 2) {
+          points.push([clamp01(flat[i] / page.width), clamp01((page.height - flat[i + 1]) / page.height)])
+        }
+        if (points.length < 2) return []
+        const ann: Annotation = {
+          ...base,
+          id: gestureIndex === 0 ? base.id : `${base.id}-${gestureIndex}`,
+          type: 'pen',
+          color: base.color ?? '#ff4545',
+          strokeWidth: strokeWidth ?? 2,
+          points,
+          startX: points[0][0],
+          startY: points[0][1],
+        }
+        return [ann]
+      })
+    }
+    case 'stamp': {
+      if (rect.length < 4) return []
+      return [{
+        ...base,
+        type: 'stamp',
+        color: base.color ?? '#ff4545',
+        strokeWidth,
+        text: base.text ?? el.getAttribute('icon') ?? 'Stamp',
+        ...fromRect(rect[0], rect[1], rect[2], rect[3]),
+      }]
+    }
+    case 'square':
+    case 'circle': {
+      if (rect.length < 4) return []
+      return [{
+        ...base,
+        type: el.localName === 'circle' ? 'ellipse' : el.getAttribute('style') === 'cloudy' ? 'cloud' : 'rectangle',
+        color: base.color ?? '#ff4545',
+        strokeWidth,
+        dashStyle,
+        fillColor: parseColor(el.getAttribute('interior-color')),
+        ...fromRect(rect[0], rect[1], rect[2], rect[3]),
+      }]
+    }
+    case 'line': {
+      const start = numberList(el.getAttribute('start'))
+      const end = numberList(el.getAttribute('end'))
+      if (start.length < 2 || end.length < 2) return []
+      const endings = [el.getAttribute('head'), el.getAttribute('tail')].map((style) =>
+        !style || style === 'None' ? 'none' : style === 'OpenArrow' ? 'open' : 'closed') as [LineEnding, LineEnding]
+      const isArrow = endings.some((ending) => ending !== 'none')
+      return [{
+        ...base,
+        type: isArrow ? 'arrow' : 'line',
+        color: base.color ?? '#ff4545',
+        strokeWidth,
+        dashStyle,
+        startX: clamp01(start[0] / page.width),
+        startY: clamp01((page.height - start[1]) / page.height),
+        endX: clamp01(end[0] / page.width),
+        endY: clamp01((page.height - end[1]) / page.height),
+        lineEndings: isArrow ? endings : undefined,
+      }]
+    }
+    case 'polyline':
+    case 'polygon': {
+      const flat = numberList(childText(el, 'vertices') ?? null)
+      const points: Array<[number, number]> = []
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        points.push([clamp01(flat[i] / page.width), clamp01((page.height - flat[i + 1]) / page.height)])
+      }
+      if (points.length < 2) return []
+      return [{
+        ...base,
+        type: el.localName,
+        color: base.color ?? '#ff4545',
+        strokeWidth,
+        dashStyle,
+        fillColor: el.localName === 'polygon' ? parseColor(el.getAttribute('interior-color')) : undefined,
+        points,
+        startX: points[0][0],
+        startY: points[0][1],
+      }]
+    }
+    case 'freetext': {
+      const da = childText(el, 'defaultappearance') ?? ''
+      const size = Number(da.match(/([\d.]+)\s+Tf/)?.[1])
+      const fontSize = Number.isFinite(size) && size > 0 ? size : 16
+      const rgbMatch = da.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/)
+      const textColor = rgbMatch ? rgbToHex(Number(rgbMatch[1]), Number(rgbMatch[2]), Number(rgbMatch[3])) : undefined
+      const richText = Array.from(el.children).find((c) => c.localName === 'contents-richtext')
+      if (richText && rect.length >= 4) {
+        // Rich text: keep the box, wrapping and styles
+        const rich = parseRichContents(Array.from(richText.childNodes).map((node) => new XMLSerializer().serializeToString(node)).join(''))
+        const borderMatch = da.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+RG/)
+        const borderWidth = Number.isFinite(width) && width > 0 ? width : 0
+        const justification = el.getAttribute('justification')
+        const box = fromRect(rect[0], rect[1], rect[2], rect[3])
+        return [{
+          ...base,
+          ...runFields(rich.runs),
+          type: 'text-box',
+          color: textColor ?? '#000000',
+          fillColor: parseColor(el.getAttribute('interior-color')),
+          fontSize,
+          startX: box.startX,
+          startY: box.startY,
+          width: box.endX - box.startX,
+          height: box.endY - box.startY,
+          textAlign: justification === 'centered' ? 'center' : justification === 'right' ? 'right' : justification === 'left' ? 'left' : rich.textAlign,
+          lineSpacing: rich.lineSpacing,
+          borderColor: borderMatch && borderWidth ? rgbToHex(Number(borderMatch[1]), Number(borderMatch[2]), Number(borderMatch[3])) : undefined,
+          borderWidth: borderMatch && borderWidth ? borderWidth : undefined,
+        }]
+      }
+      if (!base.text || rect.length < 4) return []
+      const left = Math.min(rect[0], rect[2])
+      const top = Math.max(rect[1], rect[3])
+      const baselineY = top - TEXT_PADDING - fontSize * TEXT_ASCENT
+      return [{
+        ...base,
+        type: 'text-box',
+        color: textColor ?? base.color ?? '#000000',
+        fontSize,
+        startX: clamp01((left + TEXT_PADDING) / page.width),
+        startY: clamp01((page.height - baselineY) / page.height),
+      }]
+    }
+    case 'text': {
+      if (rect.length < 4) return []
+      const box = fromRect(rect[0], rect[1], rect[2], rect[3])
+      return [{
+        ...base,
+        type: 'sticky-note',
+        color: base.color ?? '#fef08a',
+        text: base.text ?? '',
+        startX: box.startX,
+        startY: box.startY,
+        width: Math.max(0.02, box.endX - box.startX),
+        height: Math.max(0.02, box.endY - box.startY),
+      }]
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Parse an XFDF document into store annotations.
+ * Elements that do not map to a valid annotation are counted as skipped.
+ * Throws when the XML is malformed or is not XFDF.
+ */
+export const parseXfdf = (xml: string, pageSizes: PageSize[]): XfdfImportResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XFDF: the file is not well-formed XML')
+  }
+  const root = doc.documentElement
+  if (!root || root.localName !== 'xfdf') {
+    throw new Error('Invalid XFDF: missing <xfdf> root element')
+  }
+
+  const annotsEl = Array.from(root.children).find((c) => c.localName === 'annots')
+  const elements = annotsEl ? Array.from(annotsEl.children) : []
+  const annotations: Annotation[] = []
+  const seenIds = new Set<string>()
+  let skipped = 0
+
+  elements.forEach((el, index) => {
+    // Replies reference their parent via `inreplyto`; they have no geometry of their own
+    const parsed = el.hasAttribute('inreplyto') ? [] : parseElement(el, pageSizes, index)
+    // The same checks as JSON imports: no NaN geometry or unknown types in the store
+    const valid = parsed.flatMap((ann) => {
+      const result = validateAnnotation(ann, `annots[${index}]`)
+      return result.success ? [result.data] : []
+    })
+    if (!valid.length) {
+      skipped++
+      return
+    }
+    valid.forEach((ann) => {
+      if (seenIds.has(ann.id)) return
+      seenIds.add(ann.id)
+      annotations.push(ann)
+    })
+  })
+
+  return { annotations, skipped }
+}